@@ -0,0 +1,45 @@
+#!/usr/bin/env node
+/**
+ * 대시보드 사용자 등록/PIN 변경
+ * 사용법: npm run auth:add-user -- <username> <role> [display_name]
+ * PIN 은 프롬프트로 입력 (자동화 시 AUTH_PIN 환경 변수), bcrypt 해시로 AUTH_USERS_FILE 에 저장
+ */
+const fs = require('fs');
+const readline = require('readline');
+const { hashPin, getRoles, USERS_FILE } = require('../src/services/authService');
+
+const [username, role, displayName] = process.argv.slice(2);
+const roles = getRoles().map(definition => definition.role);
+
+if (!username || !roles.includes(role)) {
+  console.error(`사용법: npm run auth:add-user -- <username> <${roles.join('|')}> [display_name]`);
+  process.exit(1);
+}
+
+const askPin = () => new Promise(resolve => {
+  if (process.env.AUTH_PIN) return resolve(process.env.AUTH_PIN);
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  rl.question(`${username} 의 PIN: `, pin => {
+    rl.close();
+    resolve(pin.trim());
+  });
+});
+
+askPin().then(pin => {
+  const file = fs.existsSync(USERS_FILE) ? JSON.parse(fs.readFileSync(USERS_FILE, 'utf8')) : { users: [] };
+  const users = (file.users || []).filter(user => user.username !== username);
+  const existing = (file.users || []).find(user => user.username === username);
+
+  users.push({
+    username,
+    display_name: displayName || (existing && existing.display_name) || username,
+    role,
+    pin_hash: hashPin(pin)
+  });
+
+  fs.writeFileSync(USERS_FILE, JSON.stringify({ ...file, users }, null, 2) + '\n');
+  console.log(`✅ ${existing ? 'PIN/역할 변경' : '사용자 등록'}: ${username} (${role}) → ${USERS_FILE}`);
+}).catch(error => {
+  console.error('❌ 사용자 등록 실패:', error.message);
+  process.exit(1);
+});
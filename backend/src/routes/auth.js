@@ -0,0 +1,78 @@
+/**
+ * 인증 API 라우터 - 로컬 사용자 로그인과 역할/권한 조회
+ */
+const express = require('express');
+const Joi = require('joi');
+const rateLimit = require('express-rate-limit');
+const { login, getRoles } = require('../services/authService');
+const router = express.Router();
+
+// 로그인 시도 제한 (IP 별, 성공한 요청은 세지 않음) - 계정별 잠금은 authService
+const loginLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15분
+  max: 20,
+  skipSuccessfulRequests: true,
+  message: {
+    error: 'Too many login attempts',
+    retryAfter: '15 minutes'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+const loginSchema = Joi.object({
+  username: Joi.string().trim().min(1).max(64).required(),
+  pin: Joi.string().min(1).max(64).required()
+});
+
+/**
+ * @route POST /api/auth/login
+ * @desc 사용자 이름/PIN 로그인 - 명령 요청에 사용할 Bearer 토큰 발급
+ */
+router.post('/login', loginLimiter, (req, res) => {
+  const { error, value } = loginSchema.validate(req.body, { stripUnknown: true });
+  if (error) {
+    return res.status(400).json({
+      error: 'Validation error',
+      details: error.details.map(d => d.message),
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  const session = login(value.username, value.pin);
+  if (session && session.locked_until) {
+    return res.status(429).json({
+      error: 'Account locked',
+      message: 'Too many failed login attempts',
+      locked_until: session.locked_until,
+      timestamp: new Date().toISOString()
+    });
+  }
+  if (!session) {
+    return res.status(401).json({
+      error: 'Invalid credentials',
+      message: 'Unknown user or wrong PIN',
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  res.json({ success: true, ...session, timestamp: new Date().toISOString() });
+});
+
+/**
+ * @route GET /api/auth/me
+ * @desc 현재 요청의 사용자/역할 (토큰이 없으면 익명 역할)
+ */
+router.get('/me', (req, res) => {
+  res.json({ user: req.user, timestamp: new Date().toISOString() });
+});
+
+/**
+ * @route GET /api/auth/roles
+ * @desc 역할별 권한 매트릭스
+ */
+router.get('/roles', (req, res) => {
+  res.json({ roles: getRoles(), timestamp: new Date().toISOString() });
+});
+
+module.exports = router;
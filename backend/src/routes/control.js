@@ -4,6 +4,7 @@
  */
 const express = require('express');
 const Joi = require('joi');
+const { requirePermission } = require('../services/authService');
 const router = express.Router();
 
 // MQTT Processor 서비스
@@ -13,6 +14,14 @@ const setMqttService = (service) => {
   mqttService = service;
 };
 
+// 배치 명령 하나에 필요한 권한 (프론트엔드 commandSender 의 batchCommandPermission 과 같은 매핑)
+const batchCommandPermission = (command) => {
+  if (command.type === 'concentration' && command.action === 'set_target') return 'set_concentration';
+  if (command.type === 'sensor' && command.action === 'calibrate_weight') return 'calibrate';
+  // 로봇 명령은 동작 이름이 곧 권한 - 알 수 없는 동작은 어떤 역할에도 없으므로 거부됨
+  return command.type === 'robot' ? command.action : `${command.type}:${command.action}`;
+};
+
 // 입력 검증 스키마
 const schemas = {
   batchCommand: Joi.object({
@@ -43,6 +52,8 @@ const schemas = {
           }).required()
         }),
         speed: Joi.number().min(1).max(100).default(50),
+        acceleration: Joi.number().min(1).max(100).default(50),
+        blend_radius: Joi.number().min(0).max(500).default(0), // mm, 0 = 정지 후 다음 이동
         wait_time: Joi.number().min(0).default(1000) // 웨이포인트에서 대기 시간
       })
     ).min(1).max(20).required()
@@ -128,7 +139,7 @@ router.get('/status', requireMqttConnection, async (req, res) => {
  * @route POST /api/control/emergency-stop
  * @desc 전체 시스템 비상정지
  */
-router.post('/emergency-stop', requireMqttConnection, async (req, res) => {
+router.post('/emergency-stop', requirePermission('emergency_stop'), requireMqttConnection, async (req, res) => {
   try {
     const source = req.body.source || 'control_api';
     
@@ -171,7 +182,7 @@ router.post('/emergency-stop', requireMqttConnection, async (req, res) => {
  * @route POST /api/control/batch-command
  * @desc 배치 명령 실행 (여러 명령을 순차적으로 실행)
  */
-router.post('/batch-command', requireMqttConnection, validateInput(schemas.batchCommand), async (req, res) => {
+router.post('/batch-command', validateInput(schemas.batchCommand), requirePermission(req => req.validatedData.commands.map(batchCommandPermission)), requireMqttConnection, async (req, res) => {
   try {
     const { commands } = req.validatedData;
     const results = [];
@@ -260,7 +271,7 @@ router.post('/batch-command', requireMqttConnection, validateInput(schemas.batch
  * @route POST /api/control/sequential-move
  * @desc 순차적 웨이포인트 이동
  */
-router.post('/sequential-move', requireMqttConnection, validateInput(schemas.sequentialMove), async (req, res) => {
+router.post('/sequential-move', validateInput(schemas.sequentialMove), requirePermission(req => req.validatedData.waypoints.map(waypoint => (waypoint.type === 'linear' ? 'move_linear' : 'move_joint'))), requireMqttConnection, async (req, res) => {
   try {
     const { waypoints } = req.validatedData;
     const moveResults = [];
@@ -274,6 +285,8 @@ router.post('/sequential-move', requireMqttConnection, validateInput(schemas.seq
             command: 'move_joint',
             positions: waypoint.positions,
             speed: waypoint.speed,
+            acceleration: waypoint.acceleration,
+            radius: waypoint.blend_radius,
             source: 'sequential_api',
             waypoint_index: index
           };
@@ -282,6 +295,8 @@ router.post('/sequential-move', requireMqttConnection, validateInput(schemas.seq
             command: 'move_linear',
             position: waypoint.positions,
             speed: waypoint.speed,
+            acceleration: waypoint.acceleration,
+            radius: waypoint.blend_radius,
             source: 'sequential_api',
             waypoint_index: index
           };
@@ -337,7 +352,7 @@ router.post('/sequential-move', requireMqttConnection, validateInput(schemas.seq
  * @route POST /api/control/system
  * @desc 시스템 제어 명령
  */
-router.post('/system', requireMqttConnection, validateInput(schemas.systemCommand), async (req, res) => {
+router.post('/system', requirePermission('set_mode'), requireMqttConnection, validateInput(schemas.systemCommand), async (req, res) => {
   try {
     const { action, options } = req.validatedData;
     let result = null;
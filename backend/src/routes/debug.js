@@ -3,8 +3,30 @@
  * 토픽 매핑 및 데이터 흐름 검증
  */
 const express = require('express');
+const fs = require('fs');
+const path = require('path');
+const { requirePermission } = require('../services/authService');
 const router = express.Router();
 
+// 프론트엔드 토픽 레지스트리가 사용하는 논리 채널 → 토픽 매핑
+const TOPIC_MAPPING_PATH = process.env.TOPIC_MAPPING_PATH || path.join(__dirname, '../../../configs/mqtt/topic_mapping.json');
+
+// 요청마다 다시 읽어 재배포 없이 매핑 변경 반영 (읽기 실패 시 null)
+const loadTopicMapping = () => {
+  try {
+    return JSON.parse(fs.readFileSync(TOPIC_MAPPING_PATH, 'utf8'));
+  } catch (error) {
+    console.error('❌ 토픽 매핑 파일 로드 실패:', error.message);
+    return null;
+  }
+};
+
+// 테스트 발행 금지 토픽 - 로봇 제어는 권한 검사를 거치는 제어 API 로만 (RBAC 우회 방지)
+const BLOCKED_TEST_TOPIC_PREFIXES = ['robot/control/'];
+
+const isBlockedTestTopic = (topic) =>
+  BLOCKED_TEST_TOPIC_PREFIXES.some(prefix => topic.startsWith(prefix) || topic === prefix.slice(0, -1));
+
 // MQTT Processor 서비스
 let mqttService = null;
 
@@ -14,13 +36,17 @@ const setMqttService = (service) => {
 
 /**
  * @route GET /api/debug/topic-mapping
- * @desc 토픽 매핑 상태 검증
+ * @desc 토픽 매핑 설정(mapping) 및 상태 검증
  */
 router.get('/topic-mapping', async (req, res) => {
   try {
+    const mapping = loadTopicMapping();
+
     if (!mqttService) {
+      // 매핑 설정은 MQTT 연결과 무관하게 제공
       return res.status(503).json({
-        error: 'MQTT service not available'
+        error: 'MQTT service not available',
+        mapping
       });
     }
 
@@ -59,6 +85,7 @@ router.get('/topic-mapping', async (req, res) => {
         connected: !!(allData['scale/raw']),
         last_update: allData['scale/raw']?.timestamp || null
       },
+      mapping,
       timestamp: new Date().toISOString()
     };
     
@@ -148,9 +175,9 @@ router.get('/data-flow', async (req, res) => {
 
 /**
  * @route POST /api/debug/test-publish
- * @desc 테스트 메시지 발행
+ * @desc 테스트 메시지 발행 (관리자 전용, robot/control/* 토픽 제외)
  */
-router.post('/test-publish', async (req, res) => {
+router.post('/test-publish', requirePermission('debug_publish'), async (req, res) => {
   try {
     if (!mqttService || !mqttService.isHealthy()) {
       return res.status(503).json({
@@ -160,12 +187,19 @@ router.post('/test-publish', async (req, res) => {
 
     const { topic, message } = req.body;
     
-    if (!topic || !message) {
+    if (typeof topic !== 'string' || !topic || !message) {
       return res.status(400).json({
         error: 'topic and message are required'
       });
     }
 
+    if (isBlockedTestTopic(topic)) {
+      return res.status(403).json({
+        error: 'Forbidden topic',
+        message: `Robot control topics cannot be published through the debug API: ${topic}`
+      });
+    }
+
     const testMessage = {
       ...message,
       test: true,
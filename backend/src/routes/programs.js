@@ -0,0 +1,180 @@
+/**
+ * 로봇 프로그램 API 라우터
+ * 기본 레시피(configs/programs)와 사용자 프로그램(data/programs)을 관리
+ * 프로그램 파싱/검증/실행은 대시보드의 인터프리터가 담당
+ */
+const express = require('express');
+const Joi = require('joi');
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { requirePermission } = require('../services/authService');
+const router = express.Router();
+
+const BUILTIN_DIR = path.join(__dirname, '../../../configs/programs');
+const PROGRAMS_DIR = process.env.PROGRAMS_DIR || path.join('data', 'programs');
+
+// 입력 검증 스키마
+const programSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+  description: Joi.string().allow('').max(500).default(''),
+  source: Joi.string().allow('').max(100000).required()
+});
+
+const validateInput = (schema) => {
+  return (req, res, next) => {
+    const { error, value } = schema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message),
+        timestamp: new Date().toISOString()
+      });
+    }
+    req.validatedData = value;
+    next();
+  };
+};
+
+const readProgramDir = (dir, builtin) => {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .map(file => {
+      try {
+        const program = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'));
+        return { ...program, builtin };
+      } catch (error) {
+        return null;
+      }
+    })
+    .filter(program => program && program.id && typeof program.source === 'string');
+};
+
+const listPrograms = () => [
+  ...readProgramDir(BUILTIN_DIR, true),
+  ...readProgramDir(PROGRAMS_DIR, false)
+];
+
+const findProgram = (id) => listPrograms().find(program => program.id === id) || null;
+
+// ID 는 파일명으로 사용되므로 안전한 문자만 허용
+const programPath = (id) => path.join(PROGRAMS_DIR, `${id.replace(/[^a-zA-Z0-9_-]/g, '')}.json`);
+
+const writeProgram = (program) => {
+  fs.mkdirSync(PROGRAMS_DIR, { recursive: true });
+  const { builtin, ...stored } = program;
+  fs.writeFileSync(programPath(program.id), JSON.stringify(stored, null, 2));
+};
+
+const notFound = (res, id) => res.status(404).json({
+  error: 'Program not found',
+  message: `Program ${id} does not exist`,
+  timestamp: new Date().toISOString()
+});
+
+const builtinReadOnly = (res) => res.status(403).json({
+  error: 'Builtin program is read-only',
+  message: 'Save a copy to modify a builtin recipe',
+  timestamp: new Date().toISOString()
+});
+
+/**
+ * @route GET /api/programs
+ * @desc 프로그램 목록 조회
+ */
+router.get('/', (req, res) => {
+  try {
+    const programs = listPrograms();
+    res.json({
+      programs,
+      count: programs.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to list programs',
+      message: error.message,
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @route GET /api/programs/:id
+ * @desc 프로그램 조회
+ */
+router.get('/:id', (req, res) => {
+  const program = findProgram(req.params.id);
+  if (!program) return notFound(res, req.params.id);
+  res.json({ program, timestamp: new Date().toISOString() });
+});
+
+/**
+ * @route POST /api/programs
+ * @desc 프로그램 생성
+ */
+router.post('/', requirePermission('edit_program'), validateInput(programSchema), (req, res) => {
+  try {
+    const now = new Date().toISOString();
+    const program = {
+      ...req.validatedData,
+      id: `prog_${Date.now()}_${crypto.randomBytes(3).toString('hex')}`,
+      createdAt: now,
+      updatedAt: now
+    };
+    writeProgram(program);
+    res.status(201).json({ success: true, program: { ...program, builtin: false }, timestamp: now });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to create program',
+      message: error.message,
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @route PUT /api/programs/:id
+ * @desc 프로그램 수정
+ */
+router.put('/:id', requirePermission('edit_program'), validateInput(programSchema), (req, res) => {
+  try {
+    const existing = findProgram(req.params.id);
+    if (!existing) return notFound(res, req.params.id);
+    if (existing.builtin) return builtinReadOnly(res);
+
+    const program = { ...existing, ...req.validatedData, updatedAt: new Date().toISOString() };
+    writeProgram(program);
+    res.json({ success: true, program: { ...program, builtin: false }, timestamp: program.updatedAt });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to update program',
+      message: error.message,
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @route DELETE /api/programs/:id
+ * @desc 프로그램 삭제
+ */
+router.delete('/:id', requirePermission('edit_program'), (req, res) => {
+  try {
+    const existing = findProgram(req.params.id);
+    if (!existing) return notFound(res, req.params.id);
+    if (existing.builtin) return builtinReadOnly(res);
+
+    fs.unlinkSync(programPath(existing.id));
+    res.json({ success: true, id: existing.id, timestamp: new Date().toISOString() });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to delete program',
+      message: error.message,
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+module.exports = router;
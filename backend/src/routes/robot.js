@@ -8,6 +8,7 @@
  */
 const express = require('express');
 const Joi = require('joi');
+const { requirePermission } = require('../services/authService');
 const router = express.Router();
 
 // MQTT Processor 서비스 (나중에 의존성 주입으로 설정)
@@ -23,7 +24,9 @@ const schemas = {
   moveJoint: Joi.object({
     positions: Joi.array().items(Joi.number().min(-360).max(360)).length(6).required(),
     speed: Joi.number().min(1).max(100).default(50),
-    acceleration: Joi.number().min(1).max(100).default(50)
+    acceleration: Joi.number().min(1).max(100).default(50),
+    command_id: Joi.string().max(64),
+    timestamp: Joi.string().isoDate()
   }),
   
   moveLinear: Joi.object({
@@ -36,11 +39,29 @@ const schemas = {
       rz: Joi.number().min(-180).max(180).default(0)
     }).required(),
     speed: Joi.number().min(1).max(100).default(50),
-    acceleration: Joi.number().min(1).max(100).default(50)
+    acceleration: Joi.number().min(1).max(100).default(50),
+    command_id: Joi.string().max(64),
+    timestamp: Joi.string().isoDate()
   }),
   
   setSpeed: Joi.object({
-    speed: Joi.number().min(1).max(100).required()
+    speed: Joi.number().min(1).max(100).required(),
+    command_id: Joi.string().max(64),
+    timestamp: Joi.string().isoDate()
+  }),
+
+  // 안전 제어 동작 이름이 곧 필요한 권한 (configs/auth/roles.json)
+  safety: Joi.object({
+    action: Joi.string().valid(
+      'release_emergency_stop',
+      'set_power',
+      'set_motor',
+      'set_safety_mode',
+      'release_protective_stop'
+    ).required(),
+    enabled: Joi.boolean(),
+    command_id: Joi.string().max(64),
+    timestamp: Joi.string().isoDate()
   })
 };
 
@@ -188,7 +209,7 @@ router.get('/ros2-topics', requireMqttConnection, async (req, res) => {
  * @route POST /api/robot/move/joint
  * @desc 관절 이동 명령 - 로봇 연결 확인 추가
  */
-router.post('/move/joint', requireMqttConnection, requireRobotConnection, validateInput(schemas.moveJoint), async (req, res) => {
+router.post('/move/joint', requirePermission('move_joint'), requireMqttConnection, requireRobotConnection, validateInput(schemas.moveJoint), async (req, res) => {
   try {
     const commandData = {
       command: 'move_joint',
@@ -219,7 +240,7 @@ router.post('/move/joint', requireMqttConnection, requireRobotConnection, valida
  * @route POST /api/robot/move/linear
  * @desc 직선 이동 명령 - 로봇 연결 확인 추가
  */
-router.post('/move/linear', requireMqttConnection, requireRobotConnection, validateInput(schemas.moveLinear), async (req, res) => {
+router.post('/move/linear', requirePermission('move_linear'), requireMqttConnection, requireRobotConnection, validateInput(schemas.moveLinear), async (req, res) => {
   try {
     const commandData = {
       command: 'move_linear',
@@ -250,11 +271,12 @@ router.post('/move/linear', requireMqttConnection, requireRobotConnection, valid
  * @route POST /api/robot/stop
  * @desc 로봇 정지 - 로봇 연결 확인 추가
  */
-router.post('/stop', requireMqttConnection, requireRobotConnection, async (req, res) => {
+router.post('/stop', requirePermission('stop'), requireMqttConnection, requireRobotConnection, async (req, res) => {
   try {
     const commandData = {
       command: 'stop',
       immediate: true,
+      command_id: req.body.command_id,
       source: 'backend_api',
       timestamp: new Date().toISOString()
     };
@@ -281,9 +303,9 @@ router.post('/stop', requireMqttConnection, requireRobotConnection, async (req,
  * @route POST /api/robot/emergency-stop
  * @desc 비상정지 - 연결 상태와 관계없이 항상 허용
  */
-router.post('/emergency-stop', requireMqttConnection, async (req, res) => {
+router.post('/emergency-stop', requirePermission('emergency_stop'), requireMqttConnection, async (req, res) => {
   try {
-    const result = mqttService.triggerEmergencyStop('backend_api');
+    const result = mqttService.triggerEmergencyStop('backend_api', req.body.command_id);
     
     res.json({
       success: true,
@@ -305,13 +327,14 @@ router.post('/emergency-stop', requireMqttConnection, async (req, res) => {
  * @route POST /api/robot/home
  * @desc 홈 위치로 이동 - 로봇 연결 확인 추가
  */
-router.post('/home', requireMqttConnection, requireRobotConnection, async (req, res) => {
+router.post('/home', requirePermission('home'), requireMqttConnection, requireRobotConnection, async (req, res) => {
   try {
     const speed = req.body.speed || 30; // 홈 이동은 낮은 속도
     
     const commandData = {
       command: 'move_home',
       speed: Math.max(1, Math.min(50, speed)),
+      command_id: req.body.command_id,
       source: 'backend_api',
       timestamp: new Date().toISOString()
     };
@@ -338,7 +361,7 @@ router.post('/home', requireMqttConnection, requireRobotConnection, async (req,
  * @route POST /api/robot/speed
  * @desc 로봇 속도 설정 - 로봇 연결 확인 추가
  */
-router.post('/speed', requireMqttConnection, requireRobotConnection, validateInput(schemas.setSpeed), async (req, res) => {
+router.post('/speed', requirePermission('set_speed'), requireMqttConnection, requireRobotConnection, validateInput(schemas.setSpeed), async (req, res) => {
   try {
     const commandData = {
       command: 'set_speed',
@@ -365,6 +388,37 @@ router.post('/speed', requireMqttConnection, requireRobotConnection, validateInp
   }
 });
 
+/**
+ * @route POST /api/robot/safety
+ * @desc 안전 제어 (비상정지 해제, 전원/모터, 안전 모드, 보호 정지 해제) - 동작별 권한 확인
+ */
+router.post('/safety', validateInput(schemas.safety), requirePermission(req => req.validatedData.action), requireMqttConnection, async (req, res) => {
+  try {
+    const commandData = {
+      command: 'safety',
+      ...req.validatedData,
+      requested_by: req.user.username,
+      source: 'backend_api',
+      timestamp: new Date().toISOString()
+    };
+
+    const result = await mqttService.publishRobotCommand('safety', commandData);
+
+    res.json({
+      success: true,
+      message: `Safety command sent: ${req.validatedData.action}`,
+      command: result,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to send safety command',
+      message: error.message,
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
 /**
  * @route GET /api/robot/history
  * @desc 로봇 제어 명령 히스토리
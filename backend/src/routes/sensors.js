@@ -8,6 +8,7 @@
  */
 const express = require('express');
 const Joi = require('joi');
+const { requirePermission } = require('../services/authService');
 const router = express.Router();
 
 // MQTT Processor 서비스
@@ -174,7 +175,7 @@ router.get('/weight/history', requireMqttConnection, async (req, res) => {
  * @route POST /api/sensors/weight/calibrate
  * @desc 무게센서 캘리브레이션 - 토픽명 수정
  */
-router.post('/weight/calibrate', requireMqttConnection, validateInput(schemas.calibrateWeight), async (req, res) => {
+router.post('/weight/calibrate', requirePermission('calibrate'), requireMqttConnection, validateInput(schemas.calibrateWeight), async (req, res) => {
   try {
     const { offset } = req.validatedData;
     
@@ -260,7 +261,7 @@ router.get('/concentration', requireMqttConnection, async (req, res) => {
  * @route POST /api/sensors/concentration/target
  * @desc 목표 농도 설정
  */
-router.post('/concentration/target', requireMqttConnection, validateInput(schemas.setConcentration), async (req, res) => {
+router.post('/concentration/target', requirePermission('set_concentration'), requireMqttConnection, validateInput(schemas.setConcentration), async (req, res) => {
   try {
     const { target, source } = req.validatedData;
     const result = mqttService.setConcentrationTarget(target, source);
@@ -17,6 +17,9 @@ require('dotenv').config();
 // 서비스 및 라우터 import
 const MqttProcessorService = require('./services/mqttProcessor');
 const apiRouter = require('./routes/api');
+const programsRouter = require('./routes/programs');
+const authRouter = require('./routes/auth');
+const { authenticate } = require('./services/authService');
 const { router: robotRouter, setMqttService: setRobotMqttService } = require('./routes/robot');
 const { router: sensorsRouter, setMqttService: setSensorsMqttService } = require('./routes/sensors');
 const { router: controlRouter, setMqttService: setControlMqttService } = require('./routes/control');
@@ -126,12 +129,15 @@ const initializeRouters = () => {
   logger.info('🔧 MQTT service injected into all routers');
 };
 
-// API 라우터 설정
+// API 라우터 설정 (모든 API 요청에 로그인 역할 부여, 명령 라우트는 requirePermission 으로 검사)
+app.use('/api', authenticate);
+app.use('/api/auth', authRouter);
 app.use('/api', apiRouter);
 app.use('/api/robot', robotRouter);
 app.use('/api/sensors', sensorsRouter);
 app.use('/api/control', controlRouter);
 app.use('/api/debug', debugRouter);
+app.use('/api/programs', programsRouter);
 
 // 기본 라우트
 app.get('/', (req, res) => {
@@ -152,6 +158,7 @@ app.get('/', (req, res) => {
       sensors: '/api/sensors/*', 
       control: '/api/control/*',
       debug: '/api/debug/*',
+      programs: '/api/programs/*',
       health: '/health',
       websocket: 'ws://localhost:8080'
     },
@@ -242,6 +249,13 @@ app.get('/api-docs', (req, res) => {
         'POST /api/control/system': 'System control commands',
         'GET /api/control/logs': 'Get control logs'
       },
+      programs: {
+        'GET /api/programs': 'List robot programs (builtin recipes + saved programs)',
+        'GET /api/programs/:id': 'Get robot program',
+        'POST /api/programs': 'Create robot program',
+        'PUT /api/programs/:id': 'Update robot program',
+        'DELETE /api/programs/:id': 'Delete robot program'
+      },
       debug: {
         'GET /api/debug/topic-mapping': 'Verify MQTT topic mapping status',
         'GET /api/debug/data-flow': 'Analyze data flow between components',
@@ -267,6 +281,7 @@ app.use('*', (req, res) => {
       '/api/sensors/*', 
       '/api/control/*',
       '/api/debug/*',
+      '/api/programs/*',
       '/health',
       '/api-docs'
     ],
@@ -321,6 +336,26 @@ const setupMqttEventHandlers = () => {
       });
     });
     
+    // 🎯 ROS2 노드 / 서비스 리스트 브로드캐스트 (ROS2 탐색기)
+    mqttService.on('ros2Graph', ({ topic, data }) => {
+      websocketRouter.wsManager.broadcast({
+        type: 'mqtt_message',
+        topic: topic,
+        data: data,
+        timestamp: new Date().toISOString()
+      });
+    });
+    
+    // 🎯 로봇 명령 응답 브로드캐스트 (프론트엔드 명령 큐 상태 추적)
+    mqttService.on('robotResponse', (data) => {
+      websocketRouter.wsManager.broadcast({
+        type: 'mqtt_message',
+        topic: 'robot/response',
+        data: data,
+        timestamp: new Date().toISOString()
+      });
+    });
+    
     // 🎯 농도 데이터 브로드캐스트
     mqttService.on('concentration', (data) => {
       websocketRouter.wsManager.broadcast({
@@ -0,0 +1,182 @@
+/**
+ * 로컬 인증 서비스 - 역할 기반 명령 권한 (configs/auth/roles.json, 대시보드와 공유)
+ * 사용자/PIN 은 configs/auth/users.json (AUTH_USERS_FILE 로 교체 가능, bcrypt 해시), 토큰은 AUTH_SECRET 으로 서명한 JWT
+ * 기본 계정은 배포하지 않음 - `npm run auth:add-user` 로 등록
+ * 토큰이 없는 요청은 anonymous_role(관찰자) 권한으로 처리
+ */
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const bcrypt = require('bcryptjs');
+const jwt = require('jsonwebtoken');
+
+const CONFIG_DIR = path.join(__dirname, '../../../configs/auth');
+const ROLES_FILE = path.join(CONFIG_DIR, 'roles.json');
+const USERS_FILE = process.env.AUTH_USERS_FILE || path.join(CONFIG_DIR, 'users.json');
+const TOKEN_TTL = process.env.AUTH_TOKEN_TTL || '8h';
+const BCRYPT_ROUNDS = 12;
+const MIN_PIN_LENGTH = 6;
+const MAX_FAILED_LOGINS = 5;                   // 연속 실패 허용 횟수 (계정별)
+const LOCKOUT_MS = 15 * 60 * 1000;             // 잠금 시간
+
+if (!process.env.AUTH_SECRET && process.env.NODE_ENV === 'production') {
+  console.warn('⚠️ AUTH_SECRET 이 설정되지 않아 임시 서명 키를 사용합니다 (재시작 시 로그인 토큰 무효화)');
+}
+const AUTH_SECRET = process.env.AUTH_SECRET || crypto.randomBytes(32).toString('hex');
+
+const rolesConfig = JSON.parse(fs.readFileSync(ROLES_FILE, 'utf8'));
+
+// 상속(inherits)을 따라 역할의 전체 권한 계산
+const resolvePermissions = (role, visited = []) => {
+  const definition = rolesConfig.roles[role];
+  if (!definition || visited.includes(role)) return [];
+  const inherited = definition.inherits ? resolvePermissions(definition.inherits, [...visited, role]) : [];
+  return [...new Set([...inherited, ...definition.permissions])];
+};
+
+const rolePermissions = Object.keys(rolesConfig.roles).reduce((matrix, role) => {
+  matrix[role] = new Set(resolvePermissions(role));
+  return matrix;
+}, {});
+
+const loadUsers = () => {
+  try {
+    return JSON.parse(fs.readFileSync(USERS_FILE, 'utf8')).users || [];
+  } catch (error) {
+    console.error('❌ 사용자 파일을 읽을 수 없습니다:', USERS_FILE, error.message);
+    return [];
+  }
+};
+
+/**
+ * PIN 해시 (bcrypt, 솔트 포함) - 사용자 등록 스크립트에서 사용
+ */
+const hashPin = (pin) => {
+  if (!new RegExp(`^\\d{${MIN_PIN_LENGTH},}$`).test(String(pin))) {
+    throw new Error(`PIN 은 ${MIN_PIN_LENGTH}자리 이상의 숫자여야 합니다`);
+  }
+  return bcrypt.hashSync(String(pin), BCRYPT_ROUNDS);
+};
+
+// 없는 사용자도 같은 비용으로 비교해 응답 시간으로 계정 존재 여부가 드러나지 않게 함
+const DUMMY_HASH = bcrypt.hashSync(crypto.randomBytes(16).toString('hex'), BCRYPT_ROUNDS);
+
+// 계정별 연속 실패 기록 - Map<username, { failures, lockedUntil }>
+const failedLogins = new Map();
+
+const getLockout = (username) => {
+  const entry = failedLogins.get(username);
+  if (!entry || !entry.lockedUntil) return null;
+  if (entry.lockedUntil <= Date.now()) {
+    failedLogins.delete(username);
+    return null;
+  }
+  return new Date(entry.lockedUntil).toISOString();
+};
+
+const recordFailure = (username) => {
+  const entry = failedLogins.get(username) || { failures: 0, lockedUntil: null };
+  entry.failures += 1;
+  if (entry.failures >= MAX_FAILED_LOGINS) {
+    entry.failures = 0;
+    entry.lockedUntil = Date.now() + LOCKOUT_MS;
+    console.warn(`🔒 로그인 ${MAX_FAILED_LOGINS}회 연속 실패 - 계정 잠금: ${username}`);
+  }
+  failedLogins.set(username, entry);
+};
+
+const hasPermission = (role, permission) => Boolean(rolePermissions[role] && rolePermissions[role].has(permission));
+
+/**
+ * 사용자 이름/PIN 확인 후 토큰 발급 - 실패 시 null, 잠긴 계정은 { locked_until }
+ */
+const login = (username, pin) => {
+  const lockedUntil = getLockout(username);
+  if (lockedUntil) {
+    return { locked_until: lockedUntil };
+  }
+
+  const account = loadUsers().find(user => user.username === username);
+  const valid = bcrypt.compareSync(String(pin), account && account.pin_hash ? account.pin_hash : DUMMY_HASH);
+  if (!account || !valid) {
+    recordFailure(username);
+    return null;
+  }
+  failedLogins.delete(username);
+
+  const user = { username: account.username, display_name: account.display_name, role: account.role };
+  const token = jwt.sign({ sub: user.username, name: user.display_name, role: user.role }, AUTH_SECRET, { expiresIn: TOKEN_TTL });
+  const { exp } = jwt.decode(token);
+
+  return { token, user, expires_at: new Date(exp * 1000).toISOString() };
+};
+
+/**
+ * 미들웨어: Bearer 토큰 해석 → req.user (토큰이 없거나 잘못되면 익명 역할)
+ * 잘못된/만료된 토큰은 req.authError 로 남겨 권한이 필요한 요청에서만 401 로 응답
+ */
+const authenticate = (req, res, next) => {
+  const header = req.headers.authorization || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  req.user = { username: null, display_name: '익명', role: rolesConfig.anonymous_role };
+
+  if (match) {
+    try {
+      const payload = jwt.verify(match[1], AUTH_SECRET);
+      req.user = { username: payload.sub, display_name: payload.name, role: payload.role };
+    } catch (error) {
+      req.authError = error.name === 'TokenExpiredError' ? 'Login session expired' : 'Invalid authentication token';
+    }
+  }
+  next();
+};
+
+/**
+ * 미들웨어: 권한 확인 (permission 은 함수로 요청별 계산 가능, 배열이면 모두 필요)
+ */
+const requirePermission = (permission) => {
+  return (req, res, next) => {
+    const resolved = typeof permission === 'function' ? permission(req) : permission;
+    const role = (req.user && req.user.role) || rolesConfig.anonymous_role;
+    const permissions = Array.isArray(resolved) ? resolved : [resolved];
+    const required = permissions.find(candidate => !hasPermission(role, candidate)) || permissions[0];
+
+    if (req.authError && !hasPermission(role, required)) {
+      return res.status(401).json({
+        error: 'Invalid token',
+        message: req.authError,
+        required_permission: required,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    if (!hasPermission(role, required)) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: `Role '${role}' is not allowed to perform '${required}'`,
+        required_permission: required,
+        role,
+        timestamp: new Date().toISOString()
+      });
+    }
+    next();
+  };
+};
+
+const getRoles = () => Object.keys(rolesConfig.roles).map(role => ({
+  role,
+  label: rolesConfig.roles[role].label,
+  description: rolesConfig.roles[role].description,
+  permissions: [...rolePermissions[role]]
+}));
+
+module.exports = {
+  login,
+  hashPin,
+  USERS_FILE,
+  authenticate,
+  requirePermission,
+  hasPermission,
+  getRoles,
+  anonymousRole: rolesConfig.anonymous_role
+};
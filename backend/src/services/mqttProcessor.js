@@ -144,6 +144,10 @@ class MqttProcessorService extends EventEmitter {
       // 🟢 ROS2 토픽 리스트 (모든 토픽이 JSON으로 묶여서 전송)
       'test': 'ros2Topics',
       
+      // 🟢 ROS2 노드 / 서비스 리스트 (ROS2 탐색기)
+      'ros2_node_list': 'ros2Graph',
+      'ros2_service_list': 'ros2Graph',
+      
       // 🟢 무게센서 데이터 (아두이노에서 전송)
       'scale/raw': 'weightSensor',
       
@@ -158,6 +162,9 @@ class MqttProcessorService extends EventEmitter {
       'robot/control/home': 'robotControl',
       'robot/control/speed': 'robotControl',
       
+      // 🟢 로봇 명령 응답 (명령 큐 상태 추적)
+      'robot/response': 'robotResponse',
+      
       // 🟢 시스템 헬스
       'system/health': 'systemHealth',
       
@@ -171,8 +178,8 @@ class MqttProcessorService extends EventEmitter {
     if (topicEventMap[topic]) {
       const eventName = topicEventMap[topic];
 
-      // 로봇 제어는 topic 포함 전달
-      if (eventName === 'robotControl') {
+      // 로봇 제어 / ROS2 그래프는 topic 포함 전달
+      if (eventName === 'robotControl' || eventName === 'ros2Graph') {
         this.emit(eventName, { topic, data });
       } else {
         this.emit(eventName, data);
@@ -299,12 +306,13 @@ class MqttProcessorService extends EventEmitter {
   }
 
   // 비상정지
-  triggerEmergencyStop(source = 'backend_api') {
+  triggerEmergencyStop(source = 'backend_api', commandId = undefined) {
     const success = this.sendMessage({
       type: 'publish',
       topic: 'robot/control/emergency_stop',
       message: {
         command: 'emergency_stop',
+        command_id: commandId,
         source: source,
         timestamp: new Date().toISOString()
       }
@@ -1,9 +1,19 @@
 const WebSocket = require('ws');
+const {
+  PROTOCOL_VERSION,
+  SUPPORTED_VERSIONS,
+  ERROR_CODES,
+  validateClientFrame,
+  validateServerFrame,
+  isSupportedVersion,
+  createErrorFrame
+} = require('./wsProtocol');
 
 class WebSocketManager {
   constructor(logger = console) {
     this.clients = new Map(); // Map<clientId, WebSocket>
     this.subscriptions = new Map(); // Map<clientId, Set<topics>>
+    this.protocolVersions = new Map(); // Map<clientId, version> (0 = legacy client)
     this.logger = logger;
     this.server = null;
   }
@@ -16,25 +26,31 @@ class WebSocketManager {
       this.clients.set(clientId, ws);
       this.logger.info(`🔌 WebSocket client connected: ${clientId}`);
 
-      ws.send(JSON.stringify({
+      this.sendTo(clientId, {
         type: 'connection',
         message: 'Connected to Robot Dashboard',
         clientId,
+        protocolVersion: PROTOCOL_VERSION,
+        supportedVersions: SUPPORTED_VERSIONS,
         timestamp: new Date().toISOString()
-      }));
+      });
 
       ws.on('message', (message) => {
+        let data;
         try {
-          const data = JSON.parse(message);
-          this.handleMessage(clientId, data);
+          data = JSON.parse(message);
         } catch (err) {
           this.logger.warn(`⚠️ WebSocket message parse error from ${clientId}:`, err.message);
+          this.sendTo(clientId, createErrorFrame(ERROR_CODES.INVALID_JSON, 'Message is not valid JSON'));
+          return;
         }
+        this.handleMessage(clientId, data);
       });
 
       ws.on('close', () => {
         this.clients.delete(clientId);
         this.subscriptions.delete(clientId);
+        this.protocolVersions.delete(clientId);
         this.logger.info(`❌ WebSocket client disconnected: ${clientId}`);
       });
     });
@@ -43,6 +59,14 @@ class WebSocketManager {
   handleMessage(clientId, data) {
     this.logger.debug(`📩 Message from ${clientId}:`, data);
 
+    // 알 수 없는 종류/필드 누락은 조용히 무시하지 않고 error 프레임(unknown_type/invalid_frame)으로 응답
+    const invalid = validateClientFrame(data);
+    if (invalid) {
+      this.logger.warn(`⚠️ Invalid frame from ${clientId}: ${invalid.message}`);
+      this.sendTo(clientId, createErrorFrame(invalid.code, invalid.message, data && data.type));
+      return;
+    }
+
     switch (data.type) {
       case 'connection':
         this.handleConnection(clientId, data);
@@ -62,39 +86,50 @@ class WebSocketManager {
       case 'command':
         this.handleCommand(clientId, data);
         break;
-      default:
-        this.logger.debug(`❓ Unknown message type from ${clientId}: ${data.type}`);
     }
   }
 
   handleConnection(clientId, data) {
-    this.logger.info(`🔗 Connection acknowledged from ${clientId}`);
-    
-    // Send acknowledgment back to client
-    const ws = this.clients.get(clientId);
-    if (ws && ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify({
-        type: 'connection_acknowledged',
-        message: 'Connection established successfully',
-        serverTime: new Date().toISOString()
-      }));
+    // protocolVersion 이 없으면 구버전 클라이언트 - 기존 형식 그대로 응답
+    const version = data.protocolVersion;
+    if (version === undefined || version === null) {
+      this.protocolVersions.set(clientId, 0);
+      this.logger.info(`🔗 Connection acknowledged from ${clientId} (legacy client)`);
+    } else {
+      this.protocolVersions.set(clientId, version);
+      this.logger.info(`🔗 Connection acknowledged from ${clientId} (protocol v${version})`);
+      if (!isSupportedVersion(version)) {
+        this.sendTo(clientId, createErrorFrame(
+          ERROR_CODES.UNSUPPORTED_VERSION,
+          `Unsupported protocol version ${version} (supported: ${SUPPORTED_VERSIONS.join(', ')})`,
+          'connection'
+        ));
+      }
     }
+
+    // Send acknowledgment back to client
+    this.sendTo(clientId, {
+      type: 'connection_acknowledged',
+      message: 'Connection established successfully',
+      protocolVersion: PROTOCOL_VERSION,
+      serverTime: new Date().toISOString()
+    });
   }
 
   handleConnectionAck(clientId, data) {
-    this.logger.info(`✅ Connection fully established with ${clientId}`);
+    if (data.protocolVersion !== undefined) {
+      this.protocolVersions.set(clientId, data.protocolVersion);
+    }
+    this.logger.info(`✅ Connection fully established with ${clientId} (protocol v${this.protocolVersions.get(clientId) || 0})`);
   }
 
   handlePing(clientId, data) {
     this.logger.debug(`🏓 Ping received from ${clientId}`);
-    const ws = this.clients.get(clientId);
-    if (ws && ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify({
-        type: 'pong',
-        timestamp: new Date().toISOString(),
-        originalTimestamp: data.timestamp
-      }));
-    }
+    this.sendTo(clientId, {
+      type: 'pong',
+      timestamp: new Date().toISOString(),
+      originalTimestamp: data.timestamp
+    });
   }
 
   unsubscribeFromTopic(clientId, topic) {
@@ -102,6 +137,7 @@ class WebSocketManager {
       this.subscriptions.get(clientId).delete(topic);
       this.logger.info(`📡 Client ${clientId} unsubscribed from topic: ${topic}`);
     }
+    this.sendTo(clientId, { type: 'unsubscribed', topic, timestamp: new Date().toISOString() });
   }
 
   subscribeToTopic(clientId, topic) {
@@ -110,6 +146,7 @@ class WebSocketManager {
     }
     this.subscriptions.get(clientId).add(topic);
     this.logger.info(`📡 Client ${clientId} subscribed to topic: ${topic}`);
+    this.sendTo(clientId, { type: 'subscribed', topic, timestamp: new Date().toISOString() });
   }
 
   handleCommand(clientId, data) {
@@ -117,8 +154,24 @@ class WebSocketManager {
     this.logger.info(`🎮 Command received from ${clientId}:`, data.command);
   }
 
+  sendTo(clientId, frame) {
+    const ws = this.clients.get(clientId);
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(frame));
+    }
+  }
+
   broadcast(data) {
-    const message = JSON.stringify(data);
+    const frame = { ...data, timestamp: data.timestamp || new Date().toISOString() };
+
+    // 프로토콜과 필드 이름이 다른 프레임은 클라이언트가 거부하므로 여기서 바로 드러냄
+    const invalid = validateServerFrame(frame);
+    if (invalid) {
+      this.logger.error(`🚨 Invalid broadcast frame dropped: ${invalid.message}`);
+      return;
+    }
+
+    const message = JSON.stringify(frame);
 
     for (const [clientId, ws] of this.clients.entries()) {
       if (ws.readyState === WebSocket.OPEN) {
@@ -0,0 +1,82 @@
+/**
+ * WebSocket 프로토콜 정의 (서버 측)
+ * - 프레임 종류/필드는 configs/websocket/protocol.json 한 곳에서 정의 (프론트엔드 utils/wsProtocol.ts 와 공유)
+ * - 필드 이름을 바꾸면 스키마만 수정 - 양쪽 검증기가 같은 정의에서 만들어짐
+ */
+const fs = require('fs');
+const path = require('path');
+
+const SCHEMA_FILE = path.join(__dirname, '../../../configs/websocket/protocol.json');
+const schema = JSON.parse(fs.readFileSync(SCHEMA_FILE, 'utf8'));
+
+const PROTOCOL_VERSION = schema.version;
+const SUPPORTED_VERSIONS = schema.supported_versions;
+const ERROR_CODES = schema.error_codes;
+
+const matchesKind = (value, kind) => {
+  if (kind === 'present') return value !== undefined;
+  if (kind === 'array') return Array.isArray(value);
+  return typeof value === kind;
+};
+
+function checkFields(frame, framesByType) {
+  if (!frame || typeof frame !== 'object' || Array.isArray(frame)) {
+    return { code: ERROR_CODES.INVALID_FRAME, message: 'Frame must be a JSON object' };
+  }
+  if (!Object.prototype.hasOwnProperty.call(framesByType, frame.type)) {
+    return { code: ERROR_CODES.UNKNOWN_TYPE, message: `Unknown message type: ${frame.type}` };
+  }
+
+  // 필수 필드는 이름/타입 확인, 선택 필드는 값이 있을 때만 타입 확인
+  const { required = {}, optional = {} } = framesByType[frame.type];
+  for (const [field, kind] of Object.entries(required)) {
+    if (!matchesKind(frame[field], kind)) {
+      return { code: ERROR_CODES.INVALID_FRAME, message: `${frame.type} frame requires ${kind === 'present' ? '' : kind + ' '}field "${field}"` };
+    }
+  }
+  for (const [field, kind] of Object.entries(optional)) {
+    const value = frame[field];
+    if (value !== undefined && value !== null && !matchesKind(value, kind)) {
+      return { code: ERROR_CODES.INVALID_FRAME, message: `${frame.type} frame field "${field}" must be ${kind}` };
+    }
+  }
+  return null;
+}
+
+/**
+ * 클라이언트 프레임 검증 - 문제가 없으면 null, 있으면 { code, message }
+ */
+function validateClientFrame(frame) {
+  return checkFields(frame, schema.client_frames);
+}
+
+/**
+ * 서버 프레임 검증 - 브로드캐스트 전에 필드 이름 불일치를 잡아냄
+ */
+function validateServerFrame(frame) {
+  return checkFields(frame, schema.server_frames);
+}
+
+function isSupportedVersion(version) {
+  return SUPPORTED_VERSIONS.includes(version);
+}
+
+function createErrorFrame(code, message, requestType) {
+  return {
+    type: 'error',
+    code,
+    message,
+    ...(requestType && { requestType }),
+    timestamp: new Date().toISOString()
+  };
+}
+
+module.exports = {
+  PROTOCOL_VERSION,
+  SUPPORTED_VERSIONS,
+  ERROR_CODES,
+  validateClientFrame,
+  validateServerFrame,
+  isSupportedVersion,
+  createErrorFrame
+};
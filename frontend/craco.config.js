@@ -39,6 +39,11 @@ module.exports = {
         "worker_threads": false
       };
       
+      // 공용 설정(../configs/*.json)을 src 에서 import 할 수 있도록 ModuleScopePlugin 제거
+      webpackConfig.resolve.plugins = (webpackConfig.resolve.plugins || []).filter(
+        (plugin) => plugin.constructor.name !== 'ModuleScopePlugin'
+      );
+
       // 경고 무시
       webpackConfig.ignoreWarnings = [
         /Failed to parse source map/,
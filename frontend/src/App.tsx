@@ -11,6 +11,11 @@ import { WebSocketProvider } from './contexts/WebSocketContext';
 import { RobotStateProvider } from './contexts/RobotStateContext';
 import { MqttProvider } from './contexts/MqttContext';
 import { ThemeProvider } from './contexts/ThemeContext';
+import { SafetyInteractionProvider } from './contexts/SafetyInteractionContext';
+
+// 서비스
+import { topicRegistry } from './services/topicRegistry';
+import { settingsService } from './services/settingsService';
 
 // 레이아웃 컴포넌트
 import MainLayout from './components/layout/MainLayout';
@@ -23,6 +28,10 @@ import RobotControl from './pages/RobotControl';
 import SensorMonitoring from './pages/SensorMonitoring';
 import DataVisualization from './pages/DataVisualization';
 import Settings from './pages/Settings';
+import PouringSessions from './pages/PouringSessions';
+import Audit from './pages/Audit';
+import ROS2Explorer from './pages/ROS2Explorer';
+import MqttInspector from './pages/MqttInspector';
 import ScrollTestPage from './components/debug/ScrollTestPage';
 
 // 스타일
@@ -33,10 +42,21 @@ import './styles/dashboard.css';
 function App() {
   const [isLoading, setIsLoading] = useState(true);
   const [systemReady, setSystemReady] = useState(false);
+  const [toastDuration, setToastDuration] = useState(() => settingsService.getSettings().notifications.toastDuration);
+
+  // 알림 표시 시간 (설정 페이지에서 변경 시 즉시 반영)
+  useEffect(() => {
+    const handleSettingsChange = () => setToastDuration(settingsService.getSettings().notifications.toastDuration);
+    settingsService.onChange(handleSettingsChange);
+    return () => settingsService.offChange(handleSettingsChange);
+  }, []);
 
   // 시스템 초기화 확인
   useEffect(() => {
     const initializeSystem = async () => {
+      // 토픽 매핑 로드 (MQTT 구독 전에 완료, 실패 시 번들 매핑 사용)
+      await topicRegistry.load();
+
       try {
         // 백엔드 헬스체크
         const response = await fetch('/health');
@@ -69,66 +89,80 @@ function App() {
         <RobotStateProvider>
           <MqttProvider>
             <WebSocketProvider>
-              <Router>
-                <div className="App flex-1 bg-gray-50 dark:bg-gray-900 transition-colors flex flex-col">
-                  {/* 전역 알림 */}
-                  <Toaster
-                    position="top-right"
-                    toastOptions={{
-                      duration: 4000,
-                      style: {
-                        background: '#363636',
-                        color: '#fff',
-                      },
-                      success: {
-                        duration: 3000,
-                        iconTheme: {
-                          primary: '#10b981',
-                          secondary: '#fff',
+              <SafetyInteractionProvider>
+                <Router>
+                  <div className="App flex-1 bg-gray-50 dark:bg-gray-900 transition-colors flex flex-col">
+                    {/* 전역 알림 */}
+                    <Toaster
+                      position="top-right"
+                      toastOptions={{
+                        duration: toastDuration,
+                        style: {
+                          background: '#363636',
+                          color: '#fff',
+                        },
+                        success: {
+                          duration: 3000,
+                          iconTheme: {
+                            primary: '#10b981',
+                            secondary: '#fff',
+                          },
                         },
-                      },
-                      error: {
-                        duration: 5000,
-                        iconTheme: {
-                          primary: '#ef4444',
-                          secondary: '#fff',
+                        error: {
+                          duration: 5000,
+                          iconTheme: {
+                            primary: '#ef4444',
+                            secondary: '#fff',
+                          },
                         },
-                      },
-                    }}
-                  />
+                      }}
+                    />
 
-                  {/* 시스템 상태 알림 */}
-                  {!systemReady && (
-                    <div className="bg-yellow-500 text-white text-center py-2 text-sm z-50 flex-shrink-0">
-                      ⚠️ 시스템이 완전히 준비되지 않았습니다. 일부 기능이 제한될 수 있습니다.
-                    </div>
-                  )}
+                    {/* 시스템 상태 알림 */}
+                    {!systemReady && (
+                      <div className="bg-yellow-500 text-white text-center py-2 text-sm z-50 flex-shrink-0">
+                        ⚠️ 시스템이 완전히 준비되지 않았습니다. 일부 기능이 제한될 수 있습니다.
+                      </div>
+                    )}
 
-                  <div className="flex-1 flex flex-col min-h-0">
-                    <Routes>
-                      <Route path="/" element={<MainLayout />}>
-                        {/* 메인 대시보드 */}
-                        <Route index element={<Dashboard />} />
-                        
-                        {/* 로봇 제어 */}
-                        <Route path="robot" element={<RobotControl />} />
-                        
-                        {/* 센서 모니터링 */}
-                        <Route path="sensors" element={<SensorMonitoring />} />
-                        
-                        {/* 데이터 시각화 */}
-                        <Route path="data" element={<DataVisualization />} />
-                        
-                        {/* 설정 */}
-                        <Route path="settings" element={<Settings />} />
-                        
-                        {/* 스크롤 테스트 */}
-                        <Route path="scroll-test" element={<ScrollTestPage />} />
-                      </Route>
-                    </Routes>
+                    <div className="flex-1 flex flex-col min-h-0">
+                      <Routes>
+                        <Route path="/" element={<MainLayout />}>
+                          {/* 메인 대시보드 */}
+                          <Route index element={<Dashboard />} />
+                          
+                          {/* 로봇 제어 */}
+                          <Route path="robot" element={<RobotControl />} />
+                          
+                          {/* 센서 모니터링 */}
+                          <Route path="sensors" element={<SensorMonitoring />} />
+                          
+                          {/* 데이터 시각화 */}
+                          <Route path="data" element={<DataVisualization />} />
+                          
+                          {/* 붓기 세션 리포트 */}
+                          <Route path="sessions" element={<PouringSessions />} />
+                          
+                          {/* ROS2 탐색기 */}
+                          <Route path="ros2" element={<ROS2Explorer />} />
+                          
+                          {/* MQTT 인스펙터 */}
+                          <Route path="inspector" element={<MqttInspector />} />
+                          
+                          {/* 감사 로그 */}
+                          <Route path="audit" element={<Audit />} />
+                          
+                          {/* 설정 */}
+                          <Route path="settings" element={<Settings />} />
+                          
+                          {/* 스크롤 테스트 */}
+                          <Route path="scroll-test" element={<ScrollTestPage />} />
+                        </Route>
+                      </Routes>
+                    </div>
                   </div>
-                </div>
-              </Router>
+                </Router>
+              </SafetyInteractionProvider>
             </WebSocketProvider>
           </MqttProvider>
         </RobotStateProvider>
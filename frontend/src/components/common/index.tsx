@@ -3,7 +3,7 @@
  * 애플리케이션 전반에서 재사용되는 기본 컴포넌트들
  */
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Loader2, AlertCircle, CheckCircle, XCircle, AlertTriangle, X } from 'lucide-react';
 
 // 로딩 스피너
@@ -105,6 +105,7 @@ interface ConfirmDialogProps {
   confirmText?: string;
   cancelText?: string;
   type?: 'danger' | 'warning' | 'info';
+  typedConfirmation?: string;   // 이 문구를 그대로 입력해야 확인 버튼 활성화
 }
 
 export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
@@ -115,10 +116,19 @@ export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
   onCancel,
   confirmText = '확인',
   cancelText = '취소',
-  type = 'info'
+  type = 'info',
+  typedConfirmation
 }) => {
+  const [typed, setTyped] = useState('');
+
+  useEffect(() => {
+    if (isOpen) setTyped('');
+  }, [isOpen]);
+
   if (!isOpen) return null;
 
+  const canConfirm = !typedConfirmation || typed.trim() === typedConfirmation;
+
   const typeConfig = {
     danger: {
       icon: AlertTriangle,
@@ -156,7 +166,22 @@ export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
           </button>
         </div>
         
-        <p className="text-gray-600 dark:text-gray-400 mb-6">{message}</p>
+        <p className="text-gray-600 dark:text-gray-400 mb-6 whitespace-pre-line">{message}</p>
+
+        {typedConfirmation && (
+          <label className="block mb-6">
+            <span className="block mb-1 text-sm text-gray-600 dark:text-gray-400">
+              계속하려면 <span className="font-mono font-semibold text-gray-900 dark:text-white">{typedConfirmation}</span> 를 입력하세요
+            </span>
+            <input
+              value={typed}
+              autoFocus
+              onChange={(e) => setTyped(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter' && canConfirm) onConfirm(); }}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md font-mono text-sm dark:bg-gray-700 dark:text-white"
+            />
+          </label>
+        )}
         
         <div className="flex justify-end space-x-3">
           <button
@@ -167,7 +192,8 @@ export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
           </button>
           <button
             onClick={onConfirm}
-            className={`px-4 py-2 text-white rounded-lg font-medium transition-colors ${config.confirmBg}`}
+            disabled={!canConfirm}
+            className={`px-4 py-2 text-white rounded-lg font-medium transition-colors ${config.confirmBg} disabled:opacity-50 disabled:cursor-not-allowed`}
           >
             {confirmText}
           </button>
@@ -1,12 +1,26 @@
 /**
  * 로봇 좌표계 제어 컴포넌트 - 카르테시안 좌표 기반 로봇 제어
  */
-import React, { useState, useEffect } from 'react';
-import { Move, RotateCw, Target, Crosshair, Home, AlertCircle } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Move, Target, Home } from 'lucide-react';
 import { useRobotState } from '../../contexts/RobotStateContext';
-import { sendRobotCommand } from '../../services/commandSender';
+import { useAuth } from '../../hooks/useAuth';
+import { useConnectionWatchdog } from '../../hooks/useConnectionWatchdog';
+import { useSafetyInteraction } from '../../contexts/SafetyInteractionContext';
+import { useRobotStore } from '../../store/robotStore';
+import { inverseKinematics } from '../../utils/kinematics';
+import { jointMoveMagnitude, linearMoveMagnitude } from '../../utils/safetyInteraction';
+import { motionValidator } from '../../services/motionValidator';
+import { getSpecTcpMaxVelocity } from '../../utils/robotSpecs';
+import { IKBranch, MotionValidationResult } from '../../types/robotTypes';
+import MotionViolationList from './MotionViolationList';
+import HoldToRunButton from './HoldToRunButton';
+import { useHoldLatch } from '../../hooks/useHoldToRun';
 import toast from 'react-hot-toast';
 
+// 감사 로그에 남길 명령 출처
+const AUDIT_SOURCE = 'CartesianControl';
+
 interface CartesianPosition {
   x: number;
   y: number;
@@ -16,12 +30,34 @@ interface CartesianPosition {
   rz: number;
 }
 
+const BRANCH_LABELS = {
+  shoulder: { front: '전방', back: '후방' },
+  elbow: { up: '엘보 업', down: '엘보 다운' },
+  wrist: { no_flip: '손목 정상', flip: '손목 플립' }
+};
+
+const HOME_POSITION: CartesianPosition = { x: 400, y: 0, z: 400, rx: 0, ry: 0, rz: 0 };
+// 이동 속도/가속도 (%) - 직선 이동은 100 mm/s 를 사양의 TCP 최대 속도 대비 비율로 환산
+const LINEAR_SPEED_MM_S = 100;
+const MOVE_SPEED = {
+  linear: Math.max(1, Math.round((LINEAR_SPEED_MM_S / getSpecTcpMaxVelocity().linear) * 100)),
+  joint: 30
+};
+
+const branchKey = (branch: IKBranch): string => `${branch.shoulder}/${branch.elbow}/${branch.wrist}`;
+
+const formatBranch = (branch: IKBranch): string =>
+  `${BRANCH_LABELS.shoulder[branch.shoulder]} · ${BRANCH_LABELS.elbow[branch.elbow]} · ${BRANCH_LABELS.wrist[branch.wrist]}`;
+
 interface CartesianControlProps {
   className?: string;
 }
 
 export const CartesianControl: React.FC<CartesianControlProps> = ({ className = "" }) => {
-  const { robotState } = useRobotState();
+  const { robotState, setPendingTarget } = useRobotState();
+  const { can } = useAuth();
+  const { sendJointMoveCommand, sendLinearMoveCommand, sendStopCommand, getLastCommandError } = useRobotStore();
+  const { preferences, getMode, confirmAction } = useSafetyInteraction();
   const [targetPosition, setTargetPosition] = useState<CartesianPosition>({
     x: 400, y: 0, z: 400, rx: 0, ry: 0, rz: 0
   });
@@ -31,14 +67,59 @@ export const CartesianControl: React.FC<CartesianControlProps> = ({ className =
   const [moveMode, setMoveMode] = useState<'linear' | 'joint'>('linear');
   const [stepSize, setStepSize] = useState(10); // mm 또는 도
   const [isMoving, setIsMoving] = useState(false);
+  const targetHold = useHoldLatch<CartesianPosition>();
+  const homeHold = useHoldLatch<CartesianPosition>();
   const [coordinateFrame, setCoordinateFrame] = useState<'world' | 'tool'>('world');
+  const [selectedBranch, setSelectedBranch] = useState<string | null>(null); // null: 가장 가까운 해
+  const { motionLocked } = useConnectionWatchdog();
+  const canMove = can(moveMode === 'linear' ? 'move_linear' : 'move_joint') && !motionLocked;
 
-  // 현재 위치 업데이트 (로봇 상태에서)
+  // 현재 위치 업데이트 (로봇 보고값 또는 FK 계산값)
   useEffect(() => {
-    if (robotState.cartesianPosition) {
-      setCurrentPosition(robotState.cartesianPosition);
+    const pose = robotState.endEffectorPosition || robotState.cartesianPosition;
+    if (pose) {
+      setCurrentPosition(pose);
     }
-  }, [robotState.cartesianPosition]);
+  }, [robotState.endEffectorPosition, robotState.cartesianPosition]);
+
+  // 목표 위치의 역기구학 해 (현재 조인트 기준 정렬)
+  const ikResult = useMemo(
+    () => inverseKinematics(targetPosition, robotState.jointPositions),
+    [targetPosition, robotState.jointPositions]
+  );
+
+  const selectedIndex = useMemo(() => {
+    const index = ikResult.solutions.findIndex(solution =>
+      solution.withinLimits && branchKey(solution.branch) === selectedBranch
+    );
+    return index === -1 ? 0 : index;
+  }, [ikResult, selectedBranch]);
+
+  // 3D 뷰어 고스트용 목표 자세 공유 (선택된 IK 해)
+  // 현재 조인트가 갱신될 때마다 동일한 해를 다시 전달하지 않도록 값 기준으로 비교
+  const selected = ikResult.solutions[selectedIndex];
+  const previewKey = selected ? selected.joints.map(value => value.toFixed(2)).join(',') : '';
+  const previewJoints = useMemo(
+    () => (previewKey ? previewKey.split(',').map(Number) : null),
+    [previewKey]
+  );
+
+  const validation = useMemo(() => {
+    const options = { currentJoints: robotState.jointPositions, speed: MOVE_SPEED[moveMode] };
+    return moveMode === 'joint' && previewJoints
+      ? motionValidator.validateJointTarget(previewJoints, options)
+      : motionValidator.validateCartesianTarget(targetPosition, { ...options, moveType: moveMode });
+  }, [moveMode, previewJoints, targetPosition, robotState.jointPositions]);
+
+  useEffect(() => {
+    setPendingTarget(previewJoints
+      ? { joints: previewJoints, source: 'cartesian', pose: targetPosition }
+      : null);
+  }, [previewJoints, targetPosition, setPendingTarget]);
+
+  useEffect(() => {
+    return () => setPendingTarget(null);
+  }, [setPendingTarget]);
 
   // 위치 입력 핸들러
   const handlePositionChange = (axis: keyof CartesianPosition, value: number) => {
@@ -53,42 +134,77 @@ export const CartesianControl: React.FC<CartesianControlProps> = ({ className =
     const newPosition = { ...targetPosition };
     newPosition[axis] += direction * stepSize;
     
-    // 안전 범위 체크
-    const limits = {
-      x: { min: -1000, max: 1000 },
-      y: { min: -1000, max: 1000 },
-      z: { min: 0, max: 1000 },
-      rx: { min: -180, max: 180 },
-      ry: { min: -180, max: 180 },
-      rz: { min: -180, max: 180 }
-    };
-
-    if (newPosition[axis] < limits[axis].min || newPosition[axis] > limits[axis].max) {
-      toast.error(`${axis.toUpperCase()} 축 이동 한계 초과`);
-      return;
-    }
-
     setTargetPosition(newPosition);
     await executeMove(newPosition);
   };
 
-  // 이동 실행
-  const executeMove = async (position: CartesianPosition) => {
+  // 관절 이동 시 사용할 조인트 목표 (선택된 IK 해)
+  const resolveJointTarget = (position: CartesianPosition): number[] | null => {
+    const result = position === targetPosition
+      ? ikResult
+      : inverseKinematics(position, robotState.jointPositions);
+    const validSolutions = result.solutions.filter(solution => solution.withinLimits);
+    if (validSolutions.length === 0) return null;
+
+    const preferred = position === targetPosition ? result.solutions[selectedIndex] : undefined;
+    return preferred && preferred.withinLimits ? preferred.joints : validSolutions[0].joints;
+  };
+
+  // 전송 전 사전 검증 (관절 이동은 선택된 IK 해, 직선 이동은 직선 경로 기준)
+  const validateMove = (position: CartesianPosition, jointTarget: number[] | null): MotionValidationResult => {
+    const options = { currentJoints: robotState.jointPositions, speed: MOVE_SPEED[moveMode] };
+    return moveMode === 'joint' && jointTarget
+      ? motionValidator.validateJointTarget(jointTarget, options)
+      : motionValidator.validateCartesianTarget(position, { ...options, moveType: moveMode });
+  };
+
+  // 큰 이동 여부와 확인 문구 (직선 이동은 TCP 거리, 관절 이동은 최대 관절 변화량 기준)
+  const describeLargeMove = (position: CartesianPosition, jointTarget: number[] | null): string | null => {
+    if (moveMode === 'linear') {
+      const distance = linearMoveMagnitude(currentPosition, position);
+      return distance > preferences.largeLinearMove ? `${distance.toFixed(0)} mm 직선 이동입니다.` : null;
+    }
+    if (!jointTarget) return null;
+    const magnitude = jointMoveMagnitude(robotState.jointPositions, jointTarget);
+    return magnitude > preferences.largeJointMove ? `최대 ${magnitude.toFixed(1)}° 관절 이동입니다.` : null;
+  };
+
+  const requiresHold = (position: CartesianPosition): boolean =>
+    getMode('large_move') === 'hold' && describeLargeMove(position, resolveJointTarget(position)) !== null;
+
+  // 이동 실행 - hold-to-run 으로 시작한 이동은 확인을 생략
+  const executeMove = async (position: CartesianPosition, skipConfirm = false) => {
     if (!robotState.isConnected) {
       toast.error('로봇이 연결되지 않았습니다');
       return;
     }
 
+    const jointTarget = resolveJointTarget(position);
+    const result = validateMove(position, jointTarget);
+    if (!jointTarget || !result.valid) {
+      toast.error(`이동 불가: ${motionValidator.formatViolations(result) || '유효한 역기구학 해가 없습니다'}`);
+      return;
+    }
+
+    const largeMove = describeLargeMove(position, jointTarget);
+    if (largeMove && !skipConfirm) {
+      const confirmed = await confirmAction('large_move', {
+        message: `${largeMove}\n목표: X ${position.x.toFixed(1)}, Y ${position.y.toFixed(1)}, Z ${position.z.toFixed(1)} mm`,
+        confirmText: '이동'
+      });
+      if (!confirmed) return;
+    }
+
     try {
       setIsMoving(true);
       
-      const command = moveMode === 'linear' ? 'moveL' : 'moveC';
-      await sendRobotCommand(command, {
-        position: [position.x, position.y, position.z, position.rx, position.ry, position.rz],
-        velocity: 100, // mm/s
-        acceleration: 100,
-        coordinateFrame
-      });
+      const success = moveMode === 'linear'
+        ? await sendLinearMoveCommand(position, MOVE_SPEED.linear, MOVE_SPEED.linear, AUDIT_SOURCE)
+        : await sendJointMoveCommand(jointTarget, MOVE_SPEED.joint, MOVE_SPEED.joint, AUDIT_SOURCE);
+
+      if (!success) {
+        throw new Error(getLastCommandError() || '명령 실패');
+      }
       
       toast.success('이동 완료');
     } catch (error) {
@@ -109,19 +225,29 @@ export const CartesianControl: React.FC<CartesianControlProps> = ({ className =
   };
 
   // 홈 포지션으로 이동
-  const moveToHome = async () => {
-    const homePosition = { x: 400, y: 0, z: 400, rx: 0, ry: 0, rz: 0 };
-    setTargetPosition(homePosition);
-    await executeMove(homePosition);
+  const moveToHome = async (skipConfirm = false) => {
+    setTargetPosition(HOME_POSITION);
+    await executeMove(HOME_POSITION, skipConfirm);
   };
 
-  // 안전 체크
-  const isSafePosition = (pos: CartesianPosition) => {
-    return pos.x > -1000 && pos.x < 1000 &&
-           pos.y > -1000 && pos.y < 1000 &&
-           pos.z > 0 && pos.z < 1000;
+  // 이동 정지 (hold-to-run 해제)
+  const stopMove = async () => {
+    try {
+      if (!(await sendStopCommand(AUDIT_SOURCE))) {
+        throw new Error(getLastCommandError() || '명령 실패');
+      }
+      toast.success('이동 정지');
+    } catch (error) {
+      toast.error(`정지 실패: ${error}`);
+    } finally {
+      setIsMoving(false);
+    }
   };
 
+  // 누르고 있는 동안은 실시간 위치로 다시 판정하지 않고 hold-to-run 버튼 유지 (언마운트되면 정지 명령)
+  const targetHoldToRun = targetHold.latched || requiresHold(targetPosition);
+  const homeHoldToRun = homeHold.latched || requiresHold(HOME_POSITION);
+
   return (
     <div className={`bg-white dark:bg-gray-800 rounded-lg p-6 ${className}`}>
       {/* 헤더 */}
@@ -152,13 +278,8 @@ export const CartesianControl: React.FC<CartesianControlProps> = ({ className =
         </div>
       </div>
 
-      {/* 안전 경고 */}
-      {!isSafePosition(targetPosition) && (
-        <div className="mb-4 p-3 bg-red-100 border border-red-300 rounded-md flex items-center gap-2 text-red-700">
-          <AlertCircle size={20} />
-          <span>목표 위치가 안전 범위를 벗어났습니다!</span>
-        </div>
-      )}
+      {/* 사전 검증 결과 */}
+      <MotionViolationList result={validation} className="mb-4" />
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* 현재 위치 표시 */}
@@ -240,6 +361,62 @@ export const CartesianControl: React.FC<CartesianControlProps> = ({ className =
         </div>
       </div>
 
+      {/* 역기구학 해 미리보기 */}
+      <div className="mt-6">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            예상 조인트 각도 (IK)
+          </h3>
+          <span className={`text-sm ${ikResult.reachable ? 'text-green-600' : 'text-red-600'}`}>
+            {ikResult.reachable
+              ? `유효한 해 ${ikResult.solutions.filter(solution => solution.withinLimits).length}/${ikResult.solutions.length}개`
+              : ikResult.error}
+          </span>
+        </div>
+
+        {ikResult.solutions.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-500 dark:text-gray-400">
+                  <th className="text-left py-1 pr-2">분기</th>
+                  {['J1', 'J2', 'J3', 'J4', 'J5', 'J6'].map(joint => (
+                    <th key={joint} className="text-right py-1 px-2">{joint}</th>
+                  ))}
+                  <th className="text-right py-1 pl-2">최대 변화</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ikResult.solutions.map((solution, index) => (
+                  <tr
+                    key={index}
+                    onClick={() => solution.withinLimits && setSelectedBranch(branchKey(solution.branch))}
+                    className={`font-mono border-t border-gray-100 dark:border-gray-700 ${
+                      solution.withinLimits ? 'cursor-pointer' : 'opacity-50'
+                    } ${index === selectedIndex ? 'bg-blue-50 dark:bg-blue-900' : ''}`}
+                  >
+                    <td className="py-1 pr-2 font-sans text-gray-700 dark:text-gray-300">
+                      {formatBranch(solution.branch)}
+                      {solution.singular && <span className="ml-1 text-yellow-600">(특이점)</span>}
+                      {!solution.withinLimits && <span className="ml-1 text-red-600">(제한 초과)</span>}
+                    </td>
+                    {solution.joints.map((angle, jointIndex) => (
+                      <td key={jointIndex} className="text-right py-1 px-2">{angle.toFixed(1)}°</td>
+                    ))}
+                    <td className="text-right py-1 pl-2">{solution.distance.toFixed(1)}°</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              {moveMode === 'linear'
+                ? '직선 이동은 로봇 제어기가 경로를 계산하며, 표시된 첫 번째 해는 현재 자세에서 가장 가까운 분기입니다.'
+                : '관절 이동은 선택한 해의 조인트 각도로 전송됩니다.'}
+            </p>
+          </div>
+        )}
+      </div>
+
       {/* 스텝 이동 제어 */}
       <div className="mt-6">
         <div className="flex justify-between items-center mb-4">
@@ -272,14 +449,14 @@ export const CartesianControl: React.FC<CartesianControlProps> = ({ className =
                   <span className="w-6 text-sm font-medium uppercase">{axis}:</span>
                   <button
                     onClick={() => stepMove(axis, -1)}
-                    disabled={isMoving}
+                    disabled={isMoving || !canMove}
                     className="px-3 py-1 bg-red-500 hover:bg-red-600 text-white rounded-md disabled:bg-gray-300 disabled:text-gray-500"
                   >
                     -{stepSize}
                   </button>
                   <button
                     onClick={() => stepMove(axis, 1)}
-                    disabled={isMoving}
+                    disabled={isMoving || !canMove}
                     className="px-3 py-1 bg-blue-500 hover:bg-blue-600 text-white rounded-md disabled:bg-gray-300 disabled:text-gray-500"
                   >
                     +{stepSize}
@@ -298,14 +475,14 @@ export const CartesianControl: React.FC<CartesianControlProps> = ({ className =
                   <span className="w-8 text-sm font-medium uppercase">{axis}:</span>
                   <button
                     onClick={() => stepMove(axis, -1)}
-                    disabled={isMoving}
+                    disabled={isMoving || !canMove}
                     className="px-3 py-1 bg-red-500 hover:bg-red-600 text-white rounded-md disabled:bg-gray-300 disabled:text-gray-500"
                   >
                     -{stepSize}
                   </button>
                   <button
                     onClick={() => stepMove(axis, 1)}
-                    disabled={isMoving}
+                    disabled={isMoving || !canMove}
                     className="px-3 py-1 bg-blue-500 hover:bg-blue-600 text-white rounded-md disabled:bg-gray-300 disabled:text-gray-500"
                   >
                     +{stepSize}
@@ -319,14 +496,25 @@ export const CartesianControl: React.FC<CartesianControlProps> = ({ className =
 
       {/* 제어 버튼 */}
       <div className="mt-6 flex gap-3">
-        <button
-          onClick={moveToTarget}
-          disabled={isMoving || !isSafePosition(targetPosition)}
-          className="flex items-center gap-2 px-6 py-3 bg-blue-500 hover:bg-blue-600 text-white rounded-md font-medium disabled:bg-gray-300 disabled:text-gray-500 transition-colors"
-        >
-          <Move size={20} />
-          목표로 이동
-        </button>
+        {targetHoldToRun ? (
+          <HoldToRunButton
+            onStart={() => targetHold.start(targetPosition, position => executeMove(position, true))}
+            onStop={() => targetHold.stop(stopMove)}
+            disabled={!validation.valid || !canMove}
+            className="px-6 py-3 bg-blue-500 hover:bg-blue-600 text-white rounded-md font-medium disabled:bg-gray-300 disabled:text-gray-500 transition-colors"
+          >
+            목표로 이동
+          </HoldToRunButton>
+        ) : (
+          <button
+            onClick={moveToTarget}
+            disabled={isMoving || !validation.valid || !canMove}
+            className="flex items-center gap-2 px-6 py-3 bg-blue-500 hover:bg-blue-600 text-white rounded-md font-medium disabled:bg-gray-300 disabled:text-gray-500 transition-colors"
+          >
+            <Move size={20} />
+            목표로 이동
+          </button>
+        )}
         
         <button
           onClick={useCurrentAsTarget}
@@ -337,14 +525,25 @@ export const CartesianControl: React.FC<CartesianControlProps> = ({ className =
           현재 위치 사용
         </button>
         
-        <button
-          onClick={moveToHome}
-          disabled={isMoving}
-          className="flex items-center gap-2 px-6 py-3 bg-orange-500 hover:bg-orange-600 text-white rounded-md font-medium disabled:bg-gray-300 disabled:text-gray-500 transition-colors"
-        >
-          <Home size={20} />
-          홈 포지션
-        </button>
+        {homeHoldToRun ? (
+          <HoldToRunButton
+            onStart={() => homeHold.start(HOME_POSITION, () => moveToHome(true))}
+            onStop={() => homeHold.stop(stopMove)}
+            disabled={!canMove}
+            className="px-6 py-3 bg-orange-500 hover:bg-orange-600 text-white rounded-md font-medium disabled:bg-gray-300 disabled:text-gray-500 transition-colors"
+          >
+            홈 포지션
+          </HoldToRunButton>
+        ) : (
+          <button
+            onClick={() => moveToHome()}
+            disabled={isMoving || !canMove}
+            className="flex items-center gap-2 px-6 py-3 bg-orange-500 hover:bg-orange-600 text-white rounded-md font-medium disabled:bg-gray-300 disabled:text-gray-500 transition-colors"
+          >
+            <Home size={20} />
+            홈 포지션
+          </button>
+        )}
       </div>
 
       {/* 이동 진행 상태 */}
@@ -0,0 +1,44 @@
+/**
+ * hold-to-run 버튼 - 누르고 있는 동안만 동작, 놓거나 하트비트가 끊기면 onStop (정지 명령)
+ */
+import React from 'react';
+import { Hand } from 'lucide-react';
+import { HoldReleaseReason, useHoldToRun } from '../../hooks/useHoldToRun';
+
+interface HoldToRunButtonProps {
+  onStart: () => Promise<unknown> | unknown;
+  onStop: (reason: HoldReleaseReason) => Promise<unknown> | unknown;
+  disabled?: boolean;
+  className?: string;
+  title?: string;
+  children: React.ReactNode;
+}
+
+export const HoldToRunButton: React.FC<HoldToRunButtonProps> = ({
+  onStart,
+  onStop,
+  disabled = false,
+  className = '',
+  title = '누르고 있는 동안만 동작합니다 (놓으면 정지)',
+  children
+}) => {
+  const { isHolding, handlers } = useHoldToRun({ onStart, onStop, disabled });
+
+  // 누르는 중에는 비활성화하지 않음 - disabled 버튼은 pointerup 을 받지 못해 정지 명령이 나가지 않음
+  return (
+    <button
+      type="button"
+      disabled={disabled && !isHolding}
+      title={title}
+      {...handlers}
+      className={`relative select-none touch-none ${className} ${isHolding ? 'ring-4 ring-orange-400 animate-pulse' : ''}`}
+    >
+      <span className="flex items-center justify-center gap-2">
+        <Hand size={16} />
+        {isHolding ? '동작 중 - 놓으면 정지' : children}
+      </span>
+    </button>
+  );
+};
+
+export default HoldToRunButton;
@@ -1,12 +1,26 @@
 /**
  * 로봇 조인트 제어 컴포넌트 - 개별 조인트 위치 제어
  */
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Play, Pause, RotateCcw, Lock, Unlock, AlertTriangle } from 'lucide-react';
 import { useRobotState } from '../../contexts/RobotStateContext';
-import { sendRobotCommand } from '../../services/commandSender';
+import { useAuth } from '../../hooks/useAuth';
+import { useConnectionWatchdog } from '../../hooks/useConnectionWatchdog';
+import { useSafetyInteraction } from '../../contexts/SafetyInteractionContext';
+import { useRobotStore } from '../../store/robotStore';
+import { motionValidator } from '../../services/motionValidator';
+import { isLargeJointMove, jointMoveMagnitude } from '../../utils/safetyInteraction';
+import MotionViolationList from './MotionViolationList';
+import HoldToRunButton from './HoldToRunButton';
+import { useHoldLatch } from '../../hooks/useHoldToRun';
 import toast from 'react-hot-toast';
 
+// 감사 로그에 남길 명령 출처
+const AUDIT_SOURCE = 'JointControl';
+const HOME_POSITIONS = [0, 0, 0, 0, 0, 0];
+const MOVE_SPEED = 30; // %
+const HOME_SPEED = 20; // %
+
 interface JointControlProps {
   jointIndex: number;
   currentPosition: number;
@@ -29,13 +43,37 @@ export const JointControl: React.FC<JointControlProps> = ({
   isEnabled = true,
   onPositionChange
 }) => {
+  const { robotState } = useRobotState();
+  const { can } = useAuth();
+  const { sendJointMoveCommand, sendStopCommand, getLastCommandError } = useRobotStore();
+  const { motionLocked } = useConnectionWatchdog();
+  const canMoveJoint = can('move_joint') && !motionLocked;
+  const { preferences, getMode, confirmAction } = useSafetyInteraction();
   const [targetPosition, setTargetPosition] = useState(currentPosition);
   const [isLocked, setIsLocked] = useState(false);
   const [isMoving, setIsMoving] = useState(false);
+  const hold = useHoldLatch<number[]>();
+
+  // 이 조인트만 변경한 목표 자세 검증
+  const targetJoints = useMemo(() => {
+    const joints = [...robotState.jointPositions];
+    joints[jointIndex] = targetPosition;
+    return joints;
+  }, [robotState.jointPositions, jointIndex, targetPosition]);
+  const validation = useMemo(
+    () => motionValidator.validateJointTarget(targetJoints, { currentJoints: robotState.jointPositions, speed: MOVE_SPEED }),
+    [targetJoints, robotState.jointPositions]
+  );
+  // 큰 이동은 설정된 안전 상호작용(확인/hold-to-run)을 거침
+  const isLargeMove = isLargeJointMove(robotState.jointPositions, targetJoints, preferences);
+  // hold-to-run 으로 시작한 이동은 놓을 때까지 버튼 유지 (이동하면서 isLargeMove 가 바뀌어도 언마운트 → 정지 방지)
+  const holdToRun = hold.latched || (isLargeMove && getMode('large_move') === 'hold');
+  const isBusy = isMoving || hold.latched;
 
+  // 이동 중에는 목표를 실시간 위치로 덮어쓰지 않음
   useEffect(() => {
-    setTargetPosition(currentPosition);
-  }, [currentPosition]);
+    if (!isBusy) setTargetPosition(currentPosition);
+  }, [currentPosition, isBusy]);
 
   // 위치 변경 핸들러
   const handlePositionChange = (newPosition: number) => {
@@ -47,15 +85,29 @@ export const JointControl: React.FC<JointControlProps> = ({
   // 조인트 이동 명령
   const moveJoint = async () => {
     if (isLocked || !isEnabled) return;
+    if (!validation.valid) {
+      toast.error(`Joint ${jointIndex + 1} 이동 불가: ${motionValidator.formatViolations(validation)}`);
+      return;
+    }
+    if (isLargeMove) {
+      const confirmed = await confirmAction('large_move', {
+        message: `Joint ${jointIndex + 1} 을(를) ${currentPosition.toFixed(1)}° → ${targetPosition.toFixed(1)}° 로 이동합니다.`,
+        confirmText: '이동'
+      });
+      if (!confirmed) return;
+    }
+    await executeMove();
+  };
 
+  const executeMove = async (positions: number[] = targetJoints) => {
     try {
       setIsMoving(true);
-      await sendRobotCommand('moveJoint', {
-        jointIndex,
-        position: targetPosition,
-        velocity: 30 // 기본 속도
-      });
-      toast.success(`Joint ${jointIndex + 1} 이동 완료`);
+      // 명령 큐를 통해 전송 - 정지/비상정지가 오면 대기 중인 이동과 함께 취소됨
+      if (await sendJointMoveCommand(positions, MOVE_SPEED, 30, AUDIT_SOURCE)) {
+        toast.success(`Joint ${jointIndex + 1} 이동 완료`);
+      } else {
+        toast.error(`Joint ${jointIndex + 1} 이동 실패: ${getLastCommandError()}`);
+      }
     } catch (error) {
       toast.error(`Joint ${jointIndex + 1} 이동 실패: ${error}`);
     } finally {
@@ -66,7 +118,10 @@ export const JointControl: React.FC<JointControlProps> = ({
   // 조인트 정지
   const stopJoint = async () => {
     try {
-      await sendRobotCommand('stopJoint', { jointIndex });
+      if (!(await sendStopCommand(AUDIT_SOURCE))) {
+        toast.error(`Joint ${jointIndex + 1} 정지 실패: ${getLastCommandError()}`);
+        return;
+      }
       setIsMoving(false);
       toast.success(`Joint ${jointIndex + 1} 정지`);
     } catch (error) {
@@ -174,20 +229,33 @@ export const JointControl: React.FC<JointControlProps> = ({
         />
       </div>
 
+      <MotionViolationList result={validation} className="mb-4" />
+
       {/* 제어 버튼 */}
       <div className="flex gap-2">
-        <button
-          onClick={isMoving ? stopJoint : moveJoint}
-          disabled={isLocked || !isEnabled}
-          className={`flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-md font-medium transition-colors ${
-            isMoving
-              ? 'bg-red-500 hover:bg-red-600 text-white'
-              : 'bg-blue-500 hover:bg-blue-600 text-white disabled:bg-gray-300 disabled:text-gray-500'
-          }`}
-        >
-          {isMoving ? <Pause size={16} /> : <Play size={16} />}
-          {isMoving ? '정지' : '이동'}
-        </button>
+        {holdToRun ? (
+          <HoldToRunButton
+            onStart={() => hold.start(targetJoints, executeMove)}
+            onStop={() => hold.stop(stopJoint)}
+            disabled={isLocked || !isEnabled || !validation.valid || !canMoveJoint}
+            className="flex-1 px-4 py-2 rounded-md font-medium transition-colors bg-orange-500 hover:bg-orange-600 text-white disabled:bg-gray-300 disabled:text-gray-500"
+          >
+            누르고 있기
+          </HoldToRunButton>
+        ) : (
+          <button
+            onClick={isMoving ? stopJoint : moveJoint}
+            disabled={isLocked || !isEnabled || (!isMoving && (!validation.valid || !canMoveJoint))}
+            className={`flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-md font-medium transition-colors ${
+              isMoving
+                ? 'bg-red-500 hover:bg-red-600 text-white'
+                : 'bg-blue-500 hover:bg-blue-600 text-white disabled:bg-gray-300 disabled:text-gray-500'
+            }`}
+          >
+            {isMoving ? <Pause size={16} /> : <Play size={16} />}
+            {isMoving ? '정지' : '이동'}
+          </button>
+        )}
         
         <button
           onClick={resetPosition}
@@ -218,19 +286,48 @@ export const JointControl: React.FC<JointControlProps> = ({
 
 // 전체 조인트 제어 패널
 export const JointControlPanel: React.FC = () => {
-  const { robotState } = useRobotState();
+  const { robotState, setPendingTarget } = useRobotState();
+  const { can } = useAuth();
+  const { sendJointMoveCommand, sendStopCommand, getLastCommandError } = useRobotStore();
+  const { motionLocked } = useConnectionWatchdog();
+  const canMoveJoint = can('move_joint') && !motionLocked;
+  const { preferences, getMode, confirmAction } = useSafetyInteraction();
   const [allTargetPositions, setAllTargetPositions] = useState<number[]>([0, 0, 0, 0, 0, 0]);
   const [isGroupMoving, setIsGroupMoving] = useState(false);
+  const groupHold = useHoldLatch<number[]>();
+  const homeHold = useHoldLatch<number[]>();
+
+  // 3D 뷰어 고스트용 목표 자세 공유
+  useEffect(() => {
+    setPendingTarget({ joints: allTargetPositions, source: 'joint' });
+  }, [allTargetPositions, setPendingTarget]);
 
-  // 조인트 제한값 (Doosan M0609 기준)
-  const jointLimits = [
-    { min: -360, max: 360 },  // J1
-    { min: -95, max: 95 },    // J2
-    { min: -180, max: 180 },  // J3
-    { min: -360, max: 360 },  // J4
-    { min: -180, max: 180 },  // J5
-    { min: -360, max: 360 }   // J6
-  ];
+  useEffect(() => {
+    return () => setPendingTarget(null);
+  }, [setPendingTarget]);
+
+  // 조인트 제한값 (m0609_specs.json)
+  const jointLimits = motionValidator.getJointLimits();
+
+  // 전체 목표 자세 사전 검증
+  const validation = useMemo(
+    () => motionValidator.validateJointTarget(allTargetPositions, { currentJoints: robotState.jointPositions, speed: MOVE_SPEED }),
+    [allTargetPositions, robotState.jointPositions]
+  );
+  const holdToRunEnabled = getMode('large_move') === 'hold';
+  // 누르고 있는 동안은 판정과 관계없이 hold-to-run 버튼 유지
+  const groupHoldToRun = groupHold.latched || (holdToRunEnabled && isLargeJointMove(robotState.jointPositions, allTargetPositions, preferences));
+  const homeHoldToRun = homeHold.latched || (holdToRunEnabled && isLargeJointMove(robotState.jointPositions, HOME_POSITIONS, preferences));
+
+  // 큰 이동 확인 - 취소하면 false
+  const confirmLargeMove = (target: number[], label: string) => {
+    if (!isLargeJointMove(robotState.jointPositions, target, preferences)) return Promise.resolve(true);
+    const magnitude = jointMoveMagnitude(robotState.jointPositions, target);
+    return confirmAction('large_move', {
+      message: `${label}: 최대 ${magnitude.toFixed(1)}° 관절 이동입니다.\n목표: [${target.map(angle => angle.toFixed(1)).join(', ')}]`,
+      confirmText: '이동'
+    });
+  };
 
   // 개별 조인트 위치 변경 핸들러
   const handleJointPositionChange = (jointIndex: number, position: number) => {
@@ -241,14 +338,22 @@ export const JointControlPanel: React.FC = () => {
 
   // 모든 조인트 동시 이동
   const moveAllJoints = async () => {
+    if (!validation.valid) {
+      toast.error(`조인트 이동 불가: ${motionValidator.formatViolations(validation)}`);
+      return;
+    }
+    if (!(await confirmLargeMove(allTargetPositions, '전체 조인트 이동'))) return;
+    await executeGroupMove();
+  };
+
+  const executeGroupMove = async (positions: number[] = allTargetPositions) => {
     try {
       setIsGroupMoving(true);
-      await sendRobotCommand('moveJ', {
-        targetPositions: allTargetPositions,
-        velocity: 30,
-        acceleration: 30
-      });
-      toast.success('모든 조인트 이동 완료');
+      if (await sendJointMoveCommand(positions, MOVE_SPEED, 30, AUDIT_SOURCE)) {
+        toast.success('모든 조인트 이동 완료');
+      } else {
+        toast.error(`조인트 이동 실패: ${getLastCommandError()}`);
+      }
     } catch (error) {
       toast.error(`조인트 이동 실패: ${error}`);
     } finally {
@@ -259,7 +364,10 @@ export const JointControlPanel: React.FC = () => {
   // 모든 조인트 정지
   const stopAllJoints = async () => {
     try {
-      await sendRobotCommand('stopAll');
+      if (!(await sendStopCommand(AUDIT_SOURCE))) {
+        toast.error(`정지 실패: ${getLastCommandError()}`);
+        return;
+      }
       setIsGroupMoving(false);
       toast.success('모든 조인트 정지');
     } catch (error) {
@@ -269,17 +377,26 @@ export const JointControlPanel: React.FC = () => {
 
   // 홈 포지션으로 이동
   const moveToHome = async () => {
-    const homePositions = [0, 0, 0, 0, 0, 0];
-    setAllTargetPositions(homePositions);
+    if (!(await confirmLargeMove(HOME_POSITIONS, '홈 포지션 이동'))) return;
+    await executeHomeMove();
+  };
+
+  const executeHomeMove = async () => {
+    setAllTargetPositions(HOME_POSITIONS);
+
+    const homeValidation = motionValidator.validateJointTarget(HOME_POSITIONS, { currentJoints: robotState.jointPositions, speed: HOME_SPEED });
+    if (!homeValidation.valid) {
+      toast.error(`홈 포지션 이동 불가: ${motionValidator.formatViolations(homeValidation)}`);
+      return;
+    }
     
     try {
       setIsGroupMoving(true);
-      await sendRobotCommand('moveJ', {
-        targetPositions: homePositions,
-        velocity: 20,
-        acceleration: 20
-      });
-      toast.success('홈 포지션 이동 완료');
+      if (await sendJointMoveCommand(HOME_POSITIONS, HOME_SPEED, 20, AUDIT_SOURCE)) {
+        toast.success('홈 포지션 이동 완료');
+      } else {
+        toast.error(`홈 포지션 이동 실패: ${getLastCommandError()}`);
+      }
     } catch (error) {
       toast.error(`홈 포지션 이동 실패: ${error}`);
     } finally {
@@ -296,26 +413,51 @@ export const JointControlPanel: React.FC = () => {
             조인트 제어 패널
           </h2>
           <div className="flex gap-2">
-            <button
-              onClick={moveToHome}
-              disabled={isGroupMoving}
-              className="px-4 py-2 bg-green-500 hover:bg-green-600 text-white rounded-md disabled:bg-gray-300 disabled:text-gray-500 transition-colors"
-            >
-              홈 포지션
-            </button>
-            <button
-              onClick={isGroupMoving ? stopAllJoints : moveAllJoints}
-              className={`px-4 py-2 rounded-md font-medium transition-colors ${
-                isGroupMoving
-                  ? 'bg-red-500 hover:bg-red-600 text-white'
-                  : 'bg-blue-500 hover:bg-blue-600 text-white'
-              }`}
-            >
-              {isGroupMoving ? '전체 정지' : '전체 이동'}
-            </button>
+            {homeHoldToRun ? (
+              <HoldToRunButton
+                onStart={() => homeHold.start(HOME_POSITIONS, executeHomeMove)}
+                onStop={() => homeHold.stop(stopAllJoints)}
+                disabled={!canMoveJoint}
+                className="px-4 py-2 bg-green-500 hover:bg-green-600 text-white rounded-md disabled:bg-gray-300 disabled:text-gray-500 transition-colors"
+              >
+                홈 포지션
+              </HoldToRunButton>
+            ) : (
+              <button
+                onClick={moveToHome}
+                disabled={isGroupMoving || !canMoveJoint}
+                className="px-4 py-2 bg-green-500 hover:bg-green-600 text-white rounded-md disabled:bg-gray-300 disabled:text-gray-500 transition-colors"
+              >
+                홈 포지션
+              </button>
+            )}
+            {groupHoldToRun ? (
+              <HoldToRunButton
+                onStart={() => groupHold.start(allTargetPositions, executeGroupMove)}
+                onStop={() => groupHold.stop(stopAllJoints)}
+                disabled={!validation.valid || !canMoveJoint}
+                className="px-4 py-2 rounded-md font-medium transition-colors bg-orange-500 hover:bg-orange-600 text-white disabled:bg-gray-300 disabled:text-gray-500"
+              >
+                전체 이동
+              </HoldToRunButton>
+            ) : (
+              <button
+                onClick={isGroupMoving ? stopAllJoints : moveAllJoints}
+                disabled={!isGroupMoving && (!validation.valid || !canMoveJoint)}
+                className={`px-4 py-2 rounded-md font-medium transition-colors ${
+                  isGroupMoving
+                    ? 'bg-red-500 hover:bg-red-600 text-white'
+                    : 'bg-blue-500 hover:bg-blue-600 text-white disabled:bg-gray-300 disabled:text-gray-500'
+                }`}
+              >
+                {isGroupMoving ? '전체 정지' : '전체 이동'}
+              </button>
+            )}
           </div>
         </div>
 
+        <MotionViolationList result={validation} className="mb-4" />
+
         {/* 전체 진행 상태 */}
         {isGroupMoving && (
           <div className="mb-4">
@@ -353,7 +495,7 @@ export const JointControlPanel: React.FC = () => {
         </h3>
         <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
           {[
-            { name: '홈', positions: [0, 0, 0, 0, 0, 0] },
+            { name: '홈', positions: HOME_POSITIONS },
             { name: '수직', positions: [0, -90, 90, 0, 0, 0] },
             { name: '대기', positions: [0, -45, 45, 0, -90, 0] },
             { name: '접기', positions: [0, -90, 135, 0, -45, 0] }
@@ -1,12 +1,9 @@
 import React from 'react';
+import { JointControlPanel as JointControlPanelContent } from './JointControl';
 
+// 로봇 제어 페이지 관절 탭 - 목표 자세는 3D 뷰어 고스트로 미리보기
 const JointControlPanel: React.FC = () => {
-  return (
-    <div className="p-4 bg-white dark:bg-gray-800 rounded-lg">
-      <h3 className="text-lg font-semibold mb-4">JointControlPanel</h3>
-      <p>JointControlPanel 컴포넌트 (구현 예정)</p>
-    </div>
-  );
+  return <JointControlPanelContent />;
 };
 
 export default JointControlPanel;
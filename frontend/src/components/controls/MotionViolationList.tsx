@@ -0,0 +1,42 @@
+/**
+ * 모션 사전 검증 결과 표시 컴포넌트 - 이동 명령 전송 전 위반 사항 목록
+ */
+import React from 'react';
+import { AlertCircle, AlertTriangle } from 'lucide-react';
+import { MotionValidationResult } from '../../types/robotTypes';
+
+interface MotionViolationListProps {
+  result: MotionValidationResult | null;
+  className?: string;
+}
+
+export const MotionViolationList: React.FC<MotionViolationListProps> = ({ result, className = '' }) => {
+  if (!result || result.violations.length === 0) return null;
+
+  return (
+    <ul className={`space-y-1 ${className}`}>
+      {result.violations.map((violation, index) => (
+        <li
+          key={`${violation.code}-${violation.joint ?? violation.zoneId ?? ''}-${violation.commandIndex ?? ''}-${index}`}
+          className={`flex items-start gap-2 p-2 rounded-md text-sm border ${
+            violation.severity === 'error'
+              ? 'bg-red-100 border-red-300 text-red-700'
+              : 'bg-yellow-50 border-yellow-300 text-yellow-700'
+          }`}
+        >
+          {violation.severity === 'error'
+            ? <AlertCircle size={16} className="mt-0.5 flex-shrink-0" />
+            : <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />}
+          <span>
+            {violation.commandIndex !== undefined && (
+              <span className="font-mono mr-1">#{violation.commandIndex + 1}</span>
+            )}
+            {violation.message}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default MotionViolationList;
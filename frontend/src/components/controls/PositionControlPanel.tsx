@@ -1,12 +1,9 @@
 import React from 'react';
+import CartesianControl from './CartesianControl';
 
+// 로봇 제어 페이지 위치 탭 - IK 해를 3D 뷰어 고스트로 미리보기
 const PositionControlPanel: React.FC = () => {
-  return (
-    <div className="p-4 bg-white dark:bg-gray-800 rounded-lg">
-      <h3 className="text-lg font-semibold mb-4">PositionControlPanel</h3>
-      <p>PositionControlPanel 컴포넌트 (구현 예정)</p>
-    </div>
-  );
+  return <CartesianControl />;
 };
 
 export default PositionControlPanel;
@@ -1,165 +1,246 @@
 /**
- * 로봇 프로그램 제어 컴포넌트 - 프로그램 실행, 일시정지, 정지
+ * 로봇 프로그램 제어 컴포넌트 - 프로그램 편집, 검증, 실행/일시정지/스텝/건너뛰기
  */
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
   Play, 
   Pause, 
   Square, 
   SkipForward, 
-  SkipBack,
+  StepForward,
   FileText,
   Upload,
   Download,
-  Settings,
-  Clock,
-  BarChart3
+  Save,
+  Plus,
+  Trash2,
+  AlertCircle,
+  AlertTriangle
 } from 'lucide-react';
 import { useRobotState } from '../../contexts/RobotStateContext';
-import { sendRobotCommand } from '../../services/commandSender';
+import { useAuth } from '../../hooks/useAuth';
+import { useConnectionWatchdog } from '../../hooks/useConnectionWatchdog';
+import { useSafetyInteraction } from '../../contexts/SafetyInteractionContext';
+import { programInterpreter } from '../../services/programInterpreter';
+import { programService } from '../../services/programService';
+import { parseProgram } from '../../utils/programParser';
+import { ProgramInfo, RobotProgram } from '../../types/programTypes';
+import HoldToRunButton from './HoldToRunButton';
 import toast from 'react-hot-toast';
 
-interface ProgramInfo {
-  name: string;
-  id: string;
-  status: 'stopped' | 'running' | 'paused' | 'completed' | 'error';
-  progress: number;
-  currentLine: number;
-  totalLines: number;
-  startTime?: Date;
-  estimatedEndTime?: Date;
-  description?: string;
-}
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
 
 export const ProgramControl: React.FC = () => {
   const { robotState } = useRobotState();
-  const [currentProgram, setCurrentProgram] = useState<ProgramInfo | null>(null);
-  const [availablePrograms, setAvailablePrograms] = useState<ProgramInfo[]>([]);
-  const [selectedProgramId, setSelectedProgramId] = useState<string>('');
-  const [programSpeed, setProgramSpeed] = useState(100); // 속도 백분율
-  const [loopMode, setLoopMode] = useState(false);
-  const [stepMode, setStepMode] = useState(false);
+  const { can } = useAuth();
+  const { motionLocked } = useConnectionWatchdog();
+  const canRun = can('run_program') && !motionLocked;
+  const canEdit = can('edit_program');
+  const { getMode, confirmAction } = useSafetyInteraction();
+  const holdToRun = getMode('program_start') === 'hold';
+  const [currentProgram, setCurrentProgram] = useState<ProgramInfo | null>(() => programInterpreter.getInfo());
+  const [availablePrograms, setAvailablePrograms] = useState<RobotProgram[]>([]);
+  const [selectedProgramId, setSelectedProgramId] = useState<string>(() => programInterpreter.getInfo()?.id || '');
+  const [source, setSource] = useState('');
+  const [programSpeed, setProgramSpeed] = useState(() => programInterpreter.getOptions().speedOverride); // 속도 오버라이드 백분율
+  const [loopMode, setLoopMode] = useState(() => programInterpreter.getOptions().loopMode);
+  const [stepMode, setStepMode] = useState(() => programInterpreter.getOptions().stepMode);
+
+  const selectedProgram = availablePrograms.find(program => program.id === selectedProgramId) || null;
+  const isDirty = selectedProgram !== null && source !== selectedProgram.source;
+  const isActive = currentProgram?.status === 'running' || currentProgram?.status === 'paused';
+
+  // 편집 중인 소스 검증 (구문 + 모션 사전 검증)
+  const validation = useMemo(
+    () => programInterpreter.validate(parseProgram(source), robotState.jointPositions),
+    [source, robotState.jointPositions]
+  );
 
-  // 프로그램 목록 로드
+  // 인터프리터 진행 상황 구독
   useEffect(() => {
-    loadAvailablePrograms();
+    const handleChange = (info: ProgramInfo | null) => setCurrentProgram(info);
+    programInterpreter.onChange(handleChange);
+    return () => programInterpreter.offChange(handleChange);
   }, []);
 
-  // 로봇 상태에서 현재 프로그램 정보 업데이트
+  // 실행 옵션 반영 (실행 중 속도 오버라이드 변경 포함)
   useEffect(() => {
-    if (robotState.currentProgram) {
-      setCurrentProgram(robotState.currentProgram);
-    }
-  }, [robotState.currentProgram]);
+    programInterpreter.setOptions({ speedOverride: programSpeed, loopMode, stepMode });
+  }, [programSpeed, loopMode, stepMode]);
+
+  // 프로그램 목록 로드
+  useEffect(() => {
+    loadAvailablePrograms();
+  }, []);
 
   // 사용 가능한 프로그램 목록 로드
-  const loadAvailablePrograms = async () => {
+  const loadAvailablePrograms = async (selectId?: string) => {
     try {
-      const response = await fetch('/api/programs');
-      const programs = await response.json();
+      const programs = await programService.list();
       setAvailablePrograms(programs);
+      const id = selectId || programInterpreter.getInfo()?.id;
+      const program = programs.find(p => p.id === id);
+      if (program) {
+        setSelectedProgramId(program.id);
+        setSource(program.source);
+      }
     } catch (error) {
       console.error('프로그램 목록 로드 실패:', error);
     }
   };
 
   // 프로그램 선택
-  const selectProgram = async (programId: string) => {
-    try {
-      await sendRobotCommand('selectProgram', { programId });
-      setSelectedProgramId(programId);
-      const program = availablePrograms.find(p => p.id === programId);
-      if (program) {
-        setCurrentProgram({ ...program, status: 'stopped', progress: 0, currentLine: 0 });
-      }
+  const selectProgram = (programId: string) => {
+    if (isActive) {
+      toast.error('실행 중에는 프로그램을 바꿀 수 없습니다');
+      return;
+    }
+    if (isDirty && !window.confirm('저장하지 않은 변경 사항이 있습니다. 계속할까요?')) return;
+
+    const program = availablePrograms.find(p => p.id === programId);
+    setSelectedProgramId(programId);
+    setSource(program ? program.source : '');
+    if (program) {
+      programInterpreter.load(program);
       toast.success('프로그램 선택됨');
+    }
+  };
+
+  // 저장 (기본 레시피는 복사본으로 저장)
+  const saveProgram = async () => {
+    if (!selectedProgram) return;
+    try {
+      const saved = selectedProgram.builtin
+        ? await programService.create({ name: `${selectedProgram.name} (복사본)`, description: selectedProgram.description, source })
+        : await programService.update(selectedProgram.id, { name: selectedProgram.name, description: selectedProgram.description, source });
+      await loadAvailablePrograms(saved.id);
+      if (!isActive) programInterpreter.load(saved);
+      toast.success(selectedProgram.builtin ? '복사본으로 저장됨' : '프로그램 저장됨');
     } catch (error) {
-      toast.error(`프로그램 선택 실패: ${error}`);
+      toast.error(`저장 실패: ${errorMessage(error)}`);
     }
   };
 
-  // 프로그램 실행
-  const runProgram = async () => {
-    if (!currentProgram) {
-      toast.error('실행할 프로그램을 선택하세요');
-      return;
+  const createProgram = async () => {
+    const name = window.prompt('새 프로그램 이름');
+    if (!name || !name.trim()) return;
+    try {
+      const program = await programService.create({ name: name.trim(), source: '# 새 프로그램\n' });
+      await loadAvailablePrograms(program.id);
+      programInterpreter.load(program);
+    } catch (error) {
+      toast.error(`프로그램 생성 실패: ${errorMessage(error)}`);
     }
+  };
 
+  const deleteProgram = async () => {
+    if (!selectedProgram || !window.confirm(`'${selectedProgram.name}' 프로그램을 삭제할까요?`)) return;
     try {
-      await sendRobotCommand('runProgram', { 
-        programId: currentProgram.id,
-        speed: programSpeed,
-        loopMode,
-        stepMode
-      });
-      toast.success('프로그램 실행 시작');
+      await programService.remove(selectedProgram.id);
+      setSelectedProgramId('');
+      setSource('');
+      await loadAvailablePrograms();
+      toast.success('프로그램 삭제됨');
     } catch (error) {
-      toast.error(`프로그램 실행 실패: ${error}`);
+      toast.error(`삭제 실패: ${errorMessage(error)}`);
     }
   };
 
-  // 프로그램 일시정지
-  const pauseProgram = async () => {
+  // 프로그램 시작 확인 - 취소하면 false
+  const confirmProgramStart = (action: string) => confirmAction('program_start', {
+    message: `프로그램 '${selectedProgram?.name}' 을(를) ${action}합니다.\n속도 ${programSpeed}%${loopMode ? ', 반복 실행' : ''}`,
+    confirmText: action
+  });
+
+  // 프로그램 실행 (저장되지 않은 편집 내용도 실행), hold-to-run 으로 시작하면 확인 생략
+  const runProgram = async (skipConfirm = false) => {
+    if (!selectedProgram) {
+      toast.error('실행할 프로그램을 선택하세요');
+      return;
+    }
+
+    if (!validation.valid) {
+      const first = validation.diagnostics.find(diagnostic => diagnostic.severity === 'error');
+      toast.error(`프로그램 실행 불가: 라인 ${first?.line} ${first?.message}`);
+      return;
+    }
+    if (!skipConfirm && !(await confirmProgramStart(currentProgram?.status === 'paused' ? '재개' : '실행'))) return;
+
     try {
-      await sendRobotCommand('pauseProgram');
-      toast.success('프로그램 일시정지');
+      if (currentProgram?.status !== 'paused') {
+        programInterpreter.load({ ...selectedProgram, source });
+      }
+      programInterpreter.run({ speedOverride: programSpeed, loopMode, stepMode });
+      toast.success(currentProgram?.status === 'paused' ? '프로그램 재개' : '프로그램 실행 시작');
     } catch (error) {
-      toast.error(`일시정지 실패: ${error}`);
+      toast.error(`프로그램 실행 실패: ${errorMessage(error)}`);
     }
   };
 
+  // 프로그램 일시정지
+  const pauseProgram = () => {
+    programInterpreter.pause();
+    toast.success('현재 문장 완료 후 일시정지');
+  };
+
   // 프로그램 정지
   const stopProgram = async () => {
     try {
-      await sendRobotCommand('stopProgram');
+      await programInterpreter.stop();
       toast.success('프로그램 정지');
     } catch (error) {
-      toast.error(`정지 실패: ${error}`);
+      toast.error(`정지 실패: ${errorMessage(error)}`);
     }
   };
 
-  // 다음 스텝
+  // 한 문장 실행
   const nextStep = async () => {
+    if (!selectedProgram || !validation.valid) return;
+    if (!isActive && !(await confirmProgramStart('스텝 실행'))) return;
     try {
-      await sendRobotCommand('nextStep');
-      toast.success('다음 스텝 실행');
+      if (!isActive) {
+        programInterpreter.load({ ...selectedProgram, source });
+      }
+      programInterpreter.step();
     } catch (error) {
-      toast.error(`스텝 실행 실패: ${error}`);
+      toast.error(`스텝 실행 실패: ${errorMessage(error)}`);
     }
   };
 
-  // 이전 스텝
-  const prevStep = async () => {
+  // 다음 문장 건너뛰기
+  const skipStep = async () => {
     try {
-      await sendRobotCommand('prevStep');
-      toast.success('이전 스텝으로 이동');
+      await programInterpreter.skip();
     } catch (error) {
-      toast.error(`스텝 이동 실패: ${error}`);
+      toast.error(`건너뛰기 실패: ${errorMessage(error)}`);
     }
   };
 
-  // 프로그램 업로드
+  // 프로그램 업로드 (텍스트 프로그램 파일)
   const uploadProgram = async (file: File) => {
-    const formData = new FormData();
-    formData.append('program', file);
-
     try {
-      const response = await fetch('/api/programs/upload', {
-        method: 'POST',
-        body: formData
+      const program = await programService.create({
+        name: file.name.replace(/\.[^.]+$/, ''),
+        source: await file.text()
       });
-      
-      if (response.ok) {
-        await loadAvailablePrograms();
-        toast.success('프로그램 업로드 완료');
-      } else {
-        throw new Error('업로드 실패');
-      }
+      await loadAvailablePrograms(program.id);
+      programInterpreter.load(program);
+      toast.success('프로그램 업로드 완료');
     } catch (error) {
-      toast.error(`프로그램 업로드 실패: ${error}`);
+      toast.error(`프로그램 업로드 실패: ${errorMessage(error)}`);
     }
   };
 
+  const downloadProgram = (program: RobotProgram) => {
+    const blob = new Blob([program.source], { type: 'text/plain' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${program.name.replace(/\s+/g, '_')}.rprog`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
   // 실행 시간 계산
   const getExecutionTime = () => {
     if (!currentProgram?.startTime) return '00:00:00';
@@ -233,6 +314,22 @@ export const ProgramControl: React.FC = () => {
             </div>
           </div>
 
+          {/* 현재 문장 / 오류 */}
+          {currentProgram.currentStatement && (
+            <div className="mb-3 px-3 py-2 bg-gray-50 dark:bg-gray-700 rounded font-mono text-sm text-gray-800 dark:text-gray-200">
+              {currentProgram.currentLine}: {currentProgram.currentStatement}
+              {currentProgram.loopIteration && currentProgram.loopIteration > 1 && (
+                <span className="ml-2 text-xs text-gray-500">반복 {currentProgram.loopIteration}회차</span>
+              )}
+            </div>
+          )}
+          {currentProgram.status === 'error' && currentProgram.error && (
+            <div className="mb-3 flex items-start gap-2 p-2 rounded-md text-sm border bg-red-100 border-red-300 text-red-700">
+              <AlertCircle size={16} className="mt-0.5 flex-shrink-0" />
+              <span>{currentProgram.error}</span>
+            </div>
+          )}
+
           {/* 시간 정보 */}
           <div className="grid grid-cols-3 gap-4 text-center">
             <div>
@@ -265,16 +362,31 @@ export const ProgramControl: React.FC = () => {
             프로그램 선택
           </h3>
           <div className="flex gap-2">
+            <button
+              onClick={createProgram}
+              disabled={!canEdit}
+              className="flex items-center gap-2 px-3 py-2 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 rounded-md disabled:opacity-50 transition-colors"
+            >
+              <Plus size={16} />
+              새 프로그램
+            </button>
             <input
               type="file"
-              accept=".dcp,.py,.script"
-              onChange={(e) => e.target.files?.[0] && uploadProgram(e.target.files[0])}
+              accept=".rprog,.txt"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) uploadProgram(file);
+                e.target.value = '';
+              }}
               className="hidden"
               id="program-upload"
+              disabled={!canEdit}
             />
             <label
               htmlFor="program-upload"
-              className="flex items-center gap-2 px-3 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-md cursor-pointer transition-colors"
+              className={`flex items-center gap-2 px-3 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-md transition-colors ${
+                canEdit ? 'cursor-pointer' : 'opacity-50 cursor-not-allowed'
+              }`}
             >
               <Upload size={16} />
               업로드
@@ -285,17 +397,77 @@ export const ProgramControl: React.FC = () => {
         <select
           value={selectedProgramId}
           onChange={(e) => selectProgram(e.target.value)}
+          disabled={isActive}
           className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
         >
           <option value="">프로그램을 선택하세요</option>
           {availablePrograms.map(program => (
             <option key={program.id} value={program.id}>
-              {program.name} ({program.totalLines} 라인)
+              {program.name}{program.builtin ? ' (기본 레시피)' : ''}
             </option>
           ))}
         </select>
       </div>
 
+      {/* 프로그램 편집기 */}
+      {selectedProgram && (
+        <div className="mb-6">
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-sm text-gray-600 dark:text-gray-400">
+              moveJ · moveL · wait · set_concentration · wait_weight · loop/end · if/else/end
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={saveProgram}
+                disabled={!isDirty || !canEdit}
+                className="flex items-center gap-1 px-3 py-1 bg-green-500 hover:bg-green-600 disabled:bg-gray-300 disabled:text-gray-500 text-white rounded-md text-sm transition-colors"
+              >
+                <Save size={14} />
+                {selectedProgram.builtin ? '복사본 저장' : '저장'}
+              </button>
+              <button
+                onClick={deleteProgram}
+                disabled={selectedProgram.builtin || isActive || !canEdit}
+                className="flex items-center gap-1 px-3 py-1 bg-red-500 hover:bg-red-600 disabled:bg-gray-300 disabled:text-gray-500 text-white rounded-md text-sm transition-colors"
+              >
+                <Trash2 size={14} />
+                삭제
+              </button>
+            </div>
+          </div>
+          <textarea
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            readOnly={isActive}
+            spellCheck={false}
+            rows={Math.min(20, Math.max(8, source.split('\n').length + 1))}
+            className="w-full px-3 py-2 font-mono text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-900 dark:text-gray-100"
+          />
+          {validation.diagnostics.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {validation.diagnostics.map((diagnostic, index) => (
+                <li
+                  key={`${diagnostic.line}-${index}`}
+                  className={`flex items-start gap-2 p-2 rounded-md text-sm border ${
+                    diagnostic.severity === 'error'
+                      ? 'bg-red-100 border-red-300 text-red-700'
+                      : 'bg-yellow-50 border-yellow-300 text-yellow-700'
+                  }`}
+                >
+                  {diagnostic.severity === 'error'
+                    ? <AlertCircle size={16} className="mt-0.5 flex-shrink-0" />
+                    : <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />}
+                  <span>
+                    <span className="font-mono mr-1">L{diagnostic.line}</span>
+                    {diagnostic.message}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* 실행 설정 */}
       <div className="mb-6 grid grid-cols-1 md:grid-cols-3 gap-4">
         {/* 속도 설정 */}
@@ -306,15 +478,15 @@ export const ProgramControl: React.FC = () => {
           <input
             type="range"
             min="1"
-            max="200"
+            max="100"
             value={programSpeed}
             onChange={(e) => setProgramSpeed(parseInt(e.target.value))}
             className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-700"
           />
           <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
             <span>1%</span>
+            <span>50%</span>
             <span>100%</span>
-            <span>200%</span>
           </div>
         </div>
 
@@ -350,19 +522,30 @@ export const ProgramControl: React.FC = () => {
       {/* 제어 버튼 */}
       <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-6">
         {/* 실행 버튼 */}
-        <button
-          onClick={runProgram}
-          disabled={!currentProgram || currentProgram.status === 'running'}
-          className="flex items-center justify-center gap-2 px-4 py-3 bg-green-500 hover:bg-green-600 text-white rounded-md font-medium disabled:bg-gray-300 disabled:text-gray-500 transition-colors"
-        >
-          <Play size={20} />
-          실행
-        </button>
+        {holdToRun ? (
+          <HoldToRunButton
+            onStart={() => runProgram(true)}
+            onStop={stopProgram}
+            disabled={!canRun || !selectedProgram || !validation.valid}
+            className="px-4 py-3 bg-green-500 hover:bg-green-600 text-white rounded-md font-medium disabled:bg-gray-300 disabled:text-gray-500 transition-colors"
+          >
+            실행
+          </HoldToRunButton>
+        ) : (
+          <button
+            onClick={() => runProgram()}
+            disabled={!canRun || !selectedProgram || currentProgram?.status === 'running' || !validation.valid}
+            className="flex items-center justify-center gap-2 px-4 py-3 bg-green-500 hover:bg-green-600 text-white rounded-md font-medium disabled:bg-gray-300 disabled:text-gray-500 transition-colors"
+          >
+            <Play size={20} />
+            실행
+          </button>
+        )}
 
         {/* 일시정지 버튼 */}
         <button
           onClick={pauseProgram}
-          disabled={!currentProgram || currentProgram.status !== 'running'}
+          disabled={currentProgram?.status !== 'running'}
           className="flex items-center justify-center gap-2 px-4 py-3 bg-yellow-500 hover:bg-yellow-600 text-white rounded-md font-medium disabled:bg-gray-300 disabled:text-gray-500 transition-colors"
         >
           <Pause size={20} />
@@ -372,31 +555,31 @@ export const ProgramControl: React.FC = () => {
         {/* 정지 버튼 */}
         <button
           onClick={stopProgram}
-          disabled={!currentProgram || currentProgram.status === 'stopped'}
+          disabled={!isActive}
           className="flex items-center justify-center gap-2 px-4 py-3 bg-red-500 hover:bg-red-600 text-white rounded-md font-medium disabled:bg-gray-300 disabled:text-gray-500 transition-colors"
         >
           <Square size={20} />
           정지
         </button>
 
-        {/* 이전 스텝 */}
+        {/* 한 문장 실행 */}
         <button
-          onClick={prevStep}
-          disabled={!stepMode || !currentProgram || currentProgram.currentLine <= 0}
+          onClick={nextStep}
+          disabled={!canRun || !selectedProgram || currentProgram?.status === 'running' || !validation.valid}
           className="flex items-center justify-center gap-2 px-4 py-3 bg-blue-500 hover:bg-blue-600 text-white rounded-md font-medium disabled:bg-gray-300 disabled:text-gray-500 transition-colors"
         >
-          <SkipBack size={20} />
-          이전
+          <StepForward size={20} />
+          스텝
         </button>
 
-        {/* 다음 스텝 */}
+        {/* 다음 문장 건너뛰기 */}
         <button
-          onClick={nextStep}
-          disabled={!stepMode || !currentProgram}
+          onClick={skipStep}
+          disabled={currentProgram?.status !== 'paused'}
           className="flex items-center justify-center gap-2 px-4 py-3 bg-blue-500 hover:bg-blue-600 text-white rounded-md font-medium disabled:bg-gray-300 disabled:text-gray-500 transition-colors"
         >
           <SkipForward size={20} />
-          다음
+          건너뛰기
         </button>
       </div>
 
@@ -429,17 +612,19 @@ export const ProgramControl: React.FC = () => {
                     {program.name}
                   </div>
                   <div className="text-sm text-gray-600 dark:text-gray-400">
-                    {program.totalLines} 라인 • {program.description || '설명 없음'}
+                    {program.source.split('\n').length} 라인 • {program.description || '설명 없음'}
                   </div>
                 </div>
                 <div className="flex items-center gap-2">
-                  <span className={`px-2 py-1 rounded text-xs font-medium ${getStatusColor(program.status)}`}>
-                    {getStatusText(program.status)}
-                  </span>
+                  {currentProgram?.id === program.id && (
+                    <span className={`px-2 py-1 rounded text-xs font-medium ${getStatusColor(currentProgram.status)}`}>
+                      {getStatusText(currentProgram.status)}
+                    </span>
+                  )}
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
-                      // 프로그램 다운로드 또는 상세보기
+                      downloadProgram(program);
                     }}
                     className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
                   >
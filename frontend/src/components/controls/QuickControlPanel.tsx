@@ -4,6 +4,10 @@
 import React from 'react';
 import { Play, Pause, Square, RotateCcw, Zap } from 'lucide-react';
 import { useRobotStore } from '../../store/robotStore';
+import { useAuth } from '../../hooks/useAuth';
+import { useConnectionWatchdog } from '../../hooks/useConnectionWatchdog';
+import { useSafetyInteraction } from '../../contexts/SafetyInteractionContext';
+import HoldToRunButton from './HoldToRunButton';
 import toast from 'react-hot-toast';
 
 interface QuickControlPanelProps {
@@ -23,18 +27,31 @@ const QuickControlPanel: React.FC<QuickControlPanelProps> = ({
     sendHomeCommand,
     canSendCommand
   } = useRobotStore();
+  const { can } = useAuth();
+  const { motionLocked } = useConnectionWatchdog();
+  const canHome = can('home') && !motionLocked;
+  const { getMode, confirmAction } = useSafetyInteraction();
+  // 홈 명령은 목표 자세를 로봇이 결정하므로 이동량과 무관하게 큰 이동으로 취급
+  const holdToRun = getMode('large_move') === 'hold';
+
+  const confirmHomeMove = (label: string) => confirmAction('large_move', {
+    title: `${label} 확인`,
+    message: '로봇이 홈 위치로 이동합니다.\n작업 공간에 사람이나 장애물이 없는지 확인하세요.',
+    confirmText: '이동'
+  });
 
   const buttonBaseClasses = "flex items-center justify-center p-3 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
 
   // 제어 함수들
-  const handleStart = async () => {
+  const handleStart = async (skipConfirm = false) => {
     if (!canSendCommand()) {
       toast.error('로봇이 준비되지 않았습니다');
       return;
     }
+    if (!skipConfirm && !(await confirmHomeMove('로봇 시작'))) return;
     
     // 홈 위치로 이동 (시작 명령으로 대체)
-    const success = await sendHomeCommand(30);
+    const success = await sendHomeCommand();
     if (success) {
       toast.success('로봇 시작');
     } else {
@@ -70,11 +87,12 @@ const QuickControlPanel: React.FC<QuickControlPanelProps> = ({
     }
   };
 
-  const handleReset = async () => {
+  const handleReset = async (skipConfirm = false) => {
     if (!canSendCommand()) {
       toast.error('로봇이 준비되지 않았습니다');
       return;
     }
+    if (!skipConfirm && !(await confirmHomeMove('홈 위치 리셋'))) return;
     
     const success = await sendHomeCommand(20);
     if (success) {
@@ -84,6 +102,14 @@ const QuickControlPanel: React.FC<QuickControlPanelProps> = ({
     }
   };
 
+  // hold-to-run 해제 시 정지
+  const handleHoldRelease = async () => {
+    const success = await sendStopCommand();
+    if (!success) {
+      toast.error('정지 명령 실패');
+    }
+  };
+
   const handleEmergencyStop = async () => {
     const success = await sendEmergencyStop();
     if (success) {
@@ -100,14 +126,25 @@ const QuickControlPanel: React.FC<QuickControlPanelProps> = ({
       </h3>
       
       <div className="grid grid-cols-2 gap-3">
-        <button
-          onClick={handleStart}
-          disabled={!canSendCommand() || isMoving}
-          className={`${buttonBaseClasses} bg-green-100 text-green-700 hover:bg-green-200 dark:bg-green-900/20 dark:text-green-400 dark:hover:bg-green-900/30`}
-        >
-          <Play className="w-5 h-5 mr-2" />
-          시작
-        </button>
+        {holdToRun ? (
+          <HoldToRunButton
+            onStart={() => handleStart(true)}
+            onStop={handleHoldRelease}
+            disabled={!canSendCommand() || !canHome}
+            className={`${buttonBaseClasses} bg-green-100 text-green-700 hover:bg-green-200 dark:bg-green-900/20 dark:text-green-400 dark:hover:bg-green-900/30`}
+          >
+            시작
+          </HoldToRunButton>
+        ) : (
+          <button
+            onClick={() => handleStart()}
+            disabled={!canSendCommand() || isMoving || !canHome}
+            className={`${buttonBaseClasses} bg-green-100 text-green-700 hover:bg-green-200 dark:bg-green-900/20 dark:text-green-400 dark:hover:bg-green-900/30`}
+          >
+            <Play className="w-5 h-5 mr-2" />
+            시작
+          </button>
+        )}
 
         <button
           onClick={handlePause}
@@ -127,14 +164,25 @@ const QuickControlPanel: React.FC<QuickControlPanelProps> = ({
           정지
         </button>
 
-        <button
-          onClick={handleReset}
-          disabled={!canSendCommand()}
-          className={`${buttonBaseClasses} bg-blue-100 text-blue-700 hover:bg-blue-200 dark:bg-blue-900/20 dark:text-blue-400 dark:hover:bg-blue-900/30`}
-        >
-          <RotateCcw className="w-5 h-5 mr-2" />
-          홈으로
-        </button>
+        {holdToRun ? (
+          <HoldToRunButton
+            onStart={() => handleReset(true)}
+            onStop={handleHoldRelease}
+            disabled={!canSendCommand() || !canHome}
+            className={`${buttonBaseClasses} bg-blue-100 text-blue-700 hover:bg-blue-200 dark:bg-blue-900/20 dark:text-blue-400 dark:hover:bg-blue-900/30`}
+          >
+            홈으로
+          </HoldToRunButton>
+        ) : (
+          <button
+            onClick={() => handleReset()}
+            disabled={!canSendCommand() || !canHome}
+            className={`${buttonBaseClasses} bg-blue-100 text-blue-700 hover:bg-blue-200 dark:bg-blue-900/20 dark:text-blue-400 dark:hover:bg-blue-900/30`}
+          >
+            <RotateCcw className="w-5 h-5 mr-2" />
+            홈으로
+          </button>
+        )}
       </div>
 
       {/* 비상정지 버튼 */}
@@ -14,9 +14,15 @@ import {
   EyeOff
 } from 'lucide-react';
 import { useRobotState } from '../../contexts/RobotStateContext';
+import { useAuth } from '../../hooks/useAuth';
+import { useSafetyInteraction } from '../../contexts/SafetyInteractionContext';
+import { useRobotStore } from '../../store/robotStore';
 import { sendRobotCommand } from '../../services/commandSender';
 import toast from 'react-hot-toast';
 
+// 감사 로그에 남길 명령 출처
+const AUDIT_SOURCE = 'SafetyControl';
+
 interface SafetyStatus {
   emergencyStop: boolean;
   safetyMode: boolean;
@@ -28,6 +34,10 @@ interface SafetyStatus {
 
 export const SafetyControl: React.FC = () => {
   const { robotState } = useRobotState();
+  const { can, roleLabel } = useAuth();
+  const { sendEmergencyStop, getLastCommandError } = useRobotStore();
+  const { confirmAction } = useSafetyInteraction();
+  const canReleaseEmergency = can('release_emergency_stop');
   const [safetyStatus, setSafetyStatus] = useState<SafetyStatus>({
     emergencyStop: false,
     safetyMode: true,
@@ -36,7 +46,6 @@ export const SafetyControl: React.FC = () => {
     protectiveStop: false,
     safeguardStop: false
   });
-  const [isConfirming, setIsConfirming] = useState<string | null>(null);
   const [emergencyPressed, setEmergencyPressed] = useState(false);
 
   // 로봇 상태에서 안전 정보 업데이트
@@ -52,25 +61,27 @@ export const SafetyControl: React.FC = () => {
     
     try {
       setEmergencyPressed(true);
-      await sendRobotCommand('emergencyStop');
+      // 명령 큐를 통해 전송 - 실행 중/대기 중인 이동 명령은 실패 처리됨
+      if (!(await sendEmergencyStop(AUDIT_SOURCE))) {
+        throw new Error(getLastCommandError());
+      }
       toast.error('비상정지 실행됨');
     } catch (error) {
       toast.error(`비상정지 실패: ${error}`);
     }
   };
 
-  // 비상정지 해제
+  // 비상정지 해제 (안전 설정 명령은 이동 명령 큐를 거치지 않고 바로 전송)
   const releaseEmergencyStop = async () => {
-    if (!isConfirming) {
-      setIsConfirming('emergency');
-      setTimeout(() => setIsConfirming(null), 5000); // 5초 후 자동 취소
-      return;
-    }
+    const confirmed = await confirmAction('emergency_release', {
+      message: '비상정지를 해제합니다.\n로봇 작업 공간에 사람이나 장애물이 없는지 확인하세요.',
+      confirmText: '해제'
+    });
+    if (!confirmed) return;
 
     try {
-      await sendRobotCommand('releaseEmergencyStop');
+      await sendRobotCommand('releaseEmergencyStop', undefined, AUDIT_SOURCE);
       setEmergencyPressed(false);
-      setIsConfirming(null);
       toast.success('비상정지 해제됨');
     } catch (error) {
       toast.error(`비상정지 해제 실패: ${error}`);
@@ -79,9 +90,17 @@ export const SafetyControl: React.FC = () => {
 
   // 안전 모드 토글
   const toggleSafetyMode = async () => {
+    const newMode = !safetyStatus.safetyMode;
+    const confirmed = await confirmAction('safety_mode', {
+      message: newMode
+        ? '안전 모드를 활성화합니다.'
+        : '안전 모드를 비활성화합니다.\n안전 기능이 꺼진 상태로 로봇이 동작할 수 있습니다.',
+      confirmText: newMode ? '활성화' : '비활성화'
+    });
+    if (!confirmed) return;
+
     try {
-      const newMode = !safetyStatus.safetyMode;
-      await sendRobotCommand('setSafetyMode', { enabled: newMode });
+      await sendRobotCommand('setSafetyMode', { enabled: newMode }, AUDIT_SOURCE);
       toast.success(`안전 모드 ${newMode ? '활성화' : '비활성화'}`);
     } catch (error) {
       toast.error(`안전 모드 변경 실패: ${error}`);
@@ -90,16 +109,15 @@ export const SafetyControl: React.FC = () => {
 
   // 로봇 전원 토글
   const togglePower = async () => {
-    if (!isConfirming) {
-      setIsConfirming('power');
-      setTimeout(() => setIsConfirming(null), 5000);
-      return;
-    }
+    const newPowerState = !safetyStatus.powerOn;
+    const confirmed = await confirmAction('power', {
+      message: `로봇 전원을 ${newPowerState ? '켭니다' : '끕니다'}.`,
+      confirmText: newPowerState ? '켜기' : '끄기'
+    });
+    if (!confirmed) return;
 
     try {
-      const newPowerState = !safetyStatus.powerOn;
-      await sendRobotCommand('setPower', { enabled: newPowerState });
-      setIsConfirming(null);
+      await sendRobotCommand('setPower', { enabled: newPowerState }, AUDIT_SOURCE);
       toast.success(`로봇 전원 ${newPowerState ? '켜짐' : '꺼짐'}`);
     } catch (error) {
       toast.error(`전원 제어 실패: ${error}`);
@@ -108,9 +126,15 @@ export const SafetyControl: React.FC = () => {
 
   // 모터 활성화/비활성화
   const toggleMotor = async () => {
+    const newMotorState = !safetyStatus.motorEnabled;
+    const confirmed = await confirmAction('motor', {
+      message: `모터를 ${newMotorState ? '활성화' : '비활성화'}합니다.`,
+      confirmText: newMotorState ? '활성화' : '비활성화'
+    });
+    if (!confirmed) return;
+
     try {
-      const newMotorState = !safetyStatus.motorEnabled;
-      await sendRobotCommand('setMotorEnabled', { enabled: newMotorState });
+      await sendRobotCommand('setMotorEnabled', { enabled: newMotorState }, AUDIT_SOURCE);
       toast.success(`모터 ${newMotorState ? '활성화' : '비활성화'}`);
     } catch (error) {
       toast.error(`모터 제어 실패: ${error}`);
@@ -119,8 +143,14 @@ export const SafetyControl: React.FC = () => {
 
   // 보호 정지 해제
   const releaseProtectiveStop = async () => {
+    const confirmed = await confirmAction('protective_release', {
+      message: '보호 정지를 해제합니다.\n정지 원인이 해소되었는지 확인하세요.',
+      confirmText: '해제'
+    });
+    if (!confirmed) return;
+
     try {
-      await sendRobotCommand('releaseProtectiveStop');
+      await sendRobotCommand('releaseProtectiveStop', undefined, AUDIT_SOURCE);
       toast.success('보호 정지 해제됨');
     } catch (error) {
       toast.error(`보호 정지 해제 실패: ${error}`);
@@ -175,26 +205,25 @@ export const SafetyControl: React.FC = () => {
             비상정지
           </button>
           
-          {emergencyPressed && (
+          {emergencyPressed && (canReleaseEmergency ? (
             <button
               onClick={releaseEmergencyStop}
-              className={`flex-1 flex items-center justify-center gap-3 px-6 py-4 rounded-lg font-bold text-lg transition-all ${
-                isConfirming === 'emergency'
-                  ? 'bg-yellow-500 hover:bg-yellow-600 text-white'
-                  : 'bg-gray-500 hover:bg-gray-600 text-white'
-              }`}
+              className="flex-1 flex items-center justify-center gap-3 px-6 py-4 rounded-lg font-bold text-lg transition-all bg-gray-500 hover:bg-gray-600 text-white"
             >
               <Unlock size={24} />
-              {isConfirming === 'emergency' ? '다시 클릭하여 해제' : '비상정지 해제'}
+              비상정지 해제
             </button>
-          )}
+          ) : (
+            <button
+              disabled
+              title={`현재 역할: ${roleLabel}`}
+              className="flex-1 flex items-center justify-center gap-3 px-6 py-4 rounded-lg font-bold text-lg bg-gray-300 text-gray-600 cursor-not-allowed"
+            >
+              <Lock size={24} />
+              직원만 해제 가능
+            </button>
+          ))}
         </div>
-        
-        {isConfirming === 'emergency' && (
-          <div className="mt-2 text-sm text-yellow-600 dark:text-yellow-400 text-center">
-            5초 내에 다시 클릭하여 비상정지를 해제하세요
-          </div>
-        )}
       </div>
 
       {/* 안전 상태 그리드 */}
@@ -208,7 +237,7 @@ export const SafetyControl: React.FC = () => {
             </div>
             <button
               onClick={toggleSafetyMode}
-              disabled={safetyStatus.emergencyStop}
+              disabled={safetyStatus.emergencyStop || !can('set_safety_mode')}
               className={`w-12 h-6 rounded-full relative transition-colors ${
                 safetyStatus.safetyMode ? 'bg-green-500' : 'bg-gray-300'
               } disabled:opacity-50`}
@@ -232,19 +261,14 @@ export const SafetyControl: React.FC = () => {
             </div>
             <button
               onClick={togglePower}
-              disabled={safetyStatus.emergencyStop}
+              disabled={safetyStatus.emergencyStop || !can('set_power')}
               className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
-                isConfirming === 'power'
-                  ? 'bg-yellow-500 text-white'
-                  : safetyStatus.powerOn 
-                    ? 'bg-red-500 hover:bg-red-600 text-white' 
-                    : 'bg-blue-500 hover:bg-blue-600 text-white'
+                safetyStatus.powerOn 
+                  ? 'bg-red-500 hover:bg-red-600 text-white' 
+                  : 'bg-blue-500 hover:bg-blue-600 text-white'
               } disabled:bg-gray-300 disabled:text-gray-500`}
             >
-              {isConfirming === 'power' 
-                ? '확인' 
-                : safetyStatus.powerOn ? '끄기' : '켜기'
-              }
+              {safetyStatus.powerOn ? '끄기' : '켜기'}
             </button>
           </div>
           <div className="text-sm text-gray-600 dark:text-gray-400">
@@ -261,7 +285,7 @@ export const SafetyControl: React.FC = () => {
             </div>
             <button
               onClick={toggleMotor}
-              disabled={safetyStatus.emergencyStop || !safetyStatus.powerOn}
+              disabled={safetyStatus.emergencyStop || !safetyStatus.powerOn || !can('set_motor')}
               className={`w-12 h-6 rounded-full relative transition-colors ${
                 safetyStatus.motorEnabled ? 'bg-green-500' : 'bg-gray-300'
               } disabled:opacity-50`}
@@ -283,7 +307,7 @@ export const SafetyControl: React.FC = () => {
               <AlertTriangle className={safetyStatus.protectiveStop ? 'text-yellow-600' : 'text-gray-400'} size={20} />
               <span className="font-medium text-gray-900 dark:text-gray-100">보호 정지</span>
             </div>
-            {safetyStatus.protectiveStop && (
+            {safetyStatus.protectiveStop && can('release_protective_stop') && (
               <button
                 onClick={releaseProtectiveStop}
                 className="px-3 py-1 bg-yellow-500 hover:bg-yellow-600 text-white rounded text-sm font-medium transition-colors"
@@ -0,0 +1,372 @@
+/**
+ * 티칭 웨이포인트 패널 - 현재 자세 기록, 편집/순서 변경, 순차 재생, JSON 내보내기
+ */
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  MapPin,
+  Play,
+  Plus,
+  Trash2,
+  ArrowUp,
+  ArrowDown,
+  Navigation,
+  Download,
+  Upload
+} from 'lucide-react';
+import { useRobotState } from '../../contexts/RobotStateContext';
+import { useAuth } from '../../hooks/useAuth';
+import { useConnectionWatchdog } from '../../hooks/useConnectionWatchdog';
+import { useRobotStore } from '../../store/robotStore';
+import CommandSenderService from '../../services/commandSender';
+import { motionValidator } from '../../services/motionValidator';
+import { waypointService } from '../../services/waypointService';
+import { forwardKinematics } from '../../utils/kinematics';
+import { Waypoint, WaypointSet, WaypointMoveType } from '../../types/robotTypes';
+import MotionViolationList from './MotionViolationList';
+import toast from 'react-hot-toast';
+
+// 감사 로그에 남길 명령 출처
+const AUDIT_SOURCE = 'WaypointTeachPanel';
+
+const commandService = new CommandSenderService(undefined, AUDIT_SOURCE);
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-white';
+
+export const WaypointTeachPanel: React.FC = () => {
+  const { robotState, setPendingTarget } = useRobotState();
+  const { can } = useAuth();
+  const { sendJointMoveCommand, sendLinearMoveCommand, getLastCommandError } = useRobotStore();
+  const { motionLocked } = useConnectionWatchdog();
+  const canMove = can('move_joint') && can('move_linear') && !motionLocked;
+  const [sets, setSets] = useState<WaypointSet[]>(() => waypointService.getSets());
+  const [activeSetId, setActiveSetId] = useState<string | null>(() => waypointService.getActiveSetId());
+  const [waypointName, setWaypointName] = useState('');
+  const [selectedWaypointId, setSelectedWaypointId] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const activeSet = sets.find(set => set.id === activeSetId) || null;
+  const waypoints = useMemo(() => (activeSet ? activeSet.waypoints : []), [activeSet]);
+  const selectedWaypoint = waypoints.find(waypoint => waypoint.id === selectedWaypointId) || null;
+
+  // 재생 전 검증 (현재 자세 → 각 웨이포인트 연결)
+  const validation = useMemo(
+    () => motionValidator.validateBatch(waypointService.toMotionCommands(waypoints), robotState.jointPositions),
+    [waypoints, robotState.jointPositions]
+  );
+
+  // 선택한 웨이포인트를 3D 뷰어 고스트로 미리보기
+  useEffect(() => {
+    setPendingTarget(selectedWaypoint
+      ? { joints: selectedWaypoint.joints, source: 'joint', pose: selectedWaypoint.pose }
+      : null);
+  }, [selectedWaypoint, setPendingTarget]);
+
+  useEffect(() => () => setPendingTarget(null), [setPendingTarget]);
+
+  const selectSet = (id: string | null) => {
+    setActiveSetId(id);
+    setSelectedWaypointId(null);
+    waypointService.setActiveSetId(id);
+  };
+
+  const refreshSets = () => setSets(waypointService.getSets());
+
+  const updateWaypoints = (nextWaypoints: Waypoint[]) => {
+    if (!activeSet) return;
+    waypointService.saveSet({ ...activeSet, waypoints: nextWaypoints });
+    refreshSets();
+  };
+
+  const createSet = () => {
+    const name = window.prompt('새 웨이포인트 세트 이름', `웨이포인트 세트 ${sets.length + 1}`);
+    if (name === null) return;
+    const set = waypointService.createSet(name);
+    refreshSets();
+    selectSet(set.id);
+  };
+
+  const renameSet = () => {
+    if (!activeSet) return;
+    const name = window.prompt('세트 이름 변경', activeSet.name);
+    if (!name || !name.trim()) return;
+    waypointService.saveSet({ ...activeSet, name: name.trim() });
+    refreshSets();
+  };
+
+  const deleteSet = () => {
+    if (!activeSet || !window.confirm(`'${activeSet.name}' 세트를 삭제할까요?`)) return;
+    waypointService.deleteSet(activeSet.id);
+    refreshSets();
+    selectSet(null);
+  };
+
+  // 현재 자세 기록
+  const recordWaypoint = () => {
+    if (!activeSet) {
+      toast.error('먼저 웨이포인트 세트를 선택하거나 만드세요');
+      return;
+    }
+    try {
+      const joints = robotState.jointPositions;
+      const pose = robotState.endEffectorPosition || forwardKinematics(joints);
+      const waypoint = waypointService.createWaypoint(waypointName, joints, pose, waypoints.length);
+      updateWaypoints([...waypoints, waypoint]);
+      setWaypointName('');
+      toast.success(`웨이포인트 '${waypoint.name}' 기록됨`);
+    } catch (error) {
+      toast.error(`기록 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
+    }
+  };
+
+  const editWaypoint = (id: string, changes: Partial<Waypoint>) => {
+    updateWaypoints(waypoints.map(waypoint => (waypoint.id === id ? { ...waypoint, ...changes } : waypoint)));
+  };
+
+  const moveWaypoint = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= waypoints.length) return;
+    const reordered = [...waypoints];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    updateWaypoints(reordered);
+  };
+
+  const removeWaypoint = (id: string) => {
+    updateWaypoints(waypoints.filter(waypoint => waypoint.id !== id));
+    if (selectedWaypointId === id) setSelectedWaypointId(null);
+  };
+
+  // 단일 웨이포인트로 이동
+  const goToWaypoint = async (waypoint: Waypoint) => {
+    try {
+      const success = waypoint.moveType === 'linear'
+        ? await sendLinearMoveCommand(waypoint.pose, waypoint.speed, waypoint.acceleration, AUDIT_SOURCE)
+        : await sendJointMoveCommand(waypoint.joints, waypoint.speed, waypoint.acceleration, AUDIT_SOURCE);
+      if (!success) throw new Error(getLastCommandError());
+      toast.success(`'${waypoint.name}' 로 이동 완료`);
+    } catch (error) {
+      toast.error(`이동 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
+    }
+  };
+
+  // 전체 순차 재생
+  const playWaypoints = async () => {
+    if (waypoints.length === 0) return;
+    if (!validation.valid) {
+      toast.error(`재생 불가: ${motionValidator.formatViolations(validation)}`);
+      return;
+    }
+
+    setIsPlaying(true);
+    try {
+      const result = await commandService.sendSequentialMove(waypoints, robotState.jointPositions);
+      if (result.status === 'failed') throw new Error(result.error || result.message);
+      toast.success(`웨이포인트 ${waypoints.length}개 재생 완료`);
+    } catch (error) {
+      toast.error(`재생 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
+    } finally {
+      setIsPlaying(false);
+    }
+  };
+
+  const exportSet = () => {
+    if (!activeSet) return;
+    const blob = new Blob([waypointService.exportSet(activeSet.id)], { type: 'application/json' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${activeSet.name.replace(/\s+/g, '_')}_waypoints.json`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const importSet = async (file: File) => {
+    try {
+      const set = waypointService.importSet(await file.text());
+      refreshSets();
+      selectSet(set.id);
+      toast.success(`'${set.name}' 가져오기 완료 (${set.waypoints.length}개)`);
+    } catch (error) {
+      toast.error(`가져오기 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100">
+          티칭 웨이포인트
+        </h2>
+        <span className="px-3 py-1 rounded-full text-sm font-medium bg-purple-100 text-purple-800 dark:bg-purple-900/50 dark:text-purple-300">
+          티칭 모드
+        </span>
+      </div>
+
+      {/* 세트 선택 */}
+      <div className="mb-6 flex flex-wrap gap-2 items-center">
+        <select
+          value={activeSetId || ''}
+          onChange={(e) => selectSet(e.target.value || null)}
+          className="flex-1 min-w-[200px] px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+        >
+          <option value="">웨이포인트 세트를 선택하세요</option>
+          {sets.map(set => (
+            <option key={set.id} value={set.id}>
+              {set.name} ({set.waypoints.length}개)
+            </option>
+          ))}
+        </select>
+        <button onClick={createSet} className="flex items-center gap-1 px-3 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-md text-sm">
+          <Plus size={16} /> 새 세트
+        </button>
+        <button onClick={renameSet} disabled={!activeSet} className="px-3 py-2 bg-gray-200 hover:bg-gray-300 disabled:opacity-50 dark:bg-gray-700 dark:text-gray-200 rounded-md text-sm">
+          이름 변경
+        </button>
+        <button onClick={deleteSet} disabled={!activeSet} className="px-3 py-2 bg-red-500 hover:bg-red-600 disabled:opacity-50 text-white rounded-md text-sm">
+          삭제
+        </button>
+        <button onClick={exportSet} disabled={!activeSet} className="flex items-center gap-1 px-3 py-2 bg-gray-200 hover:bg-gray-300 disabled:opacity-50 dark:bg-gray-700 dark:text-gray-200 rounded-md text-sm">
+          <Download size={16} /> 내보내기
+        </button>
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importSet(file);
+            e.target.value = '';
+          }}
+          className="hidden"
+          id="waypoint-import"
+        />
+        <label htmlFor="waypoint-import" className="flex items-center gap-1 px-3 py-2 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 rounded-md text-sm cursor-pointer">
+          <Upload size={16} /> 가져오기
+        </label>
+      </div>
+
+      {/* 현재 자세 기록 */}
+      <div className="mb-6 p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
+        <div className="text-sm text-gray-600 dark:text-gray-400 mb-3 font-mono">
+          J: [{robotState.jointPositions.map(joint => joint.toFixed(1)).join(', ')}]
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={waypointName}
+            onChange={(e) => setWaypointName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && recordWaypoint()}
+            placeholder={`P${waypoints.length + 1}`}
+            className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+          />
+          <button
+            onClick={recordWaypoint}
+            disabled={!activeSet}
+            className="flex items-center gap-2 px-4 py-2 bg-purple-500 hover:bg-purple-600 disabled:bg-gray-400 text-white rounded-md font-medium"
+          >
+            <MapPin size={16} />
+            현재 위치 기록
+          </button>
+        </div>
+      </div>
+
+      {/* 웨이포인트 목록 */}
+      {activeSet && waypoints.length === 0 && (
+        <p className="mb-6 text-sm text-gray-500 dark:text-gray-400">기록된 웨이포인트가 없습니다.</p>
+      )}
+      {waypoints.length > 0 && (
+        <div className="mb-6 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                <th className="py-2 pr-2">#</th>
+                <th className="py-2 pr-2">이름</th>
+                <th className="py-2 pr-2">이동</th>
+                <th className="py-2 pr-2">속도 %</th>
+                <th className="py-2 pr-2">가속도 %</th>
+                <th className="py-2 pr-2">블렌드 mm</th>
+                <th className="py-2 pr-2">대기 ms</th>
+                <th className="py-2 pr-2">TCP (mm)</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {waypoints.map((waypoint, index) => (
+                <tr
+                  key={waypoint.id}
+                  onClick={() => setSelectedWaypointId(waypoint.id === selectedWaypointId ? null : waypoint.id)}
+                  className={`border-b border-gray-100 dark:border-gray-700 cursor-pointer ${
+                    waypoint.id === selectedWaypointId ? 'bg-blue-50 dark:bg-blue-900/30' : ''
+                  }`}
+                >
+                  <td className="py-2 pr-2 font-mono">{index + 1}</td>
+                  <td className="py-2 pr-2" onClick={(e) => e.stopPropagation()}>
+                    <input
+                      type="text"
+                      value={waypoint.name}
+                      onChange={(e) => editWaypoint(waypoint.id, { name: e.target.value })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="py-2 pr-2" onClick={(e) => e.stopPropagation()}>
+                    <select
+                      value={waypoint.moveType}
+                      onChange={(e) => editWaypoint(waypoint.id, { moveType: e.target.value as WaypointMoveType })}
+                      className={inputClass}
+                    >
+                      <option value="joint">J</option>
+                      <option value="linear">L</option>
+                    </select>
+                  </td>
+                  {(['speed', 'acceleration', 'blendRadius', 'waitTime'] as const).map(field => (
+                    <td key={field} className="py-2 pr-2 w-24" onClick={(e) => e.stopPropagation()}>
+                      <input
+                        type="number"
+                        min={field === 'speed' || field === 'acceleration' ? 1 : 0}
+                        max={field === 'speed' || field === 'acceleration' ? 100 : undefined}
+                        value={waypoint[field]}
+                        onChange={(e) => editWaypoint(waypoint.id, { [field]: parseFloat(e.target.value) || 0 })}
+                        className={inputClass}
+                      />
+                    </td>
+                  ))}
+                  <td className="py-2 pr-2 font-mono text-xs text-gray-600 dark:text-gray-400">
+                    {waypoint.pose.x.toFixed(0)}, {waypoint.pose.y.toFixed(0)}, {waypoint.pose.z.toFixed(0)}
+                  </td>
+                  <td className="py-2" onClick={(e) => e.stopPropagation()}>
+                    <div className="flex gap-1">
+                      <button onClick={() => moveWaypoint(index, -1)} disabled={index === 0} className="p-1 disabled:opacity-30" title="위로">
+                        <ArrowUp size={14} />
+                      </button>
+                      <button onClick={() => moveWaypoint(index, 1)} disabled={index === waypoints.length - 1} className="p-1 disabled:opacity-30" title="아래로">
+                        <ArrowDown size={14} />
+                      </button>
+                      <button onClick={() => goToWaypoint(waypoint)} disabled={isPlaying || !canMove} className="p-1 text-blue-600 disabled:opacity-30" title="이동">
+                        <Navigation size={14} />
+                      </button>
+                      <button onClick={() => removeWaypoint(waypoint.id)} disabled={isPlaying} className="p-1 text-red-600 disabled:opacity-30" title="삭제">
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <MotionViolationList result={validation} className="mb-4" />
+
+      {/* 재생 */}
+      <button
+        onClick={playWaypoints}
+        disabled={waypoints.length === 0 || isPlaying || !validation.valid || !canMove}
+        className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-green-500 hover:bg-green-600 disabled:bg-gray-400 text-white rounded-md font-medium transition-colors"
+      >
+        <Play size={18} />
+        {isPlaying ? '재생 중...' : `순차 재생 (${waypoints.length}개)`}
+      </button>
+    </div>
+  );
+};
+
+export default WaypointTeachPanel;
@@ -4,4 +4,6 @@
 export { default as JointControl, JointControlPanel } from './JointControl';
 export { default as CartesianControl } from './CartesianControl';
 export { default as SafetyControl } from './SafetyControl';
-export { default as ProgramControl } from './ProgramControl';
\ No newline at end of file
+export { default as ProgramControl } from './ProgramControl';
+export { default as WaypointTeachPanel } from './WaypointTeachPanel';
+export { default as HoldToRunButton } from './HoldToRunButton';
@@ -1,13 +1,9 @@
 import React from 'react';
-import GridLayout from './GridLayout';
+import MainDashboard from './MainDashboard';
 import { useMqttConnection } from '../../hooks/useMqttConnection';
-import { useRobotData } from '../../hooks/useROS2Data';
-import { useSensorData } from '../../hooks/useSensorData';
 
 const Dashboard: React.FC = () => {
   const { isConnected } = useMqttConnection();
-  const { robotStatus, jointStates } = useRobotData();
-  const { sensorData } = useSensorData();
 
   if (!isConnected) {
     return (
@@ -27,25 +23,7 @@ const Dashboard: React.FC = () => {
 
   return (
     <div className="h-full">
-      <div className="mb-6">
-        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
-          로봇 제어 대시보드
-        </h1>
-        <p className="text-gray-600 dark:text-gray-300">
-          Doosan M0609 실시간 모니터링 및 제어
-        </p>
-      </div>
-      
-      <GridLayout
-      robotStatus={robotStatus}
-      jointStates={jointStates}
-      sensorData={sensorData}
-      >
-        <div className="p-4">
-          <h1 className="text-2xl font-bold">Robot Dashboard</h1>
-          <p className="text-gray-600">Connected: {isConnected ? 'Yes' : 'No'}</p>
-        </div>
-      </GridLayout>
+      <MainDashboard />
     </div>
   );
 };
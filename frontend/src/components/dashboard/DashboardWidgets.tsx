@@ -0,0 +1,241 @@
+/**
+ * 대시보드 위젯 본문 - 위젯 종류별 렌더링
+ * 공통 훅 데이터(MQTT/실시간 차트)는 MainDashboard 에서 한 번만 구독해 전달한다.
+ */
+import React, { useEffect, useState } from 'react';
+import { Activity, AlertTriangle, CheckCircle, Wifi, WifiOff } from 'lucide-react';
+import { DashboardWidget } from '../../types/dashboardTypes';
+import { ChartDataPoint, ConcentrationMessage, ROS2TopicListMessage, WeightSensorMessage } from '../../types/robotTypes';
+import { useRobotStore } from '../../store/robotStore';
+import { sensorAlarmService } from '../../services/sensorAlarmService';
+import { customChartService } from '../../services/customChartService';
+
+import RealtimeChart from '../visualization/RealtimeChart';
+import GaugeChart from '../visualization/GaugeChart';
+import SensorDataGrid from '../visualization/SensorDataGrid';
+import Robot3DViewer from '../visualization/Robot3DViewer';
+import CustomChartView from '../visualization/CustomChartView';
+import RobotStatusPanel from './RobotStatusPanel';
+import QuickControlPanel from '../controls/QuickControlPanel';
+import SensorAlerts from '../monitoring/SensorAlerts';
+
+type ChartStats = { min: number; max: number; avg: number; current: number } | null;
+
+export interface DashboardWidgetData {
+  isConnected: boolean;
+  messageCount: number;
+  weightSensor: WeightSensorMessage | null;
+  concentration: ConcentrationMessage | null;
+  ros2Topics: ROS2TopicListMessage | null;
+  weightData: ChartDataPoint[];
+  concentrationData: ChartDataPoint[];
+  weightStats: ChartStats;
+  concentrationStats: ChartStats;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  idle: '대기',
+  moving: '이동중',
+  error: '오류',
+  disconnected: '연결끊김'
+};
+
+/**
+ * 게이지 범위 - 해당 센서의 임계값 알람 규칙에서 경고/위험 값을 가져옴
+ */
+const gaugeLimits = (sensorId: string, fallbackMax: number) => {
+  const rule = sensorAlarmService.getRules().find(item => item.sensorId === sensorId && item.kind === 'threshold' && item.enabled);
+  const warning = rule?.thresholds?.warning?.max;
+  const danger = rule?.thresholds?.critical?.max;
+  return { max: danger ? Math.ceil(danger * 1.2) : fallbackMax, warning, danger };
+};
+
+const StatsRow: React.FC<{ stats: ChartStats; digits: number; unit: string }> = ({ stats, digits, unit }) => {
+  if (!stats) return null;
+  return (
+    <div className="mt-2 grid grid-cols-3 gap-2 text-xs">
+      {([['최소', stats.min], ['평균', stats.avg], ['최대', stats.max]] as Array<[string, number]>).map(([label, value]) => (
+        <div key={label} className="text-center">
+          <div className="text-gray-500 dark:text-gray-400">{label}</div>
+          <div className="font-medium text-gray-900 dark:text-white">{value.toFixed(digits)}{unit}</div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const RobotStateWidget: React.FC = () => {
+  const { status, speed } = useRobotStore();
+  return (
+    <div className="flex items-center justify-between">
+      <div>
+        <p className="text-2xl font-bold text-gray-900 dark:text-white">{STATUS_LABELS[status] || status}</p>
+        <span className="text-xs text-gray-500 dark:text-gray-400">속도: {speed}%</span>
+      </div>
+      <Activity className={`w-8 h-8 ${
+        status === 'idle' ? 'text-blue-500' :
+        status === 'moving' ? 'text-green-500' :
+        status === 'error' ? 'text-red-500' : 'text-gray-500'
+      }`} />
+    </div>
+  );
+};
+
+const CustomChartWidget: React.FC<{ chartId?: string }> = ({ chartId }) => {
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    const handleChange = () => setTick(tick => tick + 1);
+    customChartService.onChange(handleChange);
+    return () => customChartService.offChange(handleChange);
+  }, []);
+
+  const chart = chartId ? customChartService.getChart(chartId) : undefined;
+  if (!chart) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">차트를 찾을 수 없습니다 (현재 사용자의 차트인지 확인하세요)</p>;
+  }
+  return <CustomChartView chart={chart} data={customChartService.getChartData(chart.id)} />;
+};
+
+/**
+ * 위젯 제목 (사용자 정의 차트는 차트 이름)
+ */
+export const getWidgetTitle = (widget: DashboardWidget, fallback: string): string =>
+  widget.type === 'customChart' && widget.options?.chartId
+    ? customChartService.getChart(widget.options.chartId)?.name || fallback
+    : fallback;
+
+interface DashboardWidgetContentProps {
+  widget: DashboardWidget;
+  data: DashboardWidgetData;
+}
+
+const DashboardWidgetContent: React.FC<DashboardWidgetContentProps> = ({ widget, data }) => {
+  switch (widget.type) {
+    case 'mqttStatus':
+      return (
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white">{data.isConnected ? '연결됨' : '끊어짐'}</p>
+            <span className="text-xs text-gray-500 dark:text-gray-400">메시지: {data.messageCount}개</span>
+          </div>
+          {data.isConnected ? <Wifi className="w-8 h-8 text-green-500" /> : <WifiOff className="w-8 h-8 text-red-500" />}
+        </div>
+      );
+
+    case 'robotState':
+      return <RobotStateWidget />;
+
+    case 'weightGauge': {
+      const limits = gaugeLimits('weight', 300);
+      return (
+        <div className="flex justify-center">
+          <GaugeChart
+            value={data.weightStats?.current ?? 0}
+            max={limits.max}
+            title="무게"
+            unit={data.weightSensor?.unit || 'g'}
+            warningThreshold={limits.warning}
+            dangerThreshold={limits.danger}
+            size={180}
+          />
+        </div>
+      );
+    }
+
+    case 'concentrationGauge': {
+      const limits = gaugeLimits('concentration', 100);
+      return (
+        <div className="flex justify-center">
+          <GaugeChart
+            value={data.concentrationStats?.current ?? 0}
+            max={limits.max}
+            title="농도"
+            unit={data.concentration?.unit || '%'}
+            warningThreshold={limits.warning}
+            dangerThreshold={limits.danger}
+            size={180}
+          />
+        </div>
+      );
+    }
+
+    case 'weightChart':
+      return (
+        <>
+          <RealtimeChart data={data.weightData} title="" />
+          <StatsRow stats={data.weightStats} digits={2} unit="kg" />
+        </>
+      );
+
+    case 'concentrationChart':
+      return (
+        <>
+          <RealtimeChart data={data.concentrationData} title="" />
+          <StatsRow stats={data.concentrationStats} digits={1} unit="%" />
+        </>
+      );
+
+    case 'robotStatusPanel':
+      return <RobotStatusPanel />;
+
+    case 'quickControl':
+      return <QuickControlPanel />;
+
+    case 'sensorDataGrid':
+      return <SensorDataGrid />;
+
+    case 'robot3d':
+      return <Robot3DViewer />;
+
+    case 'sensorAlerts':
+      return <SensorAlerts historyLimit={20} />;
+
+    case 'ros2Status': {
+      const topics = data.ros2Topics;
+      if (!topics) {
+        return <p className="text-sm text-gray-500 dark:text-gray-400">ROS2 토픽 정보를 기다리는 중입니다</p>;
+      }
+      return (
+        <>
+          <div className="grid grid-cols-4 gap-4">
+            {([
+              ['총 토픽', topics.total, 'text-gray-900 dark:text-white'],
+              ['제어', topics.categories.robotControl.length, 'text-blue-600 dark:text-blue-400'],
+              ['상태', topics.categories.robotStatus.length, 'text-green-600 dark:text-green-400'],
+              ['진단', topics.categories.diagnostics.length, 'text-yellow-600 dark:text-yellow-400']
+            ] as Array<[string, number, string]>).map(([label, value, color]) => (
+              <div key={label} className="text-center">
+                <div className={`text-2xl font-bold ${color}`}>{value}</div>
+                <div className="text-sm text-gray-500 dark:text-gray-400">{label}</div>
+              </div>
+            ))}
+          </div>
+          <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700 flex items-center justify-between">
+            <span className="text-sm text-gray-600 dark:text-gray-400">시스템 헬스:</span>
+            <div className="flex items-center space-x-2">
+              {topics.health.status === 'healthy' ? (
+                <CheckCircle className="w-4 h-4 text-green-500" />
+              ) : (
+                <AlertTriangle className="w-4 h-4 text-yellow-500" />
+              )}
+              <span className={`text-sm font-medium ${
+                topics.health.status === 'healthy' ? 'text-green-600 dark:text-green-400' : 'text-yellow-600 dark:text-yellow-400'
+              }`}>
+                {topics.health.status === 'healthy' ? '정상' : '주의'}
+              </span>
+            </div>
+          </div>
+        </>
+      );
+    }
+
+    case 'customChart':
+      return <CustomChartWidget chartId={widget.options?.chartId} />;
+
+    default:
+      return null;
+  }
+};
+
+export default DashboardWidgetContent;
@@ -1,14 +1,100 @@
+/**
+ * 대시보드 위젯 그리드 - react-grid-layout 기반 드래그/리사이즈
+ * 편집 모드에서만 위젯 헤더로 이동, 우하단 핸들로 크기 조절 가능
+ */
 import React from 'react';
+import ReactGridLayout, { Layout, WidthProvider } from 'react-grid-layout';
+import { GripVertical, X } from 'lucide-react';
+import 'react-grid-layout/css/styles.css';
+import 'react-resizable/css/styles.css';
+
+import { DashboardWidget } from '../../types/dashboardTypes';
+import { DASHBOARD_COLUMNS, DASHBOARD_ROW_HEIGHT, DASHBOARD_WIDGETS } from '../../services/dashboardLayoutService';
+import DashboardWidgetContent, { DashboardWidgetData, getWidgetTitle } from './DashboardWidgets';
+
+const SizedGridLayout = WidthProvider(ReactGridLayout);
 
 interface GridLayoutProps {
-  children: React.ReactNode;
-  robotStatus?: any;
-  jointStates?: any;
-  sensorData?: any;
+  widgets: DashboardWidget[];
+  data: DashboardWidgetData;
+  editable?: boolean;
+  onLayoutChange?: (positions: Layout[]) => void;
+  onRemoveWidget?: (widgetId: string) => void;
 }
 
-const GridLayout: React.FC<GridLayoutProps> = ({ children }) => {
-  return <div className="grid gap-4">{children}</div>;
+const GridLayout: React.FC<GridLayoutProps> = ({
+  widgets,
+  data,
+  editable = false,
+  onLayoutChange,
+  onRemoveWidget
+}) => {
+  const layout: Layout[] = widgets.map(widget => ({
+    i: widget.id,
+    x: widget.x,
+    y: widget.y,
+    w: widget.w,
+    h: widget.h,
+    minW: DASHBOARD_WIDGETS[widget.type].minSize.w,
+    minH: DASHBOARD_WIDGETS[widget.type].minSize.h
+  }));
+
+  if (widgets.length === 0) {
+    return (
+      <div className="p-8 text-center text-gray-500 dark:text-gray-400 border-2 border-dashed border-gray-300 dark:border-gray-700 rounded-lg">
+        위젯이 없습니다. 편집 모드에서 위젯을 추가하세요.
+      </div>
+    );
+  }
+
+  return (
+    <SizedGridLayout
+      layout={layout}
+      cols={DASHBOARD_COLUMNS}
+      rowHeight={DASHBOARD_ROW_HEIGHT}
+      margin={[16, 16]}
+      containerPadding={[0, 0]}
+      isDraggable={editable}
+      isResizable={editable}
+      draggableHandle=".dashboard-widget-handle"
+      onLayoutChange={(positions) => {
+        if (editable) onLayoutChange?.(positions);
+      }}
+    >
+      {widgets.map(widget => (
+        <div
+          key={widget.id}
+          className={`flex flex-col bg-white dark:bg-gray-800 rounded-lg shadow-sm border overflow-hidden ${
+            editable ? 'border-blue-300 dark:border-blue-700' : 'border-gray-200 dark:border-gray-700'
+          }`}
+        >
+          <div className={`flex items-center justify-between px-3 py-2 border-b border-gray-100 dark:border-gray-700 ${
+            editable ? 'dashboard-widget-handle cursor-move bg-blue-50 dark:bg-blue-900/20' : ''
+          }`}>
+            <div className="flex items-center space-x-1">
+              {editable && <GripVertical className="w-4 h-4 text-gray-400" />}
+              <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                {getWidgetTitle(widget, DASHBOARD_WIDGETS[widget.type].label)}
+              </h3>
+            </div>
+            {editable && onRemoveWidget && (
+              <button
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={() => onRemoveWidget(widget.id)}
+                title="위젯 제거"
+                className="text-gray-400 hover:text-red-600"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+          <div className="flex-1 min-h-0 overflow-auto p-3">
+            <DashboardWidgetContent widget={widget} data={data} />
+          </div>
+        </div>
+      ))}
+    </SizedGridLayout>
+  );
 };
 
 export default GridLayout;
@@ -1,28 +1,41 @@
 /**
  * 메인 대시보드 컴포넌트 - Hook 연동 간소화 버전
+ * 위젯 배치는 dashboardLayoutService 의 활성 레이아웃을 따르고, 편집 모드에서 드래그/리사이즈/추가/제거
  */
 import React, { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
 import { 
-  Activity, 
-  Wifi, 
-  WifiOff, 
   AlertTriangle, 
   CheckCircle, 
   Clock,
-  Cpu,
-  Gauge,
-  Weight,
-  BarChart3
+  LayoutGrid,
+  Edit2,
+  Check,
+  Copy,
+  RotateCcw,
+  Download,
+  Upload
 } from 'lucide-react';
 
 // 커스텀 훅과 스토어
 import { useMqttData } from '../../hooks/useMqttData';
 import { useRealtimeChart } from '../../hooks/useRealtimeChart';
 import { useRobotStore } from '../../store/robotStore';
+import { dashboardLayoutService, DASHBOARD_WIDGETS } from '../../services/dashboardLayoutService';
+import { customChartService } from '../../services/customChartService';
+import { DashboardWidgetType } from '../../types/dashboardTypes';
 
-// 기존 컴포넌트 재사용
-import RealtimeChart from '../visualization/RealtimeChart';
+import GridLayout from './GridLayout';
+import { DashboardWidgetData } from './DashboardWidgets';
+
+const INPUT_CLASS =
+  'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white';
+
+const TOOL_BUTTON_CLASS = 'bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200';
+
+// 사용자 정의 차트는 저장된 차트별로 따로 표시
+const WIDGET_OPTIONS = Object.values(DASHBOARD_WIDGETS).filter(widget => widget.type !== 'customChart');
 
 interface MainDashboardProps {
   className?: string;
@@ -52,6 +65,26 @@ const MainDashboard: React.FC<MainDashboardProps> = ({ className = '' }) => {
   const [systemHealth, setSystemHealth] = useState<'healthy' | 'warning' | 'error'>('healthy');
   const [lastUpdate, setLastUpdate] = useState<string>('');
 
+  // 레이아웃 상태
+  const [layouts, setLayouts] = useState(() => dashboardLayoutService.getLayouts());
+  const [activeLayout, setActiveLayout] = useState(() => dashboardLayoutService.getActiveLayout());
+  const [customCharts, setCustomCharts] = useState(() => customChartService.getCharts());
+  const [isEditing, setIsEditing] = useState(false);
+
+  useEffect(() => {
+    const handleLayoutChange = () => {
+      setLayouts(dashboardLayoutService.getLayouts());
+      setActiveLayout(dashboardLayoutService.getActiveLayout());
+    };
+    const handleChartChange = () => setCustomCharts(customChartService.getCharts());
+    dashboardLayoutService.onChange(handleLayoutChange);
+    customChartService.onChange(handleChartChange);
+    return () => {
+      dashboardLayoutService.offChange(handleLayoutChange);
+      customChartService.offChange(handleChartChange);
+    };
+  }, []);
+
   // 시스템 헬스 계산
   useEffect(() => {
     let health: 'healthy' | 'warning' | 'error' = 'healthy';
@@ -98,6 +131,70 @@ const MainDashboard: React.FC<MainDashboardProps> = ({ className = '' }) => {
     }
   };
 
+  // 레이아웃 조작
+  const addWidget = (value: string) => {
+    if (!value) return;
+    const [type, chartId] = value.split(':');
+    dashboardLayoutService.addWidget(activeLayout.id, type as DashboardWidgetType, chartId ? { chartId } : undefined);
+  };
+
+  const createLayout = () => {
+    const name = window.prompt('새 레이아웃 이름 (현재 배치를 복사)', `${activeLayout.name} 복사본`);
+    if (name === null) return;
+    const layout = dashboardLayoutService.createLayout(name);
+    toast.success(`'${layout.name}' 레이아웃 저장`);
+  };
+
+  const renameLayout = () => {
+    const name = window.prompt('레이아웃 이름 변경', activeLayout.name);
+    if (name) dashboardLayoutService.renameLayout(activeLayout.id, name);
+  };
+
+  const deleteLayout = () => {
+    if (!window.confirm(`'${activeLayout.name}' 레이아웃을 삭제할까요?`)) return;
+    try {
+      dashboardLayoutService.deleteLayout(activeLayout.id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '레이아웃 삭제 실패');
+    }
+  };
+
+  const restoreDefaults = () => {
+    if (!window.confirm('운영자/엔지니어 기본 레이아웃을 초기 배치로 되돌릴까요?')) return;
+    dashboardLayoutService.restoreDefaults();
+  };
+
+  const exportLayout = () => {
+    const blob = new Blob([dashboardLayoutService.exportLayout(activeLayout.id)], { type: 'application/json' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${activeLayout.name.replace(/\s+/g, '_')}_dashboard.json`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const importLayout = async (file: File) => {
+    try {
+      const layout = dashboardLayoutService.importLayout(await file.text());
+      toast.success(`'${layout.name}' 레이아웃 가져오기 완료 (${layout.widgets.length}개 위젯)`);
+    } catch (error) {
+      toast.error(`가져오기 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
+    }
+  };
+
+  const widgetData: DashboardWidgetData = {
+    isConnected,
+    messageCount,
+    weightSensor,
+    concentration,
+    ros2Topics,
+    weightData,
+    concentrationData,
+    weightStats,
+    concentrationStats
+  };
+
   const healthConfig = getHealthConfig(systemHealth);
   const HealthIcon = healthConfig.icon;
 
@@ -109,7 +206,7 @@ const MainDashboard: React.FC<MainDashboardProps> = ({ className = '' }) => {
         animate={{ opacity: 1, y: 0 }}
         className="dashboard-header"
       >
-        <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center justify-between">
           <div>
             <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
               로봇 제어 대시보드
@@ -133,251 +230,87 @@ const MainDashboard: React.FC<MainDashboardProps> = ({ className = '' }) => {
             </div>
           </div>
         </div>
-
-        {/* 실시간 통계 카드들 */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
-          {/* MQTT 연결 상태 */}
-          <motion.div
-            whileHover={{ scale: 1.02 }}
-            className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow-sm border border-gray-200 dark:border-gray-700"
-          >
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm font-medium text-gray-600 dark:text-gray-400">MQTT 연결</p>
-                <p className="text-2xl font-bold text-gray-900 dark:text-white">
-                  {isConnected ? '연결됨' : '끊어짐'}
-                </p>
-              </div>
-              {isConnected ? (
-                <Wifi className="w-8 h-8 text-green-500" />
-              ) : (
-                <WifiOff className="w-8 h-8 text-red-500" />
-              )}
-            </div>
-            <div className="mt-2">
-              <span className="text-xs text-gray-500 dark:text-gray-400">
-                메시지: {messageCount}개
-              </span>
-            </div>
-          </motion.div>
-
-          {/* 로봇 상태 */}
-          <motion.div
-            whileHover={{ scale: 1.02 }}
-            className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow-sm border border-gray-200 dark:border-gray-700"
-          >
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm font-medium text-gray-600 dark:text-gray-400">로봇 상태</p>
-                <p className="text-2xl font-bold text-gray-900 dark:text-white">
-                  {robotState.status === 'idle' ? '대기' :
-                   robotState.status === 'moving' ? '이동중' :
-                   robotState.status === 'error' ? '오류' : 
-                   robotState.status === 'disconnected' ? '연결끊김' : robotState.status}
-                </p>
-              </div>
-              <Activity className={`w-8 h-8 ${
-                robotState.status === 'idle' ? 'text-blue-500' :
-                robotState.status === 'moving' ? 'text-green-500' :
-                robotState.status === 'error' ? 'text-red-500' : 'text-gray-500'
-              }`} />
-            </div>
-            <div className="mt-2">
-              <span className="text-xs text-gray-500 dark:text-gray-400">
-                속도: {robotState.speed}%
-              </span>
-            </div>
-          </motion.div>
-
-          {/* 무게센서 */}
-          <motion.div
-            whileHover={{ scale: 1.02 }}
-            className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow-sm border border-gray-200 dark:border-gray-700"
-          >
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm font-medium text-gray-600 dark:text-gray-400">무게센서</p>
-                <p className="text-2xl font-bold text-gray-900 dark:text-white">
-                  {weightStats?.current?.toFixed(2) || '0.00'} kg
-                </p>
-              </div>
-              <Weight className={`w-8 h-8 ${
-                weightSensor?.quality === 'good' ? 'text-green-500' :
-                weightSensor?.quality === 'poor' ? 'text-yellow-500' : 'text-gray-500'
-              }`} />
-            </div>
-            <div className="mt-2">
-              <span className="text-xs text-gray-500 dark:text-gray-400">
-                품질: {weightSensor?.quality || 'N/A'}
-              </span>
-            </div>
-          </motion.div>
-
-          {/* 농도 제어 */}
-          <motion.div
-            whileHover={{ scale: 1.02 }}
-            className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow-sm border border-gray-200 dark:border-gray-700"
-          >
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm font-medium text-gray-600 dark:text-gray-400">목표 농도</p>
-                <p className="text-2xl font-bold text-gray-900 dark:text-white">
-                  {concentrationStats?.current?.toFixed(1) || '75.0'}%
-                </p>
-              </div>
-              <Gauge className="w-8 h-8 text-blue-500" />
-            </div>
-            <div className="mt-2">
-              <span className="text-xs text-gray-500 dark:text-gray-400">
-                평균: {concentrationStats?.avg?.toFixed(1) || '0.0'}%
-              </span>
-            </div>
-          </motion.div>
-        </div>
       </motion.div>
 
-      {/* 실시간 차트 섹션 */}
-      <motion.div
-        initial={{ opacity: 0, y: 20 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ delay: 0.2 }}
-        className="grid grid-cols-1 lg:grid-cols-2 gap-6"
-      >
-        {/* 무게센서 차트 */}
-        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4">
-          <div className="flex items-center space-x-2 mb-4">
-            <Weight className="w-5 h-5 text-blue-500" />
-            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-              무게센서 추이
-            </h3>
-          </div>
-          <RealtimeChart 
-            data={weightData} 
-            title=""
-          />
-          {weightStats && (
-            <div className="mt-2 grid grid-cols-3 gap-2 text-xs">
-              <div className="text-center">
-                <div className="text-gray-500 dark:text-gray-400">최소</div>
-                <div className="font-medium text-gray-900 dark:text-white">
-                  {weightStats.min.toFixed(2)}kg
-                </div>
-              </div>
-              <div className="text-center">
-                <div className="text-gray-500 dark:text-gray-400">평균</div>
-                <div className="font-medium text-gray-900 dark:text-white">
-                  {weightStats.avg.toFixed(2)}kg
-                </div>
-              </div>
-              <div className="text-center">
-                <div className="text-gray-500 dark:text-gray-400">최대</div>
-                <div className="font-medium text-gray-900 dark:text-white">
-                  {weightStats.max.toFixed(2)}kg
-                </div>
-              </div>
-            </div>
-          )}
-        </div>
+      {/* 레이아웃 도구 모음 */}
+      <div className="flex flex-wrap items-center gap-2 bg-white dark:bg-gray-800 rounded-lg p-3 shadow-sm border border-gray-200 dark:border-gray-700">
+        <LayoutGrid className="w-5 h-5 text-gray-500" />
+        <select
+          value={activeLayout.id}
+          onChange={(e) => dashboardLayoutService.setActiveLayout(e.target.value)}
+          className={`${INPUT_CLASS} min-w-[160px]`}
+        >
+          {layouts.map(layout => (
+            <option key={layout.id} value={layout.id}>{layout.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => setIsEditing(!isEditing)}
+          className={`flex items-center gap-1 px-3 py-2 rounded-md text-sm ${
+            isEditing ? 'bg-blue-500 hover:bg-blue-600 text-white' : TOOL_BUTTON_CLASS
+          }`}
+        >
+          {isEditing ? <Check size={16} /> : <Edit2 size={16} />} {isEditing ? '편집 완료' : '레이아웃 편집'}
+        </button>
 
-        {/* 농도 차트 */}
-        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4">
-          <div className="flex items-center space-x-2 mb-4">
-            <BarChart3 className="w-5 h-5 text-green-500" />
-            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-              농도 제어 추이
-            </h3>
-          </div>
-          <RealtimeChart 
-            data={concentrationData} 
-            title=""
-          />
-          {concentrationStats && (
-            <div className="mt-2 grid grid-cols-3 gap-2 text-xs">
-              <div className="text-center">
-                <div className="text-gray-500 dark:text-gray-400">최소</div>
-                <div className="font-medium text-gray-900 dark:text-white">
-                  {concentrationStats.min.toFixed(1)}%
-                </div>
-              </div>
-              <div className="text-center">
-                <div className="text-gray-500 dark:text-gray-400">평균</div>
-                <div className="font-medium text-gray-900 dark:text-white">
-                  {concentrationStats.avg.toFixed(1)}%
-                </div>
-              </div>
-              <div className="text-center">
-                <div className="text-gray-500 dark:text-gray-400">최대</div>
-                <div className="font-medium text-gray-900 dark:text-white">
-                  {concentrationStats.max.toFixed(1)}%
-                </div>
-              </div>
-            </div>
-          )}
-        </div>
-      </motion.div>
+        {isEditing && (
+          <>
+            <select
+              value=""
+              onChange={(e) => addWidget(e.target.value)}
+              className={INPUT_CLASS}
+            >
+              <option value="">+ 위젯 추가</option>
+              {WIDGET_OPTIONS.map(widget => (
+                <option key={widget.type} value={widget.type}>{widget.label} - {widget.description}</option>
+              ))}
+              {customCharts.map(chart => (
+                <option key={chart.id} value={`customChart:${chart.id}`}>사용자 차트 - {chart.name}</option>
+              ))}
+            </select>
+            <button onClick={createLayout} className={`flex items-center gap-1 px-3 py-2 rounded-md text-sm ${TOOL_BUTTON_CLASS}`}>
+              <Copy size={16} /> 다른 이름으로 저장
+            </button>
+            <button onClick={renameLayout} className={`px-3 py-2 rounded-md text-sm ${TOOL_BUTTON_CLASS}`}>
+              이름 변경
+            </button>
+            <button onClick={deleteLayout} disabled={layouts.length <= 1} className="px-3 py-2 bg-red-500 hover:bg-red-600 disabled:opacity-50 text-white rounded-md text-sm">
+              삭제
+            </button>
+            <button onClick={restoreDefaults} className={`flex items-center gap-1 px-3 py-2 rounded-md text-sm ${TOOL_BUTTON_CLASS}`}>
+              <RotateCcw size={16} /> 기본 레이아웃 복원
+            </button>
+          </>
+        )}
 
-      {/* ROS2 시스템 정보 */}
-      {ros2Topics && (
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.3 }}
-          className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4"
-        >
-          <div className="flex items-center space-x-2 mb-4">
-            <Cpu className="w-5 h-5 text-purple-500" />
-            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-              ROS2 시스템 상태
-            </h3>
-          </div>
-          
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-            <div className="text-center">
-              <div className="text-2xl font-bold text-gray-900 dark:text-white">
-                {ros2Topics.total}
-              </div>
-              <div className="text-sm text-gray-500 dark:text-gray-400">총 토픽</div>
-            </div>
-            <div className="text-center">
-              <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">
-                {ros2Topics.categories.robotControl.length}
-              </div>
-              <div className="text-sm text-gray-500 dark:text-gray-400">제어</div>
-            </div>
-            <div className="text-center">
-              <div className="text-2xl font-bold text-green-600 dark:text-green-400">
-                {ros2Topics.categories.robotStatus.length}
-              </div>
-              <div className="text-sm text-gray-500 dark:text-gray-400">상태</div>
-            </div>
-            <div className="text-center">
-              <div className="text-2xl font-bold text-yellow-600 dark:text-yellow-400">
-                {ros2Topics.categories.diagnostics.length}
-              </div>
-              <div className="text-sm text-gray-500 dark:text-gray-400">진단</div>
-            </div>
-          </div>
-          
-          {/* 헬스 상태 */}
-          <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
-            <div className="flex items-center justify-between">
-              <span className="text-sm text-gray-600 dark:text-gray-400">시스템 헬스:</span>
-              <div className="flex items-center space-x-2">
-                {ros2Topics.health.status === 'healthy' ? (
-                  <CheckCircle className="w-4 h-4 text-green-500" />
-                ) : (
-                  <AlertTriangle className="w-4 h-4 text-yellow-500" />
-                )}
-                <span className={`text-sm font-medium ${
-                  ros2Topics.health.status === 'healthy' ? 'text-green-600 dark:text-green-400' : 'text-yellow-600 dark:text-yellow-400'
-                }`}>
-                  {ros2Topics.health.status === 'healthy' ? '정상' : '주의'}
-                </span>
-              </div>
-            </div>
-          </div>
-        </motion.div>
-      )}
+        <div className="flex-1" />
+        <button onClick={exportLayout} className={`flex items-center gap-1 px-3 py-2 rounded-md text-sm ${TOOL_BUTTON_CLASS}`}>
+          <Download size={16} /> 내보내기
+        </button>
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importLayout(file);
+            e.target.value = '';
+          }}
+          className="hidden"
+          id="dashboard-layout-import"
+        />
+        <label htmlFor="dashboard-layout-import" className={`flex items-center gap-1 px-3 py-2 rounded-md text-sm cursor-pointer ${TOOL_BUTTON_CLASS}`}>
+          <Upload size={16} /> 가져오기
+        </label>
+      </div>
+
+      {/* 위젯 그리드 */}
+      <GridLayout
+        widgets={activeLayout.widgets}
+        data={widgetData}
+        editable={isEditing}
+        onLayoutChange={(positions) => dashboardLayoutService.updatePositions(activeLayout.id, positions)}
+        onRemoveWidget={(widgetId) => dashboardLayoutService.removeWidget(activeLayout.id, widgetId)}
+      />
 
       {/* 에러 알림 (에러가 있을 때만 표시) */}
       {error && (
@@ -2,6 +2,7 @@
  * 로봇 상태 패널 - 수정된 버전 (문자열 이스케이프 오류 해결)
  */
 import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { 
   Bot, 
@@ -240,6 +241,10 @@ const RobotStatusPanel: React.FC<RobotStatusPanelProps> = ({
               )}
             </div>
           )}
+
+          <Link to="/ros2" className="block text-sm text-center text-blue-600 dark:text-blue-400 hover:underline">
+            ROS2 탐색기에서 전체 보기 →
+          </Link>
         </>
       ) : (
         <div className="text-center py-8 text-gray-500 dark:text-gray-400">
@@ -0,0 +1,92 @@
+/**
+ * 연결 감시 배너 - 링크 끊김으로 모션이 잠긴 동안 원인/링크 상태를 보여주고 운영자 확인으로 해제
+ */
+import React, { useEffect } from 'react';
+import { WifiOff, ShieldCheck } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useConnectionWatchdog } from '../../hooks/useConnectionWatchdog';
+import { LinkHealthState, WatchdogStopResult } from '../../types/watchdogTypes';
+
+const REFRESH_INTERVAL = 1000; // ms
+
+const LINK_STATE_LABELS: Record<LinkHealthState, string> = {
+  unknown: '연결 전',
+  ok: '정상',
+  silent: '응답 없음',
+  down: '끊김'
+};
+
+const STOP_RESULT_LABELS: Record<WatchdogStopResult, string | null> = {
+  none: null,
+  pending: '정지 명령 전송 중...',
+  sent: '이동 중이던 로봇에 정지 명령을 보냈습니다',
+  failed: '정지 명령 전송 실패 - 로봇 상태를 직접 확인하세요'
+};
+
+const ConnectionWatchdogBanner: React.FC = () => {
+  const { status, acknowledge, refresh } = useConnectionWatchdog();
+
+  // 잠긴 동안 왕복 시간/마지막 수신 경과 시간 갱신
+  useEffect(() => {
+    if (!status.degraded) return;
+    const timer = setInterval(refresh, REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [status.degraded, refresh]);
+
+  if (!status.enabled || !status.degraded) return null;
+
+  const handleAcknowledge = () => {
+    try {
+      acknowledge();
+      toast.success('연결 확인 - 모션 제어 잠금 해제');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '잠금 해제 실패');
+    }
+  };
+
+  const stopMessage = STOP_RESULT_LABELS[status.stopResult];
+  const now = Date.now();
+
+  return (
+    <div className="bg-red-600 text-white px-4 py-3 flex-shrink-0">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <WifiOff size={20} />
+          <div>
+            <div className="font-semibold">
+              연결 저하 모드 - 모션 제어가 잠겼습니다 ({status.reason})
+            </div>
+            <div className="text-sm text-red-100">
+              {status.trippedAt && `${new Date(status.trippedAt).toLocaleTimeString()} 발생`}
+              {stopMessage && ` · ${stopMessage}`}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          {status.links.map(health => (
+            <span
+              key={health.link}
+              className={`px-2 py-1 rounded ${health.state === 'ok' ? 'bg-green-700' : 'bg-red-800'}`}
+            >
+              {health.label}: {LINK_STATE_LABELS[health.state]}
+              {health.state === 'ok' && health.latency !== null && ` (${health.latency}ms)`}
+              {health.state === 'silent' && health.lastHeartbeat !== null && ` (${((now - health.lastHeartbeat) / 1000).toFixed(1)}초)`}
+            </span>
+          ))}
+          <button
+            onClick={handleAcknowledge}
+            disabled={!status.canAcknowledge}
+            title={status.canAcknowledge ? undefined : '모든 링크가 복구되어야 해제할 수 있습니다'}
+            className="flex items-center gap-2 px-3 py-1 bg-white text-red-700 rounded font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ShieldCheck size={16} />
+            확인 후 잠금 해제
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConnectionWatchdogBanner;
@@ -10,6 +10,7 @@ import {
 } from 'lucide-react';
 import { useMqttConnection } from '../../hooks/useMqttConnection';
 import { useNotifications } from '../../hooks/useNotifications';
+import { useAuth } from '../../hooks/useAuth';
 import ConnectionIndicator from '../visualization/indicators/ConnectionIndicator';
 
 interface HeaderProps {
@@ -20,6 +21,7 @@ interface HeaderProps {
 const Header: React.FC<HeaderProps> = ({ onMenuClick, sidebarOpen }) => {
   const { isConnected, connectionStatus } = useMqttConnection();
   const { notifications, unreadCount } = useNotifications();
+  const { user, roleLabel } = useAuth();
 
   return (
     <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
@@ -88,7 +90,7 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick, sidebarOpen }) => {
           <div className="relative">
             <button className="flex items-center space-x-2 p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors">
               <User size={20} />
-              <span className="hidden md:block text-sm">Admin</span>
+              <span className="hidden md:block text-sm">{user ? `${user.displayName} · ${roleLabel}` : roleLabel}</span>
             </button>
           </div>
 
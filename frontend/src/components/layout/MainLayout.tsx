@@ -3,6 +3,8 @@ import { Outlet } from 'react-router-dom';
 import Header from './Header';
 import Sidebar from './Sidebar';
 import Footer from './Footer';
+import ConnectionWatchdogBanner from './ConnectionWatchdogBanner';
+import ReplayBanner from './ReplayBanner';
 
 const MainLayout: React.FC = () => {
   const [sidebarOpen, setSidebarOpen] = React.useState(false);
@@ -15,6 +17,12 @@ const MainLayout: React.FC = () => {
         sidebarOpen={sidebarOpen}
       />
 
+      {/* 녹화 재생 모드 (명령 차단) */}
+      <ReplayBanner />
+
+      {/* 연결 저하 모드 (모션 잠금) */}
+      <ConnectionWatchdogBanner />
+
       <div className="flex flex-1 min-h-0">
         {/* Sidebar */}
         <Sidebar 
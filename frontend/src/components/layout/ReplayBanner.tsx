@@ -0,0 +1,90 @@
+/**
+ * 녹화 재생 배너 - 재생(REPLAY) 모드 동안 항상 표시, 재생 제어와 명령 차단 안내
+ */
+import React from 'react';
+import { Play, Pause, Repeat, X } from 'lucide-react';
+import { useReplay } from '../../hooks/useReplay';
+import { REPLAY_SPEEDS } from '../../services/replaySession';
+
+const formatTime = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const ReplayBanner: React.FC = () => {
+  const { status, play, pause, seek, setSpeed, setLoop, exit } = useReplay();
+
+  if (!status.active) return null;
+
+  const playing = status.state === 'playing';
+
+  return (
+    <div className="bg-purple-700 text-white px-4 py-3 flex-shrink-0">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="px-2 py-1 bg-white text-purple-700 rounded font-bold text-sm tracking-wider">
+          REPLAY
+        </span>
+        <div className="min-w-0">
+          <div className="font-semibold truncate">{status.filename}</div>
+          <div className="text-sm text-purple-100">
+            녹화 데이터 재생 중 - 로봇 명령 전송이 차단됩니다
+          </div>
+        </div>
+
+        <div className="flex flex-1 items-center gap-3 min-w-[16rem]">
+          <button
+            onClick={playing ? pause : play}
+            className="p-2 bg-purple-800 hover:bg-purple-900 rounded"
+            title={playing ? '일시정지' : '재생'}
+          >
+            {playing ? <Pause size={16} /> : <Play size={16} />}
+          </button>
+          <span className="text-sm font-mono">{formatTime(status.position)}</span>
+          <input
+            type="range"
+            min={0}
+            max={status.duration}
+            step={100}
+            value={status.position}
+            onChange={e => seek(Number(e.target.value))}
+            className="flex-1 accent-white"
+          />
+          <span className="text-sm font-mono">{formatTime(status.duration)}</span>
+        </div>
+
+        <div className="flex items-center gap-2 text-sm">
+          <select
+            value={status.speed}
+            onChange={e => setSpeed(Number(e.target.value))}
+            className="px-2 py-1 bg-purple-800 rounded border border-purple-500"
+          >
+            {REPLAY_SPEEDS.map(speed => (
+              <option key={speed} value={speed}>{speed}×</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setLoop(!status.loop)}
+            className={`p-2 rounded ${status.loop ? 'bg-white text-purple-700' : 'bg-purple-800 hover:bg-purple-900'}`}
+            title="반복 재생"
+          >
+            <Repeat size={16} />
+          </button>
+          <span className="text-purple-100">
+            {status.messageIndex}/{status.messageCount}
+          </span>
+          <button
+            onClick={exit}
+            className="flex items-center gap-2 px-3 py-1 bg-white text-purple-700 rounded font-medium"
+          >
+            <X size={16} />
+            재생 종료
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayBanner;
@@ -2,6 +2,20 @@
  * 간단한 Sidebar 컴포넌트
  */
 import React from 'react';
+import { NavLink } from 'react-router-dom';
+import { LayoutDashboard, Bot, Activity, BarChart3, Coffee, Network, Radio, ClipboardList, Settings } from 'lucide-react';
+
+const NAV_ITEMS = [
+  { to: '/', label: '대시보드', icon: LayoutDashboard, end: true },
+  { to: '/robot', label: '로봇 제어', icon: Bot, end: false },
+  { to: '/sensors', label: '센서 모니터링', icon: Activity, end: false },
+  { to: '/data', label: '데이터 시각화', icon: BarChart3, end: false },
+  { to: '/sessions', label: '붓기 세션', icon: Coffee, end: false },
+  { to: '/ros2', label: 'ROS2 탐색기', icon: Network, end: false },
+  { to: '/inspector', label: 'MQTT 인스펙터', icon: Radio, end: false },
+  { to: '/audit', label: '감사 로그', icon: ClipboardList, end: false },
+  { to: '/settings', label: '설정', icon: Settings, end: false }
+];
 
 interface SidebarProps {
   children?: React.ReactNode;
@@ -33,6 +47,24 @@ const Sidebar: React.FC<SidebarProps> = ({ children, isOpen = true, onClose }) =
           <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Navigation</h2>
         </div>
         <div className="flex-1 overflow-y-auto">
+          <nav className="p-2 space-y-1">
+            {NAV_ITEMS.map(({ to, label, icon: Icon, end }) => (
+              <NavLink
+                key={to}
+                to={to}
+                end={end}
+                onClick={onClose}
+                className={({ isActive }) => `flex items-center px-3 py-2 rounded-lg text-sm transition-colors ${
+                  isActive
+                    ? 'bg-blue-50 dark:bg-blue-900/50 text-blue-700 dark:text-blue-200 font-medium'
+                    : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                }`}
+              >
+                <Icon className="w-4 h-4 mr-3" />
+                {label}
+              </NavLink>
+            ))}
+          </nav>
           {children}
         </div>
       </div>
@@ -1,15 +1,269 @@
-import React from 'react';
+/**
+ * 데이터 내보내기 패널 - 채널/시간 범위/리샘플링 간격/형식을 골라 파일로 저장
+ * 데이터 수집과 직렬화는 dataExportService (센서 값은 IndexedDB 히스토리 기준)
+ */
+import React, { useMemo, useState } from 'react';
+import { Download, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { ExportChannel, ExportChannelGroup, ExportFormat } from '../../types/exportTypes';
+import { SensorHistoryRange } from '../../types/sensorTypes';
+import { dataExportService } from '../../services/dataExportService';
+import { HISTORY_RANGE_MS, RESOLUTION_MS, isHistoryRange } from '../../utils/timeSeries';
+import { formatBytes } from '../../utils';
 
-interface Props {
+interface DataExportPanelProps {
   onClose?: () => void;
   timeRange?: string;
 }
 
-const DataExportPanel: React.FC<Props> = ({ onClose, timeRange }) => {
+type RangeOption = SensorHistoryRange | 'custom';
+
+const GROUP_LABELS: Record<ExportChannelGroup, string> = {
+  sensor: '센서',
+  scale: '저울 필터 채널',
+  joint: '조인트 상태',
+  event: '이벤트'
+};
+
+const RANGE_OPTIONS: Array<{ value: RangeOption; label: string }> = [
+  { value: '1h', label: '최근 1시간' },
+  { value: '6h', label: '최근 6시간' },
+  { value: '24h', label: '최근 24시간' },
+  { value: '7d', label: '최근 7일' },
+  { value: 'custom', label: '직접 지정' }
+];
+
+const INTERVAL_OPTIONS: Array<{ value: number; label: string }> = [
+  { value: 1000, label: '1초' },
+  { value: 10 * 1000, label: '10초' },
+  { value: 60 * 1000, label: '1분' },
+  { value: 10 * 60 * 1000, label: '10분' },
+  { value: 60 * 60 * 1000, label: '1시간' }
+];
+
+const FORMAT_OPTIONS: Array<{ value: ExportFormat; label: string; description: string }> = [
+  { value: 'csv', label: 'CSV', description: '# 메타데이터 + long 형식 (timestamp, channel, avg/min/max/count)' },
+  { value: 'ndjson', label: 'NDJSON', description: '첫 줄 메타데이터, 이후 샘플/이벤트 한 줄씩' },
+  { value: 'columnar', label: '컬럼형 (gzip)', description: '채널별 열 배열 JSON, gzip 압축' }
+];
+
+const DEFAULT_CHANNELS = ['weight', 'concentration'];
+
+// datetime-local 입력값 (로컬 시각)
+const toLocalInput = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
+
+const DataExportPanel: React.FC<DataExportPanelProps> = ({ onClose, timeRange = '1h' }) => {
+  const channels = useMemo(() => dataExportService.getChannels(), []);
+  const [selected, setSelected] = useState<string[]>(DEFAULT_CHANNELS);
+  const [range, setRange] = useState<RangeOption>(isHistoryRange(timeRange) ? timeRange : '1h');
+  const [customFrom, setCustomFrom] = useState(() => toLocalInput(Date.now() - HISTORY_RANGE_MS['24h']));
+  const [customTo, setCustomTo] = useState(() => toLocalInput(Date.now()));
+  const [interval, setIntervalMs] = useState(INTERVAL_OPTIONS[2].value);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const groups = (Object.keys(GROUP_LABELS) as ExportChannelGroup[]).map(group => ({
+    group,
+    channels: channels.filter(channel => channel.group === group)
+  }));
+
+  const resolveRange = (): { from: number; to: number } => {
+    if (range === 'custom') {
+      return { from: new Date(customFrom).getTime(), to: new Date(customTo).getTime() };
+    }
+    const to = Date.now();
+    return { from: to - HISTORY_RANGE_MS[range], to };
+  };
+
+  const { from, to } = resolveRange();
+  const seriesCount = channels.filter(channel => channel.kind === 'series' && selected.includes(channel.id)).length;
+  const estimatedRows = to > from ? Math.ceil((to - from) / interval) * seriesCount : 0;
+  const fineDataExpired = interval < RESOLUTION_MS['1m'] && Date.now() - from > HISTORY_RANGE_MS['24h'];
+
+  const toggleChannel = (id: string) => {
+    setSelected(prev => (prev.includes(id) ? prev.filter(existing => existing !== id) : [...prev, id]));
+  };
+
+  const toggleGroup = (groupChannels: ExportChannel[]) => {
+    const ids = groupChannels.map(channel => channel.id);
+    const allSelected = ids.every(id => selected.includes(id));
+    setSelected(prev => (allSelected ? prev.filter(id => !ids.includes(id)) : Array.from(new Set([...prev, ...ids]))));
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const file = await dataExportService.export({ channels: selected, from, to, interval, format });
+      downloadBlob(file.blob, file.filename);
+      toast.success(`내보내기 완료: ${file.filename} (${file.rows}행, ${formatBytes(file.blob.size)})`);
+    } catch (error) {
+      toast.error(`내보내기 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   return (
-    <div className="p-4">
-      <h3 className="text-lg font-semibold mb-4">DataExportPanel</h3>
-      <p>DataExportPanel 컴포넌트 (구현 예정)</p>
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg max-w-3xl w-full mx-4 p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center">
+            <Download className="w-6 h-6 text-blue-600 mr-2" />
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">데이터 내보내기</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* 채널 */}
+        <div className="space-y-4 mb-6">
+          {groups.map(({ group, channels: groupChannels }) => (
+            <div key={group}>
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">{GROUP_LABELS[group]}</span>
+                <button
+                  onClick={() => toggleGroup(groupChannels)}
+                  className="text-xs text-blue-600 hover:text-blue-700 dark:text-blue-400"
+                >
+                  {groupChannels.every(channel => selected.includes(channel.id)) ? '선택 해제' : '전체 선택'}
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {groupChannels.map(channel => (
+                  <label
+                    key={channel.id}
+                    title={channel.description}
+                    className={`flex items-center px-3 py-1 text-sm rounded-lg border cursor-pointer ${
+                      selected.includes(channel.id)
+                        ? 'border-blue-500 bg-blue-50 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200'
+                        : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      className="mr-2"
+                      checked={selected.includes(channel.id)}
+                      onChange={() => toggleChannel(channel.id)}
+                    />
+                    {channel.label}
+                    {channel.unit && <span className="ml-1 text-xs opacity-70">({channel.unit})</span>}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* 범위 / 간격 */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">시간 범위</label>
+            <select
+              value={range}
+              onChange={(e) => setRange(e.target.value as RangeOption)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+            >
+              {RANGE_OPTIONS.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            {range === 'custom' && (
+              <div className="mt-2 space-y-2">
+                <input
+                  type="datetime-local"
+                  value={customFrom}
+                  onChange={(e) => setCustomFrom(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                />
+                <input
+                  type="datetime-local"
+                  value={customTo}
+                  onChange={(e) => setCustomTo(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                />
+              </div>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">리샘플링 간격</label>
+            <select
+              value={interval}
+              onChange={(e) => setIntervalMs(Number(e.target.value))}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+            >
+              {INTERVAL_OPTIONS.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            {fineDataExpired && (
+              <p className="mt-2 text-xs text-yellow-600 dark:text-yellow-400">
+                1초 롤업은 24시간만 보관되어 그 이전 구간은 1분 단위로 내보냅니다
+              </p>
+            )}
+          </div>
+        </div>
+
+        {/* 형식 */}
+        <div className="mb-6">
+          <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">형식</span>
+          <div className="space-y-2">
+            {FORMAT_OPTIONS.map(option => (
+              <label key={option.value} className="flex items-start text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                <input
+                  type="radio"
+                  name="export-format"
+                  className="mt-1 mr-2"
+                  checked={format === option.value}
+                  onChange={() => setFormat(option.value)}
+                />
+                <span>
+                  <span className="font-medium">{option.label}</span>
+                  <span className="ml-2 text-gray-500 dark:text-gray-400">{option.description}</span>
+                  {option.value === 'columnar' && !dataExportService.supportsCompression() && (
+                    <span className="ml-2 text-yellow-600 dark:text-yellow-400">(이 브라우저는 압축 미지원 - 비압축 JSON)</span>
+                  )}
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            시리즈 {seriesCount}개 · 최대 약 {estimatedRows.toLocaleString()}행
+          </span>
+          <div className="flex space-x-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg font-medium transition-colors"
+            >
+              닫기
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={isExporting || selected.length === 0}
+              className="flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              {isExporting ? '내보내는 중...' : '내보내기'}
+            </button>
+          </div>
+        </div>
+      </div>
     </div>
   );
 };
@@ -1,15 +1,246 @@
-import React from 'react';
+/**
+ * 센서 알람 패널 - 활성 알람(확인), 알람 이력, 알람 규칙 on/off
+ * 알람 판정은 sensorAlarmService 가 MqttContext 수신 메시지로 수행
+ */
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, BellOff, CheckCheck, Trash2 } from 'lucide-react';
+import { SensorAlarmRecord, SensorAlarmRule, SensorAlarmSeverity, SensorConfig } from '../../types/sensorTypes';
+import { sensorAlarmService, SEVERITY_LABELS } from '../../services/sensorAlarmService';
+import { formatTime, formatDateTime } from '../../utils';
 
-interface Props {
-  onClose?: () => void;
-  timeRange?: string;
+interface SensorAlertsProps {
+  className?: string;
+  historyLimit?: number;
 }
 
-const SensorAlerts: React.FC<Props> = ({ onClose, timeRange }) => {
+type AlertsTab = 'active' | 'history' | 'rules';
+
+const TABS: Array<{ id: AlertsTab; label: string }> = [
+  { id: 'active', label: '활성 알람' },
+  { id: 'history', label: '이력' },
+  { id: 'rules', label: '규칙' }
+];
+
+const KIND_LABELS: Record<SensorAlarmRule['kind'], string> = {
+  threshold: '임계값',
+  rate: '변화율',
+  stale: '데이터 끊김'
+};
+
+const SEVERITY_STYLES: Record<string, string> = {
+  critical: 'border-red-300 bg-red-50 text-red-800 dark:border-red-800 dark:bg-red-900/40 dark:text-red-200',
+  warning: 'border-yellow-300 bg-yellow-50 text-yellow-800 dark:border-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-200',
+  error: 'border-gray-300 bg-gray-50 text-gray-800 dark:border-gray-700 dark:bg-gray-900/40 dark:text-gray-200'
+};
+
+const severityLabel = (type: SensorAlarmRecord['alarmType']): string =>
+  type === 'error' ? '오류' : SEVERITY_LABELS[type as SensorAlarmSeverity];
+
+const formatLimits = (limits: SensorConfig['alarmThresholds']['warning'] | undefined, unit: string): string => {
+  if (!limits) return '--';
+  const parts: string[] = [];
+  if (limits.min !== undefined) parts.push(`< ${limits.min}`);
+  if (limits.max !== undefined) parts.push(`> ${limits.max}`);
+  return parts.length > 0 ? `${parts.join(' / ')} ${unit}` : '--';
+};
+
+const describeRule = (rule: SensorAlarmRule): string => {
+  switch (rule.kind) {
+    case 'stale':
+      return `${(rule.staleAfter || 0) / 1000}초 이상 미수신 → ${SEVERITY_LABELS[rule.staleSeverity || 'warning']}`;
+    case 'rate': {
+      const unit = `${rule.unit}/s`;
+      return `경고 ${formatLimits(rule.thresholds?.warning, unit)} · 위험 ${formatLimits(rule.thresholds?.critical, unit)}`;
+    }
+    default:
+      return `경고 ${formatLimits(rule.thresholds?.warning, rule.unit)} · 위험 ${formatLimits(rule.thresholds?.critical, rule.unit)}`;
+  }
+};
+
+const SensorAlerts: React.FC<SensorAlertsProps> = ({ className = '', historyLimit = 50 }) => {
+  const [tab, setTab] = useState<AlertsTab>('active');
+  const [activeAlarms, setActiveAlarms] = useState<SensorAlarmRecord[]>(() => sensorAlarmService.getActiveAlarms());
+  const [history, setHistory] = useState<SensorAlarmRecord[]>(() => sensorAlarmService.getHistory());
+  const [rules, setRules] = useState<SensorAlarmRule[]>(() => sensorAlarmService.getRules());
+
+  useEffect(() => {
+    const handleChange = () => {
+      setActiveAlarms(sensorAlarmService.getActiveAlarms());
+      setHistory(sensorAlarmService.getHistory());
+      setRules(sensorAlarmService.getRules());
+    };
+    sensorAlarmService.onChange(handleChange);
+    return () => sensorAlarmService.offChange(handleChange);
+  }, []);
+
+  const unacknowledged = activeAlarms.filter(alarm => !alarm.acknowledged).length;
+
   return (
-    <div className="p-4">
-      <h3 className="text-lg font-semibold mb-4">SensorAlerts</h3>
-      <p>SensorAlerts 컴포넌트 (구현 예정)</p>
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <AlertTriangle className={`w-6 h-6 mr-2 ${activeAlarms.length > 0 ? 'text-red-600' : 'text-gray-400'}`} />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">센서 알람</h3>
+          <span className="ml-3 text-sm text-gray-500 dark:text-gray-400">
+            활성 {activeAlarms.length} · 미확인 {unacknowledged}
+          </span>
+        </div>
+        <div className="flex items-center space-x-2">
+          {TABS.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => setTab(id)}
+              className={`px-3 py-1 text-sm rounded-lg transition-colors ${
+                tab === id
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {tab === 'active' && (
+        <>
+          {activeAlarms.length === 0 ? (
+            <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+              <BellOff className="w-4 h-4 mr-2" />
+              활성 알람이 없습니다
+            </div>
+          ) : (
+            <>
+              <div className="flex justify-end mb-2">
+                <button
+                  onClick={() => sensorAlarmService.acknowledgeAll()}
+                  disabled={unacknowledged === 0}
+                  className="flex items-center px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg disabled:opacity-50"
+                >
+                  <CheckCheck className="w-4 h-4 mr-1" />
+                  모두 확인
+                </button>
+              </div>
+              <ul className="space-y-2">
+                {activeAlarms.map(alarm => (
+                  <li
+                    key={alarm.id}
+                    className={`flex items-center justify-between px-4 py-3 border rounded-lg ${SEVERITY_STYLES[alarm.alarmType]}`}
+                  >
+                    <div>
+                      <div className="font-medium">
+                        [{severityLabel(alarm.alarmType)}] {alarm.message}
+                      </div>
+                      <div className="text-xs opacity-80">
+                        발생 {formatTime(alarm.timestamp)}
+                        {alarm.active ? ' · 발생 중' : ` · 정상 복귀 ${formatTime(alarm.clearedAt || alarm.timestamp)} (확인 필요)`}
+                        {alarm.acknowledged && ` · 확인 ${formatTime(alarm.acknowledgedAt || alarm.timestamp)}`}
+                      </div>
+                    </div>
+                    {!alarm.acknowledged && (
+                      <button
+                        onClick={() => sensorAlarmService.acknowledge(alarm.id)}
+                        className="ml-4 px-3 py-1 text-sm bg-white/70 hover:bg-white dark:bg-gray-800/70 dark:hover:bg-gray-800 rounded-lg"
+                      >
+                        확인
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </>
+      )}
+
+      {tab === 'history' && (
+        <>
+          <div className="flex justify-end mb-2">
+            <button
+              onClick={() => sensorAlarmService.clearHistory()}
+              disabled={history.length === 0}
+              className="flex items-center px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg disabled:opacity-50"
+            >
+              <Trash2 className="w-4 h-4 mr-1" />
+              이력 삭제
+            </button>
+          </div>
+          {history.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">알람 이력이 없습니다</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400">
+                    <th className="py-2 pr-4">발생</th>
+                    <th className="py-2 pr-4">심각도</th>
+                    <th className="py-2 pr-4">내용</th>
+                    <th className="py-2 pr-4">해제</th>
+                    <th className="py-2 pr-4">확인</th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-900 dark:text-white">
+                  {history.slice(0, historyLimit).map(alarm => (
+                    <tr key={alarm.id} className="border-t border-gray-100 dark:border-gray-700">
+                      <td className="py-2 pr-4 whitespace-nowrap">{formatDateTime(alarm.timestamp)}</td>
+                      <td className="py-2 pr-4">{severityLabel(alarm.alarmType)}</td>
+                      <td className="py-2 pr-4">{alarm.message}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap">{alarm.clearedAt ? formatTime(alarm.clearedAt) : '--'}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap">
+                        {alarm.acknowledgedAt ? formatTime(alarm.acknowledgedAt) : alarm.autoReset ? '자동 해제' : '--'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+
+      {tab === 'rules' && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="py-2 pr-4">사용</th>
+                <th className="py-2 pr-4">센서</th>
+                <th className="py-2 pr-4">종류</th>
+                <th className="py-2 pr-4">기준</th>
+                <th className="py-2 pr-4">지연 (발생/해제)</th>
+                <th className="py-2 pr-4">해제 방식</th>
+              </tr>
+            </thead>
+            <tbody className="text-gray-900 dark:text-white">
+              {rules.map(rule => (
+                <tr key={rule.id} className="border-t border-gray-100 dark:border-gray-700">
+                  <td className="py-2 pr-4">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={() => sensorAlarmService.updateRule(rule.id, { enabled: !rule.enabled })}
+                    />
+                  </td>
+                  <td className="py-2 pr-4">{rule.sensorName}</td>
+                  <td className="py-2 pr-4">{KIND_LABELS[rule.kind]}</td>
+                  <td className="py-2 pr-4">
+                    {describeRule(rule)}
+                    {rule.hysteresis > 0 && ` (히스테리시스 ${rule.hysteresis})`}
+                  </td>
+                  <td className="py-2 pr-4 font-mono">{rule.onDelay / 1000}s / {rule.offDelay / 1000}s</td>
+                  <td className="py-2 pr-4">{rule.autoReset ? '자동' : '확인 필요'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button
+            onClick={() => sensorAlarmService.resetRules()}
+            className="mt-3 px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg"
+          >
+            기본 규칙으로 초기화
+          </button>
+        </div>
+      )}
     </div>
   );
 };
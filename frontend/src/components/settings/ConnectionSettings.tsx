@@ -1,15 +1,74 @@
+/**
+ * 연결 설정 - API/WebSocket/MQTT 브로커 주소와 재연결 정책
+ * 저장하면 연결 관리자(connectionManager)가 새 주소로 재연결한다.
+ */
 import React from 'react';
+import { RefreshCw } from 'lucide-react';
+import { useMqtt } from '../../contexts/MqttContext';
+import { TRANSPORT_LABELS } from '../../services/connectionManager';
+import { NumberField, SettingsGroup, SettingsSectionLayout, SettingsSectionProps, TextField } from './SettingsFields';
 
-interface Props {
-  onChange?: () => void;
-}
+const STATUS_LABELS: Record<string, string> = {
+  connected: '연결됨',
+  connecting: '연결 중',
+  disconnected: '연결 끊김',
+  error: '오류'
+};
+
+const ConnectionSettings: React.FC<SettingsSectionProps> = ({ settings, onChange }) => {
+  const { transport, connectionStatus, getConnectionInfo, reconnect } = useMqtt();
+  const values = settings.config;
+
+  const update = (patch: Partial<typeof values>) => onChange({ ...settings, config: { ...values, ...patch } });
 
-const ConnectionSettings: React.FC<Props> = ({ onChange }) => {
   return (
-    <div className="p-4">
-      <h3 className="text-lg font-semibold mb-4">연결 설정</h3>
-      <p>연결 설정 컴포넌트 (구현 예정)</p>
-    </div>
+    <SettingsSectionLayout title="연결 설정" description="백엔드 API, WebSocket, MQTT 브로커 연결을 구성합니다">
+      <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg text-sm">
+        <div>
+          <span className="text-gray-600 dark:text-gray-400">현재 MQTT 연결: </span>
+          <span className="font-medium text-gray-900 dark:text-white">{STATUS_LABELS[connectionStatus] || connectionStatus}</span>
+          {transport && <span className="ml-2 text-xs text-gray-500">{TRANSPORT_LABELS[transport]}</span>}
+          <span className="ml-2 font-mono text-xs text-gray-500">{getConnectionInfo().broker}</span>
+        </div>
+        <button onClick={reconnect} className="flex items-center px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-600 dark:hover:bg-gray-500 text-gray-700 dark:text-gray-200 rounded-md">
+          <RefreshCw className="w-4 h-4 mr-1" />
+          재연결
+        </button>
+      </div>
+
+      <SettingsGroup title="백엔드">
+        <TextField label="API 주소" value={values.API_BASE_URL} onChange={(API_BASE_URL) => update({ API_BASE_URL })} placeholder="http://localhost:5001" />
+        <TextField label="WebSocket 주소" value={values.WS_URL} onChange={(WS_URL) => update({ WS_URL })} placeholder="ws://localhost:8080" />
+        <NumberField
+          label="WebSocket 최대 재연결 횟수"
+          value={values.websocket.maxReconnectAttempts}
+          onChange={(maxReconnectAttempts) => update({ websocket: { ...values.websocket, maxReconnectAttempts } })}
+        />
+        <NumberField
+          label="WebSocket 재연결 지연"
+          unit="ms"
+          value={values.websocket.reconnectDelay}
+          onChange={(reconnectDelay) => update({ websocket: { ...values.websocket, reconnectDelay } })}
+        />
+      </SettingsGroup>
+
+      <SettingsGroup title="MQTT 브로커">
+        <TextField
+          label="브로커 주소"
+          value={values.MQTT.brokerUrl}
+          onChange={(brokerUrl) => update({ MQTT: { ...values.MQTT, brokerUrl } })}
+          hint="직접 연결 모드(REACT_APP_MQTT_TRANSPORT=paho)에서만 사용 - 기본 백엔드 브리지는 WebSocket 주소로 연결합니다"
+          placeholder="ws://localhost:8080"
+        />
+        <NumberField
+          label="Keepalive"
+          unit="초"
+          value={values.MQTT.keepalive}
+          onChange={(keepalive) => update({ MQTT: { ...values.MQTT, keepalive } })}
+          hint="10~300초"
+        />
+      </SettingsGroup>
+    </SettingsSectionLayout>
   );
 };
 
@@ -1,15 +1,79 @@
+/**
+ * 데이터 설정 - 업데이트 주기, 차트, 센서 값 범위 (config.ts UPDATE_INTERVALS / CHART / THRESHOLDS)
+ */
 import React from 'react';
+import { SettingsConfig } from '../../types/settingsTypes';
+import { NumberField, SettingsGroup, SettingsSectionLayout, SettingsSectionProps } from './SettingsFields';
 
-interface Props {
-  onChange?: () => void;
-}
+const INTERVAL_LABELS: Record<keyof SettingsConfig['UPDATE_INTERVALS'], string> = {
+  ROBOT_STATUS: '로봇 상태',
+  JOINT_POSITIONS: '조인트 위치',
+  SENSOR_DATA: '센서 데이터',
+  CHART_REFRESH: '차트 새로고침',
+  CONNECTION_CHECK: '연결 상태 확인'
+};
+
+const THRESHOLD_LABELS: Record<keyof SettingsConfig['THRESHOLDS'], string> = {
+  WEIGHT_MIN: '무게 최소',
+  WEIGHT_MAX: '무게 최대',
+  CONCENTRATION_MIN: '농도 최소',
+  CONCENTRATION_MAX: '농도 최대'
+};
+
+const DataSettings: React.FC<SettingsSectionProps> = ({ settings, onChange }) => {
+  const values = settings.config;
+
+  const update = <K extends 'UPDATE_INTERVALS' | 'CHART' | 'THRESHOLDS'>(key: K, patch: Partial<SettingsConfig[K]>) =>
+    onChange({ ...settings, config: { ...values, [key]: { ...values[key], ...patch } } });
 
-const DataSettings: React.FC<Props> = ({ onChange }) => {
   return (
-    <div className="p-4">
-      <h3 className="text-lg font-semibold mb-4">DataSettings</h3>
-      <p>DataSettings 컴포넌트 (구현 예정)</p>
-    </div>
+    <SettingsSectionLayout title="데이터 설정" description="데이터 갱신 주기, 차트 표시, 센서 값 범위를 설정합니다">
+      <SettingsGroup title="업데이트 주기">
+        {(Object.keys(INTERVAL_LABELS) as Array<keyof SettingsConfig['UPDATE_INTERVALS']>).map(key => (
+          <NumberField
+            key={key}
+            label={INTERVAL_LABELS[key]}
+            unit="ms"
+            value={values.UPDATE_INTERVALS[key]}
+            onChange={(value) => update('UPDATE_INTERVALS', { [key]: value })}
+            hint="10~60000 ms"
+          />
+        ))}
+      </SettingsGroup>
+
+      <SettingsGroup title="차트">
+        <NumberField
+          label="최대 데이터 포인트"
+          value={values.CHART.MAX_DATA_POINTS}
+          onChange={(MAX_DATA_POINTS) => update('CHART', { MAX_DATA_POINTS })}
+          hint="10~1000, 새로 여는 차트부터 적용"
+        />
+        <NumberField
+          label="차트 업데이트 주기"
+          unit="ms"
+          value={values.CHART.UPDATE_RATE}
+          onChange={(UPDATE_RATE) => update('CHART', { UPDATE_RATE })}
+        />
+        <NumberField
+          label="애니메이션 시간"
+          unit="ms"
+          value={values.CHART.ANIMATION_DURATION}
+          onChange={(ANIMATION_DURATION) => update('CHART', { ANIMATION_DURATION })}
+        />
+      </SettingsGroup>
+
+      <SettingsGroup title="센서 값 범위">
+        {(Object.keys(THRESHOLD_LABELS) as Array<keyof SettingsConfig['THRESHOLDS']>).map(key => (
+          <NumberField
+            key={key}
+            label={THRESHOLD_LABELS[key]}
+            step={0.1}
+            value={values.THRESHOLDS[key]}
+            onChange={(value) => update('THRESHOLDS', { [key]: value })}
+          />
+        ))}
+      </SettingsGroup>
+    </SettingsSectionLayout>
   );
 };
 
@@ -1,15 +1,46 @@
+/**
+ * 알림 설정 - 토스트 표시 시간과 센서 알람 알림 범위
+ */
 import React from 'react';
+import toast from 'react-hot-toast';
+import { AlarmToastLevel } from '../../types/settingsTypes';
+import { NumberField, SelectField, SettingsGroup, SettingsSectionLayout, SettingsSectionProps } from './SettingsFields';
 
-interface Props {
-  onChange?: () => void;
-}
+const ALARM_TOAST_OPTIONS: Array<{ value: AlarmToastLevel; label: string }> = [
+  { value: 'all', label: '경고 + 위험' },
+  { value: 'critical', label: '위험만' },
+  { value: 'none', label: '표시 안 함 (알람 패널에서만 확인)' }
+];
+
+const NotificationSettings: React.FC<SettingsSectionProps> = ({ settings, onChange }) => {
+  const { notifications } = settings;
 
-const NotificationSettings: React.FC<Props> = ({ onChange }) => {
   return (
-    <div className="p-4">
-      <h3 className="text-lg font-semibold mb-4">NotificationSettings</h3>
-      <p>NotificationSettings 컴포넌트 (구현 예정)</p>
-    </div>
+    <SettingsSectionLayout title="알림 설정" description="화면 알림(토스트) 표시 방식을 설정합니다">
+      <SettingsGroup title="알림">
+        <NumberField
+          label="기본 표시 시간"
+          unit="초"
+          step={0.5}
+          value={notifications.toastDuration / 1000}
+          onChange={(seconds) => onChange({ ...settings, notifications: { ...notifications, toastDuration: seconds * 1000 } })}
+          hint="1~30초"
+        />
+        <SelectField
+          label="센서 알람 알림"
+          value={notifications.alarmToasts}
+          options={ALARM_TOAST_OPTIONS}
+          onChange={(alarmToasts) => onChange({ ...settings, notifications: { ...notifications, alarmToasts } })}
+        />
+      </SettingsGroup>
+
+      <button
+        onClick={() => toast('🔔 테스트 알림입니다')}
+        className="px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg text-sm"
+      >
+        테스트 알림 보내기
+      </button>
+    </SettingsSectionLayout>
   );
 };
 
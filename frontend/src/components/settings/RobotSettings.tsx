@@ -1,15 +1,97 @@
+/**
+ * 로봇 설정 - 로봇 컨트롤러 주소, 모션 명령 기본 속도/가속도, 위험 동작의 안전 상호작용 방식
+ */
 import React from 'react';
+import { RobotMotionDefaults, SafetyInteractionMode } from '../../types/settingsTypes';
+import {
+  SAFETY_CATEGORY_LABELS,
+  SAFETY_INTERACTION_CATEGORIES,
+  SAFETY_MODE_LABELS,
+  isHoldCapable
+} from '../../utils/safetyInteraction';
+import { NumberField, SelectField, SettingsGroup, SettingsSectionLayout, SettingsSectionProps, TextField } from './SettingsFields';
 
-interface Props {
-  onChange?: () => void;
-}
+const MOTION_FIELDS: Array<{ key: keyof RobotMotionDefaults; label: string }> = [
+  { key: 'jointSpeed', label: '조인트 이동 속도' },
+  { key: 'jointAcceleration', label: '조인트 이동 가속도' },
+  { key: 'linearSpeed', label: '직선 이동 속도' },
+  { key: 'linearAcceleration', label: '직선 이동 가속도' },
+  { key: 'homeSpeed', label: '홈 이동 속도' }
+];
+
+// hold-to-run 은 정지 명령으로 멈출 수 있는 분류에만 제공
+const modeOptions = (holdCapable: boolean): Array<{ value: SafetyInteractionMode; label: string }> =>
+  (Object.keys(SAFETY_MODE_LABELS) as SafetyInteractionMode[])
+    .filter(mode => holdCapable || mode !== 'hold')
+    .map(mode => ({ value: mode, label: SAFETY_MODE_LABELS[mode] }));
+
+const RobotSettings: React.FC<SettingsSectionProps> = ({ settings, onChange }) => {
+  const values = settings.config;
+  const { safety } = settings;
 
-const RobotSettings: React.FC<Props> = ({ onChange }) => {
   return (
-    <div className="p-4">
-      <h3 className="text-lg font-semibold mb-4">RobotSettings</h3>
-      <p>RobotSettings 컴포넌트 (구현 예정)</p>
-    </div>
+    <SettingsSectionLayout title="로봇 설정" description="로봇 컨트롤러 주소, 모션 명령의 기본값과 위험 동작의 확인 방식을 설정합니다">
+      <SettingsGroup title="컨트롤러">
+        <TextField
+          label="로봇 IP"
+          value={values.ROBOT_IP}
+          onChange={(ROBOT_IP) => onChange({ ...settings, config: { ...values, ROBOT_IP } })}
+        />
+        <NumberField
+          label="포트"
+          value={values.ROBOT_PORT}
+          onChange={(ROBOT_PORT) => onChange({ ...settings, config: { ...values, ROBOT_PORT } })}
+          hint="1~65535"
+        />
+      </SettingsGroup>
+
+      <SettingsGroup title="모션 기본값">
+        {MOTION_FIELDS.map(({ key, label }) => (
+          <NumberField
+            key={key}
+            label={label}
+            unit="%"
+            value={settings.robot[key]}
+            onChange={(value) => onChange({ ...settings, robot: { ...settings.robot, [key]: value } })}
+            hint="속도/가속도를 지정하지 않은 명령에 적용 (1~100)"
+          />
+        ))}
+      </SettingsGroup>
+
+      <SettingsGroup title="안전 상호작용">
+        {SAFETY_INTERACTION_CATEGORIES.map(category => (
+          <SelectField
+            key={category}
+            label={SAFETY_CATEGORY_LABELS[category]}
+            value={safety.modes[category]}
+            options={modeOptions(isHoldCapable(category))}
+            onChange={(mode) => onChange({ ...settings, safety: { ...safety, modes: { ...safety.modes, [category]: mode } } })}
+          />
+        ))}
+        <NumberField
+          label="큰 관절 이동 기준"
+          unit="°"
+          value={safety.largeJointMove}
+          onChange={(largeJointMove) => onChange({ ...settings, safety: { ...safety, largeJointMove } })}
+          hint="가장 많이 움직이는 관절의 변화량이 이 값을 넘으면 큰 이동"
+        />
+        <NumberField
+          label="큰 직선 이동 기준"
+          unit="mm"
+          value={safety.largeLinearMove}
+          onChange={(largeLinearMove) => onChange({ ...settings, safety: { ...safety, largeLinearMove } })}
+          hint="TCP 이동 거리가 이 값을 넘으면 큰 이동"
+        />
+        <NumberField
+          label="hold-to-run 하트비트 제한"
+          unit="ms"
+          step={100}
+          value={safety.heartbeatTimeout}
+          onChange={(heartbeatTimeout) => onChange({ ...settings, safety: { ...safety, heartbeatTimeout } })}
+          hint="누르는 동안 WebSocket 응답이 이 시간 이상 없으면 정지 (300~10000)"
+        />
+      </SettingsGroup>
+    </SettingsSectionLayout>
   );
 };
 
@@ -1,15 +1,156 @@
-import React from 'react';
+/**
+ * 보안 설정 - 로그인/역할, 역할별 권한 매트릭스, 보안 연결(https/wss) 강제
+ * 로그인은 저장 버튼과 관계없이 즉시 적용된다.
+ */
+import React, { useState } from 'react';
+import { Check, LogIn, LogOut, Minus } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useMqtt } from '../../contexts/MqttContext';
+import { useAuth } from '../../hooks/useAuth';
+import { authService } from '../../services/authService';
+import { AppPermission } from '../../types/authTypes';
+import { SettingsGroup, SettingsSectionLayout, SettingsSectionProps, ToggleField } from './SettingsFields';
 
-interface Props {
-  onChange?: () => void;
-}
+// 매트릭스에 표시할 권한 (robotTypes CommandType 중 화면에서 쓰는 명령 + 안전/프로그램/설정)
+const MATRIX_PERMISSIONS: AppPermission[] = [
+  'emergency_stop',
+  'move_joint',
+  'move_linear',
+  'home',
+  'run_program',
+  'release_protective_stop',
+  'release_emergency_stop',
+  'set_power',
+  'set_motor',
+  'set_safety_mode',
+  'calibrate',
+  'edit_program',
+  'change_settings',
+  'manage_security'
+];
+
+const INPUT_CLASS =
+  'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white';
+
+const SecuritySettings: React.FC<SettingsSectionProps> = ({ settings, onChange }) => {
+  const { getConnectionInfo } = useMqtt();
+  const { user, role, roleLabel, can, login, logout } = useAuth();
+  const [username, setUsername] = useState('');
+  const [pin, setPin] = useState('');
+  const [isLoggingIn, setIsLoggingIn] = useState(false);
+  const { security } = settings;
+
+  const handleLogin = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsLoggingIn(true);
+    try {
+      const session = await login(username, pin);
+      setPin('');
+      toast.success(`${session.user.displayName} 로그인 (${authService.getRoleLabel(session.user.role)})`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '로그인 실패');
+    } finally {
+      setIsLoggingIn(false);
+    }
+  };
 
-const SecuritySettings: React.FC<Props> = ({ onChange }) => {
   return (
-    <div className="p-4">
-      <h3 className="text-lg font-semibold mb-4">SecuritySettings</h3>
-      <p>SecuritySettings 컴포넌트 (구현 예정)</p>
-    </div>
+    <SettingsSectionLayout title="보안 설정" description="로그인 역할에 따라 사용할 수 있는 로봇 명령과 설정이 달라집니다">
+      <div>
+        <h4 className="mb-3 text-sm font-medium text-gray-700 dark:text-gray-300">현재 사용자</h4>
+        {user ? (
+          <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg text-sm">
+            <span className="text-gray-900 dark:text-white">
+              {user.displayName} <span className="font-mono text-gray-500">({user.username})</span> · {roleLabel}
+            </span>
+            <button
+              onClick={logout}
+              className="flex items-center px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-600 dark:hover:bg-gray-500 text-gray-700 dark:text-gray-200 rounded-md"
+            >
+              <LogOut className="w-4 h-4 mr-1" />
+              로그아웃
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleLogin} className="flex flex-wrap items-center gap-2">
+            <input
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              placeholder="사용자 이름"
+              autoComplete="username"
+              className={INPUT_CLASS}
+            />
+            <input
+              type="password"
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+              placeholder="PIN"
+              autoComplete="current-password"
+              className={`${INPUT_CLASS} w-28`}
+            />
+            <button
+              type="submit"
+              disabled={isLoggingIn}
+              className="flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-md text-sm"
+            >
+              <LogIn className="w-4 h-4 mr-1" />
+              로그인
+            </button>
+            <span className="text-xs text-gray-500 dark:text-gray-400">로그인하지 않으면 {roleLabel} 권한으로 동작합니다</span>
+          </form>
+        )}
+      </div>
+
+      <div>
+        <h4 className="mb-3 text-sm font-medium text-gray-700 dark:text-gray-300">역할별 권한</h4>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                <th className="py-2 pr-4 font-medium">권한</th>
+                {authService.getRoles().map(definition => (
+                  <th
+                    key={definition.role}
+                    title={definition.description}
+                    className={`py-2 px-2 font-medium text-center ${definition.role === role ? 'text-blue-600 dark:text-blue-400' : ''}`}
+                  >
+                    {definition.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {MATRIX_PERMISSIONS.map(permission => (
+                <tr key={permission} className="border-b border-gray-100 dark:border-gray-700/50">
+                  <td className="py-1.5 pr-4 text-gray-700 dark:text-gray-300">{authService.getPermissionLabel(permission)}</td>
+                  {authService.getRoles().map(definition => (
+                    <td key={definition.role} className="py-1.5 px-2 text-center">
+                      {authService.can(permission, definition.role)
+                        ? <Check className="inline w-4 h-4 text-green-600" />
+                        : <Minus className="inline w-4 h-4 text-gray-300 dark:text-gray-600" />}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <SettingsGroup title="연결 보안">
+        <ToggleField
+          label="보안 연결만 허용"
+          checked={security.requireSecureConnections}
+          disabled={!can('manage_security')}
+          onChange={(requireSecureConnections) => onChange({ ...settings, security: { ...security, requireSecureConnections } })}
+          hint="켜면 API/WebSocket/MQTT 주소가 https:// 또는 wss:// 가 아닐 때 저장할 수 없습니다 (관리자 전용)"
+        />
+      </SettingsGroup>
+
+      <div className="text-sm text-gray-500 dark:text-gray-400">
+        MQTT 클라이언트 ID: <span className="font-mono">{getConnectionInfo().clientId}</span>
+      </div>
+    </SettingsSectionLayout>
   );
 };
 
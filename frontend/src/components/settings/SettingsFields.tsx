@@ -0,0 +1,125 @@
+/**
+ * 설정 섹션 공통 입력 필드
+ */
+import React from 'react';
+import { AppSettings } from '../../types/settingsTypes';
+
+// 각 설정 섹션 공통 props - 페이지가 편집 중인 설정(draft)을 보관하고 저장 시 검증/적용
+export interface SettingsSectionProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+}
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white';
+
+export const SettingsSectionLayout: React.FC<{ title: string; description: string; children: React.ReactNode }> = ({
+  title,
+  description,
+  children
+}) => (
+  <div className="p-6">
+    <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{title}</h3>
+    <p className="mt-1 mb-6 text-sm text-gray-500 dark:text-gray-400">{description}</p>
+    <div className="space-y-6">{children}</div>
+  </div>
+);
+
+export const SettingsGroup: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div>
+    <h4 className="mb-3 text-sm font-medium text-gray-700 dark:text-gray-300">{title}</h4>
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">{children}</div>
+  </div>
+);
+
+interface FieldProps {
+  label: string;
+  hint?: string;
+  children: React.ReactNode;
+}
+
+const Field: React.FC<FieldProps> = ({ label, hint, children }) => (
+  <label className="block">
+    <span className="block mb-1 text-sm text-gray-600 dark:text-gray-400">{label}</span>
+    {children}
+    {hint && <span className="block mt-1 text-xs text-gray-400 dark:text-gray-500">{hint}</span>}
+  </label>
+);
+
+export const TextField: React.FC<{
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  hint?: string;
+  placeholder?: string;
+}> = ({ label, value, onChange, hint, placeholder }) => (
+  <Field label={label} hint={hint}>
+    <input value={value} placeholder={placeholder} onChange={(e) => onChange(e.target.value)} className={`${INPUT_CLASS} font-mono`} />
+  </Field>
+);
+
+/**
+ * 숫자 입력 - 빈 값은 NaN 으로 전달해 저장 시 검증 오류로 표시
+ */
+export const NumberField: React.FC<{
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  hint?: string;
+  unit?: string;
+  step?: number;
+}> = ({ label, value, onChange, hint, unit, step }) => (
+  <Field label={unit ? `${label} (${unit})` : label} hint={hint}>
+    <input
+      type="number"
+      step={step}
+      value={Number.isFinite(value) ? value : ''}
+      onChange={(e) => onChange(e.target.value === '' ? NaN : Number(e.target.value))}
+      className={INPUT_CLASS}
+    />
+  </Field>
+);
+
+export const SelectField = <T extends string>({
+  label,
+  value,
+  options,
+  onChange,
+  hint
+}: {
+  label: string;
+  value: T;
+  options: Array<{ value: T; label: string }>;
+  onChange: (value: T) => void;
+  hint?: string;
+}) => (
+  <Field label={label} hint={hint}>
+    <select value={value} onChange={(e) => onChange(e.target.value as T)} className={INPUT_CLASS}>
+      {options.map(option => (
+        <option key={option.value} value={option.value}>{option.label}</option>
+      ))}
+    </select>
+  </Field>
+);
+
+export const ToggleField: React.FC<{
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  hint?: string;
+  disabled?: boolean;
+}> = ({ label, checked, onChange, hint, disabled }) => (
+  <label className={`flex items-start space-x-3 md:col-span-2 ${disabled ? 'opacity-60' : ''}`}>
+    <input
+      type="checkbox"
+      checked={checked}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.checked)}
+      className="mt-1 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+    />
+    <span>
+      <span className="block text-sm text-gray-700 dark:text-gray-300">{label}</span>
+      {hint && <span className="block text-xs text-gray-400 dark:text-gray-500">{hint}</span>}
+    </span>
+  </label>
+);
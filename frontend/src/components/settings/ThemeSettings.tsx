@@ -1,15 +1,61 @@
+/**
+ * 테마 설정 - ThemeContext 로 즉시 적용 (ThemeContext 가 localStorage 에 저장)
+ */
 import React from 'react';
+import { Moon, Sun } from 'lucide-react';
+import { useTheme } from '../../contexts/ThemeContext';
+import { SettingsSectionLayout } from './SettingsFields';
 
-interface Props {
-  onChange?: () => void;
-}
+const ACCENT_COLORS = [
+  { value: 'blue', label: '파랑', color: '#3B82F6' },
+  { value: 'green', label: '초록', color: '#10B981' },
+  { value: 'purple', label: '보라', color: '#8B5CF6' },
+  { value: 'orange', label: '주황', color: '#F59E0B' }
+] as const;
+
+const ThemeSettings: React.FC = () => {
+  const { theme, accentColor, setTheme, setAccentColor } = useTheme();
 
-const ThemeSettings: React.FC<Props> = ({ onChange }) => {
   return (
-    <div className="p-4">
-      <h3 className="text-lg font-semibold mb-4">ThemeSettings</h3>
-      <p>ThemeSettings 컴포넌트 (구현 예정)</p>
-    </div>
+    <SettingsSectionLayout title="테마 설정" description="화면 테마와 강조 색상은 선택 즉시 적용됩니다">
+      <div>
+        <h4 className="mb-3 text-sm font-medium text-gray-700 dark:text-gray-300">화면 모드</h4>
+        <div className="flex space-x-3">
+          {([['light', '라이트', Sun], ['dark', '다크', Moon]] as const).map(([value, label, Icon]) => (
+            <button
+              key={value}
+              onClick={() => setTheme(value)}
+              className={`flex items-center px-4 py-2 rounded-lg border text-sm ${
+                theme === value
+                  ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300'
+                  : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              <Icon className="w-4 h-4 mr-2" />
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h4 className="mb-3 text-sm font-medium text-gray-700 dark:text-gray-300">강조 색상</h4>
+        <div className="flex space-x-3">
+          {ACCENT_COLORS.map(({ value, label, color }) => (
+            <button
+              key={value}
+              onClick={() => setAccentColor(value)}
+              className={`flex items-center px-3 py-2 rounded-lg border text-sm text-gray-700 dark:text-gray-300 ${
+                accentColor === value ? 'border-gray-900 dark:border-white' : 'border-gray-300 dark:border-gray-600'
+              }`}
+            >
+              <span className="w-4 h-4 mr-2 rounded-full" style={{ backgroundColor: color }} />
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </SettingsSectionLayout>
   );
 };
 
@@ -1,15 +1,379 @@
-import React from 'react';
+/**
+ * 사용자 정의 차트 빌더 - 수신 토픽의 JSON 필드와 파생 수식으로 차트를 구성하고 사용자별로 저장
+ * 토픽 목록/데이터 누적은 customChartService (MqttContext 의 모든 수신 메시지 기준)
+ */
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Edit2, Plus, RotateCcw, Save, Trash2, User, X } from 'lucide-react';
+import {
+  CustomChartDefinition,
+  CustomChartDerived,
+  CustomChartSource,
+  CustomChartType,
+  TopicFieldCatalogEntry
+} from '../../types/customChartTypes';
+import { customChartService } from '../../services/customChartService';
+import { useMqtt } from '../../contexts/MqttContext';
+import { formatRelativeTime } from '../../utils';
+import CustomChartView from './CustomChartView';
 
-interface Props {
-  timeRange?: string;
-  [key: string]: any;
+type ChartDraft = Omit<CustomChartDefinition, 'id' | 'createdAt' | 'updatedAt'> & { id?: string };
+
+const CHART_TYPES: Array<{ value: CustomChartType; label: string }> = [
+  { value: 'line', label: '라인' },
+  { value: 'scatter', label: '산점도' },
+  { value: 'bar', label: '막대 (최신 값)' },
+  { value: 'gauge', label: '게이지' },
+  { value: 'heatmap', label: '히트맵' }
+];
+
+const INPUT_CLASS =
+  'px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white';
+
+const BUTTON_CLASS =
+  'flex items-center px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg';
+
+const emptyDraft = (): ChartDraft => ({
+  name: '',
+  type: 'line',
+  sources: [],
+  derived: [],
+  xAxis: {},
+  yAxis: {},
+  timeWindow: 60
+});
+
+// 수식 변수 이름 - 사용하지 않은 첫 알파벳
+const nextKey = (draft: ChartDraft): string => {
+  const used = [...draft.sources, ...draft.derived].map(series => series.key);
+  const letters = 'abcdefghijklmnopqrstuvwxyz'.split('');
+  return letters.find(letter => !used.includes(letter)) || `s${used.length + 1}`;
+};
+
+const optionalNumber = (value: string): number | undefined => (value.trim() === '' ? undefined : Number(value));
+
+interface CustomChartBuilderProps {
+  className?: string;
 }
 
-const CustomChartBuilder: React.FC<Props> = (props) => {
+const CustomChartBuilder: React.FC<CustomChartBuilderProps> = ({ className = '' }) => {
+  const { subscribe } = useMqtt();
+  const [user, setUser] = useState(() => customChartService.getUser());
+  const [userInput, setUserInput] = useState(user);
+  const [charts, setCharts] = useState<CustomChartDefinition[]>(() => customChartService.getCharts());
+  const [catalog, setCatalog] = useState<TopicFieldCatalogEntry[]>(() => customChartService.getCatalog());
+  const [, setTick] = useState(0);
+  const [draft, setDraft] = useState<ChartDraft | null>(null);
+  const [topicFilter, setTopicFilter] = useState('');
+  const [subscribeTopic, setSubscribeTopic] = useState('');
+
+  useEffect(() => {
+    const handleChange = () => {
+      setUser(customChartService.getUser());
+      setCharts(customChartService.getCharts());
+      setCatalog(customChartService.getCatalog());
+      setTick(tick => tick + 1);
+    };
+    customChartService.onChange(handleChange);
+    return () => customChartService.offChange(handleChange);
+  }, []);
+
+  const fieldsOf = (topic: string): string[] => catalog.find(entry => entry.topic === topic)?.fields || [];
+
+  // ===== 편집 =====
+  const updateDraft = (patch: Partial<ChartDraft>) => setDraft(prev => (prev ? { ...prev, ...patch } : prev));
+
+  const addSource = (topic = '', path = '') => {
+    setDraft(prev => {
+      const base = prev || emptyDraft();
+      const source: CustomChartSource = { key: nextKey(base), label: path || topic, topic, path };
+      return { ...base, sources: [...base.sources, source] };
+    });
+  };
+
+  const updateSource = (index: number, patch: Partial<CustomChartSource>) => {
+    setDraft(prev => prev && { ...prev, sources: prev.sources.map((source, i) => (i === index ? { ...source, ...patch } : source)) });
+  };
+
+  const addDerived = () => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const keys = prev.sources.map(source => source.key);
+      const derived: CustomChartDerived = {
+        key: nextKey(prev),
+        label: '차이',
+        expression: keys.length >= 2 ? `${keys[0]} - ${keys[1]}` : keys[0] || ''
+      };
+      return { ...prev, derived: [...prev.derived, derived] };
+    });
+  };
+
+  const updateDerived = (index: number, patch: Partial<CustomChartDerived>) => {
+    setDraft(prev => prev && { ...prev, derived: prev.derived.map((series, i) => (i === index ? { ...series, ...patch } : series)) });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    try {
+      const saved = customChartService.saveChart(draft);
+      toast.success(`차트 저장: ${saved.name}`);
+      setDraft(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '차트 저장 실패');
+    }
+  };
+
+  const handleDelete = (chart: CustomChartDefinition) => {
+    if (!window.confirm(`'${chart.name}' 차트를 삭제할까요?`)) return;
+    customChartService.deleteChart(chart.id);
+    if (draft?.id === chart.id) setDraft(null);
+  };
+
+  const handleSubscribe = async () => {
+    const topic = subscribeTopic.trim();
+    if (!topic) return;
+    if (await subscribe(topic)) {
+      toast.success(`토픽 구독: ${topic}`);
+      setSubscribeTopic('');
+    } else {
+      toast.error(`토픽 구독 실패: ${topic}`);
+    }
+  };
+
+  const visibleCatalog = catalog.filter(entry => entry.topic.includes(topicFilter.trim()));
+  const allSeriesKeys = draft ? [...draft.sources, ...draft.derived].map(series => series.key) : [];
+
   return (
-    <div className="p-4 bg-white dark:bg-gray-800 rounded-lg">
-      <h3 className="text-lg font-semibold mb-4">CustomChartBuilder</h3>
-      <p>CustomChartBuilder 컴포넌트 (구현 예정)</p>
+    <div className={`space-y-6 ${className}`}>
+      {/* 사용자 / 새 차트 */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-4 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center space-x-2">
+          <User className="w-5 h-5 text-gray-500" />
+          <span className="text-sm text-gray-600 dark:text-gray-400">사용자</span>
+          <input value={userInput} onChange={(e) => setUserInput(e.target.value)} className={INPUT_CLASS} />
+          <button onClick={() => customChartService.setUser(userInput)} disabled={userInput.trim() === user} className={`${BUTTON_CLASS} disabled:opacity-50`}>
+            전환
+          </button>
+          <span className="text-xs text-gray-500 dark:text-gray-400">저장된 차트 {charts.length}개</span>
+        </div>
+        <button
+          onClick={() => setDraft(emptyDraft())}
+          className="flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          새 차트
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        {/* 토픽 / 필드 목록 */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">수신 토픽</h3>
+          <div className="flex space-x-2 mb-3">
+            <input
+              value={subscribeTopic}
+              onChange={(e) => setSubscribeTopic(e.target.value)}
+              placeholder="추가 구독 (예: ros2/dsr01/+)"
+              className={`${INPUT_CLASS} flex-1`}
+            />
+            <button onClick={handleSubscribe} className={BUTTON_CLASS}>구독</button>
+          </div>
+          <input
+            value={topicFilter}
+            onChange={(e) => setTopicFilter(e.target.value)}
+            placeholder="토픽 검색"
+            className={`${INPUT_CLASS} w-full mb-3`}
+          />
+          {visibleCatalog.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">아직 수신한 토픽이 없습니다</p>
+          ) : (
+            <ul className="space-y-3 max-h-[32rem] overflow-y-auto">
+              {visibleCatalog.map(entry => (
+                <li key={entry.topic}>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-mono text-gray-900 dark:text-white break-all">{entry.topic}</span>
+                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                      {entry.messageCount} · {formatRelativeTime(entry.lastSeen)}
+                    </span>
+                  </div>
+                  {entry.fields.length === 0 ? (
+                    <span className="text-xs text-gray-400">숫자 필드 없음</span>
+                  ) : (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {entry.fields.map(field => (
+                        <button
+                          key={field || '(value)'}
+                          onClick={() => addSource(entry.topic, field)}
+                          title="차트에 추가"
+                          className="px-2 py-0.5 text-xs font-mono bg-blue-50 hover:bg-blue-100 dark:bg-blue-900/40 dark:hover:bg-blue-900 text-blue-700 dark:text-blue-200 rounded"
+                        >
+                          {field || '(값)'}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* 편집기 */}
+        <div className="xl:col-span-2 bg-white dark:bg-gray-800 rounded-lg shadow-lg p-4">
+          {!draft ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              '새 차트' 를 누르거나 왼쪽 목록에서 필드를 선택하면 차트를 구성할 수 있습니다
+            </p>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{draft.id ? '차트 편집' : '새 차트'}</h3>
+                <button onClick={() => setDraft(null)} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <input value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} placeholder="차트 이름" className={INPUT_CLASS} />
+                <select value={draft.type} onChange={(e) => updateDraft({ type: e.target.value as CustomChartType })} className={INPUT_CLASS}>
+                  {CHART_TYPES.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+                </select>
+                <label className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+                  표시 구간
+                  <input
+                    type="number"
+                    min={5}
+                    value={draft.timeWindow}
+                    onChange={(e) => updateDraft({ timeWindow: Math.max(5, Number(e.target.value) || 60) })}
+                    className={`${INPUT_CLASS} w-20 mx-2`}
+                  />
+                  초
+                </label>
+              </div>
+
+              {/* 토픽 필드 */}
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-medium text-gray-700 dark:text-gray-300">토픽 필드</span>
+                  <button onClick={() => addSource()} className={BUTTON_CLASS}><Plus className="w-4 h-4 mr-1" />필드</button>
+                </div>
+                <datalist id="custom-chart-topics">
+                  {catalog.map(entry => <option key={entry.topic} value={entry.topic} />)}
+                </datalist>
+                <div className="space-y-2">
+                  {draft.sources.map((source, index) => (
+                    <div key={index} className="flex flex-wrap items-center gap-2">
+                      <span className="w-6 font-mono text-sm text-gray-500">{source.key}</span>
+                      <input value={source.label} onChange={(e) => updateSource(index, { label: e.target.value })} placeholder="이름" className={`${INPUT_CLASS} w-32`} />
+                      <input list="custom-chart-topics" value={source.topic} onChange={(e) => updateSource(index, { topic: e.target.value })} placeholder="토픽" className={`${INPUT_CLASS} flex-1 font-mono`} />
+                      <input list={`custom-chart-fields-${index}`} value={source.path} onChange={(e) => updateSource(index, { path: e.target.value })} placeholder="JSON 경로 (예: position[0])" className={`${INPUT_CLASS} w-48 font-mono`} />
+                      <datalist id={`custom-chart-fields-${index}`}>
+                        {fieldsOf(source.topic).map(field => <option key={field} value={field} />)}
+                      </datalist>
+                      <input value={source.unit || ''} onChange={(e) => updateSource(index, { unit: e.target.value || undefined })} placeholder="단위" className={`${INPUT_CLASS} w-16`} />
+                      <button onClick={() => updateDraft({ sources: draft.sources.filter((_, i) => i !== index) })} className="text-gray-400 hover:text-red-600">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* 파생 시리즈 */}
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                    파생 수식 <span className="font-normal text-gray-500">(+ - * / 괄호, abs/min/max/sqrt)</span>
+                  </span>
+                  <button onClick={addDerived} disabled={draft.sources.length === 0} className={`${BUTTON_CLASS} disabled:opacity-50`}>
+                    <Plus className="w-4 h-4 mr-1" />수식
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  {draft.derived.map((series, index) => (
+                    <div key={index} className="flex flex-wrap items-center gap-2">
+                      <span className="w-6 font-mono text-sm text-gray-500">{series.key}</span>
+                      <input value={series.label} onChange={(e) => updateDerived(index, { label: e.target.value })} placeholder="이름" className={`${INPUT_CLASS} w-32`} />
+                      <input value={series.expression} onChange={(e) => updateDerived(index, { expression: e.target.value })} placeholder="예: a / b * 100" className={`${INPUT_CLASS} flex-1 font-mono`} />
+                      <input value={series.unit || ''} onChange={(e) => updateDerived(index, { unit: e.target.value || undefined })} placeholder="단위" className={`${INPUT_CLASS} w-16`} />
+                      <button onClick={() => updateDraft({ derived: draft.derived.filter((_, i) => i !== index) })} className="text-gray-400 hover:text-red-600">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* 축 */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <span className="text-sm font-medium text-gray-700 dark:text-gray-300">X 축</span>
+                  {draft.type === 'scatter' && (
+                    <select
+                      value={draft.xAxis.key || ''}
+                      onChange={(e) => updateDraft({ xAxis: { ...draft.xAxis, key: e.target.value || undefined } })}
+                      className={`${INPUT_CLASS} w-full`}
+                    >
+                      <option value="">시간</option>
+                      {allSeriesKeys.map(key => <option key={key} value={key}>{key}</option>)}
+                    </select>
+                  )}
+                  <div className="flex gap-2">
+                    <input value={draft.xAxis.label || ''} onChange={(e) => updateDraft({ xAxis: { ...draft.xAxis, label: e.target.value || undefined } })} placeholder="라벨" className={`${INPUT_CLASS} flex-1`} />
+                    <input value={draft.xAxis.unit || ''} onChange={(e) => updateDraft({ xAxis: { ...draft.xAxis, unit: e.target.value || undefined } })} placeholder="단위" className={`${INPUT_CLASS} w-16`} />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Y 축 / 게이지 범위</span>
+                  <div className="flex gap-2">
+                    <input value={draft.yAxis.label || ''} onChange={(e) => updateDraft({ yAxis: { ...draft.yAxis, label: e.target.value || undefined } })} placeholder="라벨" className={`${INPUT_CLASS} flex-1`} />
+                    <input value={draft.yAxis.unit || ''} onChange={(e) => updateDraft({ yAxis: { ...draft.yAxis, unit: e.target.value || undefined } })} placeholder="단위" className={`${INPUT_CLASS} w-16`} />
+                  </div>
+                  <div className="flex gap-2">
+                    <input type="number" value={draft.yAxis.min ?? ''} onChange={(e) => updateDraft({ yAxis: { ...draft.yAxis, min: optionalNumber(e.target.value) } })} placeholder="최소 (자동)" className={`${INPUT_CLASS} flex-1`} />
+                    <input type="number" value={draft.yAxis.max ?? ''} onChange={(e) => updateDraft({ yAxis: { ...draft.yAxis, max: optionalNumber(e.target.value) } })} placeholder="최대 (자동)" className={`${INPUT_CLASS} flex-1`} />
+                  </div>
+                </div>
+              </div>
+
+              <div className="flex justify-end">
+                <button onClick={handleSave} className="flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors">
+                  <Save className="w-4 h-4 mr-2" />
+                  저장
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* 저장된 차트 */}
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        {charts.map(chart => (
+          <div key={chart.id} className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-4">
+            <div className="flex items-center justify-between mb-3">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{chart.name}</h3>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {CHART_TYPES.find(type => type.value === chart.type)?.label} · {chart.sources.map(source => source.topic).join(', ')}
+                </span>
+              </div>
+              <div className="flex items-center space-x-1">
+                <button onClick={() => customChartService.clearChartData(chart.id)} title="데이터 초기화" className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300">
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+                <button onClick={() => setDraft({ ...chart })} title="편집" className="p-1 text-gray-400 hover:text-blue-600">
+                  <Edit2 className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleDelete(chart)} title="삭제" className="p-1 text-gray-400 hover:text-red-600">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+            <CustomChartView chart={chart} data={customChartService.getChartData(chart.id)} />
+          </div>
+        ))}
+      </div>
     </div>
   );
 };
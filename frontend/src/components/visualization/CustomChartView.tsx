@@ -0,0 +1,215 @@
+/**
+ * 사용자 정의 차트 렌더러 - 정의의 차트 종류(line/scatter/bar/gauge/heatmap)에 맞춰 버퍼 데이터를 표시
+ */
+import React from 'react';
+import {
+  LineChart,
+  Line,
+  ScatterChart,
+  Scatter,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import { CustomChartData, CustomChartDefinition } from '../../types/customChartTypes';
+import { CHART_COLORS } from '../../config';
+import { formatTime } from '../../utils';
+import GaugeChart from './GaugeChart';
+import HeatMap from './HeatMap';
+
+interface CustomChartViewProps {
+  chart: CustomChartDefinition;
+  data: CustomChartData;
+}
+
+const HEATMAP_COLUMNS = 12;
+
+const seriesOf = (chart: CustomChartDefinition) => [
+  ...chart.sources.map(source => ({ key: source.key, label: source.label || source.key, unit: source.unit })),
+  ...chart.derived.map(series => ({ key: series.key, label: series.label || series.key, unit: series.unit }))
+];
+
+const colorOf = (index: number): string => CHART_COLORS[index % CHART_COLORS.length];
+
+const yDomain = (chart: CustomChartDefinition): [number | string, number | string] => [
+  chart.yAxis.min ?? 'auto',
+  chart.yAxis.max ?? 'auto'
+];
+
+const yLabel = (chart: CustomChartDefinition): string | undefined =>
+  chart.yAxis.label ? `${chart.yAxis.label}${chart.yAxis.unit ? ` (${chart.yAxis.unit})` : ''}` : undefined;
+
+/**
+ * 시간 구간별 평균 (행은 sample-and-hold 라 구간 안의 값만 평균, 빈 구간은 직전 값 유지)
+ */
+const toHeatmap = (chart: CustomChartDefinition, data: CustomChartData) => {
+  const series = seriesOf(chart);
+  const end = data.rows.length > 0 ? data.rows[data.rows.length - 1].timestamp : Date.now();
+  const span = (chart.timeWindow * 1000) / HEATMAP_COLUMNS;
+  const start = end - chart.timeWindow * 1000;
+
+  const matrix = series.map(({ key }) => {
+    let previous = NaN;
+    return Array.from({ length: HEATMAP_COLUMNS }, (_, column) => {
+      const from = start + column * span;
+      const values = data.rows
+        .filter(row => row.timestamp >= from && row.timestamp < from + span && row[key] !== undefined)
+        .map(row => row[key]);
+      if (values.length > 0) previous = values.reduce((sum, value) => sum + value, 0) / values.length;
+      return previous;
+    });
+  });
+
+  // 모든 시리즈 값이 생긴 열부터 표시
+  const firstColumn = Array.from({ length: HEATMAP_COLUMNS }, (_, column) => column)
+    .find(column => matrix.every(row => !isNaN(row[column])));
+  if (firstColumn === undefined) return null;
+  return {
+    data: matrix.map(row => row.slice(firstColumn).map(value => Math.round(value * 100) / 100)),
+    xLabels: Array.from({ length: HEATMAP_COLUMNS - firstColumn }, (_, index) => formatTime(start + (firstColumn + index) * span)),
+    yLabels: series.map(item => item.label)
+  };
+};
+
+const CustomChartView: React.FC<CustomChartViewProps> = ({ chart, data }) => {
+  const series = seriesOf(chart);
+  const empty = (
+    <p className="text-sm text-gray-500 dark:text-gray-400">선택한 토픽 데이터를 기다리는 중입니다</p>
+  );
+  if (data.rows.length === 0) return empty;
+
+  switch (chart.type) {
+    case 'line':
+      return (
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data.rows}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="timestamp"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={(value: number) => formatTime(value)}
+              />
+              <YAxis domain={yDomain(chart)} label={yLabel(chart)} unit={chart.yAxis.unit} />
+              <Tooltip labelFormatter={(value: number) => formatTime(value)} />
+              <Legend />
+              {series.map((item, index) => (
+                <Line
+                  key={item.key}
+                  type="monotone"
+                  dataKey={item.key}
+                  name={item.label}
+                  stroke={colorOf(index)}
+                  dot={false}
+                  isAnimationActive={false}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      );
+
+    case 'scatter': {
+      // X 축 시리즈 미지정 시 시간 축
+      const xKey = chart.xAxis.key && series.some(item => item.key === chart.xAxis.key) ? chart.xAxis.key : 'timestamp';
+      const ySeries = series.filter(item => item.key !== xKey);
+      return (
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <ScatterChart>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey={xKey}
+                type="number"
+                name={chart.xAxis.label || xKey}
+                unit={chart.xAxis.unit}
+                domain={[chart.xAxis.min ?? 'auto', chart.xAxis.max ?? 'auto']}
+                tickFormatter={xKey === 'timestamp' ? (value: number) => formatTime(value) : undefined}
+              />
+              <YAxis type="number" domain={yDomain(chart)} label={yLabel(chart)} unit={chart.yAxis.unit} />
+              <Tooltip />
+              <Legend />
+              {ySeries.map((item, index) => (
+                <Scatter
+                  key={item.key}
+                  name={item.label}
+                  data={data.rows.filter(row => row[xKey] !== undefined && row[item.key] !== undefined)
+                    .map(row => ({ [xKey]: row[xKey], y: row[item.key] }))}
+                  dataKey="y"
+                  fill={colorOf(index)}
+                  isAnimationActive={false}
+                />
+              ))}
+            </ScatterChart>
+          </ResponsiveContainer>
+        </div>
+      );
+    }
+
+    case 'bar': {
+      const bars = series
+        .filter(item => data.latest[item.key] !== undefined)
+        .map(item => ({ name: item.label, value: Math.round(data.latest[item.key] * 1000) / 1000 }));
+      return (
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={bars}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" />
+              <YAxis domain={yDomain(chart)} label={yLabel(chart)} unit={chart.yAxis.unit} />
+              <Tooltip />
+              <Bar dataKey="value" name="최신 값" fill={colorOf(0)} isAnimationActive={false} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      );
+    }
+
+    case 'gauge':
+      return (
+        <div className="flex flex-wrap justify-center gap-4">
+          {series.filter(item => data.latest[item.key] !== undefined).map((item, index) => (
+            <GaugeChart
+              key={item.key}
+              value={data.latest[item.key]}
+              min={chart.yAxis.min ?? 0}
+              max={chart.yAxis.max ?? 100}
+              title={item.label}
+              unit={item.unit || chart.yAxis.unit || ''}
+              color={colorOf(index)}
+              size={180}
+            />
+          ))}
+        </div>
+      );
+
+    case 'heatmap': {
+      const heatmap = toHeatmap(chart, data);
+      if (!heatmap) return empty;
+      return (
+        <div className="overflow-x-auto">
+          <HeatMap
+            data={heatmap.data}
+            xLabels={heatmap.xLabels}
+            yLabels={heatmap.yLabels}
+            title={chart.yAxis.label || chart.name}
+            cellSize={36}
+            showValues={false}
+          />
+        </div>
+      );
+    }
+
+    default:
+      return empty;
+  }
+};
+
+export default CustomChartView;
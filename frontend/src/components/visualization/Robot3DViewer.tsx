@@ -1,107 +1,205 @@
 /**
  * 3D 로봇 시각화 컴포넌트 - Three.js 기반 실시간 로봇 모델링
+ * M0609 DH 파라미터로 링크/조인트 축을 구성하고 RobotStateContext 조인트 값으로 매 프레임 갱신
  */
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useMemo, useState } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
-import { OrbitControls, Grid, Environment } from '@react-three/drei';
+import { OrbitControls, Grid, Environment, Html } from '@react-three/drei';
 import * as THREE from 'three';
 import { useRobotState } from '../../contexts/RobotStateContext';
+import { forwardKinematicsFrames, getSpecFrameTransforms, Matrix4 } from '../../utils/kinematics';
+import { ROBOT_SPECS } from '../../utils/robotSpecs';
 
-interface RobotJoint {
-  position: [number, number, number];
-  rotation: [number, number, number];
-  length: number;
-  radius: number;
+const MM_TO_M = 0.001;
+const SMOOTHING_RATE = 12;        // 표시 조인트가 실제 값을 따라가는 속도 (1/s)
+const GHOST_MIN_DIFFERENCE = 0.5; // 고스트를 표시할 최소 조인트 차이 (degrees)
+
+// 조인트별 하우징 크기 (mm)
+const JOINT_HOUSINGS = [
+  { radius: 75, length: 150 },
+  { radius: 75, length: 170 },
+  { radius: 60, length: 140 },
+  { radius: 50, length: 110 },
+  { radius: 45, length: 100 },
+  { radius: 40, length: 60 }
+];
+const LINK_RADIUS = [60, 55, 50, 45, 40, 35];
+
+const ARM_COLORS = {
+  housing: '#1e40af',
+  link: '#e5e7eb',
+  flange: '#ef4444',
+  ghost: '#22d3ee'
+};
+
+// row-major 배열 → THREE.Matrix4 (mm 단위 유지)
+const toThreeMatrix = (m: Matrix4, target = new THREE.Matrix4()): THREE.Matrix4 => {
+  return target.set(
+    m[0][0], m[0][1], m[0][2], m[0][3],
+    m[1][0], m[1][1], m[1][2], m[1][3],
+    m[2][0], m[2][1], m[2][2], m[2][3],
+    0, 0, 0, 1
+  );
+};
+
+const Y_AXIS = new THREE.Vector3(0, 1, 0);
+const CYLINDER_TO_Z = new THREE.Matrix4().makeRotationX(Math.PI / 2);
+
+// 두 점을 잇는 실린더 배치 (기본 실린더는 Y축 방향, 길이 1)
+const placeSegment = (mesh: THREE.Mesh, from: THREE.Vector3, to: THREE.Vector3) => {
+  const direction = new THREE.Vector3().subVectors(to, from);
+  const length = direction.length();
+  mesh.visible = length > 1;
+  if (!mesh.visible) return;
+
+  mesh.position.copy(from).addScaledVector(direction, 0.5);
+  mesh.quaternion.setFromUnitVectors(Y_AXIS, direction.normalize());
+  mesh.scale.set(1, length, 1);
+};
+
+interface RobotArmProps {
+  joints: number[];
+  ghost?: boolean;
+  showTcpAxes?: boolean;
+  tcpLabel?: string;
 }
 
-// Doosan M0609 로봇 모델 컴포넌트
-function RobotModel({ jointPositions }: { jointPositions: number[] }) {
-  const groupRef = useRef<THREE.Group>(null);
-  
-  // 조인트 각도를 3D 회전으로 변환
-  const jointAngles = jointPositions.map(angle => angle * Math.PI / 180);
-  
-  useFrame(() => {
-    if (groupRef.current) {
-      // 부드러운 회전 애니메이션 적용
-      groupRef.current.rotation.y += 0.01;
+/**
+ * DH 체인 기반 로봇 암
+ * 링크는 DH 정의 그대로 (z_i 방향 d_i, x_{i+1} 방향 a_i) 두 구간으로 그림
+ */
+function RobotArm({ joints, ghost = false, showTcpAxes = false, tcpLabel }: RobotArmProps) {
+  const housingRefs = useRef<(THREE.Mesh | null)[]>([]);
+  const segmentRefs = useRef<(THREE.Mesh | null)[]>([]);
+  const flangeRef = useRef<THREE.Mesh>(null);
+  const tcpRef = useRef<THREE.Group>(null);
+  const displayedJoints = useRef<number[]>([...joints]);
+
+  const material = useMemo(() => ({
+    housing: ghost
+      ? { color: ARM_COLORS.ghost, transparent: true, opacity: 0.3, depthWrite: false }
+      : { color: ARM_COLORS.housing },
+    link: ghost
+      ? { color: ARM_COLORS.ghost, transparent: true, opacity: 0.2, depthWrite: false }
+      : { color: ARM_COLORS.link, metalness: 0.3, roughness: 0.5 },
+    flange: ghost
+      ? { color: ARM_COLORS.ghost, transparent: true, opacity: 0.4, depthWrite: false }
+      : { color: ARM_COLORS.flange }
+  }), [ghost]);
+
+  useFrame((_, delta) => {
+    // 실제 암은 부드럽게 따라가고, 고스트는 목표 자세를 즉시 표시
+    const alpha = ghost ? 1 : 1 - Math.exp(-delta * SMOOTHING_RATE);
+    displayedJoints.current = displayedJoints.current.map(
+      (value, index) => value + ((joints[index] || 0) - value) * alpha
+    );
+
+    const frames = forwardKinematicsFrames(displayedJoints.current).map(frame => toThreeMatrix(frame));
+    const params = ROBOT_SPECS.kinematics.dh_parameters;
+
+    params.forEach((param, index) => {
+      const frame = frames[index];
+      const origin = new THREE.Vector3().setFromMatrixPosition(frame);
+      const zAxis = new THREE.Vector3().setFromMatrixColumn(frame, 2);
+      const elbow = origin.clone().addScaledVector(zAxis, param.d);
+      const next = new THREE.Vector3().setFromMatrixPosition(frames[index + 1]);
+
+      // 조인트 i 의 회전축 = 프레임 i-1 의 z축
+      const housing = housingRefs.current[index];
+      if (housing) {
+        housing.matrix.multiplyMatrices(frame, CYLINDER_TO_Z);
+      }
+
+      const dSegment = segmentRefs.current[index * 2];
+      const aSegment = segmentRefs.current[index * 2 + 1];
+      if (dSegment) placeSegment(dSegment, origin, elbow);
+      if (aSegment) placeSegment(aSegment, elbow, next);
+    });
+
+    if (flangeRef.current) {
+      flangeRef.current.matrix.multiplyMatrices(frames[6], CYLINDER_TO_Z);
+    }
+    if (tcpRef.current) {
+      tcpRef.current.matrix.copy(frames[7]);
     }
   });
 
   return (
-    <group ref={groupRef}>
-      {/* 베이스 */}
-      <mesh position={[0, 0, 0]}>
-        <cylinderGeometry args={[0.5, 0.6, 0.3, 16]} />
-        <meshStandardMaterial color="#2563eb" />
-      </mesh>
-      
-      {/* 조인트 1 - 베이스 회전 */}
-      <group rotation={[0, jointAngles[0] || 0, 0]}>
-        <mesh position={[0, 0.4, 0]}>
-          <cylinderGeometry args={[0.3, 0.3, 0.5, 16]} />
-          <meshStandardMaterial color="#1e40af" />
+    <group>
+      {JOINT_HOUSINGS.map((housing, index) => (
+        <mesh
+          key={`housing-${index}`}
+          ref={el => { housingRefs.current[index] = el; }}
+          matrixAutoUpdate={false}
+          castShadow={!ghost}
+        >
+          <cylinderGeometry args={[housing.radius, housing.radius, housing.length, 24]} />
+          <meshStandardMaterial {...material.housing} />
         </mesh>
-        
-        {/* 조인트 2 - 어깨 */}
-        <group position={[0, 0.65, 0]} rotation={[0, 0, jointAngles[1] || 0]}>
-          <mesh position={[0.4, 0, 0]}>
-            <boxGeometry args={[0.8, 0.2, 0.2]} />
-            <meshStandardMaterial color="#3b82f6" />
-          </mesh>
-          
-          {/* 조인트 3 - 상완 */}
-          <group position={[0.8, 0, 0]} rotation={[0, 0, jointAngles[2] || 0]}>
-            <mesh position={[0.35, 0, 0]}>
-              <boxGeometry args={[0.7, 0.15, 0.15]} />
-              <meshStandardMaterial color="#60a5fa" />
-            </mesh>
-            
-            {/* 조인트 4 - 전완 회전 */}
-            <group position={[0.7, 0, 0]} rotation={[jointAngles[3] || 0, 0, 0]}>
-              <mesh position={[0.25, 0, 0]}>
-                <cylinderGeometry args={[0.08, 0.08, 0.5, 12]} />
-                <meshStandardMaterial color="#93c5fd" />
-              </mesh>
-              
-              {/* 조인트 5 - 손목 피치 */}
-              <group position={[0.5, 0, 0]} rotation={[0, 0, jointAngles[4] || 0]}>
-                <mesh>
-                  <sphereGeometry args={[0.1, 12, 8]} />
-                  <meshStandardMaterial color="#bfdbfe" />
-                </mesh>
-                
-                {/* 조인트 6 - 엔드 이펙터 */}
-                <group rotation={[0, 0, jointAngles[5] || 0]}>
-                  <mesh position={[0, 0, 0.15]}>
-                    <cylinderGeometry args={[0.06, 0.06, 0.3, 8]} />
-                    <meshStandardMaterial color="#dbeafe" />
-                  </mesh>
-                  
-                  {/* 그리퍼 */}
-                  <mesh position={[0.05, 0, 0.3]}>
-                    <boxGeometry args={[0.1, 0.02, 0.1]} />
-                    <meshStandardMaterial color="#ef4444" />
-                  </mesh>
-                  <mesh position={[-0.05, 0, 0.3]}>
-                    <boxGeometry args={[0.1, 0.02, 0.1]} />
-                    <meshStandardMaterial color="#ef4444" />
-                  </mesh>
-                </group>
-              </group>
-            </group>
-          </group>
-        </group>
+      ))}
+
+      {Array.from({ length: 12 }, (_, index) => (
+        <mesh
+          key={`segment-${index}`}
+          ref={el => { segmentRefs.current[index] = el; }}
+          castShadow={!ghost}
+        >
+          <cylinderGeometry args={[LINK_RADIUS[Math.floor(index / 2)], LINK_RADIUS[Math.floor(index / 2)], 1, 16]} />
+          <meshStandardMaterial {...material.link} />
+        </mesh>
+      ))}
+
+      {/* 툴 플랜지 */}
+      <mesh ref={flangeRef} matrixAutoUpdate={false}>
+        <cylinderGeometry args={[32, 32, 12, 24]} />
+        <meshStandardMaterial {...material.flange} />
+      </mesh>
+
+      {/* TCP 좌표축 */}
+      <group ref={tcpRef} matrixAutoUpdate={false} visible={showTcpAxes}>
+        <axesHelper args={[120]} />
+        {tcpLabel && (
+          <Html position={[0, 0, 140]} center>
+            <div className="px-1 text-xs font-mono text-gray-700 bg-white/70 rounded whitespace-nowrap">
+              {tcpLabel}
+            </div>
+          </Html>
+        )}
       </group>
     </group>
   );
 }
 
+// 사양 좌표계 (base / work) 표시
+function CoordinateFrame({ matrix, label, size = 150 }: { matrix: Matrix4; label: string; size?: number }) {
+  const threeMatrix = useMemo(() => toThreeMatrix(matrix), [matrix]);
+
+  return (
+    <group matrix={threeMatrix} matrixAutoUpdate={false}>
+      <axesHelper args={[size]} />
+      <Html position={[0, 0, size * 0.2]} center>
+        <div className="px-1 text-xs font-mono text-gray-700 bg-white/70 rounded whitespace-nowrap">
+          {label}
+        </div>
+      </Html>
+    </group>
+  );
+}
+
 export const Robot3DViewer: React.FC = () => {
   const { robotState } = useRobotState();
-  const [cameraPosition, setCameraPosition] = useState<[number, number, number]>([3, 3, 3]);
+  const [cameraKey, setCameraKey] = useState(0);
   const [showGrid, setShowGrid] = useState(true);
-  const [showAxes, setShowAxes] = useState(true);
+  const [showFrames, setShowFrames] = useState(true);
+  const [showGhost, setShowGhost] = useState(true);
+
+  const specFrames = useMemo(() => getSpecFrameTransforms(), []);
+  const jointPositions = robotState.jointPositions;
+  const pendingTarget = robotState.pendingTarget;
+  const hasGhost = showGhost && !!pendingTarget && pendingTarget.joints.some(
+    (value, index) => Math.abs(value - (jointPositions[index] || 0)) > GHOST_MIN_DIFFERENCE
+  );
+  const tcp = robotState.endEffectorPosition;
 
   return (
     <div className="relative w-full h-96 bg-gray-100 dark:bg-gray-800 rounded-lg overflow-hidden">
@@ -110,25 +208,35 @@ export const Robot3DViewer: React.FC = () => {
         <button
           onClick={() => setShowGrid(!showGrid)}
           className={`px-3 py-1 text-xs rounded ${
-            showGrid 
-              ? 'bg-blue-500 text-white' 
+            showGrid
+              ? 'bg-blue-500 text-white'
               : 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
           }`}
         >
           그리드
         </button>
         <button
-          onClick={() => setShowAxes(!showAxes)}
+          onClick={() => setShowFrames(!showFrames)}
+          className={`px-3 py-1 text-xs rounded ${
+            showFrames
+              ? 'bg-blue-500 text-white'
+              : 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+          }`}
+        >
+          좌표계
+        </button>
+        <button
+          onClick={() => setShowGhost(!showGhost)}
           className={`px-3 py-1 text-xs rounded ${
-            showAxes 
-              ? 'bg-blue-500 text-white' 
+            showGhost
+              ? 'bg-blue-500 text-white'
               : 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
           }`}
         >
-          축
+          목표 미리보기
         </button>
         <button
-          onClick={() => setCameraPosition([3, 3, 3])}
+          onClick={() => setCameraKey(key => key + 1)}
           className="px-3 py-1 text-xs rounded bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600"
         >
           초기화
@@ -139,18 +247,30 @@ export const Robot3DViewer: React.FC = () => {
       <div className="absolute bottom-4 left-4 z-10 bg-black/20 backdrop-blur-sm rounded-lg p-3 text-white text-sm">
         <div className="font-semibold mb-2">조인트 각도 (도)</div>
         <div className="grid grid-cols-3 gap-2 text-xs">
-          {robotState.jointPositions.map((angle, index) => (
-            <div key={index} className="flex justify-between">
+          {jointPositions.map((angle, index) => (
+            <div key={index} className="flex justify-between gap-1">
               <span>J{index + 1}:</span>
-              <span className="font-mono">{angle.toFixed(1)}°</span>
+              <span className="font-mono">
+                {angle.toFixed(1)}°
+                {hasGhost && pendingTarget && (
+                  <span className="text-cyan-200"> → {pendingTarget.joints[index].toFixed(1)}°</span>
+                )}
+              </span>
             </div>
           ))}
         </div>
+        {tcp && (
+          <div className="mt-2 text-xs font-mono">
+            TCP ({robotState.endEffectorSource === 'reported' ? '보고값' : 'FK'}):{' '}
+            {tcp.x.toFixed(1)}, {tcp.y.toFixed(1)}, {tcp.z.toFixed(1)} mm
+          </div>
+        )}
       </div>
 
       {/* Three.js Canvas */}
       <Canvas
-        camera={{ position: cameraPosition, fov: 60 }}
+        key={cameraKey}
+        camera={{ position: [1.6, 1.2, 1.6], fov: 50, near: 0.01, far: 100 }}
         shadows
         gl={{ antialias: true, alpha: true }}
         style={{ background: 'linear-gradient(to bottom, #f0f9ff, #e0e7ff)' }}
@@ -165,51 +285,47 @@ export const Robot3DViewer: React.FC = () => {
           shadow-mapSize-height={2048}
         />
         <pointLight position={[-10, -10, -10]} intensity={0.3} />
-        
+
         {/* 환경 */}
         <Environment preset="warehouse" />
-        
-        {/* 그리드 */}
+
+        {/* 그리드 (0.1 m 셀) */}
         {showGrid && (
           <Grid
-            args={[10, 10]}
-            cellSize={0.5}
+            args={[4, 4]}
+            cellSize={0.1}
             cellThickness={0.5}
             cellColor="#6b7280"
-            sectionSize={5}
+            sectionSize={0.5}
             sectionThickness={1}
             sectionColor="#374151"
-            fadeDistance={30}
+            fadeDistance={10}
             fadeStrength={1}
             followCamera={false}
             infiniteGrid
           />
         )}
-        
-        {/* 좌표축 */}
-        {showAxes && (
-          <group>
-            {/* X축 - 빨강 */}
-            <mesh position={[0.5, 0, 0]}>
-              <cylinderGeometry args={[0.01, 0.01, 1, 8]} />
-              <meshBasicMaterial color="#ef4444" />
-            </mesh>
-            {/* Y축 - 초록 */}
-            <mesh position={[0, 0.5, 0]} rotation={[0, 0, Math.PI / 2]}>
-              <cylinderGeometry args={[0.01, 0.01, 1, 8]} />
-              <meshBasicMaterial color="#22c55e" />
-            </mesh>
-            {/* Z축 - 파랑 */}
-            <mesh position={[0, 0, 0.5]} rotation={[Math.PI / 2, 0, 0]}>
-              <cylinderGeometry args={[0.01, 0.01, 1, 8]} />
-              <meshBasicMaterial color="#3b82f6" />
-            </mesh>
-          </group>
-        )}
-        
-        {/* 로봇 모델 */}
-        <RobotModel jointPositions={robotState.jointPositions} />
-        
+
+        {/* 로봇 좌표계 (Z-up, mm) → Three.js (Y-up, m) */}
+        <group rotation={[-Math.PI / 2, 0, 0]} scale={MM_TO_M}>
+          <RobotArm
+            joints={jointPositions}
+            showTcpAxes={showFrames}
+            tcpLabel={showFrames ? ROBOT_SPECS.coordinate_systems.tool.name : undefined}
+          />
+
+          {hasGhost && pendingTarget && (
+            <RobotArm joints={pendingTarget.joints} ghost showTcpAxes={showFrames} />
+          )}
+
+          {showFrames && (
+            <>
+              <CoordinateFrame matrix={specFrames.base} label={ROBOT_SPECS.coordinate_systems.base.name} size={250} />
+              <CoordinateFrame matrix={specFrames.work} label={ROBOT_SPECS.coordinate_systems.work.name} />
+            </>
+          )}
+        </group>
+
         {/* 카메라 컨트롤 */}
         <OrbitControls
           enablePan={true}
@@ -217,12 +333,13 @@ export const Robot3DViewer: React.FC = () => {
           enableRotate={true}
           dampingFactor={0.05}
           autoRotate={false}
-          maxDistance={20}
-          minDistance={1}
+          target={[0, 0.4, 0]}
+          maxDistance={10}
+          minDistance={0.3}
         />
       </Canvas>
     </div>
   );
 };
 
-export default Robot3DViewer;
\ No newline at end of file
+export default Robot3DViewer;
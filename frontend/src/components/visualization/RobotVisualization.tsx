@@ -1,13 +1,12 @@
 // 로봇 시각화 컴포넌트
 import React from 'react';
+import Robot3DViewer from './Robot3DViewer';
 
 const RobotVisualization: React.FC = () => {
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg p-4">
       <h3 className="text-lg font-semibold mb-4">로봇 시각화</h3>
-      <div className="h-64 flex items-center justify-center text-gray-500">
-        3D 로봇 시각화 구현 예정
-      </div>
+      <Robot3DViewer />
     </div>
   );
 };
@@ -0,0 +1,150 @@
+/**
+ * 저울 필터 비교 - scale/* 채널 오버레이 차트와 raw 대비 지연/노이즈/계단 응답 지표
+ * 공식 필터 선택 시 앱 전체 무게 값(weightSensor)이 해당 채널로 전환됨
+ */
+import React, { useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Filter } from 'lucide-react';
+import { ScaleFilterChartPoint, ScaleFilterMetrics, ScaleFilterType } from '../../types/sensorTypes';
+import { CHART_COLORS, SCALE_FILTER_TYPES } from '../../config';
+import { formatTime } from '../../utils';
+
+export const SCALE_FILTER_LABELS: Record<ScaleFilterType, string> = {
+  raw: '원시값',
+  moving_average: '이동 평균',
+  exponential_average: '지수 평균',
+  kalman_simple: '칼만 (단순)',
+  kalman_pv: '칼만 (위치-속도)',
+  ekf: 'EKF',
+  ukf: 'UKF'
+};
+
+interface ScaleFilterComparisonProps {
+  data: ScaleFilterChartPoint[];
+  metrics: ScaleFilterMetrics[];
+  officialFilter: ScaleFilterType;
+  onOfficialFilterChange: (filter: ScaleFilterType) => void;
+  className?: string;
+}
+
+const colorOf = (filter: ScaleFilterType): string =>
+  CHART_COLORS[SCALE_FILTER_TYPES.indexOf(filter) % CHART_COLORS.length];
+
+const formatMetric = (value: number | null | undefined, digits: number, unit: string): string =>
+  value === null || value === undefined ? '--' : `${value.toFixed(digits)} ${unit}`;
+
+const ScaleFilterComparison: React.FC<ScaleFilterComparisonProps> = ({
+  data,
+  metrics,
+  officialFilter,
+  onOfficialFilterChange,
+  className = ''
+}) => {
+  const [hidden, setHidden] = useState<ScaleFilterType[]>([]);
+  const activeFilters = SCALE_FILTER_TYPES.filter(filter => metrics.some(metric => metric.filter === filter));
+
+  const toggleVisible = (filter: ScaleFilterType) => {
+    setHidden(prev => (prev.includes(filter) ? prev.filter(existing => existing !== filter) : [...prev, filter]));
+  };
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <Filter className="w-6 h-6 text-purple-600 mr-2" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">저울 필터 비교</h3>
+        </div>
+        <span className="text-sm text-gray-500 dark:text-gray-400">
+          공식 무게: <span className="font-medium text-gray-900 dark:text-white">{SCALE_FILTER_LABELS[officialFilter]}</span>
+        </span>
+      </div>
+
+      {activeFilters.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">scale/* 토픽 데이터를 기다리는 중입니다</p>
+      ) : (
+        <>
+          <div className="h-72 mb-4">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={data}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="timestamp"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={(value: number) => formatTime(value)}
+                />
+                <YAxis unit="g" />
+                <Tooltip labelFormatter={(value: number) => formatTime(value)} />
+                <Legend />
+                {activeFilters.filter(filter => !hidden.includes(filter)).map(filter => (
+                  <Line
+                    key={filter}
+                    type="monotone"
+                    dataKey={filter}
+                    name={SCALE_FILTER_LABELS[filter]}
+                    stroke={colorOf(filter)}
+                    strokeWidth={filter === officialFilter ? 3 : 1.5}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400">
+                  <th className="py-2 pr-4">공식</th>
+                  <th className="py-2 pr-4">필터</th>
+                  <th className="py-2 pr-4">지연</th>
+                  <th className="py-2 pr-4">노이즈 (σ)</th>
+                  <th className="py-2 pr-4">상승 시간</th>
+                  <th className="py-2 pr-4">오버슈트</th>
+                  <th className="py-2 pr-4">정착 시간</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-900 dark:text-white">
+                {metrics.map(metric => (
+                  <tr key={metric.filter} className="border-t border-gray-100 dark:border-gray-700">
+                    <td className="py-2 pr-4">
+                      <input
+                        type="radio"
+                        name="official-scale-filter"
+                        checked={metric.filter === officialFilter}
+                        onChange={() => onOfficialFilterChange(metric.filter)}
+                      />
+                    </td>
+                    <td className="py-2 pr-4">
+                      <label className="flex items-center cursor-pointer">
+                        <input
+                          type="checkbox"
+                          className="mr-2"
+                          checked={!hidden.includes(metric.filter)}
+                          onChange={() => toggleVisible(metric.filter)}
+                        />
+                        <span className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: colorOf(metric.filter) }} />
+                        {SCALE_FILTER_LABELS[metric.filter]}
+                      </label>
+                    </td>
+                    <td className="py-2 pr-4 font-mono">{formatMetric(metric.lag, 0, 'ms')}</td>
+                    <td className="py-2 pr-4 font-mono">{formatMetric(metric.noise, 3, 'g')}</td>
+                    <td className="py-2 pr-4 font-mono">{formatMetric(metric.step?.riseTime, 2, 's')}</td>
+                    <td className="py-2 pr-4 font-mono">{formatMetric(metric.step?.overshoot, 1, '%')}</td>
+                    <td className="py-2 pr-4 font-mono">{formatMetric(metric.step?.settlingTime, 2, 's')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              지연: raw 와의 상호상관 기준 · 노이즈: 최근 구간 추세 제거 후 표준편차 · 계단 응답: raw 의 최근 계단 변화 기준
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ScaleFilterComparison;
@@ -1,15 +1,157 @@
-import React from 'react';
+/**
+ * 센서 히스토리 차트 - IndexedDB 롤업(timeSeriesStore)에서 선택 범위를 조회해 평균과 최소/최대를 표시
+ * 범위에 따라 1s/1m/1h 해상도가 자동 선택되며 새로고침 후에도 이전 기록이 유지됨
+ */
+import React, { useCallback, useEffect, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { History } from 'lucide-react';
+import { SensorHistoryRange, TimeSeriesQueryResult, TimeSeriesResolution } from '../../types/sensorTypes';
+import { timeSeriesStore } from '../../services/timeSeriesStore';
+import { HISTORY_RANGE_MS, isHistoryRange } from '../../utils/timeSeries';
+import { formatDateTime, formatTime } from '../../utils';
 
-interface Props {
+interface SensorHistoryChartProps {
   timeRange?: string;
-  [key: string]: any;
+  className?: string;
 }
 
-const SensorHistoryChart: React.FC<Props> = (props) => {
+const SENSORS: Array<{ id: string; label: string; unit: string; color: string }> = [
+  { id: 'weight', label: '무게', unit: 'g', color: '#3b82f6' },
+  { id: 'concentration', label: '농도', unit: '%', color: '#10b981' }
+];
+
+const RESOLUTION_LABELS: Record<TimeSeriesResolution, string> = {
+  '1s': '1초',
+  '1m': '1분',
+  '1h': '1시간'
+};
+
+const REFRESH_INTERVAL = 10000; // ms
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const SensorHistoryChart: React.FC<SensorHistoryChartProps> = ({ timeRange = '1h', className = '' }) => {
+  const range: SensorHistoryRange = isHistoryRange(timeRange) ? timeRange : '1h';
+  const [sensorId, setSensorId] = useState(SENSORS[0].id);
+  const [result, setResult] = useState<TimeSeriesQueryResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const sensor = SENSORS.find(item => item.id === sensorId) || SENSORS[0];
+
+  const load = useCallback(async () => {
+    const to = Date.now();
+    setIsLoading(true);
+    try {
+      setResult(await timeSeriesStore.query(sensorId, to - HISTORY_RANGE_MS[range], to));
+    } catch (error) {
+      console.error('❌ 센서 히스토리 조회 오류:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sensorId, range]);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  const points = result?.points || [];
+  const data = points.map(point => ({
+    timestamp: point.timestamp,
+    avg: round(point.avg),
+    min: round(point.min),
+    max: round(point.max)
+  }));
+  const summary = points.length > 0
+    ? {
+      min: Math.min(...points.map(point => point.min)),
+      max: Math.max(...points.map(point => point.max)),
+      avg: points.reduce((sum, point) => sum + point.avg * point.count, 0) /
+        points.reduce((sum, point) => sum + point.count, 0)
+    }
+    : null;
+  const multiDay = HISTORY_RANGE_MS[range] > HISTORY_RANGE_MS['24h'];
+  const formatTick = (value: number) => (multiDay ? formatDateTime(value) : formatTime(value));
+
   return (
-    <div className="p-4 bg-white dark:bg-gray-800 rounded-lg">
-      <h3 className="text-lg font-semibold mb-4">SensorHistoryChart</h3>
-      <p>SensorHistoryChart 컴포넌트 (구현 예정)</p>
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <History className="w-6 h-6 text-indigo-600 mr-2" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">센서 히스토리</h3>
+          {result && (
+            <span className="ml-3 text-sm text-gray-500 dark:text-gray-400">
+              {RESOLUTION_LABELS[result.resolution]} 단위 · {points.length}개 구간
+            </span>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          {SENSORS.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => setSensorId(id)}
+              className={`px-3 py-1 text-sm rounded-lg transition-colors ${
+                sensorId === id
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {data.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {isLoading ? '히스토리를 불러오는 중입니다' : '선택한 범위에 저장된 데이터가 없습니다'}
+        </p>
+      ) : (
+        <>
+          <div className="h-72 mb-4">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={data}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="timestamp"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={formatTick}
+                />
+                <YAxis unit={sensor.unit} />
+                <Tooltip labelFormatter={(value: number) => formatDateTime(value)} />
+                <Legend />
+                <Line type="monotone" dataKey="avg" name="평균" stroke={sensor.color} dot={false} isAnimationActive={false} />
+                <Line type="monotone" dataKey="max" name="최대" stroke="#ef4444" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+                <Line type="monotone" dataKey="min" name="최소" stroke="#f59e0b" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          {summary && (
+            <div className="grid grid-cols-3 gap-4 text-sm">
+              {[
+                { label: '최소', value: summary.min },
+                { label: '평균', value: summary.avg },
+                { label: '최대', value: summary.max }
+              ].map(({ label, value }) => (
+                <div key={label} className="flex justify-between px-3 py-2 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                  <span className="text-gray-600 dark:text-gray-400">{label}</span>
+                  <span className="font-semibold text-gray-900 dark:text-white">
+                    {round(value)} {sensor.unit}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      {!timeSeriesStore.isPersistent() && (
+        <p className="mt-3 text-xs text-yellow-600 dark:text-yellow-400">
+          IndexedDB 를 사용할 수 없어 현재 세션의 데이터만 표시됩니다
+        </p>
+      )}
     </div>
   );
 };
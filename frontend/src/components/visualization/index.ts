@@ -15,4 +15,5 @@ export {
 // 추가 시각화 컴포넌트들
 export { default as DataGrid } from './DataGrid';
 export { default as HeatMap } from './HeatMap';
-export { default as GaugeChart } from './GaugeChart';
\ No newline at end of file
+export { default as GaugeChart } from './GaugeChart';
+export { default as ScaleFilterComparison } from './ScaleFilterComparison';
@@ -3,6 +3,8 @@
  * 새로운 통합 타입 시스템과 완벽하게 호환
  */
 import { AppConfig } from './types/robotTypes';
+import { ScaleFilterType, SensorAlarmRule, SensorConfig } from './types/sensorTypes';
+import { SPEC_JOINT_KEYS, getSpecJointLimits, getSpecMaxReach } from './utils/robotSpecs';
 
 // 환경 변수 기본값
 const CONFIG: AppConfig = {
@@ -38,6 +40,7 @@ const CONFIG: AppConfig = {
   MQTT: {
     brokerUrl: process.env.REACT_APP_MQTT_BROKER_URL || 'ws://localhost:8080',
     clientId: process.env.REACT_APP_MQTT_CLIENT_ID || `robot_dashboard_${Date.now()}`,
+    transport: process.env.REACT_APP_MQTT_TRANSPORT === 'paho' ? 'paho' : 'backend',
     keepalive: 60,
     reconnectPeriod: 1000,
     clean: true
@@ -67,21 +70,19 @@ const CONFIG: AppConfig = {
   }
 };
 
-// 조인트 제한값 (Doosan M0609 기준)
-export const JOINT_LIMITS = [
-  { min: -360, max: 360, name: 'Base' },      // J1
-  { min: -95, max: 95, name: 'Shoulder' },    // J2
-  { min: -180, max: 180, name: 'Elbow' },     // J3
-  { min: -360, max: 360, name: 'Wrist1' },    // J4
-  { min: -180, max: 180, name: 'Wrist2' },    // J5
-  { min: -360, max: 360, name: 'Wrist3' }     // J6
-];
+// 조인트 제한값 (Doosan M0609 기준, configs/robot/m0609_specs.json)
+const JOINT_NAMES = ['Base', 'Shoulder', 'Elbow', 'Wrist1', 'Wrist2', 'Wrist3'];
+export const JOINT_LIMITS = getSpecJointLimits().map((limit, index) => ({
+  ...limit,
+  name: JOINT_NAMES[index]
+}));
 
-// 카르테시안 작업공간 제한값
+// 카르테시안 작업공간 외곽 (정밀 검사는 services/motionValidator)
+const MAX_REACH = getSpecMaxReach();
 export const CARTESIAN_LIMITS = {
-  x: { min: -1000, max: 1000 },   // mm
-  y: { min: -1000, max: 1000 },   // mm
-  z: { min: 0, max: 1000 },       // mm
+  x: { min: -MAX_REACH, max: MAX_REACH }, // mm
+  y: { min: -MAX_REACH, max: MAX_REACH }, // mm
+  z: { min: 0, max: MAX_REACH + 135 },   // mm (어깨 높이 135 mm + 최대 도달 거리)
   rx: { min: -180, max: 180 },    // degrees
   ry: { min: -180, max: 180 },    // degrees
   rz: { min: -180, max: 180 }     // degrees
@@ -118,73 +119,169 @@ export const CHART_COLORS = [
   '#8b5cf6', '#06b6d4', '#ec4899', '#84cc16'
 ];
 
-// MQTT 토픽 설정 - 정밀 수정된 토픽 매핑
-export const MQTT_TOPICS = {
-  WEIGHT_SENSOR: 'test',              // 무게센서 데이터 (아두이노)
-  ROS2_TOPICS: 'ros2_topic_list',                     // ROS2 토픽 리스트 (모든 토픽 JSON 형식)
-  CONCENTRATION: 'web/target_concentration', // 농도 목표값 (웹 인터페이스)
-  ROBOT_CONTROL: 'robot/control/+',        // 로봇 제어 명령
-  SYSTEM_HEALTH: 'system/health',          // 시스템 상태
-  
-  // 하위 호환성 유지
-  ROBOT_STATUS: 'robot/status',
-  ROBOT_JOINTS: 'robot/joint_positions',
-  ROBOT_ERROR: 'robot/error',
-  SYSTEM_PING: 'system/ping'
+// MQTT 토픽은 topicRegistry 가 configs/mqtt/topic_mapping.json 기준으로 논리 채널 이름에 매핑
+
+// 저울 퍼블리셔 필터 채널 (scale/<filter>) - raw 는 지표 계산 기준
+export const SCALE_FILTER_TYPES: ScaleFilterType[] = [
+  'raw',
+  'moving_average',
+  'exponential_average',
+  'kalman_simple',
+  'kalman_pv',
+  'ekf',
+  'ukf'
+];
+
+// 공식 무게로 사용할 기본 필터 (mqtt_processor best_filter 와 동일)
+export const DEFAULT_OFFICIAL_SCALE_FILTER: ScaleFilterType = 'kalman_pv';
+
+// 기본 센서 알람 규칙 (무게: 공식 필터 g, 농도: sensors/concentration/current %)
+export const DEFAULT_SENSOR_ALARM_RULES: SensorAlarmRule[] = [
+  {
+    id: 'weight_overload',
+    sensorId: 'weight',
+    sensorName: '무게',
+    unit: 'g',
+    kind: 'threshold',
+    enabled: true,
+    thresholds: { warning: { max: 250 }, critical: { max: 300 } },
+    hysteresis: 5,
+    onDelay: 500,
+    offDelay: 2000,
+    autoReset: false
+  },
+  {
+    id: 'weight_pour_rate',
+    sensorId: 'weight',
+    sensorName: '무게',
+    unit: 'g',
+    kind: 'rate',
+    enabled: true,
+    thresholds: { warning: { max: 40 }, critical: { max: 80 } },
+    direction: 'rise',
+    rateWindow: 1000,
+    hysteresis: 5,
+    onDelay: 300,
+    offDelay: 1000,
+    autoReset: true
+  },
+  {
+    id: 'weight_stale',
+    sensorId: 'weight',
+    sensorName: '무게',
+    unit: 'g',
+    kind: 'stale',
+    enabled: true,
+    staleAfter: 5000,
+    staleSeverity: 'warning',
+    hysteresis: 0,
+    onDelay: 0,
+    offDelay: 0,
+    autoReset: true
+  },
+  {
+    id: 'concentration_range',
+    sensorId: 'concentration',
+    sensorName: '농도',
+    unit: '%',
+    kind: 'threshold',
+    enabled: true,
+    thresholds: { warning: { min: 10, max: 60 }, critical: { min: 5, max: 80 } },
+    hysteresis: 1,
+    onDelay: 3000,
+    offDelay: 3000,
+    autoReset: true
+  },
+  {
+    id: 'concentration_stale',
+    sensorId: 'concentration',
+    sensorName: '농도',
+    unit: '%',
+    kind: 'stale',
+    enabled: true,
+    staleAfter: 5000,
+    staleSeverity: 'warning',
+    hysteresis: 0,
+    onDelay: 0,
+    offDelay: 0,
+    autoReset: true
+  }
+];
+
+// 센서 히스토리 저장 설정 (timeSeriesStore - retention 일수만큼 IndexedDB 롤업 보관)
+// 시리즈 ID: weight / concentration / scale/<filter> / joint/<name>
+export const DEFAULT_SENSOR_DATA_LOGGING: Record<string, SensorConfig['dataLogging']> = {
+  weight: { enabled: true, interval: 1, retention: 7 },
+  concentration: { enabled: true, interval: 1, retention: 7 },
+  ...SCALE_FILTER_TYPES.reduce<Record<string, SensorConfig['dataLogging']>>((configs, filter) => ({
+    ...configs,
+    [`scale/${filter}`]: { enabled: true, interval: 1, retention: 3 }
+  }), {}),
+  ...SPEC_JOINT_KEYS.reduce<Record<string, SensorConfig['dataLogging']>>((configs, joint) => ({
+    ...configs,
+    [`joint/${joint}`]: { enabled: true, interval: 1, retention: 3 }
+  }), {})
 };
 
-// 설정 유효성 검사
-const validateConfig = (): { isValid: boolean; errors: string[] } => {
+// 설정 유효성 검사 규칙 (설정 페이지 저장 시에도 동일 규칙 사용)
+export const getConfigErrors = (target: AppConfig): string[] => {
   const errors: string[] = [];
   
   // 필수 URL 검사
   try {
-    new URL(CONFIG.API_BASE_URL);
+    new URL(target.API_BASE_URL);
   } catch {
     errors.push('Invalid API_BASE_URL');
   }
   
   try {
-    new URL(CONFIG.WS_URL);
+    new URL(target.WS_URL);
   } catch {
     errors.push('Invalid WS_URL');
   }
   
   // 포트 번호 검사
-  if (CONFIG.ROBOT_PORT < 1 || CONFIG.ROBOT_PORT > 65535) {
+  if (target.ROBOT_PORT < 1 || target.ROBOT_PORT > 65535) {
     errors.push('Invalid ROBOT_PORT range');
   }
   
   // 업데이트 주기 검사
-  Object.entries(CONFIG.UPDATE_INTERVALS).forEach(([key, interval]) => {
+  Object.entries(target.UPDATE_INTERVALS).forEach(([key, interval]) => {
     if (interval < 10 || interval > 60000) {
       errors.push(`Invalid update interval for ${key}: ${interval}`);
     }
   });
   
   // MQTT 설정 검사
-  if (!CONFIG.MQTT.clientId || CONFIG.MQTT.clientId.length === 0) {
+  if (!target.MQTT.clientId || target.MQTT.clientId.length === 0) {
     errors.push('Invalid MQTT client ID');
   }
   
-  if (CONFIG.MQTT.keepalive < 10 || CONFIG.MQTT.keepalive > 300) {
+  if (target.MQTT.keepalive < 10 || target.MQTT.keepalive > 300) {
     errors.push('Invalid MQTT keepalive period');
   }
   
   // 차트 설정 검사
-  if (CONFIG.CHART.MAX_DATA_POINTS < 10 || CONFIG.CHART.MAX_DATA_POINTS > 1000) {
+  if (target.CHART.MAX_DATA_POINTS < 10 || target.CHART.MAX_DATA_POINTS > 1000) {
     errors.push('Invalid chart max data points');
   }
   
   // 임계값 검사
-  if (CONFIG.THRESHOLDS.WEIGHT_MIN >= CONFIG.THRESHOLDS.WEIGHT_MAX) {
+  if (target.THRESHOLDS.WEIGHT_MIN >= target.THRESHOLDS.WEIGHT_MAX) {
     errors.push('Invalid weight thresholds');
   }
   
-  if (CONFIG.THRESHOLDS.CONCENTRATION_MIN >= CONFIG.THRESHOLDS.CONCENTRATION_MAX) {
+  if (target.THRESHOLDS.CONCENTRATION_MIN >= target.THRESHOLDS.CONCENTRATION_MAX) {
     errors.push('Invalid concentration thresholds');
   }
   
+  return errors;
+};
+
+// 설정 유효성 검사
+const validateConfig = (): { isValid: boolean; errors: string[] } => {
+  const errors = getConfigErrors(CONFIG);
+  
   if (errors.length > 0) {
     console.error('⚠️ Configuration validation errors:', errors);
   } else {
@@ -1,8 +1,12 @@
 /**
- * MQTT 컨텍스트 - 브라우저 호환 paho-mqtt 기반
+ * MQTT 컨텍스트 - 연결 관리자(connectionManager)의 공유 연결 사용
  */
 import React, { createContext, useContext, useEffect, useState, useRef, useCallback } from 'react';
-import { BrowserMqttService } from '../services/mqttService';
+import toast from 'react-hot-toast';
+import DataProcessorService from '../services/dataProcessor';
+import { topicRegistry } from '../services/topicRegistry';
+import { TopicChannel } from '../types/topicTypes';
+import { SensorAlarmRecord } from '../types/sensorTypes';
 import { 
   MqttMessage, 
   WeightSensorMessage, 
@@ -12,10 +16,23 @@ import {
   ConnectionStatus,
   Timestamp
 } from '../types/robotTypes';
+import { useRobotStore } from '../store/robotStore';
+import { pouringSessionService } from '../services/pouringSessionService';
+import { scaleFilterService } from '../services/scaleFilterService';
+import { sensorAlarmService } from '../services/sensorAlarmService';
+import { timeSeriesStore } from '../services/timeSeriesStore';
+import { customChartService } from '../services/customChartService';
+import { mqttInspectorService } from '../services/mqttInspectorService';
+import { settingsService } from '../services/settingsService';
+import { connectionWatchdog } from '../services/connectionWatchdog';
+import { ros2GraphService } from '../services/ros2GraphService';
+import { replaySession } from '../services/replaySession';
+import { connectionManager } from '../services/connectionManager';
+import { ConnectionManagerStatus, TransportKind } from '../types/transportTypes';
 
 interface MqttContextType {
   // 연결 상태
-  client: BrowserMqttService | null;
+  transport: TransportKind | null;
   isConnected: boolean;
   connectionStatus: ConnectionStatus;
   connectionAttempts: number;
@@ -50,9 +67,28 @@ interface MqttContextType {
 
 const MqttContext = createContext<MqttContextType | undefined>(undefined);
 
+// 기본 구독 채널 (토픽은 topic_mapping.json 에서 결정)
+const SUBSCRIBED_CHANNELS: TopicChannel[] = [
+  'weight',
+  'scaleFilters',
+  'targetConcentration',
+  'concentrationCurrent',
+  'ros2TopicList',
+  'ros2NodeList',
+  'ros2ServiceList',
+  'robotControl',
+  'robotResponse',
+  'robotStatus',
+  'jointStates',
+  'scenarioEvents',
+  'sugarDispensed',
+  'cupPlaced',
+  'pouringAnalysis'
+];
+
 export const MqttProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   // 연결 상태
-  const [client, setClient] = useState<BrowserMqttService | null>(null);
+  const [transport, setTransport] = useState<TransportKind | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('disconnected');
   const [connectionAttempts, setConnectionAttempts] = useState(0);
@@ -71,11 +107,10 @@ export const MqttProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [error, setError] = useState<string | null>(null);
   
   // 내부 상태
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
   const startTimeRef = useRef<number>(Date.now());
   const lastPingRef = useRef<Timestamp | null>(null);
-  const clientIdRef = useRef<string>(`web_dashboard_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
   const brokerUrlRef = useRef<string>('');
+  const dataProcessorRef = useRef(new DataProcessorService());
 
   // 메시지 업데이트 헬퍼
   const updateMessage = useCallback(() => {
@@ -91,43 +126,87 @@ export const MqttProvider: React.FC<{ children: React.ReactNode }> = ({ children
       setLastMessage(message);
       updateMessage();
 
-      // 토픽별 데이터 처리
-      switch (message.topic) {
-        case 'test':  // 무게 센서 토픽 변경
-        case 'sensor/weight':
-          if (message.data && typeof message.data.weight === 'number') {
-            const weightMessage: WeightSensorMessage = {
-              id: 'weight_sensor_01',
-              name: 'Weight Sensor',
-              value: message.data.weight,
-              unit: message.data.unit || 'kg',
-              quality: message.data.quality || 'good',
-              timestamp: message.timestamp,
-              status: message.data.status || 'normal',
-              weight: message.data.weight,
-              processed: message.data.processed || { weight: message.data.weight, smoothed: false }
-            };
-            setWeightSensor(weightMessage);
-          }
+      // 저울 필터 채널 - 공식 필터 값이 weightSensor 를 결정
+      scaleFilterService.handleMessage(message);
+      const officialWeight = scaleFilterService.createWeightMessage(message);
+      if (officialWeight) {
+        setWeightSensor(officialWeight);
+      }
+
+      // 붓기 세션 추적 (cup_placed / scale/* / 농도 / 분석 결과)
+      pouringSessionService.handleMessage(message);
+
+      // 센서 알람 판정 (무게 / 농도)
+      sensorAlarmService.handleMessage(message);
+
+      // 센서 히스토리 저장 (IndexedDB 롤업) - 녹화 재생 데이터는 히스토리에 섞지 않음
+      if (!replaySession.isActive()) {
+        timeSeriesStore.handleMessage(message);
+      }
+
+      // 사용자 정의 차트 (토픽 필드 목록 + 차트 시리즈)
+      customChartService.handleMessage(message);
+
+      // MQTT 인스펙터 (토픽 통계, 메시지 로그, 녹화)
+      mqttInspectorService.handleMessage(message);
+
+      // 채널별 데이터 처리 (토픽 → 채널은 토픽 레지스트리가 결정)
+      const dataProcessor = dataProcessorRef.current;
+      switch (topicRegistry.resolveChannel(message.topic)) {
+        case 'weight': {
+          const weight = topicRegistry.parse('weight', message, dataProcessor);
+          if (weight) setWeightSensor(weight);
           break;
+        }
         
-        case 'web/target_concentration':
-        case 'sensor/concentration':
-          if (message.data && typeof message.data.target === 'number') {
-            const concentrationMessage: ConcentrationMessage = {
-              id: 'concentration_sensor_01',
-              name: 'Concentration Sensor',
-              value: message.data.target,
-              unit: message.data.unit || '%',
-              quality: message.data.quality || 'good',
-              timestamp: message.timestamp,
-              status: message.data.status || 'normal',
-              targetValue: message.data.target,
-              processed: message.data.processed || { target: message.data.target, filtered: false }
-            };
-            setConcentration(concentrationMessage);
+        case 'targetConcentration': {
+          const target = topicRegistry.parse('targetConcentration', message, dataProcessor);
+          if (target) setConcentration(target);
+          break;
+        }
+
+        case 'ros2TopicList': {
+          const topics = topicRegistry.parse('ros2TopicList', message, dataProcessor);
+          if (topics) {
+            setRos2Topics(topics);
+            ros2GraphService.ingestTopicList(topics);
           }
           break;
+        }
+
+        case 'ros2NodeList': {
+          const nodes = topicRegistry.parse('ros2NodeList', message, dataProcessor);
+          if (nodes) ros2GraphService.ingestNodeList(nodes);
+          break;
+        }
+
+        case 'ros2ServiceList': {
+          const services = topicRegistry.parse('ros2ServiceList', message, dataProcessor);
+          if (services) ros2GraphService.ingestServiceList(services);
+          break;
+        }
+
+        case 'robotControl': {
+          const command = topicRegistry.parse('robotControl', message, dataProcessor);
+          if (command) setRobotCommands(prev => [...prev, command].slice(-20));
+          break;
+        }
+        
+        case 'robotResponse': {
+          // 명령 큐 상태 전이 (acknowledged / executing / done / failed)
+          const response = topicRegistry.parse('robotResponse', message, dataProcessor);
+          if (response) useRobotStore.getState().handleCommandResponse(response);
+          break;
+        }
+
+        case 'scaleFilters':
+        case 'concentrationCurrent':
+        case 'scenarioEvents':
+        case 'sugarDispensed':
+        case 'cupPlaced':
+        case 'pouringAnalysis':
+          // 저울 필터 / 붓기 세션 서비스에서 처리
+          break;
         
         default:
           console.log(`📨 MQTT 메시지 수신: ${message.topic}`, message.data);
@@ -138,188 +217,112 @@ export const MqttProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   }, [updateMessage]);
 
-  // MQTT 연결 함수
-  const connectToMqtt = useCallback(() => {
-    setConnectionStatus('connecting');
-    setConnectionAttempts(prev => prev + 1);
-    
-    const brokerHost = 'localhost';
-    const brokerPort = 1884;
-    const clientId = clientIdRef.current;
-    
-    brokerUrlRef.current = `ws://${brokerHost}:${brokerPort}`;
-    
-    try {
-      console.log(`🔄 MQTT 연결 시도: ${brokerUrlRef.current}`);
-      
-      const mqttClient = new BrowserMqttService({
-        host: brokerHost,
-        port: brokerPort,
-        clientId: clientId,
-        useSSL: false,
-        keepAliveInterval: 60,
-        timeout: 30,
-        cleanSession: true
-      });
-      
-      setClient(mqttClient);
-
-      // 이벤트 핸들러 설정
-      mqttClient.onConnected = () => {
-        console.log('✅ MQTT 연결 성공');
-        setIsConnected(true);
-        setConnectionStatus('connected');
-        setError(null);
-        setConnectionAttempts(0);
-        lastPingRef.current = new Date().toISOString();
-        
-        // 기본 토픽 구독
-        const defaultTopics = [
-          'test',  // 무게 센서 토픽
-          'web/target_concentration',
-          'ros2_topic_list',
-          'robot/control/+',
-          'sensor/+',
-          'robot/status'
-        ];
-        
-        defaultTopics.forEach(topic => {
-          mqttClient.subscribe(topic);
-          setSubscriptions(prev => [...new Set([...prev, topic])]);
-        });
-      };
-
-      mqttClient.onConnectionLost = (error: any) => {
-        console.log('📡 MQTT 연결 해제:', error);
-        setIsConnected(false);
-        setConnectionStatus('disconnected');
-        
-        // 자동 재연결
-        if (connectionAttempts < 10) {
-          reconnectTimeoutRef.current = setTimeout(connectToMqtt, 5000);
-        }
-      };
-
-      mqttClient.onError = (err: any) => {
-        console.error('❌ MQTT 오류:', err);
-        
-        // Filter out non-critical WebSocket protocol errors
-        const errorMessage = err.message || '연결 실패';
-        if (errorMessage.includes('Unknown message type') && errorMessage.includes('subscribe')) {
-          console.warn('⚠️ WebSocket 프로토콜 메시지 무시됨:', errorMessage);
-          return; // Don't set error state for protocol messages
-        }
-        
-        setConnectionStatus('disconnected');
-        setIsConnected(false);
-        setError(`MQTT 오류: ${errorMessage}`);
-      };
-
-      // 연결 시작
-      mqttClient.connect().then(() => {
-        // 모든 디폴트 토픽에 대한 메시지 핸들러 등록
-        mqttClient.onMessage('*', handleMessage);
-        mqttClient.onMessage('test', handleMessage);  // 무게 센서 토픽
-        mqttClient.onMessage('web/target_concentration', handleMessage);
-        mqttClient.onMessage('ros2_topic_list', handleMessage);
-        mqttClient.onMessage('robot/control/+', handleMessage);
-        mqttClient.onMessage('sensor/+', handleMessage);
-        mqttClient.onMessage('robot/status', handleMessage);
-      }).catch(console.error);
+  // 센서 알람 발생 알림 (모든 페이지 공통)
+  useEffect(() => {
+    const handleAlarm = (alarm: SensorAlarmRecord) => {
+      const level = settingsService.getSettings().notifications.alarmToasts;
+      if (level === 'none' || (level === 'critical' && alarm.alarmType !== 'critical')) return;
+      if (alarm.alarmType === 'critical') {
+        toast.error(`🚨 ${alarm.message}`, { id: alarm.id, duration: 8000 });
+      } else {
+        toast(`⚠️ ${alarm.message}`, { id: alarm.id });
+      }
+    };
+    sensorAlarmService.onAlarm(handleAlarm);
+    return () => sensorAlarmService.offAlarm(handleAlarm);
+  }, []);
 
-    } catch (error) {
-      console.error('❌ MQTT 연결 실패:', error);
-      setConnectionStatus('disconnected');
-      setError(`연결 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
-    }
-  }, [connectionAttempts, handleMessage]);
+  // 연결 상태 - 연결 관리자 상태를 그대로 반영
+  useEffect(() => {
+    const handleStatus = (status: ConnectionManagerStatus) => {
+      brokerUrlRef.current = status.url ?? '';
+      setTransport(status.transport);
+      setIsConnected(status.status === 'connected');
+      setConnectionStatus(status.status);
+      setConnectionAttempts(status.connectionAttempts);
+      setError(status.lastError ? `MQTT 오류: ${status.lastError}` : null);
+      setSubscriptions(connectionManager.getSubscriptions().map(entry => entry.topic));
+      if (status.status === 'connected') {
+        lastPingRef.current = new Date(status.connectedAt ?? Date.now()).toISOString();
+      }
+    };
+    connectionManager.onChange(handleStatus);
+    handleStatus(connectionManager.getStatus());
+    return () => connectionManager.offChange(handleStatus);
+  }, []);
 
-  // 초기 연결
+  // 공유 연결 - 수신한 모든 메시지는 handleMessage 에서 채널별로 분기, 기본 채널은 참조 카운트 구독
   useEffect(() => {
-    connectToMqtt();
+    connectionManager.onMessage('*', handleMessage);
+    SUBSCRIBED_CHANNELS.forEach(channel => connectionManager.subscribeChannel(channel));
+    connectionManager.connect();
 
     return () => {
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-      }
-      if (client) {
-        console.log('🧹 MQTT 클라이언트 정리');
-        client.disconnect();
-      }
+      connectionManager.offMessage('*', handleMessage);
+      SUBSCRIBED_CHANNELS.forEach(channel => connectionManager.unsubscribeChannel(channel));
     };
+  }, [handleMessage]);
+
+  // 앱 종료 시 연결 해제
+  useEffect(() => () => connectionManager.disconnect(), []);
+
+  // 연결 감시 - 공유 연결을 MQTT 브리지 링크로 등록 (전송 계층이 바뀌어도 같은 probe)
+  useEffect(() => {
+    connectionWatchdog.registerLink('mqtt', connectionManager);
+    return () => connectionWatchdog.unregisterLink('mqtt', connectionManager);
   }, []);
 
-  // 토픽 구독
+  // 토픽 구독 (참조 카운트 - 다른 구독자가 같은 토픽을 쓰고 있으면 실제 구독은 유지)
   const subscribe = useCallback(async (topic: string): Promise<boolean> => {
-    if (client && isConnected) {
-      try {
-        client.subscribe(topic);
-        setSubscriptions(prev => [...new Set([...prev, topic])]);
-        return true;
-      } catch (error) {
-        console.error(`❌ 토픽 구독 실패 ${topic}:`, error);
-        return false;
-      }
+    try {
+      connectionManager.subscribe(topic);
+      return true;
+    } catch (error) {
+      console.error(`❌ 토픽 구독 실패 ${topic}:`, error);
+      return false;
     }
-    return false;
-  }, [client, isConnected]);
+  }, []);
 
   // 토픽 구독 해제
   const unsubscribe = useCallback(async (topic: string): Promise<boolean> => {
-    if (client && isConnected) {
-      try {
-        client.unsubscribe(topic);
-        setSubscriptions(prev => prev.filter(t => t !== topic));
-        return true;
-      } catch (error) {
-        console.error(`❌ 토픽 구독 해제 실패 ${topic}:`, error);
-        return false;
-      }
+    try {
+      connectionManager.unsubscribe(topic);
+      return true;
+    } catch (error) {
+      console.error(`❌ 토픽 구독 해제 실패 ${topic}:`, error);
+      return false;
     }
-    return false;
-  }, [client, isConnected]);
+  }, []);
 
   // 메시지 발행
   const publish = useCallback(async (topic: string, message: any): Promise<boolean> => {
-    if (client && isConnected) {
-      try {
-        const payload = typeof message === 'string' ? message : JSON.stringify(message);
-        client.publish(topic, payload);
-        return true;
-      } catch (error) {
-        console.error(`❌ 메시지 발행 실패 ${topic}:`, error);
-        return false;
-      }
+    try {
+      const payload = typeof message === 'string' ? message : JSON.stringify(message);
+      return connectionManager.publish(topic, payload);
+    } catch (error) {
+      console.error(`❌ 메시지 발행 실패 ${topic}:`, error);
+      return false;
     }
-    return false;
-  }, [client, isConnected]);
+  }, []);
 
-  // 재연결
+  // 재연결 (주소/전송 방식 변경과 녹화 재생 전환은 연결 관리자가 직접 처리)
   const reconnect = useCallback(() => {
-    if (client) {
-      console.log('🔄 MQTT 수동 재연결 시도');
-      client.disconnect();
-      setClient(null);
-      setIsConnected(false);
-      setConnectionStatus('disconnected');
-      setTimeout(connectToMqtt, 1000);
-    } else {
-      connectToMqtt();
-    }
-  }, [client, connectToMqtt]);
+    console.log('🔄 MQTT 수동 재연결 시도');
+    connectionManager.reconnect();
+  }, []);
 
   // 연결 정보 반환
   const getConnectionInfo = useCallback(() => {
     return {
       broker: brokerUrlRef.current,
-      clientId: clientIdRef.current,
+      clientId: connectionManager.getClientId(),
       uptime: Date.now() - startTimeRef.current,
       lastPing: lastPingRef.current
     };
   }, []);
 
   const contextValue: MqttContextType = {
-    client,
+    transport,
     isConnected,
     connectionStatus,
     connectionAttempts,
@@ -2,7 +2,7 @@
  * 로봇 상태 컨텍스트 - 완전 재구축
  * 새로운 통합 타입 시스템과 완벽하게 호환
  */
-import React, { createContext, useContext, useReducer, useEffect, useCallback } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useCallback, useRef, useState } from 'react';
 import { 
   RobotState, 
   RobotAction, 
@@ -12,8 +12,17 @@ import {
   RobotMode,
   SafetyStatus,
   OperationMode,
-  RobotPose 
+  RobotPose,
+  PendingMotionTarget
 } from '../types/robotTypes';
+import { isMockDataEnabled } from '../config';
+import { robotSimulation } from '../services/mockRobotSimulator';
+import { replaySession } from '../services/replaySession';
+import { auditService } from '../services/auditService';
+import { connectionWatchdog } from '../services/connectionWatchdog';
+import { sendRobotCommand } from '../services/commandSender';
+import { useRobotStore } from '../store/robotStore';
+import { forwardKinematics } from '../utils/kinematics';
 
 interface RobotStateContextType {
   robotState: RobotState;
@@ -31,6 +40,7 @@ interface RobotStateContextType {
   setOperationMode: (mode: OperationMode) => void;
   setSafetyStatus: (status: SafetyStatus) => void;
   updateSystemInfo: (info: { batteryLevel?: number; temperature?: number }) => void;
+  setPendingTarget: (target: Omit<PendingMotionTarget, 'timestamp'> | null) => void;
   resetState: () => void;
 }
 
@@ -63,6 +73,11 @@ function robotStateReducer(state: RobotState, action: RobotAction): RobotState {
         ...joint,
         position: action.payload[index] || joint.position
       })) as [any, any, any, any, any, any];
+
+      // 로봇이 TCP 포즈를 보고하지 않으면 정기구학으로 계산
+      const derivedPose = state.endEffectorSource === 'reported'
+        ? null
+        : forwardKinematics(action.payload);
       
       return {
         ...state,
@@ -75,9 +90,12 @@ function robotStateReducer(state: RobotState, action: RobotAction): RobotState {
         jointPositions: action.payload,
         pose: {
           ...state.pose,
+          position: derivedPose || state.pose.position,
           jointsAngle: action.payload,
           timestamp: now,
         },
+        endEffectorPosition: derivedPose || state.endEffectorPosition,
+        endEffectorSource: derivedPose ? 'kinematics' : state.endEffectorSource,
         lastUpdate: now,
       };
 
@@ -85,6 +103,7 @@ function robotStateReducer(state: RobotState, action: RobotAction): RobotState {
       return {
         ...state,
         endEffectorPosition: action.payload,
+        endEffectorSource: 'reported',
         pose: {
           ...state.pose,
           position: action.payload,
@@ -140,6 +159,12 @@ function robotStateReducer(state: RobotState, action: RobotAction): RobotState {
         lastUpdate: now,
       };
 
+    case 'SET_PENDING_TARGET':
+      return {
+        ...state,
+        pendingTarget: action.payload,
+      };
+
     case 'UPDATE_ROBOT_STATE':
       return {
         ...state,
@@ -155,6 +180,45 @@ function robotStateReducer(state: RobotState, action: RobotAction): RobotState {
 
 export const RobotStateProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [state, dispatch] = useReducer(robotStateReducer, DEFAULT_ROBOT_STATE);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  // 감사 로그 - 명령 발행 시점의 로봇 상태 공급
+  useEffect(() => {
+    auditService.setRobotStateProvider(() => {
+      const current = stateRef.current;
+      return {
+        status: current.status,
+        isConnected: current.isConnected,
+        isMoving: current.isMoving,
+        operationMode: current.operationMode,
+        safetyStatus: current.safetyStatus,
+        speed: current.speed,
+        jointPositions: current.jointPositions
+      };
+    });
+    return () => auditService.setRobotStateProvider(null);
+  }, []);
+
+  // 연결 감시 - 링크가 끊길 때 이동 여부 확인과 정지 명령
+  useEffect(() => {
+    connectionWatchdog.setRobotStateProvider(() => stateRef.current.isMoving);
+    connectionWatchdog.setStopHandler(() => sendRobotCommand('stop', undefined, 'ConnectionWatchdog'));
+    return () => {
+      connectionWatchdog.setRobotStateProvider(null);
+      connectionWatchdog.setStopHandler(null);
+    };
+  }, []);
+
+  // 명령 스토어 동기화 - 스토어 명령 큐의 전송 가능 여부(canSendCommand)가 이 상태를 따름
+  useEffect(() => {
+    useRobotStore.getState().updateRobotState({
+      isConnected: state.isConnected,
+      status: state.status,
+      safetyStatus: state.safetyStatus,
+      isMoving: state.isMoving
+    });
+  }, [state.isConnected, state.status, state.safetyStatus, state.isMoving]);
 
   // 편의 메서드들
   const setConnectionStatus = useCallback((connected: boolean) => {
@@ -201,40 +265,67 @@ export const RobotStateProvider: React.FC<{ children: React.ReactNode }> = ({ ch
     dispatch({ type: 'SET_SYSTEM_INFO', payload: info, timestamp: new Date().toISOString() });
   }, []);
 
+  const setPendingTarget = useCallback((target: Omit<PendingMotionTarget, 'timestamp'> | null) => {
+    const timestamp = new Date().toISOString();
+    dispatch({ type: 'SET_PENDING_TARGET', payload: target ? { ...target, timestamp } : null, timestamp });
+  }, []);
+
   const resetState = useCallback(() => {
     dispatch({ type: 'UPDATE_ROBOT_STATE', payload: DEFAULT_ROBOT_STATE, timestamp: new Date().toISOString() });
   }, []);
 
+  // 녹화 재생 모드 - 상태를 녹화된 robot/status · joint_states 에서 더 자주 가져옴
+  const [replayActive, setReplayActive] = useState(replaySession.isActive());
+  useEffect(() => {
+    const handleReplayChange = ({ active }: { active: boolean }) => setReplayActive(active);
+    replaySession.onChange(handleReplayChange);
+    return () => replaySession.offChange(handleReplayChange);
+  }, []);
+
   // 백엔드 상태 동기화
   useEffect(() => {
     const checkRobotStatus = async () => {
       try {
-        const response = await fetch('/api/robot/status');
-        if (response.ok) {
-          const data = await response.json();
-          
-          // 연결 상태 업데이트
-          setConnectionStatus(data.connected || false);
+        let data: any;
+        
+        if (replaySession.isActive()) {
+          // ⏯️ 재생 모드: 녹화 재생 스냅샷 사용
+          data = replaySession.getRobotStatus();
+        } else if (isMockDataEnabled()) {
+          // 🎭 Mock 모드: 시뮬레이터 상태 사용
+          data = robotSimulation.getRobotStatus();
+        } else {
+          const response = await fetch('/api/robot/status');
+          if (!response.ok) {
+            setConnectionStatus(false);
+            setErrorMessage('로봇 서버와의 통신 실패');
+            return;
+          }
+          data = await response.json();
+        }
           
-          if (data.connected) {
-            // 로봇 상태 정보 업데이트
-            if (data.status) setRobotStatus(data.status);
-            if (data.jointPositions) updateJointPositions(data.jointPositions);
-            if (data.endEffectorPosition) updateEndEffectorPosition(data.endEffectorPosition);
-            if (data.speed !== undefined) setSpeed(data.speed);
-            if (data.isMoving !== undefined) setMovingStatus(data.isMoving);
-            if (data.safetyStatus) setSafetyStatus(data.safetyStatus);
-            if (data.operationMode) setOperationMode(data.operationMode);
-            
-            // 시스템 정보 업데이트
-            updateSystemInfo({
-              batteryLevel: data.batteryLevel,
-              temperature: data.temperature
-            });
+        // 연결 상태 업데이트
+        setConnectionStatus(data.connected || false);
+        
+        if (data.connected) {
+          // 로봇 상태 정보 업데이트
+          if (data.status) setRobotStatus(data.status);
+          if (!data.endEffectorPosition) {
+            // 포즈 미보고 → 조인트 각도로부터 FK 계산
+            dispatch({ type: 'UPDATE_ROBOT_STATE', payload: { endEffectorSource: 'kinematics' } });
           }
-        } else {
-          setConnectionStatus(false);
-          setErrorMessage('로봇 서버와의 통신 실패');
+          if (data.jointPositions) updateJointPositions(data.jointPositions);
+          if (data.endEffectorPosition) updateEndEffectorPosition(data.endEffectorPosition);
+          if (data.speed !== undefined) setSpeed(data.speed);
+          if (data.isMoving !== undefined) setMovingStatus(data.isMoving);
+          if (data.safetyStatus) setSafetyStatus(data.safetyStatus);
+          if (data.operationMode) setOperationMode(data.operationMode);
+          
+          // 시스템 정보 업데이트
+          updateSystemInfo({
+            batteryLevel: data.batteryLevel,
+            temperature: data.temperature
+          });
         }
       } catch (error) {
         console.error('Failed to check robot status:', error);
@@ -246,8 +337,8 @@ export const RobotStateProvider: React.FC<{ children: React.ReactNode }> = ({ ch
     // 초기 상태 확인
     checkRobotStatus();
 
-    // 주기적 상태 확인 (3초마다)
-    const statusInterval = setInterval(checkRobotStatus, 3000);
+    // 주기적 상태 확인 (3초마다, 재생 중에는 250ms)
+    const statusInterval = setInterval(checkRobotStatus, replayActive ? 250 : 3000);
 
     // 연결 상태 확인 (10초마다)
     const connectionInterval = setInterval(() => {
@@ -271,7 +362,8 @@ export const RobotStateProvider: React.FC<{ children: React.ReactNode }> = ({ ch
     setOperationMode,
     updateSystemInfo,
     setErrorMessage,
-    state.isConnected
+    state.isConnected,
+    replayActive
   ]);
 
   // 페이지 가시성 변경 시 상태 갱신
@@ -301,6 +393,7 @@ export const RobotStateProvider: React.FC<{ children: React.ReactNode }> = ({ ch
     setOperationMode,
     setSafetyStatus,
     updateSystemInfo,
+    setPendingTarget,
     resetState,
   };
 
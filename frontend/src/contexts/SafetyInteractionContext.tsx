@@ -0,0 +1,100 @@
+/**
+ * 안전 상호작용 컨텍스트 - 전원/모터/비상정지 해제/큰 이동/프로그램 시작 등 위험 동작의 2단계 확인
+ * 분류별 방식(바로 실행, 확인 대화상자, 확인 문구 입력, hold-to-run)은 설정 → 로봇 설정에서 변경하며,
+ * hold 방식 분류는 컴포넌트가 HoldToRunButton 을 렌더링해 처리한다.
+ */
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { ConfirmDialog } from '../components/common';
+import { settingsService } from '../services/settingsService';
+import {
+  SafetyInteractionCategory,
+  SafetyInteractionMode,
+  SafetyInteractionPreferences
+} from '../types/settingsTypes';
+import { SAFETY_CATEGORY_LABELS, SAFETY_CONFIRM_PHRASES } from '../utils/safetyInteraction';
+
+export interface SafetyConfirmRequest {
+  title?: string;
+  message: string;
+  confirmText?: string;
+}
+
+interface PendingConfirm extends SafetyConfirmRequest {
+  category: SafetyInteractionCategory;
+  mode: Exclude<SafetyInteractionMode, 'none' | 'hold'>;
+  resolve: (confirmed: boolean) => void;
+}
+
+interface SafetyInteractionContextType {
+  preferences: SafetyInteractionPreferences;
+  getMode: (category: SafetyInteractionCategory) => SafetyInteractionMode;
+  // 설정된 방식으로 확인 - 바로 실행 분류는 즉시 true, 취소하면 false
+  confirmAction: (category: SafetyInteractionCategory, request: SafetyConfirmRequest) => Promise<boolean>;
+}
+
+const SafetyInteractionContext = createContext<SafetyInteractionContextType | undefined>(undefined);
+
+export const SafetyInteractionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [preferences, setPreferences] = useState(() => settingsService.getSafetyInteraction());
+  const [pending, setPending] = useState<PendingConfirm | null>(null);
+  const pendingRef = useRef<PendingConfirm | null>(null);
+  pendingRef.current = pending;
+
+  // 설정 저장 시 즉시 반영
+  useEffect(() => {
+    const handleSettingsChange = () => setPreferences(settingsService.getSafetyInteraction());
+    settingsService.onChange(handleSettingsChange);
+    return () => settingsService.offChange(handleSettingsChange);
+  }, []);
+
+  // 대화상자가 열린 채로 언마운트되면 취소로 처리
+  useEffect(() => () => pendingRef.current?.resolve(false), []);
+
+  const getMode = useCallback(
+    (category: SafetyInteractionCategory) => preferences.modes[category],
+    [preferences]
+  );
+
+  const confirmAction = useCallback((category: SafetyInteractionCategory, request: SafetyConfirmRequest) => {
+    const mode = preferences.modes[category];
+    if (mode === 'none') return Promise.resolve(true);
+
+    return new Promise<boolean>(resolve => {
+      // 이전 확인 요청이 남아 있으면 취소
+      pendingRef.current?.resolve(false);
+      // hold 방식인데 누름 버튼이 없는 호출 경로는 확인 대화상자로 대체
+      setPending({ ...request, category, mode: mode === 'typed' ? 'typed' : 'confirm', resolve });
+    });
+  }, [preferences]);
+
+  const close = (confirmed: boolean) => {
+    pending?.resolve(confirmed);
+    setPending(null);
+  };
+
+  return (
+    <SafetyInteractionContext.Provider value={{ preferences, getMode, confirmAction }}>
+      {children}
+      <ConfirmDialog
+        isOpen={pending !== null}
+        title={pending?.title ?? (pending ? `${SAFETY_CATEGORY_LABELS[pending.category]} 확인` : '')}
+        message={pending?.message ?? ''}
+        confirmText={pending?.confirmText ?? '실행'}
+        type="warning"
+        typedConfirmation={pending?.mode === 'typed' ? SAFETY_CONFIRM_PHRASES[pending.category] : undefined}
+        onConfirm={() => close(true)}
+        onCancel={() => close(false)}
+      />
+    </SafetyInteractionContext.Provider>
+  );
+};
+
+export const useSafetyInteraction = (): SafetyInteractionContextType => {
+  const context = useContext(SafetyInteractionContext);
+  if (context === undefined) {
+    throw new Error('useSafetyInteraction must be used within a SafetyInteractionProvider');
+  }
+  return context;
+};
+
+export default SafetyInteractionProvider;
@@ -0,0 +1,31 @@
+/**
+ * 인증/권한 훅 - 로그인 상태가 바뀌면 컨트롤의 활성화 여부를 다시 계산
+ */
+import { useCallback, useEffect, useState } from 'react';
+import { authService } from '../services/authService';
+import { AppPermission, AuthSession } from '../types/authTypes';
+
+export const useAuth = () => {
+  const [session, setSession] = useState<AuthSession | null>(() => authService.getSession());
+
+  useEffect(() => {
+    authService.onChange(setSession);
+    return () => authService.offChange(setSession);
+  }, []);
+
+  const role = session?.user.role ?? authService.getRole();
+
+  const can = useCallback((permission: AppPermission) => authService.can(permission, role), [role]);
+
+  return {
+    session,
+    user: session?.user ?? null,
+    role,
+    roleLabel: authService.getRoleLabel(role),
+    can,
+    login: (username: string, pin: string) => authService.login(username, pin),
+    logout: () => authService.logout()
+  };
+};
+
+export default useAuth;
@@ -0,0 +1,28 @@
+/**
+ * 연결 감시 훅 - 저하 모드(모션 잠금) 상태와 운영자 확인
+ */
+import { useCallback, useEffect, useState } from 'react';
+import { connectionWatchdog } from '../services/connectionWatchdog';
+import { WatchdogStatus } from '../types/watchdogTypes';
+
+export const useConnectionWatchdog = () => {
+  const [status, setStatus] = useState<WatchdogStatus>(() => connectionWatchdog.getStatus());
+
+  useEffect(() => {
+    connectionWatchdog.onChange(setStatus);
+    setStatus(connectionWatchdog.getStatus());
+    return () => connectionWatchdog.offChange(setStatus);
+  }, []);
+
+  // 링크 상태 외에 바뀌는 값(왕복 시간, 마지막 수신)을 다시 읽음
+  const refresh = useCallback(() => setStatus(connectionWatchdog.getStatus()), []);
+
+  return {
+    status,
+    motionLocked: status.degraded,
+    acknowledge: () => connectionWatchdog.acknowledge(),
+    refresh
+  };
+};
+
+export default useConnectionWatchdog;
@@ -0,0 +1,156 @@
+/**
+ * hold-to-run (deadman) 훅 - 누르는 동안만 동작하고, 놓거나 WebSocket 하트비트가 끊기면 정지 명령 전송
+ * 누르는 동안 heartbeatTimeout/3 마다 ping 을 보내고, 마지막 수신이 heartbeatTimeout 보다 오래되면 끊김으로 판단한다.
+ * Mock 모드는 백엔드 WebSocket 이 없으므로 하트비트 감시 없이 놓을 때만 정지한다.
+ */
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { isMockDataEnabled } from '../config';
+import { useWebSocket } from '../contexts/WebSocketContext';
+import { useSafetyInteraction } from '../contexts/SafetyInteractionContext';
+
+const WATCHDOG_INTERVAL = 100; // ms
+
+export type HoldReleaseReason = 'released' | 'heartbeat' | 'blur';
+
+interface HoldToRunOptions {
+  onStart: () => Promise<unknown> | unknown;
+  onStop: (reason: HoldReleaseReason) => Promise<unknown> | unknown;
+  disabled?: boolean;
+}
+
+export const useHoldToRun = ({ onStart, onStop, disabled = false }: HoldToRunOptions) => {
+  const { isConnected, getLastHeartbeat, sendHeartbeat } = useWebSocket();
+  const { preferences } = useSafetyInteraction();
+  const [isHolding, setIsHolding] = useState(false);
+  const holdingRef = useRef(false);
+  const watchdogRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // 렌더링마다 바뀌는 콜백은 ref 로 보관 (감시 타이머가 최신 콜백 호출)
+  const onStartRef = useRef(onStart);
+  const onStopRef = useRef(onStop);
+  onStartRef.current = onStart;
+  onStopRef.current = onStop;
+
+  const release = useCallback(async (reason: HoldReleaseReason) => {
+    if (!holdingRef.current) return;
+    holdingRef.current = false;
+    setIsHolding(false);
+    if (watchdogRef.current) {
+      clearInterval(watchdogRef.current);
+      watchdogRef.current = null;
+    }
+
+    if (reason === 'heartbeat') {
+      toast.error('하트비트 끊김 - 정지 명령을 보냈습니다');
+    }
+    console.log(`🛑 hold-to-run 해제 (${reason}) - 정지 명령 전송`);
+    try {
+      await onStopRef.current(reason);
+    } catch (error) {
+      toast.error(`정지 명령 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
+    }
+  }, []);
+
+  const press = useCallback(async () => {
+    if (disabled || holdingRef.current) return;
+    const watchHeartbeat = !isMockDataEnabled();
+    if (watchHeartbeat && (!isConnected || !sendHeartbeat())) {
+      toast.error('WebSocket 연결이 없어 hold-to-run 을 시작할 수 없습니다');
+      return;
+    }
+
+    holdingRef.current = true;
+    setIsHolding(true);
+
+    if (watchHeartbeat) {
+      const startedAt = Date.now();
+      let lastPing = startedAt;
+      watchdogRef.current = setInterval(() => {
+        const now = Date.now();
+        if (now - lastPing >= preferences.heartbeatTimeout / 3) {
+          lastPing = now;
+          if (!sendHeartbeat()) {
+            release('heartbeat');
+            return;
+          }
+        }
+        // 시작 직후 첫 응답을 기다리는 동안은 시작 시각 기준
+        const lastHeartbeat = Math.max(getLastHeartbeat() ?? 0, startedAt);
+        if (now - lastHeartbeat > preferences.heartbeatTimeout) {
+          release('heartbeat');
+        }
+      }, WATCHDOG_INTERVAL);
+    }
+
+    try {
+      await onStartRef.current();
+    } catch (error) {
+      toast.error(`실행 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
+      release('released');
+    }
+  }, [disabled, isConnected, sendHeartbeat, getLastHeartbeat, preferences.heartbeatTimeout, release]);
+
+  // 창 포커스를 잃거나 화면이 가려지면 놓은 것으로 처리, 언마운트 시에도 정지
+  useEffect(() => {
+    const handleBlur = () => release('blur');
+    const handleVisibility = () => { if (document.hidden) release('blur'); };
+    window.addEventListener('blur', handleBlur);
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      window.removeEventListener('blur', handleBlur);
+      document.removeEventListener('visibilitychange', handleVisibility);
+      release('released');
+    };
+  }, [release]);
+
+  const handlers = {
+    onPointerDown: (event: React.PointerEvent<HTMLElement>) => {
+      event.currentTarget.setPointerCapture?.(event.pointerId);
+      press();
+    },
+    onPointerUp: () => release('released'),
+    onPointerCancel: () => release('released'),
+    onLostPointerCapture: () => release('released'),
+    onKeyDown: (event: React.KeyboardEvent<HTMLElement>) => {
+      if ((event.key === ' ' || event.key === 'Enter') && !event.repeat) {
+        event.preventDefault();
+        press();
+      }
+    },
+    onKeyUp: (event: React.KeyboardEvent<HTMLElement>) => {
+      if (event.key === ' ' || event.key === 'Enter') release('released');
+    },
+    onContextMenu: (event: React.MouseEvent<HTMLElement>) => event.preventDefault()
+  };
+
+  return { isHolding, handlers };
+};
+
+/**
+ * hold-to-run 모드/목표 고정 - 누르는 순간의 목표를 ref 에 고정하고 해제될 때까지 latched 유지
+ * 이동 중에는 실시간 자세로 계산한 '큰 이동' 판정이 바뀌므로, 호출 측은 latched 동안 HoldToRunButton 을 계속 마운트해야 한다
+ * (언마운트되면 useHoldToRun 정리 단계에서 정지 명령이 나감)
+ */
+export const useHoldLatch = <T>() => {
+  const targetRef = useRef<T | null>(null);
+  const [latched, setLatched] = useState(false);
+
+  const start = useCallback(<R>(target: T, run: (target: T) => R): R => {
+    targetRef.current = target;
+    setLatched(true);
+    return run(target);
+  }, []);
+
+  const stop = useCallback(async (run: () => unknown) => {
+    try {
+      await run();
+    } finally {
+      targetRef.current = null;
+      setLatched(false);
+    }
+  }, []);
+
+  return { latched, targetRef, start, stop };
+};
+
+export default useHoldToRun;
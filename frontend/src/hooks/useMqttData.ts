@@ -1,11 +1,14 @@
 /**
  * MQTT 데이터 수신 훅 - 완전 재구축
  * 새로운 통합 타입 시스템과 완벽하게 호환
+ * 자체 연결 없이 연결 관리자(connectionManager)의 공유 연결에 채널을 참조 카운트로 구독
  */
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { useWebSocket } from '../contexts/WebSocketContext';
-import { BrowserMqttService as MqttWebSocketService } from '../services/mqttService';
+import { connectionManager } from '../services/connectionManager';
 import DataProcessorService from '../services/dataProcessor';
+import { scaleFilterService } from '../services/scaleFilterService';
+import { topicRegistry } from '../services/topicRegistry';
+import { TopicChannel } from '../types/topicTypes';
 import { 
   MqttMessage, 
   ROS2TopicListMessage, 
@@ -16,11 +19,21 @@ import {
   ConnectionStatus,
   Timestamp
 } from '../types/robotTypes';
-import config from '../config';
+import { ConnectionManagerStatus } from '../types/transportTypes';
+
+// 훅 기본 구독 채널 (토픽은 topic_mapping.json 에서 결정)
+const SUBSCRIBED_CHANNELS: TopicChannel[] = [
+  'weight',
+  'scaleFilters',
+  'ros2TopicList',
+  'targetConcentration',
+  'robotControl',
+  'systemHealth'
+];
 
 export const useMqttData = (autoSubscribe: string[] = []): MqttDataHookReturn => {
   // 기본 연결 상태
-  const [isConnected, setIsConnected] = useState(false);
+  const [isConnected, setIsConnected] = useState(() => connectionManager.isConnected());
   const [connectionAttempts, setConnectionAttempts] = useState(0);
   const [lastMessage, setLastMessage] = useState<MqttMessage | null>(null);
   
@@ -39,13 +52,10 @@ export const useMqttData = (autoSubscribe: string[] = []): MqttDataHookReturn =>
   const [error, setError] = useState<string | null>(null);
   const [warnings, setWarnings] = useState<string[]>([]);
   
-  // 서비스 인스턴스
-  const mqttServiceRef = useRef<MqttWebSocketService | null>(null);
-  const dataProcessorRef = useRef<DataProcessorService | null>(null);
-  const isInitializedRef = useRef(false);
-  
-  // WebSocket 컨텍스트
-  const webSocketContext = useWebSocket();
+  // 데이터 처리기와 이 훅이 추가로 구독한 토픽 (언마운트 시 참조 해제)
+  const dataProcessorRef = useRef(new DataProcessorService());
+  const extraTopicsRef = useRef<Set<string>>(new Set());
+  const autoSubscribeRef = useRef(autoSubscribe);  // 마운트 시점 값만 사용 (매 렌더 새 배열로 인한 재구독 방지)
 
   // 연결 상태 매핑
   const connectionStatus: ConnectionStatus = isConnected 
@@ -58,34 +68,6 @@ export const useMqttData = (autoSubscribe: string[] = []): MqttDataHookReturn =>
     concentration: concentration
   };
 
-  // 서비스 초기화
-  useEffect(() => {
-    if (!isInitializedRef.current) {
-      try {
-        mqttServiceRef.current = new MqttWebSocketService({
-          host: 'localhost',
-          port: 1884,
-          clientId: `robot_dashboard_${Date.now()}`,
-          ...config.websocket,
-          reconnectInterval: config.websocket.reconnectInterval || 5000
-        });
-        dataProcessorRef.current = new DataProcessorService();
-        isInitializedRef.current = true;
-        console.log('✅ MQTT 서비스 초기화 완료');
-      } catch (error) {
-        console.error('❌ MQTT 서비스 초기화 실패:', error);
-        setError(`서비스 초기화 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
-      }
-    }
-
-    return () => {
-      if (mqttServiceRef.current) {
-        mqttServiceRef.current.disconnect();
-        isInitializedRef.current = false;
-      }
-    };
-  }, []);
-
   // 메시지 업데이트 헬퍼
   const updateWithTimestamp = useCallback(() => {
     const now = new Date().toISOString();
@@ -95,15 +77,12 @@ export const useMqttData = (autoSubscribe: string[] = []): MqttDataHookReturn =>
 
   // 메시지 핸들러 설정
   useEffect(() => {
-    if (!mqttServiceRef.current || !dataProcessorRef.current) return;
-
-    const mqttService = mqttServiceRef.current;
     const dataProcessor = dataProcessorRef.current;
 
     // ROS2 토픽 리스트 핸들러
     const handleRos2Topics = (message: MqttMessage) => {
       try {
-        const processed = dataProcessor.processROS2TopicList(message);
+        const processed = topicRegistry.parse('ros2TopicList', message, dataProcessor);
         if (processed) {
           setRos2Topics(processed);
           updateWithTimestamp();
@@ -118,7 +97,7 @@ export const useMqttData = (autoSubscribe: string[] = []): MqttDataHookReturn =>
     // 무게센서 핸들러
     const handleWeightSensor = (message: MqttMessage) => {
       try {
-        const processed = dataProcessor.processWeightSensorData(message);
+        const processed = topicRegistry.parse('weight', message, dataProcessor);
         if (processed) {
           setWeightSensor(processed);
           updateWithTimestamp();
@@ -130,10 +109,19 @@ export const useMqttData = (autoSubscribe: string[] = []): MqttDataHookReturn =>
       }
     };
 
+    // 저울 필터 채널 핸들러 - 공식 필터 채널만 무게로 사용
+    const handleScaleFilter = (message: MqttMessage) => {
+      const weightMessage = scaleFilterService.createWeightMessage(message);
+      if (weightMessage) {
+        setWeightSensor(weightMessage);
+        updateWithTimestamp();
+      }
+    };
+
     // 농도센서 핸들러
     const handleConcentration = (message: MqttMessage) => {
       try {
-        const processed = dataProcessor.processConcentrationData(message);
+        const processed = topicRegistry.parse('targetConcentration', message, dataProcessor);
         if (processed) {
           setConcentration(processed);
           updateWithTimestamp();
@@ -148,7 +136,7 @@ export const useMqttData = (autoSubscribe: string[] = []): MqttDataHookReturn =>
     // 로봇 제어 핸들러
     const handleRobotControl = (message: MqttMessage) => {
       try {
-        const processed = dataProcessor.processRobotControlData(message);
+        const processed = topicRegistry.parse('robotControl', message, dataProcessor);
         if (processed) {
           setRobotCommands(prev => {
             const updated = [...prev, processed].slice(-20); // 최근 20개만 유지
@@ -163,10 +151,10 @@ export const useMqttData = (autoSubscribe: string[] = []): MqttDataHookReturn =>
       }
     };
 
-    // 에러 핸들러
-    const handleError = (message: MqttMessage) => {
-      if (message.type === 'error') {
-        const errorMsg = message.data?.message || 'MQTT 통신 오류 발생';
+    // 에러 핸들러 (백엔드 error 제어 프레임)
+    const handleError = (frame: any) => {
+      if (frame?.type === 'error') {
+        const errorMsg = frame.message || frame.data?.message || 'MQTT 통신 오류 발생';
         setError(errorMsg);
         setWarnings(prev => [...prev, `${new Date().toLocaleTimeString()}: ${errorMsg}`].slice(-10));
         console.error('💥 MQTT 에러:', errorMsg);
@@ -183,168 +171,83 @@ export const useMqttData = (autoSubscribe: string[] = []): MqttDataHookReturn =>
       });
     };
 
-    // 핸들러 등록 - 🎯 정밀 수정된 토픽명 사용
-    try {
-      mqttService!.onMessage('test', handleWeightSensor);              // 무게센서 데이터 (변경됨)
-      mqttService!.onMessage('ros2_topic_list', handleRos2Topics);     // ROS2 토픽 리스트
-      mqttService!.onMessage('web/target_concentration', handleConcentration);
-      mqttService!.onMessage('robot/control/+', handleRobotControl);
-      mqttService!.onMessage('error', handleError);
-      mqttService!.onMessage('*', handleAllMessages);
-
-      console.log('✅ MQTT 메시지 핸들러 등록 완료 (정밀 수정된 토픽 사용)');
-    } catch (error) {
-      console.error('❌ 메시지 핸들러 등록 실패:', error);
-      setError('메시지 핸들러 설정 실패');
-    }
+    // 핸들러 등록 - 🎯 논리 채널 이름 사용 (토픽 레지스트리 매핑)
+    connectionManager.onChannel('weight', handleWeightSensor);           // 무게센서 데이터
+    connectionManager.onChannel('scaleFilters', handleScaleFilter);      // 저울 필터 채널
+    connectionManager.onChannel('ros2TopicList', handleRos2Topics);      // ROS2 토픽 리스트
+    connectionManager.onChannel('targetConcentration', handleConcentration);
+    connectionManager.onChannel('robotControl', handleRobotControl);
+    connectionManager.onFrame(handleError);
+    connectionManager.onMessage('*', handleAllMessages);
+    console.log('✅ MQTT 메시지 핸들러 등록 완료 (토픽 매핑:', topicRegistry.getSource(), ')');
 
     // 연결 상태 핸들러
-    const handleConnection = (connected: boolean) => {
+    const handleConnection = ({ status, connectionAttempts: attempts }: ConnectionManagerStatus) => {
+      const connected = status === 'connected';
       setIsConnected(connected);
-      if (!connected) {
-        setError('MQTT 연결이 끊어졌습니다');
-        setConnectionAttempts(prev => prev + 1);
-      } else {
-        setError(null);
-        setConnectionAttempts(0);
-        console.log('✅ MQTT 연결 복원됨');
-      }
+      setConnectionAttempts(attempts);
+      setError(connected || status === 'connecting' ? null : 'MQTT 연결이 끊어졌습니다');
     };
+    connectionManager.onChange(handleConnection);
+    handleConnection(connectionManager.getStatus());
 
-    try {
-      mqttService!.onConnectionChange(handleConnection);
-    } catch (error) {
-      console.error('❌ 연결 상태 핸들러 등록 실패:', error);
-    }
-
-    // 정리 함수 - 🎯 정밀 수정된 토픽명 사용
+    // 정리 함수 - 🎯 논리 채널 이름 사용
     return () => {
-      try {
-        mqttService.offMessage('test', handleWeightSensor);              // 무게센서 데이터 (변경됨)
-        mqttService.offMessage('ros2_topic_list', handleRos2Topics);     // ROS2 토픽 리스트
-        mqttService.offMessage('web/target_concentration', handleConcentration);
-        mqttService.offMessage('robot/control/+', handleRobotControl);
-        mqttService.offMessage('error', handleError);
-        mqttService.offMessage('*', handleAllMessages);
-        mqttService.offConnectionChange(handleConnection);
-        console.log('🧹 MQTT 핸들러 정리 완료 (정밀 수정된 토픽 사용)');
-      } catch (error) {
-        console.error('❌ MQTT 핸들러 정리 실패:', error);
-      }
+      connectionManager.offChannel('weight', handleWeightSensor);
+      connectionManager.offChannel('scaleFilters', handleScaleFilter);
+      connectionManager.offChannel('ros2TopicList', handleRos2Topics);
+      connectionManager.offChannel('targetConcentration', handleConcentration);
+      connectionManager.offChannel('robotControl', handleRobotControl);
+      connectionManager.offFrame(handleError);
+      connectionManager.offMessage('*', handleAllMessages);
+      connectionManager.offChange(handleConnection);
     };
   }, [updateWithTimestamp]);
 
-  // 자동 구독 설정 - 무한 루프 방지
+  // 기본 채널 + 지정 토픽 구독 (참조 카운트 - 같은 채널을 쓰는 다른 컴포넌트와 구독 공유)
   useEffect(() => {
-    if (!mqttServiceRef.current || !isInitializedRef.current) return;
-
-    const mqttService = mqttServiceRef.current;
-    
-    // 기본 토픽들 + 사용자 지정 토픽들 - 🎯 정밀 수정된 토픽명 사용
-    const defaultTopics = [
-      'test',                        // 무게센서 데이터 (변경됨)
-      'ros2_topic_list',            // ROS2 토픽 리스트
-      'web/target_concentration',    // 농도 목표값
-      'robot/control/+',             // 로봇 제어 명령
-      'system/health',               // 시스템 상태
-      'error',                       // 에러 메시지
-      ...autoSubscribe
-    ];
+    const extraTopics = extraTopicsRef.current;
+    const channelTopics = topicRegistry.getTopics(SUBSCRIBED_CHANNELS);
+    const topics = [...new Set(autoSubscribeRef.current)].filter(topic => !channelTopics.includes(topic));
 
-    const uniqueTopics = [...new Set(defaultTopics)]; // 중복 제거
+    SUBSCRIBED_CHANNELS.forEach(channel => connectionManager.subscribeChannel(channel));
+    topics.forEach(topic => connectionManager.subscribe(topic));
+    setSubscriptions([...new Set([...channelTopics, ...topics])]);
+    console.log('📡 자동 구독 완료:', channelTopics.length + topics.length);
 
-    // 이미 구독된 토픽과 비교하여 변경된 경우만 업데이트
-    const currentSubs = new Set(subscriptions);
-    const newSubs = new Set(uniqueTopics);
-    const hasChanges = uniqueTopics.length !== subscriptions.length || 
-                      uniqueTopics.some(topic => !currentSubs.has(topic));
-    
-    if (!hasChanges) {
-      return; // 변경사항이 없으면 아무것도 하지 않음
-    }
-
-    try {
-      uniqueTopics.forEach(topic => {
-        if (!currentSubs.has(topic)) {
-          mqttService.subscribe(topic);
-        }
-      });
-      
-      setSubscriptions(uniqueTopics);
-      console.log('📡 자동 구독 완료 (정밀 수정된 토픽 사용):', uniqueTopics);
-    } catch (error) {
-      console.error('❌ 자동 구독 실패:', error);
-      setError('토픽 구독 설정 실패');
-    }
-  }, [subscriptions]); // autoSubscribe 의존성 제거로 무한루프 방지
-
-  // WebSocket Context와 동기화
-  useEffect(() => {
-    if (webSocketContext) {
-      setIsConnected(webSocketContext.isConnected);
-      setConnectionAttempts(webSocketContext.connectionAttempts);
-      if (webSocketContext.lastMessage) {
-        setLastMessage(webSocketContext.lastMessage);
-      }
-    }
-  }, [webSocketContext]);
+    return () => {
+      SUBSCRIBED_CHANNELS.forEach(channel => connectionManager.unsubscribeChannel(channel));
+      topics.forEach(topic => connectionManager.unsubscribe(topic));
+      extraTopics.forEach(topic => connectionManager.unsubscribe(topic));
+      extraTopics.clear();
+    };
+  }, []);
 
   // 수동 구독 함수
   const subscribe = useCallback((topic: string) => {
-    if (mqttServiceRef.current && topic) {
-      try {
-        mqttServiceRef.current.subscribe(topic);
-        setSubscriptions(prev => [...new Set([...prev, topic])]);
-        console.log('📡 토픽 구독:', topic);
-      } catch (error) {
-        console.error('❌ 토픽 구독 실패:', error);
-        setError(`토픽 구독 실패: ${topic}`);
-      }
-    }
+    if (!topic || extraTopicsRef.current.has(topic)) return;
+    extraTopicsRef.current.add(topic);
+    connectionManager.subscribe(topic);
+    setSubscriptions(prev => [...new Set([...prev, topic])]);
+    console.log('📡 토픽 구독:', topic);
   }, []);
 
-  // 구독 해제 함수
+  // 구독 해제 함수 - 이 훅이 추가한 토픽만 참조 해제
   const unsubscribe = useCallback((topic: string) => {
-    if (mqttServiceRef.current && topic) {
-      try {
-        mqttServiceRef.current.unsubscribe(topic);
-        setSubscriptions(prev => prev.filter(t => t !== topic));
-        console.log('📡 토픽 구독 해제:', topic);
-      } catch (error) {
-        console.error('❌ 토픽 구독 해제 실패:', error);
-        setError(`토픽 구독 해제 실패: ${topic}`);
-      }
-    }
+    if (!topic || !extraTopicsRef.current.has(topic)) return;
+    extraTopicsRef.current.delete(topic);
+    connectionManager.unsubscribe(topic);
+    setSubscriptions(prev => prev.filter(t => t !== topic));
+    console.log('📡 토픽 구독 해제:', topic);
   }, []);
 
-  // 재연결 함수
+  // 재연결 함수 - 공유 연결 재연결
   const reconnect = useCallback(() => {
-    if (mqttServiceRef.current) {
-      try {
-        setError(null);
-        setConnectionAttempts(prev => prev + 1);
-        mqttServiceRef.current!.reconnect();
-        console.log('🔄 MQTT 재연결 시도');
-      } catch (error) {
-        console.error('❌ MQTT 재연결 실패:', error);
-        setError('재연결 실패');
-      }
-    }
+    setError(null);
+    connectionManager.reconnect();
+    console.log('🔄 MQTT 재연결 시도');
   }, []);
 
-  // 에러 자동 복구
-  useEffect(() => {
-    if (error && !isConnected) {
-      const timer = setTimeout(() => {
-        if (connectionAttempts < 5) { // 최대 5회 재시도
-          reconnect();
-        }
-      }, 5000); // 5초 후 재시도
-
-      return () => clearTimeout(timer);
-    }
-  }, [error, isConnected, connectionAttempts, reconnect]);
-
   return {
     // 기본 연결 상태
     isConnected,
@@ -0,0 +1,24 @@
+/**
+ * ROS2 그래프 훅 - 토픽/노드/서비스 스냅샷, 등장/사라짐 타임라인, 사라진 노드
+ */
+import { useEffect, useState } from 'react';
+import { ros2GraphService } from '../services/ros2GraphService';
+import { ROS2GraphSnapshot } from '../types/ros2GraphTypes';
+
+export const useROS2Graph = () => {
+  const [snapshot, setSnapshot] = useState<ROS2GraphSnapshot>(() => ros2GraphService.getSnapshot());
+
+  useEffect(() => {
+    ros2GraphService.onChange(setSnapshot);
+    setSnapshot(ros2GraphService.getSnapshot());
+    return () => ros2GraphService.offChange(setSnapshot);
+  }, []);
+
+  return {
+    snapshot,
+    clearTimeline: () => ros2GraphService.clearTimeline(),
+    dismissVanishedNodes: () => ros2GraphService.dismissVanishedNodes()
+  };
+};
+
+export default useROS2Graph;
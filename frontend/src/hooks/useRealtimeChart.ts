@@ -2,8 +2,11 @@
  * 실시간 차트 데이터 훅 - 완전 재구축
  * 새로운 통합 타입 시스템과 완벽하게 호환
  */
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, Dispatch, SetStateAction } from 'react';
 import { useMqttData } from './useMqttData';
+import { scaleFilterService } from '../services/scaleFilterService';
+import { timeSeriesStore } from '../services/timeSeriesStore';
+import appConfig from '../config';
 import {
   ChartDataPoint,
   RealtimeChartHookReturn,
@@ -12,6 +15,7 @@ import {
   WeightSensorMessage,
   ConcentrationMessage
 } from '../types/robotTypes';
+import { ScaleFilterChartPoint, ScaleFilterMetrics, ScaleFilterType, TimeSeriesQueryResult } from '../types/sensorTypes';
 
 interface RealtimeChartConfig {
   maxDataPoints?: number;
@@ -39,6 +43,8 @@ export const useRealtimeChart = (
   // 설정 상태
   const [config, setConfig] = useState<RealtimeChartConfig>({
     ...defaultConfig,
+    maxDataPoints: appConfig.CHART.MAX_DATA_POINTS,
+    updateInterval: appConfig.CHART.UPDATE_RATE,
     ...initialConfig
   });
 
@@ -58,6 +64,13 @@ export const useRealtimeChart = (
   const [weightStats, setWeightStats] = useState<{ min: number; max: number; avg: number; current: number } | null>(null);
   const [concentrationStats, setConcentrationStats] = useState<{ min: number; max: number; avg: number; current: number } | null>(null);
   
+  // 저울 필터 비교 상태
+  const [scaleFilterData, setScaleFilterData] = useState<ScaleFilterChartPoint[]>([]);
+  const [scaleFilterMetrics, setScaleFilterMetrics] = useState<ScaleFilterMetrics[]>([]);
+  const [officialScaleFilter, setOfficialScaleFilterState] = useState<ScaleFilterType>(
+    () => scaleFilterService.getOfficialFilter()
+  );
+  
   // MQTT 데이터 훅
   const { weightSensor, concentration, isConnected, error: mqttError } = useMqttData();
   
@@ -255,6 +268,46 @@ export const useRealtimeChart = (
     setConcentrationStats(calculateStats(concentrationData));
   }, [concentrationData, calculateStats]);
 
+  // 저장된 히스토리로 시간 창 채우기 (새로고침 직후에도 최근 구간 표시)
+  useEffect(() => {
+    let cancelled = false;
+    const to = Date.now();
+    const from = to - config.timeWindow! * 1000;
+
+    const backfill = async (
+      sensorId: string,
+      setData: Dispatch<SetStateAction<ChartDataPoint[]>>
+    ) => {
+      const history = await timeSeriesStore.query(sensorId, from, to, config.maxDataPoints);
+      if (cancelled || history.points.length === 0) return;
+      setData(prev => {
+        const firstLive = prev.length > 0 ? prev[0].timestamp : Infinity;
+        const restored: ChartDataPoint[] = history.points
+          .filter(point => point.timestamp < firstLive)
+          .map(point => ({ timestamp: point.timestamp, value: point.avg, quality: 'good' }));
+        return limitDataPoints([...restored, ...prev]);
+      });
+    };
+
+    backfill('weight', setWeightData).catch(error => console.error('❌ Weight history load error:', error));
+    backfill('concentration', setConcentrationData).catch(error => console.error('❌ Concentration history load error:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [config.timeWindow, config.maxDataPoints, limitDataPoints]);
+
+  // 저울 필터 채널 업데이트 (서비스 알림 주기로 갱신)
+  useEffect(() => {
+    const handleScaleFilterChange = () => {
+      setScaleFilterData(scaleFilterService.getChartSeries().slice(-config.maxDataPoints!));
+      setScaleFilterMetrics(scaleFilterService.getMetrics());
+      setOfficialScaleFilterState(scaleFilterService.getOfficialFilter());
+    };
+    handleScaleFilterChange();
+    scaleFilterService.onChange(handleScaleFilterChange);
+    return () => scaleFilterService.offChange(handleScaleFilterChange);
+  }, [config.maxDataPoints]);
+
   // MQTT 에러 처리
   useEffect(() => {
     if (mqttError) {
@@ -359,6 +412,19 @@ export const useRealtimeChart = (
     return '';
   }, [weightData, concentrationData, temperatureData, customData, calculateStats]);
 
+  // 히스토리 조회
+  const queryHistory = useCallback((
+    sensorId: string,
+    from: number,
+    to?: number,
+    maxPoints?: number
+  ): Promise<TimeSeriesQueryResult> => timeSeriesStore.query(sensorId, from, to, maxPoints), []);
+
+  // 공식 무게 필터 선택
+  const setOfficialScaleFilter = useCallback((filter: ScaleFilterType) => {
+    scaleFilterService.setOfficialFilter(filter);
+  }, []);
+
   // 설정 업데이트
   const updateConfig = useCallback((newConfig: Partial<RealtimeChartConfig>) => {
     setConfig(prev => ({ ...prev, ...newConfig }));
@@ -385,6 +451,15 @@ export const useRealtimeChart = (
     weightStats,
     concentrationStats,
     
+    // 저울 필터 비교
+    scaleFilterData,
+    scaleFilterMetrics,
+    officialScaleFilter,
+    setOfficialScaleFilter,
+    
+    // 히스토리
+    queryHistory,
+    
     // 제어 함수
     addCustomDataPoint,
     clearData,
@@ -0,0 +1,29 @@
+/**
+ * 녹화 재생 훅 - 재생 상태와 재생 제어 (불러오기, 재생/일시정지, 탐색, 배속, 반복, 종료)
+ */
+import { useEffect, useState } from 'react';
+import { replaySession } from '../services/replaySession';
+import { ReplayStatus } from '../types/replayTypes';
+
+export const useReplay = () => {
+  const [status, setStatus] = useState<ReplayStatus>(() => replaySession.getStatus());
+
+  useEffect(() => {
+    replaySession.onChange(setStatus);
+    setStatus(replaySession.getStatus());
+    return () => replaySession.offChange(setStatus);
+  }, []);
+
+  return {
+    status,
+    load: (filename: string, text: string) => replaySession.load(filename, text),
+    play: () => replaySession.play(),
+    pause: () => replaySession.pause(),
+    seek: (position: number) => replaySession.seek(position),
+    setSpeed: (speed: number) => replaySession.setSpeed(speed),
+    setLoop: (loop: boolean) => replaySession.setLoop(loop),
+    exit: () => replaySession.exit()
+  };
+};
+
+export default useReplay;
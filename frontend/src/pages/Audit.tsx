@@ -0,0 +1,296 @@
+/**
+ * 감사 로그 페이지
+ * 운영자 동작/로봇 명령을 사용자, 분류, 결과, 기간, 검색어로 조회하고 CSV / NDJSON 으로 내보냄
+ */
+import React, { useCallback, useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, ClipboardList, Download, RefreshCw, Search, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { auditService, AuditExportFormat, DEFAULT_QUERY_LIMIT } from '../services/auditService';
+import { authService } from '../services/authService';
+import { useAuth } from '../hooks/useAuth';
+import { AuditActor, AuditCategory, AuditEntry, AuditQuery, AuditResult } from '../types/auditTypes';
+import { formatDate, formatTime } from '../utils';
+
+const CATEGORY_LABELS: Record<AuditCategory, string> = {
+  command: '로봇 명령',
+  safety: '안전',
+  program: '프로그램',
+  settings: '설정',
+  auth: '로그인'
+};
+
+const RESULT_LABELS: Record<AuditResult, { label: string; className: string }> = {
+  pending: { label: '대기', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-200' },
+  success: { label: '성공', className: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-200' },
+  failed: { label: '실패', className: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-200' },
+  denied: { label: '거부', className: 'bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-200' }
+};
+
+const RANGE_OPTIONS = [
+  { value: 60 * 60 * 1000, label: '최근 1시간' },
+  { value: 24 * 60 * 60 * 1000, label: '최근 24시간' },
+  { value: 7 * 24 * 60 * 60 * 1000, label: '최근 7일' },
+  { value: 0, label: `전체 (최대 ${auditService.getRetentionDays()}일)` }
+];
+
+const INPUT_CLASS =
+  'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white';
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
+
+const Audit: React.FC = () => {
+  const { can } = useAuth();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [users, setUsers] = useState<AuditActor[]>([]);
+  const [text, setText] = useState('');
+  const [category, setCategory] = useState<AuditCategory | ''>('');
+  const [result, setResult] = useState<AuditResult | ''>('');
+  const [username, setUsername] = useState<string | null>(null);   // null = 전체, '' = 익명
+  const [range, setRange] = useState(RANGE_OPTIONS[1].value);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const buildQuery = useCallback((): AuditQuery => ({
+    ...(text.trim() && { text: text.trim() }),
+    ...(category && { category }),
+    ...(result && { result }),
+    ...(username !== null && { username }),
+    ...(range > 0 && { from: Date.now() - range })
+  }), [text, category, result, username, range]);
+
+  const refresh = useCallback(async () => {
+    const [found, actors] = await Promise.all([auditService.query(buildQuery()), auditService.getUsers()]);
+    setEntries(found);
+    setUsers(actors);
+  }, [buildQuery]);
+
+  // 새 기록/결과 갱신 시 다시 조회
+  useEffect(() => {
+    refresh();
+    const handleChange = () => { refresh(); };
+    auditService.onChange(handleChange);
+    return () => auditService.offChange(handleChange);
+  }, [refresh]);
+
+  const handleExport = async (format: AuditExportFormat) => {
+    setIsExporting(true);
+    try {
+      const file = await auditService.export(buildQuery(), format);
+      downloadBlob(file.blob, file.filename);
+      toast.success(`내보내기 완료: ${file.filename} (${file.rows}건)`);
+    } catch (error) {
+      toast.error(`내보내기 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('감사 로그를 모두 삭제할까요? 되돌릴 수 없습니다.')) return;
+    await auditService.clear();
+    auditService.record({ category: 'settings', action: 'audit_clear', source: 'Audit' });
+    toast.success('감사 로그를 삭제했습니다');
+  };
+
+  const renderDetails = (entry: AuditEntry) => (
+    <tr className="bg-gray-50 dark:bg-gray-900/40">
+      <td colSpan={8} className="px-4 py-3">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 text-xs">
+          <div>
+            <h4 className="mb-1 font-medium text-gray-700 dark:text-gray-300">파라미터</h4>
+            <pre className="p-2 rounded bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200 overflow-x-auto">
+              {entry.params ? JSON.stringify(entry.params, null, 2) : '없음'}
+            </pre>
+            {entry.commandId && <p className="mt-1 text-gray-500">명령 ID: <span className="font-mono">{entry.commandId}</span></p>}
+            {entry.message && <p className="mt-1 text-gray-600 dark:text-gray-400 whitespace-pre-wrap">{entry.message}</p>}
+          </div>
+          <div>
+            <h4 className="mb-1 font-medium text-gray-700 dark:text-gray-300">발행 시점 로봇 상태</h4>
+            {entry.robotState ? (
+              <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-gray-800 dark:text-gray-200">
+                <dt className="text-gray-500">상태</dt>
+                <dd>{entry.robotState.status}{entry.robotState.isConnected ? '' : ' (연결 끊김)'}</dd>
+                <dt className="text-gray-500">안전 상태</dt>
+                <dd>{entry.robotState.safetyStatus}</dd>
+                <dt className="text-gray-500">운전 모드 / 속도</dt>
+                <dd>{entry.robotState.operationMode} / {entry.robotState.speed}%</dd>
+                <dt className="text-gray-500">이동 중</dt>
+                <dd>{entry.robotState.isMoving ? '예' : '아니오'}</dd>
+                <dt className="text-gray-500">관절 위치 (°)</dt>
+                <dd className="font-mono">{entry.robotState.jointPositions.map(position => position.toFixed(1)).join(', ')}</dd>
+              </dl>
+            ) : (
+              <p className="text-gray-500">기록되지 않음</p>
+            )}
+          </div>
+        </div>
+      </td>
+    </tr>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {/* 헤더 */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">감사 로그</h1>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              누가 언제 어떤 명령을 보냈는지, 결과와 지연 시간, 발행 시점 로봇 상태를 기록합니다
+              ({auditService.isPersistent() ? `브라우저에 ${auditService.getRetentionDays()}일 보관` : '메모리 보관 - 새로고침 시 삭제'})
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => handleExport('csv')}
+              disabled={isExporting || entries.length === 0}
+              className="flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg transition-colors"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              CSV
+            </button>
+            <button
+              onClick={() => handleExport('ndjson')}
+              disabled={isExporting || entries.length === 0}
+              className="flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg transition-colors"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              NDJSON
+            </button>
+            <button
+              onClick={handleClear}
+              disabled={!can('manage_security') || entries.length === 0}
+              title={can('manage_security') ? undefined : '관리자만 삭제할 수 있습니다'}
+              className="flex items-center px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg transition-colors disabled:opacity-50"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              전체 삭제
+            </button>
+          </div>
+        </div>
+
+        {/* 필터 */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-4 flex flex-wrap items-center gap-3">
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="동작, 출처, 파라미터, 메시지 검색"
+              className={`${INPUT_CLASS} w-full pl-9`}
+            />
+          </div>
+          <select value={category} onChange={(e) => setCategory(e.target.value as AuditCategory | '')} className={INPUT_CLASS}>
+            <option value="">모든 분류</option>
+            {(Object.keys(CATEGORY_LABELS) as AuditCategory[]).map(key => (
+              <option key={key} value={key}>{CATEGORY_LABELS[key]}</option>
+            ))}
+          </select>
+          <select value={result} onChange={(e) => setResult(e.target.value as AuditResult | '')} className={INPUT_CLASS}>
+            <option value="">모든 결과</option>
+            {(Object.keys(RESULT_LABELS) as AuditResult[]).map(key => (
+              <option key={key} value={key}>{RESULT_LABELS[key].label}</option>
+            ))}
+          </select>
+          <select
+            value={username ?? '*'}
+            onChange={(e) => setUsername(e.target.value === '*' ? null : e.target.value)}
+            className={INPUT_CLASS}
+          >
+            <option value="*">모든 사용자</option>
+            {users.map(user => (
+              <option key={user.username ?? ''} value={user.username ?? ''}>
+                {user.username ? `${user.displayName} (${user.username})` : '익명'}
+              </option>
+            ))}
+          </select>
+          <select value={range} onChange={(e) => setRange(Number(e.target.value))} className={INPUT_CLASS}>
+            {RANGE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={refresh}
+            className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            title="새로고침"
+          >
+            <RefreshCw className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* 기록 목록 */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 overflow-x-auto">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            기록 ({entries.length}{entries.length >= DEFAULT_QUERY_LIMIT ? '+' : ''})
+            {entries.length >= DEFAULT_QUERY_LIMIT && (
+              <span className="ml-2 text-sm font-normal text-gray-500">최근 {DEFAULT_QUERY_LIMIT}건만 표시 - 내보내기에는 전체 포함</span>
+            )}
+          </h3>
+          {entries.length === 0 ? (
+            <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+              <ClipboardList className="w-5 h-5 mr-2" />
+              조건에 맞는 기록이 없습니다
+            </div>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400">
+                  <th className="py-2 pr-2" />
+                  <th className="py-2 pr-4">시각</th>
+                  <th className="py-2 pr-4">사용자</th>
+                  <th className="py-2 pr-4">분류</th>
+                  <th className="py-2 pr-4">동작</th>
+                  <th className="py-2 pr-4">출처</th>
+                  <th className="py-2 pr-4">결과</th>
+                  <th className="py-2 pr-4 text-right">지연</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-900 dark:text-white">
+                {entries.map(entry => (
+                  <React.Fragment key={entry.id}>
+                    <tr
+                      onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                      className="border-t border-gray-100 dark:border-gray-700 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                    >
+                      <td className="py-2 pr-2 text-gray-400">
+                        {expandedId === entry.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                      </td>
+                      <td className="py-2 pr-4 whitespace-nowrap">
+                        <span className="text-gray-500 dark:text-gray-400">{formatDate(entry.timestamp)}</span> {formatTime(entry.timestamp)}
+                      </td>
+                      <td className="py-2 pr-4 whitespace-nowrap">
+                        {entry.user.displayName}
+                        <span className="ml-1 text-xs text-gray-500">{authService.getRoleLabel(entry.user.role)}</span>
+                      </td>
+                      <td className="py-2 pr-4">{CATEGORY_LABELS[entry.category]}</td>
+                      <td className="py-2 pr-4 font-mono">{entry.action}</td>
+                      <td className="py-2 pr-4 text-gray-600 dark:text-gray-400">{entry.source}</td>
+                      <td className="py-2 pr-4">
+                        <span className={`px-2 py-0.5 rounded text-xs ${RESULT_LABELS[entry.result].className}`} title={entry.message}>
+                          {RESULT_LABELS[entry.result].label}
+                        </span>
+                      </td>
+                      <td className="py-2 pr-4 text-right font-mono">
+                        {entry.latencyMs !== undefined ? `${entry.latencyMs} ms` : '--'}
+                      </td>
+                    </tr>
+                    {expandedId === entry.id && renderDetails(entry)}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Audit;
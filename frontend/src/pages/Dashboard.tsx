@@ -16,11 +16,7 @@ import {
 } from 'lucide-react';
 
 // 컴포넌트
-import RobotStatusPanel from '../components/dashboard/RobotStatusPanel';
 import MainDashboard from '../components/dashboard/MainDashboard';
-import RealtimeChart from '../components/visualization/RealtimeChart';
-import SensorDataGrid from '../components/visualization/SensorDataGrid';
-import QuickControlPanel from '../components/controls/QuickControlPanel';
 
 // 훅
 import { useRobotStore } from '../store/robotStore';
@@ -94,29 +90,7 @@ const Dashboard: React.FC = () => {
           </motion.div>
         )}
 
-        {/* 대시보드 그리드 */}
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
-          {/* 로봇 상태 패널 */}
-          <div className="lg:col-span-2">
-            <RobotStatusPanel />
-          </div>
-
-          {/* 빠른 제어 패널 */}
-          <div>
-            <QuickControlPanel />
-          </div>
-        </div>
-
-        {/* 센서 데이터와 차트 */}
-        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 mb-6">
-          {/* 센서 데이터 그리드 */}
-          <SensorDataGrid />
-          
-          {/* 실시간 차트 */}
-          <RealtimeChart />
-        </div>
-
-        {/* 메인 대시보드 */}
+        {/* 메인 대시보드 (위젯 그리드) */}
         <MainDashboard />
       </div>
     </div>
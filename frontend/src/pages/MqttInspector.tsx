@@ -0,0 +1,333 @@
+/**
+ * MQTT 인스펙터 페이지
+ * 수신한 토픽별 수신률/마지막 페이로드/크기/추론 스키마, 토픽 와일드카드로 거르는 메시지 로그(일시정지, pretty/raw),
+ * 세션 녹화 파일 다운로드 - 터미널 없이 퍼블리셔(scale_publisher_fixed.py 등)를 디버깅
+ */
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Circle, Filter, Pause, Play, Radio, Square, Trash2, Upload, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { mqttInspectorService } from '../services/mqttInspectorService';
+import { replaySession } from '../services/replaySession';
+import { topicMatches } from '../services/topicRegistry';
+import { useMqtt } from '../contexts/MqttContext';
+import { InspectedMessage, InspectedTopic, RecordingStatus } from '../types/inspectorTypes';
+import { describeSchema } from '../utils/jsonSchema';
+import { formatBytes, formatTime } from '../utils';
+
+type PayloadView = 'pretty' | 'raw';
+
+const MAX_RENDERED = 200;
+const REFRESH_INTERVAL = 1000; // ms - 수신률/경과 시간 갱신
+
+const INPUT_CLASS =
+  'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white';
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
+
+const formatPayload = (data: any, view: PayloadView): string => {
+  if (typeof data === 'string') return data;
+  try {
+    return view === 'pretty' ? JSON.stringify(data, null, 2) : JSON.stringify(data);
+  } catch {
+    return String(data);
+  }
+};
+
+const formatElapsed = (ms: number): string => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const MqttInspector: React.FC = () => {
+  const { isConnected, connectionStatus } = useMqtt();
+  const [topics, setTopics] = useState<InspectedTopic[]>(() => mqttInspectorService.getTopics());
+  const [messages, setMessages] = useState<InspectedMessage[]>(() => mqttInspectorService.getMessages());
+  const [latestId, setLatestId] = useState(0);
+  const [recording, setRecording] = useState<RecordingStatus>(() => mqttInspectorService.getRecordingStatus());
+  const [paused, setPaused] = useState(false);
+  const [filter, setFilter] = useState('');
+  const [view, setView] = useState<PayloadView>('pretty');
+  const [selectedTopic, setSelectedTopic] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  // 일시정지 중에는 로그를 고정하고 새 메시지 수만 표시
+  const refresh = useCallback(() => {
+    const log = mqttInspectorService.getMessages();
+    setTopics(mqttInspectorService.getTopics());
+    setRecording(mqttInspectorService.getRecordingStatus());
+    setLatestId(log.length > 0 ? log[log.length - 1].id : 0);
+    if (!paused) setMessages(log);
+  }, [paused]);
+
+  useEffect(() => {
+    refresh();
+    mqttInspectorService.onChange(refresh);
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      setTopics(mqttInspectorService.getTopics());
+    }, REFRESH_INTERVAL);
+    return () => {
+      mqttInspectorService.offChange(refresh);
+      clearInterval(timer);
+    };
+  }, [refresh]);
+
+  const pattern = filter.trim();
+  const filtered = useMemo(
+    () => messages.filter(message => !pattern || topicMatches(pattern, message.topic)).reverse(),
+    [messages, pattern]
+  );
+  const pendingCount = paused && messages.length > 0 ? latestId - messages[messages.length - 1].id : 0;
+  const selected = topics.find(topic => topic.topic === selectedTopic) ?? null;
+
+  const handleRecord = () => {
+    if (!recording.recording) {
+      mqttInspectorService.startRecording();
+      toast.success('녹화 시작');
+      return;
+    }
+    try {
+      const file = mqttInspectorService.stopRecording();
+      downloadBlob(file.blob, file.filename);
+      toast.success(`녹화 저장: ${file.filename} (${file.rows}건)`);
+    } catch (error) {
+      toast.error(`녹화 저장 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
+    }
+  };
+
+  // 녹화 재생 - 불러오면 재생 모드로 전환 (실시간 연결 대신 녹화를 전달, 명령 차단)
+  const handleReplay = async (file: File) => {
+    try {
+      replaySession.load(file.name, await file.text());
+      replaySession.play();
+      toast.success(`녹화 재생 시작: ${file.name}`);
+    } catch (error) {
+      toast.error(`녹화 불러오기 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {/* 헤더 */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">MQTT 인스펙터</h1>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              대시보드가 받은 모든 토픽의 수신률, 페이로드, 스키마와 메시지 로그를 보여줍니다
+              ({isConnected ? '연결됨' : connectionStatus})
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={handleRecord}
+              className={`flex items-center px-4 py-2 rounded-lg text-white transition-colors ${
+                recording.recording ? 'bg-gray-800 hover:bg-gray-900' : 'bg-red-600 hover:bg-red-700'
+              }`}
+            >
+              {recording.recording ? <Square className="w-4 h-4 mr-2" /> : <Circle className="w-4 h-4 mr-2 fill-current" />}
+              {recording.recording
+                ? `녹화 중지 (${formatElapsed(now - (recording.startedAt ?? now))} · ${recording.messageCount}건)`
+                : '녹화'}
+            </button>
+            <input
+              type="file"
+              accept=".ndjson,application/x-ndjson"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleReplay(file);
+                e.target.value = '';
+              }}
+              className="hidden"
+              id="recording-replay"
+            />
+            <label
+              htmlFor="recording-replay"
+              className="flex items-center px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors cursor-pointer"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              녹화 재생
+            </label>
+            <button
+              onClick={() => mqttInspectorService.clear()}
+              disabled={topics.length === 0}
+              className="flex items-center px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg transition-colors disabled:opacity-50"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              비우기
+            </button>
+          </div>
+        </div>
+
+        {recording.recording && recording.messageCount >= recording.limit && (
+          <div className="px-4 py-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/30 text-sm text-yellow-800 dark:text-yellow-200">
+            최대 녹화 메시지 수({recording.limit}건)에 도달해 이후 메시지는 녹화되지 않습니다. 녹화를 중지해 저장하세요.
+          </div>
+        )}
+
+        {/* 토픽 목록 */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg overflow-hidden">
+          <div className="px-6 py-4 flex items-center gap-2 border-b border-gray-200 dark:border-gray-700">
+            <Radio className="w-5 h-5 text-blue-500" />
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">토픽 ({topics.length})</h2>
+          </div>
+          <div className="overflow-x-auto max-h-96">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-900/40 text-left text-gray-500 dark:text-gray-400">
+                <tr>
+                  <th className="px-4 py-2 font-medium">토픽</th>
+                  <th className="px-4 py-2 font-medium text-right">메시지</th>
+                  <th className="px-4 py-2 font-medium text-right">수신률</th>
+                  <th className="px-4 py-2 font-medium text-right">마지막 크기</th>
+                  <th className="px-4 py-2 font-medium text-right">마지막 수신</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                {topics.map(topic => (
+                  <tr
+                    key={topic.topic}
+                    onClick={() => setSelectedTopic(topic.topic === selectedTopic ? null : topic.topic)}
+                    className={`cursor-pointer ${
+                      topic.topic === selectedTopic ? 'bg-blue-50 dark:bg-blue-900/40' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                    }`}
+                  >
+                    <td className="px-4 py-2 font-mono text-gray-900 dark:text-white">{topic.topic}</td>
+                    <td className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">{topic.messageCount}</td>
+                    <td className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">{topic.rate.toFixed(1)}/s</td>
+                    <td className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">{formatBytes(topic.lastSize, 1)}</td>
+                    <td className="px-4 py-2 text-right text-gray-500">{((now - topic.lastSeen) / 1000).toFixed(0)}초 전</td>
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        onClick={(e) => { e.stopPropagation(); setFilter(topic.topic); }}
+                        title="이 토픽만 로그에 표시"
+                        className="p-1 text-gray-400 hover:text-blue-600"
+                      >
+                        <Filter className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {topics.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-8 text-center text-gray-500">아직 수신한 메시지가 없습니다</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* 선택한 토픽 상세 */}
+        {selected && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="font-mono text-lg font-semibold text-gray-900 dark:text-white">{selected.topic}</h2>
+              <button onClick={() => setSelectedTopic(null)} className="p-1 text-gray-400 hover:text-gray-600">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div>
+                <h3 className="mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                  마지막 페이로드 ({formatBytes(selected.lastSize, 1)}, 누적 {formatBytes(selected.totalBytes, 1)})
+                </h3>
+                <pre className="p-3 rounded bg-gray-50 dark:bg-gray-900 text-xs text-gray-800 dark:text-gray-200 overflow-auto max-h-80">
+                  {formatPayload(selected.lastPayload, 'pretty')}
+                </pre>
+              </div>
+              <div>
+                <h3 className="mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                  추론 스키마 ({selected.messageCount}개 메시지 기준, ? 는 일부 메시지에만 있는 필드)
+                </h3>
+                <pre className="p-3 rounded bg-gray-50 dark:bg-gray-900 text-xs text-gray-800 dark:text-gray-200 overflow-auto max-h-80">
+                  {describeSchema(selected.schema).join('\n')}
+                </pre>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* 메시지 로그 */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mr-auto">메시지 로그</h2>
+            <div className="relative min-w-[240px]">
+              <Filter className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <input
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="토픽 필터 (예: scale/+, robot/#)"
+                className={`${INPUT_CLASS} w-full pl-9`}
+              />
+            </div>
+            <div className="flex rounded-md overflow-hidden border border-gray-300 dark:border-gray-600">
+              {(['pretty', 'raw'] as PayloadView[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={`px-3 py-1.5 text-sm ${
+                    view === option ? 'bg-blue-600 text-white' : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  {option === 'pretty' ? 'Pretty' : 'Raw'}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => setPaused(prev => !prev)}
+              className={`flex items-center px-3 py-1.5 rounded-md text-sm ${
+                paused ? 'bg-yellow-500 hover:bg-yellow-600 text-white' : 'bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              {paused ? <Play className="w-4 h-4 mr-1" /> : <Pause className="w-4 h-4 mr-1" />}
+              {paused ? `재개${pendingCount > 0 ? ` (새 메시지 ${pendingCount}건)` : ''}` : '일시정지'}
+            </button>
+          </div>
+
+          <div className="max-h-[36rem] overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+            {filtered.slice(0, MAX_RENDERED).map(message => (
+              <div key={message.id} className="py-2">
+                <div className="flex items-center gap-3 text-xs text-gray-500">
+                  <span>{formatTime(message.receivedAt)}</span>
+                  <button
+                    onClick={() => setSelectedTopic(message.topic)}
+                    className="font-mono text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    {message.topic}
+                  </button>
+                  <span>{formatBytes(message.size, 1)}</span>
+                  {message.type !== 'message' && <span className="px-1.5 rounded bg-gray-100 dark:bg-gray-700">{message.type}</span>}
+                </div>
+                <pre className={`mt-1 text-xs text-gray-800 dark:text-gray-200 ${
+                  view === 'pretty' ? 'p-2 rounded bg-gray-50 dark:bg-gray-900 overflow-auto max-h-60' : 'truncate'
+                }`}>
+                  {formatPayload(message.data, view)}
+                </pre>
+              </div>
+            ))}
+            {filtered.length === 0 && (
+              <p className="py-8 text-center text-sm text-gray-500">
+                {messages.length === 0 ? '아직 수신한 메시지가 없습니다' : '필터와 일치하는 메시지가 없습니다'}
+              </p>
+            )}
+          </div>
+          {filtered.length > MAX_RENDERED && (
+            <p className="mt-2 text-xs text-gray-500">
+              최근 {MAX_RENDERED}건만 표시합니다 (보관 {filtered.length}건) - 필터로 범위를 좁히세요
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MqttInspector;
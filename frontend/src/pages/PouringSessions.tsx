@@ -0,0 +1,275 @@
+/**
+ * 붓기 세션 리포트 페이지
+ * cup_placed 로 시작된 세션별 무게/농도 곡선과 지표를 확인하고 여러 세션을 비교
+ */
+import React, { useEffect, useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Coffee, Square, Trash2, Weight, Droplets } from 'lucide-react';
+import { pouringSessionService } from '../services/pouringSessionService';
+import { PouringSession, PouringSessionEndReason, PouringSessionMetrics } from '../types/pouringTypes';
+import { formatTime } from '../utils';
+
+const SERIES_COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899'];
+const MAX_COMPARED = SERIES_COLORS.length;
+
+const END_REASON_LABELS: Record<PouringSessionEndReason, string> = {
+  analysis: '분석 완료',
+  cup_removed: '컵 제거',
+  next_cup: '다음 컵',
+  timeout: '시간 초과',
+  manual: '수동 종료'
+};
+
+const formatValue = (value: number | null | undefined, digits: number, unit: string): string =>
+  value === null || value === undefined ? '--' : `${value.toFixed(digits)} ${unit}`;
+
+const METRIC_ROWS: Array<{ label: string; format: (metrics: PouringSessionMetrics) => string }> = [
+  { label: '최종 무게', format: m => formatValue(m.finalMass, 1, 'g') },
+  { label: '최대 무게', format: m => formatValue(m.peakMass, 1, 'g') },
+  { label: '평균 유량', format: m => formatValue(m.flowRate, 2, 'g/s') },
+  { label: '최대 유량', format: m => formatValue(m.peakFlowRate, 2, 'g/s') },
+  { label: '붓기 시간', format: m => formatValue(m.pourDuration, 1, 's') },
+  { label: '전체 시간', format: m => formatValue(m.duration, 1, 's') },
+  { label: '최종 농도', format: m => formatValue(m.finalConcentration, 2, '%') },
+  { label: '목표 농도', format: m => formatValue(m.targetConcentration, 1, '%') },
+  {
+    label: '오버슈트',
+    format: m => m.overshoot === null
+      ? '--'
+      : `${m.overshoot.toFixed(2)} %p${m.overshootRatio !== null ? ` (${(m.overshootRatio * 100).toFixed(1)}%)` : ''}`
+  },
+  { label: '설탕 투입', format: m => `${m.dispenseCount}회${m.dispensedAmount !== null ? ` / ${m.dispensedAmount.toFixed(1)} g` : ''}` }
+];
+
+const sessionLabel = (session: PouringSession): string =>
+  `${formatTime(session.startedAt)}${session.cupId ? ` (${session.cupId})` : ''}`;
+
+// 곡선 샘플(ms) → 차트 포인트(s)
+const toChartData = (samples: PouringSession['weightCurve']) =>
+  samples.map(sample => ({ t: Math.round(sample.t / 100) / 10, value: sample.value }));
+
+const PouringSessions: React.FC = () => {
+  const [sessions, setSessions] = useState<PouringSession[]>(() => pouringSessionService.getSessions());
+  const [activeSession, setActiveSession] = useState<PouringSession | null>(() => pouringSessionService.getActiveSession());
+  const [selectedIds, setSelectedIds] = useState<string[]>(() =>
+    pouringSessionService.getSessions().slice(0, 3).map(session => session.id)
+  );
+
+  useEffect(() => {
+    const handleChange = () => {
+      setSessions(pouringSessionService.getSessions());
+      setActiveSession(pouringSessionService.getActiveSession());
+    };
+    pouringSessionService.onChange(handleChange);
+    return () => pouringSessionService.offChange(handleChange);
+  }, []);
+
+  // 진행 중 세션은 항상 비교 대상에 포함
+  const compared = useMemo(() => {
+    const selected = sessions.filter(session => selectedIds.includes(session.id));
+    return activeSession ? [activeSession, ...selected] : selected;
+  }, [sessions, selectedIds, activeSession]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      if (prev.includes(id)) return prev.filter(existing => existing !== id);
+      if (prev.length >= MAX_COMPARED) return prev;
+      return [...prev, id];
+    });
+  };
+
+  const handleDelete = (id: string) => {
+    pouringSessionService.deleteSession(id);
+    setSelectedIds(prev => prev.filter(existing => existing !== id));
+  };
+
+  const handleClear = () => {
+    if (!window.confirm('저장된 세션을 모두 삭제할까요?')) return;
+    pouringSessionService.clearSessions();
+    setSelectedIds([]);
+  };
+
+  const renderOverlay = (title: string, icon: React.ReactNode, unit: string, pick: (session: PouringSession) => PouringSession['weightCurve']) => (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+      <div className="flex items-center mb-4">
+        {icon}
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{title}</h3>
+      </div>
+      {compared.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">비교할 세션을 선택하세요</p>
+      ) : (
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="t" type="number" domain={[0, 'dataMax']} unit="s" allowDuplicatedCategory={false} />
+              <YAxis unit={unit} />
+              <Tooltip />
+              <Legend />
+              {compared.map((session, index) => (
+                <Line
+                  key={session.id}
+                  data={toChartData(pick(session))}
+                  dataKey="value"
+                  name={`${session.status === 'active' ? '● ' : ''}${sessionLabel(session)}`}
+                  stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {/* 헤더 */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">붓기 세션 리포트</h1>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              컵 배치부터 붓기 완료까지 세션별 무게 곡선, 유량, 농도 오버슈트를 비교합니다 (무게 소스: {pouringSessionService.getWeightTopic()})
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            {activeSession && (
+              <button
+                onClick={() => pouringSessionService.endActiveSession()}
+                className="flex items-center px-4 py-2 bg-orange-500 hover:bg-orange-600 text-white rounded-lg transition-colors"
+              >
+                <Square className="w-4 h-4 mr-2" />
+                세션 종료
+              </button>
+            )}
+            <button
+              onClick={handleClear}
+              disabled={sessions.length === 0}
+              className="flex items-center px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg transition-colors disabled:opacity-50"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              전체 삭제
+            </button>
+          </div>
+        </div>
+
+        {/* 진행 중 세션 */}
+        {activeSession && activeSession.metrics && (
+          <div className="flex items-center px-4 py-3 rounded-lg bg-blue-50 dark:bg-blue-900/50 border border-blue-200 dark:border-blue-800 text-blue-800 dark:text-blue-200">
+            <Coffee className="w-5 h-5 mr-3" />
+            <span>
+              진행 중: {sessionLabel(activeSession)} · {activeSession.metrics.peakMass.toFixed(1)} g ·
+              {' '}{activeSession.metrics.duration.toFixed(0)} s · 설탕 {activeSession.metrics.dispenseCount}회
+            </span>
+          </div>
+        )}
+
+        {/* 곡선 비교 */}
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          {renderOverlay('무게 곡선', <Weight className="w-6 h-6 text-blue-600 mr-2" />, 'g', session => session.weightCurve)}
+          {renderOverlay('농도', <Droplets className="w-6 h-6 text-green-600 mr-2" />, '%', session => session.concentrationCurve)}
+        </div>
+
+        {/* 지표 비교 */}
+        {compared.length > 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 overflow-x-auto">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">지표 비교</h3>
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400">
+                  <th className="py-2 pr-4">지표</th>
+                  {compared.map((session, index) => (
+                    <th key={session.id} className="py-2 pr-4" style={{ color: SERIES_COLORS[index % SERIES_COLORS.length] }}>
+                      {sessionLabel(session)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="text-gray-900 dark:text-white">
+                {METRIC_ROWS.map(row => (
+                  <tr key={row.label} className="border-t border-gray-100 dark:border-gray-700">
+                    <td className="py-2 pr-4 text-gray-600 dark:text-gray-400">{row.label}</td>
+                    {compared.map(session => (
+                      <td key={session.id} className="py-2 pr-4 font-mono">
+                        {session.metrics ? row.format(session.metrics) : '--'}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* 세션 목록 */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 overflow-x-auto">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            세션 목록 ({sessions.length}) <span className="text-sm font-normal text-gray-500">최대 {MAX_COMPARED}개 비교</span>
+          </h3>
+          {sessions.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              기록된 세션이 없습니다. robot/events/cup_placed 이벤트가 수신되면 세션이 시작됩니다.
+            </p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400">
+                  <th className="py-2 pr-4">비교</th>
+                  <th className="py-2 pr-4">시작</th>
+                  <th className="py-2 pr-4">상태</th>
+                  <th className="py-2 pr-4">최종 무게</th>
+                  <th className="py-2 pr-4">평균 유량</th>
+                  <th className="py-2 pr-4">오버슈트</th>
+                  <th className="py-2 pr-4">시간</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody className="text-gray-900 dark:text-white">
+                {sessions.map(session => (
+                  <tr key={session.id} className="border-t border-gray-100 dark:border-gray-700">
+                    <td className="py-2 pr-4">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(session.id)}
+                        disabled={!selectedIds.includes(session.id) && selectedIds.length >= MAX_COMPARED}
+                        onChange={() => toggleSelected(session.id)}
+                      />
+                    </td>
+                    <td className="py-2 pr-4">{sessionLabel(session)}</td>
+                    <td className="py-2 pr-4">
+                      <span className={session.status === 'aborted' ? 'text-red-600' : 'text-green-600'}>
+                        {session.status === 'aborted' ? '중단' : '완료'}
+                      </span>
+                      {session.endReason && (
+                        <span className="ml-1 text-gray-500 dark:text-gray-400">· {END_REASON_LABELS[session.endReason]}</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 font-mono">{formatValue(session.metrics?.finalMass, 1, 'g')}</td>
+                    <td className="py-2 pr-4 font-mono">{formatValue(session.metrics?.flowRate, 2, 'g/s')}</td>
+                    <td className="py-2 pr-4 font-mono">{formatValue(session.metrics?.overshoot, 2, '%p')}</td>
+                    <td className="py-2 pr-4 font-mono">{formatValue(session.metrics?.duration, 1, 's')}</td>
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={() => handleDelete(session.id)}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="세션 삭제"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PouringSessions;
@@ -0,0 +1,385 @@
+/**
+ * ROS2 탐색기 페이지
+ * ros2_topic_list / ros2_node_list / ros2_service_list 를 네임스페이스 트리로 검색하고,
+ * 토픽/노드/서비스 등장·사라짐 타임라인과 토픽 리스트 상태 분석(issues / recommendations)을 보여줌
+ */
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  AlertTriangle,
+  CheckCircle,
+  ChevronDown,
+  ChevronRight,
+  Clock,
+  Lightbulb,
+  Network,
+  Search,
+  Trash2,
+  XCircle
+} from 'lucide-react';
+import { useROS2Graph } from '../hooks/useROS2Graph';
+import { ROS2_GRAPH_KIND_LABELS } from '../services/ros2GraphService';
+import { NamespaceTreeNode, ROS2GraphKind, ROS2GraphSnapshot } from '../types/ros2GraphTypes';
+import { buildNamespaceTree, findReferencedNames } from '../utils/ros2Graph';
+import { formatTime } from '../utils';
+
+const KINDS: ROS2GraphKind[] = ['topic', 'node', 'service'];
+
+const HEALTH_LABELS: Record<NonNullable<ROS2GraphSnapshot['health']>['status'], { label: string; className: string }> = {
+  healthy: { label: '정상', className: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-200' },
+  warning: { label: '주의', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-200' },
+  error: { label: '오류', className: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-200' }
+};
+
+const INPUT_CLASS =
+  'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white';
+
+// '/dsr01/joint_states' → ['/dsr01', '/dsr01/joint_states'] (트리 펼침용 상위 경로)
+const ancestorPaths = (name: string): string[] =>
+  name.split('/').filter(Boolean).map((_, index, segments) => `/${segments.slice(0, index + 1).join('/')}`);
+
+const ROS2Explorer: React.FC = () => {
+  const { snapshot, clearTimeline, dismissVanishedNodes } = useROS2Graph();
+  const [kind, setKind] = useState<ROS2GraphKind>('topic');
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState<{ kind: ROS2GraphKind; name: string } | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [timelineKind, setTimelineKind] = useState<ROS2GraphKind | ''>('');
+
+  const vanishedNames = useMemo(
+    () => new Set(snapshot.vanishedNodes.map(node => node.name)),
+    [snapshot.vanishedNodes]
+  );
+
+  // 노드 트리에는 사라진 노드도 함께 표시 (빨간 취소선)
+  const namesByKind: Record<ROS2GraphKind, string[]> = useMemo(() => ({
+    topic: snapshot.topics,
+    node: Array.from(new Set([...snapshot.nodes, ...Array.from(vanishedNames)])).sort(),
+    service: snapshot.services
+  }), [snapshot.topics, snapshot.nodes, snapshot.services, vanishedNames]);
+
+  const tree = useMemo(() => buildNamespaceTree(namesByKind[kind], query), [namesByKind, kind, query]);
+
+  // 사라진 노드를 네임스페이스별로 묶음 (드라이버 크래시 시 /dsr01 전체가 한 번에 보이도록)
+  const vanishedByNamespace = useMemo(() => {
+    const groups = new Map<string, string[]>();
+    snapshot.vanishedNodes.forEach(node => {
+      groups.set(node.namespace, [...(groups.get(node.namespace) ?? []), node.name]);
+    });
+    return Array.from(groups.entries());
+  }, [snapshot.vanishedNodes]);
+
+  const timeline = useMemo(
+    () => snapshot.timeline.filter(event => !timelineKind || event.kind === timelineKind),
+    [snapshot.timeline, timelineKind]
+  );
+
+  const selectedEvents = useMemo(
+    () => selected ? snapshot.timeline.filter(event => event.kind === selected.kind && event.name === selected.name) : [],
+    [snapshot.timeline, selected]
+  );
+
+  // 첫 데이터 수신 시 최상위 네임스페이스 펼침
+  useEffect(() => {
+    if (expanded.size > 0 || tree.length === 0) return;
+    setExpanded(new Set(tree.map(node => node.path)));
+  }, [tree, expanded.size]);
+
+  const select = (target: ROS2GraphKind, name: string) => {
+    setKind(target);
+    setQuery('');
+    setSelected({ kind: target, name });
+    setExpanded(prev => new Set([...Array.from(prev), ...ancestorPaths(name)]));
+    // 트리 항목이 렌더링된 뒤 스크롤
+    setTimeout(() => document.getElementById(`ros2-${target}-${name}`)?.scrollIntoView({ block: 'center', behavior: 'smooth' }), 0);
+  };
+
+  const toggle = (path: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path); else next.add(path);
+      return next;
+    });
+  };
+
+  const renderBranch = (nodes: NamespaceTreeNode[], depth: number): React.ReactNode => nodes.map(node => {
+    const hasChildren = node.children.length > 0;
+    const isOpen = query.trim() !== '' || expanded.has(node.path);
+    const isSelected = selected?.kind === kind && selected.name === node.name;
+    const isVanished = kind === 'node' && node.name !== null && vanishedNames.has(node.name);
+
+    return (
+      <li key={node.path}>
+        <div
+          id={node.name ? `ros2-${kind}-${node.name}` : undefined}
+          style={{ paddingLeft: `${depth * 16 + 4}px` }}
+          className={`flex items-center gap-1 py-1 pr-2 rounded text-sm cursor-pointer ${
+            isSelected ? 'bg-blue-50 dark:bg-blue-900/50' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+          }`}
+          onClick={() => {
+            if (node.name) setSelected({ kind, name: node.name });
+            if (hasChildren) toggle(node.path);
+          }}
+        >
+          {hasChildren ? (
+            isOpen ? <ChevronDown className="w-4 h-4 text-gray-400" /> : <ChevronRight className="w-4 h-4 text-gray-400" />
+          ) : (
+            <span className="w-4" />
+          )}
+          <span className={`font-mono ${
+            isVanished ? 'text-red-600 dark:text-red-400 line-through' : node.name ? 'text-gray-900 dark:text-white' : 'text-gray-600 dark:text-gray-400'
+          }`}>
+            {node.segment}
+          </span>
+          {hasChildren && <span className="ml-1 text-xs text-gray-400">({node.leafCount})</span>}
+          {isVanished && <span className="ml-2 text-xs text-red-600 dark:text-red-400">사라짐</span>}
+        </div>
+        {hasChildren && isOpen && <ul>{renderBranch(node.children, depth + 1)}</ul>}
+      </li>
+    );
+  });
+
+  // issue / recommendation 문장 + 언급된 토픽 링크
+  const renderFinding = (text: string, index: number) => {
+    const referenced = findReferencedNames(text, snapshot.topics);
+    return (
+      <li key={index} className="text-sm text-gray-700 dark:text-gray-300">
+        <span>{text}</span>
+        {referenced.length > 0 && (
+          <span className="ml-2 inline-flex flex-wrap gap-1">
+            {referenced.map(name => (
+              <button
+                key={name}
+                onClick={() => select('topic', name)}
+                className="px-1.5 py-0.5 rounded bg-blue-50 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300 font-mono text-xs hover:underline"
+              >
+                {name}
+              </button>
+            ))}
+          </span>
+        )}
+      </li>
+    );
+  };
+
+  const health = snapshot.health;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {/* 헤더 */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">ROS2 탐색기</h1>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              토픽, 노드, 서비스 목록과 등장/사라짐 이력을 보여줍니다
+            </p>
+          </div>
+          <button
+            onClick={clearTimeline}
+            disabled={snapshot.timeline.length === 0}
+            className="flex items-center px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            타임라인 비우기
+          </button>
+        </div>
+
+        {/* 사라진 노드 */}
+        {snapshot.vanishedNodes.length > 0 && (
+          <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg p-4">
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex items-start gap-3">
+                <XCircle className="w-6 h-6 text-red-600 dark:text-red-400 flex-shrink-0" />
+                <div>
+                  <h2 className="font-semibold text-red-800 dark:text-red-200">
+                    노드 {snapshot.vanishedNodes.length}개가 사라졌습니다
+                  </h2>
+                  <div className="mt-2 space-y-1">
+                    {vanishedByNamespace.map(([namespace, names]) => (
+                      <div key={namespace} className="text-sm text-red-700 dark:text-red-300">
+                        <span className="font-mono font-medium">{namespace}</span>
+                        <span className="mx-2">·</span>
+                        {names.map(name => (
+                          <button
+                            key={name}
+                            onClick={() => select('node', name)}
+                            className="mr-2 font-mono hover:underline"
+                          >
+                            {name}
+                          </button>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                  <p className="mt-2 text-xs text-red-600 dark:text-red-400">
+                    마지막 사라짐 {formatTime(snapshot.vanishedNodes[0].vanishedAt)} · 다시 나타나면 자동으로 목록에서 빠집니다
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={dismissVanishedNodes}
+                className="px-3 py-1 text-sm bg-white dark:bg-gray-800 text-red-700 dark:text-red-300 rounded border border-red-200 dark:border-red-700"
+              >
+                확인
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* 요약 */}
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          {KINDS.map(target => (
+            <button
+              key={target}
+              onClick={() => setKind(target)}
+              className={`text-left bg-white dark:bg-gray-800 rounded-lg shadow-lg p-4 border-2 transition-colors ${
+                kind === target ? 'border-blue-500' : 'border-transparent'
+              }`}
+            >
+              <div className="text-sm text-gray-500 dark:text-gray-400">{ROS2_GRAPH_KIND_LABELS[target]}</div>
+              <div className="text-2xl font-bold text-gray-900 dark:text-white">
+                {target === 'node' ? snapshot.nodes.length : target === 'topic' ? snapshot.topics.length : snapshot.services.length}
+              </div>
+              <div className="text-xs text-gray-400">
+                {snapshot.updatedAt[target] ? `${formatTime(snapshot.updatedAt[target]!)} 갱신` : '수신 대기 중'}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        {/* 상태 분석 */}
+        {health && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+            <div className="flex items-center gap-3 mb-4">
+              {health.status === 'healthy'
+                ? <CheckCircle className="w-5 h-5 text-green-500" />
+                : <AlertTriangle className="w-5 h-5 text-yellow-500" />}
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">토픽 상태 분석</h2>
+              <span className={`px-2 py-0.5 rounded text-xs font-medium ${HEALTH_LABELS[health.status].className}`}>
+                {HEALTH_LABELS[health.status].label}
+              </span>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div>
+                <h3 className="flex items-center gap-2 mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                  <AlertTriangle className="w-4 h-4" /> 문제 ({health.issues.length})
+                </h3>
+                {health.issues.length > 0
+                  ? <ul className="space-y-1 list-disc pl-5">{health.issues.map(renderFinding)}</ul>
+                  : <p className="text-sm text-gray-500">보고된 문제가 없습니다</p>}
+              </div>
+              <div>
+                <h3 className="flex items-center gap-2 mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                  <Lightbulb className="w-4 h-4" /> 권장 조치 ({health.recommendations.length})
+                </h3>
+                {health.recommendations.length > 0
+                  ? <ul className="space-y-1 list-disc pl-5">{health.recommendations.map(renderFinding)}</ul>
+                  : <p className="text-sm text-gray-500">권장 조치가 없습니다</p>}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* 네임스페이스 트리 */}
+          <div className="lg:col-span-2 bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+              <Network className="w-5 h-5 text-blue-500" />
+              <div className="flex rounded-md overflow-hidden border border-gray-300 dark:border-gray-600">
+                {KINDS.map(target => (
+                  <button
+                    key={target}
+                    onClick={() => setKind(target)}
+                    className={`px-3 py-1.5 text-sm ${
+                      kind === target ? 'bg-blue-600 text-white' : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                    }`}
+                  >
+                    {ROS2_GRAPH_KIND_LABELS[target]}
+                  </button>
+                ))}
+              </div>
+              <div className="relative flex-1 min-w-[200px]">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                <input
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder={`${ROS2_GRAPH_KIND_LABELS[kind]} 이름 검색`}
+                  className={`${INPUT_CLASS} w-full pl-9`}
+                />
+              </div>
+            </div>
+
+            {tree.length > 0 ? (
+              <ul className="max-h-[32rem] overflow-y-auto">{renderBranch(tree, 0)}</ul>
+            ) : (
+              <p className="py-8 text-center text-sm text-gray-500">
+                {namesByKind[kind].length === 0 ? `${ROS2_GRAPH_KIND_LABELS[kind]} 리스트 수신 대기 중` : '검색 결과가 없습니다'}
+              </p>
+            )}
+
+            {selected && (
+              <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+                <div className="text-sm text-gray-500 dark:text-gray-400">{ROS2_GRAPH_KIND_LABELS[selected.kind]}</div>
+                <div className="font-mono text-gray-900 dark:text-white break-all">{selected.name}</div>
+                {selectedEvents.length > 0 ? (
+                  <ul className="mt-2 space-y-1 text-sm">
+                    {selectedEvents.slice(0, 10).map(event => (
+                      <li key={event.id} className={event.change === 'appeared' ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400'}>
+                        {formatTime(event.timestamp)} {event.change === 'appeared' ? '등장' : '사라짐'}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="mt-2 text-sm text-gray-500">이 페이지를 연 뒤 변화가 없습니다</p>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* 타임라인 */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white">
+                <Clock className="w-5 h-5" /> 타임라인
+              </h2>
+              <select
+                value={timelineKind}
+                onChange={(e) => setTimelineKind(e.target.value as ROS2GraphKind | '')}
+                className={INPUT_CLASS}
+              >
+                <option value="">전체</option>
+                {KINDS.map(target => (
+                  <option key={target} value={target}>{ROS2_GRAPH_KIND_LABELS[target]}</option>
+                ))}
+              </select>
+            </div>
+            {timeline.length > 0 ? (
+              <ul className="max-h-[32rem] overflow-y-auto space-y-2">
+                {timeline.map(event => (
+                  <li key={event.id} className="flex items-start gap-2 text-sm">
+                    <span className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${event.change === 'appeared' ? 'bg-green-500' : 'bg-red-500'}`} />
+                    <div className="min-w-0">
+                      <button
+                        onClick={() => select(event.kind, event.name)}
+                        className="font-mono text-gray-900 dark:text-white hover:underline break-all text-left"
+                      >
+                        {event.name}
+                      </button>
+                      <div className="text-xs text-gray-500">
+                        {formatTime(event.timestamp)} · {ROS2_GRAPH_KIND_LABELS[event.kind]} {event.change === 'appeared' ? '등장' : '사라짐'}
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="py-8 text-center text-sm text-gray-500">아직 변화가 없습니다</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ROS2Explorer;
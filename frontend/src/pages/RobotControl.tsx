@@ -12,29 +12,39 @@ import {
   Settings,
   Target,
   Home,
-  AlertTriangle 
+  AlertTriangle,
+  MapPin,
+  FileCode
 } from 'lucide-react';
 
 // 컴포넌트
 import RobotControlPanel from '../components/controls/RobotControlPanel';
 import JointControlPanel from '../components/controls/JointControlPanel';
 import PositionControlPanel from '../components/controls/PositionControlPanel';
+import WaypointTeachPanel from '../components/controls/WaypointTeachPanel';
+import ProgramControl from '../components/controls/ProgramControl';
 import EmergencyStopButton from '../components/controls/EmergencyStopButton';
 import RobotVisualization from '../components/visualization/RobotVisualization';
 
 // 훅과 스토어
 import { useRobotStore } from '../store/robotStore';
-import { sendRobotCommand } from '../services/commandSender';
+import { useAuth } from '../hooks/useAuth';
+import { useConnectionWatchdog } from '../hooks/useConnectionWatchdog';
 import toast from 'react-hot-toast';
 
+// 감사 로그에 남길 명령 출처
+const AUDIT_SOURCE = 'RobotControl';
+
 const RobotControl: React.FC = () => {
-  const { isConnected, status, jointPositions } = useRobotStore();
-  const [activeTab, setActiveTab] = useState<'basic' | 'joint' | 'position'>('basic');
+  const { isConnected, sendEmergencyStop, sendHomeCommand } = useRobotStore();
+  const { can } = useAuth();
+  const { motionLocked } = useConnectionWatchdog();
+  const [activeTab, setActiveTab] = useState<'basic' | 'joint' | 'position' | 'teach' | 'program'>('basic');
   const [isLoading, setIsLoading] = useState(false);
 
   const handleEmergencyStop = async () => {
     try {
-      await sendRobotCommand('emergency_stop');
+      if (!(await sendEmergencyStop(AUDIT_SOURCE))) throw new Error('emergency stop failed');
       toast.error('비상 정지 실행');
     } catch (error) {
       toast.error('비상 정지 실패');
@@ -49,8 +59,8 @@ const RobotControl: React.FC = () => {
 
     setIsLoading(true);
     try {
-      await sendRobotCommand('home');
-      toast.success('홈 위치로 이동 중');
+      if (!(await sendHomeCommand(undefined, AUDIT_SOURCE))) throw new Error('home failed');
+      toast.success('홈 위치 이동 완료');
     } catch (error) {
       toast.error('홈 위치 이동 실패');
     } finally {
@@ -62,6 +72,8 @@ const RobotControl: React.FC = () => {
     { id: 'basic', label: '기본 제어', icon: Play },
     { id: 'joint', label: '관절 제어', icon: Settings },
     { id: 'position', label: '위치 제어', icon: Target },
+    { id: 'teach', label: '티칭', icon: MapPin },
+    { id: 'program', label: '프로그램', icon: FileCode },
   ];
 
   return (
@@ -92,7 +104,7 @@ const RobotControl: React.FC = () => {
               {/* 홈 위치 버튼 */}
               <button
                 onClick={handleHomePosition}
-                disabled={!isConnected || isLoading}
+                disabled={!isConnected || isLoading || !can('home') || motionLocked}
                 className="flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg font-medium transition-colors"
               >
                 <Home className="w-4 h-4 mr-2" />
@@ -165,6 +177,8 @@ const RobotControl: React.FC = () => {
               {activeTab === 'basic' && <RobotControlPanel />}
               {activeTab === 'joint' && <JointControlPanel />}
               {activeTab === 'position' && <PositionControlPanel />}
+              {activeTab === 'teach' && <WaypointTeachPanel />}
+              {activeTab === 'program' && <ProgramControl />}
             </motion.div>
           </div>
         </div>
@@ -19,6 +19,7 @@ import {
 import SensorDataGrid from '../components/visualization/SensorDataGrid';
 import RealtimeChart from '../components/visualization/RealtimeChart';
 import SensorHistoryChart from '../components/visualization/SensorHistoryChart';
+import ScaleFilterComparison from '../components/visualization/ScaleFilterComparison';
 import SensorAlerts from '../components/monitoring/SensorAlerts';
 import DataExportPanel from '../components/monitoring/DataExportPanel';
 
@@ -49,7 +50,13 @@ const getTemperatureValue = (data: any): number => {
 
 const SensorMonitoring: React.FC = () => {
   const { sensorData, connectionStatus, lastUpdate } = useMqttData();
-  const { data: chartData, isLoading: chartLoading } = useRealtimeChart();
+  const {
+    data: chartData,
+    scaleFilterData,
+    scaleFilterMetrics,
+    officialScaleFilter,
+    setOfficialScaleFilter
+  } = useRealtimeChart({ maxDataPoints: 150 });
   const [selectedTimeRange, setSelectedTimeRange] = useState<string>('1h');
   const [showExportPanel, setShowExportPanel] = useState(false);
 
@@ -165,6 +172,16 @@ const SensorMonitoring: React.FC = () => {
           </div>
         </div>
 
+        {/* 저울 필터 비교 */}
+        <div className="mb-6">
+          <ScaleFilterComparison
+            data={scaleFilterData}
+            metrics={scaleFilterMetrics}
+            officialFilter={officialScaleFilter}
+            onOfficialFilterChange={setOfficialScaleFilter}
+          />
+        </div>
+
         {/* 상세 분석 */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* 무게 센서 상세 */}
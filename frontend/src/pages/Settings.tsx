@@ -2,7 +2,7 @@
  * 설정 페이지
  * 시스템 설정과 환경 구성을 관리하는 페이지
  */
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import { 
   Settings as SettingsIcon,
@@ -13,9 +13,13 @@ import {
   Shield,
   Database,
   Save,
-  RotateCcw
+  RotateCcw,
+  AlertTriangle
 } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { settingsService } from '../services/settingsService';
+import { AppSettings } from '../types/settingsTypes';
+import { useAuth } from '../hooks/useAuth';
 
 // 컴포넌트
 import ConnectionSettings from '../components/settings/ConnectionSettings';
@@ -27,7 +31,14 @@ import DataSettings from '../components/settings/DataSettings';
 
 const Settings: React.FC = () => {
   const [activeSection, setActiveSection] = useState<string>('connection');
-  const [hasChanges, setHasChanges] = useState(false);
+  const { can, roleLabel } = useAuth();
+  const canChange = can('change_settings');
+  // 저장 전까지 편집 중인 설정 - 저장 시 검증 후 settingsService 가 영속화/적용
+  const [saved, setSaved] = useState<AppSettings>(() => settingsService.getSettings());
+  const [draft, setDraft] = useState<AppSettings>(saved);
+
+  const errors = useMemo(() => settingsService.validate(draft), [draft]);
+  const hasChanges = useMemo(() => JSON.stringify(draft) !== JSON.stringify(saved), [draft, saved]);
 
   const sections = [
     { id: 'connection', label: '연결 설정', icon: Wifi },
@@ -38,40 +49,43 @@ const Settings: React.FC = () => {
     { id: 'data', label: '데이터 설정', icon: Database },
   ];
 
-  const handleSave = async () => {
+  const handleSave = () => {
     try {
-      // 설정 저장 로직
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      settingsService.save(draft);
+      const stored = settingsService.getSettings();
+      setSaved(stored);
+      setDraft(stored);
       toast.success('설정이 저장되었습니다');
-      setHasChanges(false);
     } catch (error) {
-      toast.error('설정 저장에 실패했습니다');
+      toast.error(error instanceof Error ? error.message : '설정 저장에 실패했습니다');
     }
   };
 
   const handleReset = () => {
-    if (window.window.window.window.confirm('모든 설정을 초기값으로 되돌리시겠습니까?')) {
+    if (window.confirm('모든 설정을 초기값으로 되돌리시겠습니까?')) {
+      settingsService.reset();
+      const defaults = settingsService.getSettings();
+      setSaved(defaults);
+      setDraft(defaults);
       toast.success('설정이 초기화되었습니다');
-      setHasChanges(false);
     }
   };
 
   const renderSettingsContent = () => {
     switch (activeSection) {
-      case 'connection':
-        return <ConnectionSettings onChange={() => setHasChanges(true)} />;
       case 'robot':
-        return <RobotSettings onChange={() => setHasChanges(true)} />;
+        return <RobotSettings settings={draft} onChange={setDraft} />;
       case 'notifications':
-        return <NotificationSettings onChange={() => setHasChanges(true)} />;
+        return <NotificationSettings settings={draft} onChange={setDraft} />;
       case 'theme':
-        return <ThemeSettings onChange={() => setHasChanges(true)} />;
+        return <ThemeSettings />;
       case 'security':
-        return <SecuritySettings onChange={() => setHasChanges(true)} />;
+        return <SecuritySettings settings={draft} onChange={setDraft} />;
       case 'data':
-        return <DataSettings onChange={() => setHasChanges(true)} />;
+        return <DataSettings settings={draft} onChange={setDraft} />;
+      case 'connection':
       default:
-        return <ConnectionSettings onChange={() => setHasChanges(true)} />;
+        return <ConnectionSettings settings={draft} onChange={setDraft} />;
     }
   };
 
@@ -91,6 +105,11 @@ const Settings: React.FC = () => {
             </div>
 
             <div className="flex items-center space-x-3">
+              {!canChange && (
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  현재 역할({roleLabel})은 설정을 저장할 수 없습니다
+                </span>
+              )}
               {hasChanges && (
                 <span className="text-sm text-yellow-600 dark:text-yellow-400 font-medium">
                   저장되지 않은 변경사항이 있습니다
@@ -99,7 +118,8 @@ const Settings: React.FC = () => {
               
               <button
                 onClick={handleReset}
-                className="flex items-center px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg transition-colors"
+                disabled={!canChange}
+                className="flex items-center px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg disabled:opacity-50 transition-colors"
               >
                 <RotateCcw className="w-4 h-4 mr-2" />
                 초기화
@@ -107,7 +127,7 @@ const Settings: React.FC = () => {
 
               <button
                 onClick={handleSave}
-                disabled={!hasChanges}
+                disabled={!canChange || !hasChanges || errors.length > 0}
                 className="flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg transition-colors"
               >
                 <Save className="w-4 h-4 mr-2" />
@@ -117,6 +137,21 @@ const Settings: React.FC = () => {
           </div>
         </div>
 
+        {/* 검증 오류 */}
+        {errors.length > 0 && (
+          <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg">
+            <div className="flex items-center mb-2 text-sm font-medium text-red-700 dark:text-red-300">
+              <AlertTriangle className="w-4 h-4 mr-2" />
+              저장하려면 다음 항목을 수정하세요
+            </div>
+            <ul className="list-disc list-inside space-y-1 text-sm text-red-600 dark:text-red-400">
+              {errors.map(error => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* 메인 레이아웃 */}
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
           {/* 사이드바 */}
@@ -0,0 +1,329 @@
+/**
+ * 감사 로그 서비스 (IndexedDB)
+ * 운영자 동작과 로봇 명령을 사용자/출처/파라미터/결과/지연 시간/발행 시점 로봇 상태와 함께 기록한다.
+ * 명령은 발행 시 pending 으로 기록되고 완료되면 결과와 지연 시간으로 갱신된다.
+ * 사용자/로봇 상태는 authService, RobotStateContext 가 등록한 공급자에서 읽는다 (순환 import 방지).
+ * IndexedDB 를 쓸 수 없는 환경에서는 메모리에만 보관한다.
+ */
+import { ExportFile } from '../types/exportTypes';
+import {
+  AuditActor,
+  AuditEntry,
+  AuditQuery,
+  AuditRecordInput,
+  AuditResult,
+  AuditRobotSnapshot
+} from '../types/auditTypes';
+import { toAuditCsv, toAuditNdjson } from '../utils/exportFormats';
+
+export type AuditExportFormat = 'csv' | 'ndjson';
+
+const DB_NAME = 'robot_dashboard_audit';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+const RETENTION_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MEMORY_LIMIT = 5000;                    // 메모리 전용 모드 최대 보관 항목
+export const DEFAULT_QUERY_LIMIT = 1000;
+
+const ANONYMOUS_ACTOR: AuditActor = { username: null, displayName: '익명', role: 'viewer' };
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const matchesQuery = (entry: AuditEntry, query: AuditQuery): boolean => {
+  if (query.category && entry.category !== query.category) return false;
+  if (query.result && entry.result !== query.result) return false;
+  if (query.username !== undefined && (entry.user.username ?? '') !== query.username) return false;
+  if (query.from !== undefined && entry.timestamp < query.from) return false;
+  if (query.to !== undefined && entry.timestamp > query.to) return false;
+  if (query.text) {
+    const text = query.text.toLowerCase();
+    const haystack = [
+      entry.action,
+      entry.source,
+      entry.message,
+      entry.commandId,
+      entry.user.displayName,
+      entry.params ? JSON.stringify(entry.params) : ''
+    ].join(' ').toLowerCase();
+    if (!haystack.includes(text)) return false;
+  }
+  return true;
+};
+
+class AuditService {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private persistent = true;
+  private memory: AuditEntry[] = [];
+  private sequence = 0;
+  private userProvider: () => AuditActor = () => ANONYMOUS_ACTOR;
+  private robotStateProvider: (() => AuditRobotSnapshot | null) | null = null;
+  private listeners: Array<(entry: AuditEntry | null) => void> = [];
+
+  constructor() {
+    this.prune();
+  }
+
+  // ===== 공급자 =====
+  setUserProvider(provider: () => AuditActor): void {
+    this.userProvider = provider;
+  }
+
+  /**
+   * 발행 시점 로봇 상태 공급자 - RobotStateContext 가 마운트될 때 등록 (null 이면 해제)
+   */
+  setRobotStateProvider(provider: (() => AuditRobotSnapshot | null) | null): void {
+    this.robotStateProvider = provider;
+  }
+
+  // ===== 기록 =====
+  /**
+   * 동작 시작 기록 - 결과가 정해지지 않았으면 pending, complete() 로 갱신
+   */
+  begin(input: AuditRecordInput): AuditEntry {
+    const timestamp = Date.now();
+    const entry: AuditEntry = {
+      id: `audit_${timestamp}_${++this.sequence}`,
+      timestamp,
+      category: input.category,
+      action: input.action,
+      source: input.source,
+      user: this.currentActor(),
+      result: input.result ?? 'pending',
+      ...(input.params && { params: input.params }),
+      ...(input.commandId && { commandId: input.commandId }),
+      ...(input.message && { message: input.message })
+    };
+
+    const robotState = this.snapshotRobotState();
+    if (robotState) entry.robotState = robotState;
+
+    this.save(entry);
+    return entry;
+  }
+
+  /**
+   * 동작 완료 기록 - 결과, 메시지, 발행 후 경과 시간(ms)
+   */
+  complete(entry: AuditEntry, result: Exclude<AuditResult, 'pending'>, message?: string): AuditEntry {
+    const completed: AuditEntry = {
+      ...entry,
+      result,
+      latencyMs: Date.now() - entry.timestamp,
+      ...(message && { message })
+    };
+    this.save(completed);
+    return completed;
+  }
+
+  /**
+   * 즉시 끝나는 동작 기록 (로그인, 설정 저장 등)
+   */
+  record(input: AuditRecordInput): AuditEntry {
+    return this.begin({ ...input, result: input.result ?? 'success' });
+  }
+
+  // ===== 조회 =====
+  /**
+   * 필터 조회 - 최신순, limit 개까지
+   */
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    const entries = await this.readRange(query.from, query.to);
+    return entries
+      .filter(entry => matchesQuery(entry, query))
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, query.limit ?? DEFAULT_QUERY_LIMIT);
+  }
+
+  /**
+   * 기록에 등장한 사용자 목록 (필터 선택지)
+   */
+  async getUsers(): Promise<AuditActor[]> {
+    const users = new Map<string, AuditActor>();
+    (await this.readRange()).forEach(entry => users.set(entry.user.username ?? '', entry.user));
+    return Array.from(users.values());
+  }
+
+  /**
+   * 조회 결과를 파일로 내보내기
+   */
+  async export(query: AuditQuery, format: AuditExportFormat): Promise<ExportFile> {
+    const entries = (await this.query({ ...query, limit: Number.MAX_SAFE_INTEGER })).reverse();
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const filename = `audit_log_${stamp}.${format}`;
+    const blob = format === 'csv'
+      ? new Blob([toAuditCsv(entries)], { type: 'text/csv' })
+      : new Blob([toAuditNdjson(entries)], { type: 'application/x-ndjson' });
+    return { filename, blob, rows: entries.length };
+  }
+
+  // ===== 저장 / 정리 =====
+  /**
+   * 보관 기간(RETENTION_DAYS)이 지난 항목 삭제
+   */
+  async prune(now = Date.now()): Promise<void> {
+    const cutoff = now - RETENTION_DAYS * DAY_MS;
+    this.memory = this.memory.filter(entry => entry.timestamp >= cutoff);
+
+    const db = await this.openDatabase();
+    if (!db) return;
+    try {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const request = transaction.objectStore(STORE_NAME).index('timestamp').openCursor(IDBKeyRange.upperBound(cutoff, true));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        cursor.delete();
+        cursor.continue();
+      };
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error('❌ 감사 로그 정리 실패:', error);
+    }
+  }
+
+  /**
+   * 감사 로그 전체 삭제
+   */
+  async clear(): Promise<void> {
+    this.memory = [];
+    const db = await this.openDatabase();
+    if (db) {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      transaction.objectStore(STORE_NAME).clear();
+      await transactionDone(transaction);
+    }
+    console.log('🗑️ 감사 로그 삭제 완료');
+    this.notify(null);
+  }
+
+  isPersistent(): boolean {
+    return this.persistent;
+  }
+
+  getRetentionDays(): number {
+    return RETENTION_DAYS;
+  }
+
+  // ===== 리스너 =====
+  onChange(listener: (entry: AuditEntry | null) => void): void {
+    this.listeners.push(listener);
+  }
+
+  offChange(listener: (entry: AuditEntry | null) => void): void {
+    this.listeners = this.listeners.filter(existing => existing !== listener);
+  }
+
+  // ===== 내부 =====
+  private currentActor(): AuditActor {
+    try {
+      return this.userProvider();
+    } catch (error) {
+      console.error('❌ 감사 로그 사용자 확인 실패:', error);
+      return ANONYMOUS_ACTOR;
+    }
+  }
+
+  private snapshotRobotState(): AuditRobotSnapshot | null {
+    if (!this.robotStateProvider) return null;
+    try {
+      const snapshot = this.robotStateProvider();
+      return snapshot ? { ...snapshot, jointPositions: [...snapshot.jointPositions] } : null;
+    } catch (error) {
+      console.error('❌ 감사 로그 로봇 상태 확인 실패:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 항목 저장 (같은 ID 는 덮어씀) - 같은 DB 연결의 트랜잭션은 생성 순서대로 처리되므로 begin → complete 순서 유지
+   */
+  private save(entry: AuditEntry): void {
+    this.openDatabase().then(async db => {
+      if (db) {
+        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        transaction.objectStore(STORE_NAME).put(entry);
+        await transactionDone(transaction);
+      } else {
+        this.memory = [entry, ...this.memory.filter(existing => existing.id !== entry.id)].slice(0, MEMORY_LIMIT);
+      }
+      // 저장 후 알림 - 리스너가 바로 다시 조회해도 새 항목이 포함되도록
+      this.notify(entry);
+    }).catch(error => {
+      console.error('❌ 감사 로그 저장 실패:', error);
+    });
+  }
+
+  private async readRange(from?: number, to?: number): Promise<AuditEntry[]> {
+    const db = await this.openDatabase();
+    if (!db) return [...this.memory];
+    try {
+      const index = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index('timestamp');
+      const range = from !== undefined && to !== undefined
+        ? IDBKeyRange.bound(from, to)
+        : from !== undefined
+          ? IDBKeyRange.lowerBound(from)
+          : to !== undefined
+            ? IDBKeyRange.upperBound(to)
+            : undefined;
+      return await requestResult(index.getAll(range) as IDBRequest<AuditEntry[]>);
+    } catch (error) {
+      console.error('❌ 감사 로그 조회 실패:', error);
+      return [];
+    }
+  }
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          console.warn('⚠️ IndexedDB 를 사용할 수 없어 감사 로그를 메모리에만 보관합니다');
+          this.persistent = false;
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            store.createIndex('timestamp', 'timestamp');
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.error('❌ 감사 로그 DB 열기 실패:', request.error);
+          this.persistent = false;
+          resolve(null);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private notify(entry: AuditEntry | null): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(entry);
+      } catch (error) {
+        console.error('❌ 감사 로그 리스너 오류:', error);
+      }
+    });
+  }
+}
+
+export const auditService = new AuditService();
+
+export default AuditService;
@@ -0,0 +1,232 @@
+/**
+ * 인증/권한 서비스 - 역할 기반 명령 권한 (configs/auth/roles.json)
+ * 로그인하지 않은 화면은 anonymous_role(관찰자) 권한으로 동작하고,
+ * 로그인 토큰은 CommandSenderService/ProgramService 요청에 Bearer 헤더로 첨부되어 백엔드에서 다시 검사된다.
+ * Mock 모드(실제 로봇/백엔드 없음)에서는 역할 이름으로 로그인하는 로컬 대체 인증 - 계정 해시는 번들에 포함하지 않음
+ * 로그인/로그아웃은 감사 로그에 기록되고, 감사 로그의 사용자 정보도 이 서비스에서 공급한다.
+ */
+import axios from 'axios';
+import { getApiUrl, isMockDataEnabled } from '../config';
+import { AppPermission, AuthSession, AuthUser, RoleDefinition, RolesConfig, UserRole } from '../types/authTypes';
+import { storage } from '../utils';
+import { auditService } from './auditService';
+import rolesConfig from '../../../configs/auth/roles.json';
+
+const SESSION_STORAGE_KEY = 'auth_session';
+const MOCK_SESSION_HOURS = 8;
+
+const ROLES = rolesConfig as RolesConfig;
+
+export const USER_ROLES = Object.keys(ROLES.roles) as UserRole[];
+
+/**
+ * 상속(inherits)을 따라 역할의 전체 권한 계산
+ */
+const resolvePermissions = (role: UserRole, visited: UserRole[] = []): AppPermission[] => {
+  const definition = ROLES.roles[role];
+  if (!definition || visited.includes(role)) return [];
+  const inherited = definition.inherits ? resolvePermissions(definition.inherits, [...visited, role]) : [];
+  return Array.from(new Set([...inherited, ...definition.permissions]));
+};
+
+const ROLE_PERMISSIONS = USER_ROLES.reduce((matrix, role) => {
+  matrix[role] = new Set(resolvePermissions(role));
+  return matrix;
+}, {} as Record<UserRole, Set<AppPermission>>);
+
+// 권한 부족 메시지에 표시할 동작 이름
+const PERMISSION_LABELS: Partial<Record<AppPermission, string>> = {
+  move_joint: '관절 이동',
+  move_linear: '직선 이동',
+  home: '홈 이동',
+  set_speed: '속도 설정',
+  calibrate: '캘리브레이션',
+  release_emergency_stop: '비상정지 해제',
+  set_power: '전원 제어',
+  set_motor: '모터 제어',
+  set_safety_mode: '안전 모드 변경',
+  release_protective_stop: '보호 정지 해제',
+  run_program: '프로그램 실행',
+  set_concentration: '농도 목표 설정',
+  edit_program: '프로그램 편집',
+  change_settings: '설정 변경',
+  manage_security: '보안 설정 변경',
+  debug_publish: '디버그 메시지 발행'
+};
+
+class AuthService {
+  private session: AuthSession | null;
+  private listeners: Array<(session: AuthSession | null) => void> = [];
+
+  constructor() {
+    this.session = storage.get<AuthSession>(SESSION_STORAGE_KEY);
+    auditService.setUserProvider(() => {
+      const user = this.getUser();
+      return user
+        ? { username: user.username, displayName: user.displayName, role: user.role }
+        : { username: null, displayName: '익명', role: this.getRole() };
+    });
+  }
+
+  // ===== 세션 =====
+  getSession(): AuthSession | null {
+    if (this.session && new Date(this.session.expiresAt).getTime() <= Date.now()) {
+      console.log('🔒 로그인 세션 만료');
+      this.setSession(null);
+    }
+    return this.session;
+  }
+
+  getUser(): AuthUser | null {
+    return this.getSession()?.user ?? null;
+  }
+
+  getRole(): UserRole {
+    return this.getUser()?.role ?? ROLES.anonymous_role;
+  }
+
+  /**
+   * 로그인 - 백엔드 /api/auth/login (Mock 모드에서는 역할 이름)
+   */
+  async login(username: string, pin: string): Promise<AuthSession> {
+    const name = username.trim();
+    if (!name || !pin) {
+      throw new Error('사용자 이름과 PIN 을 입력하세요');
+    }
+
+    let session: AuthSession;
+    try {
+      session = await this.authenticate(name, pin);
+    } catch (error) {
+      auditService.record({
+        category: 'auth',
+        action: 'login',
+        source: 'AuthService',
+        params: { username: name },
+        result: 'failed',
+        message: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+
+    this.setSession(session);
+    auditService.record({ category: 'auth', action: 'login', source: 'AuthService', params: { username: name } });
+    console.log(`🔓 로그인: ${session.user.displayName} (${this.getRoleLabel(session.user.role)})`);
+    return session;
+  }
+
+  logout(): void {
+    if (!this.session) return;
+    auditService.record({ category: 'auth', action: 'logout', source: 'AuthService' });
+    console.log(`🔒 로그아웃: ${this.session.user.displayName}`);
+    this.setSession(null);
+  }
+
+  // ===== 권한 =====
+  getRoles(): Array<RoleDefinition & { role: UserRole }> {
+    return USER_ROLES.map(role => ({ ...ROLES.roles[role], role }));
+  }
+
+  getRoleLabel(role: UserRole = this.getRole()): string {
+    return ROLES.roles[role]?.label ?? role;
+  }
+
+  getPermissionLabel(permission: AppPermission): string {
+    return PERMISSION_LABELS[permission] ?? permission;
+  }
+
+  can(permission: AppPermission, role: UserRole = this.getRole()): boolean {
+    return ROLE_PERMISSIONS[role]?.has(permission) ?? false;
+  }
+
+  /**
+   * 권한이 필요한 최소 역할 (UI 안내용)
+   */
+  getRequiredRole(permission: AppPermission): UserRole | null {
+    return USER_ROLES.find(role => this.can(permission, role)) ?? null;
+  }
+
+  assertPermission(permission: AppPermission): void {
+    if (this.can(permission)) return;
+    const required = this.getRequiredRole(permission);
+    throw new Error(
+      `권한 없음: ${this.getPermissionLabel(permission)} 은(는) ${required ? this.getRoleLabel(required) : '관리자'} 이상만 가능합니다 (현재: ${this.getRoleLabel()})`
+    );
+  }
+
+  /**
+   * 명령 요청에 첨부할 인증 헤더
+   */
+  getAuthHeaders(): Record<string, string> {
+    const session = this.getSession();
+    return session ? { Authorization: `Bearer ${session.token}` } : {};
+  }
+
+  // ===== 리스너 =====
+  onChange(listener: (session: AuthSession | null) => void): void {
+    this.listeners.push(listener);
+  }
+
+  offChange(listener: (session: AuthSession | null) => void): void {
+    this.listeners = this.listeners.filter(existing => existing !== listener);
+  }
+
+  // ===== 내부 =====
+  /**
+   * 사용자 이름/PIN 확인 - 백엔드 /api/auth/login
+   * Mock 모드는 시뮬레이터만 조작하므로 사용자 이름을 역할 이름(operator, engineer ...)으로 받고 PIN 은 확인하지 않음
+   */
+  private async authenticate(name: string, pin: string): Promise<AuthSession> {
+    if (isMockDataEnabled()) {
+      const role = USER_ROLES.find(candidate => candidate === name);
+      if (!role) {
+        throw new Error(`Mock 모드에서는 역할 이름으로 로그인하세요 (${USER_ROLES.join(', ')})`);
+      }
+      return {
+        user: { username: role, displayName: `${this.getRoleLabel(role)} (Mock)`, role },
+        token: `mock:${role}`,
+        expiresAt: new Date(Date.now() + MOCK_SESSION_HOURS * 3600 * 1000).toISOString()
+      };
+    } else {
+      try {
+        const response = await axios.post(getApiUrl('/api/auth/login'), { username: name, pin }, { timeout: 10000 });
+        const { token, user, expires_at } = response.data;
+        return {
+          user: { username: user.username, displayName: user.display_name, role: user.role },
+          token,
+          expiresAt: expires_at
+        };
+      } catch (error: any) {
+        if (error.response?.status === 401) {
+          throw new Error('사용자 이름 또는 PIN 이 올바르지 않습니다');
+        }
+        if (error.response?.status === 429) {
+          const until = error.response.data?.locked_until;
+          throw new Error(`로그인 시도가 너무 많습니다${until ? ` - ${new Date(until).toLocaleTimeString()} 이후 다시 시도하세요` : ''}`);
+        }
+        throw new Error(`로그인 실패: ${error.response?.data?.message || error.message}`);
+      }
+    }
+  }
+
+  private setSession(session: AuthSession | null): void {
+    this.session = session;
+    if (session) {
+      storage.set(SESSION_STORAGE_KEY, session);
+    } else {
+      storage.remove(SESSION_STORAGE_KEY);
+    }
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(session);
+      } catch (error) {
+        console.error('❌ 인증 리스너 오류:', error);
+      }
+    });
+  }
+}
+
+export const authService = new AuthService();
+
+export default AuthService;
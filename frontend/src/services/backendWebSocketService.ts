@@ -1,8 +1,22 @@
 /**
  * 🎯 Backend WebSocket 기반 데이터 서비스
  * MQTT 브로커에 직접 연결하지 않고, Backend API와 WebSocket을 통해 데이터 수신
+ * 전송 계층(Transport) 구현 - 연결 관리자(connectionManager)가 생성하고 토픽 라우팅을 담당
+ * 수신 프레임은 버전 관리 프로토콜(types/wsProtocolTypes.ts)로 검증 - 구버전 서버는 호환 모드
  */
 import { MqttMessage } from '../types/mqttTypes';
+import { TopicChannel } from '../types/topicTypes';
+import { Transport, TransportStatus } from '../types/transportTypes';
+import { WsDataFrame, WsErrorFrame, WsProtocolMode, WsServerFrame, WsServerHelloFrame } from '../types/wsProtocolTypes';
+import { isServerFrameType, negotiateProtocol, validateServerFrame, WS_PROTOCOL_VERSION } from '../utils/wsProtocol';
+import { topicRegistry } from './topicRegistry';
+import { authService } from './authService';
+
+// sensor_data 메시지의 센서 이름 → 논리 채널 (토픽이 없을 때)
+const SENSOR_CHANNELS: Record<string, TopicChannel> = {
+  weight: 'weight',
+  concentration: 'concentrationCurrent'
+};
 
 export interface BackendWebSocketOptions {
   backendUrl?: string;
@@ -13,19 +27,22 @@ export interface BackendWebSocketOptions {
   debug?: boolean;
 }
 
-export class BackendWebSocketService {
+export class BackendWebSocketService implements Transport {
+  readonly kind = 'backend' as const;
   private websocket: WebSocket | null = null;
   private options: Required<BackendWebSocketOptions>;
   private connected = false;
-  private subscriptions = new Set<string>();
-  private messageHandlers = new Map<string, (message: MqttMessage) => void>();
-  private connectionHandlers: ((connected: boolean) => void)[] = [];
   private reconnectAttempts = 0;
   private reconnectTimer: NodeJS.Timeout | null = null;
+  private lastMessageAt: number | null = null;   // 연결 감시용 마지막 수신 시각
+  private latency: number | null = null;         // 마지막 ping → pong 왕복 시간
+  private protocolMode: WsProtocolMode = 'pending';
+  private protocolVersion: number | null = null;
   
-  // 이벤트 핸들러 (기존 MQTT 인터페이스 호환)
-  public onConnected?: () => void;
-  public onConnectionLost?: (error: any) => void;
+  // 이벤트 핸들러 (연결 관리자가 설정)
+  public onMessage?: (message: MqttMessage) => void;
+  public onFrame?: (frame: any) => void;
+  public onConnectionChange?: (connected: boolean) => void;
   public onError?: (error: any) => void;
 
   constructor(options: BackendWebSocketOptions = {}) {
@@ -58,27 +75,31 @@ export class BackendWebSocketService {
           this.log('✅ Backend WebSocket 연결 성공');
           this.connected = true;
           this.reconnectAttempts = 0;
+          this.lastMessageAt = Date.now();
+          this.protocolMode = 'pending';
+          this.protocolVersion = null;
           
-          // 연결 확인 메시지 전송
-          this.sendMessage({
+          // 연결 확인 메시지 전송 (지원 프로토콜 버전 포함)
+          this.send({
             type: 'connection',
+            protocolVersion: WS_PROTOCOL_VERSION,
+            userAgent: navigator.userAgent,
             timestamp: new Date().toISOString()
           });
           
-          // 기존 구독 복원
-          this.restoreSubscriptions();
-          
-          this.onConnected?.();
-          this.connectionHandlers.forEach(handler => handler(true));
+          // 구독 복원은 연결 관리자가 연결 알림을 받고 수행
+          this.onConnectionChange?.(true);
           resolve();
         };
 
         this.websocket.onmessage = (event) => {
+          this.lastMessageAt = Date.now();
           try {
             const data = JSON.parse(event.data);
             this.handleMessage(data);
           } catch (error) {
-            this.log('❌ WebSocket 메시지 파싱 오류:', error);
+            console.warn('⚠️ WebSocket 프레임 JSON 파싱 실패:', error);
+            this.onError?.(new Error('invalid_json: 백엔드 프레임을 해석할 수 없습니다'));
           }
         };
 
@@ -86,9 +107,10 @@ export class BackendWebSocketService {
           this.log('⚠️  WebSocket 연결 끊김:', event.code, event.reason);
           this.connected = false;
           this.websocket = null;
+          this.lastMessageAt = null;
+          this.latency = null;
           
-          this.onConnectionLost?.(event);
-          this.connectionHandlers.forEach(handler => handler(false));
+          this.onConnectionChange?.(false);
           
           // 자동 재연결 시도
           this.attemptReconnect();
@@ -126,95 +148,148 @@ export class BackendWebSocketService {
     }, this.options.reconnectDelay * this.reconnectAttempts);
   }
 
-  private sendMessage(message: any) {
+  // 제어 프레임 전송 (connection_ack, subscribe, ping ...)
+  send(frame: Record<string, any>): boolean {
     if (this.websocket && this.websocket.readyState === WebSocket.OPEN) {
-      this.websocket.send(JSON.stringify(message));
+      this.websocket.send(JSON.stringify(frame));
       return true;
     }
     return false;
   }
 
-  private handleMessage(data: any) {
-    this.log('📨 WebSocket 메시지 수신:', data);
+  private handleMessage(raw: any) {
+    this.log('📨 WebSocket 메시지 수신:', raw);
+
+    const validation = validateServerFrame(raw);
+    if (!validation.ok) {
+      if (this.protocolMode === 'strict') {
+        // 협상된 서버의 규격 위반 프레임은 버리고 오류로 보고 (조용한 데이터 유실 방지)
+        console.warn(`⚠️ 프로토콜 위반 프레임 무시 (${validation.code}):`, validation.message, raw);
+        this.onError?.(new Error(`${validation.code}: ${validation.message}`));
+        return;
+      }
+      // 호환 모드 - 구버전 서버 프레임은 검증 없이 최대한 전달
+      this.log('⚠️ 호환 모드 - 검증 실패 프레임 전달:', validation.message);
+      if (!raw || typeof raw !== 'object') return;
+      if (!isServerFrameType(raw.type)) {
+        // 알 수 없는 프레임은 제어 프레임으로 전달
+        this.log('❓ 알 수 없는 메시지 타입:', raw.type);
+        this.onFrame?.(raw);
+        return;
+      }
+    }
 
-    switch (data.type) {
+    const frame = (validation.ok ? validation.frame : raw) as WsServerFrame;
+    switch (frame.type) {
       case 'connection':
-        // Backend initial connection message - acknowledge it
-        this.log('🔗 백엔드 연결 메시지 수신');
-        this.sendMessage({
-          type: 'connection_ack',
-          clientId: data.clientId,
-          timestamp: new Date().toISOString()
-        });
+        this.handleHello(frame);
+        this.onFrame?.(frame);
         break;
 
       case 'connection_acknowledged':
-        this.log('🔗 연결 확인됨');
+        this.log(`🔗 연결 확인됨 (서버 프로토콜 v${frame.protocolVersion ?? '?'})`);
+        this.onFrame?.(frame);
         break;
 
-      case 'subscribe':
-        // Backend subscription confirmation
-        this.log('📡 구독 확인:', data.topic || 'unknown topic');
+      case 'pong':
+        if (frame.originalTimestamp) {
+          this.latency = Date.now() - new Date(frame.originalTimestamp).getTime();
+        }
+        this.onFrame?.(frame);
         break;
 
-      case 'mqtt_message':
-        // MQTT 메시지를 기존 형식으로 변환
-        const mqttMessage: MqttMessage = {
-          type: 'message',
-          topic: data.topic,
-          data: data.data,
-          timestamp: data.timestamp || new Date().toISOString()
-        };
-        this.dispatchMessage(mqttMessage);
+      case 'subscribed':
+      case 'unsubscribed':
+        this.log(frame.type === 'subscribed' ? '📡 구독 확인:' : '📡 구독 해제 확인:', frame.topic);
+        this.onFrame?.(frame);
         break;
 
+      case 'mqtt_message':
       case 'sensor_data':
-        // 센서 데이터를 MQTT 메시지 형식으로 변환
-        const sensorMessage: MqttMessage = {
-          type: 'message',
-          topic: data.topic || `sensor/${data.sensor}`,
-          data: data.data,
-          timestamp: data.timestamp || new Date().toISOString()
-        };
-        this.dispatchMessage(sensorMessage);
-        break;
-
       case 'ros2_topics':
-        // ROS2 토픽 데이터
-        const ros2Message: MqttMessage = {
-          type: 'message',
-          topic: data.topic || 'ros2_topic_list',
-          data: data.data,
-          timestamp: data.timestamp || new Date().toISOString()
-        };
-        this.dispatchMessage(ros2Message);
-        break;
-
       case 'concentration':
-        // 농도 데이터
-        const concentrationMessage: MqttMessage = {
-          type: 'message',
-          topic: data.topic || 'web/target_concentration',
-          data: data.data,
-          timestamp: data.timestamp || new Date().toISOString()
-        };
-        this.dispatchMessage(concentrationMessage);
+        this.dispatchMessage(this.toMqttMessage(frame));
         break;
 
       case 'error':
-        this.log('❌ 서버 오류:', data.message || data.error || 'Unknown error');
-        this.onError?.(new Error(data.message || data.error || 'Backend WebSocket error'));
+        this.handleErrorFrame(frame);
+        this.onFrame?.(frame);
         break;
 
       case 'status':
-        // System status updates
-        this.log('📊 시스템 상태 업데이트:', data.data || data.status);
+        this.log('📊 시스템 상태 업데이트:', frame.data);
+        this.onFrame?.(frame);
+        break;
+
+      case 'emergency':
+        console.warn('🚨 백엔드 비상 프레임:', frame.message || frame.data);
+        this.onFrame?.(frame);
         break;
+    }
+  }
+
+  // 버전 협상 후 connection_ack 로 협상 결과 통보
+  private handleHello(frame: WsServerHelloFrame) {
+    const { mode, version, error } = negotiateProtocol(frame);
+    this.protocolMode = mode;
+    this.protocolVersion = version;
+
+    if (mode === 'compat') {
+      console.warn(error ? `⚠️ ${error} - 호환 모드로 동작` : '⚠️ 구버전 백엔드(프로토콜 버전 없음) - 호환 모드로 동작');
+    } else {
+      this.log(`🔗 프로토콜 v${version} 협상 완료`);
+    }
+    if (error) {
+      this.onError?.(new Error(`unsupported_version: ${error}`));
+    }
+
+    this.send({
+      type: 'connection_ack',
+      clientId: frame.clientId,
+      protocolVersion: version || WS_PROTOCOL_VERSION,
+      timestamp: new Date().toISOString()
+    });
+  }
 
-      default:
-        this.log('❓ 알 수 없는 메시지 타입 (무시됨):', data.type);
-        // Don't throw error for unknown message types, just log and ignore
+  private handleErrorFrame(frame: WsErrorFrame) {
+    const message = frame.message || frame.error || 'Backend WebSocket error';
+    // 구독 프레임을 모르는 서버의 알림은 오류로 취급하지 않음 (구버전 서버는 code 없이 문자열로 보냄)
+    const ignorable = frame.code === 'unknown_type'
+      ? frame.requestType === 'subscribe' || frame.requestType === 'unsubscribe'
+      : message.includes('Unknown message type') && message.includes('subscribe');
+    if (ignorable) {
+      console.warn('⚠️ WebSocket 프로토콜 메시지 무시됨:', message);
+      return;
+    }
+
+    this.log('❌ 서버 오류:', frame.code, message);
+    this.onError?.(new Error(frame.code ? `${frame.code}: ${message}` : message));
+  }
+
+  // 데이터 프레임 → MqttMessage (토픽이 없으면 토픽 레지스트리 기본값)
+  private toMqttMessage(frame: WsDataFrame): MqttMessage {
+    let topic: string | undefined;
+    switch (frame.type) {
+      case 'mqtt_message':
+        topic = frame.topic;
+        break;
+      case 'sensor_data':
+        topic = frame.topic || this.resolveSensorTopic(frame.sensor);
+        break;
+      case 'ros2_topics':
+        topic = frame.topic || topicRegistry.getTopic('ros2TopicList');
+        break;
+      case 'concentration':
+        topic = frame.topic || topicRegistry.getTopic('targetConcentration');
+        break;
     }
+
+    return {
+      type: 'message',
+      topic,
+      data: frame.data,
+      timestamp: frame.timestamp || new Date().toISOString()
+    };
   }
 
   private dispatchMessage(message: MqttMessage) {
@@ -226,53 +301,16 @@ export class BackendWebSocketService {
       return;
     }
 
-    // 토픽별 핸들러 호출
-    this.messageHandlers.forEach((handler, handlerTopic) => {
-      if (this.topicMatches(handlerTopic, message.topic)) {
-        try {
-          handler(message);
-        } catch (error) {
-          this.log('❌ 메시지 핸들러 오류:', error);
-        }
-      }
-    });
-
-    // 와일드카드 핸들러 호출
-    const wildcardHandler = this.messageHandlers.get('*');
-    if (wildcardHandler) {
-      try {
-        wildcardHandler(message);
-      } catch (error) {
-        this.log('❌ 와일드카드 핸들러 오류:', error);
-      }
-    }
-  }
-
-  // 토픽 매칭 (MQTT 와일드카드 지원)
-  private topicMatches(pattern: string, topic: string | undefined): boolean {
-    if (!topic) return false; // topic이 undefined인 경우 false 반환
-    if (pattern === '*' || pattern === '#') return true;
-    if (pattern === topic) return true;
-    
-    // + 와일드카드 지원
-    if (pattern.includes('+')) {
-      const patternParts = pattern.split('/');
-      const topicParts = topic.split('/');
-      
-      if (patternParts.length !== topicParts.length) return false;
-      
-      return patternParts.every((part, index) => 
-        part === '+' || part === topicParts[index]
-      );
+    try {
+      this.onMessage?.(message);
+    } catch (error) {
+      this.log('❌ 메시지 핸들러 오류:', error);
     }
-    
-    return false;
   }
 
-  private restoreSubscriptions() {
-    this.log('🔄 구독 복원:', Array.from(this.subscriptions));
-    // WebSocket 연결이므로 별도 구독 과정은 필요 없음
-    // 모든 데이터는 자동으로 브로드캐스트됨
+  private resolveSensorTopic(sensor: string): string {
+    const channel = SENSOR_CHANNELS[sensor];
+    return channel ? topicRegistry.getTopic(channel) : `sensors/${sensor}`;
   }
 
   disconnect(): void {
@@ -282,11 +320,17 @@ export class BackendWebSocketService {
     }
 
     if (this.websocket) {
+      // 의도한 해제 - onclose 의 자동 재연결/연결 끊김 알림 방지
+      this.websocket.onclose = null;
       this.websocket.close();
       this.websocket = null;
     }
     
     this.connected = false;
+    this.lastMessageAt = null;
+    this.latency = null;
+    this.protocolMode = 'pending';
+    this.protocolVersion = null;
     this.log('🔌 WebSocket 연결 해제');
   }
 
@@ -296,14 +340,12 @@ export class BackendWebSocketService {
     return this.connect();
   }
 
-  // 🎯 기존 MQTT 인터페이스 호환 메서드들
+  // 🎯 MQTT 구독 - 백엔드는 모든 데이터를 브로드캐스트하므로 알림용 (선택적)
   subscribe(topic: string, qos: 0 | 1 | 2 = 0): void {
     this.log('📡 구독 요청:', topic);
-    this.subscriptions.add(topic);
     
-    // WebSocket을 통해 Backend에 알리기 (선택적)
     if (this.connected) {
-      this.sendMessage({
+      this.send({
         type: 'subscribe',
         topic: topic,
         qos: qos
@@ -313,10 +355,9 @@ export class BackendWebSocketService {
 
   unsubscribe(topic: string): void {
     this.log('📡 구독 해제:', topic);
-    this.subscriptions.delete(topic);
     
     if (this.connected) {
-      this.sendMessage({
+      this.send({
         type: 'unsubscribe',
         topic: topic
       });
@@ -331,11 +372,12 @@ export class BackendWebSocketService {
       return;
     }
 
-    // Backend API를 통해 발행
+    // Backend API를 통해 발행 (관리자 권한 필요, robot/control/* 토픽은 백엔드가 거부)
     fetch(`${this.options.apiUrl}/debug/test-publish`, {
       method: 'POST',
       headers: {
-        'Content-Type': 'application/json'
+        'Content-Type': 'application/json',
+        ...authService.getAuthHeaders()
       },
       body: JSON.stringify({
         topic: topic,
@@ -352,39 +394,12 @@ export class BackendWebSocketService {
     });
   }
 
-  // 메시지 핸들러 등록/해제
-  onMessage(topic: string, handler: (message: MqttMessage) => void): void {
-    this.messageHandlers.set(topic, handler);
-    this.log('📝 메시지 핸들러 등록:', topic);
-  }
-
-  offMessage(topic: string, handler?: (message: MqttMessage) => void): void {
-    this.messageHandlers.delete(topic);
-    this.log('📝 메시지 핸들러 해제:', topic);
-  }
-
-  // 연결 상태 변경 핸들러
-  onConnectionChange(handler: (connected: boolean) => void): void {
-    this.connectionHandlers.push(handler);
-  }
-
-  offConnectionChange(handler: (connected: boolean) => void): void {
-    const index = this.connectionHandlers.indexOf(handler);
-    if (index > -1) {
-      this.connectionHandlers.splice(index, 1);
-    }
-  }
-
   // 상태 확인 메서드들
   isConnected(): boolean {
     return this.connected;
   }
 
-  getSubscriptions(): string[] {
-    return Array.from(this.subscriptions);
-  }
-
-  getConnectionStatus(): 'connected' | 'disconnected' | 'connecting' {
+  getConnectionStatus(): TransportStatus {
     if (this.websocket?.readyState === WebSocket.CONNECTING) return 'connecting';
     return this.connected ? 'connected' : 'disconnected';
   }
@@ -393,8 +408,22 @@ export class BackendWebSocketService {
     return null;
   }
 
-  clearMessages(): void {
-    // 메시지 캐시 클리어
+  // 협상된 프로토콜 (pending: 서버 환영 프레임 대기 / compat: 구버전 서버)
+  getProtocolInfo(): { mode: WsProtocolMode; version: number | null } {
+    return { mode: this.protocolMode, version: this.protocolVersion };
+  }
+
+  // 연결 감시 (ConnectionProbe) - 백엔드는 ping 에 pong 으로 응답
+  ping(): boolean {
+    return this.send({ type: 'ping', timestamp: new Date().toISOString() });
+  }
+
+  getLastHeartbeat(): number | null {
+    return this.lastMessageAt;
+  }
+
+  getLatency(): number | null {
+    return this.latency;
   }
 
   // 🎯 Backend API 직접 호출 메서드들
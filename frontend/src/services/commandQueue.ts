@@ -0,0 +1,348 @@
+/**
+ * 명령 큐 서비스 - robot/response 기반 응답 추적
+ * 명령마다 고정 ID를 부여하고 queued → sent → acknowledged → executing → done/failed/timed_out
+ * 상태 전이를 robot/response 토픽 메시지로 갱신한다.
+ */
+import {
+  RobotCommand,
+  RobotCommandInput,
+  QueuedCommand,
+  CommandLifecycleState,
+  CommandResult,
+  RobotResponsePayload,
+  Timestamp
+} from '../types/robotTypes';
+import CommandSenderService from './commandSender';
+import { randomId } from '../utils';
+
+export interface CommandQueueOptions {
+  ackTimeout?: number;       // sent → acknowledged 대기 시간 (ms)
+  executionTimeout?: number; // acknowledged → done 대기 시간 (ms)
+  maxFinished?: number;      // 보관할 종료 명령 수
+}
+
+type QueueChangeHandler = (commands: QueuedCommand[]) => void;
+type CommandFinishedHandler = (command: QueuedCommand, result: CommandResult) => void;
+
+const TERMINAL_STATES: CommandLifecycleState[] = ['done', 'failed', 'timed_out'];
+
+// robot/response status → 큐 상태
+const RESPONSE_STATE_MAP: Record<RobotResponsePayload['status'], CommandLifecycleState> = {
+  acknowledged: 'acknowledged',
+  accepted: 'acknowledged',
+  executing: 'executing',
+  done: 'done',
+  completed: 'done',
+  failed: 'failed',
+  rejected: 'failed',
+  error: 'failed'
+};
+
+// 허용되는 상태 전이 (역방향 전이 방지)
+const ALLOWED_TRANSITIONS: Record<CommandLifecycleState, CommandLifecycleState[]> = {
+  queued: ['sent', 'failed'],
+  sent: ['acknowledged', 'executing', 'done', 'failed', 'timed_out'],
+  acknowledged: ['executing', 'done', 'failed', 'timed_out'],
+  executing: ['done', 'failed', 'timed_out'],
+  done: [],
+  failed: [],
+  timed_out: []
+};
+
+class CommandQueueService {
+  private sender: CommandSenderService;
+  private options: Required<CommandQueueOptions>;
+  private commands = new Map<string, QueuedCommand>();
+  private pending: string[] = [];
+  private activeId: string | null = null;
+  private timers = new Map<string, NodeJS.Timeout>();
+  private changeHandlers: QueueChangeHandler[] = [];
+  private finishedHandlers: CommandFinishedHandler[] = [];
+
+  constructor(sender: CommandSenderService, options: CommandQueueOptions = {}) {
+    this.sender = sender;
+    this.options = {
+      ackTimeout: options.ackTimeout || 5000,
+      executionTimeout: options.executionTimeout || 60000,
+      maxFinished: options.maxFinished || 50
+    };
+  }
+
+  /**
+   * 명령 추가 - 고정 ID 반환
+   * critical 우선순위(비상정지/정지)는 대기 명령과 실행 중인 명령을 실패 처리하고 즉시 전송
+   */
+  enqueue(command: RobotCommandInput): string {
+    const now: Timestamp = new Date().toISOString();
+    const id = command.id || `cmd_${Date.now()}_${randomId(6)}`;
+    const fullCommand = { ...command, id, timestamp: command.timestamp || now } as RobotCommand;
+
+    const entry: QueuedCommand = {
+      id,
+      command: fullCommand,
+      state: 'queued',
+      createdAt: now,
+      updatedAt: now,
+      transitions: [{ state: 'queued', timestamp: now }]
+    };
+    this.commands.set(id, entry);
+    console.log(`📋 명령 큐 추가: ${fullCommand.type} (${id})`);
+
+    if (fullCommand.priority === 'critical') {
+      const reason = `${fullCommand.type} 명령으로 취소됨`;
+      this.cancelPending(reason);
+      if (this.activeId) {
+        this.transition(this.activeId, 'failed', reason);
+      }
+      this.activeId = id;
+      this.dispatch(id);
+    } else {
+      this.pending.push(id);
+      this.notifyChange();
+      this.processNext();
+    }
+
+    return id;
+  }
+
+  /**
+   * 대기 중인 명령 취소 (이미 전송된 명령은 취소 불가)
+   */
+  cancel(id: string): boolean {
+    const index = this.pending.indexOf(id);
+    if (index === -1) return false;
+
+    this.pending.splice(index, 1);
+    this.transition(id, 'failed', '사용자에 의해 취소됨');
+    return true;
+  }
+
+  clear(): void {
+    this.cancelPending('큐 초기화로 취소됨');
+  }
+
+  /**
+   * robot/response 메시지 처리
+   */
+  handleResponse(response: RobotResponsePayload): void {
+    if (!response || !response.command_id) {
+      console.warn('⚠️ robot/response 메시지에 command_id 없음:', response);
+      return;
+    }
+
+    const entry = this.commands.get(response.command_id);
+    if (!entry) {
+      console.log(`❓ 알 수 없는 명령 응답 (무시됨): ${response.command_id}`);
+      return;
+    }
+
+    const nextState = RESPONSE_STATE_MAP[response.status];
+    if (!nextState) {
+      console.warn(`⚠️ 알 수 없는 응답 상태: ${response.status}`);
+      return;
+    }
+
+    this.transition(entry.id, nextState, response.message, response.error);
+  }
+
+  /**
+   * 명령이 종료 상태에 도달할 때까지 대기
+   */
+  waitFor(id: string): Promise<QueuedCommand> {
+    const entry = this.commands.get(id);
+    if (!entry) {
+      return Promise.reject(new Error(`Unknown command: ${id}`));
+    }
+    if (this.isTerminal(entry.state)) {
+      return Promise.resolve(entry);
+    }
+
+    return new Promise(resolve => {
+      const handler: CommandFinishedHandler = (command) => {
+        if (command.id !== id) return;
+        this.offCommandFinished(handler);
+        resolve(command);
+      };
+      this.onCommandFinished(handler);
+    });
+  }
+
+  // 이벤트 핸들러 등록/해제
+  onChange(handler: QueueChangeHandler): void {
+    this.changeHandlers.push(handler);
+  }
+
+  offChange(handler: QueueChangeHandler): void {
+    const index = this.changeHandlers.indexOf(handler);
+    if (index > -1) {
+      this.changeHandlers.splice(index, 1);
+    }
+  }
+
+  onCommandFinished(handler: CommandFinishedHandler): void {
+    this.finishedHandlers.push(handler);
+  }
+
+  offCommandFinished(handler: CommandFinishedHandler): void {
+    const index = this.finishedHandlers.indexOf(handler);
+    if (index > -1) {
+      this.finishedHandlers.splice(index, 1);
+    }
+  }
+
+  // 상태 조회
+  getCommands(): QueuedCommand[] {
+    return Array.from(this.commands.values());
+  }
+
+  getActiveCommands(): QueuedCommand[] {
+    return this.getCommands().filter(command => !this.isTerminal(command.state));
+  }
+
+  getCommand(id: string): QueuedCommand | undefined {
+    return this.commands.get(id);
+  }
+
+  isBusy(): boolean {
+    return this.getActiveCommands().length > 0;
+  }
+
+  /**
+   * 다음 명령 전송 (한 번에 하나씩 순차 실행)
+   */
+  private processNext(): void {
+    if (this.activeId || this.pending.length === 0) return;
+
+    const nextId = this.pending.shift()!;
+    this.activeId = nextId;
+    this.dispatch(nextId);
+  }
+
+  private async dispatch(id: string): Promise<void> {
+    const entry = this.commands.get(id);
+    if (!entry) return;
+
+    this.transition(id, 'sent');
+    this.startTimer(id, this.options.ackTimeout);
+
+    try {
+      const result = await this.sender.sendCommand(entry.command);
+
+      if (result.status === 'failed') {
+        this.transition(id, 'failed', undefined, result.error || result.message);
+      }
+    } catch (error: any) {
+      this.transition(id, 'failed', undefined, error.message || 'Unknown error');
+    }
+  }
+
+  private transition(id: string, state: CommandLifecycleState, message?: string, error?: string): void {
+    const entry = this.commands.get(id);
+    if (!entry || entry.state === state) return;
+
+    if (!ALLOWED_TRANSITIONS[entry.state].includes(state)) {
+      console.warn(`⚠️ 잘못된 명령 상태 전이 무시: ${entry.state} → ${state} (${id})`);
+      return;
+    }
+
+    const now: Timestamp = new Date().toISOString();
+    const updated: QueuedCommand = {
+      ...entry,
+      state,
+      updatedAt: now,
+      sentAt: state === 'sent' ? now : entry.sentAt,
+      finishedAt: this.isTerminal(state) ? now : entry.finishedAt,
+      message: message || entry.message,
+      error: error || entry.error,
+      transitions: [...entry.transitions, { state, timestamp: now, message: error || message }]
+    };
+    this.commands.set(id, updated);
+    console.log(`🔁 명령 상태: ${entry.state} → ${state} (${id})`);
+
+    if (state === 'acknowledged') {
+      this.startTimer(id, this.options.executionTimeout);
+    }
+
+    if (this.isTerminal(state)) {
+      this.clearTimer(id);
+      this.finish(updated);
+    }
+
+    this.notifyChange();
+  }
+
+  private finish(command: QueuedCommand): void {
+    const result = this.toCommandResult(command);
+    this.finishedHandlers.slice().forEach(handler => {
+      try {
+        handler(command, result);
+      } catch (error) {
+        console.error('❌ 명령 종료 핸들러 오류:', error);
+      }
+    });
+
+    if (this.activeId === command.id) {
+      this.activeId = null;
+    }
+    this.pruneFinished();
+    this.processNext();
+  }
+
+  private toCommandResult(command: QueuedCommand): CommandResult {
+    const executionTime = command.sentAt && command.finishedAt
+      ? new Date(command.finishedAt).getTime() - new Date(command.sentAt).getTime()
+      : undefined;
+
+    return {
+      commandId: command.id,
+      status: command.state === 'done' ? 'completed' : 'failed',
+      message: command.message,
+      error: command.state === 'timed_out' ? (command.error || '로봇 응답 시간 초과') : command.error,
+      executionTime,
+      timestamp: command.finishedAt || new Date().toISOString(),
+      commandType: command.command.type,
+      lifecycleState: command.state
+    };
+  }
+
+  private cancelPending(reason: string): void {
+    const cancelled = this.pending.splice(0);
+    cancelled.forEach(id => this.transition(id, 'failed', reason));
+    this.notifyChange();
+  }
+
+  private startTimer(id: string, timeout: number): void {
+    this.clearTimer(id);
+    this.timers.set(id, setTimeout(() => {
+      this.timers.delete(id);
+      this.transition(id, 'timed_out', undefined, '로봇 응답 시간 초과');
+    }, timeout));
+  }
+
+  private clearTimer(id: string): void {
+    const timer = this.timers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(id);
+    }
+  }
+
+  private pruneFinished(): void {
+    const finished = this.getCommands().filter(command => this.isTerminal(command.state));
+    const excess = finished.length - this.options.maxFinished;
+    if (excess > 0) {
+      finished.slice(0, excess).forEach(command => this.commands.delete(command.id));
+    }
+  }
+
+  private isTerminal(state: CommandLifecycleState): boolean {
+    return TERMINAL_STATES.includes(state);
+  }
+
+  private notifyChange(): void {
+    const commands = this.getCommands();
+    this.changeHandlers.forEach(handler => handler(commands));
+  }
+}
+
+export default CommandQueueService;
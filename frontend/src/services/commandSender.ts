@@ -5,10 +5,57 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import { 
   RobotPose, 
+  RobotCommand,
   CommandResult,
-  Timestamp 
+  Timestamp,
+  Waypoint
 } from '../types/robotTypes';
-import config from '../config';
+import { AppPermission, SafetyAction } from '../types/authTypes';
+import { AuditCategory } from '../types/auditTypes';
+import config, { isMockDataEnabled } from '../config';
+import { robotSimulation } from './mockRobotSimulator';
+import { motionValidator } from './motionValidator';
+import { waypointService } from './waypointService';
+import { authService } from './authService';
+import { auditService } from './auditService';
+import { connectionWatchdog } from './connectionWatchdog';
+import { replaySession } from './replaySession';
+
+const MAX_SEQUENTIAL_WAYPOINTS = 20;       // /api/control/sequential-move 제한
+const MOTION_TIMEOUT = 60000;              // 이동 완료 최대 대기 (ms)
+const MOTION_POLL_INTERVAL = 100;          // 이동 상태 확인 주기 (ms)
+
+// 감사 로그에서 안전 분류로 기록할 동작
+const SAFETY_AUDIT_ACTIONS: string[] = [
+  'emergency_stop',
+  'release_emergency_stop',
+  'release_protective_stop',
+  'set_power',
+  'set_motor',
+  'set_safety_mode'
+];
+
+// 연결 감시 저하 모드에서 잠그는 모션 명령 (정지/비상정지/안전 동작은 항상 허용)
+const MOTION_ACTIONS: string[] = [
+  'move_joint',
+  'move_linear',
+  'move_circular',
+  'home',
+  'jog',
+  'sequential_move',
+  'batch_commands'
+];
+
+// 녹화 재생 중에도 실제 로봇으로 보내는 안전 정지 (연결 감시의 정지 명령 포함) - 나머지 모션/설정 명령은 차단
+const REPLAY_ALLOWED_ACTIONS: string[] = ['stop', 'emergency_stop'];
+
+// 배치 명령 하나에 필요한 권한 ({ type, action, data } - 백엔드 /api/control/batch-command 와 같은 매핑)
+const batchCommandPermission = (command: any): AppPermission => {
+  if (command?.type === 'concentration' && command.action === 'set_target') return 'set_concentration';
+  if (command?.type === 'sensor' && command.action === 'calibrate_weight') return 'calibrate';
+  // 로봇 명령은 동작 이름이 곧 권한 - 알 수 없는 동작은 어떤 역할에도 없으므로 거부됨
+  return (command?.type === 'robot' ? command.action : `${command?.type}:${command?.action}`) as AppPermission;
+};
 
 interface ApiResponse<T = any> {
   success: boolean;
@@ -18,14 +65,27 @@ interface ApiResponse<T = any> {
   executionTime?: number;
 }
 
+interface AuditedCommand {
+  action: string;
+  permissions?: AppPermission[];   // 생략 시 action 자체가 권한
+  params?: Record<string, any>;
+  commandId?: string;
+  source?: string;                 // 생략 시 서비스 기본 출처
+}
+
 class CommandSenderService {
   private api: AxiosInstance;
   private baseURL: string;
   private requestCount: number = 0;
   private errorCount: number = 0;
+  private source: string;
 
-  constructor(baseURL?: string) {
+  /**
+   * @param source 감사 로그에 남길 명령 출처 (UI 컴포넌트/서비스 이름)
+   */
+  constructor(baseURL?: string, source: string = 'CommandSender') {
     this.baseURL = baseURL || config.API_BASE_URL;
+    this.source = source;
     this.api = axios.create({
       baseURL: this.baseURL,
       timeout: 10000,
@@ -48,10 +108,12 @@ class CommandSenderService {
       (config) => {
         this.requestCount++;
         (config as any).metadata = { startTime: Date.now() };
+        // 로그인 토큰 첨부 - 백엔드가 역할 권한을 다시 검사
+        Object.assign(config.headers, authService.getAuthHeaders());
         
+        // 헤더는 로그에 남기지 않음 (Authorization 토큰 노출 방지)
         console.log(`🚀 API 요청 [${this.requestCount}]: ${config.method?.toUpperCase()} ${config.url}`, {
-          data: config.data,
-          headers: config.headers
+          data: config.data
         });
         
         return config;
@@ -85,6 +147,11 @@ class CommandSenderService {
           status: error.response?.status,
           message: error.response?.data?.message || error.message
         });
+
+        // 만료/무효 토큰 - 로그아웃해 다시 로그인하도록
+        if (error.response?.status === 401) {
+          authService.logout();
+        }
         
         return Promise.reject(error);
       }
@@ -97,23 +164,28 @@ class CommandSenderService {
   async sendJointMoveCommand(
     positions: number[],
     speed: number = 50,
-    acceleration: number = 50
+    acceleration: number = 50,
+    commandId?: string,
+    source?: string
   ): Promise<CommandResult> {
-    try {
-      this.validateJointPositions(positions);
-      this.validateSpeedAcceleration(speed, acceleration);
-
-      const response = await this.api.post('/api/robot/move/joint', {
-        positions,
-        speed,
-        acceleration,
-        timestamp: new Date().toISOString()
-      });
+    return this.audited({ action: 'move_joint', params: { positions, speed, acceleration }, commandId, source }, async () => {
+      try {
+        this.validateJointPositions(positions);
+        this.validateSpeedAcceleration(speed, acceleration);
+
+        const response = await this.api.post('/api/robot/move/joint', {
+          positions,
+          speed,
+          acceleration,
+          command_id: commandId,
+          timestamp: new Date().toISOString()
+        });
       
-      return this.formatCommandResult(response.data, 'joint_move');
-    } catch (error) {
-      throw this.handleApiError(error, 'Joint move command failed');
-    }
+        return this.formatCommandResult(response.data, 'joint_move', commandId);
+      } catch (error) {
+        throw this.handleApiError(error, 'Joint move command failed');
+      }
+    });
   }
 
   /**
@@ -122,154 +194,426 @@ class CommandSenderService {
   async sendLinearMoveCommand(
     position: RobotPose,
     speed: number = 50,
-    acceleration: number = 50
+    acceleration: number = 50,
+    commandId?: string,
+    source?: string
   ): Promise<CommandResult> {
-    try {
-      this.validateCartesianPosition(position);
-      this.validateSpeedAcceleration(speed, acceleration);
-
-      const response = await this.api.post('/api/robot/move/linear', {
-        position: {
-          x: position.x,
-          y: position.y,
-          z: position.z,
-          rx: position.rx || 0,
-          ry: position.ry || 0,
-          rz: position.rz || 0
-        },
-        speed,
-        acceleration,
-        timestamp: new Date().toISOString()
-      });
+    return this.audited({ action: 'move_linear', params: { position, speed, acceleration }, commandId, source }, async () => {
+      try {
+        this.validateCartesianPosition(position);
+        this.validateSpeedAcceleration(speed, acceleration);
+
+        const response = await this.api.post('/api/robot/move/linear', {
+          position: {
+            x: position.x,
+            y: position.y,
+            z: position.z,
+            rx: position.rx || 0,
+            ry: position.ry || 0,
+            rz: position.rz || 0
+          },
+          speed,
+          acceleration,
+          command_id: commandId,
+          timestamp: new Date().toISOString()
+        });
       
-      return this.formatCommandResult(response.data, 'linear_move');
-    } catch (error) {
-      throw this.handleApiError(error, 'Linear move command failed');
-    }
+        return this.formatCommandResult(response.data, 'linear_move', commandId);
+      } catch (error) {
+        throw this.handleApiError(error, 'Linear move command failed');
+      }
+    });
   }
 
   /**
    * 로봇 정지 명령
    */
-  async sendStopCommand(): Promise<CommandResult> {
-    try {
-      const response = await this.api.post('/api/robot/stop', {
-        timestamp: new Date().toISOString()
-      });
+  async sendStopCommand(commandId?: string, source?: string): Promise<CommandResult> {
+    return this.audited({ action: 'stop', commandId, source }, async () => {
+      try {
+        const response = await this.api.post('/api/robot/stop', {
+          command_id: commandId,
+          timestamp: new Date().toISOString()
+        });
       
-      return this.formatCommandResult(response.data, 'stop');
-    } catch (error) {
-      throw this.handleApiError(error, 'Stop command failed');
-    }
+        return this.formatCommandResult(response.data, 'stop', commandId);
+      } catch (error) {
+        throw this.handleApiError(error, 'Stop command failed');
+      }
+    });
   }
 
   /**
    * 비상정지 명령
    */
-  async sendEmergencyStopCommand(): Promise<CommandResult> {
-    try {
-      const response = await this.api.post('/api/robot/emergency-stop', {
-        source: 'web_dashboard',
-        timestamp: new Date().toISOString()
-      });
+  async sendEmergencyStopCommand(commandId?: string, source?: string): Promise<CommandResult> {
+    return this.audited({ action: 'emergency_stop', commandId, source }, async () => {
+      try {
+        const response = await this.api.post('/api/robot/emergency-stop', {
+          source: 'web_dashboard',
+          command_id: commandId,
+          timestamp: new Date().toISOString()
+        });
       
-      return this.formatCommandResult(response.data, 'emergency_stop');
-    } catch (error) {
-      throw this.handleApiError(error, 'Emergency stop command failed');
-    }
+        return this.formatCommandResult(response.data, 'emergency_stop', commandId);
+      } catch (error) {
+        throw this.handleApiError(error, 'Emergency stop command failed');
+      }
+    });
   }
 
   /**
    * 홈 위치 이동 명령
    */
-  async sendHomeCommand(speed: number = 30): Promise<CommandResult> {
-    try {
-      this.validateSpeed(speed);
-
-      const response = await this.api.post('/api/robot/home', { 
-        speed,
-        timestamp: new Date().toISOString()
-      });
+  async sendHomeCommand(speed: number = 30, commandId?: string, source?: string): Promise<CommandResult> {
+    return this.audited({ action: 'home', params: { speed }, commandId, source }, async () => {
+      try {
+        this.validateSpeed(speed);
+
+        const response = await this.api.post('/api/robot/home', { 
+          speed,
+          command_id: commandId,
+          timestamp: new Date().toISOString()
+        });
       
-      return this.formatCommandResult(response.data, 'home');
-    } catch (error) {
-      throw this.handleApiError(error, 'Home command failed');
-    }
+        return this.formatCommandResult(response.data, 'home', commandId);
+      } catch (error) {
+        throw this.handleApiError(error, 'Home command failed');
+      }
+    });
   }
 
   /**
    * 로봇 속도 설정
    */
-  async setRobotSpeed(speed: number): Promise<CommandResult> {
-    try {
-      this.validateSpeed(speed);
-
-      const response = await this.api.post('/api/robot/speed', { 
-        speed,
-        timestamp: new Date().toISOString()
-      });
+  async setRobotSpeed(speed: number, commandId?: string, source?: string): Promise<CommandResult> {
+    return this.audited({ action: 'set_speed', params: { speed }, commandId, source }, async () => {
+      try {
+        this.validateSpeed(speed);
+
+        const response = await this.api.post('/api/robot/speed', { 
+          speed,
+          command_id: commandId,
+          timestamp: new Date().toISOString()
+        });
       
-      return this.formatCommandResult(response.data, 'set_speed');
-    } catch (error) {
-      throw this.handleApiError(error, 'Set speed command failed');
-    }
+        return this.formatCommandResult(response.data, 'set_speed', commandId);
+      } catch (error) {
+        throw this.handleApiError(error, 'Set speed command failed');
+      }
+    });
   }
 
   /**
    * 농도 목표값 설정
    */
   async setConcentrationTarget(target: number): Promise<CommandResult> {
-    try {
-      if (target < 0 || target > 100) {
-        throw new Error('Concentration target must be between 0 and 100');
-      }
-
-      const response = await this.api.post('/api/sensors/concentration/target', {
-        target,
-        source: 'web_dashboard',
-        timestamp: new Date().toISOString()
-      });
+    return this.audited({ action: 'set_concentration', params: { target } }, async () => {
+      try {
+        if (target < 0 || target > 100) {
+          throw new Error('Concentration target must be between 0 and 100');
+        }
+
+        if (isMockDataEnabled()) {
+          robotSimulation.publish('web/target_concentration', { target, source: 'web_dashboard' });
+          return this.formatCommandResult({
+            success: true,
+            message: 'Concentration target published to simulator',
+            timestamp: new Date().toISOString()
+          }, 'set_concentration');
+        }
+
+        const response = await this.api.post('/api/sensors/concentration/target', {
+          target,
+          source: 'web_dashboard',
+          timestamp: new Date().toISOString()
+        });
       
-      return this.formatCommandResult(response.data, 'set_concentration');
-    } catch (error) {
-      throw this.handleApiError(error, 'Set concentration target failed');
-    }
+        return this.formatCommandResult(response.data, 'set_concentration');
+      } catch (error) {
+        throw this.handleApiError(error, 'Set concentration target failed');
+      }
+    });
   }
 
   /**
    * 무게센서 캘리브레이션
    */
   async calibrateWeightSensor(offset?: number): Promise<CommandResult> {
-    try {
-      const data = {
-        ...(offset !== undefined && { offset }),
-        timestamp: new Date().toISOString()
-      };
+    return this.audited({ action: 'calibrate', params: { offset } }, async () => {
+      try {
+        const data = {
+          ...(offset !== undefined && { offset }),
+          timestamp: new Date().toISOString()
+        };
       
-      const response = await this.api.post('/api/sensors/weight/calibrate', data);
-      return this.formatCommandResult(response.data, 'calibrate_weight');
-    } catch (error) {
-      throw this.handleApiError(error, 'Weight sensor calibration failed');
+        const response = await this.api.post('/api/sensors/weight/calibrate', data);
+        return this.formatCommandResult(response.data, 'calibrate_weight');
+      } catch (error) {
+        throw this.handleApiError(error, 'Weight sensor calibration failed');
+      }
+    });
+  }
+
+  /**
+   * 안전 제어 명령 (비상정지 해제, 전원/모터, 안전 모드, 보호 정지 해제)
+   */
+  async sendSafetyCommand(action: SafetyAction, enabled?: boolean): Promise<CommandResult> {
+    return this.audited({ action, params: enabled !== undefined ? { enabled } : undefined }, async () => {
+      try {
+        if (isMockDataEnabled()) {
+          robotSimulation.publish('robot/control/safety', {
+            command: 'safety',
+            action,
+            enabled,
+            source: 'web_dashboard',
+            timestamp: new Date().toISOString()
+          });
+          return this.formatCommandResult({
+            success: true,
+            message: 'Safety command published to simulator',
+            timestamp: new Date().toISOString()
+          }, action);
+        }
+
+        const response = await this.api.post('/api/robot/safety', {
+          action,
+          ...(enabled !== undefined && { enabled }),
+          timestamp: new Date().toISOString()
+        });
+
+        return this.formatCommandResult(response.data, action);
+      } catch (error) {
+        throw this.handleApiError(error, 'Safety command failed');
+      }
+    });
+  }
+
+  /**
+   * 큐 명령 전송 (명령 ID를 백엔드로 전달하여 robot/response 로 추적)
+   */
+  async sendCommand(command: RobotCommand): Promise<CommandResult> {
+    // 명령에 출처가 지정된 경우 (UI 패널 → 스토어 큐) 해당 출처로 감사 기록
+    const { source } = command;
+
+    if (isMockDataEnabled()) {
+      return this.audited(
+        { action: command.type, params: command.payload, commandId: command.id, source },
+        async () => this.sendMockCommand(command)
+      );
+    }
+
+    // 개별 명령 메서드가 권한 확인과 감사 기록을 담당
+    switch (command.type) {
+      case 'move_joint':
+        return this.sendJointMoveCommand(
+          command.payload.positions,
+          command.payload.speed,
+          command.payload.acceleration,
+          command.id,
+          source
+        );
+      case 'move_linear':
+        return this.sendLinearMoveCommand(
+          command.payload.target,
+          command.payload.speed,
+          command.payload.acceleration,
+          command.id,
+          source
+        );
+      case 'stop':
+        return this.sendStopCommand(command.id, source);
+      case 'emergency_stop':
+        return this.sendEmergencyStopCommand(command.id, source);
+      case 'home':
+        return this.sendHomeCommand(command.payload.speed, command.id, source);
+      case 'set_speed':
+        return this.setRobotSpeed(command.payload.speed, command.id, source);
+      default:
+        throw new Error(`Unsupported command type: ${command.type}`);
     }
   }
 
+  /**
+   * Mock 모드 명령 전송 - 백엔드 대신 시뮬레이터의 robot/control/* 토픽으로 발행
+   */
+  private sendMockCommand(command: RobotCommand): CommandResult {
+    const topicMap: Partial<Record<RobotCommand['type'], string>> = {
+      move_joint: 'move_joint',
+      move_linear: 'move_linear',
+      stop: 'stop',
+      emergency_stop: 'emergency_stop',
+      home: 'home',
+      set_speed: 'speed'
+    };
+    const topic = topicMap[command.type];
+    if (!topic) {
+      throw new Error(`Unsupported command type: ${command.type}`);
+    }
+
+    if (command.type === 'move_joint') {
+      this.validateJointPositions(command.payload.positions);
+    } else if (command.type === 'move_linear') {
+      this.validateCartesianPosition(command.payload.target);
+    }
+
+    robotSimulation.publish(`robot/control/${topic}`, {
+      command: command.type,
+      ...command.payload,
+      command_id: command.id,
+      source: 'web_dashboard',
+      timestamp: new Date().toISOString()
+    });
+
+    return this.formatCommandResult({
+      success: true,
+      message: 'Command published to simulator',
+      timestamp: new Date().toISOString()
+    }, command.type, command.id);
+  }
+
   /**
    * 배치 명령 실행
    */
   async sendBatchCommands(commands: any[]): Promise<CommandResult> {
-    try {
-      if (!Array.isArray(commands) || commands.length === 0) {
-        throw new Error('Commands array is empty or invalid');
+    return this.audited({ action: 'batch_commands', permissions: Array.isArray(commands) ? commands.map(batchCommandPermission) : [], params: { commands } }, async () => {
+      try {
+        if (!Array.isArray(commands) || commands.length === 0) {
+          throw new Error('Commands array is empty or invalid');
+        }
+
+        const validation = motionValidator.validateBatch(commands);
+        if (!validation.valid) {
+          throw new Error(`Motion validation failed: ${motionValidator.formatViolations(validation)}`);
+        }
+
+        const response = await this.api.post('/api/control/batch-command', { 
+          commands,
+          timestamp: new Date().toISOString()
+        });
+      
+        return this.formatCommandResult(response.data, 'batch_commands');
+      } catch (error) {
+        throw this.handleApiError(error, 'Batch commands failed');
       }
+    });
+  }
+
+  /**
+   * 티칭 웨이포인트 순차 재생 - /api/control/sequential-move
+   */
+  async sendSequentialMove(waypoints: Waypoint[], currentJoints?: number[]): Promise<CommandResult> {
+    return this.audited({
+      action: 'sequential_move',
+      permissions: waypoints.map(waypoint => (waypoint.moveType === 'linear' ? 'move_linear' : 'move_joint')),
+      params: { waypoints: waypoints.map(waypoint => waypoint.name) }
+    }, async () => {
+      try {
+        if (!Array.isArray(waypoints) || waypoints.length === 0) {
+          throw new Error('Waypoints array is empty or invalid');
+        }
+        if (waypoints.length > MAX_SEQUENTIAL_WAYPOINTS) {
+          throw new Error(`Too many waypoints: ${waypoints.length} (max ${MAX_SEQUENTIAL_WAYPOINTS})`);
+        }
+
+        const commands = waypointService.toMotionCommands(waypoints);
+        const validation = motionValidator.validateBatch(commands, currentJoints);
+        if (!validation.valid) {
+          throw new Error(`Motion validation failed: ${motionValidator.formatViolations(validation)}`);
+        }
+
+        if (isMockDataEnabled()) {
+          return await this.playMockWaypoints(waypoints);
+        }
+
+        const response = await this.api.post('/api/control/sequential-move', {
+          waypoints: waypoints.map(waypoint => ({
+            type: waypoint.moveType,
+            positions: waypoint.moveType === 'linear' ? { ...waypoint.pose } : [...waypoint.joints],
+            speed: waypoint.speed,
+            acceleration: waypoint.acceleration,
+            blend_radius: waypoint.blendRadius,
+            wait_time: waypoint.waitTime
+          })),
+          timestamp: new Date().toISOString()
+        });
+
+        return this.formatCommandResult(response.data, 'sequential_move');
+      } catch (error) {
+        throw this.handleApiError(error, 'Sequential move failed');
+      }
+    });
+  }
 
-      const response = await this.api.post('/api/control/batch-command', { 
-        commands,
+  /**
+   * Mock 모드 웨이포인트 재생 - 시뮬레이터 이동 완료를 기다리며 하나씩 발행
+   */
+  private async playMockWaypoints(waypoints: Waypoint[]): Promise<CommandResult> {
+    const commands = waypointService.toMotionCommands(waypoints);
+
+    for (let index = 0; index < commands.length; index++) {
+      const { type, payload } = commands[index];
+      this.sendMockCommand({
+        id: `seq_${Date.now()}_${index}`,
+        type,
+        payload,
+        priority: 'normal',
         timestamp: new Date().toISOString()
-      });
-      
-      return this.formatCommandResult(response.data, 'batch_commands');
+      } as RobotCommand);
+
+      await this.waitForMotionComplete();
+      if (waypoints[index].waitTime > 0) {
+        await new Promise(resolve => setTimeout(resolve, waypoints[index].waitTime));
+      }
+    }
+
+    return this.formatCommandResult({
+      success: true,
+      message: `Sequential move completed: ${waypoints.length} waypoints`,
+      timestamp: new Date().toISOString()
+    }, 'sequential_move');
+  }
+
+  /**
+   * 이동 완료 대기 - 로봇 상태의 isMoving 이 false 가 될 때까지 폴링
+   */
+  async waitForMotionComplete(timeout: number = MOTION_TIMEOUT): Promise<void> {
+    const startedAt = Date.now();
+    const isMoving = async (): Promise<boolean> => (isMockDataEnabled()
+      ? robotSimulation.getRobotStatus().isMoving
+      : Boolean((await this.getRobotStatus())?.isMoving));
+
+    // 명령이 반영될 시간을 준 뒤 확인
+    await new Promise(resolve => setTimeout(resolve, MOTION_POLL_INTERVAL));
+    while (await isMoving()) {
+      if (Date.now() - startedAt > timeout) {
+        throw new Error(`Motion did not complete within ${timeout}ms`);
+      }
+      await new Promise(resolve => setTimeout(resolve, MOTION_POLL_INTERVAL));
+    }
+  }
+
+  /**
+   * 단일 센서 값 조회 (무게 g, 농도 %)
+   */
+  async getSensorValue(sensor: 'weight' | 'concentration'): Promise<number> {
+    if (isMockDataEnabled()) {
+      const snapshot = robotSimulation.getSensorSnapshot();
+      return sensor === 'weight' ? snapshot.weight : snapshot.concentration;
+    }
+
+    try {
+      const response = await this.api.get(`/api/sensors/${sensor}`);
+      const data = response.data?.[sensor];
+      const value = typeof data === 'object' && data !== null
+        ? parseFloat(data.value ?? data.current ?? data.target)
+        : parseFloat(data);
+      if (!Number.isFinite(value)) {
+        throw new Error(`Invalid ${sensor} value`);
+      }
+      return value;
     } catch (error) {
-      throw this.handleApiError(error, 'Batch commands failed');
+      throw this.handleApiError(error, `Failed to read ${sensor} sensor`);
     }
   }
 
@@ -340,30 +684,70 @@ class CommandSenderService {
     };
   }
 
+  /**
+   * 권한/모션 잠금 확인 + 감사 기록 - 녹화 재생 중인 명령(정지/비상정지 제외), 현재 역할에 없는 명령과 연결 감시로 잠긴 모션 명령은 전송 전에 거부(denied)하고,
+   * 전송한 명령은 pending 으로 남긴 뒤 결과와 지연 시간으로 갱신
+   */
+  private async audited(command: AuditedCommand, send: () => Promise<CommandResult>): Promise<CommandResult> {
+    const input = {
+      category: (SAFETY_AUDIT_ACTIONS.includes(command.action) ? 'safety' : 'command') as AuditCategory,
+      action: command.action,
+      source: command.source ?? this.source,
+      params: command.params,
+      commandId: command.commandId
+    };
+
+    try {
+      if (replaySession.isActive() && !REPLAY_ALLOWED_ACTIONS.includes(command.action)) {
+        throw new Error('재생(REPLAY) 모드에서는 정지/비상정지 외의 로봇 명령을 보낼 수 없습니다');
+      }
+      if (MOTION_ACTIONS.includes(command.action) && connectionWatchdog.isMotionLocked()) {
+        throw new Error('연결 끊김으로 모션이 잠겨 있습니다 - 연결 복구 후 운영자 확인이 필요합니다');
+      }
+      (command.permissions ?? [command.action as AppPermission]).forEach(permission => this.authorize(permission));
+    } catch (error) {
+      auditService.record({ ...input, result: 'denied', message: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+
+    const entry = auditService.begin(input);
+    try {
+      const result = await send();
+      auditService.complete(entry, result.status === 'failed' ? 'failed' : 'success', result.message);
+      return result;
+    } catch (error) {
+      auditService.complete(entry, 'failed', error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  }
+
+  /**
+   * 권한 확인 - 현재 역할에 없는 명령은 전송 전에 거부
+   */
+  private authorize(permission: AppPermission): void {
+    authService.assertPermission(permission);
+  }
+
   /**
    * 검증 메서드들
    */
   private validateJointPositions(positions: number[]): void {
-    if (!Array.isArray(positions) || positions.length !== 6) {
-      throw new Error('Joint positions must be an array of 6 numbers');
+    const result = motionValidator.validateJointTarget(positions);
+    if (!result.valid) {
+      throw new Error(`Motion validation failed: ${motionValidator.formatViolations(result)}`);
     }
-    
-    positions.forEach((pos, index) => {
-      if (typeof pos !== 'number' || isNaN(pos)) {
-        throw new Error(`Invalid position at joint ${index + 1}: ${pos}`);
-      }
-    });
   }
 
   private validateCartesianPosition(position: RobotPose): void {
-    const required = ['x', 'y', 'z'];
-    const optional = ['rx', 'ry', 'rz'];
-    
-    required.forEach(axis => {
-      if (typeof position[axis as keyof RobotPose] !== 'number') {
-        throw new Error(`Missing or invalid ${axis} coordinate`);
-      }
+    const result = motionValidator.validateCartesianTarget({
+      ...position,
+      rx: position.rx || 0,
+      ry: position.ry || 0,
+      rz: position.rz || 0
     });
+    if (!result.valid) {
+      throw new Error(`Motion validation failed: ${motionValidator.formatViolations(result)}`);
+    }
   }
 
   private validateSpeed(speed: number): void {
@@ -383,9 +767,9 @@ class CommandSenderService {
   /**
    * 응답 포맷팅
    */
-  private formatCommandResult(apiResponse: ApiResponse, commandType: string): CommandResult {
+  private formatCommandResult(apiResponse: ApiResponse, commandType: string, commandId?: string): CommandResult {
     return {
-      commandId: `${commandType}_${Date.now()}`,
+      commandId: commandId || `${commandType}_${Date.now()}`,
       status: apiResponse.success ? 'completed' : 'failed',
       message: apiResponse.message,
       error: apiResponse.success ? undefined : apiResponse.message,
@@ -488,9 +872,9 @@ class CommandSenderService {
 export default CommandSenderService;
 
 // 호환성을 위한 래퍼 함수들
-export const sendRobotCommand = async (commandType: string, payload?: any): Promise<CommandResult> => {
+export const sendRobotCommand = async (commandType: string, payload?: any, source?: string): Promise<CommandResult> => {
   const command = { type: commandType, payload };
-  const service = new CommandSenderService();
+  const service = new CommandSenderService(undefined, source);
   
   switch (command.type) {
     case 'move_joint':
@@ -508,9 +892,20 @@ export const sendRobotCommand = async (commandType: string, payload?: any): Prom
     case 'stop':
       return await service.sendStopCommand();
     case 'emergency_stop':
+    case 'emergencyStop':
       return await service.sendEmergencyStopCommand();
     case 'home':
       return await service.sendHomeCommand(command.payload?.speed);
+    case 'releaseEmergencyStop':
+      return await service.sendSafetyCommand('release_emergency_stop');
+    case 'releaseProtectiveStop':
+      return await service.sendSafetyCommand('release_protective_stop');
+    case 'setSafetyMode':
+      return await service.sendSafetyCommand('set_safety_mode', command.payload?.enabled);
+    case 'setPower':
+      return await service.sendSafetyCommand('set_power', command.payload?.enabled);
+    case 'setMotorEnabled':
+      return await service.sendSafetyCommand('set_motor', command.payload?.enabled);
     default:
       throw new Error(`Unknown command type: ${command.type}`);
   }
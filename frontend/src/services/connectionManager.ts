@@ -0,0 +1,363 @@
+/**
+ * 연결 관리자
+ * 대시보드 전체(MqttContext, WebSocketContext, useMqttData)가 하나의 전송 계층 연결을 공유한다.
+ * 전송 계층은 녹화 재생 > Mock 시뮬레이터 > config.MQTT.transport(backend 브리지 / paho 직접 연결) 순으로 선택하고,
+ * 설정 주소나 재생 모드가 바뀌면 새 전송 계층으로 교체한 뒤 구독을 복원한다.
+ * 토픽 구독은 참조 카운트로 관리해 마지막 구독자가 해제할 때만 실제 구독을 해제하고,
+ * 메시지는 핸들러마다 한 번만 전달한다 (겹치는 패턴이나 와일드카드에 함께 등록해도 중복 전달 없음).
+ */
+import config, { getApiUrl, getLogLevel, getMqttConfig, getWebSocketUrl, isMockDataEnabled } from '../config';
+import { MqttMessage } from '../types/mqttTypes';
+import { TopicChannel } from '../types/topicTypes';
+import {
+  ConnectionManagerStatus,
+  TopicSubscription,
+  Transport,
+  TransportKind,
+  TransportStatus
+} from '../types/transportTypes';
+import BackendWebSocketService from './backendWebSocketService';
+import PahoMqttTransport from './pahoMqttTransport';
+import MockRobotSimulator from './mockRobotSimulator';
+import ReplayTransport from './replayTransport';
+import { replaySession } from './replaySession';
+import { settingsService } from './settingsService';
+import { topicMatches, topicRegistry } from './topicRegistry';
+
+export const TRANSPORT_LABELS: Record<TransportKind, string> = {
+  backend: '백엔드 WebSocket 브리지',
+  paho: 'MQTT 직접 연결',
+  mock: 'Mock 시뮬레이터',
+  replay: '녹화 재생'
+};
+
+type MessageHandler = (message: MqttMessage) => void;
+
+interface HandlerEntry {
+  pattern: string;                               // MQTT 와일드카드 또는 '*' (모든 메시지)
+  handler: MessageHandler;
+}
+
+class ConnectionManager {
+  private transport: Transport | null = null;
+  private kind: TransportKind | null = null;
+  private url: string | null = null;
+  private status: TransportStatus = 'disconnected';
+  private connectionAttempts = 0;
+  private connectedAt: number | null = null;
+  private lastError: string | null = null;
+  private readonly clientId = `web_dashboard_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  private subscriptions = new Map<string, TopicSubscription>();
+  private handlers: HandlerEntry[] = [];
+  private frameListeners: Array<(frame: any) => void> = [];
+  private listeners: Array<(status: ConnectionManagerStatus) => void> = [];
+
+  constructor() {
+    // 설정(주소/전송 방식) 변경, 녹화 재생 진입/종료 시 전송 계층 교체
+    settingsService.onChange(this.handleEnvironmentChange);
+    replaySession.onChange(this.handleEnvironmentChange);
+  }
+
+  // ===== 연결 =====
+  /**
+   * 연결 시작 - 이미 전송 계층이 있으면 무시 (여러 Provider 가 호출해도 연결은 하나)
+   */
+  connect(): void {
+    if (this.transport) return;
+    this.open();
+  }
+
+  disconnect(): void {
+    const transport = this.transport;
+    if (!transport) return;
+
+    this.transport = null;
+    this.detach(transport);
+    transport.disconnect();
+    this.connectedAt = null;
+    console.log(`🔌 연결 관리자: ${TRANSPORT_LABELS[transport.kind]} 연결 해제`);
+    this.setStatus('disconnected');
+  }
+
+  /**
+   * 재연결 - 현재 설정으로 전송 계층을 새로 만들고 참조 중인 구독을 복원
+   */
+  reconnect(): void {
+    console.log('🔄 연결 관리자 재연결');
+    this.disconnect();
+    this.open();
+  }
+
+  // ===== 구독 (참조 카운트) =====
+  subscribe(topic: string, qos: 0 | 1 | 2 = 0): void {
+    const entry = this.subscriptions.get(topic);
+    if (entry) {
+      entry.refCount += 1;
+      return;
+    }
+
+    this.subscriptions.set(topic, { topic, qos, refCount: 1 });
+    if (this.transport?.isConnected()) {
+      this.transport.subscribe(topic, qos);
+    }
+    this.notify();
+  }
+
+  unsubscribe(topic: string): void {
+    const entry = this.subscriptions.get(topic);
+    if (!entry) return;
+
+    entry.refCount -= 1;
+    if (entry.refCount > 0) return;
+
+    this.subscriptions.delete(topic);
+    if (this.transport?.isConnected()) {
+      this.transport.unsubscribe(topic);
+    }
+    this.notify();
+  }
+
+  // 논리 채널 이름으로 구독 (토픽/QoS 는 토픽 레지스트리 매핑)
+  subscribeChannel(channel: TopicChannel): void {
+    this.subscribe(topicRegistry.getTopic(channel), topicRegistry.getQos(channel));
+  }
+
+  unsubscribeChannel(channel: TopicChannel): void {
+    this.unsubscribe(topicRegistry.getTopic(channel));
+  }
+
+  getSubscriptions(): TopicSubscription[] {
+    return Array.from(this.subscriptions.values()).map(entry => ({ ...entry }));
+  }
+
+  // ===== 메시지 핸들러 =====
+  /**
+   * 메시지 핸들러 등록 - pattern 은 MQTT 와일드카드 또는 '*' (구독 여부와 무관하게 수신한 모든 메시지)
+   */
+  onMessage(pattern: string, handler: MessageHandler): void {
+    this.handlers.push({ pattern, handler });
+  }
+
+  offMessage(pattern: string, handler: MessageHandler): void {
+    this.handlers = this.handlers.filter(entry => entry.pattern !== pattern || entry.handler !== handler);
+  }
+
+  onChannel(channel: TopicChannel, handler: MessageHandler): void {
+    this.onMessage(topicRegistry.getTopic(channel), handler);
+  }
+
+  offChannel(channel: TopicChannel, handler: MessageHandler): void {
+    this.offMessage(topicRegistry.getTopic(channel), handler);
+  }
+
+  // 제어 프레임 (pong, error, emergency ...) - 백엔드 브리지에서만 수신
+  onFrame(listener: (frame: any) => void): void {
+    this.frameListeners.push(listener);
+  }
+
+  offFrame(listener: (frame: any) => void): void {
+    this.frameListeners = this.frameListeners.filter(existing => existing !== listener);
+  }
+
+  // ===== 발행 =====
+  publish(topic: string, message: string, qos: 0 | 1 | 2 = 0, retained = false): boolean {
+    if (!this.transport?.isConnected()) return false;
+    this.transport.publish(topic, message, qos, retained);
+    return true;
+  }
+
+  send(frame: Record<string, any>): boolean {
+    return this.transport?.send(frame) ?? false;
+  }
+
+  // ===== 연결 감시 (ConnectionProbe) =====
+  isConnected(): boolean {
+    return this.transport?.isConnected() ?? false;
+  }
+
+  ping(): boolean {
+    return this.transport?.ping() ?? false;
+  }
+
+  getLastHeartbeat(): number | null {
+    return this.transport?.getLastHeartbeat() ?? null;
+  }
+
+  getLatency(): number | null {
+    return this.transport?.getLatency() ?? null;
+  }
+
+  // ===== 상태 =====
+  getStatus(): ConnectionManagerStatus {
+    return {
+      transport: this.kind,
+      url: this.url,
+      status: this.status,
+      connectionAttempts: this.connectionAttempts,
+      connectedAt: this.connectedAt,
+      lastError: this.lastError ?? this.transport?.getLastError() ?? null
+    };
+  }
+
+  getClientId(): string {
+    return this.clientId;
+  }
+
+  onChange(listener: (status: ConnectionManagerStatus) => void): void {
+    this.listeners.push(listener);
+  }
+
+  offChange(listener: (status: ConnectionManagerStatus) => void): void {
+    this.listeners = this.listeners.filter(existing => existing !== listener);
+  }
+
+  // ===== 내부 =====
+  private open(): void {
+    const { kind, url } = this.resolveTarget();
+    const transport = this.createTransport(kind, url);
+    transport.onMessage = message => this.dispatch(message);
+    transport.onFrame = frame => this.dispatchFrame(frame);
+    transport.onConnectionChange = connected => this.handleConnectionChange(transport, connected);
+    transport.onError = error => this.handleError(transport, error);
+
+    this.transport = transport;
+    this.kind = kind;
+    this.url = url;
+    this.connectionAttempts += 1;
+    this.lastError = null;
+    console.log(`🔗 연결 관리자: ${TRANSPORT_LABELS[kind]} 연결 시도 (${url})`);
+    this.setStatus('connecting');
+
+    transport.connect().catch(error => {
+      if (transport !== this.transport) return;
+      this.lastError = error instanceof Error ? error.message : '연결 실패';
+      this.setStatus(transport.getConnectionStatus());
+    });
+  }
+
+  private resolveTarget(): { kind: TransportKind; url: string } {
+    if (replaySession.isActive()) {
+      return { kind: 'replay', url: `replay://${replaySession.getStatus().filename ?? ''}` };
+    }
+    if (isMockDataEnabled()) {
+      return { kind: 'mock', url: 'mock://simulator' };
+    }
+    const mqtt = getMqttConfig();
+    if (mqtt.transport === 'paho') {
+      return { kind: 'paho', url: mqtt.brokerUrl };
+    }
+    return { kind: 'backend', url: getWebSocketUrl() };
+  }
+
+  private createTransport(kind: TransportKind, url: string): Transport {
+    const debug = getLogLevel() === 'debug';
+    switch (kind) {
+      case 'replay':
+        return new ReplayTransport({ debug });
+      case 'mock':
+        return new MockRobotSimulator({ debug });
+      case 'paho':
+        return new PahoMqttTransport({
+          url,
+          clientId: this.clientId,
+          keepAliveInterval: getMqttConfig().keepalive,
+          reconnectDelay: config.websocket.reconnectDelay
+        });
+      default:
+        return new BackendWebSocketService({
+          websocketUrl: url,
+          backendUrl: config.API_BASE_URL,
+          apiUrl: getApiUrl('/api'),
+          reconnectDelay: config.websocket.reconnectDelay,
+          maxReconnectAttempts: config.websocket.maxReconnectAttempts,
+          debug
+        });
+    }
+  }
+
+  private detach(transport: Transport): void {
+    transport.onMessage = undefined;
+    transport.onFrame = undefined;
+    transport.onConnectionChange = undefined;
+    transport.onError = undefined;
+  }
+
+  private handleConnectionChange(transport: Transport, connected: boolean): void {
+    if (transport !== this.transport) return;
+
+    if (connected) {
+      this.connectionAttempts = 0;
+      this.connectedAt = Date.now();
+      this.lastError = null;
+      // 참조 중인 모든 토픽 구독 복원
+      this.subscriptions.forEach(({ topic, qos }) => transport.subscribe(topic, qos));
+      console.log(`✅ 연결 관리자: ${TRANSPORT_LABELS[transport.kind]} 연결됨 (구독 ${this.subscriptions.size}개 복원)`);
+      this.setStatus('connected');
+    } else {
+      this.connectedAt = null;
+      console.warn(`⚠️ 연결 관리자: ${TRANSPORT_LABELS[transport.kind]} 연결 끊김`);
+      this.setStatus('disconnected');
+    }
+  }
+
+  private handleError(transport: Transport, error: any): void {
+    if (transport !== this.transport) return;
+
+    const message: string = error?.message || '연결 실패';
+    console.error('❌ 전송 계층 오류:', message);
+    this.lastError = message;
+    this.notify();
+  }
+
+  private handleEnvironmentChange = () => {
+    if (!this.transport) return;
+    const { kind, url } = this.resolveTarget();
+    if (kind === this.kind && url === this.url) return;
+    console.log(`🔁 전송 계층 변경: ${this.kind} ${this.url} → ${kind} ${url}`);
+    this.reconnect();
+  };
+
+  private dispatch(message: MqttMessage): void {
+    // 핸들러마다 한 번만 - 여러 패턴(와일드카드 포함)에 등록된 핸들러도 중복 전달하지 않음
+    const delivered = new Set<MessageHandler>();
+    this.handlers.forEach(({ pattern, handler }) => {
+      if (delivered.has(handler)) return;
+      if (pattern !== '*' && !topicMatches(pattern, message.topic)) return;
+      delivered.add(handler);
+      try {
+        handler(message);
+      } catch (error) {
+        console.error('❌ 메시지 핸들러 오류:', error);
+      }
+    });
+  }
+
+  private dispatchFrame(frame: any): void {
+    this.frameListeners.forEach(listener => {
+      try {
+        listener(frame);
+      } catch (error) {
+        console.error('❌ 제어 프레임 리스너 오류:', error);
+      }
+    });
+  }
+
+  private setStatus(status: TransportStatus): void {
+    this.status = status;
+    this.notify();
+  }
+
+  private notify(): void {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => {
+      try {
+        listener(status);
+      } catch (error) {
+        console.error('❌ 연결 관리자 리스너 오류:', error);
+      }
+    });
+  }
+}
+
+export const connectionManager = new ConnectionManager();
+export default ConnectionManager;
@@ -0,0 +1,243 @@
+/**
+ * 연결 감시 서비스 (watchdog)
+ * 등록된 링크(백엔드 WebSocket, MQTT 브리지)에 주기적으로 ping 을 보내고 마지막 수신 시각/왕복 시간을 감시한다.
+ * 정상이던 링크가 SAFETY_SETTINGS.CONNECTION_TIMEOUT 동안 조용하거나 끊기면 저하(degraded) 모드로 전환해
+ * 모션 명령을 잠그고, 로봇이 이동 중이면 정지 명령을 보낸다. 저하 모드는 링크가 복구된 뒤 운영자가 확인해야 해제된다.
+ * 로봇 상태/정지 명령은 RobotStateContext 가 등록한 공급자를 사용한다 (commandSender 와의 순환 import 방지).
+ */
+import { SAFETY_SETTINGS, isMockDataEnabled } from '../config';
+import { CommandResult } from '../types/robotTypes';
+import {
+  ConnectionProbe,
+  LinkHealth,
+  LinkHealthState,
+  WatchdogLink,
+  WatchdogStatus,
+  WatchdogStopResult
+} from '../types/watchdogTypes';
+import { auditService } from './auditService';
+
+const CHECK_INTERVAL = 250; // ms
+const AUDIT_SOURCE = 'ConnectionWatchdog';
+
+export const WATCHDOG_LINK_LABELS: Record<WatchdogLink, string> = {
+  websocket: '실시간 WebSocket',
+  mqtt: 'MQTT 브리지'
+};
+
+class ConnectionWatchdogService {
+  private probes = new Map<WatchdogLink, ConnectionProbe>();
+  private states = new Map<WatchdogLink, LinkHealthState>();
+  private lastPingAt = new Map<WatchdogLink, number>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private timeout = SAFETY_SETTINGS.CONNECTION_TIMEOUT;
+  private degraded = false;
+  private reason: string | null = null;
+  private trippedAt: string | null = null;
+  private stopResult: WatchdogStopResult = 'none';
+  private isMovingProvider: (() => boolean) | null = null;
+  private stopHandler: (() => Promise<CommandResult>) | null = null;
+  private listeners: Array<(status: WatchdogStatus) => void> = [];
+
+  // ===== 공급자 =====
+  setRobotStateProvider(provider: (() => boolean) | null): void {
+    this.isMovingProvider = provider;
+  }
+
+  setStopHandler(handler: (() => Promise<CommandResult>) | null): void {
+    this.stopHandler = handler;
+  }
+
+  // ===== 링크 등록 =====
+  registerLink(link: WatchdogLink, probe: ConnectionProbe): void {
+    this.probes.set(link, probe);
+    this.states.set(link, probe.isConnected() ? 'ok' : 'unknown');
+    this.lastPingAt.delete(link);
+    this.ensureTimer();
+    this.notify();
+  }
+
+  // 재연결 등으로 새 probe 가 이미 등록된 경우에는 무시
+  unregisterLink(link: WatchdogLink, probe: ConnectionProbe): void {
+    if (this.probes.get(link) !== probe) return;
+    this.probes.delete(link);
+    this.states.delete(link);
+    this.lastPingAt.delete(link);
+    if (this.probes.size === 0 && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.notify();
+  }
+
+  // ===== 조회 =====
+  isEnabled(): boolean {
+    return !isMockDataEnabled();
+  }
+
+  isMotionLocked(): boolean {
+    return this.degraded;
+  }
+
+  getStatus(): WatchdogStatus {
+    const links: LinkHealth[] = Array.from(this.probes.entries()).map(([link, probe]) => ({
+      link,
+      label: WATCHDOG_LINK_LABELS[link],
+      state: this.states.get(link) ?? 'unknown',
+      lastHeartbeat: probe.getLastHeartbeat(),
+      latency: probe.getLatency()
+    }));
+
+    return {
+      enabled: this.isEnabled(),
+      timeout: this.timeout,
+      degraded: this.degraded,
+      reason: this.reason,
+      trippedAt: this.trippedAt,
+      stopResult: this.stopResult,
+      canAcknowledge: this.degraded && links.every(health => health.state === 'ok'),
+      links
+    };
+  }
+
+  // ===== 운영자 확인 =====
+  /**
+   * 저하 모드 해제 - 모든 링크가 복구되지 않았으면 Error 로 던짐
+   */
+  acknowledge(): void {
+    if (!this.degraded) return;
+
+    const unhealthy = this.getStatus().links.filter(health => health.state !== 'ok');
+    if (unhealthy.length > 0) {
+      throw new Error(`${unhealthy.map(health => health.label).join(', ')} 연결이 아직 복구되지 않았습니다`);
+    }
+
+    auditService.record({
+      category: 'safety',
+      action: 'watchdog_acknowledge',
+      source: AUDIT_SOURCE,
+      params: { reason: this.reason, trippedAt: this.trippedAt, stopResult: this.stopResult }
+    });
+    console.log('✅ 연결 감시: 운영자 확인 - 모션 잠금 해제');
+
+    this.degraded = false;
+    this.reason = null;
+    this.trippedAt = null;
+    this.stopResult = 'none';
+    this.notify();
+  }
+
+  // ===== 변경 구독 =====
+  onChange(listener: (status: WatchdogStatus) => void): void {
+    this.listeners.push(listener);
+  }
+
+  offChange(listener: (status: WatchdogStatus) => void): void {
+    this.listeners = this.listeners.filter(existing => existing !== listener);
+  }
+
+  // ===== 내부 =====
+  private ensureTimer(): void {
+    if (this.timer || !this.isEnabled()) return;
+    this.timer = setInterval(() => this.check(), CHECK_INTERVAL);
+  }
+
+  /**
+   * 링크별 ping 전송과 상태 판정 - 정상(ok)이던 링크가 silent/down 이 되면 trip
+   */
+  private check(): void {
+    const now = Date.now();
+    let changed = false;
+
+    this.probes.forEach((probe, link) => {
+      const connected = probe.isConnected();
+      if (connected && now - (this.lastPingAt.get(link) ?? 0) >= this.timeout / 3) {
+        this.lastPingAt.set(link, now);
+        probe.ping();
+      }
+
+      const previous = this.states.get(link) ?? 'unknown';
+      const lastHeartbeat = probe.getLastHeartbeat();
+      let state: LinkHealthState;
+      if (!connected) {
+        state = previous === 'unknown' ? 'unknown' : 'down';
+      } else if (lastHeartbeat !== null && now - lastHeartbeat > this.timeout) {
+        state = 'silent';
+      } else {
+        state = 'ok';
+      }
+
+      if (state === previous) return;
+      this.states.set(link, state);
+      changed = true;
+
+      if (previous === 'ok' && (state === 'silent' || state === 'down')) {
+        this.trip(link, state, probe.getLatency());
+      } else if (state === 'ok') {
+        console.log(`🔗 연결 감시: ${WATCHDOG_LINK_LABELS[link]} 복구`);
+      }
+    });
+
+    if (changed) this.notify();
+  }
+
+  private trip(link: WatchdogLink, state: LinkHealthState, latency: number | null): void {
+    const reason = state === 'silent'
+      ? `${WATCHDOG_LINK_LABELS[link]} 응답 없음 (${this.timeout}ms 초과)`
+      : `${WATCHDOG_LINK_LABELS[link]} 연결 끊김`;
+    const moving = this.isMovingProvider?.() ?? false;
+    console.warn(`🚨 연결 감시: ${reason}${moving ? ' - 이동 중 정지 명령 전송' : ''}`);
+
+    this.degraded = true;
+    this.reason = reason;
+    this.trippedAt = new Date().toISOString();
+
+    auditService.record({
+      category: 'safety',
+      action: 'watchdog_trip',
+      source: AUDIT_SOURCE,
+      params: { link, state, latency, moving },
+      message: reason
+    });
+
+    if (moving) {
+      this.issueStop();
+    }
+  }
+
+  /**
+   * 이동 중 링크 끊김 - 정지 명령 전송 (명령 경로는 REST 이므로 WebSocket 이 끊겨도 시도)
+   */
+  private async issueStop(): Promise<void> {
+    if (!this.stopHandler) {
+      console.error('❌ 연결 감시: 정지 명령 처리기가 등록되지 않았습니다');
+      this.stopResult = 'failed';
+      return;
+    }
+
+    this.stopResult = 'pending';
+    this.notify();
+    try {
+      const result = await this.stopHandler();
+      this.stopResult = result.status === 'failed' ? 'failed' : 'sent';
+    } catch (error) {
+      console.error('❌ 연결 감시: 정지 명령 실패', error);
+      this.stopResult = 'failed';
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => {
+      try {
+        listener(status);
+      } catch (error) {
+        console.error('❌ 연결 감시 리스너 오류:', error);
+      }
+    });
+  }
+}
+
+export const connectionWatchdog = new ConnectionWatchdogService();
+export default ConnectionWatchdogService;
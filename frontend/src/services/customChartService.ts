@@ -0,0 +1,265 @@
+/**
+ * 사용자 정의 차트 서비스
+ * MqttContext 가 수신한 모든 토픽의 숫자 필드 목록을 유지하고, 저장된 차트 정의에 따라
+ * 토픽 필드/파생 수식 시리즈를 차트별 버퍼에 누적한다. 차트 정의는 사용자별로 저장한다.
+ */
+import { MqttMessage } from '../types/mqttTypes';
+import {
+  CustomChartData,
+  CustomChartDefinition,
+  CustomChartRow,
+  TopicFieldCatalogEntry
+} from '../types/customChartTypes';
+import { storage, randomId } from '../utils';
+import { getPathValue, listNumericPaths, toNumber } from '../utils/jsonPath';
+import { CompiledExpression, compileExpression } from '../utils/chartExpression';
+import { topicMatches } from './topicRegistry';
+
+const USER_STORAGE_KEY = 'custom_chart_user';
+const CHARTS_STORAGE_PREFIX = 'custom_charts_';
+const DEFAULT_USER = 'default';
+const MAX_ROWS = 2000;
+const MAX_TOPICS = 300;
+const NOTIFY_INTERVAL = 500; // ms - 고빈도 토픽에서도 화면 갱신은 이 주기로 묶음
+
+// 차트별 누적 상태
+interface ChartBuffer {
+  rows: CustomChartRow[];
+  latest: Record<string, number>;
+  expressions: Array<{ key: string; compiled: CompiledExpression }>;
+}
+
+class CustomChartService {
+  private user: string;
+  private charts: CustomChartDefinition[];
+  private buffers = new Map<string, ChartBuffer>();
+  private catalog = new Map<string, TopicFieldCatalogEntry>();
+  private lastMessage: MqttMessage | null = null;
+  private notifyTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners: Array<() => void> = [];
+
+  constructor() {
+    this.user = storage.get<string>(USER_STORAGE_KEY) || DEFAULT_USER;
+    this.charts = this.loadCharts();
+  }
+
+  // ===== 사용자 =====
+  getUser(): string {
+    return this.user;
+  }
+
+  /**
+   * 사용자 전환 - 해당 사용자의 차트 정의를 불러옴
+   */
+  setUser(user: string): void {
+    const next = user.trim() || DEFAULT_USER;
+    if (next === this.user) return;
+    this.user = next;
+    storage.set(USER_STORAGE_KEY, next);
+    this.charts = this.loadCharts();
+    this.buffers.clear();
+    this.notify();
+  }
+
+  // ===== 차트 정의 =====
+  getCharts(): CustomChartDefinition[] {
+    return [...this.charts];
+  }
+
+  getChart(id: string): CustomChartDefinition | undefined {
+    return this.charts.find(chart => chart.id === id);
+  }
+
+  /**
+   * 차트 저장 (id 가 없으면 새로 생성) - 파생 수식은 저장 전에 검증
+   */
+  saveChart(chart: Omit<CustomChartDefinition, 'id' | 'createdAt' | 'updatedAt'> & { id?: string }): CustomChartDefinition {
+    this.validate(chart);
+
+    const now = new Date().toISOString();
+    const existing = chart.id ? this.getChart(chart.id) : undefined;
+    const saved: CustomChartDefinition = {
+      ...chart,
+      id: existing?.id || `chart_${Date.now()}_${randomId(4)}`,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now
+    };
+
+    this.charts = existing
+      ? this.charts.map(item => (item.id === saved.id ? saved : item))
+      : [...this.charts, saved];
+    this.buffers.delete(saved.id);
+    this.persist();
+    this.notify();
+    return saved;
+  }
+
+  deleteChart(id: string): void {
+    this.charts = this.charts.filter(chart => chart.id !== id);
+    this.buffers.delete(id);
+    this.persist();
+    this.notify();
+  }
+
+  getChartData(id: string): CustomChartData {
+    const buffer = this.buffers.get(id);
+    return buffer ? { rows: [...buffer.rows], latest: { ...buffer.latest } } : { rows: [], latest: {} };
+  }
+
+  clearChartData(id: string): void {
+    this.buffers.delete(id);
+    this.notify();
+  }
+
+  // ===== 토픽 목록 =====
+  getCatalog(): TopicFieldCatalogEntry[] {
+    return Array.from(this.catalog.values()).sort((a, b) => a.topic.localeCompare(b.topic));
+  }
+
+  // ===== 메시지 처리 =====
+  /**
+   * MQTT 메시지 입력 - MqttContext 에서 모든 수신 메시지를 전달
+   */
+  handleMessage(message: MqttMessage): void {
+    // 와일드카드/토픽 핸들러 중복 전달 무시
+    const topic = message.topic;
+    if (message === this.lastMessage || !topic) return;
+    this.lastMessage = message;
+
+    this.updateCatalog(topic, message.data);
+
+    const parsed = Date.parse(message.data?.timestamp || message.timestamp);
+    const timestamp = isNaN(parsed) ? Date.now() : parsed;
+    this.charts.forEach(chart => this.applyMessage(chart, topic, message.data, timestamp));
+    this.scheduleNotify();
+  }
+
+  // ===== 리스너 =====
+  onChange(listener: () => void): void {
+    this.listeners.push(listener);
+  }
+
+  offChange(listener: () => void): void {
+    this.listeners = this.listeners.filter(existing => existing !== listener);
+  }
+
+  // ===== 내부 =====
+  private validate(chart: Pick<CustomChartDefinition, 'name' | 'sources' | 'derived'>): void {
+    if (!chart.name.trim()) {
+      throw new Error('차트 이름을 입력하세요');
+    }
+    if (chart.sources.length === 0) {
+      throw new Error('토픽 필드를 하나 이상 추가하세요');
+    }
+    const keys = [...chart.sources, ...chart.derived].map(series => series.key);
+    if (new Set(keys).size !== keys.length) {
+      throw new Error('시리즈 변수 이름이 중복되었습니다');
+    }
+    chart.sources.forEach(source => {
+      if (!source.topic.trim()) {
+        throw new Error(`${source.label || source.key}: 토픽을 입력하세요`);
+      }
+    });
+    chart.derived.forEach(series => {
+      const compiled = compileExpression(series.expression);
+      const unknown = compiled.variables.filter(name => !keys.includes(name) || name === series.key);
+      if (unknown.length > 0) {
+        throw new Error(`${series.label || series.key}: 알 수 없는 변수 ${unknown.join(', ')}`);
+      }
+    });
+  }
+
+  private applyMessage(chart: CustomChartDefinition, topic: string, payload: any, timestamp: number): void {
+    const matched = chart.sources.filter(source => topicMatches(source.topic, topic));
+    if (matched.length === 0) return;
+
+    const buffer = this.getBuffer(chart);
+    let updated = false;
+    matched.forEach(source => {
+      const value = toNumber(getPathValue(payload, source.path));
+      if (value === null) return;
+      buffer.latest[source.key] = value;
+      updated = true;
+    });
+    if (!updated) return;
+
+    // 파생 시리즈는 정의 순서대로 계산 (앞선 파생 값 참조 가능)
+    buffer.expressions.forEach(({ key, compiled }) => {
+      const value = compiled.evaluate(buffer.latest);
+      if (value === null) {
+        delete buffer.latest[key];
+      } else {
+        buffer.latest[key] = value;
+      }
+    });
+
+    buffer.rows.push({ timestamp, ...buffer.latest } as CustomChartRow);
+    const cutoff = timestamp - chart.timeWindow * 1000;
+    while (buffer.rows.length > 0 && (buffer.rows[0].timestamp < cutoff || buffer.rows.length > MAX_ROWS)) {
+      buffer.rows.shift();
+    }
+  }
+
+  private getBuffer(chart: CustomChartDefinition): ChartBuffer {
+    let buffer = this.buffers.get(chart.id);
+    if (!buffer) {
+      buffer = {
+        rows: [],
+        latest: {},
+        expressions: chart.derived.map(series => ({ key: series.key, compiled: compileExpression(series.expression) }))
+      };
+      this.buffers.set(chart.id, buffer);
+    }
+    return buffer;
+  }
+
+  private updateCatalog(topic: string, payload: any): void {
+    const entry = this.catalog.get(topic);
+    if (entry) {
+      entry.messageCount += 1;
+      entry.lastSeen = Date.now();
+      entry.lastPayload = payload;
+      // 필드 구성이 바뀌는 토픽(배열 길이 변화 등)도 반영
+      entry.fields = Array.from(new Set([...entry.fields, ...listNumericPaths(payload)]));
+      return;
+    }
+    if (this.catalog.size >= MAX_TOPICS) return;
+    this.catalog.set(topic, {
+      topic,
+      messageCount: 1,
+      lastSeen: Date.now(),
+      fields: listNumericPaths(payload),
+      lastPayload: payload
+    });
+  }
+
+  private loadCharts(): CustomChartDefinition[] {
+    return storage.get<CustomChartDefinition[]>(`${CHARTS_STORAGE_PREFIX}${this.user}`) || [];
+  }
+
+  private persist(): void {
+    storage.set(`${CHARTS_STORAGE_PREFIX}${this.user}`, this.charts);
+  }
+
+  private scheduleNotify(): void {
+    if (this.notifyTimer) return;
+    this.notifyTimer = setTimeout(() => {
+      this.notifyTimer = null;
+      this.notify();
+    }, NOTIFY_INTERVAL);
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('❌ 사용자 정의 차트 리스너 오류:', error);
+      }
+    });
+  }
+}
+
+export const customChartService = new CustomChartService();
+
+export default CustomChartService;
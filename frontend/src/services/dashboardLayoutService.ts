@@ -0,0 +1,389 @@
+/**
+ * 대시보드 레이아웃 서비스 - 이름 있는 위젯 레이아웃 저장/전환/공유
+ * 레이아웃과 활성 레이아웃은 localStorage 에 보관하므로 스테이션(브라우저)마다 다른 화면을 유지한다.
+ */
+import {
+  DashboardLayout,
+  DashboardLayoutExport,
+  DashboardWidget,
+  DashboardWidgetDefinition,
+  DashboardWidgetType
+} from '../types/dashboardTypes';
+import { storage, randomId } from '../utils';
+
+const LAYOUTS_STORAGE_KEY = 'dashboard_layouts';
+const ACTIVE_LAYOUT_STORAGE_KEY = 'dashboard_active_layout';
+
+export const DASHBOARD_COLUMNS = 12;
+export const DASHBOARD_ROW_HEIGHT = 40; // px
+
+export const DASHBOARD_WIDGETS: Record<DashboardWidgetType, DashboardWidgetDefinition> = {
+  mqttStatus: {
+    type: 'mqttStatus',
+    label: 'MQTT 연결',
+    description: '연결 상태와 수신 메시지 수',
+    defaultSize: { w: 3, h: 3 },
+    minSize: { w: 2, h: 3 }
+  },
+  robotState: {
+    type: 'robotState',
+    label: '로봇 상태',
+    description: '동작 상태와 속도',
+    defaultSize: { w: 3, h: 3 },
+    minSize: { w: 2, h: 3 }
+  },
+  weightGauge: {
+    type: 'weightGauge',
+    label: '무게 게이지',
+    description: '현재 무게 (kg)',
+    defaultSize: { w: 3, h: 6 },
+    minSize: { w: 2, h: 5 }
+  },
+  concentrationGauge: {
+    type: 'concentrationGauge',
+    label: '농도 게이지',
+    description: '현재 농도 (%)',
+    defaultSize: { w: 3, h: 6 },
+    minSize: { w: 2, h: 5 }
+  },
+  weightChart: {
+    type: 'weightChart',
+    label: '무게센서 추이',
+    description: '실시간 무게 차트와 최소/평균/최대',
+    defaultSize: { w: 6, h: 9 },
+    minSize: { w: 3, h: 7 }
+  },
+  concentrationChart: {
+    type: 'concentrationChart',
+    label: '농도 제어 추이',
+    description: '실시간 농도 차트와 최소/평균/최대',
+    defaultSize: { w: 6, h: 9 },
+    minSize: { w: 3, h: 7 }
+  },
+  robotStatusPanel: {
+    type: 'robotStatusPanel',
+    label: '로봇 상태 패널',
+    description: '조인트/포즈/토픽 상세',
+    defaultSize: { w: 8, h: 11 },
+    minSize: { w: 4, h: 8 }
+  },
+  quickControl: {
+    type: 'quickControl',
+    label: '빠른 제어',
+    description: '정지/비상정지/홈 이동',
+    defaultSize: { w: 4, h: 9 },
+    minSize: { w: 3, h: 7 }
+  },
+  sensorDataGrid: {
+    type: 'sensorDataGrid',
+    label: '센서 데이터',
+    description: '센서 값과 품질',
+    defaultSize: { w: 6, h: 10 },
+    minSize: { w: 3, h: 6 }
+  },
+  robot3d: {
+    type: 'robot3d',
+    label: '3D 뷰어',
+    description: '실시간 로봇 3D 모델',
+    defaultSize: { w: 6, h: 10 },
+    minSize: { w: 4, h: 8 }
+  },
+  sensorAlerts: {
+    type: 'sensorAlerts',
+    label: '센서 알람',
+    description: '활성 알람과 알람 이력',
+    defaultSize: { w: 6, h: 10 },
+    minSize: { w: 4, h: 6 }
+  },
+  ros2Status: {
+    type: 'ros2Status',
+    label: 'ROS2 시스템 상태',
+    description: '토픽 수와 시스템 헬스',
+    defaultSize: { w: 6, h: 5 },
+    minSize: { w: 4, h: 5 }
+  },
+  customChart: {
+    type: 'customChart',
+    label: '사용자 정의 차트',
+    description: '차트 빌더에서 저장한 차트',
+    defaultSize: { w: 6, h: 9 },
+    minSize: { w: 3, h: 6 }
+  }
+};
+
+type WidgetPlacement = Pick<DashboardWidget, 'type' | 'x' | 'y' | 'w' | 'h'>;
+
+// 기본 레이아웃 - 운영자 화면 / 엔지니어 화면
+const DEFAULT_LAYOUTS: Array<{ id: string; name: string; widgets: WidgetPlacement[] }> = [
+  {
+    id: 'layout_operator',
+    name: '운영자 화면',
+    widgets: [
+      { type: 'mqttStatus', x: 0, y: 0, w: 3, h: 3 },
+      { type: 'robotState', x: 3, y: 0, w: 3, h: 3 },
+      { type: 'weightGauge', x: 6, y: 0, w: 3, h: 6 },
+      { type: 'concentrationGauge', x: 9, y: 0, w: 3, h: 6 },
+      { type: 'quickControl', x: 0, y: 3, w: 6, h: 9 },
+      { type: 'weightChart', x: 6, y: 6, w: 6, h: 9 },
+      { type: 'sensorAlerts', x: 0, y: 12, w: 6, h: 10 }
+    ]
+  },
+  {
+    id: 'layout_engineer',
+    name: '엔지니어 화면',
+    widgets: [
+      { type: 'robotStatusPanel', x: 0, y: 0, w: 8, h: 11 },
+      { type: 'quickControl', x: 8, y: 0, w: 4, h: 9 },
+      { type: 'robot3d', x: 0, y: 11, w: 6, h: 10 },
+      { type: 'sensorDataGrid', x: 6, y: 11, w: 6, h: 10 },
+      { type: 'weightChart', x: 0, y: 21, w: 6, h: 9 },
+      { type: 'concentrationChart', x: 6, y: 21, w: 6, h: 9 },
+      { type: 'ros2Status', x: 0, y: 30, w: 6, h: 5 },
+      { type: 'sensorAlerts', x: 6, y: 30, w: 6, h: 10 }
+    ]
+  }
+];
+
+const createWidgetId = (): string => `widget_${Date.now()}_${randomId(4)}`;
+
+const isWidgetType = (value: any): value is DashboardWidgetType =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(DASHBOARD_WIDGETS, value);
+
+/**
+ * 위젯 위치/크기를 그리드 범위 안으로 보정
+ */
+const normalizeWidget = (widget: WidgetPlacement & Partial<DashboardWidget>): DashboardWidget => {
+  const { minSize } = DASHBOARD_WIDGETS[widget.type];
+  const toInt = (value: any, fallback: number) => (Number.isFinite(value) ? Math.round(value) : fallback);
+  const w = Math.min(DASHBOARD_COLUMNS, Math.max(minSize.w, toInt(widget.w, minSize.w)));
+  return {
+    id: widget.id || createWidgetId(),
+    type: widget.type,
+    x: Math.min(DASHBOARD_COLUMNS - w, Math.max(0, toInt(widget.x, 0))),
+    y: Math.max(0, toInt(widget.y, 0)),
+    w,
+    h: Math.max(minSize.h, toInt(widget.h, minSize.h)),
+    ...(widget.options ? { options: { ...widget.options } } : {})
+  };
+};
+
+const createDefaultLayouts = (): DashboardLayout[] => {
+  const now = new Date().toISOString();
+  return DEFAULT_LAYOUTS.map(layout => ({
+    id: layout.id,
+    name: layout.name,
+    widgets: layout.widgets.map(widget => normalizeWidget(widget)),
+    createdAt: now,
+    updatedAt: now
+  }));
+};
+
+class DashboardLayoutService {
+  private layouts: DashboardLayout[];
+  private activeLayoutId: string;
+  private listeners: Array<() => void> = [];
+
+  constructor() {
+    const stored = storage.get<DashboardLayout[]>(LAYOUTS_STORAGE_KEY);
+    this.layouts = stored && stored.length > 0 ? stored : createDefaultLayouts();
+    const activeId = storage.get<string>(ACTIVE_LAYOUT_STORAGE_KEY);
+    this.activeLayoutId = this.layouts.some(layout => layout.id === activeId) ? activeId as string : this.layouts[0].id;
+  }
+
+  // ===== 레이아웃 관리 =====
+  getLayouts(): DashboardLayout[] {
+    return this.layouts.map(layout => ({ ...layout, widgets: [...layout.widgets] }));
+  }
+
+  getLayout(id: string): DashboardLayout | null {
+    const layout = this.layouts.find(existing => existing.id === id);
+    return layout ? { ...layout, widgets: [...layout.widgets] } : null;
+  }
+
+  getActiveLayout(): DashboardLayout {
+    return this.getLayout(this.activeLayoutId) as DashboardLayout;
+  }
+
+  setActiveLayout(id: string): void {
+    if (!this.layouts.some(layout => layout.id === id) || id === this.activeLayoutId) return;
+    this.activeLayoutId = id;
+    storage.set(ACTIVE_LAYOUT_STORAGE_KEY, id);
+    this.notify();
+  }
+
+  /**
+   * 새 레이아웃 생성 후 활성화 - 위젯을 주지 않으면 현재 레이아웃을 복제
+   */
+  createLayout(name: string, widgets: DashboardWidget[] = this.getActiveLayout().widgets): DashboardLayout {
+    const now = new Date().toISOString();
+    const layout: DashboardLayout = {
+      id: `layout_${Date.now()}_${randomId(4)}`,
+      name: name.trim() || `레이아웃 ${this.layouts.length + 1}`,
+      widgets: widgets.map(widget => normalizeWidget({ ...widget, id: createWidgetId() })),
+      createdAt: now,
+      updatedAt: now
+    };
+    this.layouts = [...this.layouts, layout];
+    this.activeLayoutId = layout.id;
+    storage.set(ACTIVE_LAYOUT_STORAGE_KEY, layout.id);
+    this.persist();
+    console.log(`🧩 대시보드 레이아웃 생성: ${layout.name}`);
+    return layout;
+  }
+
+  renameLayout(id: string, name: string): void {
+    if (!name.trim()) return;
+    this.updateLayout(id, layout => ({ ...layout, name: name.trim() }));
+  }
+
+  deleteLayout(id: string): void {
+    if (this.layouts.length <= 1) {
+      throw new Error('마지막 레이아웃은 삭제할 수 없습니다');
+    }
+    this.layouts = this.layouts.filter(layout => layout.id !== id);
+    if (this.activeLayoutId === id) {
+      this.activeLayoutId = this.layouts[0].id;
+      storage.set(ACTIVE_LAYOUT_STORAGE_KEY, this.activeLayoutId);
+    }
+    this.persist();
+  }
+
+  /**
+   * 기본 레이아웃(운영자/엔지니어) 복원 - 사용자가 만든 레이아웃은 유지
+   */
+  restoreDefaults(): void {
+    const defaults = createDefaultLayouts();
+    const defaultIds = defaults.map(layout => layout.id);
+    this.layouts = [...defaults, ...this.layouts.filter(layout => !defaultIds.includes(layout.id))];
+    if (!this.layouts.some(layout => layout.id === this.activeLayoutId)) {
+      this.activeLayoutId = defaults[0].id;
+    }
+    this.persist();
+  }
+
+  // ===== 위젯 =====
+
+  /**
+   * 위젯 추가 - 현재 위젯들 아래쪽에 기본 크기로 배치
+   */
+  addWidget(layoutId: string, type: DashboardWidgetType, options?: DashboardWidget['options']): DashboardWidget | null {
+    const layout = this.layouts.find(existing => existing.id === layoutId);
+    if (!layout) return null;
+    const { defaultSize } = DASHBOARD_WIDGETS[type];
+    const bottom = layout.widgets.reduce((max, widget) => Math.max(max, widget.y + widget.h), 0);
+    const widget = normalizeWidget({ type, x: 0, y: bottom, ...defaultSize, options });
+    this.updateLayout(layoutId, current => ({ ...current, widgets: [...current.widgets, widget] }));
+    return widget;
+  }
+
+  removeWidget(layoutId: string, widgetId: string): void {
+    this.updateLayout(layoutId, layout => ({
+      ...layout,
+      widgets: layout.widgets.filter(widget => widget.id !== widgetId)
+    }));
+  }
+
+  /**
+   * 드래그/리사이즈 결과 반영 - 변경이 없으면 저장하지 않음
+   */
+  updatePositions(layoutId: string, positions: Array<{ i: string; x: number; y: number; w: number; h: number }>): void {
+    const layout = this.layouts.find(existing => existing.id === layoutId);
+    if (!layout) return;
+
+    const changed = positions.some(position => {
+      const widget = layout.widgets.find(existing => existing.id === position.i);
+      return widget && (widget.x !== position.x || widget.y !== position.y || widget.w !== position.w || widget.h !== position.h);
+    });
+    if (!changed) return;
+
+    this.updateLayout(layoutId, current => ({
+      ...current,
+      widgets: current.widgets.map(widget => {
+        const position = positions.find(item => item.i === widget.id);
+        return position
+          ? normalizeWidget({ ...widget, x: position.x, y: position.y, w: position.w, h: position.h })
+          : widget;
+      })
+    }));
+  }
+
+  // ===== 내보내기/가져오기 =====
+  exportLayout(id: string): string {
+    const layout = this.getLayout(id);
+    if (!layout) {
+      throw new Error(`레이아웃을 찾을 수 없습니다: ${id}`);
+    }
+    const data: DashboardLayoutExport = {
+      format: 'dashboard_layout',
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      layout: { name: layout.name, widgets: layout.widgets }
+    };
+    return JSON.stringify(data, null, 2);
+  }
+
+  /**
+   * JSON 가져오기 - 새 레이아웃으로 추가하고 활성화
+   */
+  importLayout(json: string): DashboardLayout {
+    let data: any;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('레이아웃 파일이 올바른 JSON 이 아닙니다');
+    }
+
+    if (data?.format !== 'dashboard_layout' || !data.layout || !Array.isArray(data.layout.widgets)) {
+      throw new Error('대시보드 레이아웃 형식이 아닙니다');
+    }
+    if (data.version !== 1) {
+      throw new Error(`지원하지 않는 레이아웃 파일 버전: ${data.version}`);
+    }
+
+    const widgets: DashboardWidget[] = data.layout.widgets.map((widget: any, index: number) => {
+      if (!isWidgetType(widget?.type)) {
+        throw new Error(`위젯 #${index + 1}: 알 수 없는 위젯 종류 ${widget?.type}`);
+      }
+      return normalizeWidget(widget);
+    });
+
+    return this.createLayout(String(data.layout.name || '가져온 레이아웃'), widgets);
+  }
+
+  // ===== 리스너 =====
+  onChange(listener: () => void): void {
+    this.listeners.push(listener);
+  }
+
+  offChange(listener: () => void): void {
+    this.listeners = this.listeners.filter(existing => existing !== listener);
+  }
+
+  // ===== 내부 =====
+  private updateLayout(id: string, update: (layout: DashboardLayout) => DashboardLayout): void {
+    if (!this.layouts.some(layout => layout.id === id)) return;
+    this.layouts = this.layouts.map(layout =>
+      layout.id === id ? { ...update(layout), updatedAt: new Date().toISOString() } : layout
+    );
+    this.persist();
+  }
+
+  private persist(): void {
+    storage.set(LAYOUTS_STORAGE_KEY, this.layouts);
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('❌ 대시보드 레이아웃 리스너 오류:', error);
+      }
+    });
+  }
+}
+
+export const dashboardLayoutService = new DashboardLayoutService();
+
+export default DashboardLayoutService;
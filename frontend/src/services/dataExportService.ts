@@ -0,0 +1,239 @@
+/**
+ * 데이터 내보내기 서비스
+ * timeSeriesStore 롤업을 요청 구간(interval)으로 리샘플링하고 알람/명령 이력을 합쳐
+ * CSV / NDJSON / 컬럼형 JSON(gzip) 파일로 만든다. 메타데이터에 단위와 필터 종류를 기록한다.
+ */
+import {
+  ExportChannel,
+  ExportDataset,
+  ExportEvent,
+  ExportFile,
+  ExportFormat,
+  ExportRequest,
+  ExportSeries
+} from '../types/exportTypes';
+import { TimeSeriesResolution } from '../types/sensorTypes';
+import { SCALE_FILTER_TYPES } from '../config';
+import { SPEC_JOINT_KEYS } from '../utils/robotSpecs';
+import { RESOLUTION_MS, TIME_SERIES_RESOLUTIONS, resamplePoints } from '../utils/timeSeries';
+import { toColumnar, toCsv, toNdjson } from '../utils/exportFormats';
+import { useRobotStore } from '../store/robotStore';
+import { timeSeriesStore } from './timeSeriesStore';
+import { scaleFilterService } from './scaleFilterService';
+import { sensorAlarmService } from './sensorAlarmService';
+
+const EXPORT_VERSION = 1;
+
+// TS 4.9 DOM 타입에 CompressionStream 이 없어 필요한 생성자 형태만 선언
+type CompressionStreamConstructor = new (format: 'gzip') => TransformStream<Uint8Array, Uint8Array>;
+
+const getCompressionStream = (): CompressionStreamConstructor | undefined =>
+  (window as any).CompressionStream;
+
+const EXPORT_CHANNELS: ExportChannel[] = [
+  { id: 'weight', label: '무게 (공식 필터)', kind: 'series', group: 'sensor', unit: 'g', description: '공식 필터 채널 무게' },
+  { id: 'concentration', label: '농도', kind: 'series', group: 'sensor', unit: '%', description: '현재 농도 (sensors/concentration/current)' },
+  ...SCALE_FILTER_TYPES.map((filter): ExportChannel => ({
+    id: `scale/${filter}`,
+    label: `scale/${filter}`,
+    kind: 'series',
+    group: 'scale',
+    unit: 'g',
+    filter,
+    description: `저울 ${filter} 필터 채널`
+  })),
+  ...SPEC_JOINT_KEYS.map((joint, index): ExportChannel => ({
+    id: `joint/${joint}`,
+    label: `J${index + 1}`,
+    kind: 'series',
+    group: 'joint',
+    unit: 'deg',
+    description: `${joint} 위치 (joint_states)`
+  })),
+  { id: 'alarms', label: '센서 알람', kind: 'event', group: 'event', description: '알람 발생/해제/확인 이력' },
+  { id: 'commands', label: '명령 이력', kind: 'event', group: 'event', description: '로봇 명령 결과 (최근 100건)' }
+];
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: 'csv',
+  ndjson: 'ndjson',
+  columnar: 'columnar.json'
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  ndjson: 'application/x-ndjson',
+  columnar: 'application/json'
+};
+
+const timestampForFilename = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace('T', '_').slice(0, 15);
+
+class DataExportService {
+  getChannels(): ExportChannel[] {
+    const official = scaleFilterService.getOfficialFilter();
+    return EXPORT_CHANNELS.map(channel => (channel.id === 'weight' ? { ...channel, filter: official } : channel));
+  }
+
+  supportsCompression(): boolean {
+    return !!getCompressionStream();
+  }
+
+  /**
+   * 요청 채널 데이터 수집 - 시리즈는 리샘플링, 이벤트는 구간 내 기록
+   */
+  async collect(request: ExportRequest): Promise<ExportDataset> {
+    if (request.channels.length === 0) {
+      throw new Error('내보낼 채널을 선택하세요');
+    }
+    if (!(request.from < request.to)) {
+      throw new Error('시작 시각이 종료 시각보다 빨라야 합니다');
+    }
+    if (!(request.interval > 0)) {
+      throw new Error('리샘플링 간격이 올바르지 않습니다');
+    }
+
+    const channels = this.getChannels().filter(channel => request.channels.includes(channel.id));
+    const series = await Promise.all(
+      channels.filter(channel => channel.kind === 'series').map(channel => this.collectSeries(channel, request))
+    );
+    const events = channels
+      .filter(channel => channel.kind === 'event')
+      .flatMap(channel => this.collectEvents(channel.id, request))
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    return {
+      metadata: {
+        format: request.format,
+        version: EXPORT_VERSION,
+        generatedAt: new Date().toISOString(),
+        from: new Date(request.from).toISOString(),
+        to: new Date(request.to).toISOString(),
+        interval: request.interval,
+        aggregation: '구간별 min / max / 샘플 수 가중 평균(avg), count = 원본 샘플 수',
+        officialScaleFilter: scaleFilterService.getOfficialFilter(),
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+        compression: request.format === 'columnar' && this.supportsCompression() ? 'gzip' : 'none',
+        channels: channels.map(channel => {
+          const collected = series.find(item => item.channel.id === channel.id);
+          return {
+            id: channel.id,
+            label: channel.label,
+            kind: channel.kind,
+            unit: channel.unit,
+            filter: channel.filter,
+            sourceResolution: collected?.sourceResolution,
+            rows: collected ? collected.points.length : events.filter(event => event.channel === channel.id).length
+          };
+        })
+      },
+      series,
+      events
+    };
+  }
+
+  /**
+   * 내보내기 파일 생성 (columnar 는 지원 브라우저에서 gzip 압축)
+   */
+  async export(request: ExportRequest): Promise<ExportFile> {
+    const dataset = await this.collect(request);
+    const rows = dataset.metadata.channels.reduce((sum, channel) => sum + channel.rows, 0);
+    const base = `robot_export_${timestampForFilename(new Date(request.from))}`;
+    const extension = FILE_EXTENSIONS[request.format];
+
+    switch (request.format) {
+      case 'csv':
+        return { filename: `${base}.${extension}`, blob: new Blob([toCsv(dataset)], { type: MIME_TYPES.csv }), rows };
+      case 'ndjson':
+        return { filename: `${base}.${extension}`, blob: new Blob([toNdjson(dataset)], { type: MIME_TYPES.ndjson }), rows };
+      case 'columnar': {
+        const blob = new Blob([toColumnar(dataset)], { type: MIME_TYPES.columnar });
+        if (dataset.metadata.compression === 'gzip') {
+          return { filename: `${base}.${extension}.gz`, blob: await this.gzip(blob), rows };
+        }
+        return { filename: `${base}.${extension}`, blob, rows };
+      }
+      default:
+        throw new Error(`지원하지 않는 형식: ${request.format}`);
+    }
+  }
+
+  // ===== 내부 =====
+  private async collectSeries(channel: ExportChannel, request: ExportRequest): Promise<ExportSeries> {
+    const resolution = this.sourceResolution(channel.id, request.from, request.interval);
+    const result = await timeSeriesStore.queryResolution(channel.id, resolution, request.from, request.to);
+    return {
+      channel,
+      sourceResolution: resolution,
+      points: resamplePoints(result.points, Math.max(request.interval, RESOLUTION_MS[resolution]))
+    };
+  }
+
+  /**
+   * 원본 롤업 해상도 - interval 이하 중 가장 큰 해상도, 시작 시각이 보관 기간 밖이면 더 긴 보관 해상도로
+   */
+  private sourceResolution(sensorId: string, from: number, interval: number): TimeSeriesResolution {
+    const candidates = TIME_SERIES_RESOLUTIONS.filter(resolution => RESOLUTION_MS[resolution] <= interval);
+    let index = Math.max(candidates.length - 1, 0);
+    const now = Date.now();
+    while (index < TIME_SERIES_RESOLUTIONS.length - 1) {
+      const current = TIME_SERIES_RESOLUTIONS[index];
+      const next = TIME_SERIES_RESOLUTIONS[index + 1];
+      const covered = now - timeSeriesStore.getRetention(sensorId, current) <= from;
+      if (covered || timeSeriesStore.getRetention(sensorId, next) <= timeSeriesStore.getRetention(sensorId, current)) break;
+      index += 1;
+    }
+    return TIME_SERIES_RESOLUTIONS[index];
+  }
+
+  private collectEvents(channelId: string, request: ExportRequest): ExportEvent[] {
+    const inRange = (timestamp: number) => timestamp >= request.from && timestamp <= request.to;
+
+    if (channelId === 'alarms') {
+      return [...sensorAlarmService.getActiveAlarms(), ...sensorAlarmService.getHistory()]
+        .map((alarm): ExportEvent => ({
+          channel: 'alarms',
+          timestamp: Date.parse(alarm.timestamp),
+          type: alarm.alarmType,
+          message: alarm.message,
+          data: {
+            id: alarm.id,
+            ruleId: alarm.ruleId,
+            sensorId: alarm.sensorId,
+            kind: alarm.kind,
+            value: alarm.value,
+            threshold: alarm.threshold,
+            active: alarm.active,
+            clearedAt: alarm.clearedAt,
+            acknowledgedAt: alarm.acknowledgedAt
+          }
+        }))
+        .filter(event => inRange(event.timestamp));
+    }
+
+    if (channelId === 'commands') {
+      return useRobotStore.getState().commandHistory
+        .map((result): ExportEvent => ({
+          channel: 'commands',
+          timestamp: Date.parse(result.timestamp),
+          type: result.status,
+          message: [result.commandType, result.message || result.error].filter(Boolean).join(' - '),
+          data: { ...result }
+        }))
+        .filter(event => inRange(event.timestamp));
+    }
+
+    return [];
+  }
+
+  private async gzip(blob: Blob): Promise<Blob> {
+    const CompressionStream = getCompressionStream();
+    if (!CompressionStream) return blob;
+    const stream = blob.stream().pipeThrough(new CompressionStream('gzip'));
+    return new Response(stream).blob();
+  }
+}
+
+export const dataExportService = new DataExportService();
+
+export default DataExportService;
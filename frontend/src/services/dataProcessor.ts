@@ -5,16 +5,23 @@
 import { 
   MqttMessage, 
   ROS2TopicListMessage, 
-  WeightSensorMessage, 
-  ConcentrationMessage,
-  RobotControlMessage 
+  ROS2GraphListMessage,
+  ROS2JointStateMessage,
+  RobotControlMessage,
+  ConcentrationCurrentMessage,
+  PouringAnalysisMessage,
+  SystemHealthMessage
 } from '../types/mqttTypes';
 import { 
   RobotState, 
   WeightSensorData, 
   ConcentrationSensorData,
+  RobotResponsePayload,
   Timestamp 
 } from '../types/robotTypes';
+import { ScaleFilterReading } from '../types/sensorTypes';
+import { RobotScenarioEvent } from '../types/topicTypes';
+import { topicRegistry } from './topicRegistry';
 
 class DataProcessorService {
   private dataHistory: Map<string, any[]> = new Map();
@@ -31,11 +38,14 @@ class DataProcessorService {
    */
   public processROS2TopicList(message: MqttMessage): ROS2TopicListMessage | null {
     try {
-      if (message.topic !== 'ros2_topic_list' || !message.data) {
+      if (!topicRegistry.matches('ros2TopicList', message.topic) || !message.data) {
         return null;
       }
 
-      const data = message.data;
+      // `ros2 topic list | jq -R . | jq -s .` 로 발행된 원시 배열 - 분류/분석 없이 전체를 other 로
+      const data = Array.isArray(message.data)
+        ? { total: message.data.length, categorized: { other: message.data }, analysis: {} }
+        : message.data;
       
       // 데이터 구조 검증
       if (!data.categorized || !data.analysis) {
@@ -74,12 +84,50 @@ class DataProcessorService {
     }
   }
 
+  /**
+   * ROS2 노드 / 서비스 리스트 처리 - 원시 배열 또는 { nodes | services | names: [...] } 객체
+   */
+  public processROS2NodeList(message: MqttMessage): ROS2GraphListMessage | null {
+    if (!topicRegistry.matches('ros2NodeList', message.topic)) return null;
+    return this.processROS2GraphList(message, 'nodes', 'ros2_nodes');
+  }
+
+  public processROS2ServiceList(message: MqttMessage): ROS2GraphListMessage | null {
+    if (!topicRegistry.matches('ros2ServiceList', message.topic)) return null;
+    return this.processROS2GraphList(message, 'services', 'ros2_services');
+  }
+
+  private processROS2GraphList(message: MqttMessage, field: string, historyKey: string): ROS2GraphListMessage | null {
+    try {
+      const data = message.data;
+      const raw = Array.isArray(data) ? data : data?.[field] ?? data?.names;
+      if (!Array.isArray(raw)) {
+        console.warn(`⚠️ Invalid ROS2 ${field} list structure`);
+        return null;
+      }
+
+      const names = Array.from(new Set(raw.filter((name: unknown): name is string => typeof name === 'string' && name !== ''))).sort();
+      const processed: ROS2GraphListMessage = {
+        total: names.length,
+        names,
+        timestamp: (!Array.isArray(data) && data?.timestamp) || message.timestamp
+      };
+
+      this.addToHistory(historyKey, processed);
+      return processed;
+
+    } catch (error) {
+      console.error(`❌ ROS2 ${field} 리스트 처리 오류:`, error);
+      return null;
+    }
+  }
+
   /**
    * 무게센서 데이터 처리
    */
   public processWeightSensorData(message: MqttMessage): WeightSensorData | null {
     try {
-      if (message.topic !== 'topic' || !message.data) {
+      if (!topicRegistry.matches('weight', message.topic) || !message.data) {
         return null;
       }
 
@@ -130,7 +178,7 @@ class DataProcessorService {
    */
   public processConcentrationData(message: MqttMessage): ConcentrationSensorData | null {
     try {
-      if (message.topic !== 'web/target_concentration' || !message.data) {
+      if (!topicRegistry.matches('targetConcentration', message.topic) || !message.data) {
         return null;
       }
 
@@ -185,7 +233,7 @@ class DataProcessorService {
    */
   public processRobotControlData(message: MqttMessage): RobotControlMessage | null {
     try {
-      if (!message.topic?.includes('robot/control/') || !message.data) {
+      if (!message.topic || !topicRegistry.matches('robotControl', message.topic) || !message.data) {
         return null;
       }
 
@@ -215,6 +263,165 @@ class DataProcessorService {
     }
   }
 
+  /**
+   * 저울 필터 채널 데이터 처리 (scale/<filter>)
+   */
+  public processScaleSensorData(message: MqttMessage): ScaleFilterReading | null {
+    const filter = topicRegistry.getScaleFilter(message.topic);
+    if (!filter || typeof message.data?.weight !== 'number') {
+      return null;
+    }
+
+    return {
+      filter,
+      weight: message.data.weight,
+      unit: this.normalizeUnit(message.data.unit, 'g'),
+      timestamp: message.data.timestamp || message.timestamp,
+      deviceId: message.data.device_id
+    };
+  }
+
+  /**
+   * ROS2 조인트 상태 처리 (sensor_msgs/JointState, rad)
+   */
+  public processJointStates(message: MqttMessage): ROS2JointStateMessage | null {
+    const data = message.data;
+    if (!topicRegistry.matches('jointStates', message.topic) || !data || !Array.isArray(data.position)) {
+      return null;
+    }
+    if (!data.position.every((value: any) => typeof value === 'number')) {
+      return null;
+    }
+
+    return {
+      header: data.header || { stamp: { sec: 0, nanosec: 0 }, frame_id: '' },
+      name: this.ensureArray(data.name),
+      position: data.position,
+      velocity: Array.isArray(data.velocity) ? data.velocity : [],
+      effort: Array.isArray(data.effort) ? data.effort : []
+    };
+  }
+
+  /**
+   * 현재 농도 데이터 처리
+   */
+  public processConcentrationCurrent(message: MqttMessage): ConcentrationCurrentMessage | null {
+    const data = message.data;
+    if (!topicRegistry.matches('concentrationCurrent', message.topic) || typeof data?.concentration !== 'number') {
+      return null;
+    }
+
+    const processed: ConcentrationCurrentMessage = {
+      concentration: data.concentration,
+      target: this.safeNumber(data.target),
+      unit: this.normalizeUnit(data.unit, '%'),
+      timestamp: data.timestamp || message.timestamp
+    };
+    this.addToHistory('concentration_current', processed);
+    return processed;
+  }
+
+  /**
+   * 로봇 이벤트 처리 - 이벤트 전용 토픽, event_name 변환 형식, 시나리오 이벤트 코드(1, 2) 지원
+   */
+  public processRobotEvent(message: MqttMessage): RobotScenarioEvent | null {
+    let name: string | null = null;
+    if (topicRegistry.matches('sugarDispensed', message.topic)) {
+      name = 'sugar_dispensed';
+    } else if (topicRegistry.matches('cupPlaced', message.topic)) {
+      name = 'cup_placed';
+    } else if (topicRegistry.matches('scenarioEvents', message.topic)) {
+      const code = message.data?.event_name ?? message.data?.event ?? message.data;
+      if (code === 'sugar_dispensed' || code === 'cup_placed') {
+        name = code;
+      } else if (typeof code === 'string' || typeof code === 'number') {
+        name = topicRegistry.getScenarioEventName(code);
+      }
+    }
+    if (name !== 'sugar_dispensed' && name !== 'cup_placed') {
+      return null;
+    }
+
+    const data = message.data && typeof message.data === 'object' ? message.data : {};
+    const event = {
+      ...data,
+      event: name,
+      timestamp: data.timestamp || message.timestamp
+    } as RobotScenarioEvent;
+    this.addToHistory('robot_events', event);
+    return event;
+  }
+
+  /**
+   * 붓기 분석 결과 처리
+   */
+  public processPouringAnalysis(message: MqttMessage): PouringAnalysisMessage | null {
+    const data = message.data;
+    if (!topicRegistry.matches('pouringAnalysis', message.topic) || typeof data?.final_weight !== 'number') {
+      return null;
+    }
+
+    const analysis: PouringAnalysisMessage = {
+      ...data,
+      timestamp: data.timestamp || message.timestamp
+    };
+    this.addToHistory('pouring_analysis', analysis);
+    return analysis;
+  }
+
+  /**
+   * 로봇 명령 응답 처리 (명령 큐 상태 전이용)
+   */
+  public processRobotResponse(message: MqttMessage): RobotResponsePayload | null {
+    const data = message.data;
+    if (!topicRegistry.matches('robotResponse', message.topic) || !data?.command_id || typeof data.status !== 'string') {
+      return null;
+    }
+    return data as RobotResponsePayload;
+  }
+
+  /**
+   * 로봇 상태 토픽 처리 - 알려진 필드만 RobotState 로 반영
+   */
+  public processRobotStatusData(message: MqttMessage): Partial<RobotState> | null {
+    const data = message.data;
+    if (!topicRegistry.matches('robotStatus', message.topic) || !data || typeof data !== 'object') {
+      return null;
+    }
+
+    const state: Partial<RobotState> = { lastUpdate: data.timestamp || message.timestamp };
+    if (typeof data.status === 'string') state.status = data.status;
+    if (typeof data.isMoving === 'boolean') state.isMoving = data.isMoving;
+    if (typeof data.is_moving === 'boolean') state.isMoving = data.is_moving;
+    if (typeof data.isConnected === 'boolean') state.isConnected = data.isConnected;
+
+    const joints = data.jointPositions || data.joint_positions;
+    if (Array.isArray(joints) && joints.every((value: any) => typeof value === 'number')) {
+      state.jointPositions = joints;
+    }
+    if (Array.isArray(data.errorCodes)) {
+      state.errorCodes = this.ensureArray(data.errorCodes);
+    }
+    return state;
+  }
+
+  /**
+   * 시스템 상태 처리
+   */
+  public processSystemHealth(message: MqttMessage): SystemHealthMessage | null {
+    const data = message.data;
+    if (!topicRegistry.matches('systemHealth', message.topic) || typeof data?.status !== 'string') {
+      return null;
+    }
+
+    const health: SystemHealthMessage = {
+      ...data,
+      timestamp: data.timestamp || message.timestamp
+    };
+    this.addToHistory('system_health', health);
+    return health;
+  }
+
   /**
    * 로봇 상태 데이터 구성 (ROS2 토픽에서)
    */
@@ -346,21 +553,27 @@ class DataProcessorService {
     for (const message of messages) {
       try {
         // 메시지 타입에 따른 처리
-        if (message.topic === 'ros2_topic_list') {
-          const processed = this.processROS2TopicList(message);
-          if (processed) results.ros2Topics.push(processed);
-        }
-        else if (message.topic === 'topic') {
-          const processed = this.processWeightSensorData(message);
-          if (processed) results.weightSensors.push(processed);
-        }
-        else if (message.topic === 'web/target_concentration') {
-          const processed = this.processConcentrationData(message);
-          if (processed) results.concentrations.push(processed);
-        }
-        else if (message.topic?.includes('robot/control/')) {
-          const processed = this.processRobotControlData(message);
-          if (processed) results.robotCommands.push(processed);
+        switch (topicRegistry.resolveChannel(message.topic)) {
+          case 'ros2TopicList': {
+            const processed = this.processROS2TopicList(message);
+            if (processed) results.ros2Topics.push(processed);
+            break;
+          }
+          case 'weight': {
+            const processed = this.processWeightSensorData(message);
+            if (processed) results.weightSensors.push(processed);
+            break;
+          }
+          case 'targetConcentration': {
+            const processed = this.processConcentrationData(message);
+            if (processed) results.concentrations.push(processed);
+            break;
+          }
+          case 'robotControl': {
+            const processed = this.processRobotControlData(message);
+            if (processed) results.robotCommands.push(processed);
+            break;
+          }
         }
       } catch (error) {
         console.error('❌ 배치 메시지 처리 오류:', message.topic, error);
@@ -0,0 +1,691 @@
+/**
+ * 🎭 Mock 로봇/센서 시뮬레이터
+ * Doosan 암과 아두이노 저울 없이 대시보드를 개발/시연하기 위한 시뮬레이터
+ * 전송 계층(Transport) 구현 제공 - isMockDataEnabled() 일 때 연결 관리자가 사용
+ */
+import {
+  MqttMessage,
+  ROS2JointStateMessage,
+  ScaleSensorMessage,
+  ConcentrationCurrentMessage,
+  CupPlacedEventMessage,
+  SugarDispensedEventMessage,
+  PouringAnalysisMessage
+} from '../types/mqttTypes';
+import { getUpdateInterval, SCALE_FILTER_TYPES } from '../config';
+import { SPEC_JOINT_KEYS, getSpecJointLimits, getSpecJointMaxVelocities } from '../utils/robotSpecs';
+import { solveClosestIK } from '../utils/kinematics';
+import { topicRegistry } from './topicRegistry';
+import { Transport, TransportStatus } from '../types/transportTypes';
+
+export interface MockRobotSimulatorOptions {
+  connectDelay?: number;
+  debug?: boolean;
+}
+
+type SimulationListener = (message: MqttMessage) => void;
+
+const HOME_POSITION = [0, 0, 90, 0, 90, 0];
+const DEG_TO_RAD = Math.PI / 180;
+
+const ROS2_TOPICS = [
+  '/dsr01/joint_states',
+  '/dsr01/dynamic_joint_states',
+  '/dsr01/robot_description',
+  '/dsr01/error',
+  '/dsr01/robot_disconnection',
+  '/dsr01/dsr_controller2/transition_event',
+  '/dsr01/joint_state_broadcaster/transition_event',
+  '/dsr01/servoj_stream',
+  '/dsr01/servol_stream',
+  '/dsr01/speedj_stream',
+  '/dsr01/speedl_stream',
+  '/dsr01/alter_motion_stream',
+  '/clicked_point',
+  '/parameter_events',
+  '/rosout',
+  '/tf',
+  '/tf_static'
+];
+
+const ROS2_NODES = [
+  '/dsr01/controller_manager',
+  '/dsr01/dsr_controller2',
+  '/dsr01/joint_state_broadcaster',
+  '/dsr01/robot_state_publisher',
+  '/dsr01/dsr_hw_interface2',
+  '/mqtt_bridge',
+  '/rviz2'
+];
+
+const ROS2_SERVICES = [
+  '/dsr01/motion/move_joint',
+  '/dsr01/motion/move_line',
+  '/dsr01/motion/move_stop',
+  '/dsr01/system/get_robot_state',
+  '/dsr01/system/set_robot_mode',
+  '/dsr01/controller_manager/list_controllers',
+  '/mqtt_bridge/get_parameters'
+];
+
+// 표준 정규분포 난수 (Box-Muller)
+const gaussian = (): number => {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+// 위치-속도 칼만 필터 상태
+interface PvFilterState {
+  x: number;
+  v: number;
+  p: [number, number, number, number];
+}
+
+/**
+ * 시뮬레이션 엔진 - 모든 MockRobotSimulator 인스턴스가 공유
+ * (연결 관리자와 CommandSenderService 가 같은 로봇을 보도록)
+ */
+export class RobotSimulationEngine {
+  private listeners = new Set<SimulationListener>();
+  private timers: NodeJS.Timeout[] = [];
+
+  // 로봇 상태 (degrees)
+  private positions: number[] = [...HOME_POSITION];
+  private velocities: number[] = [0, 0, 0, 0, 0, 0];
+  private targets: number[] | null = null;
+  private jointSpeeds: number[] = [0, 0, 0, 0, 0, 0];
+  private speedRatio = 0.5;
+  private emergency = false;
+  private activeCommandId: string | null = null;
+  private lastJointTick = Date.now();
+
+  // 저울 상태 (g)
+  private cycleStart = Date.now();
+  private trueWeight = 0;
+  private movingWindow: number[] = [];
+  private ema: number | null = null;
+  private kalman = { x: 0, p: 1 };
+  private pvFilters: Record<string, PvFilterState> = {};
+
+  // 농도 상태 (%)
+  private concentration = 0;
+  private concentrationTarget = 30;
+
+  // 시나리오 이벤트 (주기별 1회 발행)
+  private scenarioCycle = -1;
+  private scenarioEvents = new Set<string>();
+
+  attach(listener: SimulationListener): void {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) {
+      this.start();
+    }
+  }
+
+  detach(listener: SimulationListener): void {
+    this.listeners.delete(listener);
+    if (this.listeners.size === 0) {
+      this.stop();
+    }
+  }
+
+  /**
+   * 발행된 메시지 처리 (브로커처럼 에코 후 명령 반응)
+   */
+  publish(topic: string, payload: any): void {
+    this.emit(topic, payload);
+
+    if (topicRegistry.matches('robotControl', topic)) {
+      this.handleControlCommand(topic.split('/').pop() || '', payload || {});
+    } else if (topicRegistry.matches('targetConcentration', topic)) {
+      const target = typeof payload === 'number' ? payload : payload?.target;
+      if (typeof target === 'number' && !isNaN(target)) {
+        this.concentrationTarget = Math.max(0, Math.min(100, target));
+      }
+    }
+  }
+
+  // /api/robot/status 응답 형식과 호환되는 스냅샷
+  getRobotStatus() {
+    const isMoving = this.targets !== null;
+    return {
+      connected: true,
+      status: this.emergency ? 'emergency' : isMoving ? 'moving' : 'idle',
+      jointPositions: [...this.positions],
+      speed: Math.round(this.speedRatio * 100),
+      isMoving,
+      safetyStatus: this.emergency ? 'emergency' : 'normal',
+      operationMode: 'manual',
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  getSensorSnapshot() {
+    return {
+      weight: this.trueWeight,
+      concentration: this.concentration,
+      concentrationTarget: this.concentrationTarget,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  private start(): void {
+    this.lastJointTick = Date.now();
+    this.timers = [
+      setInterval(() => this.tickJoints(), getUpdateInterval('JOINT_POSITIONS')),
+      setInterval(() => this.tickSensors(), getUpdateInterval('SENSOR_DATA')),
+      setInterval(() => this.emitTopicList(), 5000)
+    ];
+    this.emitTopicList();
+  }
+
+  private stop(): void {
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers = [];
+  }
+
+  private emit(topic: string, data: any): void {
+    const message: MqttMessage = {
+      type: 'message',
+      topic,
+      data,
+      timestamp: new Date().toISOString()
+    };
+    this.listeners.forEach(listener => listener(message));
+  }
+
+  private respond(commandId: string | undefined, status: string, message?: string): void {
+    if (!commandId) return;
+    this.emit(topicRegistry.getTopic('robotResponse'), {
+      command_id: commandId,
+      status,
+      message,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  /**
+   * 로봇 제어 명령 반응
+   */
+  private handleControlCommand(command: string, payload: any): void {
+    const commandId: string | undefined = payload.command_id;
+
+    if (this.emergency && command !== 'emergency_stop' && command !== 'reset' && command !== 'safety') {
+      this.respond(commandId, 'rejected', '비상정지 상태입니다');
+      return;
+    }
+
+    switch (command) {
+      case 'move_joint': {
+        const positions: number[] = payload.positions;
+        if (!Array.isArray(positions) || positions.length !== 6) {
+          this.respond(commandId, 'rejected', 'positions must be an array of 6 numbers');
+          return;
+        }
+        if (typeof payload.speed === 'number') {
+          this.speedRatio = Math.max(0.01, Math.min(1, payload.speed / 100));
+        }
+        this.startMotion(positions, commandId);
+        break;
+      }
+
+      case 'home':
+        if (typeof payload.speed === 'number') {
+          this.speedRatio = Math.max(0.01, Math.min(1, payload.speed / 100));
+        }
+        this.startMotion(HOME_POSITION, commandId);
+        break;
+
+      case 'move_linear': {
+        // 직선 보간 대신 현재 자세에서 가장 가까운 IK 해로 관절 이동
+        const target = payload.target;
+        if (!target || ['x', 'y', 'z', 'rx', 'ry', 'rz'].some(axis => typeof target[axis] !== 'number')) {
+          this.respond(commandId, 'rejected', 'target must be a pose {x, y, z, rx, ry, rz}');
+          return;
+        }
+        const joints = solveClosestIK(target, this.positions);
+        if (!joints) {
+          this.respond(commandId, 'rejected', '목표 위치에 대한 유효한 역기구학 해가 없습니다');
+          return;
+        }
+        if (typeof payload.speed === 'number') {
+          this.speedRatio = Math.max(0.01, Math.min(1, payload.speed / 100));
+        }
+        this.startMotion(joints, commandId);
+        break;
+      }
+
+      case 'stop':
+        this.haltMotion('정지 명령으로 중단됨');
+        this.respond(commandId, 'acknowledged');
+        this.respond(commandId, 'done', '정지 완료');
+        break;
+
+      case 'emergency_stop':
+        this.haltMotion('비상정지로 중단됨');
+        this.emergency = true;
+        this.respond(commandId, 'acknowledged');
+        this.respond(commandId, 'done', '비상정지 활성화');
+        break;
+
+      case 'reset':
+        this.emergency = false;
+        this.respond(commandId, 'acknowledged');
+        this.respond(commandId, 'done', '비상정지 해제');
+        break;
+
+      case 'safety':
+        // 안전 제어 - 시뮬레이터는 비상정지 해제만 상태에 반영
+        if (payload.action === 'release_emergency_stop') {
+          this.emergency = false;
+        }
+        this.respond(commandId, 'acknowledged');
+        this.respond(commandId, 'done', `안전 제어: ${payload.action}`);
+        break;
+
+      case 'speed':
+        if (typeof payload.speed === 'number') {
+          this.speedRatio = Math.max(0.01, Math.min(1, payload.speed / 100));
+        }
+        this.respond(commandId, 'acknowledged');
+        this.respond(commandId, 'done', `속도 ${Math.round(this.speedRatio * 100)}%`);
+        break;
+
+      default:
+        this.respond(commandId, 'rejected', `Unknown command: ${command}`);
+    }
+  }
+
+  /**
+   * 관절 이동 시작 - 가장 느린 관절 기준으로 모든 관절이 동시에 도착하도록 속도 분배
+   */
+  private startMotion(target: number[], commandId?: string): void {
+    const limits = getSpecJointLimits();
+    const maxVelocities = getSpecJointMaxVelocities();
+    const clamped = target.map((value, i) => Math.max(limits[i].min, Math.min(limits[i].max, value)));
+
+    // 진행 중인 명령은 새 명령으로 대체
+    this.haltMotion('새 명령으로 대체됨');
+
+    const duration = clamped.reduce((longest, value, i) => {
+      const distance = Math.abs(value - this.positions[i]);
+      return Math.max(longest, distance / (maxVelocities[i] * this.speedRatio));
+    }, 0);
+
+    this.respond(commandId, 'acknowledged');
+
+    if (duration === 0) {
+      this.respond(commandId, 'done', '이미 목표 위치입니다');
+      return;
+    }
+
+    this.jointSpeeds = clamped.map((value, i) => Math.abs(value - this.positions[i]) / duration);
+    this.targets = clamped;
+    this.activeCommandId = commandId || null;
+    this.respond(commandId, 'executing');
+  }
+
+  private haltMotion(reason: string): void {
+    if (this.activeCommandId) {
+      this.respond(this.activeCommandId, 'failed', reason);
+    }
+    this.targets = null;
+    this.activeCommandId = null;
+    this.velocities = [0, 0, 0, 0, 0, 0];
+  }
+
+  private tickJoints(): void {
+    const now = Date.now();
+    const dt = (now - this.lastJointTick) / 1000;
+    this.lastJointTick = now;
+
+    if (this.targets) {
+      const targets = this.targets;
+      let arrived = true;
+
+      this.positions = this.positions.map((position, i) => {
+        const remaining = targets[i] - position;
+        const step = this.jointSpeeds[i] * dt;
+        if (Math.abs(remaining) <= step) {
+          this.velocities[i] = 0;
+          return targets[i];
+        }
+        arrived = false;
+        this.velocities[i] = Math.sign(remaining) * this.jointSpeeds[i];
+        return position + Math.sign(remaining) * step;
+      });
+
+      if (arrived) {
+        const commandId = this.activeCommandId;
+        this.targets = null;
+        this.activeCommandId = null;
+        this.respond(commandId || undefined, 'done', '목표 위치 도달');
+      }
+    }
+
+    const seconds = now / 1000;
+    const jointState: ROS2JointStateMessage = {
+      header: {
+        stamp: { sec: Math.floor(seconds), nanosec: Math.floor((seconds % 1) * 1e9) },
+        frame_id: ''
+      },
+      name: [...SPEC_JOINT_KEYS],
+      position: this.positions.map(deg => (deg + gaussian() * 0.002) * DEG_TO_RAD),
+      velocity: this.velocities.map(deg => deg * DEG_TO_RAD),
+      effort: this.positions.map((deg, i) => i === 1 || i === 2 ? Math.cos(deg * DEG_TO_RAD) * 20 : 0)
+    };
+    this.emit(topicRegistry.getTopic('jointStates'), jointState);
+  }
+
+  /**
+   * 저울 + 농도 센서 시뮬레이션
+   * 20초 주기: 빈 컵 → 붓기(0→200g) → 유지 → 컵 제거
+   */
+  private tickSensors(): void {
+    const cycleTime = (Date.now() - this.cycleStart) / 1000;
+    const elapsed = cycleTime % 20;
+    if (elapsed < 3) {
+      this.trueWeight = 0;
+    } else if (elapsed < 13) {
+      this.trueWeight = ((elapsed - 3) / 10) * 200;
+    } else if (elapsed < 18) {
+      this.trueWeight = 200;
+    } else {
+      this.trueWeight = 0;
+    }
+
+    const raw = this.trueWeight + gaussian() * 0.8;
+    const timestamp = new Date().toISOString();
+
+    // 이동 평균 (window 10)
+    this.movingWindow = [...this.movingWindow, raw].slice(-10);
+    const movingAverage = this.movingWindow.reduce((sum, value) => sum + value, 0) / this.movingWindow.length;
+
+    // 지수 평균 (alpha 0.2)
+    this.ema = this.ema === null ? raw : this.ema + 0.2 * (raw - this.ema);
+
+    // 1차 칼만
+    const p = this.kalman.p + 0.05;
+    const gain = p / (p + 0.64);
+    this.kalman = { x: this.kalman.x + gain * (raw - this.kalman.x), p: (1 - gain) * p };
+
+    const outputs: Record<string, number> = {
+      raw,
+      moving_average: movingAverage,
+      exponential_average: this.ema,
+      kalman_simple: this.kalman.x,
+      // ekf/ukf 는 선형 모델이므로 위치-속도 칼만과 동일 구조, 튜닝만 다름
+      kalman_pv: this.updatePvFilter('kalman_pv', raw, 0.5),
+      ekf: this.updatePvFilter('ekf', raw, 1.0),
+      ukf: this.updatePvFilter('ukf', raw, 2.0)
+    };
+
+    SCALE_FILTER_TYPES.forEach(filter => {
+      const message: ScaleSensorMessage = {
+        weight: Math.round(outputs[filter] * 100) / 100,
+        unit: 'g',
+        timestamp,
+        device_id: 'mock_scale',
+        sensor_type: filter
+      };
+      this.emit(topicRegistry.getScaleFilterTopic(filter), message);
+    });
+
+    // 농도: 목표값으로 1차 수렴 + 노이즈
+    this.concentration += (this.concentrationTarget - this.concentration) * 0.05;
+    const concentrationMessage: ConcentrationCurrentMessage = {
+      concentration: Math.round((this.concentration + gaussian() * 0.1) * 100) / 100,
+      target: this.concentrationTarget,
+      unit: '%',
+      timestamp
+    };
+    this.emit(topicRegistry.getTopic('concentrationCurrent'), concentrationMessage);
+
+    this.emitScenarioEvents(Math.floor(cycleTime / 20), elapsed, timestamp);
+  }
+
+  /**
+   * 시나리오 이벤트: 컵 배치(0초) → 설탕 투입(1.5초) → 붓기 분석 결과(17초, 컵 제거 전)
+   */
+  private emitScenarioEvents(cycle: number, elapsed: number, timestamp: string): void {
+    if (cycle !== this.scenarioCycle) {
+      this.scenarioCycle = cycle;
+      this.scenarioEvents.clear();
+    }
+    const sessionId = `mock_session_${cycle}`;
+    const emitOnce = (key: string, at: number, emitEvent: () => void) => {
+      if (elapsed >= at && !this.scenarioEvents.has(key)) {
+        this.scenarioEvents.add(key);
+        emitEvent();
+      }
+    };
+
+    emitOnce('cup_placed', 0, () => {
+      const event: CupPlacedEventMessage = {
+        event: 'cup_placed',
+        session_id: sessionId,
+        cup_id: `cup_${cycle % 4 + 1}`,
+        tare_weight: 0,
+        timestamp
+      };
+      this.emit(topicRegistry.getTopic('cupPlaced'), event);
+    });
+
+    emitOnce('sugar_dispensed', 1.5, () => {
+      const event: SugarDispensedEventMessage = {
+        event: 'sugar_dispensed',
+        session_id: sessionId,
+        amount: Math.round((20 + gaussian() * 0.5) * 10) / 10,
+        dispense_index: 1,
+        timestamp
+      };
+      this.emit(topicRegistry.getTopic('sugarDispensed'), event);
+    });
+
+    emitOnce('analysis', 17, () => {
+      const analysis: PouringAnalysisMessage = {
+        session_id: sessionId,
+        final_weight: Math.round((this.trueWeight + gaussian() * 0.3) * 100) / 100,
+        flow_rate: 20,
+        concentration: Math.round(this.concentration * 100) / 100,
+        target: this.concentrationTarget,
+        duration: Math.round(elapsed * 10) / 10,
+        status: 'completed',
+        timestamp
+      };
+      this.emit(topicRegistry.getTopic('pouringAnalysis'), analysis);
+    });
+  }
+
+  // 위치-속도 칼만 필터 (dt = 센서 주기)
+  private updatePvFilter(key: string, measurement: number, q: number): number {
+    const dt = getUpdateInterval('SENSOR_DATA') / 1000;
+    const r = 0.64;
+    const state = this.pvFilters[key] || { x: measurement, v: 0, p: [1, 0, 0, 1] };
+    const [p00, p01, p10, p11] = state.p;
+
+    // 예측
+    const x = state.x + state.v * dt;
+    const v = state.v;
+    const pp00 = p00 + dt * (p10 + p01) + dt * dt * p11 + q * dt * dt * dt / 3;
+    const pp01 = p01 + dt * p11 + q * dt * dt / 2;
+    const pp10 = p10 + dt * p11 + q * dt * dt / 2;
+    const pp11 = p11 + q * dt;
+
+    // 갱신
+    const s = pp00 + r;
+    const k0 = pp00 / s;
+    const k1 = pp10 / s;
+    const innovation = measurement - x;
+
+    this.pvFilters[key] = {
+      x: x + k0 * innovation,
+      v: v + k1 * innovation,
+      p: [(1 - k0) * pp00, (1 - k0) * pp01, pp10 - k1 * pp00, pp11 - k1 * pp01]
+    };
+    return this.pvFilters[key].x;
+  }
+
+  private emitTopicList(): void {
+    const contains = (topic: string, keywords: string[]) => keywords.some(keyword => topic.indexOf(keyword) !== -1);
+
+    this.emit(topicRegistry.getTopic('ros2TopicList'), {
+      total: ROS2_TOPICS.length,
+      topics: ROS2_TOPICS,
+      categorized: {
+        robotControl: ROS2_TOPICS.filter(topic => contains(topic, ['stream', 'controller'])),
+        robotStatus: ROS2_TOPICS.filter(topic => contains(topic, ['joint_state', 'robot_description', 'disconnection'])),
+        navigation: ROS2_TOPICS.filter(topic => contains(topic, ['/tf', 'clicked_point'])),
+        diagnostics: ROS2_TOPICS.filter(topic => contains(topic, ['error', 'rosout'])),
+        system: ROS2_TOPICS.filter(topic => contains(topic, ['parameter_events', 'transition_event'])),
+        other: []
+      },
+      changes: { added: [], removed: [] },
+      analysis: {
+        status: this.emergency ? 'warning' : 'healthy',
+        issues: this.emergency ? ['Emergency stop active'] : [],
+        recommendations: this.emergency ? ['Reset the emergency stop before sending motion commands'] : []
+      },
+      timestamp: new Date().toISOString()
+    });
+
+    // 노드 / 서비스 리스트는 실제 발행 측과 같은 원시 배열 형식
+    this.emit(topicRegistry.getTopic('ros2NodeList'), ROS2_NODES);
+    this.emit(topicRegistry.getTopic('ros2ServiceList'), ROS2_SERVICES);
+  }
+}
+
+// 공유 시뮬레이션 엔진
+export const robotSimulation = new RobotSimulationEngine();
+
+/**
+ * Mock 전송 계층 - BackendWebSocketService 와 같은 Transport 인터페이스
+ */
+export class MockRobotSimulator implements Transport {
+  readonly kind = 'mock' as const;
+  private options: Required<MockRobotSimulatorOptions>;
+  private connected = false;
+  private connecting = false;
+  private connectAttempt = 0; // disconnect() 마다 증가 - 대기 중인 connect() 취소
+
+  // 이벤트 핸들러 (연결 관리자가 설정)
+  public onMessage?: (message: MqttMessage) => void;
+  public onFrame?: (frame: any) => void;
+  public onConnectionChange?: (connected: boolean) => void;
+  public onError?: (error: any) => void;
+
+  constructor(options: MockRobotSimulatorOptions = {}) {
+    this.options = {
+      connectDelay: options.connectDelay ?? 300,
+      debug: options.debug || false
+    };
+
+    this.log('Mock 시뮬레이터 초기화:', this.options);
+  }
+
+  private log(message: string, ...args: any[]) {
+    if (this.options.debug) {
+      console.log(`[MockSim] ${message}`, ...args);
+    }
+  }
+
+  private handleSimulationMessage = (message: MqttMessage) => {
+    try {
+      this.onMessage?.(message);
+    } catch (error) {
+      this.log('❌ 메시지 핸들러 오류:', error);
+    }
+  };
+
+  async connect(): Promise<void> {
+    if (this.connected) return;
+
+    const attempt = ++this.connectAttempt;
+    this.connecting = true;
+    await new Promise(resolve => setTimeout(resolve, this.options.connectDelay));
+    if (attempt !== this.connectAttempt) {
+      this.log('⏹️ 연결 대기 중 해제됨 - 연결 취소');
+      return;
+    }
+    this.connecting = false;
+    this.connected = true;
+
+    robotSimulation.attach(this.handleSimulationMessage);
+    this.log('✅ Mock 시뮬레이터 연결됨');
+
+    this.onConnectionChange?.(true);
+  }
+
+  disconnect(): void {
+    this.connectAttempt++;
+    this.connecting = false;
+    if (!this.connected) return;
+
+    robotSimulation.detach(this.handleSimulationMessage);
+    this.connected = false;
+    this.log('🔌 Mock 시뮬레이터 연결 해제');
+
+    this.onConnectionChange?.(false);
+  }
+
+  // 시뮬레이터는 모든 토픽을 발행 - 구독은 기록만
+  subscribe(topic: string, qos: 0 | 1 | 2 = 0): void {
+    this.log('📡 구독 요청:', topic, qos);
+  }
+
+  unsubscribe(topic: string): void {
+    this.log('📡 구독 해제:', topic);
+  }
+
+  publish(topic: string, message: string, qos: 0 | 1 | 2 = 0, retained = false): void {
+    if (!this.connected) {
+      this.log('⚠️  연결되지 않음. 발행 실패:', topic);
+      return;
+    }
+
+    let payload: any = message;
+    try {
+      payload = JSON.parse(message);
+    } catch {
+      // 문자열 페이로드 그대로 사용
+    }
+
+    this.log('📤 메시지 발행:', topic, { qos, retained });
+    robotSimulation.publish(topic, payload);
+  }
+
+  // 제어 프레임 채널 없음
+  send(frame: Record<string, any>): boolean {
+    return false;
+  }
+
+  // 상태 확인 메서드들
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  getConnectionStatus(): TransportStatus {
+    if (this.connecting) return 'connecting';
+    return this.connected ? 'connected' : 'disconnected';
+  }
+
+  getLastError(): string | null {
+    return null;
+  }
+
+  // 연결 감시 (ConnectionProbe) - 시뮬레이터는 네트워크가 없으므로 연결되어 있으면 항상 응답
+  ping(): boolean {
+    return this.connected;
+  }
+
+  getLastHeartbeat(): number | null {
+    return this.connected ? Date.now() : null;
+  }
+
+  getLatency(): number | null {
+    return this.connected ? 0 : null;
+  }
+}
+
+export default MockRobotSimulator;
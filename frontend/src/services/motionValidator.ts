@@ -0,0 +1,457 @@
+/**
+ * 모션 사전 검증 서비스 - 모든 이동 명령이 전송 전에 공통으로 사용
+ * 조인트 범위/속도, 최대 도달 거리, 금지 구역(keep-out zone)을 m0609_specs.json 기준으로 검사하고
+ * 구조화된 위반 목록(MotionViolation[])을 반환한다.
+ */
+import {
+  JointLimits,
+  KeepOutZone,
+  MotionValidationOptions,
+  MotionValidationResult,
+  MotionViolation,
+  Position3D,
+  RobotPose
+} from '../types/robotTypes';
+import { getSpecJointLimits, getSpecJointMaxVelocities, getSpecMaxReach, getSpecTcpMaxVelocity } from '../utils/robotSpecs';
+import { forwardKinematics, forwardKinematicsFrames, solveClosestIK, Matrix4 } from '../utils/kinematics';
+import { storage } from '../utils';
+
+const KEEP_OUT_STORAGE_KEY = 'motion_keep_out_zones';
+const PATH_SAMPLES = 20;          // 경로 검사 샘플 수
+const JOINT_LIMIT_WARNING = 5;    // 조인트 한계 근접 경고 (degrees)
+
+// 기본 금지 구역: 설치면 아래
+const DEFAULT_KEEP_OUT_ZONES: KeepOutZone[] = [
+  {
+    id: 'floor',
+    name: '설치면',
+    enabled: true,
+    shape: 'box',
+    min: { x: -2000, y: -2000, z: -1000 },
+    max: { x: 2000, y: 2000, z: 0 }
+  }
+];
+
+// 포함 여부 검사 대상 프레임 (base, J1 은 제외 - 설치면에 고정)
+const CHECKED_FRAME_START = 2;
+const FRAME_LABELS = ['베이스', '어깨', '엘보', '엘보', '손목', '손목', '플랜지', 'TCP']; // forwardKinematicsFrames 순서
+
+interface MotionCommandLike {
+  type: string;
+  payload?: any;
+}
+
+const framePosition = (frame: Matrix4): Position3D => ({ x: frame[0][3], y: frame[1][3], z: frame[2][3] });
+
+const distance = (a: Position3D, b: Position3D): number =>
+  Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2 + (a.z - b.z) ** 2);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// 최단 방향 각도 차이 (-180 ~ 180)
+const angleDelta = (from: number, to: number): number => (((to - from) % 360) + 540) % 360 - 180;
+
+// 지령 속도 비율 (speed % → 0~1), 속도가 없거나 잘못되면 null
+const speedScale = (options: MotionValidationOptions): number | null =>
+  isFiniteNumber(options.speed) && options.speed > 0 ? Math.min(options.speed, 100) / 100 : null;
+
+const toResult = (violations: MotionViolation[]): MotionValidationResult => ({
+  valid: !violations.some(violation => violation.severity === 'error'),
+  violations
+});
+
+class MotionValidatorService {
+  private jointLimits: JointLimits[];
+  private maxJointVelocities: number[];
+  private maxTcpVelocity: { linear: number; angular: number };
+  private maxReach: number;
+  private keepOutZones: KeepOutZone[];
+  private shoulder: Position3D;
+
+  constructor() {
+    this.jointLimits = getSpecJointLimits();
+    this.maxJointVelocities = getSpecJointMaxVelocities();
+    this.maxTcpVelocity = getSpecTcpMaxVelocity();
+    this.maxReach = getSpecMaxReach();
+    this.keepOutZones = storage.get<KeepOutZone[]>(KEEP_OUT_STORAGE_KEY, DEFAULT_KEEP_OUT_ZONES) || DEFAULT_KEEP_OUT_ZONES;
+    // 어깨(J2 축) 중심 - J1 회전과 무관
+    this.shoulder = framePosition(forwardKinematicsFrames([0, 0, 0, 0, 0, 0])[1]);
+  }
+
+  // ===== 설정 조회/변경 =====
+  getJointLimits(): JointLimits[] {
+    return this.jointLimits.map(limit => ({ ...limit }));
+  }
+
+  getMaxJointVelocities(): number[] {
+    return [...this.maxJointVelocities];
+  }
+
+  getMaxReach(): number {
+    return this.maxReach;
+  }
+
+  getKeepOutZones(): KeepOutZone[] {
+    return [...this.keepOutZones];
+  }
+
+  setKeepOutZones(zones: KeepOutZone[]): void {
+    this.keepOutZones = [...zones];
+    storage.set(KEEP_OUT_STORAGE_KEY, this.keepOutZones);
+    console.log(`🚧 금지 구역 ${zones.length}개 설정됨`);
+  }
+
+  addKeepOutZone(zone: KeepOutZone): void {
+    this.setKeepOutZones([...this.keepOutZones.filter(existing => existing.id !== zone.id), zone]);
+  }
+
+  removeKeepOutZone(id: string): void {
+    this.setKeepOutZones(this.keepOutZones.filter(zone => zone.id !== id));
+  }
+
+  resetKeepOutZones(): void {
+    this.setKeepOutZones(DEFAULT_KEEP_OUT_ZONES);
+  }
+
+  // ===== 검증 =====
+
+  /**
+   * 조인트 목표 검증 (관절 이동)
+   */
+  validateJointTarget(joints: number[], options: MotionValidationOptions = {}): MotionValidationResult {
+    const violations = this.checkJointValues(joints);
+    if (violations.length > 0) return toResult(violations);
+
+    violations.push(...this.checkJointRanges(joints));
+    violations.push(...this.checkSpeed(options));
+    violations.push(...this.checkReach(forwardKinematics(joints)));
+
+    // 현재 자세 → 목표 자세 관절 보간 경로의 금지 구역 검사
+    const start = options.currentJoints && options.currentJoints.length === 6 ? options.currentJoints : joints;
+    violations.push(...this.checkJointVelocities(this.jointMoveVelocities(start, joints, options)));
+    const samples: number[][] = [];
+    for (let i = 1; i <= PATH_SAMPLES; i++) {
+      const t = i / PATH_SAMPLES;
+      samples.push(start.map((value, index) => value + (joints[index] - value) * t));
+    }
+    violations.push(...this.checkKeepOutAlongJoints(samples));
+
+    return toResult(violations);
+  }
+
+  /**
+   * 카르테시안 목표 검증 (직선/관절 이동)
+   * 역기구학 해를 찾아 조인트 범위까지 검사하며, 직선 이동은 경로 전체를 샘플링
+   */
+  validateCartesianTarget(pose: RobotPose, options: MotionValidationOptions = {}): MotionValidationResult & { joints?: number[] } {
+    const violations: MotionViolation[] = [];
+    if (!pose) {
+      return toResult([{ code: 'invalid_value', severity: 'error', message: '카르테시안 목표가 없습니다' }]);
+    }
+    (['x', 'y', 'z', 'rx', 'ry', 'rz'] as const).forEach(axis => {
+      if (!isFiniteNumber(pose[axis])) {
+        violations.push({ code: 'invalid_value', severity: 'error', message: `${axis.toUpperCase()} 값이 올바르지 않습니다` });
+      }
+    });
+    if (violations.length > 0) return toResult(violations);
+
+    violations.push(...this.checkSpeed(options));
+    violations.push(...this.checkReach(pose));
+
+    const reference = options.currentJoints && options.currentJoints.length === 6
+      ? options.currentJoints
+      : [0, 0, 90, 0, 90, 0];
+    const joints = solveClosestIK(pose, reference);
+    if (!joints) {
+      violations.push({
+        code: 'unreachable',
+        severity: 'error',
+        message: '목표 자세에 대한 유효한 역기구학 해가 없습니다 (조인트 제한 포함)'
+      });
+      return toResult(violations);
+    }
+    violations.push(...this.checkJointRanges(joints).filter(violation => violation.severity === 'warning'));
+
+    if (options.moveType === 'linear' && options.currentJoints && options.currentJoints.length === 6) {
+      violations.push(...this.checkLinearPath(forwardKinematics(options.currentJoints), pose, options));
+    } else {
+      violations.push(...this.checkJointVelocities(this.jointMoveVelocities(options.currentJoints ? reference : joints, joints, options)));
+      const samples: number[][] = [];
+      for (let i = 1; i <= PATH_SAMPLES; i++) {
+        const t = i / PATH_SAMPLES;
+        samples.push(reference.map((value, index) => value + (joints[index] - value) * t));
+      }
+      violations.push(...this.checkKeepOutAlongJoints(options.currentJoints ? samples : [joints]));
+    }
+
+    return { ...toResult(violations), joints };
+  }
+
+  /**
+   * 단일 명령 검증 ({ type, payload } 형태)
+   */
+  validateCommand(command: MotionCommandLike, options: MotionValidationOptions = {}): MotionValidationResult & { joints?: number[] } {
+    const payload = command.payload || {};
+    const merged: MotionValidationOptions = {
+      ...options,
+      speed: payload.speed ?? options.speed,
+      acceleration: payload.acceleration ?? options.acceleration
+    };
+
+    switch (command.type) {
+      case 'move_joint': {
+        const joints = payload.positions;
+        const result = this.validateJointTarget(joints, { ...merged, moveType: 'joint' });
+        return { ...result, joints: result.valid ? joints : undefined };
+      }
+      case 'move_linear':
+        return this.validateCartesianTarget(payload.target || payload.position, { ...merged, moveType: 'linear' });
+      default:
+        return toResult(this.checkSpeed(merged));
+    }
+  }
+
+  /**
+   * 배치/프로그램 검증 - 각 명령의 목표 자세를 다음 명령의 시작 자세로 연결
+   */
+  validateBatch(commands: MotionCommandLike[], currentJoints?: number[]): MotionValidationResult {
+    const violations: MotionViolation[] = [];
+    let joints = currentJoints;
+
+    commands.forEach((command, commandIndex) => {
+      const result = this.validateCommand(command, { currentJoints: joints });
+      result.violations.forEach(violation => violations.push({ ...violation, commandIndex }));
+      if (result.joints) {
+        joints = result.joints;
+      }
+    });
+
+    return toResult(violations);
+  }
+
+  /**
+   * 위반 목록을 한 줄 메시지로 (에러 throw 용)
+   */
+  formatViolations(result: MotionValidationResult): string {
+    return result.violations
+      .filter(violation => violation.severity === 'error')
+      .map(violation => (violation.commandIndex !== undefined
+        ? `[${violation.commandIndex + 1}] ${violation.message}`
+        : violation.message))
+      .join('; ');
+  }
+
+  // ===== 개별 검사 =====
+
+  private checkJointValues(joints: number[]): MotionViolation[] {
+    if (!Array.isArray(joints) || joints.length !== 6) {
+      return [{ code: 'invalid_value', severity: 'error', message: '조인트 목표는 6개의 숫자여야 합니다' }];
+    }
+    const violations: MotionViolation[] = [];
+    joints.forEach((value, joint) => {
+      if (!isFiniteNumber(value)) {
+        violations.push({ code: 'invalid_value', severity: 'error', joint, message: `J${joint + 1} 값이 올바르지 않습니다: ${value}` });
+      }
+    });
+    return violations;
+  }
+
+  private checkJointRanges(joints: number[]): MotionViolation[] {
+    const violations: MotionViolation[] = [];
+
+    joints.forEach((value, joint) => {
+      const { min, max } = this.jointLimits[joint];
+      if (value < min || value > max) {
+        violations.push({
+          code: 'joint_limit',
+          severity: 'error',
+          joint,
+          value,
+          limit: value < min ? min : max,
+          message: `J${joint + 1} ${value.toFixed(1)}° 가 허용 범위 [${min}°, ${max}°] 를 벗어났습니다`
+        });
+      } else if (value - min < JOINT_LIMIT_WARNING || max - value < JOINT_LIMIT_WARNING) {
+        violations.push({
+          code: 'joint_limit',
+          severity: 'warning',
+          joint,
+          value,
+          limit: value - min < max - value ? min : max,
+          message: `J${joint + 1} ${value.toFixed(1)}° 가 조인트 한계에 근접했습니다`
+        });
+      }
+    });
+
+    return violations;
+  }
+
+  private checkSpeed(options: MotionValidationOptions): MotionViolation[] {
+    const violations: MotionViolation[] = [];
+
+    (['speed', 'acceleration'] as const).forEach(key => {
+      const value = options[key];
+      if (value === undefined) return;
+      if (!isFiniteNumber(value) || value < 1 || value > 100) {
+        violations.push({
+          code: 'speed_range',
+          severity: 'error',
+          value,
+          message: `${key === 'speed' ? '속도' : '가속도'}는 1~100% 사이여야 합니다 (${value})`
+        });
+      }
+    });
+
+    violations.push(...this.checkJointVelocities(options.jointVelocities));
+
+    return violations;
+  }
+
+  private checkJointVelocities(velocities: number[] | null | undefined): MotionViolation[] {
+    const violations: MotionViolation[] = [];
+
+    (velocities || []).forEach((velocity, joint) => {
+      const limit = this.maxJointVelocities[joint];
+      if (limit !== undefined && Math.abs(velocity) > limit) {
+        violations.push({
+          code: 'joint_velocity',
+          severity: 'error',
+          joint,
+          value: velocity,
+          limit,
+          message: `J${joint + 1} 속도 ${Math.abs(velocity).toFixed(1)}°/s 가 최대 ${limit}°/s 를 초과합니다`
+        });
+      }
+    });
+
+    return violations;
+  }
+
+  /**
+   * 관절 이동의 조인트별 지령 속도 (deg/s)
+   * 가장 오래 걸리는 조인트(이동량 / (speed % × 최대 속도))에 맞춰 모든 조인트가 함께 도착하도록 동기화
+   * 명시적 jointVelocities 가 있거나 속도를 모르면 null (checkSpeed 에서 명시 값 검사)
+   */
+  private jointMoveVelocities(start: number[], target: number[], options: MotionValidationOptions): number[] | null {
+    const scale = speedScale(options);
+    if (options.jointVelocities || scale === null) return null;
+
+    const deltas = target.map((value, joint) => Math.abs(value - start[joint]));
+    const duration = Math.max(...deltas.map((delta, joint) => delta / (this.maxJointVelocities[joint] * scale)));
+    return duration > 0 ? deltas.map(delta => delta / duration) : null;
+  }
+
+  private checkReach(pose: Position3D): MotionViolation[] {
+    const reach = distance(pose, this.shoulder);
+    if (reach <= this.maxReach) return [];
+
+    return [{
+      code: 'reach',
+      severity: 'error',
+      value: reach,
+      limit: this.maxReach,
+      message: `목표 거리 ${reach.toFixed(0)} mm 가 최대 도달 거리 ${this.maxReach} mm 를 초과합니다`
+    }];
+  }
+
+  private checkKeepOutAlongJoints(samples: number[][]): MotionViolation[] {
+    const hits = new Map<string, MotionViolation>();
+
+    samples.forEach(joints => {
+      const frames = forwardKinematicsFrames(joints);
+      for (let index = CHECKED_FRAME_START; index < frames.length; index++) {
+        this.collectZoneHits(framePosition(frames[index]), FRAME_LABELS[index], hits);
+      }
+    });
+
+    return Array.from(hits.values());
+  }
+
+  /**
+   * 직선 경로 검사 - 위치와 자세를 함께 보간하며 각 지점의 역기구학 해로 금지 구역을 검사하고,
+   * 이동 시간(거리 / (speed % × TCP 최대 속도))으로 구간별 조인트 속도를 계산해 최대 속도와 비교 (특이점 근처 급회전 검출)
+   */
+  private checkLinearPath(start: RobotPose, target: RobotPose, options: MotionValidationOptions): MotionViolation[] {
+    const hits = new Map<string, MotionViolation>();
+    const violations: MotionViolation[] = [];
+    const startJoints = options.currentJoints as number[];
+    const rotation = {
+      rx: angleDelta(start.rx, target.rx),
+      ry: angleDelta(start.ry, target.ry),
+      rz: angleDelta(start.rz, target.rz)
+    };
+    const peakDeltas = startJoints.map(() => 0);
+    let joints = startJoints;
+    let reached = true;
+
+    for (let i = 1; i <= PATH_SAMPLES; i++) {
+      const t = i / PATH_SAMPLES;
+      const point: RobotPose = {
+        x: start.x + (target.x - start.x) * t,
+        y: start.y + (target.y - start.y) * t,
+        z: start.z + (target.z - start.z) * t,
+        rx: start.rx + rotation.rx * t,
+        ry: start.ry + rotation.ry * t,
+        rz: start.rz + rotation.rz * t
+      };
+
+      const solution = solveClosestIK(point, joints);
+      if (!solution) {
+        violations.push({
+          code: 'unreachable',
+          severity: 'error',
+          message: `직선 경로 ${Math.round(t * 100)}% 지점에서 유효한 자세가 없습니다`
+        });
+        reached = false;
+        break;
+      }
+      for (let joint = 0; joint < solution.length; joint++) {
+        peakDeltas[joint] = Math.max(peakDeltas[joint], Math.abs(solution[joint] - joints[joint]));
+      }
+      joints = solution;
+
+      const frames = forwardKinematicsFrames(joints);
+      for (let index = CHECKED_FRAME_START; index < frames.length; index++) {
+        this.collectZoneHits(framePosition(frames[index]), FRAME_LABELS[index], hits);
+      }
+    }
+
+    const scale = speedScale(options);
+    if (reached && scale !== null && !options.jointVelocities) {
+      const duration = Math.max(
+        distance(start, target) / (this.maxTcpVelocity.linear * scale),
+        Math.max(...Object.values(rotation).map(Math.abs)) / (this.maxTcpVelocity.angular * scale)
+      );
+      if (duration > 0) {
+        const sampleTime = duration / PATH_SAMPLES;
+        violations.push(...this.checkJointVelocities(peakDeltas.map(delta => delta / sampleTime)));
+      }
+    }
+
+    return [...violations, ...Array.from(hits.values())];
+  }
+
+  private collectZoneHits(point: Position3D, label: string, hits: Map<string, MotionViolation>): void {
+    this.keepOutZones.forEach(zone => {
+      if (!zone.enabled || hits.has(zone.id) || !this.isInsideZone(point, zone)) return;
+      hits.set(zone.id, {
+        code: 'keep_out_zone',
+        severity: 'error',
+        zoneId: zone.id,
+        message: `${label} 이(가) 금지 구역 '${zone.name}' 을(를) 침범합니다`
+      });
+    });
+  }
+
+  private isInsideZone(point: Position3D, zone: KeepOutZone): boolean {
+    if (zone.shape === 'sphere') {
+      return distance(point, zone.center) < zone.radius;
+    }
+    return point.x > zone.min.x && point.x < zone.max.x &&
+           point.y > zone.min.y && point.y < zone.max.y &&
+           point.z > zone.min.z && point.z < zone.max.z;
+  }
+}
+
+export const motionValidator = new MotionValidatorService();
+
+export default MotionValidatorService;
@@ -0,0 +1,228 @@
+/**
+ * MQTT 인스펙터 서비스
+ * MqttContext 가 받은 모든 메시지로 토픽별 수신률/마지막 페이로드/크기/추론 스키마와 최근 메시지 로그를 유지하고,
+ * 녹화 중에는 메시지를 수신 시각 오프셋과 함께 모아 NDJSON 파일로 내보낸다 (diagnose_mqtt.js / test_websocket.js 대체).
+ */
+import { MqttMessage } from '../types/mqttTypes';
+import { ExportFile } from '../types/exportTypes';
+import {
+  InspectedMessage,
+  InspectedTopic,
+  RecordedMessage,
+  RecordingStatus
+} from '../types/inspectorTypes';
+import { inferSchema, mergeSchemas } from '../utils/jsonSchema';
+import { RECORDING_VERSION, toRecordingNdjson } from '../utils/exportFormats';
+
+const MAX_LOG = 1000;
+const MAX_TOPICS = 500;
+const MAX_RECORDING = 100000;
+const RATE_WINDOW = 10000; // ms - 수신률 계산 구간
+const NOTIFY_INTERVAL = 250; // ms
+
+const encoder = new TextEncoder();
+
+const measure = (data: any): number => {
+  try {
+    return encoder.encode(typeof data === 'string' ? data : JSON.stringify(data) ?? '').length;
+  } catch {
+    return 0;
+  }
+};
+
+interface TopicEntry extends Omit<InspectedTopic, 'rate'> {
+  arrivals: number[];
+}
+
+class MqttInspectorService {
+  private topics = new Map<string, TopicEntry>();
+  private log: InspectedMessage[] = [];
+  private sequence = 0;
+  private lastMessage: MqttMessage | null = null;
+  private recording: RecordedMessage[] | null = null;
+  private recordingStartedAt: number | null = null;
+  private recordingBytes = 0;
+  private notifyTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners: Array<() => void> = [];
+
+  // ===== 메시지 처리 =====
+  /**
+   * MQTT 메시지 입력 - MqttContext 에서 모든 수신 메시지를 전달
+   */
+  handleMessage(message: MqttMessage): void {
+    // 와일드카드/토픽 핸들러 중복 전달 무시
+    const topic = message.topic;
+    if (message === this.lastMessage || !topic) return;
+    this.lastMessage = message;
+
+    const now = Date.now();
+    const size = measure(message.data);
+    this.updateTopic(topic, message.data, size, now);
+
+    this.log.push({
+      id: ++this.sequence,
+      topic,
+      type: message.type,
+      data: message.data,
+      timestamp: message.timestamp,
+      receivedAt: now,
+      size
+    });
+    if (this.log.length > MAX_LOG) this.log.splice(0, this.log.length - MAX_LOG);
+
+    if (this.recording && this.recordingStartedAt !== null && this.recording.length < MAX_RECORDING) {
+      this.recording.push({
+        offset: now - this.recordingStartedAt,
+        topic,
+        type: message.type,
+        data: message.data,
+        timestamp: message.timestamp
+      });
+      this.recordingBytes += size;
+      if (this.recording.length === MAX_RECORDING) {
+        console.warn(`⚠️ MQTT 녹화: 최대 ${MAX_RECORDING}개 도달 - 이후 메시지는 녹화하지 않습니다`);
+      }
+    }
+
+    this.scheduleNotify();
+  }
+
+  // ===== 조회 =====
+  getTopics(): InspectedTopic[] {
+    const cutoff = Date.now() - RATE_WINDOW;
+    return Array.from(this.topics.values())
+      .map(({ arrivals, ...entry }) => {
+        const recent = arrivals.filter(time => time >= cutoff);
+        // 구간보다 짧게 관찰한 토픽은 관찰 시간으로 나눔
+        const span = Math.min(RATE_WINDOW, Math.max(1000, Date.now() - entry.firstSeen));
+        return { ...entry, rate: recent.length / (span / 1000) };
+      })
+      .sort((a, b) => a.topic.localeCompare(b.topic));
+  }
+
+  getMessages(): InspectedMessage[] {
+    return [...this.log];
+  }
+
+  clear(): void {
+    this.topics.clear();
+    this.log = [];
+    this.notify();
+  }
+
+  // ===== 녹화 =====
+  getRecordingStatus(): RecordingStatus {
+    return {
+      recording: this.recording !== null,
+      startedAt: this.recordingStartedAt,
+      messageCount: this.recording?.length ?? 0,
+      bytes: this.recordingBytes,
+      limit: MAX_RECORDING
+    };
+  }
+
+  startRecording(): void {
+    if (this.recording) return;
+    this.recording = [];
+    this.recordingStartedAt = Date.now();
+    this.recordingBytes = 0;
+    console.log('⏺️ MQTT 녹화 시작');
+    this.notify();
+  }
+
+  /**
+   * 녹화 종료 - NDJSON 파일 (첫 줄 metadata)
+   */
+  stopRecording(): ExportFile {
+    if (!this.recording || this.recordingStartedAt === null) {
+      throw new Error('녹화 중이 아닙니다');
+    }
+
+    const messages = this.recording;
+    const startedAt = this.recordingStartedAt;
+    const endedAt = Date.now();
+    this.recording = null;
+    this.recordingStartedAt = null;
+    this.recordingBytes = 0;
+
+    const content = toRecordingNdjson({
+      format: 'mqtt_recording',
+      version: RECORDING_VERSION,
+      startedAt: new Date(startedAt).toISOString(),
+      endedAt: new Date(endedAt).toISOString(),
+      duration: endedAt - startedAt,
+      messageCount: messages.length,
+      topics: Array.from(new Set(messages.map(message => message.topic))).sort()
+    }, messages);
+
+    const stamp = new Date(startedAt).toISOString().replace(/[:.]/g, '-');
+    console.log(`⏹️ MQTT 녹화 종료: ${messages.length}개`);
+    this.notify();
+    return {
+      filename: `mqtt_recording_${stamp}.ndjson`,
+      blob: new Blob([content], { type: 'application/x-ndjson' }),
+      rows: messages.length
+    };
+  }
+
+  // ===== 리스너 =====
+  onChange(listener: () => void): void {
+    this.listeners.push(listener);
+  }
+
+  offChange(listener: () => void): void {
+    this.listeners = this.listeners.filter(existing => existing !== listener);
+  }
+
+  // ===== 내부 =====
+  private updateTopic(topic: string, payload: any, size: number, now: number): void {
+    const schema = inferSchema(payload);
+    const entry = this.topics.get(topic);
+    if (entry) {
+      entry.messageCount += 1;
+      entry.lastSeen = now;
+      entry.lastPayload = payload;
+      entry.lastSize = size;
+      entry.totalBytes += size;
+      entry.schema = mergeSchemas(entry.schema, schema);
+      entry.arrivals.push(now);
+      const cutoff = now - RATE_WINDOW;
+      while (entry.arrivals.length > 0 && entry.arrivals[0] < cutoff) entry.arrivals.shift();
+      return;
+    }
+    if (this.topics.size >= MAX_TOPICS) return;
+    this.topics.set(topic, {
+      topic,
+      messageCount: 1,
+      firstSeen: now,
+      lastSeen: now,
+      lastPayload: payload,
+      lastSize: size,
+      totalBytes: size,
+      schema,
+      arrivals: [now]
+    });
+  }
+
+  private scheduleNotify(): void {
+    if (this.notifyTimer) return;
+    this.notifyTimer = setTimeout(() => {
+      this.notifyTimer = null;
+      this.notify();
+    }, NOTIFY_INTERVAL);
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('❌ MQTT 인스펙터 리스너 오류:', error);
+      }
+    });
+  }
+}
+
+export const mqttInspectorService = new MqttInspectorService();
+
+export default MqttInspectorService;
@@ -0,0 +1,278 @@
+/**
+ * paho MQTT 직접 연결 전송 계층
+ * 백엔드 브리지 없이 브로커의 MQTT-over-WebSocket 에 직접 연결 (config.MQTT.transport = 'paho')
+ * 전송 계층(Transport) 구현 - 연결 관리자가 생성하고 토픽 라우팅/구독 복원을 담당
+ */
+import { Client, Message } from 'paho-mqtt';
+import { MqttMessage } from '../types/mqttTypes';
+import { Transport, TransportStatus } from '../types/transportTypes';
+
+export interface PahoMqttOptions {
+  url: string;
+  clientId: string;
+  useSSL?: boolean;
+  username?: string;
+  password?: string;
+  keepAliveInterval?: number;
+  timeout?: number;
+  cleanSession?: boolean;
+  reconnectDelay?: number;
+}
+
+export class PahoMqttTransport implements Transport {
+  readonly kind = 'paho' as const;
+  private client: Client;
+  private options: PahoMqttOptions;
+  private connected = false;
+  private connecting = false;
+  private closing = false;                       // 의도한 해제 - 자동 재연결 방지
+  private lastError: string | null = null;
+  private lastMessageAt: number | null = null;
+  private latency: number | null = null;         // 마지막 하트비트 발행 → 수신 왕복 시간
+  private heartbeatTopic: string;                // 연결 감시용 루프백 토픽 (클라이언트별)
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // 이벤트 핸들러 (연결 관리자가 설정)
+  public onMessage?: (message: MqttMessage) => void;
+  public onFrame?: (frame: any) => void;
+  public onConnectionChange?: (connected: boolean) => void;
+  public onError?: (error: any) => void;
+
+  constructor(options: PahoMqttOptions) {
+    this.options = {
+      keepAliveInterval: 60,
+      timeout: 30,
+      cleanSession: true,
+      reconnectDelay: 5000,
+      ...options
+    };
+
+    // URL에서 host와 port 추출
+    let host = 'localhost';
+    let port = 1884;
+    let path = '/mqtt';
+    try {
+      const url = new URL(this.options.url);
+      host = url.hostname;
+      port = parseInt(url.port) || (url.protocol === 'wss:' ? 443 : 80);
+      path = url.pathname && url.pathname !== '/' ? url.pathname : path;
+      this.options.useSSL = this.options.useSSL ?? url.protocol === 'wss:';
+    } catch (error) {
+      console.warn('URL 파싱 실패, 기본값 사용:', error);
+    }
+
+    this.heartbeatTopic = `web/heartbeat/${this.options.clientId}`;
+    this.client = new Client(host, port, path, this.options.clientId);
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers() {
+    // 연결 끊김
+    this.client.onConnectionLost = (responseObject: any) => {
+      console.warn('⚠️ MQTT 연결 끊김:', responseObject.errorMessage);
+      this.connected = false;
+      this.lastMessageAt = null;
+      this.latency = null;
+      this.lastError = responseObject.errorMessage || null;
+      this.onConnectionChange?.(false);
+
+      // 자동 재연결
+      if (this.closing) return;
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        if (!this.connected && !this.closing) {
+          console.log('🔄 MQTT 재연결 시도...');
+          this.connect().catch(error => console.error('❌ MQTT 재연결 실패:', error));
+        }
+      }, this.options.reconnectDelay);
+    };
+
+    // 메시지 수신
+    this.client.onMessageArrived = (message: Message) => {
+      this.lastMessageAt = Date.now();
+      const payload = message.payloadString;
+      let data: any = payload;
+      try {
+        data = JSON.parse(payload);
+      } catch {
+        // 문자열 페이로드 그대로 사용
+      }
+
+      // 하트비트 루프백 - 왕복 시간만 갱신하고 토픽 라우팅으로 전달하지 않음
+      if (message.destinationName === this.heartbeatTopic) {
+        const sentAt = typeof data?.timestamp === 'number' ? data.timestamp : null;
+        this.latency = sentAt !== null ? Date.now() - sentAt : null;
+        return;
+      }
+
+      try {
+        this.onMessage?.({
+          type: 'message',
+          topic: message.destinationName,
+          data,
+          timestamp: new Date().toISOString(),
+          qos: message.qos as 0 | 1 | 2,
+          retain: message.retained
+        });
+      } catch (error) {
+        console.error('❌ MQTT 메시지 처리 오류:', error);
+        this.onError?.(error);
+      }
+    };
+  }
+
+  async connect(): Promise<void> {
+    if (this.connected || this.connecting) return;
+    this.closing = false;
+    this.connecting = true;
+
+    return new Promise((resolve, reject) => {
+      try {
+        const connectOptions: any = {
+          useSSL: this.options.useSSL,
+          keepAliveInterval: this.options.keepAliveInterval,
+          timeout: this.options.timeout,
+          cleanSession: this.options.cleanSession,
+
+          onSuccess: () => {
+            console.log('🔗 MQTT 연결 성공');
+            this.connecting = false;
+            this.connected = true;
+            this.lastError = null;
+            this.lastMessageAt = Date.now();
+            this.client.subscribe(this.heartbeatTopic, { qos: 0 });
+            // 구독 복원은 연결 관리자가 연결 알림을 받고 수행
+            this.onConnectionChange?.(true);
+            resolve();
+          },
+
+          onFailure: (error: any) => {
+            console.error('❌ MQTT 연결 실패:', error);
+            this.connecting = false;
+            this.connected = false;
+            this.lastError = error?.errorMessage || 'MQTT 연결 실패';
+            this.onError?.(new Error(this.lastError ?? 'MQTT 연결 실패'));
+            reject(error);
+          }
+        };
+
+        if (this.options.username) {
+          connectOptions.userName = this.options.username;
+          connectOptions.password = this.options.password;
+        }
+
+        this.client.connect(connectOptions);
+      } catch (error) {
+        console.error('❌ MQTT 연결 시도 오류:', error);
+        this.connecting = false;
+        reject(error);
+      }
+    });
+  }
+
+  disconnect(): void {
+    this.closing = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.connected) {
+      this.client.disconnect();
+      this.connected = false;
+      this.lastMessageAt = null;
+      this.latency = null;
+      console.log('🔌 MQTT 연결 해제');
+    }
+  }
+
+  subscribe(topic: string, qos: 0 | 1 | 2 = 0): void {
+    if (!this.connected) return;
+
+    try {
+      this.client.subscribe(topic, {
+        qos,
+        onSuccess: () => console.log('✅ MQTT 구독 성공:', topic),
+        onFailure: (error: any) => console.error('❌ MQTT 구독 실패:', topic, error)
+      });
+    } catch (error) {
+      console.error('❌ MQTT 구독 오류:', error);
+    }
+  }
+
+  unsubscribe(topic: string): void {
+    if (!this.connected) return;
+
+    try {
+      this.client.unsubscribe(topic, {
+        onSuccess: () => console.log('✅ MQTT 구독 해제 성공:', topic),
+        onFailure: (error: any) => console.error('❌ MQTT 구독 해제 실패:', topic, error)
+      });
+    } catch (error) {
+      console.error('❌ MQTT 구독 해제 오류:', error);
+    }
+  }
+
+  publish(topic: string, message: string, qos: 0 | 1 | 2 = 0, retained = false): void {
+    if (!this.connected) {
+      console.warn('⚠️ MQTT 연결되지 않음. 발행 실패:', topic);
+      return;
+    }
+
+    try {
+      const msg = new Message(message);
+      msg.destinationName = topic;
+      msg.qos = qos;
+      msg.retained = retained;
+
+      this.client.send(msg);
+      console.log('📤 MQTT 메시지 발행:', { topic, message: message.substring(0, 100) });
+    } catch (error) {
+      console.error('❌ MQTT 발행 오류:', error);
+    }
+  }
+
+  // 브로커 직접 연결에는 백엔드 제어 프레임 채널이 없음
+  send(frame: Record<string, any>): boolean {
+    return false;
+  }
+
+  // 상태 확인 메서드들
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  getConnectionStatus(): TransportStatus {
+    if (this.connecting) return 'connecting';
+    return this.connected ? 'connected' : 'disconnected';
+  }
+
+  getLastError(): string | null {
+    return this.lastError;
+  }
+
+  // 연결 감시 (ConnectionProbe) - 하트비트 토픽으로 발행한 메시지가 브로커를 거쳐 되돌아오면 마지막 수신 시각 갱신
+  ping(): boolean {
+    if (!this.connected) return false;
+
+    try {
+      const msg = new Message(JSON.stringify({ timestamp: Date.now() }));
+      msg.destinationName = this.heartbeatTopic;
+      msg.qos = 0;
+      this.client.send(msg);
+      return true;
+    } catch (error) {
+      console.error('❌ MQTT 하트비트 발행 오류:', error);
+      return false;
+    }
+  }
+
+  getLastHeartbeat(): number | null {
+    return this.lastMessageAt;
+  }
+
+  getLatency(): number | null {
+    return this.latency;
+  }
+}
+
+export default PahoMqttTransport;
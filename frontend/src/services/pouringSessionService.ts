@@ -0,0 +1,326 @@
+/**
+ * 붓기 세션 추적 서비스
+ * cup_placed 이벤트로 세션을 시작하고 scale/* 무게 곡선, 농도, 설탕 투입 이벤트를 기록한다.
+ * sensors/pouring/analysis 수신, 컵 제거, 다음 컵 배치, 최대 시간 초과 시 세션을 종료하고 지표를 계산한다.
+ */
+import {
+  MqttMessage,
+  CupPlacedEventMessage,
+  SugarDispensedEventMessage
+} from '../types/mqttTypes';
+import {
+  PouringSession,
+  PouringSessionEndReason,
+  PouringSessionMetrics,
+  SessionSample
+} from '../types/pouringTypes';
+import { storage, randomId } from '../utils';
+import { scaleFilterService } from './scaleFilterService';
+import { topicRegistry } from './topicRegistry';
+import DataProcessorService from './dataProcessor';
+
+const SESSIONS_STORAGE_KEY = 'pouring_sessions';
+const MAX_STORED_SESSIONS = 50;
+const MAX_STORED_POINTS = 600;          // 저장 시 곡선당 최대 포인트
+const MAX_SESSION_DURATION = 10 * 60 * 1000;
+const CUP_REMOVED_THRESHOLD = 5;        // g - 붓기 이후 이 값 아래로 떨어지면 컵 제거로 판단
+const POUR_DETECT_THRESHOLD = 20;       // g - 컵 제거 판단을 위한 최소 붓기량
+const POUR_START_DELTA = 2;             // g - 기준 무게 대비 붓기 시작 판단
+const NOTIFY_INTERVAL = 500;            // ms - 샘플 수신 시 리스너 알림 간격
+
+const average = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+// 곡선 간격을 균등하게 줄여 저장 용량 제한 (마지막 포인트 유지)
+const decimate = (curve: SessionSample[], maxPoints: number): SessionSample[] => {
+  if (curve.length <= maxPoints) return curve;
+  const step = curve.length / maxPoints;
+  const result: SessionSample[] = [];
+  for (let i = 0; i < maxPoints - 1; i++) {
+    result.push(curve[Math.floor(i * step)]);
+  }
+  result.push(curve[curve.length - 1]);
+  return result;
+};
+
+/**
+ * 세션 지표 계산 - 로봇 분석 결과(analysis)가 있으면 최종 무게/농도는 그 값을 우선 사용
+ */
+export const computeSessionMetrics = (session: PouringSession): PouringSessionMetrics => {
+  const weights = session.weightCurve;
+  const values = weights.map(sample => sample.value);
+  const peakMass = values.length > 0 ? Math.max(...values) : 0;
+  const baseline = values.length > 0 ? values[0] : 0;
+
+  // 최종 무게: 컵 제거(피크 절반 이하로 하락) 직전 1초 구간 평균
+  let endIndex = values.length - 1;
+  while (endIndex > 0 && values[endIndex] < peakMass * 0.5) endIndex--;
+  const endTime = endIndex >= 0 ? weights[endIndex].t : 0;
+  const plateau = weights.filter((sample, index) => index <= endIndex && sample.t >= endTime - 1000);
+  const measuredFinal = average(plateau.map(sample => sample.value));
+  const finalMass = session.analysis ? session.analysis.final_weight : measuredFinal;
+
+  // 붓기 구간: 기준 무게 + 2g 초과 시점 ~ 최종 무게 98% 도달 시점
+  const pourStart = weights.find(sample => sample.value > baseline + POUR_START_DELTA);
+  const pourEnd = pourStart
+    ? weights.find(sample => sample.t >= pourStart.t && sample.value >= baseline + (measuredFinal - baseline) * 0.98)
+    : undefined;
+  const pourDuration = pourStart && pourEnd ? (pourEnd.t - pourStart.t) / 1000 : 0;
+  const flowRate = session.analysis?.flow_rate
+    ?? (pourDuration > 0 ? (measuredFinal - baseline) / pourDuration : 0);
+
+  // 최대 유량: 0.5~1초 구간 기울기의 최댓값
+  let peakFlowRate = 0;
+  let windowStart = 0;
+  for (let j = 0; j < weights.length; j++) {
+    while (weights[j].t - weights[windowStart].t > 1000) windowStart++;
+    const dt = (weights[j].t - weights[windowStart].t) / 1000;
+    if (dt >= 0.5) {
+      peakFlowRate = Math.max(peakFlowRate, (weights[j].value - weights[windowStart].value) / dt);
+    }
+  }
+
+  const concentrations = session.concentrationCurve.map(sample => sample.value);
+  const finalConcentration = session.analysis?.concentration
+    ?? (concentrations.length > 0 ? concentrations[concentrations.length - 1] : null);
+  const targetConcentration = session.targetConcentration ?? session.analysis?.target ?? null;
+  const peakConcentration = concentrations.length > 0
+    ? Math.max(...concentrations)
+    : finalConcentration;
+  const overshoot = targetConcentration !== null && peakConcentration !== null
+    ? Math.max(0, peakConcentration - targetConcentration)
+    : null;
+
+  const amounts = session.dispenseEvents
+    .map(event => event.amount)
+    .filter((amount): amount is number => typeof amount === 'number');
+  const startedAt = Date.parse(session.startedAt);
+  const endedAt = session.endedAt ? Date.parse(session.endedAt) : Date.now();
+
+  return {
+    finalMass,
+    peakMass,
+    flowRate,
+    peakFlowRate,
+    pourDuration,
+    duration: session.analysis?.duration ?? (endedAt - startedAt) / 1000,
+    finalConcentration,
+    targetConcentration,
+    overshoot,
+    overshootRatio: overshoot !== null && targetConcentration ? overshoot / targetConcentration : null,
+    dispenseCount: session.dispenseEvents.length,
+    dispensedAmount: amounts.length > 0 ? amounts.reduce((sum, amount) => sum + amount, 0) : null
+  };
+};
+
+class PouringSessionService {
+  private sessions: PouringSession[];
+  private active: PouringSession | null = null;
+  private latestTarget: number | null = null;
+  private lastMessage: MqttMessage | null = null;
+  private lastNotify = 0;
+  private listeners: Array<() => void> = [];
+  private processor = new DataProcessorService();
+
+  constructor() {
+    this.sessions = storage.get<PouringSession[]>(SESSIONS_STORAGE_KEY, []) || [];
+  }
+
+  // ===== 조회 =====
+  getSessions(): PouringSession[] {
+    return [...this.sessions];
+  }
+
+  getSession(id: string): PouringSession | null {
+    if (this.active && this.active.id === id) return this.getActiveSession();
+    return this.sessions.find(session => session.id === id) || null;
+  }
+
+  // 진행 중 세션 (지표는 현재까지 기준으로 계산)
+  getActiveSession(): PouringSession | null {
+    if (!this.active) return null;
+    return { ...this.active, metrics: computeSessionMetrics(this.active) };
+  }
+
+  // 무게 곡선 소스 = 공식 저울 필터 (변경 시 다음 세션부터 적용)
+  getWeightTopic(): string {
+    return scaleFilterService.getOfficialTopic();
+  }
+
+  // ===== 메시지 처리 =====
+  /**
+   * MQTT 메시지 입력 - MqttContext 에서 모든 수신 메시지를 전달
+   */
+  handleMessage(message: MqttMessage): void {
+    // 와일드카드/토픽 핸들러 중복 전달 무시
+    if (message === this.lastMessage) return;
+    this.lastMessage = message;
+
+    const { topic, data } = message;
+    if (!topic) return;
+
+    if (this.active && this.elapsed(message) > MAX_SESSION_DURATION) {
+      this.completeSession('timeout');
+    }
+
+    const channel = topicRegistry.resolveChannel(topic);
+
+    if (channel === 'targetConcentration') {
+      const target = typeof data === 'number' ? data : data?.target;
+      if (typeof target === 'number' && !isNaN(target)) this.updateTarget(target);
+      return;
+    }
+
+    if (channel === 'concentrationCurrent') {
+      if (typeof data?.target === 'number') this.updateTarget(data.target);
+      const current = this.processor.processConcentrationCurrent(message);
+      if (this.active && current) {
+        this.active.concentrationCurve.push({ t: this.elapsed(message), value: current.concentration });
+        this.notifyThrottled();
+      }
+      return;
+    }
+
+    if (channel === 'pouringAnalysis') {
+      const analysis = this.processor.processPouringAnalysis(message);
+      if (this.active && analysis) {
+        this.active.analysis = analysis;
+        this.completeSession('analysis');
+      }
+      return;
+    }
+
+    // 이벤트 전용 토픽 또는 시나리오 이벤트 코드 (topic_mapping.json event_mapping)
+    if (channel === 'cupPlaced' || channel === 'sugarDispensed' || channel === 'scenarioEvents') {
+      const event = this.processor.processRobotEvent(message);
+      if (event?.event === 'cup_placed') this.startSession(event, message);
+      if (event?.event === 'sugar_dispensed') this.recordDispense(event, message);
+      return;
+    }
+
+    if (this.active && topic === this.active.weightTopic && typeof data?.weight === 'number') {
+      this.recordWeight(data.weight, message);
+    }
+  }
+
+  // ===== 세션 관리 =====
+  endActiveSession(): void {
+    if (this.active) this.completeSession('manual');
+  }
+
+  deleteSession(id: string): void {
+    this.sessions = this.sessions.filter(session => session.id !== id);
+    this.persist();
+    this.notify();
+  }
+
+  clearSessions(): void {
+    this.sessions = [];
+    this.persist();
+    this.notify();
+  }
+
+  // ===== 리스너 =====
+  onChange(listener: () => void): void {
+    this.listeners.push(listener);
+  }
+
+  offChange(listener: () => void): void {
+    this.listeners = this.listeners.filter(existing => existing !== listener);
+  }
+
+  // ===== 내부 =====
+  private startSession(event: CupPlacedEventMessage, message: MqttMessage): void {
+    if (this.active) this.completeSession('next_cup');
+
+    this.active = {
+      id: `session_${Date.now()}_${randomId(4)}`,
+      externalId: event?.session_id,
+      cupId: event?.cup_id,
+      status: 'active',
+      startedAt: message.timestamp,
+      weightTopic: this.getWeightTopic(),
+      targetConcentration: this.latestTarget,
+      weightCurve: [],
+      concentrationCurve: [],
+      dispenseEvents: [],
+      metrics: null
+    };
+    console.log('☕ 붓기 세션 시작:', this.active.id);
+    this.notify();
+  }
+
+  private recordDispense(event: SugarDispensedEventMessage, message: MqttMessage): void {
+    if (!this.active) return;
+    this.active.dispenseEvents.push({
+      t: this.elapsed(message),
+      amount: typeof event?.amount === 'number' ? event.amount : undefined,
+      timestamp: event?.timestamp || message.timestamp
+    });
+    this.notify();
+  }
+
+  private recordWeight(weight: number, message: MqttMessage): void {
+    if (!this.active || message.topic !== this.active.weightTopic) return;
+    this.active.weightCurve.push({ t: this.elapsed(message), value: weight });
+
+    const peak = this.active.weightCurve.reduce((max, sample) => Math.max(max, sample.value), 0);
+    if (peak >= POUR_DETECT_THRESHOLD && weight < CUP_REMOVED_THRESHOLD) {
+      this.completeSession('cup_removed');
+      return;
+    }
+    this.notifyThrottled();
+  }
+
+  private completeSession(reason: PouringSessionEndReason): void {
+    if (!this.active) return;
+    const session = this.active;
+    this.active = null;
+
+    // 메시지 타임스탬프 기준 (곡선 시간축과 동일)
+    session.endedAt = this.lastMessage?.timestamp || new Date().toISOString();
+    session.endReason = reason;
+    session.status = reason === 'timeout' || session.analysis?.status === 'aborted' ? 'aborted' : 'completed';
+    session.metrics = computeSessionMetrics(session);
+    session.weightCurve = decimate(session.weightCurve, MAX_STORED_POINTS);
+    session.concentrationCurve = decimate(session.concentrationCurve, MAX_STORED_POINTS);
+
+    this.sessions = [session, ...this.sessions].slice(0, MAX_STORED_SESSIONS);
+    this.persist();
+    console.log(`✅ 붓기 세션 종료 (${reason}):`, session.id);
+    this.notify();
+  }
+
+  private updateTarget(target: number): void {
+    this.latestTarget = target;
+    if (this.active) this.active.targetConcentration = target;
+  }
+
+  private elapsed(message: MqttMessage): number {
+    if (!this.active) return 0;
+    return Math.max(0, Date.parse(message.timestamp) - Date.parse(this.active.startedAt));
+  }
+
+  private persist(): void {
+    storage.set(SESSIONS_STORAGE_KEY, this.sessions);
+  }
+
+  private notifyThrottled(): void {
+    if (Date.now() - this.lastNotify >= NOTIFY_INTERVAL) this.notify();
+  }
+
+  private notify(): void {
+    this.lastNotify = Date.now();
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('❌ 붓기 세션 리스너 오류:', error);
+      }
+    });
+  }
+}
+
+export const pouringSessionService = new PouringSessionService();
+
+export default PouringSessionService;
@@ -0,0 +1,521 @@
+/**
+ * 로봇 프로그램 인터프리터 - 파싱된 프로그램을 한 문장씩 실행
+ * 문장 트리를 점프 명령이 포함된 평면 명령 목록으로 컴파일한 뒤 프로그램 카운터로 실행하며,
+ * 실행/일시정지/스텝/건너뛰기/속도 오버라이드를 지원하고 진행 상황을 ProgramInfo 로 보고한다.
+ */
+import {
+  IfStatement,
+  ParsedProgram,
+  ProgramActionStatement,
+  ProgramDiagnostic,
+  ProgramInfo,
+  ProgramRunOptions,
+  ProgramSensor,
+  ProgramStatement,
+  ProgramValidationResult,
+  RobotProgram
+} from '../types/programTypes';
+import { AuditResult } from '../types/auditTypes';
+import { parseProgram, countProgramSteps, compareValues } from '../utils/programParser';
+import CommandSenderService from './commandSender';
+import { motionValidator } from './motionValidator';
+import { authService } from './authService';
+import { auditService } from './auditService';
+import { useRobotStore } from '../store/robotStore';
+
+const DEFAULT_MOTION_SPEED = 50;        // 문장에 speed 가 없을 때 (%)
+const DEFAULT_MOTION_ACCELERATION = 50; // 문장에 accel 이 없을 때 (%)
+const WAIT_POLL_INTERVAL = 100;         // wait / wait_weight 확인 주기 (ms)
+const AUDIT_SOURCE = 'ProgramInterpreter';
+
+// 인터프리터가 사용하는 로봇/센서 입출력
+export interface ProgramRuntime {
+  move(statement: Extract<ProgramActionStatement, { kind: 'moveJ' | 'moveL' }>, speed: number, acceleration: number): Promise<void>; // 동작 완료까지 대기
+  setConcentration(target: number): Promise<void>;
+  readSensor(sensor: ProgramSensor): Promise<number>;
+  stop(): Promise<void>;
+}
+
+type Instruction =
+  | { op: 'action'; line: number; statement: ProgramActionStatement }
+  | { op: 'loop_init'; line: number; slot: number; count: number }
+  | { op: 'loop_next'; line: number; slot: number; bodyStart: number }
+  | { op: 'branch'; line: number; statement: IfStatement; elseStart: number }
+  | { op: 'jump'; line: number; target: number };
+
+type ProgramChangeHandler = (info: ProgramInfo | null) => void;
+
+class ProgramStoppedError extends Error {}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * 문장 트리 → 평면 명령 목록
+ */
+const compileProgram = (statements: ProgramStatement[]): Instruction[] => {
+  const instructions: Instruction[] = [];
+  let loopSlots = 0;
+
+  const emit = (list: ProgramStatement[]) => {
+    list.forEach(statement => {
+      if (statement.kind === 'loop') {
+        const slot = loopSlots++;
+        instructions.push({ op: 'loop_init', line: statement.line, slot, count: statement.count });
+        const bodyStart = instructions.length;
+        emit(statement.body);
+        instructions.push({ op: 'loop_next', line: statement.line, slot, bodyStart });
+      } else if (statement.kind === 'if') {
+        const branch = { op: 'branch' as const, line: statement.line, statement, elseStart: -1 };
+        instructions.push(branch);
+        emit(statement.then);
+        const jump = { op: 'jump' as const, line: statement.line, target: -1 };
+        instructions.push(jump);
+        branch.elseStart = instructions.length;
+        emit(statement.else);
+        jump.target = instructions.length;
+      } else {
+        instructions.push({ op: 'action', line: statement.line, statement });
+      }
+    });
+  };
+
+  emit(statements);
+  return instructions;
+};
+
+/**
+ * 기본 런타임 - 이동/정지는 UI 와 같은 스토어 명령 큐로 보내 robot/response 완료(done)까지 대기하고,
+ * 농도/센서는 CommandSenderService 로 통신 (Mock 모드에서는 시뮬레이터)
+ */
+export const createCommandRuntime = (sender: CommandSenderService = new CommandSenderService(undefined, AUDIT_SOURCE)): ProgramRuntime => ({
+  async move(statement, speed, acceleration) {
+    const store = useRobotStore.getState();
+    const success = statement.kind === 'moveJ'
+      ? await store.sendJointMoveCommand(statement.joints, speed, acceleration, AUDIT_SOURCE)
+      : await store.sendLinearMoveCommand(statement.pose, speed, acceleration, AUDIT_SOURCE);
+    if (!success) {
+      throw new Error(useRobotStore.getState().getLastCommandError() || 'Move command failed');
+    }
+  },
+  async setConcentration(target) {
+    await sender.setConcentrationTarget(target);
+  },
+  readSensor: sensor => sender.getSensorValue(sensor),
+  async stop() {
+    await useRobotStore.getState().sendStopCommand(AUDIT_SOURCE);
+  }
+});
+
+class ProgramInterpreterService {
+  private runtime: ProgramRuntime;
+  private program: RobotProgram | null = null;
+  private sourceLines: string[] = [];
+  private instructions: Instruction[] = [];
+  private totalSteps = 0;
+  private completedSteps = 0;
+  private pc = 0;
+  private loopCounters: number[] = [];
+  private options: ProgramRunOptions = { speedOverride: 100, loopMode: false, stepMode: false };
+  private info: ProgramInfo | null = null;
+  private runToken = 0;           // stop/load 시 증가 → 진행 중인 실행 중단
+  private pauseRequested = false;
+  private executing = false;
+  private changeHandlers: ProgramChangeHandler[] = [];
+
+  constructor(runtime: ProgramRuntime = createCommandRuntime()) {
+    this.runtime = runtime;
+  }
+
+  // ===== 검증 =====
+
+  /**
+   * 프로그램 검증 - 구문 오류, 모션 사전 검증(루프 본문 1회, if 양쪽 분기), 무한 대기 경고
+   */
+  validate(parsed: ParsedProgram, currentJoints?: number[]): ProgramValidationResult {
+    const diagnostics: ProgramDiagnostic[] = [...parsed.errors];
+    const motions: Array<{ line: number; command: { type: string; payload: any } }> = [];
+
+    const visit = (statements: ProgramStatement[]) => {
+      statements.forEach(statement => {
+        switch (statement.kind) {
+          case 'moveJ':
+            motions.push({
+              line: statement.line,
+              command: { type: 'move_joint', payload: { positions: statement.joints, speed: statement.speed, acceleration: statement.acceleration } }
+            });
+            break;
+          case 'moveL':
+            motions.push({
+              line: statement.line,
+              command: { type: 'move_linear', payload: { target: statement.pose, speed: statement.speed, acceleration: statement.acceleration } }
+            });
+            break;
+          case 'wait_weight':
+            if (statement.timeout === undefined) {
+              diagnostics.push({ line: statement.line, severity: 'warning', message: 'timeout 이 없으면 목표 무게에 도달할 때까지 무한히 대기합니다' });
+            }
+            break;
+          case 'loop':
+            visit(statement.body);
+            break;
+          case 'if':
+            visit(statement.then);
+            visit(statement.else);
+            break;
+        }
+      });
+    };
+    visit(parsed.statements);
+
+    if (parsed.errors.length === 0 && parsed.statements.length === 0) {
+      diagnostics.push({ line: 1, severity: 'error', message: '실행할 문장이 없습니다' });
+    }
+
+    const motionResult = motionValidator.validateBatch(motions.map(motion => motion.command), currentJoints);
+    motionResult.violations.forEach(violation => {
+      diagnostics.push({
+        line: violation.commandIndex !== undefined ? motions[violation.commandIndex].line : 1,
+        severity: violation.severity,
+        message: violation.message
+      });
+    });
+
+    diagnostics.sort((a, b) => a.line - b.line);
+    return { valid: !diagnostics.some(diagnostic => diagnostic.severity === 'error'), diagnostics };
+  }
+
+  // ===== 프로그램 로드/상태 =====
+
+  load(program: RobotProgram): ParsedProgram {
+    this.abort();
+    const parsed = parseProgram(program.source);
+    this.program = program;
+    this.sourceLines = program.source.split(/\r?\n/);
+    this.instructions = parsed.errors.length === 0 ? compileProgram(parsed.statements) : [];
+    this.totalSteps = countProgramSteps(parsed.statements);
+    this.resetCursor();
+    this.info = {
+      id: program.id,
+      name: program.name,
+      description: program.description,
+      status: 'stopped',
+      progress: 0,
+      currentLine: 0,
+      totalLines: parsed.totalLines,
+      error: parsed.errors.length > 0 ? parsed.errors[0].message : undefined
+    };
+    this.notifyChange();
+    return parsed;
+  }
+
+  getInfo(): ProgramInfo | null {
+    return this.info ? { ...this.info } : null;
+  }
+
+  getOptions(): ProgramRunOptions {
+    return { ...this.options };
+  }
+
+  setOptions(options: Partial<ProgramRunOptions>): void {
+    this.options = { ...this.options, ...options };
+    if (options.speedOverride !== undefined) {
+      this.options.speedOverride = Math.max(1, Math.min(100, options.speedOverride));
+    }
+  }
+
+  // ===== 실행 제어 =====
+
+  /**
+   * 실행 (정지 상태면 처음부터, 일시정지 상태면 이어서)
+   */
+  run(options?: Partial<ProgramRunOptions>): void {
+    if (options) this.setOptions(options);
+    if (!this.info || this.executing || this.info.status === 'running') return;
+    this.assertCanRun('program_run');
+    if (this.instructions.length === 0) {
+      throw new Error('실행할 수 있는 프로그램이 없습니다 (구문 오류 확인)');
+    }
+
+    this.audit(this.info.status === 'paused' ? 'program_resume' : 'program_run', undefined, { ...this.options });
+    if (this.info.status !== 'paused') {
+      this.resetCursor();
+      this.updateInfo({ startTime: new Date(), loopIteration: 1, error: undefined });
+    }
+    this.pauseRequested = false;
+    this.updateInfo({ status: 'running' });
+    this.execute(this.runToken, false);
+  }
+
+  pause(): void {
+    if (this.info?.status === 'running') {
+      this.pauseRequested = true;
+      this.audit('program_pause');
+      console.log('⏸️ 프로그램 일시정지 요청 - 현재 문장 완료 후 정지');
+    }
+  }
+
+  /**
+   * 한 문장 실행 후 일시정지
+   */
+  step(): void {
+    if (!this.info || this.executing || this.info.status === 'running') return;
+    this.assertCanRun('program_step');
+    if (this.instructions.length === 0) {
+      throw new Error('실행할 수 있는 프로그램이 없습니다 (구문 오류 확인)');
+    }
+    this.audit('program_step', undefined, { line: this.info.currentLine });
+    if (this.info.status !== 'paused') {
+      this.resetCursor();
+      this.updateInfo({ startTime: new Date(), loopIteration: 1, error: undefined });
+    }
+    this.pauseRequested = false;
+    this.updateInfo({ status: 'running' });
+    this.execute(this.runToken, true);
+  }
+
+  /**
+   * 다음 동작 문장을 실행하지 않고 건너뜀 (일시정지 상태에서만)
+   */
+  async skip(): Promise<void> {
+    if (!this.info || this.info.status !== 'paused' || this.executing) return;
+    this.executing = true;
+    const token = this.runToken;
+    try {
+      const instruction = await this.advanceToAction(token);
+      if (!instruction) {
+        this.finish(token);
+        return;
+      }
+      console.log(`⏭️ 프로그램 라인 ${instruction.line} 건너뜀`);
+      this.pc++;
+      this.completedSteps++;
+      this.reportPosition(this.peekLine());
+    } catch (error) {
+      this.fail(token, error);
+    } finally {
+      this.executing = false;
+    }
+  }
+
+  async stop(): Promise<void> {
+    const wasActive = this.info?.status === 'running' || this.info?.status === 'paused';
+    this.abort();
+    if (this.info) {
+      this.resetCursor();
+      this.updateInfo({ status: 'stopped', progress: 0, currentLine: 0, currentStatement: undefined });
+    }
+    if (wasActive) {
+      this.audit('program_stop');
+      await this.runtime.stop();
+    }
+  }
+
+  // ===== 구독 =====
+  onChange(handler: ProgramChangeHandler): void {
+    this.changeHandlers.push(handler);
+  }
+
+  offChange(handler: ProgramChangeHandler): void {
+    const index = this.changeHandlers.indexOf(handler);
+    if (index !== -1) this.changeHandlers.splice(index, 1);
+  }
+
+  // ===== 내부 실행 =====
+
+  private async execute(token: number, singleStep: boolean): Promise<void> {
+    this.executing = true;
+    try {
+      while (token === this.runToken) {
+        const instruction = await this.advanceToAction(token);
+        if (!instruction) {
+          if (this.options.loopMode && !singleStep) {
+            this.resetCursor();
+            this.updateInfo({ loopIteration: (this.info?.loopIteration || 1) + 1 });
+            continue;
+          }
+          this.finish(token);
+          return;
+        }
+
+        this.reportPosition(instruction.line);
+        await this.executeAction(instruction.statement, token);
+        if (token !== this.runToken) return;
+
+        this.pc++;
+        this.completedSteps++;
+        this.reportPosition(this.peekLine());
+
+        if (singleStep || this.pauseRequested || this.options.stepMode) {
+          this.pauseRequested = false;
+          this.updateInfo({ status: 'paused' });
+          return;
+        }
+      }
+    } catch (error) {
+      this.fail(token, error);
+    } finally {
+      if (token === this.runToken) this.executing = false;
+    }
+  }
+
+  /**
+   * 제어 명령(loop/if/jump)을 처리하며 다음 동작 명령까지 진행 - 끝이면 null
+   */
+  private async advanceToAction(token: number): Promise<Extract<Instruction, { op: 'action' }> | null> {
+    while (this.pc < this.instructions.length) {
+      const instruction = this.instructions[this.pc];
+      switch (instruction.op) {
+        case 'action':
+          return instruction;
+        case 'loop_init':
+          this.loopCounters[instruction.slot] = instruction.count;
+          this.pc++;
+          break;
+        case 'loop_next':
+          this.loopCounters[instruction.slot]--;
+          this.pc = this.loopCounters[instruction.slot] > 0 ? instruction.bodyStart : this.pc + 1;
+          break;
+        case 'branch': {
+          const { sensor, operator, value } = instruction.statement;
+          const reading = await this.runtime.readSensor(sensor);
+          if (token !== this.runToken) throw new ProgramStoppedError();
+          const taken = compareValues(reading, operator, value);
+          console.log(`🔀 라인 ${instruction.line}: ${sensor} ${reading.toFixed(2)} ${operator} ${value} → ${taken}`);
+          this.pc = taken ? this.pc + 1 : instruction.elseStart;
+          break;
+        }
+        case 'jump':
+          this.pc = instruction.target;
+          break;
+      }
+    }
+    return null;
+  }
+
+  private async executeAction(statement: ProgramActionStatement, token: number): Promise<void> {
+    const checkStopped = () => {
+      if (token !== this.runToken) throw new ProgramStoppedError();
+    };
+
+    switch (statement.kind) {
+      case 'moveJ':
+      case 'moveL': {
+        const scale = this.options.speedOverride / 100;
+        const speed = Math.max(1, Math.round((statement.speed ?? DEFAULT_MOTION_SPEED) * scale));
+        const acceleration = Math.max(1, Math.round((statement.acceleration ?? DEFAULT_MOTION_ACCELERATION) * scale));
+        await this.runtime.move(statement, speed, acceleration);
+        checkStopped();
+        break;
+      }
+      case 'wait': {
+        const until = Date.now() + statement.seconds * 1000;
+        while (Date.now() < until) {
+          checkStopped();
+          await sleep(Math.min(WAIT_POLL_INTERVAL, until - Date.now()));
+        }
+        break;
+      }
+      case 'set_concentration':
+        await this.runtime.setConcentration(statement.target);
+        break;
+      case 'wait_weight': {
+        const startedAt = Date.now();
+        for (;;) {
+          checkStopped();
+          const weight = await this.runtime.readSensor('weight');
+          if (statement.operator === '>=' ? weight >= statement.grams : weight <= statement.grams) break;
+          if (statement.timeout !== undefined && Date.now() - startedAt > statement.timeout * 1000) {
+            throw new Error(`라인 ${statement.line}: ${statement.timeout}초 안에 무게 ${statement.operator} ${statement.grams}g 에 도달하지 못했습니다 (현재 ${weight.toFixed(1)}g)`);
+          }
+          await sleep(WAIT_POLL_INTERVAL);
+        }
+        break;
+      }
+    }
+    checkStopped();
+  }
+
+  private peekLine(): number {
+    const next = this.instructions[this.pc];
+    return next ? next.line : this.info?.currentLine || 0;
+  }
+
+  private reportPosition(line: number): void {
+    const progress = this.totalSteps > 0 ? Math.min(100, (this.completedSteps / this.totalSteps) * 100) : 0;
+    const startTime = this.info?.startTime;
+    const estimatedEndTime = startTime && this.completedSteps > 0
+      ? new Date(startTime.getTime() + ((Date.now() - startTime.getTime()) / this.completedSteps) * this.totalSteps)
+      : undefined;
+    this.updateInfo({
+      currentLine: line,
+      currentStatement: this.sourceLines[line - 1]?.trim(),
+      progress,
+      estimatedEndTime
+    });
+  }
+
+  private finish(token: number): void {
+    if (token !== this.runToken) return;
+    this.updateInfo({ status: 'completed', progress: 100, currentStatement: undefined });
+    this.audit('program_complete');
+    console.log(`✅ 프로그램 완료: ${this.program?.name}`);
+  }
+
+  private fail(token: number, error: unknown): void {
+    if (error instanceof ProgramStoppedError || token !== this.runToken) return;
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`❌ 프로그램 오류 (라인 ${this.info?.currentLine}):`, message);
+    this.updateInfo({ status: 'error', error: message });
+    this.audit('program_error', 'failed', { line: this.info?.currentLine }, message);
+  }
+
+  /**
+   * 실행 권한 확인 - 거부되면 감사 로그에 denied 로 기록
+   */
+  private assertCanRun(action: string): void {
+    try {
+      authService.assertPermission('run_program');
+    } catch (error) {
+      this.audit(action, 'denied', undefined, error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  }
+
+  private audit(action: string, result?: AuditResult, params?: Record<string, any>, message?: string): void {
+    auditService.record({
+      category: 'program',
+      action,
+      source: 'ProgramInterpreter',
+      params: { program: this.program?.name, ...params },
+      result,
+      message
+    });
+  }
+
+  private abort(): void {
+    this.runToken++;
+    this.executing = false;
+    this.pauseRequested = false;
+  }
+
+  private resetCursor(): void {
+    this.pc = 0;
+    this.completedSteps = 0;
+    this.loopCounters = [];
+  }
+
+  private updateInfo(changes: Partial<ProgramInfo>): void {
+    if (!this.info) return;
+    this.info = { ...this.info, ...changes };
+    this.notifyChange();
+  }
+
+  private notifyChange(): void {
+    const info = this.getInfo();
+    this.changeHandlers.forEach(handler => handler(info));
+  }
+}
+
+export const programInterpreter = new ProgramInterpreterService();
+
+export default ProgramInterpreterService;
@@ -0,0 +1,97 @@
+/**
+ * 로봇 프로그램 저장소 서비스 - /api/programs CRUD
+ * Mock 모드에서는 기본 레시피(configs/programs)와 localStorage 에 저장된 프로그램을 사용
+ */
+import axios, { AxiosInstance } from 'axios';
+import { RobotProgram } from '../types/programTypes';
+import config, { isMockDataEnabled } from '../config';
+import { storage, randomId } from '../utils';
+import { authService } from './authService';
+import sugarDispensing from '../../../configs/programs/sugar_dispensing.json';
+import pouring from '../../../configs/programs/pouring.json';
+
+const PROGRAMS_STORAGE_KEY = 'robot_programs';
+
+export const BUILTIN_PROGRAMS: RobotProgram[] = [sugarDispensing, pouring] as RobotProgram[];
+
+export type ProgramDraft = Pick<RobotProgram, 'name' | 'source'> & Partial<Pick<RobotProgram, 'description'>>;
+
+class ProgramService {
+  private api: AxiosInstance;
+
+  constructor(baseURL?: string) {
+    this.api = axios.create({
+      baseURL: baseURL || config.API_BASE_URL,
+      timeout: 10000,
+      headers: { 'Content-Type': 'application/json' }
+    });
+    // 프로그램 저장/삭제는 백엔드에서도 edit_program 권한 확인
+    this.api.interceptors.request.use((request) => {
+      Object.assign(request.headers, authService.getAuthHeaders());
+      return request;
+    });
+  }
+
+  async list(): Promise<RobotProgram[]> {
+    if (isMockDataEnabled()) {
+      return [...BUILTIN_PROGRAMS, ...this.getStoredPrograms()];
+    }
+    const response = await this.api.get('/api/programs');
+    return response.data.programs;
+  }
+
+  async get(id: string): Promise<RobotProgram> {
+    if (isMockDataEnabled()) {
+      const program = (await this.list()).find(existing => existing.id === id);
+      if (!program) throw new Error(`프로그램을 찾을 수 없습니다: ${id}`);
+      return program;
+    }
+    const response = await this.api.get(`/api/programs/${encodeURIComponent(id)}`);
+    return response.data.program;
+  }
+
+  async create(draft: ProgramDraft): Promise<RobotProgram> {
+    authService.assertPermission('edit_program');
+    if (isMockDataEnabled()) {
+      const now = new Date().toISOString();
+      const program: RobotProgram = { ...draft, id: `prog_${Date.now()}_${randomId(4)}`, createdAt: now, updatedAt: now };
+      storage.set(PROGRAMS_STORAGE_KEY, [...this.getStoredPrograms(), program]);
+      return program;
+    }
+    const response = await this.api.post('/api/programs', draft);
+    return response.data.program;
+  }
+
+  async update(id: string, draft: ProgramDraft): Promise<RobotProgram> {
+    authService.assertPermission('edit_program');
+    if (isMockDataEnabled()) {
+      const existing = this.getStoredPrograms().find(program => program.id === id);
+      if (!existing) throw new Error('기본 레시피는 수정할 수 없습니다. 복사본으로 저장하세요');
+      const program: RobotProgram = { ...existing, ...draft, updatedAt: new Date().toISOString() };
+      storage.set(PROGRAMS_STORAGE_KEY, this.getStoredPrograms().map(stored => (stored.id === id ? program : stored)));
+      return program;
+    }
+    const response = await this.api.put(`/api/programs/${encodeURIComponent(id)}`, draft);
+    return response.data.program;
+  }
+
+  async remove(id: string): Promise<void> {
+    authService.assertPermission('edit_program');
+    if (isMockDataEnabled()) {
+      if (BUILTIN_PROGRAMS.some(program => program.id === id)) {
+        throw new Error('기본 레시피는 삭제할 수 없습니다');
+      }
+      storage.set(PROGRAMS_STORAGE_KEY, this.getStoredPrograms().filter(program => program.id !== id));
+      return;
+    }
+    await this.api.delete(`/api/programs/${encodeURIComponent(id)}`);
+  }
+
+  private getStoredPrograms(): RobotProgram[] {
+    return storage.get<RobotProgram[]>(PROGRAMS_STORAGE_KEY, []) || [];
+  }
+}
+
+export const programService = new ProgramService();
+
+export default ProgramService;
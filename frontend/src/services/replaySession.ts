@@ -0,0 +1,308 @@
+/**
+ * 녹화 재생 세션
+ * MQTT 인스펙터 녹화 파일(NDJSON)을 원래 시간 간격대로 0.25 ~ 10 배속으로 다시 흘려보낸다 (탐색, 일시정지, 반복 재생).
+ * 재생 모드 동안 MqttContext 는 ReplayTransport 로 다시 연결하고, RobotStateContext 는 녹화된 robot/status · joint_states 로
+ * 상태를 만들며, commandSender 는 모든 로봇 명령을 거부한다.
+ * 탐색 시에는 토픽별로 그 시점 직전의 마지막 메시지를 다시 전달해 화면 상태를 맞춘다.
+ */
+import { MqttMessage } from '../types/mqttTypes';
+import { RecordedMessage, RecordingMetadata } from '../types/inspectorTypes';
+import { RobotState } from '../types/robotTypes';
+import { ReplayState, ReplayStatus } from '../types/replayTypes';
+import { parseRecordingNdjson } from '../utils/exportFormats';
+import DataProcessorService from './dataProcessor';
+import { topicRegistry } from './topicRegistry';
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 5, 10];
+const MIN_SPEED = 0.25;
+const MAX_SPEED = 10;
+const STATUS_INTERVAL = 250; // ms - 재생 위치 알림 주기
+const RAD_TO_DEG = 180 / Math.PI;
+
+type ReplayListener = (message: MqttMessage) => void;
+
+class ReplaySession {
+  private active = false;
+  private state: ReplayState = 'idle';
+  private filename: string | null = null;
+  private metadata: RecordingMetadata | null = null;
+  private messages: RecordedMessage[] = [];
+  private duration = 0;
+  private index = 0;
+  private position = 0;
+  private anchorWall = 0;
+  private anchorPosition = 0;
+  private speed = 1;
+  private loop = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private processor = new DataProcessorService();
+  private robotState: Partial<RobotState> | null = null;
+  private jointPositions: number[] | null = null;
+  private messageListeners: ReplayListener[] = [];
+  private listeners: Array<(status: ReplayStatus) => void> = [];
+
+  // ===== 세션 =====
+  /**
+   * 녹화 파일 불러오기 - 재생 모드로 전환하고 처음 위치에서 일시정지
+   */
+  load(filename: string, text: string): void {
+    const { metadata, messages } = parseRecordingNdjson(text);
+    if (messages.length === 0) {
+      throw new Error('녹화된 메시지가 없습니다');
+    }
+
+    this.clearTimer();
+    this.active = true;
+    this.state = 'paused';
+    this.filename = filename;
+    this.metadata = metadata;
+    this.messages = messages;
+    this.duration = Math.max(metadata.duration || 0, messages[messages.length - 1].offset);
+    this.index = 0;
+    this.position = 0;
+    this.resetRobotState();
+
+    console.log(`⏯️ 녹화 재생 모드: ${filename} (${messages.length}개, ${(this.duration / 1000).toFixed(1)}초)`);
+    this.notify();
+  }
+
+  /**
+   * 재생 모드 종료 - 실시간 연결로 복귀
+   */
+  exit(): void {
+    if (!this.active) return;
+    this.clearTimer();
+    this.active = false;
+    this.state = 'idle';
+    this.filename = null;
+    this.metadata = null;
+    this.messages = [];
+    this.duration = 0;
+    this.index = 0;
+    this.position = 0;
+    this.resetRobotState();
+
+    console.log('⏹️ 녹화 재생 모드 종료 - 실시간 연결로 복귀');
+    this.notify();
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  // ===== 재생 제어 =====
+  play(): void {
+    if (!this.active || this.state === 'playing') return;
+    if (this.state === 'ended') {
+      this.seek(0);
+    }
+    this.state = 'playing';
+    this.anchor(this.position);
+    this.notify();
+    this.schedule();
+  }
+
+  pause(): void {
+    if (this.state !== 'playing') return;
+    this.position = this.currentPosition();
+    this.clearTimer();
+    this.state = 'paused';
+    this.notify();
+  }
+
+  /**
+   * 탐색 - 토픽별로 해당 시점 직전의 마지막 메시지를 다시 전달
+   */
+  seek(position: number): void {
+    if (!this.active) return;
+    const target = Math.max(0, Math.min(this.duration, position));
+
+    let index = 0;
+    while (index < this.messages.length && this.messages[index].offset <= target) index++;
+
+    const latest = new Map<string, RecordedMessage>();
+    this.messages.slice(0, index).forEach(message => latest.set(message.topic, message));
+    this.resetRobotState();
+    Array.from(latest.values())
+      .sort((a, b) => a.offset - b.offset)
+      .forEach(message => this.dispatch(message));
+
+    this.index = index;
+    this.position = target;
+    if (this.state === 'ended') this.state = 'paused';
+    if (this.state === 'playing') {
+      this.anchor(target);
+      this.schedule();
+    }
+    this.notify();
+  }
+
+  setSpeed(speed: number): void {
+    const clamped = Math.max(MIN_SPEED, Math.min(MAX_SPEED, speed));
+    if (this.state === 'playing') {
+      this.anchor(this.currentPosition());
+    }
+    this.speed = clamped;
+    this.notify();
+    this.schedule();
+  }
+
+  setLoop(loop: boolean): void {
+    this.loop = loop;
+    this.notify();
+  }
+
+  // ===== 조회 =====
+  getStatus(): ReplayStatus {
+    return {
+      active: this.active,
+      state: this.state,
+      filename: this.filename,
+      metadata: this.metadata,
+      position: this.currentPosition(),
+      duration: this.duration,
+      speed: this.speed,
+      loop: this.loop,
+      messageIndex: this.index,
+      messageCount: this.messages.length
+    };
+  }
+
+  /**
+   * /api/robot/status 응답 형식과 호환되는 스냅샷 - 녹화된 robot/status 와 joint_states(도 단위 변환)로 구성
+   */
+  getRobotStatus() {
+    const state = this.robotState ?? {};
+    const jointPositions = this.jointPositions ?? state.jointPositions;
+    const isMoving = state.isMoving ?? false;
+    return {
+      ...state,
+      connected: this.robotState !== null || this.jointPositions !== null,
+      status: state.status ?? (isMoving ? 'moving' : 'idle'),
+      isMoving,
+      ...(jointPositions && { jointPositions }),
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  // ===== 메시지 구독 (ReplayTransport) =====
+  attach(listener: ReplayListener): void {
+    this.messageListeners.push(listener);
+  }
+
+  detach(listener: ReplayListener): void {
+    this.messageListeners = this.messageListeners.filter(existing => existing !== listener);
+  }
+
+  // ===== 상태 구독 =====
+  onChange(listener: (status: ReplayStatus) => void): void {
+    this.listeners.push(listener);
+  }
+
+  offChange(listener: (status: ReplayStatus) => void): void {
+    this.listeners = this.listeners.filter(existing => existing !== listener);
+  }
+
+  // ===== 내부 =====
+  private currentPosition(): number {
+    if (this.state !== 'playing') return this.position;
+    return Math.min(this.duration, this.anchorPosition + (Date.now() - this.anchorWall) * this.speed);
+  }
+
+  private anchor(position: number): void {
+    this.position = position;
+    this.anchorPosition = position;
+    this.anchorWall = Date.now();
+  }
+
+  private schedule(): void {
+    this.clearTimer();
+    if (this.state !== 'playing') return;
+
+    const next = this.messages[this.index];
+    const target = next ? next.offset : this.duration;
+    const wait = Math.max(0, (target - this.currentPosition()) / this.speed);
+    this.timer = setTimeout(() => this.tick(), Math.min(wait, STATUS_INTERVAL));
+  }
+
+  private tick(): void {
+    this.timer = null;
+    const position = this.currentPosition();
+    while (this.index < this.messages.length && this.messages[this.index].offset <= position) {
+      this.dispatch(this.messages[this.index++]);
+    }
+
+    if (position >= this.duration && this.index >= this.messages.length) {
+      if (this.loop) {
+        this.index = 0;
+        this.resetRobotState();
+        this.anchor(0);
+      } else {
+        this.position = this.duration;
+        this.state = 'ended';
+        this.notify();
+        return;
+      }
+    }
+
+    this.notify();
+    this.schedule();
+  }
+
+  private dispatch(record: RecordedMessage): void {
+    // 수신 시각은 실시간과 같이 지금 - 페이로드(data)는 녹화 그대로
+    const message: MqttMessage = {
+      type: record.type,
+      topic: record.topic,
+      data: record.data,
+      timestamp: new Date().toISOString()
+    };
+    this.updateRobotState(message);
+
+    this.messageListeners.forEach(listener => {
+      try {
+        listener(message);
+      } catch (error) {
+        console.error('❌ 녹화 재생 메시지 처리 오류:', error);
+      }
+    });
+  }
+
+  private updateRobotState(message: MqttMessage): void {
+    const status = topicRegistry.parse('robotStatus', message, this.processor);
+    if (status) {
+      this.robotState = { ...(this.robotState ?? {}), ...status };
+      return;
+    }
+    const joints = topicRegistry.parse('jointStates', message, this.processor);
+    if (joints && joints.position.length >= 6) {
+      this.jointPositions = joints.position.slice(0, 6).map(position => position * RAD_TO_DEG);
+    }
+  }
+
+  private resetRobotState(): void {
+    this.robotState = null;
+    this.jointPositions = null;
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private notify(): void {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => {
+      try {
+        listener(status);
+      } catch (error) {
+        console.error('❌ 녹화 재생 리스너 오류:', error);
+      }
+    });
+  }
+}
+
+export const replaySession = new ReplaySession();
+export default ReplaySession;
@@ -0,0 +1,112 @@
+/**
+ * ⏯️ 녹화 재생 전송 계층
+ * 전송 계층(Transport) 구현 - replaySession.isActive() 일 때 연결 관리자가 사용
+ * 실시간 연결 대신 replaySession 이 흘려보내는 녹화 메시지를 전달하고, 발행은 모두 차단한다.
+ */
+import { MqttMessage } from '../types/mqttTypes';
+import { Transport, TransportStatus } from '../types/transportTypes';
+import { replaySession } from './replaySession';
+
+export interface ReplayTransportOptions {
+  debug?: boolean;
+}
+
+/**
+ * 재생 전송 계층 - BackendWebSocketService 와 같은 Transport 인터페이스
+ */
+export class ReplayTransport implements Transport {
+  readonly kind = 'replay' as const;
+  private options: Required<ReplayTransportOptions>;
+  private connected = false;
+
+  // 이벤트 핸들러 (연결 관리자가 설정)
+  public onMessage?: (message: MqttMessage) => void;
+  public onFrame?: (frame: any) => void;
+  public onConnectionChange?: (connected: boolean) => void;
+  public onError?: (error: any) => void;
+
+  constructor(options: ReplayTransportOptions = {}) {
+    this.options = {
+      debug: options.debug || false
+    };
+  }
+
+  private log(message: string, ...args: any[]) {
+    if (this.options.debug) {
+      console.log(`[Replay] ${message}`, ...args);
+    }
+  }
+
+  private handleReplayMessage = (message: MqttMessage) => {
+    try {
+      this.onMessage?.(message);
+    } catch (error) {
+      this.log('❌ 메시지 핸들러 오류:', error);
+    }
+  };
+
+  async connect(): Promise<void> {
+    if (this.connected) return;
+
+    this.connected = true;
+    replaySession.attach(this.handleReplayMessage);
+    this.log('✅ 녹화 재생 연결됨');
+
+    this.onConnectionChange?.(true);
+  }
+
+  disconnect(): void {
+    if (!this.connected) return;
+
+    replaySession.detach(this.handleReplayMessage);
+    this.connected = false;
+    this.log('🔌 녹화 재생 연결 해제');
+  }
+
+  // 녹화의 모든 토픽을 전달 - 구독은 기록만
+  subscribe(topic: string, qos: 0 | 1 | 2 = 0): void {
+    this.log('📡 구독 요청:', topic, qos);
+  }
+
+  unsubscribe(topic: string): void {
+    this.log('📡 구독 해제:', topic);
+  }
+
+  // 재생 중에는 어떤 메시지도 로봇/브로커로 나가지 않음
+  publish(topic: string, message: string, qos: 0 | 1 | 2 = 0, retained = false): void {
+    console.warn('⚠️ 재생(REPLAY) 모드 - 메시지 발행 차단:', topic, { qos, retained });
+  }
+
+  send(frame: Record<string, any>): boolean {
+    console.warn('⚠️ 재생(REPLAY) 모드 - 제어 프레임 전송 차단:', frame.type);
+    return false;
+  }
+
+  // 상태 확인 메서드들
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  getConnectionStatus(): TransportStatus {
+    return this.connected ? 'connected' : 'disconnected';
+  }
+
+  getLastError(): string | null {
+    return null;
+  }
+
+  // 연결 감시 (ConnectionProbe) - 재생은 네트워크가 없으므로 연결되어 있으면 항상 응답
+  ping(): boolean {
+    return this.connected;
+  }
+
+  getLastHeartbeat(): number | null {
+    return this.connected ? Date.now() : null;
+  }
+
+  getLatency(): number | null {
+    return this.connected ? 0 : null;
+  }
+}
+
+export default ReplayTransport;
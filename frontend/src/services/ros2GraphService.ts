@@ -0,0 +1,136 @@
+/**
+ * ROS2 그래프 서비스
+ * ros2_topic_list / ros2_node_list / ros2_service_list 스냅샷을 보관하고, 직전 스냅샷과 비교해
+ * 등장/사라짐 타임라인과 사라진 노드 목록을 만든다 (드라이버 크래시 시 어떤 노드가 빠졌는지 확인용).
+ * 첫 스냅샷은 기준값으로만 사용하며, 토픽 리스트는 발행 측이 보낸 changes 로 타임라인을 시작한다.
+ */
+import { ROS2GraphListMessage, ROS2TopicListMessage } from '../types/mqttTypes';
+import {
+  ROS2GraphEvent,
+  ROS2GraphKind,
+  ROS2GraphSnapshot,
+  VanishedNode
+} from '../types/ros2GraphTypes';
+import { Timestamp } from '../types/robotTypes';
+import { diffNames, namespaceOf } from '../utils/ros2Graph';
+
+const MAX_TIMELINE = 500;
+
+export const ROS2_GRAPH_KIND_LABELS: Record<ROS2GraphKind, string> = {
+  topic: '토픽',
+  node: '노드',
+  service: '서비스'
+};
+
+class ROS2GraphService {
+  private names: Record<ROS2GraphKind, string[]> = { topic: [], node: [], service: [] };
+  private updatedAt: Record<ROS2GraphKind, Timestamp | null> = { topic: null, node: null, service: null };
+  private health: ROS2TopicListMessage['health'] | null = null;
+  private timeline: ROS2GraphEvent[] = [];
+  private vanishedNodes = new Map<string, VanishedNode>();
+  private sequence = 0;
+  private listeners: Array<(snapshot: ROS2GraphSnapshot) => void> = [];
+
+  // ===== 스냅샷 수신 =====
+  ingestTopicList(message: ROS2TopicListMessage): void {
+    const { robotControl, robotStatus, navigation, diagnostics, system, other } = message.categories;
+    const topics = Array.from(new Set([
+      ...robotControl, ...robotStatus, ...navigation, ...diagnostics, ...system, ...other
+    ])).sort();
+    const initial = this.updatedAt.topic === null;
+    this.health = message.health;
+    this.apply('topic', topics, message.timestamp, initial ? message.changes : undefined);
+  }
+
+  ingestNodeList(message: ROS2GraphListMessage): void {
+    this.apply('node', message.names, message.timestamp);
+  }
+
+  ingestServiceList(message: ROS2GraphListMessage): void {
+    this.apply('service', message.names, message.timestamp);
+  }
+
+  // ===== 조회 =====
+  getSnapshot(): ROS2GraphSnapshot {
+    return {
+      topics: this.names.topic,
+      nodes: this.names.node,
+      services: this.names.service,
+      health: this.health,
+      timeline: this.timeline,
+      vanishedNodes: Array.from(this.vanishedNodes.values())
+        .sort((a, b) => b.vanishedAt.localeCompare(a.vanishedAt) || a.name.localeCompare(b.name)),
+      updatedAt: { ...this.updatedAt }
+    };
+  }
+
+  clearTimeline(): void {
+    this.timeline = [];
+    this.notify();
+  }
+
+  // 운영자가 확인한 사라진 노드 목록 비우기 (다시 사라지면 새로 기록)
+  dismissVanishedNodes(): void {
+    this.vanishedNodes.clear();
+    this.notify();
+  }
+
+  // ===== 변경 구독 =====
+  onChange(listener: (snapshot: ROS2GraphSnapshot) => void): void {
+    this.listeners.push(listener);
+  }
+
+  offChange(listener: (snapshot: ROS2GraphSnapshot) => void): void {
+    this.listeners = this.listeners.filter(existing => existing !== listener);
+  }
+
+  // ===== 내부 =====
+  private apply(
+    kind: ROS2GraphKind,
+    names: string[],
+    timestamp: Timestamp,
+    initialChanges?: { added: string[]; removed: string[] }
+  ): void {
+    const initial = this.updatedAt[kind] === null;
+    const changes = initial ? (initialChanges ?? { added: [], removed: [] }) : diffNames(this.names[kind], names);
+
+    this.names[kind] = names;
+    this.updatedAt[kind] = timestamp;
+
+    changes.added.forEach(name => this.record(kind, 'appeared', name, timestamp));
+    changes.removed.forEach(name => this.record(kind, 'disappeared', name, timestamp));
+
+    if (kind === 'node') {
+      changes.added.forEach(name => this.vanishedNodes.delete(name));
+      changes.removed.forEach(name => {
+        this.vanishedNodes.set(name, { name, namespace: namespaceOf(name), vanishedAt: timestamp });
+      });
+      if (changes.removed.length > 0) {
+        console.warn(`🚨 ROS2 노드 사라짐: ${changes.removed.join(', ')}`);
+      }
+    }
+
+    this.notify();
+  }
+
+  private record(kind: ROS2GraphKind, change: ROS2GraphEvent['change'], name: string, timestamp: Timestamp): void {
+    this.timeline = [
+      { id: `ros2_${Date.now()}_${++this.sequence}`, kind, change, name, timestamp },
+      ...this.timeline
+    ].slice(0, MAX_TIMELINE);
+  }
+
+  private notify(): void {
+    const snapshot = this.getSnapshot();
+    this.listeners.forEach(listener => {
+      try {
+        listener(snapshot);
+      } catch (error) {
+        console.error('❌ ROS2 그래프 리스너 오류:', error);
+      }
+    });
+  }
+}
+
+export const ros2GraphService = new ROS2GraphService();
+export default ROS2GraphService;
@@ -0,0 +1,173 @@
+/**
+ * 저울 필터 비교 서비스
+ * 저울 필터 채널(토픽 레지스트리 scale_sensors)을 공통 시간축으로 보관하고 raw 대비 지표를 계산한다.
+ * 사용자가 선택한 "공식" 필터가 앱 전체의 WeightSensorData.weight 를 결정한다.
+ */
+import { MqttMessage, WeightSensorMessage } from '../types/robotTypes';
+import { ScaleFilterChartPoint, ScaleFilterMetrics, ScaleFilterType } from '../types/sensorTypes';
+import { SCALE_FILTER_TYPES, DEFAULT_OFFICIAL_SCALE_FILTER } from '../config';
+import { storage } from '../utils';
+import { topicRegistry } from './topicRegistry';
+import { TimedSample, computeStepResponse, estimateLag, estimateNoise, resampleHold } from '../utils/filterMetrics';
+
+const OFFICIAL_FILTER_STORAGE_KEY = 'official_scale_filter';
+const HISTORY_WINDOW = 30000;   // ms - 지표 계산/차트 보관 구간
+const NOTIFY_INTERVAL = 500;    // ms
+
+const isScaleFilter = (value: string): value is ScaleFilterType =>
+  (SCALE_FILTER_TYPES as string[]).includes(value);
+
+class ScaleFilterService {
+  private history = {} as Record<ScaleFilterType, TimedSample[]>;
+  private official: ScaleFilterType;
+  private lastNotify = 0;
+  private listeners: Array<() => void> = [];
+
+  constructor() {
+    SCALE_FILTER_TYPES.forEach(filter => {
+      this.history[filter] = [];
+    });
+    const stored = storage.get<string>(OFFICIAL_FILTER_STORAGE_KEY);
+    this.official = stored && isScaleFilter(stored) ? stored : DEFAULT_OFFICIAL_SCALE_FILTER;
+  }
+
+  // ===== 공식 필터 =====
+  getOfficialFilter(): ScaleFilterType {
+    return this.official;
+  }
+
+  getOfficialTopic(): string {
+    return topicRegistry.getScaleFilterTopic(this.official);
+  }
+
+  setOfficialFilter(filter: ScaleFilterType): void {
+    if (!isScaleFilter(filter)) {
+      throw new Error(`알 수 없는 저울 필터: ${filter}`);
+    }
+    this.official = filter;
+    storage.set(OFFICIAL_FILTER_STORAGE_KEY, filter);
+    console.log('⚖️ 공식 무게 필터 변경:', filter);
+    this.notify();
+  }
+
+  /**
+   * 공식 필터 채널 메시지 → WeightSensorMessage (다른 채널이면 null)
+   */
+  createWeightMessage(message: MqttMessage): WeightSensorMessage | null {
+    const filter = topicRegistry.getScaleFilter(message.topic);
+    if (filter !== this.official || typeof message.data?.weight !== 'number') return null;
+
+    const raw = this.history.raw;
+    return {
+      id: `scale_${filter}`,
+      name: `Scale (${filter})`,
+      value: message.data.weight,
+      unit: 'g',
+      quality: 'good',
+      timestamp: message.data.timestamp || message.timestamp,
+      status: 'normal',
+      weight: message.data.weight,
+      type: filter,
+      connected: true,
+      lastUpdate: message.timestamp,
+      rawValue: raw.length > 0 ? raw[raw.length - 1].value : message.data.weight,
+      processed: { weight: message.data.weight, smoothed: filter !== 'raw' }
+    };
+  }
+
+  // ===== 메시지 처리 =====
+  handleMessage(message: MqttMessage): void {
+    const filter = topicRegistry.getScaleFilter(message.topic);
+    if (!filter || typeof message.data?.weight !== 'number') return;
+
+    const timestamp = Date.parse(message.data.timestamp || message.timestamp);
+    if (isNaN(timestamp)) return;
+
+    const samples = this.history[filter];
+    // 와일드카드/토픽 핸들러 중복 전달 및 역순 샘플 무시
+    if (samples.length > 0 && timestamp <= samples[samples.length - 1].timestamp) return;
+
+    samples.push({ timestamp, value: message.data.weight });
+    while (samples.length > 0 && samples[0].timestamp < timestamp - HISTORY_WINDOW) samples.shift();
+
+    if (Date.now() - this.lastNotify >= NOTIFY_INTERVAL) this.notify();
+  }
+
+  // ===== 조회 =====
+  getHistory(filter: ScaleFilterType): TimedSample[] {
+    return [...this.history[filter]];
+  }
+
+  getActiveFilters(): ScaleFilterType[] {
+    return SCALE_FILTER_TYPES.filter(filter => this.history[filter].length > 0);
+  }
+
+  /**
+   * 공통 시간축 시리즈 - raw 샘플 시각 기준 (raw 가 없으면 샘플이 가장 많은 채널)
+   */
+  getChartSeries(): ScaleFilterChartPoint[] {
+    const filters = this.getActiveFilters();
+    if (filters.length === 0) return [];
+
+    const base = this.history.raw.length > 0
+      ? this.history.raw
+      : filters.map(filter => this.history[filter]).reduce((a, b) => (b.length > a.length ? b : a));
+    const timestamps = base.map(sample => sample.timestamp);
+
+    const points: ScaleFilterChartPoint[] = timestamps.map(timestamp => ({ timestamp }));
+    filters.forEach(filter => {
+      resampleHold(this.history[filter], timestamps).forEach((value, index) => {
+        if (value !== null) points[index][filter] = value;
+      });
+    });
+    return points;
+  }
+
+  /**
+   * raw 기준 필터별 지연/노이즈/계단 응답
+   */
+  getMetrics(): ScaleFilterMetrics[] {
+    const raw = this.history.raw;
+    return this.getActiveFilters().map(filter => {
+      const samples = this.history[filter];
+      return {
+        filter,
+        samples: samples.length,
+        lag: filter === 'raw' ? 0 : estimateLag(raw, samples),
+        noise: estimateNoise(samples),
+        step: raw.length > 0 ? computeStepResponse(raw, samples) : null
+      };
+    });
+  }
+
+  clear(): void {
+    SCALE_FILTER_TYPES.forEach(filter => {
+      this.history[filter] = [];
+    });
+    this.notify();
+  }
+
+  // ===== 리스너 =====
+  onChange(listener: () => void): void {
+    this.listeners.push(listener);
+  }
+
+  offChange(listener: () => void): void {
+    this.listeners = this.listeners.filter(existing => existing !== listener);
+  }
+
+  private notify(): void {
+    this.lastNotify = Date.now();
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('❌ 저울 필터 리스너 오류:', error);
+      }
+    });
+  }
+}
+
+export const scaleFilterService = new ScaleFilterService();
+
+export default ScaleFilterService;
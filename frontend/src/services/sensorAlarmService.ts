@@ -0,0 +1,349 @@
+/**
+ * 센서 알람 서비스
+ * 수신 센서 메시지에 알람 규칙(임계값/변화율/데이터 끊김)을 적용해 SensorAlarm 을 발생/해제한다.
+ * 히스테리시스, on-delay/off-delay, 확인(acknowledge)과 자동 해제(auto-reset)를 지원한다.
+ */
+import { MqttMessage } from '../types/mqttTypes';
+import { SensorAlarmRecord, SensorAlarmRule, SensorAlarmSeverity } from '../types/sensorTypes';
+import { DEFAULT_SENSOR_ALARM_RULES } from '../config';
+import { storage, randomId } from '../utils';
+import { TimedSample } from '../utils/filterMetrics';
+import { AlarmCondition, evaluateRate, evaluateThreshold } from '../utils/alarmRules';
+import { extractSensorSample } from './sensorSamples';
+import DataProcessorService from './dataProcessor';
+
+const RULES_STORAGE_KEY = 'sensor_alarm_rules';
+const HISTORY_STORAGE_KEY = 'sensor_alarm_history';
+const MAX_HISTORY = 200;
+const STALE_CHECK_INTERVAL = 1000;  // ms
+const DEFAULT_RATE_WINDOW = 1000;   // ms
+
+export const SEVERITY_LABELS: Record<SensorAlarmSeverity, string> = {
+  warning: '경고',
+  critical: '위험'
+};
+
+// 규칙별 판정 상태 (지연 타이머는 샘플 시각 기준)
+interface RuleState {
+  pendingSince: number | null;    // 조건 최초 성립 시각 (on-delay)
+  clearSince: number | null;      // 정상 복귀 시각 (off-delay)
+  samples: TimedSample[];         // rate 계산 구간
+  lastReceivedAt: number | null;  // stale - 마지막 수신 (Date.now)
+}
+
+const formatValue = (value: number): string => String(Math.round(value * 100) / 100);
+
+const describe = (rule: SensorAlarmRule, condition: AlarmCondition): string => {
+  const label = SEVERITY_LABELS[condition.severity];
+  switch (rule.kind) {
+    case 'rate':
+      return `${rule.sensorName} 변화율 ${label}: ${formatValue(condition.value)} ${rule.unit}/s (기준 ${condition.limit} ${rule.unit}/s)`;
+    case 'stale':
+      return `${rule.sensorName} 데이터 수신 없음: ${Math.round(condition.value)}초 (기준 ${condition.limit}초)`;
+    default:
+      return `${rule.sensorName} ${condition.above ? '상한' : '하한'} ${label}: ${formatValue(condition.value)} ${rule.unit} (기준 ${condition.limit} ${rule.unit})`;
+  }
+};
+
+class SensorAlarmService {
+  private rules: SensorAlarmRule[];
+  private states = new Map<string, RuleState>();
+  private active: SensorAlarmRecord[] = [];
+  private history: SensorAlarmRecord[];
+  private processor = new DataProcessorService();
+  private lastMessage: MqttMessage | null = null;
+  private staleTimer: ReturnType<typeof setInterval> | null = null;
+  private listeners: Array<() => void> = [];
+  private alarmListeners: Array<(alarm: SensorAlarmRecord) => void> = [];
+
+  constructor() {
+    // 저장된 규칙이 기본 규칙을 덮어쓰고, 새로 추가된 기본 규칙은 그대로 사용
+    const stored = storage.get<SensorAlarmRule[]>(RULES_STORAGE_KEY) || [];
+    this.rules = [
+      ...DEFAULT_SENSOR_ALARM_RULES.map(rule => ({ ...rule, ...stored.find(existing => existing.id === rule.id) })),
+      ...stored.filter(rule => !DEFAULT_SENSOR_ALARM_RULES.some(existing => existing.id === rule.id))
+    ];
+    this.history = storage.get<SensorAlarmRecord[]>(HISTORY_STORAGE_KEY) || [];
+  }
+
+  // ===== 조회 =====
+  getRules(): SensorAlarmRule[] {
+    return [...this.rules];
+  }
+
+  getActiveAlarms(): SensorAlarmRecord[] {
+    return [...this.active];
+  }
+
+  getHistory(): SensorAlarmRecord[] {
+    return [...this.history];
+  }
+
+  // ===== 메시지 처리 =====
+  /**
+   * MQTT 메시지 입력 - MqttContext 에서 모든 수신 메시지를 전달
+   */
+  handleMessage(message: MqttMessage): void {
+    // 와일드카드/토픽 핸들러 중복 전달 무시
+    if (message === this.lastMessage) return;
+    this.lastMessage = message;
+
+    const sample = extractSensorSample(message, this.processor);
+    if (!sample) return;
+    this.ensureStaleTimer();
+
+    this.rules
+      .filter(rule => rule.enabled && rule.sensorId === sample.sensorId)
+      .forEach(rule => this.evaluateSample(rule, sample.value, sample.timestamp));
+  }
+
+  /**
+   * 데이터 끊김 규칙 판정 - 주기적으로 호출 (첫 수신 이후에만 판정)
+   */
+  checkStale(now = Date.now()): void {
+    this.rules
+      .filter(rule => rule.enabled && rule.kind === 'stale')
+      .forEach(rule => {
+        const state = this.getState(rule.id);
+        if (state.lastReceivedAt === null || rule.staleAfter === undefined) return;
+        const elapsed = now - state.lastReceivedAt;
+        const condition: AlarmCondition | null = elapsed > rule.staleAfter
+          ? { severity: rule.staleSeverity || 'warning', value: elapsed / 1000, limit: rule.staleAfter / 1000, above: true }
+          : null;
+        this.apply(rule, condition, now);
+      });
+  }
+
+  // ===== 확인 / 이력 =====
+  acknowledge(id: string): void {
+    const record = this.active.find(alarm => alarm.id === id);
+    if (!record || record.acknowledged) return;
+    record.acknowledged = true;
+    record.acknowledgedAt = new Date().toISOString();
+    // 이미 정상 복귀한 래치 알람은 확인 시 이력으로 이동
+    if (!record.active) this.archive(record);
+    this.notify();
+  }
+
+  acknowledgeAll(): void {
+    this.active.filter(alarm => !alarm.acknowledged).forEach(alarm => this.acknowledge(alarm.id));
+  }
+
+  clearHistory(): void {
+    this.history = [];
+    storage.set(HISTORY_STORAGE_KEY, this.history);
+    this.notify();
+  }
+
+  // ===== 규칙 =====
+  updateRule(id: string, patch: Partial<Omit<SensorAlarmRule, 'id'>>): void {
+    const index = this.rules.findIndex(rule => rule.id === id);
+    if (index < 0) {
+      throw new Error(`알 수 없는 알람 규칙: ${id}`);
+    }
+    this.rules[index] = { ...this.rules[index], ...patch };
+    this.states.delete(id);
+
+    // 비활성화한 규칙의 알람은 즉시 해제
+    const record = this.findRecord(id);
+    if (!this.rules[index].enabled && record) {
+      record.active = false;
+      record.clearedAt = record.clearedAt || new Date().toISOString();
+      this.archive(record);
+    }
+    storage.set(RULES_STORAGE_KEY, this.rules);
+    this.notify();
+  }
+
+  resetRules(): void {
+    this.rules = DEFAULT_SENSOR_ALARM_RULES.map(rule => ({ ...rule }));
+    this.states.clear();
+    storage.remove(RULES_STORAGE_KEY);
+    this.notify();
+  }
+
+  // ===== 리스너 =====
+  onChange(listener: () => void): void {
+    this.listeners.push(listener);
+  }
+
+  offChange(listener: () => void): void {
+    this.listeners = this.listeners.filter(existing => existing !== listener);
+  }
+
+  // 알람 발생/심각도 상승 시 호출 (토스트 알림 등)
+  onAlarm(listener: (alarm: SensorAlarmRecord) => void): void {
+    this.alarmListeners.push(listener);
+  }
+
+  offAlarm(listener: (alarm: SensorAlarmRecord) => void): void {
+    this.alarmListeners = this.alarmListeners.filter(existing => existing !== listener);
+  }
+
+  // ===== 내부 =====
+  private evaluateSample(rule: SensorAlarmRule, value: number, time: number): void {
+    const state = this.getState(rule.id);
+    const record = this.findRecord(rule.id);
+    const current = record?.active ? (record.alarmType as SensorAlarmSeverity) : null;
+
+    switch (rule.kind) {
+      case 'threshold':
+        this.apply(rule, evaluateThreshold(rule, value, current), time);
+        break;
+
+      case 'rate': {
+        // 구간 시작 직전 샘플 하나를 남겨 구간 전체의 변화량을 계산
+        const window = rule.rateWindow || DEFAULT_RATE_WINDOW;
+        state.samples.push({ timestamp: time, value });
+        while (state.samples.length > 2 && state.samples[1].timestamp <= time - window) state.samples.shift();
+        this.apply(rule, evaluateRate(rule, state.samples, current), time);
+        break;
+      }
+
+      case 'stale':
+        state.lastReceivedAt = Date.now();
+        this.apply(rule, null, state.lastReceivedAt);
+        break;
+    }
+  }
+
+  /**
+   * 지연 적용 - 조건이 onDelay 동안 유지되면 발생, 정상이 offDelay 동안 유지되면 해제
+   */
+  private apply(rule: SensorAlarmRule, condition: AlarmCondition | null, time: number): void {
+    const state = this.getState(rule.id);
+    const record = this.findRecord(rule.id);
+
+    if (condition) {
+      state.clearSince = null;
+      if (record?.active) {
+        this.updateSeverity(rule, record, condition);
+        return;
+      }
+      if (state.pendingSince === null) state.pendingSince = time;
+      if (time - state.pendingSince >= rule.onDelay) {
+        state.pendingSince = null;
+        this.raise(rule, condition, time, record);
+      }
+      return;
+    }
+
+    state.pendingSince = null;
+    if (!record?.active) return;
+    if (state.clearSince === null) state.clearSince = time;
+    if (time - state.clearSince >= rule.offDelay) {
+      state.clearSince = null;
+      this.clear(record, time);
+    }
+  }
+
+  private raise(rule: SensorAlarmRule, condition: AlarmCondition, time: number, latched?: SensorAlarmRecord): void {
+    const fields = {
+      alarmType: condition.severity,
+      message: describe(rule, condition),
+      value: condition.value,
+      threshold: condition.limit,
+      timestamp: new Date(time).toISOString(),
+      acknowledged: false,
+      acknowledgedAt: null,
+      active: true,
+      clearedAt: null
+    };
+
+    let record: SensorAlarmRecord;
+    if (latched) {
+      // 확인 대기 중인 래치 알람이 재발생하면 같은 알람으로 유지
+      record = Object.assign(latched, fields);
+    } else {
+      record = {
+        id: `alarm_${Date.now()}_${randomId(4)}`,
+        ruleId: rule.id,
+        kind: rule.kind,
+        sensorId: rule.sensorId,
+        sensorName: rule.sensorName,
+        autoReset: rule.autoReset,
+        ...fields
+      };
+      this.active.unshift(record);
+    }
+
+    console.warn(`🚨 센서 알람 발생: ${record.message}`);
+    this.emitAlarm(record);
+    this.notify();
+  }
+
+  private updateSeverity(rule: SensorAlarmRule, record: SensorAlarmRecord, condition: AlarmCondition): void {
+    if (record.alarmType === condition.severity) return;
+
+    const escalated = condition.severity === 'critical';
+    record.alarmType = condition.severity;
+    record.message = describe(rule, condition);
+    record.value = condition.value;
+    record.threshold = condition.limit;
+    if (escalated) {
+      // 심각도 상승은 다시 확인 필요
+      record.acknowledged = false;
+      record.acknowledgedAt = null;
+      console.warn(`🚨 센서 알람 심각도 상승: ${record.message}`);
+      this.emitAlarm(record);
+    }
+    this.notify();
+  }
+
+  private clear(record: SensorAlarmRecord, time: number): void {
+    record.active = false;
+    record.clearedAt = new Date(time).toISOString();
+    console.log(`✅ 센서 알람 해제: ${record.message}`);
+    // 자동 해제 알람 또는 이미 확인한 알람만 이력으로 이동 (나머지는 확인 대기)
+    if (record.autoReset || record.acknowledged) this.archive(record);
+    this.notify();
+  }
+
+  private archive(record: SensorAlarmRecord): void {
+    this.active = this.active.filter(alarm => alarm !== record);
+    this.history = [record, ...this.history].slice(0, MAX_HISTORY);
+    storage.set(HISTORY_STORAGE_KEY, this.history);
+  }
+
+  private findRecord(ruleId: string): SensorAlarmRecord | undefined {
+    return this.active.find(alarm => alarm.ruleId === ruleId);
+  }
+
+  private getState(ruleId: string): RuleState {
+    let state = this.states.get(ruleId);
+    if (!state) {
+      state = { pendingSince: null, clearSince: null, samples: [], lastReceivedAt: null };
+      this.states.set(ruleId, state);
+    }
+    return state;
+  }
+
+  private ensureStaleTimer(): void {
+    if (this.staleTimer) return;
+    this.staleTimer = setInterval(() => this.checkStale(), STALE_CHECK_INTERVAL);
+  }
+
+  private emitAlarm(alarm: SensorAlarmRecord): void {
+    this.alarmListeners.forEach(listener => {
+      try {
+        listener(alarm);
+      } catch (error) {
+        console.error('❌ 센서 알람 리스너 오류:', error);
+      }
+    });
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('❌ 센서 알람 리스너 오류:', error);
+      }
+    });
+  }
+}
+
+export const sensorAlarmService = new SensorAlarmService();
+
+export default SensorAlarmService;
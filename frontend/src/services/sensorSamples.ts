@@ -0,0 +1,62 @@
+/**
+ * 센서 샘플 추출 - 수신 MQTT 메시지를 센서 ID/값/시각으로 변환
+ * 무게: 공식 필터(scale/<filter>) 우선, 없으면 weight 채널 / 농도: concentrationCurrent 채널
+ * sensorAlarmService, timeSeriesStore 가 같은 기준으로 센서 값을 판정/저장
+ * 히스토리 전용 시리즈: 저울 필터별 scale/<filter> (g), 조인트별 joint/<name> (deg)
+ */
+import { MqttMessage } from '../types/mqttTypes';
+import { scaleFilterService } from './scaleFilterService';
+import { topicRegistry } from './topicRegistry';
+import DataProcessorService from './dataProcessor';
+
+export interface SensorSample {
+  sensorId: string;
+  value: number;
+  timestamp: number;  // ms epoch (페이로드 timestamp 우선)
+}
+
+const RAD_TO_DEG = 180 / Math.PI;
+
+const messageTime = (message: MqttMessage): number => {
+  const parsed = Date.parse(message.data?.timestamp || message.timestamp);
+  return isNaN(parsed) ? Date.now() : parsed;
+};
+
+export const extractSensorSample = (message: MqttMessage, processor: DataProcessorService): SensorSample | null => {
+  const timestamp = messageTime(message);
+
+  const official = scaleFilterService.createWeightMessage(message);
+  if (official) return { sensorId: 'weight', value: official.weight, timestamp };
+
+  const weight = topicRegistry.parse('weight', message, processor);
+  if (weight) return { sensorId: 'weight', value: weight.weight, timestamp };
+
+  const concentration = topicRegistry.parse('concentrationCurrent', message, processor);
+  if (concentration) return { sensorId: 'concentration', value: concentration.concentration, timestamp };
+
+  return null;
+};
+
+/**
+ * 히스토리 저장용 전체 시리즈 - 대표 센서 값 + 저울 필터 채널 + 조인트 위치
+ */
+export const extractSeriesSamples = (message: MqttMessage, processor: DataProcessorService): SensorSample[] => {
+  const timestamp = messageTime(message);
+  const samples: SensorSample[] = [];
+
+  const sample = extractSensorSample(message, processor);
+  if (sample) samples.push(sample);
+
+  const reading = topicRegistry.parse('scaleFilters', message, processor);
+  if (reading) samples.push({ sensorId: `scale/${reading.filter}`, value: reading.weight, timestamp });
+
+  const joints = topicRegistry.parse('jointStates', message, processor);
+  if (joints) {
+    joints.position.forEach((position, index) => {
+      const name = joints.name[index] || `joint_${index + 1}`;
+      samples.push({ sensorId: `joint/${name}`, value: position * RAD_TO_DEG, timestamp });
+    });
+  }
+
+  return samples;
+};
@@ -0,0 +1,293 @@
+/**
+ * 설정 서비스 - 설정 스키마 검증/저장/즉시 적용
+ * 저장된 설정은 시작 시 updateConfig 로 적용되고, 변경 리스너(MqttContext/WebSocketContext 등)가
+ * 브로커/WebSocket 주소 변경을 감지해 새로고침 없이 재연결한다.
+ */
+import config, { getConfigErrors, updateConfig } from '../config';
+import { AppConfig } from '../types/robotTypes';
+import { AppSettings, RobotMotionDefaults, SafetyInteractionPreferences } from '../types/settingsTypes';
+import { storage } from '../utils';
+import { DEFAULT_SAFETY_INTERACTION, getSafetyInteractionErrors } from '../utils/safetyInteraction';
+import { authService } from './authService';
+import { auditService } from './auditService';
+
+const SETTINGS_STORAGE_KEY = 'app_settings';
+
+const DEFAULT_ROBOT_MOTION: RobotMotionDefaults = {
+  jointSpeed: 50,
+  jointAcceleration: 50,
+  linearSpeed: 50,
+  linearAcceleration: 50,
+  homeSpeed: 30
+};
+
+/**
+ * 현재 config 값으로 설정 스키마 구성 (기본값 = 빌드 환경 값)
+ */
+const fromConfig = (source: AppConfig): AppSettings => ({
+  version: 1,
+  config: {
+    API_BASE_URL: source.API_BASE_URL,
+    WS_URL: source.WS_URL,
+    ROBOT_IP: source.ROBOT_IP,
+    ROBOT_PORT: source.ROBOT_PORT,
+    UPDATE_INTERVALS: { ...source.UPDATE_INTERVALS },
+    CHART: { ...source.CHART },
+    THRESHOLDS: { ...source.THRESHOLDS },
+    MQTT: {
+      brokerUrl: source.MQTT.brokerUrl,
+      keepalive: source.MQTT.keepalive
+    },
+    websocket: {
+      maxReconnectAttempts: source.websocket.maxReconnectAttempts,
+      reconnectDelay: source.websocket.reconnectDelay
+    }
+  },
+  robot: { ...DEFAULT_ROBOT_MOTION },
+  notifications: { toastDuration: 4000, alarmToasts: 'all' },
+  security: { requireSecureConnections: false },
+  safety: { ...DEFAULT_SAFETY_INTERACTION, modes: { ...DEFAULT_SAFETY_INTERACTION.modes } }
+});
+
+/**
+ * 설정을 적용했을 때의 전체 AppConfig (WS_URL/websocket.url, 브로커 주소 중복 필드 동기화)
+ */
+const toAppConfig = (settings: AppSettings, base: AppConfig): AppConfig => ({
+  ...base,
+  API_BASE_URL: settings.config.API_BASE_URL,
+  WS_URL: settings.config.WS_URL,
+  MQTT_BROKER_URL: settings.config.MQTT.brokerUrl,
+  ROBOT_IP: settings.config.ROBOT_IP,
+  ROBOT_PORT: settings.config.ROBOT_PORT,
+  UPDATE_INTERVALS: { ...settings.config.UPDATE_INTERVALS },
+  CHART: { ...settings.config.CHART },
+  THRESHOLDS: { ...settings.config.THRESHOLDS },
+  MQTT: { ...base.MQTT, ...settings.config.MQTT },
+  websocket: { ...base.websocket, ...settings.config.websocket, url: settings.config.WS_URL }
+});
+
+// 저장값에 새로 추가된 항목이 없을 수 있으므로 기본값 위에 섹션별로 병합
+const mergeSettings = (defaults: AppSettings, stored: any): AppSettings => ({
+  version: 1,
+  config: {
+    ...defaults.config,
+    ...stored?.config,
+    UPDATE_INTERVALS: { ...defaults.config.UPDATE_INTERVALS, ...stored?.config?.UPDATE_INTERVALS },
+    CHART: { ...defaults.config.CHART, ...stored?.config?.CHART },
+    THRESHOLDS: { ...defaults.config.THRESHOLDS, ...stored?.config?.THRESHOLDS },
+    MQTT: { ...defaults.config.MQTT, ...stored?.config?.MQTT },
+    websocket: { ...defaults.config.websocket, ...stored?.config?.websocket }
+  },
+  robot: { ...defaults.robot, ...stored?.robot },
+  notifications: { ...defaults.notifications, ...stored?.notifications },
+  security: { ...defaults.security, ...stored?.security },
+  safety: {
+    ...defaults.safety,
+    ...stored?.safety,
+    modes: { ...defaults.safety.modes, ...stored?.safety?.modes }
+  }
+});
+
+const isSecureUrl = (url: string): boolean => /^(wss|https):\/\//i.test(url);
+
+class SettingsService {
+  private defaults: AppSettings;
+  private settings: AppSettings;
+  private listeners: Array<(settings: AppSettings) => void> = [];
+
+  constructor() {
+    this.defaults = fromConfig(config);
+    this.settings = this.defaults;
+
+    const stored = storage.get<AppSettings>(SETTINGS_STORAGE_KEY);
+    if (stored) {
+      const merged = mergeSettings(this.defaults, stored);
+      const errors = this.validate(merged);
+      if (errors.length > 0) {
+        console.warn('⚠️ 저장된 설정이 유효하지 않아 기본값을 사용합니다:', errors);
+      } else {
+        this.settings = merged;
+        this.apply();
+      }
+    }
+  }
+
+  // ===== 조회 =====
+  getSettings(): AppSettings {
+    return mergeSettings(this.settings, {});
+  }
+
+  getDefaults(): AppSettings {
+    return mergeSettings(this.defaults, {});
+  }
+
+  getRobotDefaults(): RobotMotionDefaults {
+    return { ...this.settings.robot };
+  }
+
+  getSafetyInteraction(): SafetyInteractionPreferences {
+    return { ...this.settings.safety, modes: { ...this.settings.safety.modes } };
+  }
+
+  // ===== 검증 =====
+
+  /**
+   * 설정 검증 - config.ts validateConfig 규칙 + 설정 페이지 전용 규칙
+   */
+  validate(settings: AppSettings): string[] {
+    const errors: string[] = [];
+    const { config: values, robot, notifications, security } = settings;
+
+    // 숫자 필드는 모두 유한한 값이어야 함 (빈 입력 → NaN)
+    const numbers: Array<[string, number]> = [
+      ['ROBOT_PORT', values.ROBOT_PORT],
+      ...Object.entries(values.UPDATE_INTERVALS).map(([key, value]): [string, number] => [`UPDATE_INTERVALS.${key}`, value]),
+      ...Object.entries(values.CHART).map(([key, value]): [string, number] => [`CHART.${key}`, value]),
+      ...Object.entries(values.THRESHOLDS).map(([key, value]): [string, number] => [`THRESHOLDS.${key}`, value]),
+      ['MQTT.keepalive', values.MQTT.keepalive],
+      ['websocket.maxReconnectAttempts', values.websocket.maxReconnectAttempts],
+      ['websocket.reconnectDelay', values.websocket.reconnectDelay],
+      ['notifications.toastDuration', notifications.toastDuration]
+    ];
+    numbers.forEach(([key, value]) => {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push(`${key}: 숫자를 입력하세요`);
+      }
+    });
+
+    errors.push(...getConfigErrors(toAppConfig(settings, config)));
+
+    if (!Number.isInteger(values.ROBOT_PORT)) {
+      errors.push('ROBOT_PORT: 정수여야 합니다');
+    }
+    if (!/^wss?:\/\//i.test(values.MQTT.brokerUrl)) {
+      errors.push('MQTT 브로커 주소는 ws:// 또는 wss:// 로 시작해야 합니다');
+    }
+    if (!values.ROBOT_IP.trim()) {
+      errors.push('로봇 IP 를 입력하세요');
+    }
+    (Object.entries(robot) as Array<[keyof RobotMotionDefaults, number]>).forEach(([key, value]) => {
+      if (!Number.isFinite(value) || value < 1 || value > 100) {
+        errors.push(`로봇 기본값 ${key}: 1~100% 범위여야 합니다`);
+      }
+    });
+    if (notifications.toastDuration < 1000 || notifications.toastDuration > 30000) {
+      errors.push('알림 표시 시간은 1~30초 범위여야 합니다');
+    }
+    if (security.requireSecureConnections) {
+      [values.API_BASE_URL, values.WS_URL, values.MQTT.brokerUrl]
+        .filter(url => !isSecureUrl(url))
+        .forEach(url => errors.push(`보안 연결 필수: ${url} 은 https:// 또는 wss:// 주소여야 합니다`));
+    }
+    errors.push(...getSafetyInteractionErrors(settings.safety));
+
+    return errors;
+  }
+
+  // ===== 저장/적용 =====
+
+  /**
+   * 검증 후 저장하고 즉시 적용 - 오류가 있으면 Error 로 던짐
+   */
+  save(settings: AppSettings): void {
+    // 변경된 설정 섹션 (감사 로그)
+    const sections = (Object.keys(settings) as Array<keyof AppSettings>)
+      .filter(section => JSON.stringify(settings[section]) !== JSON.stringify(this.settings[section]));
+    // 안전 상호작용 방식을 바꾸는 것도 보안 설정으로 취급
+    const securityChanged = settings.security.requireSecureConnections !== this.settings.security.requireSecureConnections
+      || sections.includes('safety');
+    this.authorize('settings_save', sections, securityChanged);
+
+    const errors = this.validate(settings);
+    if (errors.length > 0) {
+      auditService.record({
+        category: 'settings',
+        action: 'settings_save',
+        source: 'SettingsService',
+        params: { sections },
+        result: 'failed',
+        message: errors.join('; ')
+      });
+      throw new Error(errors.join('\n'));
+    }
+    this.settings = mergeSettings(settings, {});
+    storage.set(SETTINGS_STORAGE_KEY, this.settings);
+    this.apply();
+    auditService.record({ category: 'settings', action: 'settings_save', source: 'SettingsService', params: { sections } });
+    console.log('⚙️ 설정 저장 및 적용 완료');
+  }
+
+  /**
+   * 기본값(빌드 환경 값)으로 초기화
+   */
+  reset(): void {
+    this.authorize('settings_reset', [], this.settings.security.requireSecureConnections);
+
+    storage.remove(SETTINGS_STORAGE_KEY);
+    this.settings = this.getDefaults();
+    this.apply();
+    auditService.record({ category: 'settings', action: 'settings_reset', source: 'SettingsService' });
+    console.log('⚙️ 설정 초기화');
+  }
+
+  // ===== 리스너 =====
+  onChange(listener: (settings: AppSettings) => void): void {
+    this.listeners.push(listener);
+  }
+
+  offChange(listener: (settings: AppSettings) => void): void {
+    this.listeners = this.listeners.filter(existing => existing !== listener);
+  }
+
+  // ===== 내부 =====
+  /**
+   * 설정 변경 권한 확인 (보안/안전 상호작용 설정이 바뀌면 manage_security 도 필요) - 거부되면 감사 로그에 기록
+   */
+  private authorize(action: string, sections: string[], securityChanged: boolean): void {
+    try {
+      authService.assertPermission('change_settings');
+      if (securityChanged) {
+        authService.assertPermission('manage_security');
+      }
+    } catch (error) {
+      auditService.record({
+        category: 'settings',
+        action,
+        source: 'SettingsService',
+        params: sections.length > 0 ? { sections } : undefined,
+        result: 'denied',
+        message: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  private apply(): void {
+    const next = toAppConfig(this.settings, config);
+    updateConfig({
+      API_BASE_URL: next.API_BASE_URL,
+      WS_URL: next.WS_URL,
+      MQTT_BROKER_URL: next.MQTT_BROKER_URL,
+      ROBOT_IP: next.ROBOT_IP,
+      ROBOT_PORT: next.ROBOT_PORT,
+      UPDATE_INTERVALS: next.UPDATE_INTERVALS,
+      CHART: next.CHART,
+      THRESHOLDS: next.THRESHOLDS,
+      MQTT: next.MQTT,
+      websocket: next.websocket
+    });
+
+    const settings = this.getSettings();
+    this.listeners.forEach(listener => {
+      try {
+        listener(settings);
+      } catch (error) {
+        console.error('❌ 설정 리스너 오류:', error);
+      }
+    });
+  }
+}
+
+export const settingsService = new SettingsService();
+
+export default SettingsService;
@@ -0,0 +1,362 @@
+/**
+ * 센서 히스토리 저장소 (IndexedDB)
+ * 수신 센서 값을 1s/1m/1h 롤업(min/max/avg)으로 누적해 브라우저에 보관하고 시간 범위로 조회한다.
+ * 보관 기간은 센서별 dataLogging.retention (일), 1s 롤업은 최대 24시간만 유지한다.
+ * IndexedDB 를 쓸 수 없는 환경에서는 메모리에만 보관한다.
+ */
+import { MqttMessage } from '../types/mqttTypes';
+import {
+  SensorConfig,
+  TimeSeriesBucket,
+  TimeSeriesQueryResult,
+  TimeSeriesResolution
+} from '../types/sensorTypes';
+import { DEFAULT_SENSOR_DATA_LOGGING } from '../config';
+import { storage } from '../utils';
+import {
+  RESOLUTION_MS,
+  TIME_SERIES_RESOLUTIONS,
+  addSample,
+  bucketStart,
+  mergeBucket,
+  selectResolution,
+  toPoint
+} from '../utils/timeSeries';
+import { extractSeriesSamples } from './sensorSamples';
+import DataProcessorService from './dataProcessor';
+
+type DataLoggingConfig = SensorConfig['dataLogging'];
+
+const DB_NAME = 'robot_dashboard_timeseries';
+const DB_VERSION = 1;
+const STORE_NAME = 'rollups';
+const LOGGING_STORAGE_KEY = 'sensor_data_logging';
+const FLUSH_INTERVAL = 5000;                  // ms - 메모리 버킷을 IndexedDB 에 기록하는 주기
+const PRUNE_INTERVAL = 60 * 60 * 1000;        // ms - 보관 기간 지난 버킷 정리 주기
+const MAX_FINE_RETENTION = 24 * 60 * 60 * 1000; // ms - 1s 롤업 최대 보관
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_MAX_POINTS = 1500;
+
+// 메모리 버킷 - merged: 같은 구간의 저장된 값을 이미 합쳤는지 (새로고침 이전 기록 보존)
+interface MemoryBucket extends TimeSeriesBucket {
+  dirty: boolean;
+  merged: boolean;
+}
+
+const bucketKey = (sensorId: string, resolution: TimeSeriesResolution, timestamp: number): string =>
+  `${sensorId}|${resolution}|${timestamp}`;
+
+const toRecord = ({ sensorId, resolution, timestamp, min, max, sum, count }: MemoryBucket): TimeSeriesBucket =>
+  ({ sensorId, resolution, timestamp, min, max, sum, count });
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+class TimeSeriesStore {
+  private loggingConfigs: Record<string, DataLoggingConfig>;
+  private buckets = new Map<string, MemoryBucket>();
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private persistent = true;
+  private processor = new DataProcessorService();
+  private lastMessage: MqttMessage | null = null;
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private pruneTimer: ReturnType<typeof setInterval> | null = null;
+  private flushing = false;
+
+  constructor() {
+    this.loggingConfigs = {
+      ...DEFAULT_SENSOR_DATA_LOGGING,
+      ...(storage.get<Record<string, DataLoggingConfig>>(LOGGING_STORAGE_KEY) || {})
+    };
+  }
+
+  // ===== 설정 =====
+  getLoggingConfig(sensorId: string): DataLoggingConfig | undefined {
+    return this.loggingConfigs[sensorId];
+  }
+
+  getLoggingConfigs(): Record<string, DataLoggingConfig> {
+    return { ...this.loggingConfigs };
+  }
+
+  updateLoggingConfig(sensorId: string, patch: Partial<DataLoggingConfig>): void {
+    const current = this.loggingConfigs[sensorId] || DEFAULT_SENSOR_DATA_LOGGING[sensorId];
+    if (!current) {
+      throw new Error(`알 수 없는 센서: ${sensorId}`);
+    }
+    this.loggingConfigs = { ...this.loggingConfigs, [sensorId]: { ...current, ...patch } };
+    storage.set(LOGGING_STORAGE_KEY, this.loggingConfigs);
+    // 보관 기간이 줄었으면 바로 정리
+    this.prune();
+  }
+
+  // ===== 기록 =====
+  /**
+   * MQTT 메시지 입력 - MqttContext 에서 모든 수신 메시지를 전달
+   */
+  handleMessage(message: MqttMessage): void {
+    // 와일드카드/토픽 핸들러 중복 전달 무시
+    if (message === this.lastMessage) return;
+    this.lastMessage = message;
+
+    extractSeriesSamples(message, this.processor)
+      .forEach(sample => this.record(sample.sensorId, sample.value, sample.timestamp));
+  }
+
+  /**
+   * 샘플 하나를 모든 해상도 버킷에 누적 (저장은 FLUSH_INTERVAL 마다)
+   */
+  record(sensorId: string, value: number, timestamp = Date.now()): void {
+    const config = this.loggingConfigs[sensorId];
+    if (!config?.enabled || !isFinite(value)) return;
+    this.ensureTimers();
+
+    TIME_SERIES_RESOLUTIONS.forEach(resolution => {
+      const start = bucketStart(timestamp, resolution);
+      const key = bucketKey(sensorId, resolution, start);
+      const bucket = this.buckets.get(key);
+      if (bucket) {
+        addSample(bucket, value);
+        bucket.dirty = true;
+        return;
+      }
+      this.buckets.set(key, {
+        sensorId,
+        resolution,
+        timestamp: start,
+        min: value,
+        max: value,
+        sum: value,
+        count: 1,
+        dirty: true,
+        merged: false
+      });
+    });
+  }
+
+  // ===== 조회 =====
+  /**
+   * 시간 범위 조회 - maxPoints 이하가 되는 가장 세밀한 롤업으로 반환 (아직 저장 전인 값 포함)
+   */
+  async query(
+    sensorId: string,
+    from: number,
+    to: number = Date.now(),
+    maxPoints: number = DEFAULT_MAX_POINTS
+  ): Promise<TimeSeriesQueryResult> {
+    return this.queryResolution(sensorId, selectResolution(to - from, maxPoints), from, to);
+  }
+
+  /**
+   * 지정 해상도로 시간 범위 조회 (내보내기 리샘플링용)
+   */
+  async queryResolution(
+    sensorId: string,
+    resolution: TimeSeriesResolution,
+    from: number,
+    to: number = Date.now()
+  ): Promise<TimeSeriesQueryResult> {
+    const start = bucketStart(from, resolution);
+    const merged = new Map<number, TimeSeriesBucket>();
+
+    const stored = await this.readRange(sensorId, resolution, start, to);
+    stored.forEach(bucket => merged.set(bucket.timestamp, { ...bucket }));
+
+    this.buckets.forEach(bucket => {
+      if (bucket.sensorId !== sensorId || bucket.resolution !== resolution) return;
+      if (bucket.timestamp < start || bucket.timestamp > to) return;
+      const existing = merged.get(bucket.timestamp);
+      if (existing && !bucket.merged) {
+        mergeBucket(existing, bucket);
+      } else {
+        merged.set(bucket.timestamp, toRecord(bucket));
+      }
+    });
+
+    const points = Array.from(merged.values())
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map(toPoint);
+    return { sensorId, from, to, resolution, points };
+  }
+
+  /**
+   * 해상도별 보관 기간 (ms) - 설정이 없는 센서는 0
+   */
+  getRetention(sensorId: string, resolution: TimeSeriesResolution): number {
+    const config = this.loggingConfigs[sensorId];
+    return config ? this.retentionOf(config, resolution) : 0;
+  }
+
+  // ===== 저장 / 정리 =====
+  /**
+   * 변경된 버킷을 IndexedDB 에 기록 - 처음 기록하는 구간은 저장된 값과 합친 뒤 덮어씀
+   */
+  async flush(): Promise<void> {
+    if (this.flushing) return;
+    const dirty = Array.from(this.buckets.values()).filter(bucket => bucket.dirty);
+    if (dirty.length === 0) return;
+
+    const db = await this.openDatabase();
+    if (!db) {
+      dirty.forEach(bucket => { bucket.dirty = false; });
+      return;
+    }
+
+    this.flushing = true;
+    try {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      dirty.forEach(bucket => {
+        bucket.dirty = false;
+        if (bucket.merged) {
+          store.put(toRecord(bucket));
+          return;
+        }
+        const request = store.get([bucket.sensorId, bucket.resolution, bucket.timestamp]);
+        request.onsuccess = () => {
+          const existing = request.result as TimeSeriesBucket | undefined;
+          if (existing) mergeBucket(bucket, existing);
+          bucket.merged = true;
+          store.put(toRecord(bucket));
+        };
+      });
+      await transactionDone(transaction);
+      this.evictClosed(Date.now());
+    } catch (error) {
+      console.error('❌ 센서 히스토리 저장 실패:', error);
+      dirty.forEach(bucket => { bucket.dirty = true; });
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  /**
+   * 보관 기간이 지난 롤업 삭제
+   */
+  async prune(now = Date.now()): Promise<void> {
+    const cutoffs = Object.entries(this.loggingConfigs).flatMap(([sensorId, config]) =>
+      TIME_SERIES_RESOLUTIONS.map(resolution => ({ sensorId, resolution, cutoff: now - this.retentionOf(config, resolution) }))
+    );
+
+    this.buckets.forEach((bucket, key) => {
+      const limit = cutoffs.find(item => item.sensorId === bucket.sensorId && item.resolution === bucket.resolution);
+      if (limit && bucket.timestamp < limit.cutoff) this.buckets.delete(key);
+    });
+
+    const db = await this.openDatabase();
+    if (!db) return;
+    try {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      cutoffs.forEach(({ sensorId, resolution, cutoff }) => {
+        store.delete(IDBKeyRange.bound([sensorId, resolution, 0], [sensorId, resolution, cutoff], false, true));
+      });
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error('❌ 센서 히스토리 정리 실패:', error);
+    }
+  }
+
+  /**
+   * 저장된 히스토리 전체 삭제
+   */
+  async clear(): Promise<void> {
+    this.buckets.clear();
+    const db = await this.openDatabase();
+    if (!db) return;
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).clear();
+    await transactionDone(transaction);
+    console.log('🗑️ 센서 히스토리 삭제 완료');
+  }
+
+  isPersistent(): boolean {
+    return this.persistent;
+  }
+
+  // ===== 내부 =====
+  private retentionOf(config: DataLoggingConfig, resolution: TimeSeriesResolution): number {
+    const retention = config.retention * DAY_MS;
+    return resolution === '1s' ? Math.min(retention, MAX_FINE_RETENTION) : retention;
+  }
+
+  private async readRange(
+    sensorId: string,
+    resolution: TimeSeriesResolution,
+    from: number,
+    to: number
+  ): Promise<TimeSeriesBucket[]> {
+    const db = await this.openDatabase();
+    if (!db) return [];
+    try {
+      const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+      const range = IDBKeyRange.bound([sensorId, resolution, from], [sensorId, resolution, to]);
+      return await requestResult(store.getAll(range) as IDBRequest<TimeSeriesBucket[]>);
+    } catch (error) {
+      console.error('❌ 센서 히스토리 조회 실패:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 저장이 끝나고 구간도 끝난 버킷은 메모리에서 제거 (메모리 전용 모드에서는 유지)
+   */
+  private evictClosed(now: number): void {
+    this.buckets.forEach((bucket, key) => {
+      if (!bucket.dirty && bucket.timestamp + RESOLUTION_MS[bucket.resolution] <= now) {
+        this.buckets.delete(key);
+      }
+    });
+  }
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          console.warn('⚠️ IndexedDB 를 사용할 수 없어 센서 히스토리를 메모리에만 보관합니다');
+          this.persistent = false;
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: ['sensorId', 'resolution', 'timestamp'] });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.error('❌ 센서 히스토리 DB 열기 실패:', request.error);
+          this.persistent = false;
+          resolve(null);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private ensureTimers(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setInterval(() => this.flush(), FLUSH_INTERVAL);
+    this.pruneTimer = setInterval(() => this.prune(), PRUNE_INTERVAL);
+    this.prune();
+    // 페이지를 떠날 때 남은 버킷 기록 시도
+    window.addEventListener('pagehide', () => this.flush());
+  }
+}
+
+export const timeSeriesStore = new TimeSeriesStore();
+
+export default TimeSeriesStore;
@@ -0,0 +1,275 @@
+/**
+ * 토픽 레지스트리 - 논리 채널 이름 ↔ MQTT 토픽 매핑
+ * 시작 시 백엔드 /api/debug/topic-mapping 에서 매핑을 받고, 실패하면 번들된 configs/mqtt/topic_mapping.json 을 사용
+ * 토픽 재매핑은 topic_mapping.json 수정만으로 반영된다 (코드에서는 채널 이름만 사용)
+ */
+import { MqttMessage } from '../types/mqttTypes';
+import { ScaleFilterType } from '../types/sensorTypes';
+import {
+  TopicChannel,
+  TopicChannelDefinition,
+  TopicChannelPayloads,
+  TopicMappingConfig,
+  TopicMappingSource
+} from '../types/topicTypes';
+import type DataProcessorService from './dataProcessor';
+import { getApiUrl, isMockDataEnabled, SCALE_FILTER_TYPES } from '../config';
+import bundledMapping from '../../../configs/mqtt/topic_mapping.json';
+
+const LOAD_TIMEOUT = 3000; // ms - 백엔드 미응답 시 번들 매핑으로 시작
+
+type ChannelParser<C extends TopicChannel> = (
+  processor: DataProcessorService,
+  message: MqttMessage
+) => TopicChannelPayloads[C] | null;
+
+type ChannelDefinitions = {
+  [C in TopicChannel]: TopicChannelDefinition & { parse: ChannelParser<C> };
+};
+
+// 채널 → 매핑 위치/QoS 키/DataProcessorService 파서
+const CHANNELS: ChannelDefinitions = {
+  ros2TopicList: {
+    group: 'ros2', key: 'topic_list', qos: 'ros2_topics',
+    description: 'ROS2 토픽 리스트',
+    parse: (processor, message) => processor.processROS2TopicList(message)
+  },
+  ros2NodeList: {
+    group: 'ros2', key: 'node_list', qos: 'ros2_topics',
+    description: 'ROS2 노드 리스트',
+    parse: (processor, message) => processor.processROS2NodeList(message)
+  },
+  ros2ServiceList: {
+    group: 'ros2', key: 'service_list', qos: 'ros2_topics',
+    description: 'ROS2 서비스 리스트',
+    parse: (processor, message) => processor.processROS2ServiceList(message)
+  },
+  jointStates: {
+    group: 'ros2', key: 'joint_states', qos: 'robot_status',
+    description: 'ROS2 조인트 상태',
+    parse: (processor, message) => processor.processJointStates(message)
+  },
+  weight: {
+    group: 'sensors', key: 'weight_arduino', qos: 'sensor_data',
+    description: '아두이노 무게센서',
+    parse: (processor, message) => processor.processWeightSensorData(message)
+  },
+  scaleFilters: {
+    group: 'scale_sensors', key: 'all_filters', qos: 'scale_sensors',
+    description: '저울 필터 채널',
+    parse: (processor, message) => processor.processScaleSensorData(message)
+  },
+  targetConcentration: {
+    group: 'web_dashboard', key: 'target_concentration', qos: 'target_concentration',
+    description: '목표 농도 (웹 대시보드)',
+    parse: (processor, message) => processor.processConcentrationData(message)
+  },
+  concentrationCurrent: {
+    group: 'sensors', key: 'concentration_current', qos: 'sensor_data',
+    description: '현재 농도',
+    parse: (processor, message) => processor.processConcentrationCurrent(message)
+  },
+  scenarioEvents: {
+    group: 'robot_events', key: 'scenario_events', qos: 'robot_events',
+    description: '로봇 시나리오 이벤트 (이벤트 코드)',
+    parse: (processor, message) => processor.processRobotEvent(message)
+  },
+  sugarDispensed: {
+    group: 'robot_events', key: 'sugar_dispensed', qos: 'robot_events',
+    description: '설탕 투입 이벤트',
+    parse: (processor, message) => {
+      const event = processor.processRobotEvent(message);
+      return event?.event === 'sugar_dispensed' ? event : null;
+    }
+  },
+  cupPlaced: {
+    group: 'robot_events', key: 'cup_placed', qos: 'robot_events',
+    description: '컵 배치 이벤트',
+    parse: (processor, message) => {
+      const event = processor.processRobotEvent(message);
+      return event?.event === 'cup_placed' ? event : null;
+    }
+  },
+  pouringAnalysis: {
+    group: 'robot_events', key: 'pouring_analysis', qos: 'robot_events',
+    description: '붓기 분석 결과',
+    parse: (processor, message) => processor.processPouringAnalysis(message)
+  },
+  robotControl: {
+    group: 'robot', key: 'control_commands', qos: 'robot_control',
+    description: '로봇 제어 명령',
+    parse: (processor, message) => processor.processRobotControlData(message)
+  },
+  robotResponse: {
+    group: 'robot', key: 'response', qos: 'robot_status',
+    description: '로봇 명령 응답',
+    parse: (processor, message) => processor.processRobotResponse(message)
+  },
+  robotStatus: {
+    group: 'robot', key: 'status', qos: 'robot_status',
+    description: '로봇 상태',
+    parse: (processor, message) => processor.processRobotStatusData(message)
+  },
+  systemHealth: {
+    group: 'system', key: 'health', qos: 'heartbeat',
+    description: '시스템 상태',
+    parse: (processor, message) => processor.processSystemHealth(message)
+  }
+};
+
+export const TOPIC_CHANNELS = Object.keys(CHANNELS) as TopicChannel[];
+
+// MQTT 토픽 매칭 (+ 단일 레벨, # 다중 레벨 와일드카드)
+export const topicMatches = (pattern: string, topic: string | undefined): boolean => {
+  if (!topic) return false;
+  if (pattern === topic || pattern === '#') return true;
+
+  const patternParts = pattern.split('/');
+  const topicParts = topic.split('/');
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i] === '#') return true;
+    if (i >= topicParts.length) return false;
+    if (patternParts[i] !== '+' && patternParts[i] !== topicParts[i]) return false;
+  }
+  return patternParts.length === topicParts.length;
+};
+
+const isTopicMapping = (value: any): value is TopicMappingConfig =>
+  !!value && typeof value === 'object' && !!value.topics && typeof value.topics === 'object';
+
+class TopicRegistry {
+  private readonly bundled = bundledMapping as TopicMappingConfig;
+  private mapping: TopicMappingConfig = this.bundled;
+  private source: TopicMappingSource = 'bundled';
+
+  /**
+   * 매핑 로드 - 실패해도 예외를 던지지 않고 번들 매핑 유지
+   * 503(MQTT 미연결) 응답에도 mapping 이 포함되므로 상태 코드와 무관하게 본문을 사용
+   */
+  async load(): Promise<TopicMappingSource> {
+    if (isMockDataEnabled()) {
+      console.log('🗺️ 토픽 매핑: 번들 설정 사용 (Mock 모드)');
+      return this.source;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), LOAD_TIMEOUT);
+    try {
+      const response = await fetch(getApiUrl('/api/debug/topic-mapping'), { signal: controller.signal });
+      const body = await response.json();
+      if (!isTopicMapping(body?.mapping)) {
+        throw new Error('응답에 토픽 매핑이 없습니다');
+      }
+      this.mapping = this.merge(body.mapping);
+      this.source = 'backend';
+      console.log('🗺️ 토픽 매핑: 백엔드 설정 로드 완료');
+    } catch (error) {
+      console.warn('⚠️ 토픽 매핑 로드 실패, 번들 설정 사용:', error instanceof Error ? error.message : error);
+    } finally {
+      clearTimeout(timer);
+    }
+    return this.source;
+  }
+
+  // ===== 조회 =====
+  getMapping(): TopicMappingConfig {
+    return this.mapping;
+  }
+
+  getSource(): TopicMappingSource {
+    return this.source;
+  }
+
+  getDefinition(channel: TopicChannel): TopicChannelDefinition {
+    const { group, key, qos, description } = CHANNELS[channel];
+    return { group, key, qos, description };
+  }
+
+  getTopic(channel: TopicChannel): string {
+    const { group, key } = CHANNELS[channel];
+    const topic = this.lookup(group, key);
+    if (!topic) {
+      throw new Error(`토픽 매핑에 채널이 없습니다: ${channel} (topics.${group}.${key})`);
+    }
+    return topic;
+  }
+
+  // 중복 제거된 토픽 목록 (구독용)
+  getTopics(channels: TopicChannel[]): string[] {
+    return [...new Set(channels.map(channel => this.getTopic(channel)))];
+  }
+
+  getQos(channel: TopicChannel): 0 | 1 | 2 {
+    const levels = this.mapping.qos_levels || {};
+    return levels[CHANNELS[channel].qos] ?? levels.default ?? 0;
+  }
+
+  /**
+   * 와일드카드 채널 토픽의 + 레벨을 채워 발행용 토픽 생성 (예: robotControl + 'stop')
+   */
+  resolveTopic(channel: TopicChannel, segment: string): string {
+    return this.getTopic(channel).replace('+', segment);
+  }
+
+  // ===== 토픽 → 채널 =====
+  matches(channel: TopicChannel, topic: string | undefined): boolean {
+    const { group, key } = CHANNELS[channel];
+    const pattern = this.lookup(group, key);
+    return !!pattern && topicMatches(pattern, topic);
+  }
+
+  resolveChannel(topic: string | undefined): TopicChannel | null {
+    return TOPIC_CHANNELS.find(channel => this.matches(channel, topic)) || null;
+  }
+
+  /**
+   * 채널 파서 실행 - 토픽이 채널과 맞지 않으면 null
+   */
+  parse<C extends TopicChannel>(
+    channel: C,
+    message: MqttMessage,
+    processor: DataProcessorService
+  ): TopicChannelPayloads[C] | null {
+    if (!this.matches(channel, message.topic)) return null;
+    return (CHANNELS[channel].parse as ChannelParser<C>)(processor, message);
+  }
+
+  // ===== 저울 필터 / 시나리오 이벤트 =====
+  getScaleFilterTopic(filter: ScaleFilterType): string {
+    return this.lookup('scale_sensors', filter) || this.resolveTopic('scaleFilters', filter);
+  }
+
+  getScaleFilter(topic: string | undefined): ScaleFilterType | null {
+    if (!topic) return null;
+    return SCALE_FILTER_TYPES.find(filter => this.getScaleFilterTopic(filter) === topic) || null;
+  }
+
+  // 시나리오 이벤트 코드 → 이벤트 이름 (event_mapping.robot_scenario_events)
+  getScenarioEventName(code: string | number): string | null {
+    return this.mapping.event_mapping?.robot_scenario_events?.[String(code)] ?? null;
+  }
+
+  // ===== 내부 =====
+  private lookup(group: string, key: string): string | null {
+    const value = this.mapping.topics[group]?.[key] ?? this.bundled.topics[group]?.[key];
+    return typeof value === 'string' ? value : null;
+  }
+
+  // 받은 매핑에 없는 그룹/키는 번들 값으로 보충
+  private merge(loaded: TopicMappingConfig): TopicMappingConfig {
+    const topics = { ...this.bundled.topics };
+    Object.entries(loaded.topics).forEach(([group, entries]) => {
+      topics[group] = { ...topics[group], ...entries };
+    });
+    return {
+      ...this.bundled,
+      ...loaded,
+      topics,
+      qos_levels: { ...this.bundled.qos_levels, ...loaded.qos_levels }
+    };
+  }
+}
+
+export const topicRegistry = new TopicRegistry();
+
+export default TopicRegistry;
@@ -0,0 +1,199 @@
+/**
+ * 티칭 웨이포인트 서비스 - 웨이포인트 세트 저장/불러오기/내보내기
+ * 세트는 localStorage(storage 헬퍼)에 보관하고, 재생 시 모션 명령 목록으로 변환한다.
+ */
+import {
+  RobotPose,
+  Waypoint,
+  WaypointSet,
+  WaypointSetExport
+} from '../types/robotTypes';
+import { storage, randomId } from '../utils';
+import ROBOT_SPECS from '../utils/robotSpecs';
+
+const WAYPOINT_SETS_STORAGE_KEY = 'teach_waypoint_sets';
+const ACTIVE_SET_STORAGE_KEY = 'teach_active_waypoint_set';
+
+export const WAYPOINT_DEFAULTS: Pick<Waypoint, 'moveType' | 'speed' | 'acceleration' | 'blendRadius' | 'waitTime'> = {
+  moveType: 'joint',
+  speed: 30,
+  acceleration: 30,
+  blendRadius: 0,
+  waitTime: 0
+};
+
+// 재생용 모션 명령 (motionValidator.validateBatch 입력과 동일한 형태)
+export interface WaypointMotionCommand {
+  type: 'move_joint' | 'move_linear';
+  payload: {
+    positions?: number[];
+    target?: RobotPose;
+    speed: number;
+    acceleration: number;
+    blendRadius: number;
+  };
+}
+
+const isPose = (value: any): value is RobotPose =>
+  value && ['x', 'y', 'z', 'rx', 'ry', 'rz'].every(key => typeof value[key] === 'number');
+
+const isJointArray = (value: any): value is number[] =>
+  Array.isArray(value) && value.length === 6 && value.every((joint: any) => typeof joint === 'number');
+
+class WaypointService {
+  private sets: WaypointSet[];
+
+  constructor() {
+    this.sets = storage.get<WaypointSet[]>(WAYPOINT_SETS_STORAGE_KEY, []) || [];
+  }
+
+  // ===== 세트 관리 =====
+  getSets(): WaypointSet[] {
+    return this.sets.map(set => ({ ...set, waypoints: [...set.waypoints] }));
+  }
+
+  getSet(id: string): WaypointSet | null {
+    const set = this.sets.find(existing => existing.id === id);
+    return set ? { ...set, waypoints: [...set.waypoints] } : null;
+  }
+
+  getActiveSetId(): string | null {
+    return storage.get<string>(ACTIVE_SET_STORAGE_KEY);
+  }
+
+  setActiveSetId(id: string | null): void {
+    if (id) {
+      storage.set(ACTIVE_SET_STORAGE_KEY, id);
+    } else {
+      storage.remove(ACTIVE_SET_STORAGE_KEY);
+    }
+  }
+
+  createSet(name: string): WaypointSet {
+    const now = new Date().toISOString();
+    const set: WaypointSet = {
+      id: `wps_${Date.now()}_${randomId(4)}`,
+      name: name.trim() || `웨이포인트 세트 ${this.sets.length + 1}`,
+      waypoints: [],
+      createdAt: now,
+      updatedAt: now
+    };
+    this.sets = [...this.sets, set];
+    this.persist();
+    console.log(`📍 웨이포인트 세트 생성: ${set.name}`);
+    return set;
+  }
+
+  saveSet(set: WaypointSet): WaypointSet {
+    const saved = { ...set, updatedAt: new Date().toISOString() };
+    const exists = this.sets.some(existing => existing.id === set.id);
+    this.sets = exists
+      ? this.sets.map(existing => (existing.id === set.id ? saved : existing))
+      : [...this.sets, saved];
+    this.persist();
+    return saved;
+  }
+
+  deleteSet(id: string): void {
+    this.sets = this.sets.filter(set => set.id !== id);
+    if (this.getActiveSetId() === id) {
+      this.setActiveSetId(null);
+    }
+    this.persist();
+  }
+
+  // ===== 웨이포인트 =====
+
+  /**
+   * 현재 자세로 웨이포인트 생성 (세트에는 저장하지 않음)
+   */
+  createWaypoint(name: string, joints: number[], pose: RobotPose, index: number): Waypoint {
+    if (!isJointArray(joints)) {
+      throw new Error('웨이포인트 조인트 값은 6개의 숫자여야 합니다');
+    }
+    return {
+      id: `wp_${Date.now()}_${randomId(4)}`,
+      name: name.trim() || `P${index + 1}`,
+      joints: [...joints],
+      pose: { ...pose },
+      ...WAYPOINT_DEFAULTS,
+      createdAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * 재생용 모션 명령 변환 - MoveJ 는 기록 조인트, MoveL 은 기록 TCP 포즈를 목표로 사용
+   */
+  toMotionCommands(waypoints: Waypoint[]): WaypointMotionCommand[] {
+    return waypoints.map(waypoint => {
+      const common = {
+        speed: waypoint.speed,
+        acceleration: waypoint.acceleration,
+        blendRadius: waypoint.blendRadius
+      };
+      return waypoint.moveType === 'linear'
+        ? { type: 'move_linear', payload: { ...common, target: { ...waypoint.pose } } }
+        : { type: 'move_joint', payload: { ...common, positions: [...waypoint.joints] } };
+    });
+  }
+
+  // ===== 내보내기/가져오기 =====
+  exportSet(id: string): string {
+    const set = this.getSet(id);
+    if (!set) {
+      throw new Error(`웨이포인트 세트를 찾을 수 없습니다: ${id}`);
+    }
+    const data: WaypointSetExport = {
+      format: 'waypoint_set',
+      version: 1,
+      robotModel: ROBOT_SPECS.robot_model,
+      exportedAt: new Date().toISOString(),
+      set
+    };
+    return JSON.stringify(data, null, 2);
+  }
+
+  /**
+   * JSON 가져오기 - 충돌 방지를 위해 새 ID 부여
+   */
+  importSet(json: string): WaypointSet {
+    let data: any;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('웨이포인트 파일이 올바른 JSON 이 아닙니다');
+    }
+
+    if (data?.format !== 'waypoint_set' || !data.set || !Array.isArray(data.set.waypoints)) {
+      throw new Error('웨이포인트 세트 형식이 아닙니다');
+    }
+    if (data.version !== 1) {
+      throw new Error(`지원하지 않는 웨이포인트 파일 버전: ${data.version}`);
+    }
+
+    const waypoints: Waypoint[] = data.set.waypoints.map((waypoint: any, index: number) => {
+      if (!isJointArray(waypoint?.joints) || !isPose(waypoint?.pose)) {
+        throw new Error(`웨이포인트 #${index + 1} 의 조인트/포즈 값이 올바르지 않습니다`);
+      }
+      return {
+        ...WAYPOINT_DEFAULTS,
+        ...waypoint,
+        id: `wp_${Date.now()}_${randomId(4)}`,
+        name: String(waypoint.name || `P${index + 1}`),
+        moveType: waypoint.moveType === 'linear' ? 'linear' : 'joint',
+        createdAt: waypoint.createdAt || new Date().toISOString()
+      };
+    });
+
+    const imported = this.createSet(String(data.set.name || '가져온 세트'));
+    return this.saveSet({ ...imported, waypoints });
+  }
+
+  private persist(): void {
+    storage.set(WAYPOINT_SETS_STORAGE_KEY, this.sets);
+  }
+}
+
+export const waypointService = new WaypointService();
+
+export default WaypointService;
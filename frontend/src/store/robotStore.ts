@@ -12,13 +12,26 @@ import {
   RobotStatus,
   RobotMode,
   RobotStore,
+  RobotCommandInput,
+  RobotResponsePayload,
   DEFAULT_ROBOT_STATE,
-  JointMoveCommand,
-  LinearMoveCommand,
   ConnectionStatus,
   Timestamp
 } from '../types/robotTypes';
 import CommandSenderService from '../services/commandSender';
+import CommandQueueService from '../services/commandQueue';
+import { settingsService } from '../services/settingsService';
+
+// 서비스 초기화
+const commandService = new CommandSenderService(undefined, 'RobotStore');
+const commandQueueService = new CommandQueueService(commandService);
+
+// 큐에 추가하고 종료 상태까지 대기
+const runQueuedCommand = async (command: RobotCommandInput): Promise<boolean> => {
+  const id = commandQueueService.enqueue(command);
+  const finished = await commandQueueService.waitFor(id);
+  return finished.state === 'done';
+};
 
 export const useRobotStore = create<RobotStore>()(
   devtools(
@@ -32,8 +45,9 @@ export const useRobotStore = create<RobotStore>()(
       isCommandInProgress: false,
       selectedJoint: null,
       
-      // 서비스 초기화
-      commandService: new CommandSenderService(),
+      // 서비스 인스턴스
+      commandService,
+      commandQueueService,
       
       // 상태 업데이트 메서드
       updateRobotState: (newState: Partial<RobotState>) => {
@@ -140,9 +154,14 @@ export const useRobotStore = create<RobotStore>()(
         }), false, 'setRobotMode');
       },
 
-      // 명령 전송 메서드들
-      sendJointMoveCommand: async (positions: number[], speed = 50, acceleration = 50): Promise<boolean> => {
-        const { commandService, addCommandResult, canSendCommand } = get();
+      // 명령 전송 메서드들 (명령 큐를 통해 전송하고 robot/response 로 완료 추적)
+      sendJointMoveCommand: async (
+        positions: number[],
+        speed = settingsService.getRobotDefaults().jointSpeed,
+        acceleration = settingsService.getRobotDefaults().jointAcceleration,
+        source?: string
+      ): Promise<boolean> => {
+        const { addCommandResult, canSendCommand } = get();
         
         if (!canSendCommand()) {
           console.warn('⚠️ Cannot send joint move command: Robot not ready');
@@ -150,7 +169,8 @@ export const useRobotStore = create<RobotStore>()(
             commandId: `joint_move_${Date.now()}`,
             status: 'failed',
             error: 'Robot not ready for commands',
-            timestamp: new Date().toISOString()
+            timestamp: new Date().toISOString(),
+            commandType: 'move_joint'
           });
           return false;
         }
@@ -160,237 +180,128 @@ export const useRobotStore = create<RobotStore>()(
           return false;
         }
 
-        set({ isCommandInProgress: true });
-        
-        try {
-          const result = await commandService.sendJointMoveCommand(positions, speed, acceleration);
-          
-          addCommandResult({
-            commandId: `joint_move_${Date.now()}`,
-            status: 'completed',
-            message: result.message || 'Joint move command completed',
-            executionTime: result.executionTime || 0,
-            timestamp: new Date().toISOString()
-          });
-          
-          console.log('✅ Joint move command sent successfully');
-          return true;
-        } catch (error: any) {
-          console.error('❌ Joint move command failed:', error);
-          addCommandResult({
-            commandId: `joint_move_${Date.now()}`,
-            status: 'failed',
-            error: error.message || 'Unknown error',
-            timestamp: new Date().toISOString()
-          });
-          return false;
-        } finally {
-          set({ isCommandInProgress: false });
-        }
+        return runQueuedCommand({
+          type: 'move_joint',
+          priority: 'normal',
+          source,
+          payload: { positions, speed, acceleration }
+        });
       },
 
-      sendLinearMoveCommand: async (position: RobotPose, speed = 50, acceleration = 50): Promise<boolean> => {
-        const { commandService, addCommandResult, canSendCommand } = get();
+      sendLinearMoveCommand: async (
+        position: RobotPose,
+        speed = settingsService.getRobotDefaults().linearSpeed,
+        acceleration = settingsService.getRobotDefaults().linearAcceleration,
+        source?: string
+      ): Promise<boolean> => {
+        const { addCommandResult, canSendCommand } = get();
         
         if (!canSendCommand()) {
           console.warn('⚠️ Cannot send linear move command: Robot not ready');
-          return false;
-        }
-
-        set({ isCommandInProgress: true });
-        
-        try {
-          const result = await commandService.sendLinearMoveCommand(position, speed, acceleration);
-          
           addCommandResult({
             commandId: `linear_move_${Date.now()}`,
-            status: 'completed',
-            message: result.message || 'Linear move command completed',
-            timestamp: new Date().toISOString()
+            status: 'failed',
+            error: 'Robot not ready for commands',
+            timestamp: new Date().toISOString(),
+            commandType: 'move_linear'
           });
-          
-          console.log('✅ Linear move command sent successfully');
-          return true;
-        } catch (error: any) {
-          console.error('❌ Linear move command failed:', error);
           return false;
-        } finally {
-          set({ isCommandInProgress: false });
         }
+
+        return runQueuedCommand({
+          type: 'move_linear',
+          priority: 'normal',
+          source,
+          payload: { target: position, speed, acceleration }
+        });
       },
 
-      sendStopCommand: async (): Promise<boolean> => {
-        const { commandService, addCommandResult } = get();
-        
-        set({ isCommandInProgress: true });
-        
-        try {
-          const result = await commandService.sendStopCommand();
-          
-          addCommandResult({
-            commandId: `stop_${Date.now()}`,
-            status: 'completed',
-            message: result.message || 'Stop command completed',
-            timestamp: new Date().toISOString()
-          });
-          
-          console.log('✅ Stop command sent successfully');
-          return true;
-        } catch (error: any) {
-          console.error('❌ Stop command failed:', error);
-          return false;
-        } finally {
-          set({ isCommandInProgress: false });
-        }
+      sendStopCommand: async (source?: string): Promise<boolean> => {
+        return runQueuedCommand({
+          type: 'stop',
+          priority: 'critical',
+          source,
+          payload: {}
+        });
       },
 
-      sendEmergencyStop: async (): Promise<boolean> => {
-        const { commandService, addCommandResult } = get();
+      sendEmergencyStop: async (source?: string): Promise<boolean> => {
+        const success = await runQueuedCommand({
+          type: 'emergency_stop',
+          priority: 'critical',
+          source,
+          payload: { reason: 'operator', source: 'web_dashboard' }
+        });
         
-        try {
-          const result = await commandService.sendEmergencyStopCommand();
-          
-          addCommandResult({
-            commandId: `emergency_stop_${Date.now()}`,
-            status: 'completed',
-            message: result.message || 'Emergency stop activated',
-            timestamp: new Date().toISOString()
-          });
-          
+        if (success) {
           console.log('🚨 Emergency stop activated');
-          return true;
-        } catch (error: any) {
-          console.error('❌ Emergency stop failed:', error);
-          return false;
         }
+        return success;
       },
 
-      sendHomeCommand: async (speed = 30): Promise<boolean> => {
-        const { commandService, addCommandResult, canSendCommand } = get();
+      sendHomeCommand: async (speed = settingsService.getRobotDefaults().homeSpeed, source?: string): Promise<boolean> => {
+        const { addCommandResult, canSendCommand } = get();
         
         if (!canSendCommand()) {
           console.warn('⚠️ Cannot send home command: Robot not ready');
-          return false;
-        }
-
-        set({ isCommandInProgress: true });
-        
-        try {
-          const result = await commandService.sendHomeCommand(speed);
-          
           addCommandResult({
             commandId: `home_${Date.now()}`,
-            status: 'completed',
-            message: result.message || 'Home command completed',
-            timestamp: new Date().toISOString()
+            status: 'failed',
+            error: 'Robot not ready for commands',
+            timestamp: new Date().toISOString(),
+            commandType: 'home'
           });
-          
-          console.log('🏠 Home command sent successfully');
-          return true;
-        } catch (error: any) {
-          console.error('❌ Home command failed:', error);
           return false;
-        } finally {
-          set({ isCommandInProgress: false });
         }
+
+        return runQueuedCommand({
+          type: 'home',
+          priority: 'normal',
+          source,
+          payload: { speed }
+        });
       },
 
-      setRobotSpeed: async (speed: number): Promise<boolean> => {
-        const { commandService, addCommandResult } = get();
-        
+      setRobotSpeed: async (speed: number, source?: string): Promise<boolean> => {
         const clampedSpeed = Math.max(1, Math.min(100, speed));
         
-        try {
-          const result = await commandService.setRobotSpeed(clampedSpeed);
-          
-          addCommandResult({
-            commandId: `set_speed_${Date.now()}`,
-            status: 'completed',
-            message: result.message || `Speed set to ${clampedSpeed}%`,
-            timestamp: new Date().toISOString()
-          });
-          
+        const success = await runQueuedCommand({
+          type: 'set_speed',
+          priority: 'high',
+          source,
+          payload: { speed: clampedSpeed }
+        });
+        
+        if (success) {
           const now: Timestamp = new Date().toISOString();
           set((state) => ({
             ...state,
             speed: clampedSpeed,
             lastUpdate: now
           }));
-          
           console.log(`⚡ Robot speed set to ${clampedSpeed}%`);
-          return true;
-        } catch (error: any) {
-          console.error('❌ Set speed command failed:', error);
-          return false;
         }
+        return success;
       },
 
       // 큐 관리 메서드들
-      addCommandToQueue: (command: RobotCommand) => {
-        set((state) => ({
-          ...state,
-          commandQueue: [...state.commandQueue, command]
-        }), false, 'addCommandToQueue');
-        console.log('📋 Command added to queue:', command.type);
+      addCommandToQueue: (command: RobotCommand): string => {
+        return commandQueueService.enqueue(command);
       },
 
       removeCommandFromQueue: (commandId: string) => {
-        set((state) => ({
-          ...state,
-          commandQueue: state.commandQueue.filter(cmd => cmd.id !== commandId)
-        }), false, 'removeCommandFromQueue');
-        console.log('🗑️ Command removed from queue:', commandId);
+        if (commandQueueService.cancel(commandId)) {
+          console.log('🗑️ Command removed from queue:', commandId);
+        }
       },
 
       clearCommandQueue: () => {
-        set({ commandQueue: [] }, false, 'clearCommandQueue');
+        commandQueueService.clear();
         console.log('🧹 Command queue cleared');
       },
 
-      executeNextCommand: async () => {
-        const { commandQueue, removeCommandFromQueue } = get();
-        if (commandQueue.length === 0) {
-          console.log('📋 No commands in queue to execute');
-          return;
-        }
-        
-        const nextCommand = commandQueue[0];
-        console.log('▶️ Executing next command:', nextCommand.type);
-        
-        try {
-          let success = false;
-          switch (nextCommand.type) {
-            case 'move_joint':
-              const jointCmd = nextCommand as JointMoveCommand;
-              success = await get().sendJointMoveCommand(
-                jointCmd.payload.positions,
-                jointCmd.payload.speed,
-                jointCmd.payload.acceleration
-              );
-              break;
-            case 'move_linear':
-              const linearCmd = nextCommand as LinearMoveCommand;
-              success = await get().sendLinearMoveCommand(
-                linearCmd.payload.target,
-                linearCmd.payload.speed,
-                linearCmd.payload.acceleration
-              );
-              break;
-            case 'emergency_stop':
-              success = await get().sendEmergencyStop();
-              break;
-            default:
-              console.warn('❓ Unknown command type:', nextCommand.type);
-          }
-          
-          if (success) {
-            removeCommandFromQueue(nextCommand.id);
-            console.log('✅ Command executed successfully:', nextCommand.id);
-          }
-        } catch (error) {
-          console.error('❌ Error executing command:', error);
-          removeCommandFromQueue(nextCommand.id);
-        }
+      handleCommandResponse: (response: RobotResponsePayload) => {
+        commandQueueService.handleResponse(response);
       },
 
       // 히스토리 관리
@@ -436,7 +347,6 @@ export const useRobotStore = create<RobotStore>()(
       canSendCommand: () => {
         const state = get();
         return state.isConnected &&
-               !state.isCommandInProgress && 
                state.status !== 'emergency' && 
                state.status !== 'error' && 
                state.status !== 'disconnected' &&
@@ -449,6 +359,12 @@ export const useRobotStore = create<RobotStore>()(
         if (state.status === 'error') return 'disconnected';
         if (state.isCommandInProgress) return 'connecting';
         return 'connected';
+      },
+
+      // 가장 최근에 끝난 명령의 실패 사유 (성공했으면 undefined)
+      getLastCommandError: () => {
+        const last = get().commandHistory[get().commandHistory.length - 1];
+        return last?.status === 'failed' ? (last.error || last.message || '알 수 없는 오류') : undefined;
       }
     })),
     {
@@ -464,4 +380,21 @@ export const useRobotStore = create<RobotStore>()(
   )
 );
 
+// 큐 상태 → 스토어 동기화
+commandQueueService.onChange(() => {
+  useRobotStore.setState({
+    commandQueue: commandQueueService.getActiveCommands(),
+    isCommandInProgress: commandQueueService.isBusy()
+  }, false, 'commandQueueChanged');
+});
+
+commandQueueService.onCommandFinished((command, result) => {
+  useRobotStore.getState().addCommandResult(result);
+  if (command.state === 'done') {
+    console.log(`✅ Command completed: ${command.command.type} (${command.id})`);
+  } else {
+    console.error(`❌ Command ${command.state}: ${command.command.type} (${command.id})`, command.error);
+  }
+});
+
 export default useRobotStore;
\ No newline at end of file
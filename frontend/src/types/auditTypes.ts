@@ -0,0 +1,63 @@
+/**
+ * 감사 로그 타입 정의
+ * 운영자 동작과 로봇 명령을 누가/언제/어디서/무엇을 했는지와 발행 시점 로봇 상태와 함께 기록
+ */
+import { OperationMode, RobotStatus, SafetyStatus } from './robotTypes';
+import { UserRole } from './authTypes';
+
+export type AuditCategory = 'command' | 'safety' | 'program' | 'settings' | 'auth';
+
+// pending: 발행 후 결과 대기 / denied: 권한 부족으로 전송 전 거부
+export type AuditResult = 'pending' | 'success' | 'failed' | 'denied';
+
+// 명령 발행 시점 로봇 상태
+export interface AuditRobotSnapshot {
+  status: RobotStatus;
+  isConnected: boolean;
+  isMoving: boolean;
+  operationMode: OperationMode;
+  safetyStatus: SafetyStatus;
+  speed: number;
+  jointPositions: number[];
+}
+
+export interface AuditActor {
+  username: string | null;      // null = 로그인하지 않은 사용자
+  displayName: string;
+  role: UserRole;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: number;            // ms epoch - 발행 시각
+  category: AuditCategory;
+  action: string;               // 명령 종류/동작 (move_joint, release_emergency_stop, program_run ...)
+  params?: Record<string, any>;
+  source: string;               // 명령을 보낸 UI 컴포넌트/서비스
+  commandId?: string;
+  user: AuditActor;
+  result: AuditResult;
+  message?: string;
+  latencyMs?: number;
+  robotState?: AuditRobotSnapshot;
+}
+
+export interface AuditRecordInput {
+  category: AuditCategory;
+  action: string;
+  source: string;
+  params?: Record<string, any>;
+  commandId?: string;
+  result?: AuditResult;
+  message?: string;
+}
+
+export interface AuditQuery {
+  text?: string;                // 동작/출처/메시지/파라미터 검색어
+  category?: AuditCategory;
+  result?: AuditResult;
+  username?: string;            // '' = 익명
+  from?: number;                // ms epoch
+  to?: number;                  // ms epoch
+  limit?: number;
+}
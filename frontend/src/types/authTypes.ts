@@ -0,0 +1,52 @@
+/**
+ * 인증/권한 타입 정의
+ * 역할별 권한 매트릭스는 configs/auth/roles.json (백엔드 인증 미들웨어와 공유)
+ */
+import { CommandType, Timestamp } from './robotTypes';
+
+export type UserRole = 'viewer' | 'operator' | 'engineer' | 'admin';
+
+// SafetyControl 안전 동작
+export type SafetyAction =
+  | 'release_emergency_stop'
+  | 'set_power'
+  | 'set_motor'
+  | 'set_safety_mode'
+  | 'release_protective_stop';
+
+// 권한 = 로봇 명령 종류 + 안전 동작 + 프로그램/설정 관리
+export type AppPermission =
+  | CommandType
+  | SafetyAction
+  | 'run_program'
+  | 'set_concentration'
+  | 'edit_program'
+  | 'change_settings'
+  | 'manage_security'
+  | 'debug_publish';
+
+// ===== roles.json =====
+export interface RoleDefinition {
+  label: string;
+  description: string;
+  inherits?: UserRole;
+  permissions: AppPermission[];
+}
+
+export interface RolesConfig {
+  anonymous_role: UserRole;
+  roles: Record<UserRole, RoleDefinition>;
+}
+
+// ===== 세션 =====
+export interface AuthUser {
+  username: string;
+  displayName: string;
+  role: UserRole;
+}
+
+export interface AuthSession {
+  user: AuthUser;
+  token: string;          // 명령 요청의 Authorization: Bearer 헤더
+  expiresAt: Timestamp;
+}
@@ -0,0 +1,60 @@
+/**
+ * 사용자 정의 차트 타입 정의
+ * 임의 토픽 페이로드의 JSON 경로를 시리즈로 삼고, 시리즈 간 수식으로 파생 값을 만든다.
+ */
+
+export type CustomChartType = 'line' | 'scatter' | 'bar' | 'gauge' | 'heatmap';
+
+// 토픽 필드 시리즈 - key 는 수식 변수 이름 (a, b, ...)
+export interface CustomChartSource {
+  key: string;
+  label: string;
+  topic: string;            // MQTT 토픽 (+/# 와일드카드 허용)
+  path: string;             // 페이로드 JSON 경로 (예: position[0], data.weight, 빈 문자열 = 페이로드 자체)
+  unit?: string;
+}
+
+// 파생 시리즈 - 다른 시리즈 key 를 변수로 쓰는 수식 (예: a - b, a / b * 100)
+export interface CustomChartDerived {
+  key: string;
+  label: string;
+  expression: string;
+  unit?: string;
+}
+
+export interface CustomChartAxis {
+  label?: string;
+  unit?: string;
+  min?: number;
+  max?: number;
+}
+
+export interface CustomChartDefinition {
+  id: string;
+  name: string;
+  type: CustomChartType;
+  sources: CustomChartSource[];
+  derived: CustomChartDerived[];
+  xAxis: CustomChartAxis & { key?: string };  // scatter: X 축 시리즈 key (없으면 시간)
+  yAxis: CustomChartAxis;
+  timeWindow: number;                         // seconds
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 차트 한 행 - 시리즈 값은 해당 시점의 최신 값 (sample-and-hold)
+export type CustomChartRow = { timestamp: number } & Record<string, number>;
+
+export interface CustomChartData {
+  rows: CustomChartRow[];
+  latest: Record<string, number>;
+}
+
+// MqttContext 가 수신한 토픽과 숫자 필드 목록
+export interface TopicFieldCatalogEntry {
+  topic: string;
+  messageCount: number;
+  lastSeen: number;
+  fields: string[];
+  lastPayload: any;
+}
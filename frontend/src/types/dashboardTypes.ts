@@ -0,0 +1,57 @@
+/**
+ * 대시보드 레이아웃 타입 정의
+ * 위젯 위치/크기는 12 열 그리드 단위 (react-grid-layout 과 동일)
+ */
+import { Timestamp } from './robotTypes';
+
+export type DashboardWidgetType =
+  | 'mqttStatus'
+  | 'robotState'
+  | 'weightGauge'
+  | 'concentrationGauge'
+  | 'weightChart'
+  | 'concentrationChart'
+  | 'robotStatusPanel'
+  | 'quickControl'
+  | 'sensorDataGrid'
+  | 'robot3d'
+  | 'sensorAlerts'
+  | 'ros2Status'
+  | 'customChart';
+
+export interface DashboardWidget {
+  id: string;
+  type: DashboardWidgetType;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  options?: {
+    chartId?: string;       // customChart - 사용자 정의 차트 ID
+  };
+}
+
+// 위젯 카탈로그 항목 (크기는 그리드 단위)
+export interface DashboardWidgetDefinition {
+  type: DashboardWidgetType;
+  label: string;
+  description: string;
+  defaultSize: { w: number; h: number };
+  minSize: { w: number; h: number };
+}
+
+export interface DashboardLayout {
+  id: string;
+  name: string;
+  widgets: DashboardWidget[];
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// 레이아웃 공유용 JSON 형식
+export interface DashboardLayoutExport {
+  format: 'dashboard_layout';
+  version: 1;
+  exportedAt: Timestamp;
+  layout: Pick<DashboardLayout, 'name' | 'widgets'>;
+}
@@ -0,0 +1,79 @@
+/**
+ * 데이터 내보내기 타입 정의
+ * 센서 히스토리(롤업 리샘플링)와 이벤트(알람/명령 이력)를 CSV / NDJSON / 압축 컬럼형으로 내보냄
+ */
+import { ScaleFilterType, TimeSeriesPoint, TimeSeriesResolution } from './sensorTypes';
+
+export type ExportFormat = 'csv' | 'ndjson' | 'columnar';
+
+// series: timeSeriesStore 롤업 / event: 시각별 기록
+export type ExportChannelKind = 'series' | 'event';
+
+export type ExportChannelGroup = 'sensor' | 'scale' | 'joint' | 'event';
+
+export interface ExportChannel {
+  id: string;                   // series 는 timeSeriesStore 시리즈 ID (weight, scale/raw, joint/joint_1 ...)
+  label: string;
+  kind: ExportChannelKind;
+  group: ExportChannelGroup;
+  unit?: string;
+  filter?: ScaleFilterType;     // 저울 채널 필터 종류 (weight 는 공식 필터)
+  description: string;
+}
+
+export interface ExportRequest {
+  channels: string[];
+  from: number;                 // ms epoch
+  to: number;                   // ms epoch
+  interval: number;             // ms - 리샘플링 구간
+  format: ExportFormat;
+}
+
+export interface ExportSeries {
+  channel: ExportChannel;
+  sourceResolution: TimeSeriesResolution;
+  points: TimeSeriesPoint[];
+}
+
+export interface ExportEvent {
+  channel: string;
+  timestamp: number;
+  type: string;                 // 알람: warning/critical/error, 명령: 상태
+  message: string;
+  data: Record<string, any>;
+}
+
+// 파일 머리 메타데이터 - 단위/필터/해상도 등 오프라인 분석에 필요한 정보
+export interface ExportMetadata {
+  format: ExportFormat;
+  version: number;
+  generatedAt: string;
+  from: string;
+  to: string;
+  interval: number;
+  aggregation: string;
+  officialScaleFilter: ScaleFilterType;
+  timezone: string;
+  compression: 'gzip' | 'none';
+  channels: Array<{
+    id: string;
+    label: string;
+    kind: ExportChannelKind;
+    unit?: string;
+    filter?: ScaleFilterType;
+    sourceResolution?: TimeSeriesResolution;
+    rows: number;
+  }>;
+}
+
+export interface ExportDataset {
+  metadata: ExportMetadata;
+  series: ExportSeries[];
+  events: ExportEvent[];
+}
+
+export interface ExportFile {
+  filename: string;
+  blob: Blob;
+  rows: number;
+}
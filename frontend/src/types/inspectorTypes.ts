@@ -0,0 +1,64 @@
+/**
+ * MQTT 인스펙터 타입 정의
+ * 수신한 토픽별 통계/추론 스키마, 메시지 로그, 세션 녹화 파일(NDJSON) 구조
+ */
+import { Timestamp } from './robotTypes';
+
+export type JsonValueType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+// 수신 페이로드로 추론한 JSON Schema 부분집합 - 메시지마다 병합 (required 는 모든 메시지에 있던 필드)
+export interface InferredSchema {
+  type: JsonValueType[];
+  properties?: Record<string, InferredSchema>;
+  required?: string[];
+  items?: InferredSchema;
+}
+
+export interface InspectedTopic {
+  topic: string;
+  messageCount: number;
+  firstSeen: number;                        // ms epoch
+  lastSeen: number;
+  rate: number;                             // 최근 구간 기준 메시지/초
+  lastPayload: any;
+  lastSize: number;                         // 직렬화 바이트
+  totalBytes: number;
+  schema: InferredSchema;
+}
+
+export interface InspectedMessage {
+  id: number;
+  topic: string;
+  type: string;
+  data: any;
+  timestamp: Timestamp;                     // 메시지 timestamp
+  receivedAt: number;                       // 브라우저 수신 시각 (ms epoch)
+  size: number;
+}
+
+export interface RecordingStatus {
+  recording: boolean;
+  startedAt: number | null;
+  messageCount: number;
+  bytes: number;
+  limit: number;                            // 최대 녹화 메시지 수 - 도달하면 이후 메시지는 담지 않음
+}
+
+// ===== 녹화 파일 (NDJSON: 첫 줄 metadata, 이후 message 한 줄씩) =====
+export interface RecordingMetadata {
+  format: 'mqtt_recording';
+  version: number;
+  startedAt: Timestamp;
+  endedAt: Timestamp;
+  duration: number;                         // ms
+  messageCount: number;
+  topics: string[];
+}
+
+export interface RecordedMessage {
+  offset: number;                           // 녹화 시작부터 ms
+  topic: string;
+  type: string;
+  data: any;
+  timestamp: Timestamp;
+}
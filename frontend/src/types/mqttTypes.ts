@@ -42,6 +42,13 @@ export interface ROS2TopicListMessage {
   timestamp: string;
 }
 
+// ROS2 노드 / 서비스 리스트 메시지 (ros2_node_list, ros2_service_list)
+export interface ROS2GraphListMessage {
+  total: number;
+  names: string[];                          // 정렬, 중복 제거된 전체 이름
+  timestamp: string;
+}
+
 // 무게센서 데이터 메시지
 export interface WeightSensorMessage {
   original: any;
@@ -59,6 +66,65 @@ export interface WeightSensorMessage {
   };
 }
 
+// ROS2 sensor_msgs/JointState (ros2/dsr01/joint_states)
+export interface ROS2JointStateMessage {
+  header: {
+    stamp: { sec: number; nanosec: number };
+    frame_id: string;
+  };
+  name: string[];
+  position: number[]; // rad
+  velocity: number[]; // rad/s
+  effort: number[];
+}
+
+// 저울 필터 출력 (scale/raw, scale/moving_average, ... )
+export interface ScaleSensorMessage {
+  weight: number;
+  unit: string;
+  timestamp: string;
+  device_id: string;
+  sensor_type: string;
+}
+
+// 현재 농도 (sensors/concentration/current)
+export interface ConcentrationCurrentMessage {
+  concentration: number;
+  target: number;
+  unit: string;
+  timestamp: string;
+}
+
+// 설탕 투입 이벤트 (robot/events/sugar_dispensed, 시나리오 이벤트 1)
+export interface SugarDispensedEventMessage {
+  event: 'sugar_dispensed';
+  session_id?: string;
+  amount?: number;       // g (디스펜서 보고값)
+  dispense_index?: number;
+  timestamp: string;
+}
+
+// 컵 배치 이벤트 (robot/events/cup_placed, 시나리오 이벤트 2) - 붓기 세션 시작
+export interface CupPlacedEventMessage {
+  event: 'cup_placed';
+  session_id?: string;
+  cup_id?: string;
+  tare_weight?: number;  // g (빈 컵 무게)
+  timestamp: string;
+}
+
+// 붓기 분석 결과 (sensors/pouring/analysis) - 세션 종료
+export interface PouringAnalysisMessage {
+  session_id?: string;
+  final_weight: number;  // g
+  flow_rate?: number;    // g/s
+  concentration?: number; // %
+  target?: number;       // %
+  duration?: number;     // s
+  status?: 'completed' | 'aborted' | 'overflow';
+  timestamp: string;
+}
+
 // 농도 제어 메시지
 export interface ConcentrationMessage {
   original: any;
@@ -133,8 +199,14 @@ export interface SubscriptionMessage {
 }
 
 // 토픽별 메시지 유니온 타입
-export type TopicMessage = 
+export type TopicMessage =
   | ROS2TopicListMessage
+  | ROS2JointStateMessage
+  | ScaleSensorMessage
+  | ConcentrationCurrentMessage
+  | SugarDispensedEventMessage
+  | CupPlacedEventMessage
+  | PouringAnalysisMessage
   | WeightSensorMessage
   | ConcentrationMessage
   | RobotControlMessage
@@ -0,0 +1,54 @@
+/**
+ * 붓기 세션 타입 정의
+ * cup_placed 이벤트로 시작해 분석 결과 수신/컵 제거/다음 컵 배치 시 종료되는 한 번의 공정 기록
+ */
+import { PouringAnalysisMessage } from './mqttTypes';
+
+// 세션 시작 기준 경과 시간(ms)과 값
+export interface SessionSample {
+  t: number;
+  value: number;
+}
+
+export interface DispenseEvent {
+  t: number;            // 세션 시작 기준 (ms)
+  amount?: number;      // g (디스펜서 보고값)
+  timestamp: string;
+}
+
+export type PouringSessionStatus = 'active' | 'completed' | 'aborted';
+
+// 세션 종료 사유
+export type PouringSessionEndReason = 'analysis' | 'cup_removed' | 'next_cup' | 'timeout' | 'manual';
+
+export interface PouringSessionMetrics {
+  finalMass: number;               // g (종료 직전 안정 구간 평균)
+  peakMass: number;                // g
+  flowRate: number;                // g/s (붓기 구간 평균)
+  peakFlowRate: number;            // g/s (1초 구간 최대)
+  pourDuration: number;            // s (무게 증가 구간)
+  duration: number;                // s (세션 전체)
+  finalConcentration: number | null; // %
+  targetConcentration: number | null; // %
+  overshoot: number | null;        // %p (최대 농도 - 목표, 음수면 0)
+  overshootRatio: number | null;   // overshoot / target (0-1)
+  dispenseCount: number;
+  dispensedAmount: number | null;  // g (보고값 합계)
+}
+
+export interface PouringSession {
+  id: string;
+  externalId?: string;             // 로봇이 보고한 session_id
+  cupId?: string;
+  status: PouringSessionStatus;
+  endReason?: PouringSessionEndReason;
+  startedAt: string;
+  endedAt?: string;
+  weightTopic: string;             // 무게 곡선 소스 (scale/*)
+  targetConcentration: number | null;
+  weightCurve: SessionSample[];
+  concentrationCurve: SessionSample[];
+  dispenseEvents: DispenseEvent[];
+  analysis?: PouringAnalysisMessage; // 로봇측 분석 결과 (sensors/pouring/analysis)
+  metrics: PouringSessionMetrics | null;
+}
@@ -0,0 +1,132 @@
+/**
+ * 로봇 프로그램 타입 정의 - 프로그램 형식, 파서 결과, 인터프리터 상태
+ *
+ * 프로그램 형식 (한 줄에 한 문장, '#' 이후 주석, 블록은 end 로 닫음):
+ *   moveJ 0 0 90 0 90 0 speed=30 accel=30
+ *   moveL 400 0 300 0 180 0 speed=20
+ *   wait 1.5
+ *   set_concentration 30
+ *   wait_weight >= 50 timeout=30
+ *   loop 3 ... end
+ *   if weight > 100 ... else ... end
+ */
+import { RobotPose, Timestamp } from './robotTypes';
+
+export type ProgramSensor = 'weight' | 'concentration';
+export type ComparisonOperator = '>' | '>=' | '<' | '<=' | '==' | '!=';
+
+// ===== 문장 (AST) =====
+interface StatementBase {
+  line: number; // 1부터 시작하는 소스 라인 번호
+}
+
+export interface MoveJStatement extends StatementBase {
+  kind: 'moveJ';
+  joints: number[];       // degrees
+  speed?: number;         // %
+  acceleration?: number;  // %
+}
+
+export interface MoveLStatement extends StatementBase {
+  kind: 'moveL';
+  pose: RobotPose;        // mm, ZYZ degrees
+  speed?: number;
+  acceleration?: number;
+}
+
+export interface WaitStatement extends StatementBase {
+  kind: 'wait';
+  seconds: number;
+}
+
+export interface SetConcentrationStatement extends StatementBase {
+  kind: 'set_concentration';
+  target: number;         // %
+}
+
+export interface WaitWeightStatement extends StatementBase {
+  kind: 'wait_weight';
+  operator: '>=' | '<=';
+  grams: number;
+  timeout?: number;       // seconds
+}
+
+export interface LoopStatement extends StatementBase {
+  kind: 'loop';
+  count: number;
+  body: ProgramStatement[];
+}
+
+export interface IfStatement extends StatementBase {
+  kind: 'if';
+  sensor: ProgramSensor;
+  operator: ComparisonOperator;
+  value: number;
+  then: ProgramStatement[];
+  else: ProgramStatement[];
+}
+
+export type ProgramStatement =
+  | MoveJStatement
+  | MoveLStatement
+  | WaitStatement
+  | SetConcentrationStatement
+  | WaitWeightStatement
+  | LoopStatement
+  | IfStatement;
+
+// 인터프리터가 실제로 실행하는 단일 동작 문장
+export type ProgramActionStatement = Exclude<ProgramStatement, LoopStatement | IfStatement>;
+
+// ===== 파싱/검증 결과 =====
+export interface ProgramDiagnostic {
+  line: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface ParsedProgram {
+  statements: ProgramStatement[];
+  totalLines: number;      // 소스 라인 수
+  errors: ProgramDiagnostic[];
+}
+
+export interface ProgramValidationResult {
+  valid: boolean;
+  diagnostics: ProgramDiagnostic[];
+}
+
+// ===== 저장된 프로그램 (/api/programs) =====
+export interface RobotProgram {
+  id: string;
+  name: string;
+  description?: string;
+  source: string;
+  builtin?: boolean;       // 기본 제공 레시피 (삭제 불가)
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// ===== 실행 상태 =====
+export type ProgramStatus = 'stopped' | 'running' | 'paused' | 'completed' | 'error';
+
+export interface ProgramInfo {
+  name: string;
+  id: string;
+  status: ProgramStatus;
+  progress: number;         // %
+  currentLine: number;
+  totalLines: number;
+  startTime?: Date;
+  estimatedEndTime?: Date;
+  description?: string;
+  currentStatement?: string; // 실행 중인 소스 라인
+  loopIteration?: number;    // 루프 모드 반복 횟수
+  error?: string;
+}
+
+export interface ProgramRunOptions {
+  speedOverride: number;     // 1-100 %
+  loopMode: boolean;         // 끝나면 처음부터 반복
+  stepMode: boolean;         // 한 문장씩 실행 (step 호출 대기)
+}
@@ -0,0 +1,21 @@
+/**
+ * 녹화 재생 타입 정의
+ * MQTT 인스펙터가 저장한 녹화 파일(NDJSON)을 원래 시간 간격으로 다시 흘려보내는 재생 세션 상태
+ */
+import { RecordingMetadata } from './inspectorTypes';
+
+// idle: 재생 모드 아님 / ended: 끝까지 재생 (반복 꺼짐)
+export type ReplayState = 'idle' | 'playing' | 'paused' | 'ended';
+
+export interface ReplayStatus {
+  active: boolean;                          // 재생 모드 - 실시간 연결 대신 녹화를 전달하고 명령 전송을 막음
+  state: ReplayState;
+  filename: string | null;
+  metadata: RecordingMetadata | null;
+  position: number;                         // 녹화 시작부터 ms
+  duration: number;                         // ms
+  speed: number;                            // 0.25 ~ 10 배속
+  loop: boolean;
+  messageIndex: number;                     // 다음에 전달할 메시지 순번
+  messageCount: number;
+}
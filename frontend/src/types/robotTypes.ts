@@ -2,6 +2,8 @@
  * 통합 로봇 제어 시스템 타입 정의
  * 모든 타입의 완전한 일관성과 상호 호환성 보장
  */
+import { ScaleFilterChartPoint, ScaleFilterMetrics, ScaleFilterType, TimeSeriesQueryResult } from './sensorTypes';
+import type CommandQueueService from '../services/commandQueue';
 
 // ===== 기본 유틸리티 타입 =====
 export type Timestamp = string;
@@ -78,6 +80,179 @@ export interface RobotPostureState {
   timestamp: Timestamp;
 }
 
+// ===== 로봇 사양 (configs/robot/m0609_specs.json) =====
+export type SpecJointKey = 'joint_1' | 'joint_2' | 'joint_3' | 'joint_4' | 'joint_5' | 'joint_6';
+
+export interface RobotCoordinateSystem {
+  name: string;
+  origin?: number[]; // [x, y, z, rx, ry, rz] (mm, degrees)
+  offset?: number[]; // [x, y, z, rx, ry, rz] (mm, degrees)
+}
+
+// 표준 DH 파라미터 (mm, degrees)
+export interface DHParameter {
+  joint: SpecJointKey;
+  a: number;
+  alpha: number;
+  d: number;
+  theta_offset: number;
+}
+
+export interface RobotKinematicsSpec {
+  convention: 'standard_dh';
+  units: { length: string; angle: string };
+  orientation: 'zyz_euler';
+  dh_parameters: DHParameter[];
+}
+
+export interface RobotSpecs {
+  robot_model: string;
+  manufacturer: string;
+  specifications: {
+    dof: number;
+    max_payload: number;
+    max_reach: number;
+    weight: number;
+    repeatability: number;
+    joint_limits: Record<SpecJointKey, number[]>;
+    joint_max_velocities: Record<SpecJointKey, number>;
+    tcp_max_velocity: {
+      linear: number;
+      angular: number;
+    };
+  };
+  kinematics: RobotKinematicsSpec;
+  coordinate_systems: {
+    base: RobotCoordinateSystem;
+    tool: RobotCoordinateSystem;
+    work: RobotCoordinateSystem;
+  };
+  safety_parameters: {
+    joint_position_limits: boolean;
+    joint_velocity_limits: boolean;
+    tcp_velocity_limits: boolean;
+    collision_detection: boolean;
+    force_limits: {
+      max_force: number;
+      max_torque: number;
+    };
+  };
+}
+
+// ===== 기구학 (Forward / Inverse Kinematics) =====
+export interface IKBranch {
+  shoulder: 'front' | 'back';
+  elbow: 'up' | 'down';
+  wrist: 'flip' | 'no_flip';
+}
+
+export interface IKSolution {
+  joints: number[];      // degrees
+  branch: IKBranch;
+  withinLimits: boolean; // 사양 조인트 제한 만족 여부
+  distance: number;      // 기준 조인트와의 최대 각도 차이 (degrees)
+  singular: boolean;     // 손목 특이점 근처 여부
+}
+
+export interface IKResult {
+  reachable: boolean;
+  solutions: IKSolution[]; // 기준 조인트와 가까운 순으로 정렬
+  error?: string;
+}
+
+// ===== 모션 사전 검증 (Pre-flight Validation) =====
+export type MotionViolationCode =
+  | 'invalid_value'   // 숫자가 아니거나 개수 불일치
+  | 'joint_limit'     // 조인트 범위 초과
+  | 'joint_velocity'  // 조인트 속도 초과
+  | 'speed_range'     // 속도/가속도 백분율 범위 초과
+  | 'reach'           // 최대 도달 거리 초과
+  | 'unreachable'     // 역기구학 해 없음
+  | 'keep_out_zone';  // 금지 구역 침범
+
+export interface MotionViolation {
+  code: MotionViolationCode;
+  severity: 'error' | 'warning';
+  message: string;
+  joint?: number;        // 0-based 조인트 인덱스
+  zoneId?: string;
+  value?: number;
+  limit?: number;
+  commandIndex?: number; // 배치/프로그램 내 명령 순번
+}
+
+export interface MotionValidationResult {
+  valid: boolean; // error 수준 위반이 없으면 true
+  violations: MotionViolation[];
+}
+
+export type KeepOutZone =
+  | {
+      id: string;
+      name: string;
+      enabled: boolean;
+      shape: 'box';
+      min: Position3D; // mm (월드 좌표)
+      max: Position3D;
+    }
+  | {
+      id: string;
+      name: string;
+      enabled: boolean;
+      shape: 'sphere';
+      center: Position3D;
+      radius: number; // mm
+    };
+
+export interface MotionValidationOptions {
+  currentJoints?: number[];  // 경로 검사 시작 자세
+  speed?: number;            // %
+  acceleration?: number;     // %
+  jointVelocities?: number[]; // deg/s (명시적 조인트 속도)
+  moveType?: 'joint' | 'linear';
+}
+
+// 실행 전 미리보기용 목표 자세 (3D 뷰어 고스트)
+export interface PendingMotionTarget {
+  joints: number[];              // degrees
+  source: 'joint' | 'cartesian'; // JointControl / CartesianControl
+  pose?: RobotPose;              // 카르테시안 목표 (source === 'cartesian')
+  timestamp: Timestamp;
+}
+
+// ===== 티칭 웨이포인트 =====
+export type WaypointMoveType = 'joint' | 'linear'; // MoveJ / MoveL
+
+export interface Waypoint {
+  id: string;
+  name: string;
+  joints: number[];      // 기록 시점 조인트 각도 (deg)
+  pose: RobotPose;       // 기록 시점 TCP 포즈 (mm, deg)
+  moveType: WaypointMoveType;
+  speed: number;         // %
+  acceleration: number;  // %
+  blendRadius: number;   // mm (0 = 정지 후 다음 웨이포인트)
+  waitTime: number;      // ms
+  createdAt: Timestamp;
+}
+
+export interface WaypointSet {
+  id: string;
+  name: string;
+  waypoints: Waypoint[];
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// 내보내기 파일 형식
+export interface WaypointSetExport {
+  format: 'waypoint_set';
+  version: 1;
+  robotModel: string;
+  exportedAt: Timestamp;
+  set: WaypointSet;
+}
+
 // ===== 완전한 로봇 상태 =====
 export interface RobotState {
   // 기본 정보
@@ -106,6 +281,8 @@ export interface RobotState {
   temperature: number | null;
   jointPositions: number[];
   endEffectorPosition: RobotPose | null;
+  endEffectorSource: 'reported' | 'kinematics' | null; // 로봇 보고값 또는 FK 계산값
+  pendingTarget: PendingMotionTarget | null;
   
   // 추가 누락 프로퍼티들
   cartesianPosition?: RobotPose;
@@ -135,6 +312,7 @@ export interface BaseCommand {
   type: CommandType;
   timestamp: Timestamp;
   priority: 'low' | 'normal' | 'high' | 'critical';
+  source?: string; // 감사 로그에 남길 명령 출처 (생략 시 전송 서비스의 출처)
 }
 
 export interface JointMoveCommand extends BaseCommand {
@@ -177,11 +355,38 @@ export interface EmergencyStopCommand extends BaseCommand {
   };
 }
 
-export type RobotCommand = 
-  | JointMoveCommand 
-  | LinearMoveCommand 
+export interface StopCommand extends BaseCommand {
+  type: 'stop';
+  payload: Record<string, never>;
+}
+
+export interface HomeCommand extends BaseCommand {
+  type: 'home';
+  payload: {
+    speed?: number;
+  };
+}
+
+export interface SetSpeedCommand extends BaseCommand {
+  type: 'set_speed';
+  payload: {
+    speed: number;
+  };
+}
+
+export type RobotCommand =
+  | JointMoveCommand
+  | LinearMoveCommand
   | CircularMoveCommand
-  | EmergencyStopCommand;
+  | EmergencyStopCommand
+  | StopCommand
+  | HomeCommand
+  | SetSpeedCommand;
+
+// 큐에 추가할 때 id/timestamp 는 선택 (큐에서 부여)
+export type RobotCommandInput<C extends RobotCommand = RobotCommand> = C extends RobotCommand
+  ? Omit<C, 'id' | 'timestamp'> & Partial<Pick<C, 'id' | 'timestamp'>>
+  : never;
 
 export interface CommandResult {
   commandId: string;
@@ -190,6 +395,47 @@ export interface CommandResult {
   error?: string;
   executionTime?: number;
   timestamp: Timestamp;
+  commandType?: CommandType;
+  lifecycleState?: CommandLifecycleState;
+}
+
+// ===== 명령 큐 (응답 추적) =====
+// queued → sent → acknowledged → executing → done | failed | timed_out
+export type CommandLifecycleState =
+  | 'queued'
+  | 'sent'
+  | 'acknowledged'
+  | 'executing'
+  | 'done'
+  | 'failed'
+  | 'timed_out';
+
+export interface CommandTransition {
+  state: CommandLifecycleState;
+  timestamp: Timestamp;
+  message?: string;
+}
+
+export interface QueuedCommand {
+  id: string;
+  command: RobotCommand;
+  state: CommandLifecycleState;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  sentAt?: Timestamp;
+  finishedAt?: Timestamp;
+  message?: string;
+  error?: string;
+  transitions: CommandTransition[];
+}
+
+// robot/response 토픽 페이로드
+export interface RobotResponsePayload {
+  command_id: string;
+  status: 'acknowledged' | 'accepted' | 'executing' | 'done' | 'completed' | 'failed' | 'rejected' | 'error';
+  message?: string;
+  error?: string;
+  timestamp?: Timestamp;
 }
 
 // ===== 액션 시스템 =====
@@ -205,6 +451,7 @@ export type RobotActionType =
   | 'SET_OPERATION_MODE'
   | 'SET_SAFETY_STATUS'
   | 'SET_SYSTEM_INFO'
+  | 'SET_PENDING_TARGET'
   | 'UPDATE_ROBOT_STATE';
 
 export interface RobotAction {
@@ -323,6 +570,7 @@ export interface WebSocketConfig {
 export interface MqttConfig {
   brokerUrl: string;
   clientId: string;
+  transport: 'backend' | 'paho';   // backend: 백엔드 WebSocket 브리지 (WS_URL) / paho: 브로커 직접 연결 (brokerUrl)
   keepalive: number;
   reconnectPeriod: number;
   clean: boolean;
@@ -434,6 +682,15 @@ export interface RealtimeChartHookReturn {
   weightStats: { min: number; max: number; avg: number; current: number } | null;
   concentrationStats: { min: number; max: number; avg: number; current: number } | null;
   
+  // 저울 필터 비교 (scale/* 공통 시간축 + raw 대비 지표)
+  scaleFilterData: ScaleFilterChartPoint[];
+  scaleFilterMetrics: ScaleFilterMetrics[];
+  officialScaleFilter: ScaleFilterType;
+  setOfficialScaleFilter: (filter: ScaleFilterType) => void;
+  
+  // 히스토리 조회 (IndexedDB 롤업, 범위에 맞는 해상도로 반환)
+  queryHistory: (sensorId: string, from: number, to?: number, maxPoints?: number) => Promise<TimeSeriesQueryResult>;
+  
   // 제어 함수
   addCustomDataPoint: (key: string, point: ChartDataPoint) => void;
   clearData: (dataKey?: string) => void;
@@ -444,13 +701,14 @@ export interface RealtimeChartHookReturn {
 // ===== 스토어 타입 =====
 export interface RobotStore extends RobotState {
   // 추가 상태
-  commandQueue: RobotCommand[];
+  commandQueue: QueuedCommand[];
   commandHistory: CommandResult[];
   isCommandInProgress: boolean;
   selectedJoint: number | null;
-  
+
   // 서비스 인스턴스
   commandService: any; // CommandSenderService
+  commandQueueService: CommandQueueService;
   
   // 액션 메서드
   updateRobotState: (state: Partial<RobotState>) => void;
@@ -460,18 +718,18 @@ export interface RobotStore extends RobotState {
   setRobotMode: (mode: RobotMode) => void;
   
   // 명령 메서드
-  sendJointMoveCommand: (positions: number[], speed?: number, acceleration?: number) => Promise<boolean>;
-  sendLinearMoveCommand: (position: CartesianPosition, speed?: number, acceleration?: number) => Promise<boolean>;
-  sendStopCommand: () => Promise<boolean>;
-  sendEmergencyStop: () => Promise<boolean>;
-  sendHomeCommand: (speed?: number) => Promise<boolean>;
-  setRobotSpeed: (speed: number) => Promise<boolean>;
+  sendJointMoveCommand: (positions: number[], speed?: number, acceleration?: number, source?: string) => Promise<boolean>;
+  sendLinearMoveCommand: (position: CartesianPosition, speed?: number, acceleration?: number, source?: string) => Promise<boolean>;
+  sendStopCommand: (source?: string) => Promise<boolean>;
+  sendEmergencyStop: (source?: string) => Promise<boolean>;
+  sendHomeCommand: (speed?: number, source?: string) => Promise<boolean>;
+  setRobotSpeed: (speed: number, source?: string) => Promise<boolean>;
   
   // 큐 관리
-  addCommandToQueue: (command: RobotCommand) => void;
+  addCommandToQueue: (command: RobotCommand) => string;
   removeCommandFromQueue: (commandId: string) => void;
   clearCommandQueue: () => void;
-  executeNextCommand: () => Promise<void>;
+  handleCommandResponse: (response: RobotResponsePayload) => void;
   
   // 히스토리 관리
   addCommandResult: (result: CommandResult) => void;
@@ -485,6 +743,7 @@ export interface RobotStore extends RobotState {
   isRobotReady: () => boolean;
   canSendCommand: () => boolean;
   getConnectionStatus: () => ConnectionStatus;
+  getLastCommandError: () => string | undefined;
 }
 
 // ===== 기본값 정의 =====
@@ -540,4 +799,6 @@ export const DEFAULT_ROBOT_STATE: RobotState = {
   temperature: null,
   jointPositions: [0, 0, 0, 0, 0, 0],
   endEffectorPosition: null,
+  endEffectorSource: null,
+  pendingTarget: null,
 };
@@ -0,0 +1,44 @@
+/**
+ * ROS2 그래프 탐색기 타입 정의
+ * ros2_topic_list / ros2_node_list / ros2_service_list 스냅샷을 비교해 등장/사라짐 타임라인과 사라진 노드를 추적한다
+ */
+import { ROS2TopicListMessage } from './mqttTypes';
+import { Timestamp } from './robotTypes';
+
+export type ROS2GraphKind = 'topic' | 'node' | 'service';
+
+export type ROS2GraphChange = 'appeared' | 'disappeared';
+
+export interface ROS2GraphEvent {
+  id: string;
+  kind: ROS2GraphKind;
+  change: ROS2GraphChange;
+  name: string;
+  timestamp: Timestamp;
+}
+
+// 마지막 스냅샷에서 빠진 노드 - 다시 나타나면 목록에서 제거
+export interface VanishedNode {
+  name: string;
+  namespace: string;
+  vanishedAt: Timestamp;
+}
+
+export interface ROS2GraphSnapshot {
+  topics: string[];
+  nodes: string[];
+  services: string[];
+  health: ROS2TopicListMessage['health'] | null;
+  timeline: ROS2GraphEvent[];               // 최신순
+  vanishedNodes: VanishedNode[];
+  updatedAt: Record<ROS2GraphKind, Timestamp | null>;
+}
+
+// '/' 로 나눈 네임스페이스 트리 - name 이 있으면 실제 토픽/노드/서비스 이름
+export interface NamespaceTreeNode {
+  segment: string;
+  path: string;
+  name: string | null;
+  children: NamespaceTreeNode[];
+  leafCount: number;
+}
@@ -185,6 +185,40 @@ export interface SensorAlarm {
   autoReset: boolean;
 }
 
+// 알람 규칙 종류 - 임계값 / 변화율 / 데이터 끊김
+export type SensorAlarmRuleKind = 'threshold' | 'rate' | 'stale';
+
+export type SensorAlarmSeverity = 'warning' | 'critical';
+
+// 알람 규칙 (thresholds 는 threshold: 값, rate: 초당 변화량 기준)
+export interface SensorAlarmRule {
+  id: string;
+  sensorId: string;
+  sensorName: string;
+  unit: string;
+  kind: SensorAlarmRuleKind;
+  enabled: boolean;
+  thresholds?: SensorConfig['alarmThresholds'];
+  direction?: 'rise' | 'fall' | 'both';   // rate - 감시할 변화 방향
+  rateWindow?: number;                     // ms - rate 계산 구간
+  staleAfter?: number;                     // ms - 마지막 수신 후 경과 시간
+  staleSeverity?: SensorAlarmSeverity;
+  hysteresis: number;                      // 해제 시 기준값 안쪽으로 들어와야 하는 여유
+  onDelay: number;                         // ms - 조건 지속 후 발생
+  offDelay: number;                        // ms - 정상 지속 후 해제
+  autoReset: boolean;                      // false 면 정상 복귀 후에도 확인 전까지 유지
+}
+
+// 발생한 알람 (활성 목록 + 이력)
+export interface SensorAlarmRecord extends SensorAlarm {
+  id: string;
+  ruleId: string;
+  kind: SensorAlarmRuleKind;
+  active: boolean;                         // 알람 조건 유지 중
+  clearedAt: string | null;
+  acknowledgedAt: string | null;
+}
+
 // 센서 트렌드 데이터
 export interface SensorTrendData {
   sensorId: string;
@@ -238,6 +272,40 @@ export interface SensorConfig {
   };
 }
 
+// 히스토리 롤업 해상도 (구간별 min/max/avg)
+export type TimeSeriesResolution = '1s' | '1m' | '1h';
+
+// 센서 모니터링 조회 범위
+export type SensorHistoryRange = '1h' | '6h' | '24h' | '7d';
+
+// IndexedDB 저장 롤업 버킷 (timestamp = 구간 시작 ms epoch, 평균은 sum / count)
+export interface TimeSeriesBucket {
+  sensorId: string;
+  resolution: TimeSeriesResolution;
+  timestamp: number;
+  min: number;
+  max: number;
+  sum: number;
+  count: number;
+}
+
+// 조회 결과 한 점
+export interface TimeSeriesPoint {
+  timestamp: number;
+  min: number;
+  max: number;
+  avg: number;
+  count: number;
+}
+
+export interface TimeSeriesQueryResult {
+  sensorId: string;
+  from: number;
+  to: number;
+  resolution: TimeSeriesResolution;
+  points: TimeSeriesPoint[];
+}
+
 // 센서 진단 정보
 export interface SensorDiagnostics {
   sensorId: string;
@@ -267,4 +335,44 @@ export interface SensorDataProcessing {
   smoothingFactor: number;
 }
 
+// 저울 필터 채널 (scale/<filter>)
+export type ScaleFilterType =
+  | 'raw'
+  | 'moving_average'
+  | 'exponential_average'
+  | 'kalman_simple'
+  | 'kalman_pv'
+  | 'ekf'
+  | 'ukf';
+
+// 필터 채널 한 샘플 (scale/<filter> 페이로드 + 토픽에서 구한 필터 종류)
+export interface ScaleFilterReading {
+  filter: ScaleFilterType;
+  weight: number;            // g
+  unit: string;
+  timestamp: string;
+  deviceId?: string;
+}
+
+// 공통 시간축 위의 필터별 무게 (g) - 해당 시점에 값이 없던 필터는 직전 값 유지
+export type ScaleFilterChartPoint = { timestamp: number } & Partial<Record<ScaleFilterType, number>>;
+
+// 최근 계단 응답 (raw 기준 계단 변화 이후)
+export interface ScaleStepResponse {
+  stepAt: number;            // 계단 발생 시각 (ms epoch)
+  stepSize: number;          // g (raw 변화량)
+  riseTime: number | null;   // s (10% → 90%)
+  overshoot: number;         // % (최종값 대비 초과분 / 계단 크기)
+  settlingTime: number | null; // s (±2% 밴드 진입 후 유지)
+}
+
+// raw 대비 필터 성능 지표
+export interface ScaleFilterMetrics {
+  filter: ScaleFilterType;
+  samples: number;
+  lag: number | null;        // ms (raw 와의 상호상관 최대 지연)
+  noise: number | null;      // g (윈도우 내 선형 추세 제거 후 표준편차)
+  step: ScaleStepResponse | null;
+}
+
 export default SensorData;
@@ -0,0 +1,63 @@
+/**
+ * 설정 타입 정의
+ * config 는 AppConfig 중 런타임 변경 가능한 항목 (updateConfig 로 즉시 적용)
+ * DEVELOPMENT(목 데이터/로그 레벨)와 MQTT 클라이언트 ID 는 빌드 환경 값을 그대로 사용
+ */
+import { AppConfig } from './robotTypes';
+
+export type SettingsConfig = Pick<
+  AppConfig,
+  'API_BASE_URL' | 'WS_URL' | 'ROBOT_IP' | 'ROBOT_PORT' | 'UPDATE_INTERVALS' | 'CHART' | 'THRESHOLDS'
+> & {
+  MQTT: Pick<AppConfig['MQTT'], 'brokerUrl' | 'keepalive'>;
+  websocket: Pick<AppConfig['websocket'], 'maxReconnectAttempts' | 'reconnectDelay'>;
+};
+
+// 모션 명령 기본값 (명령에 속도/가속도를 지정하지 않았을 때, %)
+export interface RobotMotionDefaults {
+  jointSpeed: number;
+  jointAcceleration: number;
+  linearSpeed: number;
+  linearAcceleration: number;
+  homeSpeed: number;
+}
+
+export type AlarmToastLevel = 'all' | 'critical' | 'none';
+
+export interface NotificationPreferences {
+  toastDuration: number;       // ms
+  alarmToasts: AlarmToastLevel;
+}
+
+export interface SecurityPreferences {
+  requireSecureConnections: boolean;  // wss:// / https:// 주소만 허용
+}
+
+// 안전 상호작용이 필요한 명령 분류
+export type SafetyInteractionCategory =
+  | 'power'
+  | 'motor'
+  | 'safety_mode'
+  | 'emergency_release'
+  | 'protective_release'
+  | 'large_move'
+  | 'program_start';
+
+// none: 즉시 전송 / confirm: 확인 대화상자 / typed: 확인 문구 입력 / hold: 누르고 있는 동안만 동작 (deadman)
+export type SafetyInteractionMode = 'none' | 'confirm' | 'typed' | 'hold';
+
+export interface SafetyInteractionPreferences {
+  modes: Record<SafetyInteractionCategory, SafetyInteractionMode>;
+  largeJointMove: number;       // deg - 관절 중 하나라도 이보다 많이 움직이면 큰 이동
+  largeLinearMove: number;      // mm - TCP 이동 거리가 이보다 길면 큰 이동
+  heartbeatTimeout: number;     // ms - hold-to-run 중 WebSocket 하트비트가 끊긴 것으로 보는 시간
+}
+
+export interface AppSettings {
+  version: 1;
+  config: SettingsConfig;
+  robot: RobotMotionDefaults;
+  notifications: NotificationPreferences;
+  security: SecurityPreferences;
+  safety: SafetyInteractionPreferences;
+}
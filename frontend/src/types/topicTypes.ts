@@ -0,0 +1,74 @@
+/**
+ * 토픽 매핑 타입 정의
+ * configs/mqtt/topic_mapping.json 구조와 논리 채널(코드에서 사용하는 이름) → 페이로드 타입 대응
+ */
+import {
+  ROS2TopicListMessage,
+  ROS2GraphListMessage,
+  ROS2JointStateMessage,
+  ConcentrationCurrentMessage,
+  SugarDispensedEventMessage,
+  CupPlacedEventMessage,
+  PouringAnalysisMessage,
+  RobotControlMessage,
+  SystemHealthMessage
+} from './mqttTypes';
+import {
+  WeightSensorData,
+  ConcentrationSensorData,
+  RobotResponsePayload,
+  RobotState
+} from './robotTypes';
+import { ScaleFilterReading } from './sensorTypes';
+
+// ===== topic_mapping.json =====
+export type TopicGroup = Record<string, string | string[]>;
+
+export interface TopicMappingConfig {
+  topics: Record<string, TopicGroup>;
+  qos_levels: Record<string, 0 | 1 | 2>;
+  retain_flags?: Record<string, boolean>;
+  subscription_patterns?: Record<string, string>;
+  topic_filters?: Record<string, string[]>;
+  data_types?: Record<string, string>;
+  event_mapping?: {
+    robot_scenario_events?: Record<string, string>;
+    [key: string]: any;
+  };
+}
+
+// 매핑 출처 - 백엔드 /api/debug/topic-mapping 또는 번들된 기본 파일
+export type TopicMappingSource = 'backend' | 'bundled';
+
+// ===== 논리 채널 =====
+export type RobotScenarioEvent = SugarDispensedEventMessage | CupPlacedEventMessage;
+
+// 채널 이름 → DataProcessorService 파서 결과 타입
+export interface TopicChannelPayloads {
+  ros2TopicList: ROS2TopicListMessage;
+  ros2NodeList: ROS2GraphListMessage;
+  ros2ServiceList: ROS2GraphListMessage;
+  jointStates: ROS2JointStateMessage;
+  weight: WeightSensorData;
+  scaleFilters: ScaleFilterReading;
+  targetConcentration: ConcentrationSensorData;
+  concentrationCurrent: ConcentrationCurrentMessage;
+  scenarioEvents: RobotScenarioEvent;
+  sugarDispensed: SugarDispensedEventMessage;
+  cupPlaced: CupPlacedEventMessage;
+  pouringAnalysis: PouringAnalysisMessage;
+  robotControl: RobotControlMessage;
+  robotResponse: RobotResponsePayload;
+  robotStatus: Partial<RobotState>;
+  systemHealth: SystemHealthMessage;
+}
+
+export type TopicChannel = keyof TopicChannelPayloads;
+
+// 채널이 가리키는 매핑 위치 (topics[group][key]) 와 QoS 키 (qos_levels[qos])
+export interface TopicChannelDefinition {
+  group: string;
+  key: string;
+  qos: string;
+  description: string;
+}
@@ -0,0 +1,55 @@
+/**
+ * 전송 계층 타입 정의
+ * 모든 MQTT 데이터 경로(백엔드 WebSocket 브리지, paho 직접 연결, Mock 시뮬레이터, 녹화 재생)가 구현하는 공통 인터페이스와
+ * 하나의 연결을 공유하는 연결 관리자(connectionManager) 상태
+ */
+import { MqttMessage } from './mqttTypes';
+
+// backend: 백엔드 WebSocket 브리지 / paho: 브로커에 MQTT-over-WebSocket 직접 연결 / mock: 시뮬레이터 / replay: 녹화 재생
+export type TransportKind = 'backend' | 'paho' | 'mock' | 'replay';
+
+export type TransportStatus = 'connected' | 'disconnected' | 'connecting';
+
+/**
+ * 전송 계층 - 토픽 라우팅과 구독 참조 카운트는 연결 관리자가 담당하고, 전송 계층은 수신 메시지를 하나의 콜백으로 전달
+ */
+export interface Transport {
+  readonly kind: TransportKind;
+
+  // 이벤트 (연결 관리자가 설정)
+  onMessage?: (message: MqttMessage) => void;
+  onFrame?: (frame: any) => void;                 // MQTT 메시지가 아닌 제어 프레임 (pong, error, emergency ...)
+  onConnectionChange?: (connected: boolean) => void;
+  onError?: (error: any) => void;
+
+  connect(): Promise<void>;
+  disconnect(): void;
+  subscribe(topic: string, qos: 0 | 1 | 2): void;
+  unsubscribe(topic: string): void;
+  publish(topic: string, message: string, qos: 0 | 1 | 2, retained: boolean): void;
+  send(frame: Record<string, any>): boolean;      // 제어 프레임 전송 - 백엔드 브리지 외에는 false
+
+  isConnected(): boolean;
+  getConnectionStatus(): TransportStatus;
+  getLastError(): string | null;
+
+  // 연결 감시 (ConnectionProbe)
+  ping(): boolean;
+  getLastHeartbeat(): number | null;
+  getLatency(): number | null;
+}
+
+export interface TopicSubscription {
+  topic: string;
+  qos: 0 | 1 | 2;
+  refCount: number;                               // 이 토픽을 구독 중인 컨텍스트/훅 수
+}
+
+export interface ConnectionManagerStatus {
+  transport: TransportKind | null;
+  url: string | null;
+  status: TransportStatus;
+  connectionAttempts: number;
+  connectedAt: number | null;                     // ms epoch
+  lastError: string | null;
+}
@@ -0,0 +1,40 @@
+/**
+ * 연결 감시(watchdog) 타입 정의
+ * 백엔드 WebSocket 과 MQTT 브리지 링크의 하트비트를 감시하고, 끊기면 운영자 확인 전까지 모션을 잠근다
+ */
+import { Timestamp } from './robotTypes';
+
+export type WatchdogLink = 'websocket' | 'mqtt';
+
+// unknown: 아직 한 번도 연결되지 않음 / silent: 연결은 유지되지만 응답 없음 / down: 연결 끊김
+export type LinkHealthState = 'unknown' | 'ok' | 'silent' | 'down';
+
+// 링크가 감시자에게 제공하는 상태 조회/ping 함수
+export interface ConnectionProbe {
+  isConnected: () => boolean;
+  ping: () => boolean;                      // 연결이 없으면 false
+  getLastHeartbeat: () => number | null;    // 마지막 수신 시각 (ms epoch)
+  getLatency: () => number | null;          // 마지막 ping → pong 왕복 시간 (ms)
+}
+
+export interface LinkHealth {
+  link: WatchdogLink;
+  label: string;
+  state: LinkHealthState;
+  lastHeartbeat: number | null;
+  latency: number | null;
+}
+
+// 링크 끊김 시 정지 명령 결과 (none: 이동 중이 아니어서 보내지 않음)
+export type WatchdogStopResult = 'none' | 'pending' | 'sent' | 'failed';
+
+export interface WatchdogStatus {
+  enabled: boolean;                         // Mock 모드에서는 감시하지 않음
+  timeout: number;                          // 무응답 판정 시간 (ms)
+  degraded: boolean;                        // 운영자 확인 전까지 유지 - 모션 잠금
+  reason: string | null;
+  trippedAt: Timestamp | null;
+  stopResult: WatchdogStopResult;
+  canAcknowledge: boolean;                  // 모든 링크가 복구되어야 확인 가능
+  links: LinkHealth[];
+}
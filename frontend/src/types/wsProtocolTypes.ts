@@ -0,0 +1,168 @@
+/**
+ * 백엔드 WebSocket 프로토콜 타입 정의 (버전 관리)
+ * 프레임 종류/필드의 런타임 정의는 configs/websocket/protocol.json (백엔드와 공유) - 필드를 바꾸면 스키마와 이 타입을 함께 수정
+ *
+ * 핸드셰이크:
+ *  1. 서버 → connection { clientId, protocolVersion, supportedVersions }   (접속 직후 환영 프레임)
+ *  2. 클라이언트 → connection_ack { clientId, protocolVersion }            (협상된 버전 통보)
+ *  3. 클라이언트 → connection { protocolVersion } → 서버 → connection_acknowledged { protocolVersion }
+ * 환영 프레임에 protocolVersion 이 없으면 구버전 서버로 보고 호환 모드(검증 완화)로 동작한다.
+ */
+import { Timestamp } from './robotTypes';
+
+// 협상 결과 - strict: 프레임 검증 / compat: 구버전 서버, 검증 실패도 최대한 전달
+export type WsProtocolMode = 'pending' | 'strict' | 'compat';
+
+export type WsErrorCode =
+  | 'invalid_json'           // JSON 파싱 실패
+  | 'invalid_frame'          // 필수 필드 누락 / 타입 불일치
+  | 'unknown_type'           // 알 수 없는 프레임 종류
+  | 'unsupported_version';   // 지원하지 않는 프로토콜 버전
+
+// ===== 서버 → 클라이언트 =====
+export interface WsServerHelloFrame {
+  type: 'connection';
+  clientId: string;
+  message?: string;
+  protocolVersion?: number;            // 없으면 구버전 서버
+  supportedVersions?: number[];
+  timestamp: Timestamp;
+}
+
+export interface WsConnectionAcknowledgedFrame {
+  type: 'connection_acknowledged';
+  message?: string;
+  protocolVersion?: number;
+  serverTime: Timestamp;
+}
+
+export interface WsPongFrame {
+  type: 'pong';
+  timestamp: Timestamp;
+  originalTimestamp?: Timestamp;       // 클라이언트 ping 의 timestamp (왕복 시간 계산)
+}
+
+export interface WsSubscribedFrame {
+  type: 'subscribed' | 'unsubscribed';
+  topic: string;
+  timestamp: Timestamp;
+}
+
+export interface WsMqttMessageFrame {
+  type: 'mqtt_message';
+  topic: string;
+  data: any;
+  timestamp: Timestamp;
+}
+
+export interface WsSensorDataFrame {
+  type: 'sensor_data';
+  sensor: string;                      // 'weight' | 'concentration' ...
+  topic?: string;                      // 없으면 센서 이름으로 토픽 레지스트리 조회
+  data: any;
+  timestamp: Timestamp;
+}
+
+export interface WsRos2TopicsFrame {
+  type: 'ros2_topics';
+  topic?: string;
+  data: any;
+  timestamp: Timestamp;
+}
+
+export interface WsConcentrationFrame {
+  type: 'concentration';
+  topic?: string;
+  data: any;
+  timestamp: Timestamp;
+}
+
+export interface WsStatusFrame {
+  type: 'status';
+  data: any;
+  timestamp: Timestamp;
+}
+
+export interface WsErrorFrame {
+  type: 'error';
+  code: WsErrorCode;
+  message: string;
+  requestType?: string;                // 오류를 일으킨 클라이언트 프레임 종류
+  error?: string;                      // 구버전 서버는 message 대신 error 문자열로 보냄 (호환 모드)
+  timestamp: Timestamp;
+}
+
+export interface WsEmergencyFrame {
+  type: 'emergency';
+  message?: string;
+  data?: any;
+  timestamp: Timestamp;
+}
+
+// 토픽 데이터를 실어 나르는 프레임 (MqttMessage 로 변환)
+export type WsDataFrame = WsMqttMessageFrame | WsSensorDataFrame | WsRos2TopicsFrame | WsConcentrationFrame;
+
+export type WsServerFrame =
+  | WsServerHelloFrame
+  | WsConnectionAcknowledgedFrame
+  | WsPongFrame
+  | WsSubscribedFrame
+  | WsDataFrame
+  | WsStatusFrame
+  | WsErrorFrame
+  | WsEmergencyFrame;
+
+export type WsServerFrameType = WsServerFrame['type'];
+
+// ===== 클라이언트 → 서버 =====
+export interface WsClientHelloFrame {
+  type: 'connection';
+  protocolVersion: number;
+  clientId?: string;
+  userAgent?: string;
+  timestamp: Timestamp;
+}
+
+export interface WsClientAckFrame {
+  type: 'connection_ack';
+  clientId: string;
+  protocolVersion: number;
+  timestamp: Timestamp;
+}
+
+export interface WsSubscribeFrame {
+  type: 'subscribe';
+  topic: string;
+  qos?: 0 | 1 | 2;
+}
+
+export interface WsUnsubscribeFrame {
+  type: 'unsubscribe';
+  topic: string;
+}
+
+export interface WsPingFrame {
+  type: 'ping';
+  timestamp: Timestamp;
+}
+
+export interface WsCommandFrame {
+  type: 'command';
+  command: string;
+  [key: string]: any;
+}
+
+export type WsClientFrame =
+  | WsClientHelloFrame
+  | WsClientAckFrame
+  | WsSubscribeFrame
+  | WsUnsubscribeFrame
+  | WsPingFrame
+  | WsCommandFrame;
+
+export type WsClientFrameType = WsClientFrame['type'];
+
+// 런타임 검증 결과
+export type WsFrameValidation<T> =
+  | { ok: true; frame: T }
+  | { ok: false; code: WsErrorCode; message: string; type?: string };
@@ -0,0 +1,83 @@
+/**
+ * 센서 알람 조건 판정 - 임계값/변화율 규칙의 심각도 계산 (히스테리시스 포함)
+ * 지연(on/off delay)과 알람 상태 관리는 sensorAlarmService 가 담당
+ */
+import { SensorAlarmRule, SensorAlarmSeverity, SensorConfig } from '../types/sensorTypes';
+import { TimedSample } from './filterMetrics';
+
+type Limits = SensorConfig['alarmThresholds']['warning'];
+
+export interface AlarmCondition {
+  severity: SensorAlarmSeverity;
+  value: number;     // 판정에 사용한 값 (rate 는 초당 변화량)
+  limit: number;     // 넘어선 기준값
+  above: boolean;    // 상한 초과(true) / 하한 미만(false)
+}
+
+/**
+ * 기준 초과 여부 - margin 만큼 안쪽으로 들어와야 정상으로 판단 (활성 알람 해제용 히스테리시스)
+ */
+const checkLimits = (limits: Limits | undefined, value: number, margin: number): { limit: number; above: boolean } | null => {
+  if (!limits) return null;
+  if (limits.max !== undefined && value > limits.max - margin) return { limit: limits.max, above: true };
+  if (limits.min !== undefined && value < limits.min + margin) return { limit: limits.min, above: false };
+  return null;
+};
+
+const evaluateLimits = (
+  thresholds: SensorConfig['alarmThresholds'],
+  value: number,
+  current: SensorAlarmSeverity | null,
+  hysteresis: number
+): AlarmCondition | null => {
+  const critical = checkLimits(thresholds.critical, value, current === 'critical' ? hysteresis : 0);
+  if (critical) return { severity: 'critical', value, ...critical };
+  const warning = checkLimits(thresholds.warning, value, current ? hysteresis : 0);
+  if (warning) return { severity: 'warning', value, ...warning };
+  return null;
+};
+
+/**
+ * 임계값 규칙 - current 는 현재 발생 중인 알람 심각도 (없으면 null)
+ */
+export const evaluateThreshold = (
+  rule: SensorAlarmRule,
+  value: number,
+  current: SensorAlarmSeverity | null
+): AlarmCondition | null => {
+  if (!rule.thresholds) return null;
+  return evaluateLimits(rule.thresholds, value, current, rule.hysteresis);
+};
+
+/**
+ * 구간 변화율 (단위/s) - 구간 첫 샘플과 마지막 샘플 기준
+ */
+export const computeRate = (samples: TimedSample[]): number | null => {
+  if (samples.length < 2) return null;
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  const dt = (last.timestamp - first.timestamp) / 1000;
+  return dt > 0 ? (last.value - first.value) / dt : null;
+};
+
+/**
+ * 변화율 규칙 - 감시 방향으로 부호를 맞춘 변화율을 상한(max) 기준으로 판정
+ */
+export const evaluateRate = (
+  rule: SensorAlarmRule,
+  samples: TimedSample[],
+  current: SensorAlarmSeverity | null
+): AlarmCondition | null => {
+  const rate = computeRate(samples);
+  if (rate === null || !rule.thresholds) return null;
+
+  const direction = rule.direction || 'both';
+  const signed = direction === 'rise' ? rate : direction === 'fall' ? -rate : Math.abs(rate);
+  const condition = evaluateLimits(
+    { warning: { max: rule.thresholds.warning.max }, critical: { max: rule.thresholds.critical.max } },
+    signed,
+    current,
+    rule.hysteresis
+  );
+  return condition ? { ...condition, value: rate } : null;
+};
@@ -0,0 +1,171 @@
+/**
+ * 파생 시리즈 수식 - 사칙연산, 괄호, 단항 -, 숫자, 시리즈 변수, abs/min/max/sqrt 함수
+ * 예: a - b, a / b * 100, abs(a - b)
+ * eval 을 쓰지 않고 직접 파싱한다.
+ */
+
+type ExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'variable'; name: string }
+  | { type: 'unary'; operand: ExpressionNode }
+  | { type: 'binary'; operator: '+' | '-' | '*' | '/'; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] };
+
+export interface CompiledExpression {
+  source: string;
+  variables: string[];
+  evaluate: (values: Record<string, number>) => number | null;
+}
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  abs: Math.abs,
+  min: Math.min,
+  max: Math.max,
+  sqrt: Math.sqrt
+};
+
+const TOKEN_PATTERN = /\s*(?:(\d+(?:\.\d+)?(?:e[+-]?\d+)?)|([A-Za-z_][A-Za-z0-9_]*)|(\S))/gy;
+
+const tokenize = (source: string): string[] => {
+  const tokens: string[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN_PATTERN.exec(source)) !== null) {
+    tokens.push(match[1] || match[2] || match[3]);
+    if (TOKEN_PATTERN.lastIndex >= source.length) break;
+  }
+  return tokens.filter(token => token !== undefined);
+};
+
+const parse = (source: string): ExpressionNode => {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) {
+      throw new Error(`수식 오류: '${token}' 가 필요합니다`);
+    }
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = next();
+    if (token === undefined) {
+      throw new Error('수식 오류: 식이 끝나지 않았습니다');
+    }
+    if (token === '(') {
+      const node = parseAdditive();
+      expect(')');
+      return node;
+    }
+    if (token === '-') {
+      return { type: 'unary', operand: parsePrimary() };
+    }
+    if (/^\d/.test(token)) {
+      return { type: 'number', value: Number(token) };
+    }
+    if (/^[A-Za-z_]/.test(token)) {
+      if (peek() !== '(') return { type: 'variable', name: token };
+      if (!FUNCTIONS[token]) {
+        throw new Error(`수식 오류: 알 수 없는 함수 ${token}`);
+      }
+      next();
+      const args: ExpressionNode[] = [parseAdditive()];
+      while (peek() === ',') {
+        next();
+        args.push(parseAdditive());
+      }
+      expect(')');
+      return { type: 'call', name: token, args };
+    }
+    throw new Error(`수식 오류: 예상치 못한 '${token}'`);
+  };
+
+  const parseMultiplicative = (): ExpressionNode => {
+    let node = parsePrimary();
+    while (peek() === '*' || peek() === '/') {
+      const operator = next() as '*' | '/';
+      node = { type: 'binary', operator, left: node, right: parsePrimary() };
+    }
+    return node;
+  };
+
+  const parseAdditive = (): ExpressionNode => {
+    let node = parseMultiplicative();
+    while (peek() === '+' || peek() === '-') {
+      const operator = next() as '+' | '-';
+      node = { type: 'binary', operator, left: node, right: parseMultiplicative() };
+    }
+    return node;
+  };
+
+  if (tokens.length === 0) {
+    throw new Error('수식 오류: 빈 수식');
+  }
+  const root = parseAdditive();
+  if (position < tokens.length) {
+    throw new Error(`수식 오류: 예상치 못한 '${tokens[position]}'`);
+  }
+  return root;
+};
+
+const collectVariables = (node: ExpressionNode, names: Set<string>): Set<string> => {
+  switch (node.type) {
+    case 'variable':
+      names.add(node.name);
+      break;
+    case 'unary':
+      collectVariables(node.operand, names);
+      break;
+    case 'binary':
+      collectVariables(node.left, names);
+      collectVariables(node.right, names);
+      break;
+    case 'call':
+      node.args.forEach(arg => collectVariables(arg, names));
+      break;
+  }
+  return names;
+};
+
+const evaluateNode = (node: ExpressionNode, values: Record<string, number>): number => {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'variable':
+      return values[node.name];
+    case 'unary':
+      return -evaluateNode(node.operand, values);
+    case 'call':
+      return FUNCTIONS[node.name](...node.args.map(arg => evaluateNode(arg, values)));
+    case 'binary': {
+      const left = evaluateNode(node.left, values);
+      const right = evaluateNode(node.right, values);
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return left / right;
+      }
+    }
+  }
+  return NaN;
+};
+
+/**
+ * 수식 컴파일 - 문법 오류는 Error 로 던지고, 평가 시 변수가 없거나 결과가 유한하지 않으면 null
+ */
+export const compileExpression = (source: string): CompiledExpression => {
+  const root = parse(source);
+  const variables = Array.from(collectVariables(root, new Set<string>()));
+  return {
+    source,
+    variables,
+    evaluate: (values) => {
+      if (variables.some(name => values[name] === undefined)) return null;
+      const result = evaluateNode(root, values);
+      return isFinite(result) ? result : null;
+    }
+  };
+};
@@ -0,0 +1,223 @@
+/**
+ * 내보내기 직렬화 - CSV(long 형식) / NDJSON / 컬럼형 JSON
+ * 데이터 수집과 압축/다운로드는 dataExportService 가 담당 (감사 로그는 auditService, MQTT 녹화는 mqttInspectorService)
+ */
+import { ExportDataset, ExportEvent, ExportSeries } from '../types/exportTypes';
+import { AuditEntry } from '../types/auditTypes';
+import { RecordedMessage, RecordingMetadata } from '../types/inspectorTypes';
+
+// 값 행 - 시리즈 샘플과 이벤트를 같은 열 구성으로 표현
+interface ExportRow {
+  timestamp: number;
+  channel: string;
+  avg?: number;
+  min?: number;
+  max?: number;
+  count?: number;
+  eventType?: string;
+  message?: string;
+  data?: Record<string, any>;
+}
+
+const CSV_COLUMNS = ['timestamp_ms', 'time_iso', 'channel', 'avg', 'min', 'max', 'count', 'event_type', 'message'];
+
+const csvCell = (value: string | number | undefined): string => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toRows = (dataset: ExportDataset): ExportRow[] => [
+  ...dataset.series.flatMap(series => series.points.map(point => ({
+    timestamp: point.timestamp,
+    channel: series.channel.id,
+    avg: point.avg,
+    min: point.min,
+    max: point.max,
+    count: point.count
+  }))),
+  ...dataset.events.map(event => ({
+    timestamp: event.timestamp,
+    channel: event.channel,
+    eventType: event.type,
+    message: event.message,
+    data: event.data
+  }))
+].sort((a, b) => a.timestamp - b.timestamp);
+
+/**
+ * CSV - '#' 주석 줄에 메타데이터, 이후 timestamp/channel 기준 long 형식
+ * (pandas: read_csv(path, comment='#') 후 pivot)
+ */
+export const toCsv = (dataset: ExportDataset): string => {
+  const { metadata } = dataset;
+  const header = [
+    `# generated_at: ${metadata.generatedAt}`,
+    `# range: ${metadata.from} ~ ${metadata.to}`,
+    `# interval_ms: ${metadata.interval}`,
+    `# aggregation: ${metadata.aggregation}`,
+    `# official_scale_filter: ${metadata.officialScaleFilter}`,
+    `# timezone: ${metadata.timezone}`,
+    ...metadata.channels.map(channel =>
+      `# channel ${channel.id}: label=${channel.label}, kind=${channel.kind}` +
+      `${channel.unit ? `, unit=${channel.unit}` : ''}` +
+      `${channel.filter ? `, filter=${channel.filter}` : ''}` +
+      `${channel.sourceResolution ? `, source_resolution=${channel.sourceResolution}` : ''}` +
+      `, rows=${channel.rows}`
+    )
+  ];
+  const rows = toRows(dataset).map(row => [
+    row.timestamp,
+    new Date(row.timestamp).toISOString(),
+    row.channel,
+    row.avg,
+    row.min,
+    row.max,
+    row.count,
+    row.eventType,
+    row.message
+  ].map(csvCell).join(','));
+  return [...header, CSV_COLUMNS.join(','), ...rows].join('\n');
+};
+
+/**
+ * NDJSON - 첫 줄 metadata, 이후 sample / event 레코드 한 줄씩
+ */
+export const toNdjson = (dataset: ExportDataset): string => [
+  JSON.stringify({ type: 'metadata', ...dataset.metadata }),
+  ...toRows(dataset).map(row => JSON.stringify(
+    row.eventType === undefined
+      ? { type: 'sample', channel: row.channel, timestamp: row.timestamp, avg: row.avg, min: row.min, max: row.max, count: row.count }
+      : { type: 'event', channel: row.channel, timestamp: row.timestamp, event_type: row.eventType, message: row.message, data: row.data }
+  ))
+].join('\n') + '\n';
+
+const seriesColumns = (series: ExportSeries) => ({
+  unit: series.channel.unit,
+  filter: series.channel.filter,
+  source_resolution: series.sourceResolution,
+  timestamp: series.points.map(point => point.timestamp),
+  avg: series.points.map(point => point.avg),
+  min: series.points.map(point => point.min),
+  max: series.points.map(point => point.max),
+  count: series.points.map(point => point.count)
+});
+
+const eventColumns = (events: ExportEvent[]) => ({
+  timestamp: events.map(event => event.timestamp),
+  event_type: events.map(event => event.type),
+  message: events.map(event => event.message),
+  data: events.map(event => event.data)
+});
+
+/**
+ * 컬럼형 JSON - 채널별 열 배열 (pandas: DataFrame(bundle['series'][channel]))
+ */
+export const toColumnar = (dataset: ExportDataset): string => {
+  const series = dataset.series.reduce<Record<string, ReturnType<typeof seriesColumns>>>(
+    (result, item) => ({ ...result, [item.channel.id]: seriesColumns(item) }),
+    {}
+  );
+  const eventChannels = Array.from(new Set(dataset.events.map(event => event.channel)));
+  const events = eventChannels.reduce<Record<string, ReturnType<typeof eventColumns>>>(
+    (result, channel) => ({ ...result, [channel]: eventColumns(dataset.events.filter(event => event.channel === channel)) }),
+    {}
+  );
+  return JSON.stringify({ metadata: dataset.metadata, series, events });
+};
+
+// ===== 감사 로그 =====
+const AUDIT_CSV_COLUMNS = [
+  'timestamp_ms', 'time_iso', 'category', 'action', 'result', 'latency_ms', 'username', 'role', 'source',
+  'command_id', 'message', 'params', 'robot_status', 'safety_status', 'joint_positions'
+];
+
+/**
+ * 감사 로그 CSV - 파라미터는 JSON 문자열, 관절 위치는 ';' 구분
+ */
+export const toAuditCsv = (entries: AuditEntry[]): string => [
+  AUDIT_CSV_COLUMNS.join(','),
+  ...entries.map(entry => [
+    entry.timestamp,
+    new Date(entry.timestamp).toISOString(),
+    entry.category,
+    entry.action,
+    entry.result,
+    entry.latencyMs,
+    entry.user.username ?? '',
+    entry.user.role,
+    entry.source,
+    entry.commandId,
+    entry.message,
+    entry.params ? JSON.stringify(entry.params) : undefined,
+    entry.robotState?.status,
+    entry.robotState?.safetyStatus,
+    entry.robotState?.jointPositions.map(position => position.toFixed(2)).join(';')
+  ].map(csvCell).join(','))
+].join('\n');
+
+/**
+ * 감사 로그 NDJSON - 항목 하나당 한 줄
+ */
+export const toAuditNdjson = (entries: AuditEntry[]): string =>
+  entries.map(entry => JSON.stringify({ ...entry, time_iso: new Date(entry.timestamp).toISOString() })).join('\n') + '\n';
+
+// ===== MQTT 녹화 =====
+export const RECORDING_VERSION = 1;
+
+/**
+ * MQTT 녹화 NDJSON - 첫 줄 metadata, 이후 수신 순서대로 message 한 줄씩
+ */
+export const toRecordingNdjson = (metadata: RecordingMetadata, messages: RecordedMessage[]): string => [
+  JSON.stringify({ type: 'metadata', ...metadata }),
+  ...messages.map(message => JSON.stringify({
+    type: 'message',
+    offset: message.offset,
+    topic: message.topic,
+    message_type: message.type,
+    data: message.data,
+    timestamp: message.timestamp
+  }))
+].join('\n') + '\n';
+
+/**
+ * MQTT 녹화 NDJSON 읽기 - metadata 줄이 없거나 형식이 다르면 Error, 메시지는 offset 순으로 정렬
+ */
+export const parseRecordingNdjson = (text: string): { metadata: RecordingMetadata; messages: RecordedMessage[] } => {
+  let metadata: RecordingMetadata | null = null;
+  const messages: RecordedMessage[] = [];
+
+  text.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+    let record: any;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new Error(`${index + 1}번째 줄이 올바른 JSON 이 아닙니다`);
+    }
+
+    if (record.type === 'metadata') {
+      if (record.format !== 'mqtt_recording') {
+        throw new Error(`지원하지 않는 녹화 형식입니다: ${record.format}`);
+      }
+      if (record.version > RECORDING_VERSION) {
+        throw new Error(`더 새로운 녹화 버전입니다 (v${record.version}) - 대시보드를 업데이트하세요`);
+      }
+      const { type, ...rest } = record;
+      metadata = rest as RecordingMetadata;
+    } else if (record.type === 'message' && typeof record.topic === 'string' && typeof record.offset === 'number') {
+      messages.push({
+        offset: Math.max(0, record.offset),
+        topic: record.topic,
+        type: record.message_type || 'message',
+        data: record.data,
+        timestamp: record.timestamp
+      });
+    }
+  });
+
+  if (!metadata) {
+    throw new Error('MQTT 녹화 파일이 아닙니다 (metadata 줄 없음)');
+  }
+  return { metadata, messages: messages.sort((a, b) => a.offset - b.offset) };
+};
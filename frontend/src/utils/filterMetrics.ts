@@ -0,0 +1,170 @@
+/**
+ * 저울 필터 성능 지표 - raw 채널을 기준으로 지연, 노이즈, 계단 응답을 계산
+ * 모든 입력은 timestamp(ms) 오름차순 샘플
+ */
+import { ScaleStepResponse } from '../types/sensorTypes';
+
+export interface TimedSample {
+  timestamp: number;
+  value: number;
+}
+
+const MIN_LAG_VARIANCE = 1;     // g² - raw 변동이 이보다 작으면 지연 추정 불가
+const SETTLING_BAND = 0.02;     // 계단 크기 대비 ±2%
+const STEP_MIN_SAMPLES = 5;
+
+const mean = (values: number[]): number =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const variance = (values: number[]): number => {
+  const avg = mean(values);
+  return values.reduce((sum, value) => sum + (value - avg) ** 2, 0) / values.length;
+};
+
+/**
+ * 기준 시각들에 대해 직전 샘플 값 유지(zero-order hold) 방식으로 재표본화
+ */
+export const resampleHold = (samples: TimedSample[], timestamps: number[]): Array<number | null> => {
+  const result: Array<number | null> = [];
+  let index = -1;
+  timestamps.forEach(timestamp => {
+    while (index + 1 < samples.length && samples[index + 1].timestamp <= timestamp) index++;
+    result.push(index >= 0 ? samples[index].value : null);
+  });
+  return result;
+};
+
+const medianInterval = (samples: TimedSample[]): number => {
+  const intervals = samples
+    .slice(1)
+    .map((sample, index) => sample.timestamp - samples[index].timestamp)
+    .sort((a, b) => a - b);
+  return intervals.length > 0 ? intervals[Math.floor(intervals.length / 2)] : 0;
+};
+
+/**
+ * 지연 추정 - 필터 곡선을 raw 에 k 샘플 늦춰 맞췄을 때 평균 제곱 오차가 최소인 k (ms 환산)
+ */
+export const estimateLag = (raw: TimedSample[], filtered: TimedSample[], maxLagMs = 3000): number | null => {
+  if (raw.length < 10 || filtered.length < 10) return null;
+  if (variance(raw.map(sample => sample.value)) < MIN_LAG_VARIANCE) return null;
+
+  const interval = medianInterval(raw);
+  if (interval <= 0) return null;
+
+  const rawValues = raw.map(sample => sample.value);
+  const filteredValues = resampleHold(filtered, raw.map(sample => sample.timestamp));
+  const maxShift = Math.min(Math.floor(maxLagMs / interval), Math.floor(raw.length / 2));
+
+  let bestShift = 0;
+  let bestError = Infinity;
+  for (let shift = 0; shift <= maxShift; shift++) {
+    let error = 0;
+    let count = 0;
+    for (let i = shift; i < rawValues.length; i++) {
+      const value = filteredValues[i];
+      if (value === null) continue;
+      error += (value - rawValues[i - shift]) ** 2;
+      count++;
+    }
+    if (count > 0 && error / count < bestError) {
+      bestError = error / count;
+      bestShift = shift;
+    }
+  }
+  return bestShift * interval;
+};
+
+const detrendedStd = (samples: TimedSample[]): number => {
+  const t0 = samples[0].timestamp;
+  const xs = samples.map(sample => (sample.timestamp - t0) / 1000);
+  const ys = samples.map(sample => sample.value);
+  const xMean = mean(xs);
+  const yMean = mean(ys);
+  const sxx = xs.reduce((sum, x) => sum + (x - xMean) ** 2, 0);
+  const slope = sxx > 0 ? xs.reduce((sum, x, i) => sum + (x - xMean) * (ys[i] - yMean), 0) / sxx : 0;
+  const residuals = ys.map((y, i) => y - (yMean + slope * (xs[i] - xMean)));
+  return Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / residuals.length);
+};
+
+/**
+ * 노이즈 - window 샘플 구간의 선형 추세 제거 잔차 표준편차
+ * 붓기 시작/종료 꺾임이 섞인 구간을 피하도록 보관 구간 내 최솟값을 사용
+ */
+export const estimateNoise = (samples: TimedSample[], window = 25): number | null => {
+  if (samples.length < 3) return null;
+  if (samples.length <= window) return detrendedStd(samples);
+
+  let best = Infinity;
+  for (let start = 0; start + window <= samples.length; start++) {
+    best = Math.min(best, detrendedStd(samples.slice(start, start + window)));
+  }
+  return best;
+};
+
+/**
+ * raw 에서 가장 최근 계단 변화 검출 (인접 샘플 차이가 threshold 이상)
+ * 계단 이후 raw 가 새 수준에서 threshold 이상 벗어나는 시점까지를 응답 구간으로 사용
+ */
+export const detectStep = (
+  raw: TimedSample[],
+  threshold = 10
+): { index: number; endIndex: number; before: number; after: number } | null => {
+  for (let i = raw.length - STEP_MIN_SAMPLES; i >= 1; i--) {
+    if (Math.abs(raw[i].value - raw[i - 1].value) < threshold) continue;
+    const before = mean(raw.slice(Math.max(0, i - STEP_MIN_SAMPLES), i).map(sample => sample.value));
+    const after = mean(raw.slice(i, i + STEP_MIN_SAMPLES).map(sample => sample.value));
+    if (Math.abs(after - before) < threshold) return null;
+
+    let endIndex = i + STEP_MIN_SAMPLES;
+    while (endIndex < raw.length && Math.abs(raw[endIndex].value - after) < threshold) endIndex++;
+    return { index: i, endIndex, before, after };
+  }
+  return null;
+};
+
+/**
+ * 계단 응답 - 상승 시간(10→90%), 오버슈트(%), 정착 시간(±2%)
+ */
+export const computeStepResponse = (
+  raw: TimedSample[],
+  filtered: TimedSample[],
+  threshold = 10
+): ScaleStepResponse | null => {
+  const step = detectStep(raw, threshold);
+  if (!step) return null;
+
+  const stepAt = raw[step.index].timestamp;
+  const stepEnd = step.endIndex < raw.length ? raw[step.endIndex].timestamp : Infinity;
+  const stepSize = step.after - step.before;
+  const beforeStep = filtered.filter(sample => sample.timestamp < stepAt);
+  const response = filtered.filter(sample => sample.timestamp >= stepAt && sample.timestamp < stepEnd);
+  if (beforeStep.length === 0 || response.length < STEP_MIN_SAMPLES) return null;
+
+  const initial = beforeStep[beforeStep.length - 1].value;
+  const progress = (value: number) => (value - initial) / (step.after - initial || stepSize);
+
+  const t10 = response.find(sample => progress(sample.value) >= 0.1);
+  const t90 = response.find(sample => progress(sample.value) >= 0.9);
+  const riseTime = t10 && t90 ? (t90.timestamp - t10.timestamp) / 1000 : null;
+
+  const direction = Math.sign(stepSize);
+  const peakExcess = Math.max(0, ...response.map(sample => (sample.value - step.after) * direction));
+  const overshoot = (peakExcess / Math.abs(stepSize)) * 100;
+
+  // 구간 끝에서 raw 자체가 밴드를 벗어난 샘플(다음 변화 시작)은 정착 판단에서 제외
+  const band = Math.abs(stepSize) * SETTLING_BAND;
+  const rawAtResponse = resampleHold(raw, response.map(sample => sample.timestamp));
+  let settleEnd = response.length;
+  while (settleEnd > 0 && Math.abs((rawAtResponse[settleEnd - 1] ?? step.after) - step.after) > band) settleEnd--;
+  let lastOutside = -1;
+  response.slice(0, settleEnd).forEach((sample, index) => {
+    if (Math.abs(sample.value - step.after) > band) lastOutside = index;
+  });
+  let settlingTime: number | null = null;
+  if (lastOutside < settleEnd - 1) {
+    settlingTime = (response[lastOutside + 1].timestamp - stepAt) / 1000;
+  }
+
+  return { stepAt, stepSize, riseTime, overshoot, settlingTime };
+};
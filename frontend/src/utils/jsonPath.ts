@@ -0,0 +1,58 @@
+/**
+ * 페이로드 JSON 경로 - 점/대괄호 표기 (data.values[2], position.0)
+ */
+
+const MAX_DEPTH = 5;
+const MAX_ARRAY_ITEMS = 16;
+const MAX_FIELDS = 200;
+
+export const parsePath = (path: string): string[] =>
+  path
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .map(part => part.trim())
+    .filter(part => part.length > 0);
+
+/**
+ * 경로 값 조회 - 빈 경로는 페이로드 자체
+ */
+export const getPathValue = (payload: any, path: string): any =>
+  parsePath(path).reduce((value, key) => (value === null || value === undefined ? undefined : value[key]), payload);
+
+/**
+ * 숫자로 해석 가능한 값 (숫자 문자열, boolean 포함)
+ */
+export const toNumber = (value: any): number | null => {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+/**
+ * 숫자 필드 경로 목록 (배열은 앞쪽 MAX_ARRAY_ITEMS 개까지)
+ */
+export const listNumericPaths = (payload: any): string[] => {
+  const paths: string[] = [];
+
+  const walk = (value: any, path: string, depth: number) => {
+    if (paths.length >= MAX_FIELDS) return;
+    if (toNumber(value) !== null && typeof value !== 'string') {
+      paths.push(path);
+      return;
+    }
+    if (depth >= MAX_DEPTH || value === null || typeof value !== 'object') return;
+
+    if (Array.isArray(value)) {
+      value.slice(0, MAX_ARRAY_ITEMS).forEach((item, index) => walk(item, `${path}[${index}]`, depth + 1));
+      return;
+    }
+    Object.keys(value).forEach(key => walk(value[key], path ? `${path}.${key}` : key, depth + 1));
+  };
+
+  walk(payload, '', 0);
+  return paths;
+};
@@ -0,0 +1,91 @@
+/**
+ * 페이로드 스키마 추론 - 수신한 JSON 값으로 JSON Schema 부분집합을 만들고 메시지마다 병합
+ */
+import { InferredSchema, JsonValueType } from '../types/inspectorTypes';
+
+const MAX_DEPTH = 6;
+const MAX_PROPERTIES = 100;
+const MAX_ARRAY_ITEMS = 20;
+
+const valueType = (value: any): JsonValueType => {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'object') return 'object';
+  return 'string';
+};
+
+// integer 와 number 가 섞이면 number 로
+const unionTypes = (a: JsonValueType[], b: JsonValueType[]): JsonValueType[] => {
+  const types = Array.from(new Set([...a, ...b]));
+  return types.indexOf('number') !== -1 ? types.filter(type => type !== 'integer') : types;
+};
+
+/**
+ * 두 스키마 병합 - 타입 합집합, 속성 합집합, required 는 교집합
+ */
+export const mergeSchemas = (a: InferredSchema, b: InferredSchema): InferredSchema => {
+  const merged: InferredSchema = { type: unionTypes(a.type, b.type) };
+
+  if (a.properties || b.properties) {
+    const properties: Record<string, InferredSchema> = { ...(a.properties ?? {}) };
+    Object.keys(b.properties ?? {}).forEach(key => {
+      properties[key] = properties[key] ? mergeSchemas(properties[key], b.properties![key]) : b.properties![key];
+    });
+    merged.properties = properties;
+    // 한쪽이 객체가 아니었으면 그쪽 required 는 제약 없음
+    const required = a.properties && b.properties
+      ? (a.required ?? []).filter(key => (b.required ?? []).indexOf(key) !== -1)
+      : a.required ?? b.required ?? [];
+    merged.required = required;
+  }
+
+  if (a.items || b.items) {
+    merged.items = a.items && b.items ? mergeSchemas(a.items, b.items) : a.items ?? b.items;
+  }
+  return merged;
+};
+
+/**
+ * 값 하나의 스키마 (깊이/속성 수/배열 항목 수 제한)
+ */
+export const inferSchema = (value: any, depth = 0): InferredSchema => {
+  const type = valueType(value);
+  const schema: InferredSchema = { type: [type] };
+  if (depth >= MAX_DEPTH) return schema;
+
+  if (type === 'object') {
+    const keys = Object.keys(value).slice(0, MAX_PROPERTIES);
+    schema.properties = keys.reduce<Record<string, InferredSchema>>(
+      (properties, key) => ({ ...properties, [key]: inferSchema(value[key], depth + 1) }),
+      {}
+    );
+    schema.required = keys;
+  } else if (type === 'array' && value.length > 0) {
+    schema.items = (value as any[])
+      .slice(0, MAX_ARRAY_ITEMS)
+      .map(item => inferSchema(item, depth + 1))
+      .reduce(mergeSchemas);
+  }
+  return schema;
+};
+
+/**
+ * 읽기 쉬운 한 줄 요약 목록 - 'data.weight: number', 'topics[]: string'
+ */
+export const describeSchema = (schema: InferredSchema, path = ''): string[] => {
+  const label = path || '(root)';
+  const optional = (key: string) => schema.required && schema.required.indexOf(key) === -1 ? '?' : '';
+  const lines = [`${label}: ${schema.type.join(' | ')}`];
+
+  if (schema.properties) {
+    Object.keys(schema.properties).forEach(key => {
+      lines.push(...describeSchema(schema.properties![key], `${path ? `${path}.` : ''}${key}${optional(key)}`));
+    });
+  }
+  if (schema.items) {
+    lines.push(...describeSchema(schema.items, `${path}[]`));
+  }
+  return lines;
+};
@@ -0,0 +1,320 @@
+/**
+ * Doosan M0609 기구학 (Forward / Inverse Kinematics)
+ * configs/robot/m0609_specs.json 의 표준 DH 파라미터를 사용
+ *
+ * - 길이: mm, 각도: degrees
+ * - 자세(rx, ry, rz)는 Doosan posx 와 동일한 ZYZ 오일러 각 (A, B, C)
+ * - base.origin / tool.offset 을 체인 앞뒤에 적용
+ */
+import { DHParameter, IKBranch, IKResult, IKSolution, JointLimits, RobotPose } from '../types/robotTypes';
+import { ROBOT_SPECS, getSpecJointLimits } from './robotSpecs';
+
+// 4x4 동차 변환 행렬 (row-major)
+export type Matrix4 = number[][];
+
+const EPSILON = 1e-9;
+const SINGULARITY_THRESHOLD = 1e-4; // sin(θ5) 기준 손목 특이점
+const REACH_TOLERANCE = 1e-6;
+
+const DH_PARAMETERS: DHParameter[] = ROBOT_SPECS.kinematics.dh_parameters;
+
+const toRad = (deg: number): number => (deg * Math.PI) / 180;
+const toDeg = (rad: number): number => (rad * 180) / Math.PI;
+
+// ===== 행렬 유틸리티 =====
+export const identityMatrix = (): Matrix4 => [
+  [1, 0, 0, 0],
+  [0, 1, 0, 0],
+  [0, 0, 1, 0],
+  [0, 0, 0, 1]
+];
+
+export const multiplyMatrices = (a: Matrix4, b: Matrix4): Matrix4 => {
+  const result: Matrix4 = [[0, 0, 0, 0], [0, 0, 0, 0], [0, 0, 0, 0], [0, 0, 0, 0]];
+  for (let i = 0; i < 4; i++) {
+    for (let j = 0; j < 4; j++) {
+      result[i][j] = a[i][0] * b[0][j] + a[i][1] * b[1][j] + a[i][2] * b[2][j] + a[i][3] * b[3][j];
+    }
+  }
+  return result;
+};
+
+// 강체 변환의 역행렬 (R^T, -R^T p)
+export const invertTransform = (m: Matrix4): Matrix4 => {
+  const result = identityMatrix();
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) {
+      result[i][j] = m[j][i];
+    }
+  }
+  for (let i = 0; i < 3; i++) {
+    result[i][3] = -(result[i][0] * m[0][3] + result[i][1] * m[1][3] + result[i][2] * m[2][3]);
+  }
+  return result;
+};
+
+/**
+ * 표준 DH 변환: Rz(θ) · Tz(d) · Tx(a) · Rx(α)
+ */
+export const dhTransform = (param: DHParameter, jointDeg: number): Matrix4 => {
+  const theta = toRad(jointDeg + param.theta_offset);
+  const alpha = toRad(param.alpha);
+  const ct = Math.cos(theta);
+  const st = Math.sin(theta);
+  const ca = Math.cos(alpha);
+  const sa = Math.sin(alpha);
+
+  return [
+    [ct, -st * ca, st * sa, param.a * ct],
+    [st, ct * ca, -ct * sa, param.a * st],
+    [0, sa, ca, param.d],
+    [0, 0, 0, 1]
+  ];
+};
+
+/**
+ * 포즈 → 동차 변환 행렬 (R = Rz(rx) · Ry(ry) · Rz(rz))
+ */
+export const poseToMatrix = (pose: RobotPose): Matrix4 => {
+  const ca = Math.cos(toRad(pose.rx));
+  const sa = Math.sin(toRad(pose.rx));
+  const cb = Math.cos(toRad(pose.ry));
+  const sb = Math.sin(toRad(pose.ry));
+  const cc = Math.cos(toRad(pose.rz));
+  const sc = Math.sin(toRad(pose.rz));
+
+  return [
+    [ca * cb * cc - sa * sc, -ca * cb * sc - sa * cc, ca * sb, pose.x],
+    [sa * cb * cc + ca * sc, -sa * cb * sc + ca * cc, sa * sb, pose.y],
+    [-sb * cc, sb * sc, cb, pose.z],
+    [0, 0, 0, 1]
+  ];
+};
+
+/**
+ * 동차 변환 행렬 → 포즈 (ZYZ 오일러, ry ∈ [0, 180])
+ * ry 가 0 또는 180 인 경우 rx = 0 으로 고정
+ */
+export const matrixToPose = (m: Matrix4): RobotPose => {
+  const sb = Math.sqrt(m[2][0] * m[2][0] + m[2][1] * m[2][1]);
+  let rx: number;
+  let ry: number;
+  let rz: number;
+
+  if (sb > SINGULARITY_THRESHOLD) {
+    rx = Math.atan2(m[1][2], m[0][2]);
+    ry = Math.atan2(sb, m[2][2]);
+    rz = Math.atan2(m[2][1], -m[2][0]);
+  } else if (m[2][2] > 0) {
+    rx = 0;
+    ry = 0;
+    rz = Math.atan2(m[1][0], m[0][0]);
+  } else {
+    rx = 0;
+    ry = Math.PI;
+    rz = Math.atan2(m[1][0], m[1][1]);
+  }
+
+  return {
+    x: m[0][3],
+    y: m[1][3],
+    z: m[2][3],
+    rx: toDeg(rx),
+    ry: toDeg(ry),
+    rz: toDeg(rz)
+  };
+};
+
+const arrayToPose = (values: number[] | undefined): RobotPose => {
+  const [x = 0, y = 0, z = 0, rx = 0, ry = 0, rz = 0] = values || [];
+  return { x, y, z, rx, ry, rz };
+};
+
+const BASE_TRANSFORM = poseToMatrix(arrayToPose(ROBOT_SPECS.coordinate_systems.base.origin));
+const TOOL_TRANSFORM = poseToMatrix(arrayToPose(ROBOT_SPECS.coordinate_systems.tool.offset));
+const BASE_TRANSFORM_INV = invertTransform(BASE_TRANSFORM);
+const TOOL_TRANSFORM_INV = invertTransform(TOOL_TRANSFORM);
+
+const WORK_TRANSFORM = multiplyMatrices(
+  BASE_TRANSFORM,
+  poseToMatrix(arrayToPose(ROBOT_SPECS.coordinate_systems.work.offset))
+);
+
+/**
+ * 사양 좌표계 변환 (base/work: 월드 기준, tool: 플랜지 기준)
+ */
+export const getSpecFrameTransforms = (): { base: Matrix4; tool: Matrix4; work: Matrix4 } => ({
+  base: BASE_TRANSFORM,
+  tool: TOOL_TRANSFORM,
+  work: WORK_TRANSFORM
+});
+
+// ===== Forward Kinematics =====
+
+/**
+ * 각 조인트 프레임의 월드 변환 (base, J1 ... J6 플랜지, TCP 순서, 총 8개)
+ */
+export const forwardKinematicsFrames = (joints: number[]): Matrix4[] => {
+  const frames: Matrix4[] = [BASE_TRANSFORM];
+  let current = BASE_TRANSFORM;
+
+  DH_PARAMETERS.forEach((param, index) => {
+    current = multiplyMatrices(current, dhTransform(param, joints[index] || 0));
+    frames.push(current);
+  });
+
+  frames.push(multiplyMatrices(current, TOOL_TRANSFORM));
+  return frames;
+};
+
+/**
+ * 조인트 각도 → TCP 포즈
+ */
+export const forwardKinematics = (joints: number[]): RobotPose => {
+  const frames = forwardKinematicsFrames(joints);
+  return matrixToPose(frames[frames.length - 1]);
+};
+
+// ===== Inverse Kinematics =====
+
+// 기준 각도와 가장 가까운 동치 각도 (조인트 제한 내에서 우선 선택)
+const unwrapAngle = (angle: number, reference: number, limits: JointLimits): number => {
+  const nearest = angle + 360 * Math.round((reference - angle) / 360);
+  const candidates = [nearest, nearest - 360, nearest + 360]
+    .filter(candidate => candidate >= limits.min - EPSILON && candidate <= limits.max + EPSILON)
+    .sort((a, b) => Math.abs(a - reference) - Math.abs(b - reference));
+
+  return candidates.length > 0 ? candidates[0] : nearest;
+};
+
+const isWithinLimits = (joints: number[], limits: JointLimits[]): boolean => {
+  return joints.every((value, index) =>
+    value >= limits[index].min - EPSILON && value <= limits[index].max + EPSILON
+  );
+};
+
+/**
+ * 손목 해 (θ4, θ5, θ6) - R36 = Rz(θ4)·Rx(-90)·Rz(θ5)·Rx(90)·Rz(θ6)
+ */
+const solveWrist = (r36: Matrix4, flip: boolean, reference: number[]): { angles: number[]; singular: boolean } => {
+  const s5 = Math.sqrt(r36[0][2] * r36[0][2] + r36[1][2] * r36[1][2]);
+
+  if (s5 < SINGULARITY_THRESHOLD) {
+    // θ4 와 θ6 축이 일직선 - θ4 를 현재 값으로 고정
+    const q4 = toRad(reference[3]);
+    const sum = Math.atan2(r36[1][0], r36[1][1]);
+    const q5 = r36[2][2] > 0 ? 0 : Math.PI;
+    const q6 = r36[2][2] > 0 ? sum - q4 : sum + q4;
+    return { angles: [toDeg(q4), toDeg(q5), toDeg(q6)], singular: true };
+  }
+
+  const sign = flip ? -1 : 1;
+  const q5 = Math.atan2(sign * s5, r36[2][2]);
+  const q4 = Math.atan2(sign * r36[1][2], sign * r36[0][2]);
+  const q6 = Math.atan2(sign * r36[2][1], -sign * r36[2][0]);
+  return { angles: [toDeg(q4), toDeg(q5), toDeg(q6)], singular: false };
+};
+
+/**
+ * 목표 TCP 포즈 → 조인트 해 (해석적 IK, 최대 8개 분기)
+ * @param target 목표 포즈 (mm, degrees)
+ * @param reference 분기 정렬 및 각도 언래핑 기준 (보통 현재 조인트 각도)
+ */
+export const inverseKinematics = (target: RobotPose, reference: number[] = [0, 0, 0, 0, 0, 0]): IKResult => {
+  const [, j2, , j4, , j6] = DH_PARAMETERS;
+  const d1 = DH_PARAMETERS[0].d;
+  const d2 = j2.d;
+  const a2 = j2.a;
+  const d4 = j4.d;
+  const d6 = j6.d;
+  const limits = getSpecJointLimits();
+
+  // 월드 → 플랜지 (base, tool 보정 제거)
+  const flange = multiplyMatrices(
+    multiplyMatrices(BASE_TRANSFORM_INV, poseToMatrix(target)),
+    TOOL_TRANSFORM_INV
+  );
+
+  // 손목 중심
+  const wx = flange[0][3] - d6 * flange[0][2];
+  const wy = flange[1][3] - d6 * flange[1][2];
+  const wz = flange[2][3] - d6 * flange[2][2];
+
+  const radialSq = wx * wx + wy * wy - d2 * d2;
+  if (radialSq < -REACH_TOLERANCE) {
+    return { reachable: false, solutions: [], error: '손목 중심이 어깨 오프셋 안쪽에 있습니다' };
+  }
+
+  const radial = Math.sqrt(Math.max(radialSq, 0));
+  const h = wz - d1;
+  const solutions: IKSolution[] = [];
+
+  [1, -1].forEach(shoulderSign => {
+    const u = shoulderSign * radial;
+    const q1 = Math.atan2(wy, wx) - Math.atan2(d2, u);
+
+    const c3 = (u * u + h * h - a2 * a2 - d4 * d4) / (2 * a2 * d4);
+    if (Math.abs(c3) > 1 + REACH_TOLERANCE) return;
+
+    [1, -1].forEach(elbowSign => {
+      const q3 = elbowSign * Math.acos(Math.max(-1, Math.min(1, c3)));
+      const q2 = Math.atan2(u, h) - Math.atan2(d4 * Math.sin(q3), a2 + d4 * Math.cos(q3));
+
+      // 팔꿈치가 어깨-손목 직선 위쪽인지 판정
+      const elbowCross = u * a2 * Math.cos(q2) - h * a2 * Math.sin(q2);
+      const elbow: IKBranch['elbow'] = elbowCross * (u >= 0 ? 1 : -1) >= 0 ? 'up' : 'down';
+
+      const armJoints = [toDeg(q1), toDeg(q2), toDeg(q3)];
+      let r03 = identityMatrix();
+      for (let i = 0; i < 3; i++) {
+        r03 = multiplyMatrices(r03, dhTransform(DH_PARAMETERS[i], armJoints[i]));
+      }
+      const r36 = multiplyMatrices(invertTransform(r03), flange);
+
+      [false, true].forEach(flip => {
+        const wrist = solveWrist(r36, flip, reference);
+        const raw = [...armJoints, ...wrist.angles];
+        const joints = raw.map((value, index) => unwrapAngle(value, reference[index] || 0, limits[index]));
+        const distance = Math.max(...joints.map((value, index) => Math.abs(value - (reference[index] || 0))));
+
+        const isDuplicate = solutions.some(existing =>
+          existing.joints.every((value, index) => Math.abs(value - joints[index]) < 1e-6)
+        );
+        if (isDuplicate) return;
+
+        solutions.push({
+          joints,
+          branch: { shoulder: u >= 0 ? 'front' : 'back', elbow, wrist: flip ? 'flip' : 'no_flip' },
+          withinLimits: isWithinLimits(joints, limits),
+          distance,
+          singular: wrist.singular
+        });
+      });
+    });
+  });
+
+  if (solutions.length === 0) {
+    return { reachable: false, solutions: [], error: '목표 위치가 작업 영역을 벗어났습니다' };
+  }
+
+  solutions.sort((a, b) => {
+    if (a.withinLimits !== b.withinLimits) return a.withinLimits ? -1 : 1;
+    return a.distance - b.distance;
+  });
+
+  const reachable = solutions.some(solution => solution.withinLimits);
+  return {
+    reachable,
+    solutions,
+    error: reachable ? undefined : '모든 해가 조인트 제한을 벗어납니다'
+  };
+};
+
+/**
+ * 기준 조인트에 가장 가까운 유효 IK 해 (없으면 null)
+ */
+export const solveClosestIK = (target: RobotPose, reference: number[]): number[] | null => {
+  const result = inverseKinematics(target, reference);
+  const best = result.solutions.find(solution => solution.withinLimits);
+  return best ? best.joints : null;
+};
@@ -0,0 +1,233 @@
+/**
+ * 로봇 프로그램 파서 - 텍스트 프로그램을 문장 트리(ProgramStatement[])로 변환
+ * 형식은 types/programTypes.ts 상단 주석 참고
+ */
+import {
+  ComparisonOperator,
+  IfStatement,
+  LoopStatement,
+  ParsedProgram,
+  ProgramDiagnostic,
+  ProgramSensor,
+  ProgramStatement
+} from '../types/programTypes';
+
+const COMPARISON_OPERATORS: ComparisonOperator[] = ['>=', '<=', '==', '!=', '>', '<'];
+const PROGRAM_SENSORS: ProgramSensor[] = ['weight', 'concentration'];
+const MAX_LOOP_COUNT = 1000;
+
+interface OpenBlock {
+  statement: LoopStatement | IfStatement;
+  branch: 'body' | 'then' | 'else';
+}
+
+class ProgramSyntaxError extends Error {}
+
+const parseNumber = (token: string | undefined, label: string): number => {
+  const value = token === undefined ? NaN : Number(token);
+  if (!Number.isFinite(value)) {
+    throw new ProgramSyntaxError(`${label} 값이 숫자가 아닙니다: ${token ?? '(없음)'}`);
+  }
+  return value;
+};
+
+const checkRange = (value: number, min: number, max: number, label: string): number => {
+  if (value < min || value > max) {
+    throw new ProgramSyntaxError(`${label} 은(는) ${min}~${max} 범위여야 합니다 (${value})`);
+  }
+  return value;
+};
+
+// key=value 옵션 분리
+const splitOptions = (tokens: string[]): { args: string[]; options: Record<string, string> } => {
+  const args: string[] = [];
+  const options: Record<string, string> = {};
+  tokens.forEach(token => {
+    const index = token.indexOf('=');
+    if (index > 0 && !COMPARISON_OPERATORS.includes(token as ComparisonOperator)) {
+      options[token.slice(0, index).toLowerCase()] = token.slice(index + 1);
+    } else {
+      args.push(token);
+    }
+  });
+  return { args, options };
+};
+
+const parseMotionOptions = (options: Record<string, string>) => {
+  const result: { speed?: number; acceleration?: number } = {};
+  Object.keys(options).forEach(key => {
+    if (key === 'speed') {
+      result.speed = checkRange(parseNumber(options[key], 'speed'), 1, 100, 'speed');
+    } else if (key === 'accel' || key === 'acceleration') {
+      result.acceleration = checkRange(parseNumber(options[key], key), 1, 100, key);
+    } else {
+      throw new ProgramSyntaxError(`알 수 없는 옵션: ${key}`);
+    }
+  });
+  return result;
+};
+
+const expectArgs = (args: string[], count: number, usage: string): void => {
+  if (args.length !== count) {
+    throw new ProgramSyntaxError(`사용법: ${usage}`);
+  }
+};
+
+const parseCondition = (args: string[]): Pick<IfStatement, 'sensor' | 'operator' | 'value'> => {
+  expectArgs(args, 3, 'if <weight|concentration> <연산자> <값>');
+  const sensor = args[0].toLowerCase() as ProgramSensor;
+  if (!PROGRAM_SENSORS.includes(sensor)) {
+    throw new ProgramSyntaxError(`알 수 없는 센서: ${args[0]} (weight, concentration 중 하나)`);
+  }
+  const operator = args[1] as ComparisonOperator;
+  if (!COMPARISON_OPERATORS.includes(operator)) {
+    throw new ProgramSyntaxError(`알 수 없는 비교 연산자: ${args[1]}`);
+  }
+  return { sensor, operator, value: parseNumber(args[2], '비교') };
+};
+
+/**
+ * 단일 라인 → 문장 (블록 문장은 빈 본문으로 생성)
+ */
+const parseLine = (keyword: string, tokens: string[], line: number): ProgramStatement => {
+  const { args, options } = splitOptions(tokens);
+
+  switch (keyword) {
+    case 'movej': {
+      expectArgs(args, 6, 'moveJ j1 j2 j3 j4 j5 j6 [speed=%] [accel=%]');
+      return {
+        kind: 'moveJ',
+        line,
+        joints: args.map((arg, index) => parseNumber(arg, `J${index + 1}`)),
+        ...parseMotionOptions(options)
+      };
+    }
+    case 'movel': {
+      expectArgs(args, 6, 'moveL x y z rx ry rz [speed=%] [accel=%]');
+      const [x, y, z, rx, ry, rz] = args.map((arg, index) => parseNumber(arg, ['x', 'y', 'z', 'rx', 'ry', 'rz'][index]));
+      return { kind: 'moveL', line, pose: { x, y, z, rx, ry, rz }, ...parseMotionOptions(options) };
+    }
+    case 'wait':
+      expectArgs(args, 1, 'wait <초>');
+      return { kind: 'wait', line, seconds: checkRange(parseNumber(args[0], 'wait'), 0, 3600, 'wait') };
+    case 'set_concentration':
+      expectArgs(args, 1, 'set_concentration <0-100>');
+      return {
+        kind: 'set_concentration',
+        line,
+        target: checkRange(parseNumber(args[0], '농도'), 0, 100, '농도')
+      };
+    case 'wait_weight': {
+      expectArgs(args, 2, 'wait_weight <>=|<=> <g> [timeout=초]');
+      if (args[0] !== '>=' && args[0] !== '<=') {
+        throw new ProgramSyntaxError(`wait_weight 연산자는 >= 또는 <= 입니다: ${args[0]}`);
+      }
+      const unknown = Object.keys(options).filter(key => key !== 'timeout');
+      if (unknown.length > 0) {
+        throw new ProgramSyntaxError(`알 수 없는 옵션: ${unknown.join(', ')}`);
+      }
+      return {
+        kind: 'wait_weight',
+        line,
+        operator: args[0],
+        grams: checkRange(parseNumber(args[1], '무게'), 0, 100000, '무게'),
+        timeout: options.timeout !== undefined
+          ? checkRange(parseNumber(options.timeout, 'timeout'), 0.1, 3600, 'timeout')
+          : undefined
+      };
+    }
+    case 'loop': {
+      expectArgs(args, 1, 'loop <횟수>');
+      const count = checkRange(parseNumber(args[0], 'loop'), 1, MAX_LOOP_COUNT, 'loop');
+      if (!Number.isInteger(count)) {
+        throw new ProgramSyntaxError(`loop 횟수는 정수여야 합니다 (${count})`);
+      }
+      return { kind: 'loop', line, count, body: [] };
+    }
+    case 'if':
+      return { kind: 'if', line, ...parseCondition(args), then: [], else: [] };
+    default:
+      throw new ProgramSyntaxError(`알 수 없는 명령: ${keyword}`);
+  }
+};
+
+/**
+ * 프로그램 파싱 - 오류가 있어도 가능한 만큼 문장을 만들고 errors 에 라인별로 기록
+ */
+export const parseProgram = (source: string): ParsedProgram => {
+  const lines = source.split(/\r?\n/);
+  const statements: ProgramStatement[] = [];
+  const errors: ProgramDiagnostic[] = [];
+  const stack: OpenBlock[] = [];
+
+  const currentTarget = (): ProgramStatement[] => {
+    if (stack.length === 0) return statements;
+    const { statement, branch } = stack[stack.length - 1];
+    return statement.kind === 'loop' ? statement.body : statement[branch as 'then' | 'else'];
+  };
+
+  lines.forEach((rawLine, index) => {
+    const line = index + 1;
+    const text = rawLine.split('#')[0].trim();
+    if (!text) return;
+
+    const [head, ...tokens] = text.split(/\s+/);
+    const keyword = head.toLowerCase();
+
+    try {
+      if (keyword === 'end') {
+        if (tokens.length > 0) throw new ProgramSyntaxError('end 뒤에는 인자가 없어야 합니다');
+        if (!stack.pop()) throw new ProgramSyntaxError('짝이 맞지 않는 end');
+        return;
+      }
+      if (keyword === 'else') {
+        const top = stack[stack.length - 1];
+        if (!top || top.statement.kind !== 'if' || top.branch === 'else') {
+          throw new ProgramSyntaxError('else 는 if 블록 안에서 한 번만 사용할 수 있습니다');
+        }
+        top.branch = 'else';
+        return;
+      }
+
+      const statement = parseLine(keyword, tokens, line);
+      currentTarget().push(statement);
+      if (statement.kind === 'loop') {
+        stack.push({ statement, branch: 'body' });
+      } else if (statement.kind === 'if') {
+        stack.push({ statement, branch: 'then' });
+      }
+    } catch (error) {
+      if (!(error instanceof ProgramSyntaxError)) throw error;
+      errors.push({ line, severity: 'error', message: error.message });
+    }
+  });
+
+  stack.forEach(({ statement }) => {
+    errors.push({ line: statement.line, severity: 'error', message: `${statement.kind} 블록이 end 로 닫히지 않았습니다` });
+  });
+
+  return { statements, totalLines: lines.length, errors };
+};
+
+/**
+ * 실행 예상 동작 수 (루프는 반복 횟수만큼, if 는 긴 분기 기준) - 진행률 계산용
+ */
+export const countProgramSteps = (statements: ProgramStatement[]): number =>
+  statements.reduce((total, statement) => {
+    if (statement.kind === 'loop') return total + statement.count * countProgramSteps(statement.body);
+    if (statement.kind === 'if') {
+      return total + Math.max(countProgramSteps(statement.then), countProgramSteps(statement.else));
+    }
+    return total + 1;
+  }, 0);
+
+export const compareValues = (left: number, operator: ComparisonOperator, right: number): boolean => {
+  switch (operator) {
+    case '>': return left > right;
+    case '>=': return left >= right;
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '==': return left === right;
+    case '!=': return left !== right;
+  }
+};
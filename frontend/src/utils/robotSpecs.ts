@@ -0,0 +1,36 @@
+/**
+ * 로봇 사양 접근 유틸리티
+ * configs/robot/m0609_specs.json 을 단일 소스로 사용
+ */
+import m0609Specs from '../../../configs/robot/m0609_specs.json';
+import { RobotSpecs, SpecJointKey, JointLimits } from '../types/robotTypes';
+
+export const ROBOT_SPECS: RobotSpecs = m0609Specs as RobotSpecs;
+
+export const SPEC_JOINT_KEYS: SpecJointKey[] = [
+  'joint_1', 'joint_2', 'joint_3', 'joint_4', 'joint_5', 'joint_6'
+];
+
+// 조인트 위치 제한 (degrees)
+export const getSpecJointLimits = (): JointLimits[] => {
+  return SPEC_JOINT_KEYS.map(key => {
+    const [min, max] = ROBOT_SPECS.specifications.joint_limits[key];
+    return { min, max };
+  });
+};
+
+// 조인트 최대 속도 (deg/s)
+export const getSpecJointMaxVelocities = (): number[] => {
+  return SPEC_JOINT_KEYS.map(key => ROBOT_SPECS.specifications.joint_max_velocities[key]);
+};
+
+// TCP 최대 속도 (linear: mm/s, angular: deg/s)
+export const getSpecTcpMaxVelocity = (): { linear: number; angular: number } => {
+  return { ...ROBOT_SPECS.specifications.tcp_max_velocity };
+};
+
+export const getSpecMaxReach = (): number => {
+  return ROBOT_SPECS.specifications.max_reach;
+};
+
+export default ROBOT_SPECS;
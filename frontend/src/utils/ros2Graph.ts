@@ -0,0 +1,89 @@
+/**
+ * ROS2 그래프 헬퍼 - 스냅샷 비교, 네임스페이스 트리 구성, 상태 메시지의 토픽 참조 추출
+ */
+import { NamespaceTreeNode } from '../types/ros2GraphTypes';
+
+/**
+ * 이전/현재 이름 목록 비교
+ */
+export const diffNames = (previous: string[], current: string[]): { added: string[]; removed: string[] } => {
+  const before = new Set(previous);
+  const after = new Set(current);
+  return {
+    added: current.filter(name => !before.has(name)),
+    removed: previous.filter(name => !after.has(name))
+  };
+};
+
+/**
+ * 이름의 네임스페이스 - '/dsr01/dsr_controller2' → '/dsr01', '/rosout' → '/'
+ */
+export const namespaceOf = (name: string): string => {
+  const index = name.lastIndexOf('/');
+  return index > 0 ? name.slice(0, index) : '/';
+};
+
+const compareNodes = (a: NamespaceTreeNode, b: NamespaceTreeNode): number => {
+  // 네임스페이스(자식 있음)를 먼저, 같은 종류끼리는 이름순
+  if ((a.children.length > 0) !== (b.children.length > 0)) return a.children.length > 0 ? -1 : 1;
+  return a.segment.localeCompare(b.segment);
+};
+
+/**
+ * '/' 단위 네임스페이스 트리 - query 가 있으면 이름에 포함된 항목만 (대소문자 무시)
+ */
+export const buildNamespaceTree = (names: string[], query = ''): NamespaceTreeNode[] => {
+  const root: NamespaceTreeNode = { segment: '', path: '', name: null, children: [], leafCount: 0 };
+  const needle = query.trim().toLowerCase();
+
+  names
+    .filter(name => !needle || name.toLowerCase().includes(needle))
+    .forEach(name => {
+      let node = root;
+      node.leafCount++;
+      name.split('/').filter(Boolean).forEach(segment => {
+        const path = `${node.path}/${segment}`;
+        let child = node.children.find(existing => existing.path === path);
+        if (!child) {
+          child = { segment, path, name: null, children: [], leafCount: 0 };
+          node.children.push(child);
+        }
+        child.leafCount++;
+        node = child;
+      });
+      node.name = name;
+    });
+
+  const sort = (nodes: NamespaceTreeNode[]) => {
+    nodes.sort(compareNodes);
+    nodes.forEach(node => sort(node.children));
+  };
+  sort(root.children);
+  return root.children;
+};
+
+const NAME_CHAR = /[A-Za-z0-9_/]/;
+
+// token 이 다른 이름의 일부가 아닌 독립된 단어로 나오는지 ('tf' 는 'tf_static' 에 매칭되지 않음)
+const mentions = (text: string, token: string): boolean => {
+  let index = text.indexOf(token);
+  while (index !== -1) {
+    const before = text.charAt(index - 1);
+    const after = text.charAt(index + token.length);
+    if (!NAME_CHAR.test(before) && !NAME_CHAR.test(after)) return true;
+    index = text.indexOf(token, index + 1);
+  }
+  return false;
+};
+
+/**
+ * 상태 메시지(issue/recommendation)가 언급하는 이름 - 선행 '/' 없이 적힌 경우도 인정, 긴 이름부터
+ */
+export const findReferencedNames = (text: string, names: string[]): string[] => {
+  return names
+    .filter(name => {
+      const bare = name.replace(/^\//, '');
+      return bare !== '' && (mentions(text, name) || mentions(text, bare));
+    })
+    .sort((a, b) => b.length - a.length);
+};
@@ -0,0 +1,115 @@
+/**
+ * 안전 상호작용 규칙 - 명령 분류별 확인 방식과 큰 이동 판정
+ * 분류별 방식은 설정(AppSettings.safety)에서 바꿀 수 있고, 대화상자/hold-to-run 은 SafetyInteractionContext 가 담당
+ */
+import { RobotPose } from '../types/robotTypes';
+import {
+  SafetyInteractionCategory,
+  SafetyInteractionMode,
+  SafetyInteractionPreferences
+} from '../types/settingsTypes';
+
+export const SAFETY_INTERACTION_CATEGORIES: SafetyInteractionCategory[] = [
+  'power',
+  'motor',
+  'safety_mode',
+  'emergency_release',
+  'protective_release',
+  'large_move',
+  'program_start'
+];
+
+export const SAFETY_CATEGORY_LABELS: Record<SafetyInteractionCategory, string> = {
+  power: '로봇 전원',
+  motor: '모터 활성화',
+  safety_mode: '안전 모드 변경',
+  emergency_release: '비상정지 해제',
+  protective_release: '보호 정지 해제',
+  large_move: '큰 이동',
+  program_start: '프로그램 시작'
+};
+
+export const SAFETY_MODE_LABELS: Record<SafetyInteractionMode, string> = {
+  none: '바로 실행',
+  confirm: '확인 대화상자',
+  typed: '확인 문구 입력',
+  hold: '누르고 있는 동안 실행 (hold-to-run)'
+};
+
+// 입력 확인(typed) 시 따라 입력할 문구 - IME 없이 입력할 수 있도록 영문
+export const SAFETY_CONFIRM_PHRASES: Record<SafetyInteractionCategory, string> = {
+  power: 'POWER',
+  motor: 'MOTOR',
+  safety_mode: 'SAFETY',
+  emergency_release: 'RELEASE',
+  protective_release: 'RELEASE',
+  large_move: 'MOVE',
+  program_start: 'RUN'
+};
+
+// hold-to-run 은 놓으면 정지 명령으로 멈출 수 있는 동작에만 의미가 있음
+export const HOLD_CAPABLE_CATEGORIES: SafetyInteractionCategory[] = ['large_move', 'program_start'];
+
+export const DEFAULT_SAFETY_INTERACTION: SafetyInteractionPreferences = {
+  modes: {
+    power: 'confirm',
+    motor: 'confirm',
+    safety_mode: 'typed',
+    emergency_release: 'typed',
+    protective_release: 'confirm',
+    large_move: 'confirm',
+    program_start: 'confirm'
+  },
+  largeJointMove: 30,
+  largeLinearMove: 100,
+  heartbeatTimeout: 1500
+};
+
+export const isHoldCapable = (category: SafetyInteractionCategory): boolean =>
+  HOLD_CAPABLE_CATEGORIES.includes(category);
+
+/**
+ * 관절 이동량 (deg) - 가장 많이 움직이는 관절 기준
+ */
+export const jointMoveMagnitude = (current: number[], target: number[]): number =>
+  target.reduce((max, angle, index) => Math.max(max, Math.abs(angle - (current[index] ?? 0))), 0);
+
+/**
+ * TCP 이동 거리 (mm)
+ */
+export const linearMoveMagnitude = (current: Pick<RobotPose, 'x' | 'y' | 'z'>, target: Pick<RobotPose, 'x' | 'y' | 'z'>): number =>
+  Math.sqrt((target.x - current.x) ** 2 + (target.y - current.y) ** 2 + (target.z - current.z) ** 2);
+
+export const isLargeJointMove = (current: number[], target: number[], preferences: SafetyInteractionPreferences): boolean =>
+  jointMoveMagnitude(current, target) > preferences.largeJointMove;
+
+export const isLargeLinearMove = (
+  current: Pick<RobotPose, 'x' | 'y' | 'z'>,
+  target: Pick<RobotPose, 'x' | 'y' | 'z'>,
+  preferences: SafetyInteractionPreferences
+): boolean => linearMoveMagnitude(current, target) > preferences.largeLinearMove;
+
+/**
+ * 설정 검증 오류 목록
+ */
+export const getSafetyInteractionErrors = (preferences: SafetyInteractionPreferences): string[] => {
+  const errors: string[] = [];
+  SAFETY_INTERACTION_CATEGORIES.forEach(category => {
+    const mode = preferences.modes[category];
+    if (!(mode in SAFETY_MODE_LABELS)) {
+      errors.push(`안전 상호작용 ${SAFETY_CATEGORY_LABELS[category]}: 알 수 없는 방식 ${mode}`);
+    } else if (mode === 'hold' && !isHoldCapable(category)) {
+      errors.push(`안전 상호작용 ${SAFETY_CATEGORY_LABELS[category]}: hold-to-run 은 이동/프로그램 시작에만 사용할 수 있습니다`);
+    }
+  });
+  if (!Number.isFinite(preferences.largeJointMove) || preferences.largeJointMove <= 0 || preferences.largeJointMove > 360) {
+    errors.push('큰 관절 이동 기준은 0~360° 범위여야 합니다');
+  }
+  if (!Number.isFinite(preferences.largeLinearMove) || preferences.largeLinearMove <= 0) {
+    errors.push('큰 직선 이동 기준은 0 mm 보다 커야 합니다');
+  }
+  if (!Number.isFinite(preferences.heartbeatTimeout) || preferences.heartbeatTimeout < 300 || preferences.heartbeatTimeout > 10000) {
+    errors.push('hold-to-run 하트비트 제한 시간은 300~10000 ms 범위여야 합니다');
+  }
+  return errors;
+};
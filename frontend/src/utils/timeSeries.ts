@@ -0,0 +1,84 @@
+/**
+ * 센서 히스토리 롤업 계산 - 버킷 정렬/병합과 조회 범위별 해상도 선택
+ * 저장(IndexedDB)과 보관 기간 정리는 timeSeriesStore 가 담당
+ */
+import { SensorHistoryRange, TimeSeriesBucket, TimeSeriesPoint, TimeSeriesResolution } from '../types/sensorTypes';
+
+// 세밀한 해상도부터
+export const TIME_SERIES_RESOLUTIONS: TimeSeriesResolution[] = ['1s', '1m', '1h'];
+
+export const RESOLUTION_MS: Record<TimeSeriesResolution, number> = {
+  '1s': 1000,
+  '1m': 60 * 1000,
+  '1h': 60 * 60 * 1000
+};
+
+export const HISTORY_RANGE_MS: Record<SensorHistoryRange, number> = {
+  '1h': 60 * 60 * 1000,
+  '6h': 6 * 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000
+};
+
+export const isHistoryRange = (value: string): value is SensorHistoryRange => value in HISTORY_RANGE_MS;
+
+/**
+ * 버킷 구간 시작 시각 (ms epoch)
+ */
+export const bucketStart = (timestamp: number, resolution: TimeSeriesResolution): number =>
+  Math.floor(timestamp / RESOLUTION_MS[resolution]) * RESOLUTION_MS[resolution];
+
+/**
+ * 조회 구간을 maxPoints 이하로 표시할 수 있는 가장 세밀한 해상도
+ */
+export const selectResolution = (rangeMs: number, maxPoints: number): TimeSeriesResolution =>
+  TIME_SERIES_RESOLUTIONS.find(resolution => rangeMs / RESOLUTION_MS[resolution] <= maxPoints) || '1h';
+
+/**
+ * 샘플 하나를 버킷에 누적
+ */
+export const addSample = (bucket: TimeSeriesBucket, value: number): void => {
+  bucket.min = Math.min(bucket.min, value);
+  bucket.max = Math.max(bucket.max, value);
+  bucket.sum += value;
+  bucket.count += 1;
+};
+
+/**
+ * 같은 구간의 다른 버킷을 누적 (저장된 값 + 메모리 값 병합)
+ */
+export const mergeBucket = (target: TimeSeriesBucket, other: Pick<TimeSeriesBucket, 'min' | 'max' | 'sum' | 'count'>): void => {
+  target.min = Math.min(target.min, other.min);
+  target.max = Math.max(target.max, other.max);
+  target.sum += other.sum;
+  target.count += other.count;
+};
+
+export const toPoint = (bucket: TimeSeriesBucket): TimeSeriesPoint => ({
+  timestamp: bucket.timestamp,
+  min: bucket.min,
+  max: bucket.max,
+  avg: bucket.count > 0 ? bucket.sum / bucket.count : 0,
+  count: bucket.count
+});
+
+/**
+ * 롤업 점을 interval(ms) 구간으로 재집계 - min/max 는 구간 극값, avg 는 샘플 수 가중 평균
+ */
+export const resamplePoints = (points: TimeSeriesPoint[], interval: number): TimeSeriesPoint[] => {
+  const bins = new Map<number, TimeSeriesPoint>();
+  points.forEach(point => {
+    const start = Math.floor(point.timestamp / interval) * interval;
+    const bin = bins.get(start);
+    if (!bin) {
+      bins.set(start, { ...point, timestamp: start });
+      return;
+    }
+    const count = bin.count + point.count;
+    bin.avg = count > 0 ? (bin.avg * bin.count + point.avg * point.count) / count : 0;
+    bin.min = Math.min(bin.min, point.min);
+    bin.max = Math.max(bin.max, point.max);
+    bin.count = count;
+  });
+  return Array.from(bins.values()).sort((a, b) => a.timestamp - b.timestamp);
+};
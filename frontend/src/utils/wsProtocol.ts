@@ -0,0 +1,91 @@
+/**
+ * 백엔드 WebSocket 프로토콜 - 버전 협상과 수신 프레임 런타임 검증
+ * 프레임 종류/필드는 configs/websocket/protocol.json 에서 읽음 (백엔드 backend/src/services/wsProtocol.js 와 같은 스키마)
+ * 프레임 타입 정의는 types/wsProtocolTypes.ts
+ */
+import wsProtocolSchema from '../../../configs/websocket/protocol.json';
+import {
+  WsErrorCode,
+  WsFrameValidation,
+  WsProtocolMode,
+  WsServerFrame,
+  WsServerFrameType,
+  WsServerHelloFrame
+} from '../types/wsProtocolTypes';
+
+export const WS_PROTOCOL_VERSION: number = wsProtocolSchema.version;
+export const WS_MIN_PROTOCOL_VERSION: number = Math.min(...wsProtocolSchema.supported_versions);
+
+type FieldKind = 'string' | 'number' | 'array' | 'present';
+
+interface FrameSchema {
+  required: Record<string, FieldKind>;
+  optional?: Record<string, FieldKind>;
+}
+
+// 스키마에 타입 정의의 모든 서버 프레임 종류가 있는지 컴파일 시점에 확인
+const serverFrames: Record<WsServerFrameType, unknown> = wsProtocolSchema.server_frames;
+const SERVER_FRAME_FIELDS = serverFrames as Record<WsServerFrameType, FrameSchema>;
+const ERROR_CODES = wsProtocolSchema.error_codes as Record<keyof typeof wsProtocolSchema.error_codes, WsErrorCode>;
+
+const matchesKind = (value: any, kind: FieldKind): boolean => {
+  if (kind === 'present') return value !== undefined;
+  if (kind === 'array') return Array.isArray(value);
+  return typeof value === kind;
+};
+
+const invalid = (code: WsErrorCode, message: string, type?: string): WsFrameValidation<never> => ({ ok: false, code, message, type });
+
+export const isServerFrameType = (type: any): type is WsServerFrameType =>
+  typeof type === 'string' && Object.prototype.hasOwnProperty.call(SERVER_FRAME_FIELDS, type);
+
+/**
+ * 서버 프레임 검증 - 종류와 필수 필드 이름/타입을 확인 (필드 이름 불일치로 데이터가 조용히 사라지는 것 방지)
+ */
+export const validateServerFrame = (raw: any): WsFrameValidation<WsServerFrame> => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return invalid(ERROR_CODES.INVALID_FRAME, '프레임이 객체가 아닙니다');
+  }
+  if (!isServerFrameType(raw.type)) {
+    return invalid(ERROR_CODES.UNKNOWN_TYPE, `알 수 없는 프레임 종류: ${String(raw.type)}`, raw.type);
+  }
+
+  const { required, optional = {} } = SERVER_FRAME_FIELDS[raw.type as WsServerFrameType];
+  for (const [field, kind] of Object.entries(required)) {
+    if (!matchesKind(raw[field], kind)) {
+      return invalid(ERROR_CODES.INVALID_FRAME, `${raw.type} 프레임의 ${field} 필드가 없거나 형식이 다릅니다`, raw.type);
+    }
+  }
+  for (const [field, kind] of Object.entries(optional)) {
+    if (raw[field] !== undefined && raw[field] !== null && !matchesKind(raw[field], kind)) {
+      return invalid(ERROR_CODES.INVALID_FRAME, `${raw.type} 프레임의 ${field} 필드 형식이 다릅니다`, raw.type);
+    }
+  }
+
+  return { ok: true, frame: raw as WsServerFrame };
+};
+
+/**
+ * 버전 협상 - 서버 환영 프레임의 protocolVersion 으로 동작 모드 결정
+ * 버전이 없으면 구버전 서버(호환 모드), 지원 범위 밖이면 error 와 함께 호환 모드
+ */
+export const negotiateProtocol = (hello: WsServerHelloFrame): { mode: WsProtocolMode; version: number; error?: string } => {
+  const serverVersion = hello.protocolVersion;
+  if (typeof serverVersion !== 'number') {
+    return { mode: 'compat', version: 0 };
+  }
+
+  const serverVersions = hello.supportedVersions?.length ? hello.supportedVersions : [serverVersion];
+  const common = serverVersions
+    .filter(version => version >= WS_MIN_PROTOCOL_VERSION && version <= WS_PROTOCOL_VERSION)
+    .sort((a, b) => b - a)[0];
+
+  if (common === undefined) {
+    return {
+      mode: 'compat',
+      version: serverVersion,
+      error: `지원하지 않는 서버 프로토콜 버전 v${serverVersion} (클라이언트 v${WS_MIN_PROTOCOL_VERSION}~v${WS_PROTOCOL_VERSION})`
+    };
+  }
+  return { mode: 'strict', version: common };
+};
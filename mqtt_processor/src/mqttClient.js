@@ -83,7 +83,8 @@ class MqttClient extends EventEmitter {
           { topic: 'scale/ukf', qos: 0 },
           { topic: 'test', qos: 1 },
           { topic: 'system/health', qos: 1 },
-          { topic: 'robot/status', qos: 1 }
+          { topic: 'robot/status', qos: 1 },
+          { topic: 'robot/response', qos: 1 }
         ]
       },
       websocket: {